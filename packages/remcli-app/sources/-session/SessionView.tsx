@@ -20,6 +20,7 @@ import { t } from '@/text';
 import { tracking, trackMessageSent } from '@/track';
 import type { ModelMode } from '@/components/PermissionModeSelector';
 import { isRunningOnMac } from '@/utils/platform';
+import { AttachmentDraft, MAX_ATTACHMENT_BYTES, pickFileAttachments, pickImageAttachments } from '@/utils/attachments';
 import { useDeviceType, useHeaderHeight, useIsLandscape, useIsTablet } from '@/utils/responsive';
 import { formatPathRelativeToHome, getSessionAvatarId, getSessionName, useSessionStatus } from '@/utils/sessionUtils';
 import { isVersionSupported, MINIMUM_CLI_VERSION } from '@/utils/versionUtils';
@@ -179,6 +180,29 @@ function SessionViewLoaded({ sessionId, session }: { sessionId: string, session:
 
     // Use draft hook for auto-saving message drafts
     const { clearDraft } = useDraft(sessionId, message, setMessage);
+    const [attachments, setAttachments] = React.useState<AttachmentDraft[]>([]);
+
+    const addAttachments = React.useCallback(async (pick: () => Promise<AttachmentDraft[]>) => {
+        try {
+            const picked = await pick();
+            const accepted = picked.filter((a) => a.size <= MAX_ATTACHMENT_BYTES);
+            if (accepted.length < picked.length) {
+                Modal.alert(t('common.error'), t('session.attachmentTooLarge', { size: Math.round(MAX_ATTACHMENT_BYTES / (1024 * 1024)) }));
+            }
+            setAttachments((current) => [...current, ...accepted]);
+        } catch (error) {
+            console.error('Failed to pick attachment:', error);
+            Modal.alert(t('common.error'), t('session.attachmentFailed'));
+        }
+    }, []);
+
+    const handleAttachPress = React.useCallback(() => {
+        Modal.alert(t('session.attach'), undefined, [
+            { text: t('session.attachPhoto'), onPress: () => addAttachments(pickImageAttachments) },
+            { text: t('session.attachFile'), onPress: () => addAttachments(pickFileAttachments) },
+            { text: t('common.cancel'), style: 'cancel' },
+        ]);
+    }, [addAttachments]);
 
     // Handle dismissing CLI version warning
     const handleDismissCliWarning = React.useCallback(() => {
@@ -292,13 +316,20 @@ function SessionViewLoaded({ sessionId, session }: { sessionId: string, session:
                 isPulsing: sessionStatus.isPulsing
             }}
             onSend={() => {
-                if (message.trim()) {
+                if (message.trim() || attachments.length > 0) {
                     setMessage('');
+                    setAttachments([]);
                     clearDraft();
-                    sync.sendMessage(sessionId, message);
+                    sync.sendMessage(sessionId, message, undefined, attachments).catch((error) => {
+                        console.error('Failed to send message:', error);
+                        Modal.alert(t('common.error'), t('session.attachmentFailed'));
+                    });
                     trackMessageSent();
                 }
             }}
+            attachments={attachments}
+            onAttachPress={handleAttachPress}
+            onRemoveAttachment={(index) => setAttachments((current) => current.filter((_, i) => i !== index))}
             onMicPress={micButtonState.onMicPress}
             isMicActive={micButtonState.isMicActive}
             onAbort={() => sessionAbort(sessionId)}
@@ -1,4 +1,4 @@
-import { Stack } from 'expo-router';
+import { Stack, useRouter } from 'expo-router';
 import 'react-native-reanimated';
 import * as React from 'react';
 import { Typography } from '@/constants/Typography';
@@ -7,6 +7,8 @@ import { Platform, TouchableOpacity, Text } from 'react-native';
 import { isRunningOnMac } from '@/utils/platform';
 import { useUnistyles } from 'react-native-unistyles';
 import { t } from '@/text';
+import * as Notifications from 'expo-notifications';
+import { sync } from '@/sync/sync';
 
 export const unstable_settings = {
     initialRouteName: 'index',
@@ -16,6 +18,20 @@ export default function RootLayout() {
     // Use custom header on Android and Mac Catalyst, native header on iOS (non-Catalyst)
     const shouldUseCustomHeader = Platform.OS === 'android' || isRunningOnMac() || Platform.OS === 'web';
     const { theme } = useUnistyles();
+    const router = useRouter();
+
+    // Open the session when a local notification is tapped
+    const lastNotificationResponse = Notifications.useLastNotificationResponse();
+    React.useEffect(() => {
+        const data = lastNotificationResponse?.notification.request.content.data as { notificationId?: string; sessionId?: string | null } | undefined;
+        if (!data?.notificationId) {
+            return;
+        }
+        sync.markNotificationsSeen([data.notificationId]);
+        if (data.sessionId) {
+            router.push(`/session/${data.sessionId}`);
+        }
+    }, [lastNotificationResponse]);
 
     return (
         <Stack
@@ -48,7 +64,7 @@ export default function RootLayout() {
             <Stack.Screen
                 name="inbox/index"
                 options={{
-                    headerShown: false,
+                    headerShown: true,
                     headerTitle: t('tabs.inbox'),
                     headerBackTitle: t('common.home')
                 }}
@@ -83,6 +99,22 @@ export default function RootLayout() {
                     headerBackTitle: t('common.back'),
                 }}
             />
+            <Stack.Screen
+                name="session/[id]/permissions"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('permissionRules.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
+            <Stack.Screen
+                name="session/[id]/run"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('runCommand.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
             <Stack.Screen
                 name="session/[id]/files"
                 options={{
@@ -117,6 +149,12 @@ export default function RootLayout() {
                     headerTitle: t('settings.features'),
                 }}
             />
+            <Stack.Screen
+                name="settings/devices"
+                options={{
+                    headerTitle: t('settings.devices'),
+                }}
+            />
             <Stack.Screen
                 name="terminal/connect"
                 options={{
@@ -266,6 +304,14 @@ export default function RootLayout() {
                     headerTitle: 'Multi Text Input',
                 }}
             />
+            <Stack.Screen
+                name="session/search"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('sessionSearch.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
             <Stack.Screen
                 name="session/recent"
                 options={{
@@ -289,6 +335,30 @@ export default function RootLayout() {
                     // },
                 }}
             />
+            <Stack.Screen
+                name="machine/[id]/schedule"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('schedules.addTitle'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
+            <Stack.Screen
+                name="machine/[id]/usage"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('usage.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
+            <Stack.Screen
+                name="machine/[id]/terminal"
+                options={{
+                    headerShown: true,
+                    headerTitle: t('remoteTerminal.title'),
+                    headerBackTitle: t('common.back'),
+                }}
+            />
             <Stack.Screen
                 name="new/pick/machine"
                 options={{
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useUnistyles } from 'react-native-unistyles';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { UpdateBanner } from '@/components/UpdateBanner';
+import { t } from '@/text';
+import { sync } from '@/sync/sync';
+import { useNotifications } from '@/sync/storage';
+import { InboxNotification } from '@/sync/storageTypes';
+import { describeNotification } from '@/sync/localNotifications';
+import { formatLastSeen } from '@/utils/sessionUtils';
+
+function notificationIcon(kind: InboxNotification['kind']): React.ComponentProps<typeof Ionicons>['name'] {
+    switch (kind) {
+        case 'permission':
+            return 'hand-left-outline';
+        case 'turn-finished':
+            return 'checkmark-circle-outline';
+        case 'session-crashed':
+            return 'warning-outline';
+        case 'message':
+            return 'chatbubble-ellipses-outline';
+    }
+}
+
+export default React.memo(() => {
+    const { theme } = useUnistyles();
+    const router = useRouter();
+    const notifications = useNotifications();
+    const unseen = notifications.filter((n) => n.seenAt === null);
+    const seen = notifications.filter((n) => n.seenAt !== null);
+
+    const handlePress = (notification: InboxNotification) => {
+        sync.markNotificationsSeen([notification.id]);
+        if (notification.sessionId) {
+            router.push(`/session/${notification.sessionId}`);
+        }
+    };
+
+    const renderItem = (notification: InboxNotification) => {
+        const { title, body } = describeNotification(notification);
+        return (
+            <Item
+                key={notification.id}
+                title={title}
+                subtitle={body}
+                detail={formatLastSeen(notification.createdAt)}
+                icon={<Ionicons name={notificationIcon(notification.kind)} size={29} color={notification.kind === 'session-crashed' ? theme.colors.textDestructive : theme.colors.textSecondary} />}
+                onPress={() => handlePress(notification)}
+                showChevron={!!notification.sessionId}
+            />
+        );
+    };
+
+    return (
+        <ItemList style={{ paddingTop: 0 }}>
+            <UpdateBanner />
+            {notifications.length === 0 && (
+                <ItemGroup footer={t('inbox.emptyNotificationsDescription')}>
+                    <Item
+                        title={t('inbox.emptyTitle')}
+                        showChevron={false}
+                    />
+                </ItemGroup>
+            )}
+            {unseen.length > 0 && (
+                <ItemGroup title={t('inbox.new')}>
+                    {unseen.map(renderItem)}
+                    <Item
+                        title={t('inbox.markAllSeen')}
+                        icon={<Ionicons name="checkmark-done-outline" size={29} color={theme.colors.textLink} />}
+                        onPress={() => sync.markNotificationsSeen()}
+                        showChevron={false}
+                    />
+                </ItemGroup>
+            )}
+            {seen.length > 0 && (
+                <ItemGroup title={t('inbox.earlier')}>
+                    {seen.map(renderItem)}
+                </ItemGroup>
+            )}
+        </ItemList>
+    );
+});
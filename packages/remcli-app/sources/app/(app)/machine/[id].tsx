@@ -1,6 +1,7 @@
-import React, { useState, useMemo, useCallback, useRef } from 'react';
+import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
 import { View, Text, ScrollView, ActivityIndicator, RefreshControl, Platform, Pressable, TextInput } from 'react-native';
 import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
 import { Item } from '@/components/Item';
 import { ItemGroup } from '@/components/ItemGroup';
 import { ItemList } from '@/components/ItemList';
@@ -8,9 +9,19 @@ import { Typography } from '@/constants/Typography';
 import { useSessions, useAllMachines, useMachine } from '@/sync/storage';
 import { Ionicons, Octicons } from '@expo/vector-icons';
 import type { Session } from '@/sync/storageTypes';
-import { machineStopDaemon, machineUpdateMetadata } from '@/sync/ops';
+import {
+    machineStopDaemon,
+    machineUpdateMetadata,
+    machineAuditLog,
+    machineListSchedules,
+    machineRunSchedule,
+    machineUpdateSchedule,
+    machineRemoveSchedule,
+    type MachineAuditEntry,
+    type MachineSchedule
+} from '@/sync/ops';
 import { Modal } from '@/modal';
-import { formatPathRelativeToHome, getSessionName, getSessionSubtitle } from '@/utils/sessionUtils';
+import { formatLastSeen, formatPathRelativeToHome, getSessionName, getSessionSubtitle } from '@/utils/sessionUtils';
 import { isMachineOnline } from '@/utils/machineUtils';
 import { sync } from '@/sync/sync';
 import { useUnistyles, StyleSheet } from 'react-native-unistyles';
@@ -20,6 +31,62 @@ import { machineSpawnNewSession } from '@/sync/ops';
 import { resolveAbsolutePath } from '@/utils/pathUtils';
 import { MultiTextInput, type MultiTextInputHandle } from '@/components/MultiTextInput';
 
+function auditEntryIcon(entry: MachineAuditEntry): React.ComponentProps<typeof Ionicons>['name'] {
+    switch (entry.type) {
+        case 'rpc': return 'swap-horizontal-outline';
+        case 'session-spawn': return 'play-circle-outline';
+        case 'session-stop': return 'stop-circle-outline';
+        case 'permission': return 'shield-checkmark-outline';
+        case 'auth-failure': return 'warning-outline';
+    }
+}
+
+function auditEntryTitle(entry: MachineAuditEntry): string {
+    switch (entry.type) {
+        case 'rpc': return t('machine.auditRpc', { method: entry.method.slice(entry.method.indexOf(':') + 1) });
+        case 'session-spawn': return t('machine.auditSessionSpawn');
+        case 'session-stop': return t('machine.auditSessionStop');
+        case 'permission': return t('machine.auditPermission', { tool: entry.tool });
+        case 'auth-failure': return t('machine.auditAuthFailure');
+    }
+}
+
+function scheduleRunText(job: MachineSchedule): string {
+    const run = job.runs[0];
+    if (!run) {
+        return t('schedules.neverRun');
+    }
+    const time = formatLastSeen(run.startedAt);
+    switch (run.status) {
+        case 'started': return t('schedules.runStarted', { time });
+        case 'skipped': return t('schedules.runSkipped', { time });
+        case 'failed': return run.error ? `${t('schedules.runFailed', { time })}: ${run.error}` : t('schedules.runFailed', { time });
+    }
+}
+
+// Raw details, kept close to what `remcli daemon audit` prints
+function auditEntryDetails(entry: MachineAuditEntry): string {
+    switch (entry.type) {
+        case 'rpc':
+            return [
+                entry.result === 'ok' ? 'ok' : `error: ${entry.error ?? 'unknown'}`,
+                `${entry.durationMs}ms`,
+                entry.deviceId && `device=${entry.deviceId}`,
+            ].filter(Boolean).join(' · ');
+        case 'session-spawn':
+            return [
+                `${entry.agent ?? 'claude'} in ${entry.directory}`,
+                entry.result === 'error' ? `error: ${entry.error ?? 'unknown'}` : entry.result,
+            ].join(' · ');
+        case 'session-stop':
+            return `session=${entry.sessionId ?? '?'} pid=${entry.pid} (${entry.reason})`;
+        case 'permission':
+            return [entry.decision, entry.mode, `session=${entry.sessionId}`].filter(Boolean).join(' · ');
+        case 'auth-failure':
+            return [entry.transport, entry.reason, entry.ip].filter(Boolean).join(' · ');
+    }
+}
+
 const styles = StyleSheet.create((theme) => ({
     pathInputContainer: {
         flexDirection: 'row',
@@ -76,6 +143,8 @@ export default function MachineDetailScreen() {
     const [isSpawning, setIsSpawning] = useState(false);
     const inputRef = useRef<MultiTextInputHandle>(null);
     const [showAllPaths, setShowAllPaths] = useState(false);
+    const [auditEntries, setAuditEntries] = useState<MachineAuditEntry[] | null>(null);
+    const [schedules, setSchedules] = useState<MachineSchedule[] | null>(null);
     // Variant D only
 
     const machineSessions = useMemo(() => {
@@ -156,9 +225,76 @@ export default function MachineDetailScreen() {
 
     // inline control below
 
+    const machineOnline = machine ? isMachineOnline(machine) : false;
+
+    const loadAuditLog = useCallback(async () => {
+        if (!machineId || !machineOnline) return;
+        try {
+            setAuditEntries(await machineAuditLog(machineId, 20));
+        } catch (error) {
+            // Older daemons do not have the audit-log RPC
+            console.warn('[MACHINE] Failed to load audit log:', error);
+            setAuditEntries(null);
+        }
+    }, [machineId, machineOnline]);
+
+    useEffect(() => {
+        loadAuditLog();
+    }, [loadAuditLog]);
+
+    const loadSchedules = useCallback(async () => {
+        if (!machineId || !machineOnline) return;
+        try {
+            setSchedules(await machineListSchedules(machineId));
+        } catch (error) {
+            // Older daemons do not have the schedule RPCs
+            console.warn('[MACHINE] Failed to load schedules:', error);
+            setSchedules(null);
+        }
+    }, [machineId, machineOnline]);
+
+    // Also reloads after adding a schedule on the form screen
+    useFocusEffect(
+        useCallback(() => {
+            loadSchedules();
+        }, [loadSchedules])
+    );
+
+    const handleSchedulePress = (job: MachineSchedule) => {
+        const lastSessionId = job.runs.find(run => run.sessionId)?.sessionId;
+        const runAction = async (action: () => Promise<unknown>) => {
+            try {
+                await action();
+            } catch (error) {
+                Modal.alert(t('common.error'), error instanceof Error ? error.message : String(error));
+            }
+            await loadSchedules();
+        };
+        Modal.alert(job.name, `${job.cron} · ${job.agent}\n${job.prompt}`, [
+            ...(lastSessionId ? [{
+                text: t('schedules.openLastSession'),
+                onPress: () => navigateToSession(lastSessionId)
+            }] : []),
+            {
+                text: t('schedules.runNow'),
+                onPress: () => runAction(() => machineRunSchedule(machineId!, job.id))
+            },
+            {
+                text: job.enabled ? t('schedules.disable') : t('schedules.enable'),
+                onPress: () => runAction(() => machineUpdateSchedule(machineId!, job.id, !job.enabled))
+            },
+            {
+                text: t('schedules.delete'),
+                style: 'destructive',
+                onPress: () => runAction(() => machineRemoveSchedule(machineId!, job.id))
+            },
+            { text: t('common.cancel'), style: 'cancel' }
+        ]);
+    };
+
     const handleRefresh = async () => {
         setIsRefreshing(true);
-        await sync.refreshMachines();
+        await Promise.all([sync.refreshMachines(), loadAuditLog(), loadSchedules()]);
         setIsRefreshing(false);
     };
 
@@ -243,6 +379,19 @@ export default function MachineDetailScreen() {
         }
     };
 
+    const handleForgetDaemon = async () => {
+        if (!machine?.daemonId) return;
+        const confirmed = await Modal.confirm(
+            t('machine.forgetDaemon'),
+            t('machine.forgetDaemonConfirm'),
+            { cancelText: t('common.cancel'), confirmText: t('machine.forgetDaemon'), destructive: true }
+        );
+        if (confirmed) {
+            sync.removeDaemon(machine.daemonId);
+            router.back();
+        }
+    };
+
     const pastUsedRelativePath = useCallback((session: Session) => {
         if (!session.metadata) return 'unknown path';
         return formatPathRelativeToHome(session.metadata.path, session.metadata.homeDir);
@@ -483,8 +632,101 @@ export default function MachineDetailScreen() {
                             title={t('machine.daemonStateVersion')}
                             subtitle={String(machine.daemonStateVersion)}
                         />
+                        {!sync.isPrimaryDaemon(machine.daemonId) && (
+                            <Item
+                                title={t('machine.forgetDaemon')}
+                                subtitle={t('machine.forgetDaemonSubtitle')}
+                                destructive
+                                onPress={handleForgetDaemon}
+                                icon={<Ionicons name="unlink-outline" size={22} color="#FF3B30" />}
+                                showChevron={false}
+                            />
+                        )}
                 </ItemGroup>
 
+                {/* Terminal */}
+                {machineOnline && (
+                    <ItemGroup title={t('remoteTerminal.title')} footer={t('remoteTerminal.machineFooter')}>
+                        <Item
+                            title={t('remoteTerminal.open')}
+                            subtitle={customPath.trim() || '~'}
+                            icon={<Ionicons name="terminal-outline" size={22} color={theme.colors.textLink} />}
+                            onPress={() => {
+                                const directory = resolveAbsolutePath(customPath.trim() || '~', machine.metadata?.homeDir);
+                                router.push(`/machine/${machineId}/terminal?directory=${encodeURIComponent(directory)}`);
+                            }}
+                        />
+                    </ItemGroup>
+                )}
+
+                {/* Usage */}
+                {machineOnline && (
+                    <ItemGroup>
+                        <Item
+                            title={t('usage.title')}
+                            subtitle={t('usage.subtitle')}
+                            icon={<Ionicons name="stats-chart-outline" size={22} color={theme.colors.textLink} />}
+                            onPress={() => router.push(`/machine/${machineId}/usage`)}
+                        />
+                    </ItemGroup>
+                )}
+
+                {/* Scheduled sessions */}
+                {machineOnline && schedules && (
+                    <ItemGroup title={t('schedules.title')} footer={t('schedules.footer')}>
+                        {schedules.map((job) => (
+                            <Item
+                                key={job.id}
+                                title={job.name}
+                                subtitle={`${job.cron} · ${formatPathRelativeToHome(job.directory, machine.metadata?.homeDir)}\n${scheduleRunText(job)}`}
+                                subtitleLines={2}
+                                detail={job.enabled ? undefined : t('schedules.disabled')}
+                                icon={
+                                    <Ionicons
+                                        name="alarm-outline"
+                                        size={22}
+                                        color={job.runs[0]?.status === 'failed' ? '#FF3B30' : job.enabled ? theme.colors.textSecondary : '#999'}
+                                    />
+                                }
+                                onPress={() => handleSchedulePress(job)}
+                            />
+                        ))}
+                        <Item
+                            title={t('schedules.addTitle')}
+                            icon={<Ionicons name="add-circle-outline" size={22} color={theme.colors.textLink} />}
+                            onPress={() => router.push(`/machine/${machineId}/schedule`)}
+                        />
+                    </ItemGroup>
+                )}
+
+                {/* Audit log */}
+                {machineOnline && auditEntries && (
+                    <ItemGroup title={t('machine.auditLog')} footer={t('machine.auditLogFooter')}>
+                        {auditEntries.length === 0 ? (
+                            <Item
+                                title={t('machine.auditLogEmpty')}
+                                showChevron={false}
+                            />
+                        ) : auditEntries.map((entry, index) => (
+                            <Item
+                                key={`${entry.time}-${index}`}
+                                title={auditEntryTitle(entry)}
+                                subtitle={auditEntryDetails(entry)}
+                                subtitleLines={2}
+                                detail={formatLastSeen(entry.time)}
+                                icon={
+                                    <Ionicons
+                                        name={auditEntryIcon(entry)}
+                                        size={22}
+                                        color={entry.type === 'auth-failure' || ('result' in entry && entry.result === 'error') ? '#FF3B30' : theme.colors.textSecondary}
+                                    />
+                                }
+                                showChevron={false}
+                            />
+                        ))}
+                    </ItemGroup>
+                )}
+
                 {/* Previous Sessions (debug view) */}
                 {previousSessions.length > 0 && (
                     <ItemGroup title={'Previous Sessions (up to 5 most recent)'}>
@@ -0,0 +1,203 @@
+import React, { useMemo, useState } from 'react';
+import { View, TextInput, ActivityIndicator } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { Typography } from '@/constants/Typography';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+import { useMachine, useSessions } from '@/sync/storage';
+import type { Session } from '@/sync/storageTypes';
+import { machineAddSchedule, type MachineSchedule } from '@/sync/ops';
+import { formatPathRelativeToHome } from '@/utils/sessionUtils';
+import { resolveAbsolutePath } from '@/utils/pathUtils';
+
+const AGENTS: MachineSchedule['agent'][] = ['claude', 'codex', 'gemini', 'cursor'];
+
+const CRON_PRESETS = [
+    { cron: '@hourly', label: () => t('schedules.presetHourly') },
+    { cron: '0 9 * * *', label: () => t('schedules.presetDaily') },
+    { cron: '0 9 * * 1-5', label: () => t('schedules.presetWeekdays') },
+    { cron: '0 9 * * 1', label: () => t('schedules.presetWeekly') },
+];
+
+const stylesheet = StyleSheet.create((theme) => ({
+    inputContainer: {
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+    },
+    input: {
+        backgroundColor: theme.colors.input.background,
+        borderRadius: 10,
+        padding: 12,
+        fontSize: 16,
+        color: theme.colors.text,
+        ...Typography.default(),
+    },
+    monoInput: {
+        ...Typography.mono(),
+    },
+    multilineInput: {
+        minHeight: 96,
+        textAlignVertical: 'top',
+    },
+}));
+
+export default function MachineScheduleScreen() {
+    const { theme } = useUnistyles();
+    const styles = stylesheet;
+    const router = useRouter();
+    const { id: machineId } = useLocalSearchParams<{ id: string }>();
+    const machine = useMachine(machineId!);
+    const sessions = useSessions();
+    const homeDir = machine?.metadata?.homeDir;
+
+    const [name, setName] = useState('');
+    const [cron, setCron] = useState('0 9 * * *');
+    const [directory, setDirectory] = useState('');
+    const [agent, setAgent] = useState<MachineSchedule['agent']>('claude');
+    const [prompt, setPrompt] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Directories of earlier sessions on this machine, most recent first
+    const recentPaths = useMemo(() => {
+        if (!sessions) return [];
+        const paths: string[] = [];
+        (sessions.filter(item => typeof item !== 'string') as Session[])
+            .filter(session => session.metadata?.machineId === machineId && session.metadata?.path)
+            .sort((a, b) => (b.updatedAt || 0) - (a.updatedAt || 0))
+            .forEach(session => {
+                if (!paths.includes(session.metadata!.path)) {
+                    paths.push(session.metadata!.path);
+                }
+            });
+        return paths.slice(0, 5);
+    }, [sessions, machineId]);
+
+    const canSave = cron.trim().length > 0 && directory.trim().length > 0 && prompt.trim().length > 0 && !isSaving;
+
+    const handleSave = async () => {
+        if (!canSave) return;
+        setIsSaving(true);
+        try {
+            await machineAddSchedule(machineId!, {
+                name: name.trim() || prompt.trim().slice(0, 60),
+                cron: cron.trim(),
+                directory: resolveAbsolutePath(directory.trim(), homeDir),
+                agent,
+                prompt: prompt.trim()
+            });
+            router.back();
+        } catch (error) {
+            Modal.alert(t('common.error'), error instanceof Error ? error.message : t('schedules.addFailed'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <ItemList style={{ paddingTop: 0 }}>
+            <ItemGroup title={t('schedules.name')}>
+                <View style={styles.inputContainer}>
+                    <TextInput
+                        style={styles.input}
+                        placeholder={t('schedules.namePlaceholder')}
+                        placeholderTextColor={theme.colors.input.placeholder}
+                        value={name}
+                        onChangeText={setName}
+                    />
+                </View>
+            </ItemGroup>
+
+            <ItemGroup title={t('schedules.when')} footer={t('schedules.cronFooter')}>
+                {CRON_PRESETS.map((preset) => (
+                    <Item
+                        key={preset.cron}
+                        title={preset.label()}
+                        subtitle={preset.cron}
+                        selected={cron === preset.cron}
+                        rightElement={cron === preset.cron ? <Ionicons name="checkmark" size={20} color={theme.colors.textLink} /> : undefined}
+                        onPress={() => setCron(preset.cron)}
+                        showChevron={false}
+                    />
+                ))}
+                <View style={styles.inputContainer}>
+                    <TextInput
+                        style={[styles.input, styles.monoInput]}
+                        placeholder="0 9 * * 1-5"
+                        placeholderTextColor={theme.colors.input.placeholder}
+                        value={cron}
+                        onChangeText={setCron}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                    />
+                </View>
+            </ItemGroup>
+
+            <ItemGroup title={t('schedules.directory')}>
+                {recentPaths.map((path) => (
+                    <Item
+                        key={path}
+                        title={formatPathRelativeToHome(path, homeDir)}
+                        icon={<Ionicons name="folder-outline" size={22} color={theme.colors.textSecondary} />}
+                        selected={directory === path}
+                        rightElement={directory === path ? <Ionicons name="checkmark" size={20} color={theme.colors.textLink} /> : undefined}
+                        onPress={() => setDirectory(path)}
+                        showChevron={false}
+                    />
+                ))}
+                <View style={styles.inputContainer}>
+                    <TextInput
+                        style={[styles.input, styles.monoInput]}
+                        placeholder={homeDir ? `${homeDir}/project` : '~/project'}
+                        placeholderTextColor={theme.colors.input.placeholder}
+                        value={directory}
+                        onChangeText={setDirectory}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                    />
+                </View>
+            </ItemGroup>
+
+            <ItemGroup title={t('schedules.agent')}>
+                {AGENTS.map((value) => (
+                    <Item
+                        key={value}
+                        title={value}
+                        selected={agent === value}
+                        rightElement={agent === value ? <Ionicons name="checkmark" size={20} color={theme.colors.textLink} /> : undefined}
+                        onPress={() => setAgent(value)}
+                        showChevron={false}
+                    />
+                ))}
+            </ItemGroup>
+
+            <ItemGroup title={t('schedules.prompt')} footer={t('schedules.promptFooter')}>
+                <View style={styles.inputContainer}>
+                    <TextInput
+                        style={[styles.input, styles.multilineInput]}
+                        placeholder={t('schedules.promptPlaceholder')}
+                        placeholderTextColor={theme.colors.input.placeholder}
+                        value={prompt}
+                        onChangeText={setPrompt}
+                        multiline
+                    />
+                </View>
+            </ItemGroup>
+
+            <ItemGroup>
+                <Item
+                    title={t('schedules.add')}
+                    icon={<Ionicons name="add-circle-outline" size={29} color={canSave ? theme.colors.textLink : theme.colors.textSecondary} />}
+                    rightElement={isSaving ? <ActivityIndicator size="small" color={theme.colors.textSecondary} /> : undefined}
+                    disabled={!canSave}
+                    onPress={handleSave}
+                    showChevron={false}
+                />
+            </ItemGroup>
+        </ItemList>
+    );
+}
@@ -0,0 +1,199 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { View, Text, ActivityIndicator } from 'react-native';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { KeyboardAvoidingView } from 'react-native-keyboard-controller';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { Typography } from '@/constants/Typography';
+import { TerminalView } from '@/components/terminal/TerminalView';
+import { useMachine } from '@/sync/storage';
+import { machineTerminalClose, machineTerminalInput, machineTerminalKeepAlive, machineTerminalOpen, machineTerminalResize } from '@/sync/ops';
+import { subscribeToTerminal } from '@/sync/terminalEvents';
+import { TerminalScreen, type TerminalLine } from '@/utils/terminalScreen';
+import { formatPathRelativeToHome } from '@/utils/sessionUtils';
+import { t } from '@/text';
+
+type TerminalStatus = 'connecting' | 'open' | 'exited' | 'failed';
+
+const RENDER_INTERVAL_MS = 16;
+const KEEPALIVE_INTERVAL_MS = 60_000;
+
+const stylesheet = StyleSheet.create((theme) => ({
+    container: {
+        flex: 1,
+        backgroundColor: theme.colors.terminal.background,
+    },
+    banner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        paddingVertical: 8,
+        paddingHorizontal: 16,
+        backgroundColor: theme.colors.surfaceHigh,
+    },
+    bannerText: {
+        fontSize: 13,
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+}));
+
+/**
+ * Interactive terminal on a machine: a new shell in `directory`, or the tmux
+ * window of the agent session `sessionId`. Output streams in as `terminal`
+ * ephemeral updates; keystrokes go out over the terminal RPCs.
+ */
+export default function MachineTerminalScreen() {
+    const { theme } = useUnistyles();
+    const styles = stylesheet;
+    const { id: machineId, sessionId, directory } = useLocalSearchParams<{ id: string; sessionId?: string; directory?: string }>();
+    const machine = useMachine(machineId!);
+
+    const [status, setStatus] = useState<TerminalStatus>('connecting');
+    const [error, setError] = useState<string | null>(null);
+    const [title, setTitle] = useState<string | null>(null);
+    const [lines, setLines] = useState<TerminalLine[]>([]);
+
+    const screenRef = useRef<TerminalScreen | null>(null);
+    const terminalIdRef = useRef<string | null>(null);
+    const renderTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    // Keystrokes typed while an input RPC is in flight are sent together with the next one
+    const pendingInput = useRef('');
+    const sendingInput = useRef(false);
+
+    const scheduleRender = useCallback(() => {
+        if (renderTimer.current) return;
+        renderTimer.current = setTimeout(() => {
+            renderTimer.current = null;
+            const screen = screenRef.current;
+            if (screen) {
+                setLines(screen.getLines());
+                if (screen.title) setTitle(screen.title);
+            }
+        }, RENDER_INTERVAL_MS);
+    }, []);
+
+    const flushInput = useCallback(() => {
+        const terminalId = terminalIdRef.current;
+        if (!terminalId || sendingInput.current || !pendingInput.current) return;
+        const data = pendingInput.current;
+        pendingInput.current = '';
+        sendingInput.current = true;
+        machineTerminalInput(machineId!, terminalId, data)
+            .catch((e) => console.warn('[TERMINAL] Failed to send input:', e))
+            .finally(() => {
+                sendingInput.current = false;
+                flushInput();
+            });
+    }, [machineId]);
+
+    const handleInput = useCallback((data: string) => {
+        pendingInput.current += data;
+        flushInput();
+    }, [flushInput]);
+
+    // The terminal is opened once the view knows how many columns and rows fit
+    const [sized, setSized] = useState(false);
+    const handleSize = useCallback((cols: number, rows: number) => {
+        const screen = screenRef.current;
+        if (!screen) {
+            screenRef.current = new TerminalScreen(cols, rows);
+            setSized(true);
+            return;
+        }
+        if (screen.cols === cols && screen.rows === rows) return;
+        screen.resize(cols, rows);
+        scheduleRender();
+        if (terminalIdRef.current) {
+            machineTerminalResize(machineId!, terminalIdRef.current, cols, rows)
+                .catch((e) => console.warn('[TERMINAL] Failed to resize:', e));
+        }
+    }, [machineId, scheduleRender]);
+
+    useEffect(() => {
+        if (!sized || !machineId) return;
+        let cancelled = false;
+        let unsubscribe: (() => void) | null = null;
+        // The daemon closes terminals that stop being pinged, e.g. after the app crashed
+        const keepAlive = setInterval(() => {
+            if (terminalIdRef.current) {
+                machineTerminalKeepAlive(machineId, terminalIdRef.current).catch(() => { });
+            }
+        }, KEEPALIVE_INTERVAL_MS);
+        const screen = screenRef.current!;
+        const { cols, rows } = screen;
+
+        machineTerminalOpen(machineId, { sessionId, directory, cols, rows })
+            .then((result) => {
+                if (cancelled) {
+                    machineTerminalClose(machineId, result.terminalId).catch(() => { });
+                    return;
+                }
+                terminalIdRef.current = result.terminalId;
+                setTitle(result.title);
+                setStatus('open');
+                unsubscribe = subscribeToTerminal(result.terminalId, (event) => {
+                    if (event.type === 'output') {
+                        screen.write(event.data);
+                        scheduleRender();
+                    } else {
+                        terminalIdRef.current = null;
+                        setStatus('exited');
+                    }
+                });
+                // The view may have been resized while opening
+                if (screen.cols !== cols || screen.rows !== rows) {
+                    machineTerminalResize(machineId, result.terminalId, screen.cols, screen.rows).catch(() => { });
+                }
+                flushInput();
+            })
+            .catch((e) => {
+                if (cancelled) return;
+                setError(e instanceof Error ? e.message : String(e));
+                setStatus('failed');
+            });
+
+        return () => {
+            cancelled = true;
+            clearInterval(keepAlive);
+            unsubscribe?.();
+            if (renderTimer.current) {
+                clearTimeout(renderTimer.current);
+                renderTimer.current = null;
+            }
+            const terminalId = terminalIdRef.current;
+            terminalIdRef.current = null;
+            if (terminalId) {
+                machineTerminalClose(machineId, terminalId).catch(() => { });
+            }
+        };
+    }, [sized, machineId, sessionId, directory, scheduleRender, flushInput]);
+
+    const headerTitle = title
+        ? (title.startsWith('/') ? formatPathRelativeToHome(title, machine?.metadata?.homeDir) : title)
+        : t('remoteTerminal.title');
+
+    return (
+        <>
+            <Stack.Screen options={{ headerTitle }} />
+            <KeyboardAvoidingView style={styles.container} behavior="padding">
+                {status !== 'open' && (
+                    <View style={styles.banner}>
+                        {status === 'connecting' && <ActivityIndicator size="small" color={theme.colors.textSecondary} />}
+                        <Text style={styles.bannerText} numberOfLines={2}>
+                            {status === 'connecting' && t('remoteTerminal.connecting')}
+                            {status === 'exited' && t('remoteTerminal.exited')}
+                            {status === 'failed' && t('remoteTerminal.openFailed', { error: error ?? '' })}
+                        </Text>
+                    </View>
+                )}
+                <TerminalView
+                    lines={lines}
+                    onInput={handleInput}
+                    onSize={handleSize}
+                    disabled={status === 'exited' || status === 'failed'}
+                />
+            </KeyboardAvoidingView>
+        </>
+    );
+}
@@ -0,0 +1,330 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, TextInput, ActivityIndicator } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { Switch } from '@/components/Switch';
+import { Typography } from '@/constants/Typography';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+import { useMachine, useSessions } from '@/sync/storage';
+import type { Session } from '@/sync/storageTypes';
+import {
+    machineAddUsageBudget,
+    machineRemoveUsageBudget,
+    machineUsage,
+    type MachineUsageBudget,
+    type MachineUsageGroupBy,
+    type MachineUsageReport,
+    type MachineUsageRow,
+} from '@/sync/ops';
+import { formatPathRelativeToHome, getSessionName } from '@/utils/sessionUtils';
+import { resolveAbsolutePath } from '@/utils/pathUtils';
+
+const RANGES = [
+    { days: 1, label: () => t('usage.today') },
+    { days: 7, label: () => t('usage.last7Days') },
+    { days: 30, label: () => t('usage.last30Days') },
+];
+
+const GROUPS: { value: MachineUsageGroupBy; label: () => string }[] = [
+    { value: 'day', label: () => t('usage.byDay') },
+    { value: 'project', label: () => t('usage.byProject') },
+    { value: 'agent', label: () => t('usage.byAgent') },
+    { value: 'model', label: () => t('usage.byModel') },
+    { value: 'session', label: () => t('usage.bySession') },
+];
+
+const stylesheet = StyleSheet.create((theme) => ({
+    inputContainer: {
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+    },
+    input: {
+        backgroundColor: theme.colors.input.background,
+        borderRadius: 10,
+        padding: 12,
+        fontSize: 16,
+        color: theme.colors.text,
+        ...Typography.default(),
+    },
+    monoInput: {
+        ...Typography.mono(),
+    },
+    loading: {
+        padding: 24,
+        alignItems: 'center',
+    },
+    error: {
+        padding: 16,
+        fontSize: 15,
+        color: theme.colors.textDestructive,
+        ...Typography.default(),
+    },
+}));
+
+/** Local date as YYYY-MM-DD, like the daemon's usage days */
+function localDay(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function formatCost(usd: number): string {
+    return `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+}
+
+function formatTokens(count: number): string {
+    if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+    if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+    return String(count);
+}
+
+function tokensText(row: MachineUsageRow | MachineUsageReport['total']): string {
+    return t('usage.tokenBreakdown', {
+        input: formatTokens(row.tokens.input),
+        output: formatTokens(row.tokens.output),
+        cached: formatTokens(row.tokens.cacheRead),
+    });
+}
+
+function budgetTitle(budget: MachineUsageBudget): string {
+    const limit = formatCost(budget.limitUsd);
+    return budget.period === 'day' ? t('usage.budgetDaily', { limit }) : t('usage.budgetMonthly', { limit });
+}
+
+/**
+ * Token usage and cost recorded by a machine's daemon, with its budgets
+ */
+export default function MachineUsageScreen() {
+    const { theme } = useUnistyles();
+    const styles = stylesheet;
+    const { id: machineId } = useLocalSearchParams<{ id: string }>();
+    const machine = useMachine(machineId!);
+    const sessions = useSessions();
+    const homeDir = machine?.metadata?.homeDir;
+
+    const [days, setDays] = useState(7);
+    const [groupBy, setGroupBy] = useState<MachineUsageGroupBy>('day');
+    const [report, setReport] = useState<MachineUsageReport | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const [limit, setLimit] = useState('');
+    const [period, setPeriod] = useState<MachineUsageBudget['period']>('day');
+    const [project, setProject] = useState('');
+    const [pause, setPause] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const requestRef = useRef(0);
+
+    const load = useCallback(async () => {
+        const request = ++requestRef.current;
+        const since = new Date();
+        since.setDate(since.getDate() - days + 1);
+        setIsLoading(true);
+        try {
+            const result = await machineUsage(machineId!, { groupBy: [groupBy], since: localDay(since) });
+            if (request !== requestRef.current) return;
+            setReport(result);
+            setError(null);
+        } catch (e) {
+            if (request !== requestRef.current) return;
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            if (request === requestRef.current) {
+                setIsLoading(false);
+            }
+        }
+    }, [machineId, days, groupBy]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const sessionNames = useMemo(() => {
+        const names = new Map<string, string>();
+        for (const item of sessions ?? []) {
+            if (typeof item !== 'string') {
+                names.set(item.id, getSessionName(item as Session));
+            }
+        }
+        return names;
+    }, [sessions]);
+
+    const rowTitle = (row: MachineUsageRow): string => {
+        switch (groupBy) {
+            case 'day': return row.day ?? '';
+            case 'project': return row.project && row.project !== 'unknown' ? formatPathRelativeToHome(row.project, homeDir) : t('usage.unknown');
+            case 'agent': return row.agent && row.agent !== 'unknown' ? row.agent : t('usage.unknown');
+            case 'model': return row.model && row.model !== 'unknown' ? row.model : t('usage.unknown');
+            case 'session': return sessionNames.get(row.sessionId ?? '') ?? row.sessionId ?? '';
+        }
+    };
+
+    const limitUsd = Number(limit);
+    const canAddBudget = Number.isFinite(limitUsd) && limitUsd > 0 && !isSaving;
+
+    const handleAddBudget = async () => {
+        if (!canAddBudget) return;
+        setIsSaving(true);
+        try {
+            await machineAddUsageBudget(machineId!, {
+                period,
+                limitUsd,
+                action: pause ? 'pause' : 'warn',
+                project: project.trim() ? resolveAbsolutePath(project.trim(), homeDir) : undefined,
+            });
+            setLimit('');
+            setProject('');
+            await load();
+        } catch (e) {
+            Modal.alert(t('common.error'), e instanceof Error ? e.message : t('usage.budgetAddFailed'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleBudgetPress = async (budget: MachineUsageBudget) => {
+        const confirmed = await Modal.confirm(t('usage.removeBudget'), budgetTitle(budget), {
+            confirmText: t('common.delete'),
+            destructive: true,
+        });
+        if (!confirmed) return;
+        try {
+            await machineRemoveUsageBudget(machineId!, budget.id);
+            await load();
+        } catch (e) {
+            Modal.alert(t('common.error'), e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    return (
+        <ItemList style={{ paddingTop: 0 }}>
+            <ItemGroup title={t('usage.period')}>
+                {RANGES.map((range) => (
+                    <Item
+                        key={range.days}
+                        title={range.label()}
+                        selected={days === range.days}
+                        rightElement={days === range.days ? <Ionicons name="checkmark" size={20} color={theme.colors.textLink} /> : undefined}
+                        onPress={() => setDays(range.days)}
+                        showChevron={false}
+                    />
+                ))}
+            </ItemGroup>
+
+            <ItemGroup title={t('usage.groupBy')}>
+                {GROUPS.map((group) => (
+                    <Item
+                        key={group.value}
+                        title={group.label()}
+                        selected={groupBy === group.value}
+                        rightElement={groupBy === group.value ? <Ionicons name="checkmark" size={20} color={theme.colors.textLink} /> : undefined}
+                        onPress={() => setGroupBy(group.value)}
+                        showChevron={false}
+                    />
+                ))}
+            </ItemGroup>
+
+            <ItemGroup title={t('usage.title')} footer={t('usage.footer')}>
+                {isLoading && !report ? (
+                    <View style={styles.loading}>
+                        <ActivityIndicator size="small" color={theme.colors.textSecondary} />
+                    </View>
+                ) : error ? (
+                    <Text style={styles.error}>{error}</Text>
+                ) : report && (
+                    <>
+                        <Item
+                            title={t('usage.total')}
+                            subtitle={tokensText(report.total)}
+                            detail={formatCost(report.total.costUsd)}
+                            icon={<Ionicons name="stats-chart-outline" size={22} color={theme.colors.textLink} />}
+                            showChevron={false}
+                        />
+                        {report.rows.length === 0 ? (
+                            <Item title={t('usage.noData')} showChevron={false} />
+                        ) : report.rows.map((row, index) => (
+                            <Item
+                                key={`${rowTitle(row)}-${index}`}
+                                title={rowTitle(row)}
+                                subtitle={tokensText(row)}
+                                detail={formatCost(row.costUsd)}
+                                showChevron={false}
+                            />
+                        ))}
+                    </>
+                )}
+            </ItemGroup>
+
+            <ItemGroup title={t('usage.budgets')} footer={t('usage.budgetsFooter')}>
+                {report?.budgets.map((budget) => (
+                    <Item
+                        key={budget.id}
+                        title={budgetTitle(budget)}
+                        subtitle={`${budget.project ? formatPathRelativeToHome(budget.project, homeDir) : t('usage.allProjects')} · ${budget.action === 'pause' ? t('usage.actionPause') : t('usage.actionWarn')}`}
+                        detail={formatCost(budget.spentUsd)}
+                        detailStyle={budget.exceeded ? { color: theme.colors.textDestructive } : undefined}
+                        icon={<Ionicons name="wallet-outline" size={22} color={budget.exceeded ? theme.colors.textDestructive : theme.colors.textSecondary} />}
+                        onPress={() => handleBudgetPress(budget)}
+                    />
+                ))}
+            </ItemGroup>
+
+            <ItemGroup title={t('usage.addBudget')}>
+                <View style={styles.inputContainer}>
+                    <TextInput
+                        style={styles.input}
+                        placeholder={t('usage.limitPlaceholder')}
+                        placeholderTextColor={theme.colors.input.placeholder}
+                        value={limit}
+                        onChangeText={setLimit}
+                        keyboardType="decimal-pad"
+                    />
+                </View>
+                <Item
+                    title={t('usage.perDay')}
+                    selected={period === 'day'}
+                    rightElement={period === 'day' ? <Ionicons name="checkmark" size={20} color={theme.colors.textLink} /> : undefined}
+                    onPress={() => setPeriod('day')}
+                    showChevron={false}
+                />
+                <Item
+                    title={t('usage.perMonth')}
+                    selected={period === 'month'}
+                    rightElement={period === 'month' ? <Ionicons name="checkmark" size={20} color={theme.colors.textLink} /> : undefined}
+                    onPress={() => setPeriod('month')}
+                    showChevron={false}
+                />
+                <View style={styles.inputContainer}>
+                    <TextInput
+                        style={[styles.input, styles.monoInput]}
+                        placeholder={t('usage.projectPlaceholder')}
+                        placeholderTextColor={theme.colors.input.placeholder}
+                        value={project}
+                        onChangeText={setProject}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                    />
+                </View>
+                <Item
+                    title={t('usage.pauseWhenExceeded')}
+                    subtitle={t('usage.pauseWhenExceededSubtitle')}
+                    rightElement={<Switch value={pause} onValueChange={setPause} />}
+                    showChevron={false}
+                />
+                <Item
+                    title={t('usage.addBudget')}
+                    icon={<Ionicons name="add-circle-outline" size={29} color={canAddBudget ? theme.colors.textLink : theme.colors.textSecondary} />}
+                    rightElement={isSaving ? <ActivityIndicator size="small" color={theme.colors.textSecondary} /> : undefined}
+                    disabled={!canAddBudget}
+                    onPress={handleAddBudget}
+                    showChevron={false}
+                />
+            </ItemGroup>
+        </ItemList>
+    );
+}
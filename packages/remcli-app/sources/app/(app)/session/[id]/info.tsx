@@ -7,7 +7,7 @@ import { Item } from '@/components/Item';
 import { ItemGroup } from '@/components/ItemGroup';
 import { ItemList } from '@/components/ItemList';
 import { Avatar } from '@/components/Avatar';
-import { useSession, useIsDataReady } from '@/sync/storage';
+import { useSession, useIsDataReady, useAllSessions } from '@/sync/storage';
 import { getSessionName, useSessionStatus, formatOSPlatform, formatPathRelativeToHome, getSessionAvatarId } from '@/utils/sessionUtils';
 import * as Clipboard from 'expo-clipboard';
 import { Modal } from '@/modal';
@@ -20,6 +20,8 @@ import { CodeView } from '@/components/CodeView';
 import { Session } from '@/sync/storageTypes';
 import { useRemcliAction } from '@/hooks/useRemcliAction';
 import { RemcliError } from '@/utils/errors';
+import { buildForkTree } from '@/sync/sessionFork';
+import { useNavigateToSession } from '@/hooks/useNavigateToSession';
 
 // Animated status dot component
 function StatusDot({ color, isPulsing, size = 8 }: { color: string; isPulsing?: boolean; size?: number }) {
@@ -66,6 +68,9 @@ function SessionInfoContent({ session }: { session: Session }) {
     const devModeEnabled = __DEV__;
     const sessionName = getSessionName(session);
     const sessionStatus = useSessionStatus(session);
+    const navigateToSession = useNavigateToSession();
+    const allSessions = useAllSessions();
+    const forkTree = React.useMemo(() => buildForkTree(allSessions, session.id), [allSessions, session.id]);
     
     // Check if CLI version is outdated
     const isCliOutdated = session.metadata?.version && !isVersionSupported(session.metadata.version, MINIMUM_CLI_VERSION);
@@ -247,6 +252,27 @@ function SessionInfoContent({ session }: { session: Session }) {
                     />
                 </ItemGroup>
 
+                {/* Forks */}
+                {forkTree.length > 0 && (
+                    <ItemGroup title={t('sessionInfo.forks')} footer={t('sessionInfo.forksFooter')}>
+                        {forkTree.map(({ session: node, depth }) => (
+                            <Item
+                                key={node.id}
+                                title={getSessionName(node)}
+                                subtitle={formatDate(node.createdAt)}
+                                detail={node.id === session.id ? t('sessionInfo.thisSession') : undefined}
+                                icon={
+                                    <View style={{ marginLeft: depth * 16 }}>
+                                        <Ionicons name={depth === 0 ? 'git-commit-outline' : 'git-branch-outline'} size={29} color="#5856D6" />
+                                    </View>
+                                }
+                                showChevron={node.id !== session.id}
+                                onPress={node.id === session.id ? undefined : () => navigateToSession(node.id)}
+                            />
+                        ))}
+                    </ItemGroup>
+                )}
+
                 {/* Quick Actions */}
                 <ItemGroup title={t('sessionInfo.quickActions')}>
                     {session.metadata?.machineId && (
@@ -257,6 +283,38 @@ function SessionInfoContent({ session }: { session: Session }) {
                             onPress={() => router.push(`/machine/${session.metadata?.machineId}`)}
                         />
                     )}
+                    {sessionStatus.isConnected && (
+                        <Item
+                            title={t('runCommand.title')}
+                            subtitle={t('runCommand.subtitle')}
+                            icon={<Ionicons name="play-circle-outline" size={29} color="#5856D6" />}
+                            onPress={() => router.push(`/session/${session.id}/run`)}
+                        />
+                    )}
+                    {sessionStatus.isConnected && session.metadata?.machineId && (
+                        <Item
+                            title={t('remoteTerminal.attach')}
+                            subtitle={t('remoteTerminal.attachSubtitle')}
+                            icon={<Ionicons name="terminal-outline" size={29} color="#5856D6" />}
+                            onPress={() => router.push(`/machine/${session.metadata?.machineId}/terminal?sessionId=${session.id}`)}
+                        />
+                    )}
+                    {session.metadata?.machineId && session.metadata?.path && (
+                        <Item
+                            title={t('remoteTerminal.openInProject')}
+                            subtitle={formatPathRelativeToHome(session.metadata.path, session.metadata.homeDir)}
+                            icon={<Ionicons name="folder-open-outline" size={29} color="#5856D6" />}
+                            onPress={() => router.push(`/machine/${session.metadata?.machineId}/terminal?directory=${encodeURIComponent(session.metadata!.path)}`)}
+                        />
+                    )}
+                    {sessionStatus.isConnected && (
+                        <Item
+                            title={t('sessionInfo.permissionRules')}
+                            subtitle={t('sessionInfo.permissionRulesSubtitle')}
+                            icon={<Ionicons name="shield-checkmark-outline" size={29} color="#34C759" />}
+                            onPress={() => router.push(`/session/${session.id}/permissions`)}
+                        />
+                    )}
                     {sessionStatus.isConnected && (
                         <Item
                             title={t('sessionInfo.archiveSession')}
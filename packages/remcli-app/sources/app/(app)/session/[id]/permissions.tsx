@@ -0,0 +1,178 @@
+import React from 'react';
+import { ActivityIndicator, RefreshControl, View } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useUnistyles } from 'react-native-unistyles';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+import { sessionPermissionRules, PermissionRule } from '@/sync/ops';
+import { formatRuleSpec, parseRuleSpec } from '@/utils/permissionRules';
+
+const ACTIONS: PermissionRule['action'][] = ['allow', 'ask', 'deny'];
+
+function actionIcon(action: PermissionRule['action']): React.ComponentProps<typeof Ionicons>['name'] {
+    switch (action) {
+        case 'allow':
+            return 'checkmark-circle-outline';
+        case 'ask':
+            return 'help-circle-outline';
+        case 'deny':
+            return 'close-circle-outline';
+    }
+}
+
+function actionTitle(action: PermissionRule['action']): string {
+    switch (action) {
+        case 'allow':
+            return t('permissionRules.allow');
+        case 'ask':
+            return t('permissionRules.ask');
+        case 'deny':
+            return t('permissionRules.deny');
+    }
+}
+
+export default React.memo(() => {
+    const { theme } = useUnistyles();
+    const { id: sessionId } = useLocalSearchParams<{ id: string }>();
+    const [rules, setRules] = React.useState<PermissionRule[] | null>(null);
+    const [filePath, setFilePath] = React.useState<string | null>(null);
+    const [loadFailed, setLoadFailed] = React.useState(false);
+    const [isRefreshing, setIsRefreshing] = React.useState(false);
+    const [isSaving, setIsSaving] = React.useState(false);
+
+    // Editing is only offered on rules that were actually loaded, because a
+    // save replaces the whole file
+    const load = React.useCallback(async () => {
+        try {
+            const result = await sessionPermissionRules(sessionId);
+            setRules(result.rules);
+            setFilePath(result.path);
+            setLoadFailed(false);
+        } catch (error) {
+            console.error('Failed to load permission rules:', error);
+            setRules(null);
+            setLoadFailed(true);
+        }
+    }, [sessionId]);
+
+    React.useEffect(() => {
+        load();
+    }, [load]);
+
+    const handleRefresh = React.useCallback(async () => {
+        setIsRefreshing(true);
+        await load();
+        setIsRefreshing(false);
+    }, [load]);
+
+    const save = async (next: PermissionRule[]) => {
+        setIsSaving(true);
+        try {
+            const result = await sessionPermissionRules(sessionId, next);
+            setRules(result.rules);
+        } catch (error) {
+            Modal.alert(t('common.error'), t('permissionRules.saveFailed'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleAdd = async (action: PermissionRule['action']) => {
+        const spec = await Modal.prompt(
+            t('permissionRules.addTitle', { action: actionTitle(action) }),
+            t('permissionRules.addHelp'),
+            { placeholder: 'Bash(npm test*)', confirmText: t('permissionRules.add') }
+        );
+        if (spec === null || rules === null) {
+            return;
+        }
+        const rule = parseRuleSpec(action, spec);
+        if (!rule) {
+            Modal.alert(t('common.error'), t('permissionRules.invalidRule'));
+            return;
+        }
+        await save([...rules, rule]);
+    };
+
+    const handleRemove = async (index: number) => {
+        const rule = rules![index];
+        const confirmed = await Modal.confirm(
+            t('permissionRules.removeTitle'),
+            `${actionTitle(rule.action)}: ${formatRuleSpec(rule)}`,
+            { confirmText: t('permissionRules.remove'), destructive: true }
+        );
+        if (confirmed) {
+            await save(rules!.filter((_, i) => i !== index));
+        }
+    };
+
+    return (
+        <ItemList
+            style={{ paddingTop: 0 }}
+            refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}
+        >
+            {rules === null && loadFailed && (
+                <ItemGroup footer={t('permissionRules.loadFailed')}>
+                    <Item
+                        title={t('common.retry')}
+                        icon={<Ionicons name="refresh-outline" size={29} color={theme.colors.textLink} />}
+                        onPress={handleRefresh}
+                        showChevron={false}
+                    />
+                </ItemGroup>
+            )}
+            {rules === null && !loadFailed && (
+                <View style={{ paddingVertical: 24, alignItems: 'center' }}>
+                    <ActivityIndicator size="small" color={theme.colors.textSecondary} />
+                </View>
+            )}
+            {rules !== null && rules.length === 0 && (
+                <ItemGroup footer={t('permissionRules.emptyDescription')}>
+                    <Item title={t('permissionRules.empty')} showChevron={false} />
+                </ItemGroup>
+            )}
+            {rules !== null && ACTIONS.map((action) => {
+                const entries = rules.map((rule, index) => ({ rule, index })).filter(({ rule }) => rule.action === action);
+                if (entries.length === 0) {
+                    return null;
+                }
+                return (
+                    <ItemGroup key={action} title={actionTitle(action)}>
+                        {entries.map(({ rule, index }) => (
+                            <Item
+                                key={index}
+                                title={formatRuleSpec(rule)}
+                                icon={<Ionicons name={actionIcon(action)} size={29} color={action === 'deny' ? theme.colors.textDestructive : theme.colors.textSecondary} />}
+                                rightElement={<Ionicons name="trash-outline" size={20} color={theme.colors.textSecondary} />}
+                                disabled={isSaving}
+                                onPress={() => handleRemove(index)}
+                                showChevron={false}
+                            />
+                        ))}
+                    </ItemGroup>
+                );
+            })}
+            {rules !== null && (
+                <ItemGroup
+                    title={t('permissionRules.addRule')}
+                    footer={filePath ? t('permissionRules.footer', { path: filePath }) : undefined}
+                >
+                    {ACTIONS.map((action) => (
+                        <Item
+                            key={action}
+                            title={t('permissionRules.addTitle', { action: actionTitle(action) })}
+                            icon={<Ionicons name="add-circle-outline" size={29} color={theme.colors.textLink} />}
+                            disabled={isSaving}
+                            onPress={() => handleAdd(action)}
+                            showChevron={false}
+                        />
+                    ))}
+                </ItemGroup>
+            )}
+        </ItemList>
+    );
+});
@@ -0,0 +1,159 @@
+import React, { useRef, useState } from 'react';
+import { View, Text, TextInput, ScrollView, Pressable, ActivityIndicator } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { Typography } from '@/constants/Typography';
+import { CommandView } from '@/components/CommandView';
+import { layout } from '@/components/layout';
+import { useBashJob, type BashJobState } from '@/hooks/useBashJob';
+import { t } from '@/text';
+
+const stylesheet = StyleSheet.create((theme) => ({
+    container: {
+        flex: 1,
+        backgroundColor: theme.colors.groupped.background,
+    },
+    content: {
+        flex: 1,
+        width: '100%',
+        maxWidth: layout.maxWidth,
+        alignSelf: 'center',
+        padding: 16,
+        gap: 12,
+    },
+    inputRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    input: {
+        flex: 1,
+        backgroundColor: theme.colors.input.background,
+        borderRadius: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        fontSize: 15,
+        color: theme.colors.text,
+        ...Typography.mono(),
+    },
+    button: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    status: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    statusText: {
+        fontSize: 13,
+        color: theme.colors.textSecondary,
+        ...Typography.default(),
+    },
+    output: {
+        flex: 1,
+    },
+}));
+
+function statusText(state: BashJobState): string | null {
+    if (state.running) {
+        return t('runCommand.running');
+    }
+    if (state.error) {
+        return t('runCommand.failedToStart', { error: state.error });
+    }
+    if (!state.exit) {
+        return null;
+    }
+    switch (state.exit.reason) {
+        case 'cancelled': return t('runCommand.cancelled');
+        case 'timeout': return t('runCommand.timedOut');
+        case 'error': return t('runCommand.failedToStart', { error: state.exit.error ?? '' });
+    }
+    return state.exit.exitCode !== null
+        ? t('runCommand.exited', { code: String(state.exit.exitCode) })
+        : t('runCommand.killed', { signal: state.exit.signal ?? '' });
+}
+
+/**
+ * Runs a shell command in the session's directory and shows its output live
+ */
+export default function SessionRunCommandScreen() {
+    const { theme } = useUnistyles();
+    const styles = stylesheet;
+    const { id: sessionId } = useLocalSearchParams<{ id: string }>();
+    const { state, start, cancel } = useBashJob({ sessionId: sessionId! });
+    const [command, setCommand] = useState('');
+    const scrollRef = useRef<ScrollView>(null);
+
+    const canRun = command.trim().length > 0 && !state.running;
+    const handleRun = () => {
+        if (canRun) {
+            start(command.trim());
+        }
+    };
+    const status = statusText(state);
+    const failed = !!state.error || (state.exit !== null && state.exit.exitCode !== 0);
+
+    return (
+        <View style={styles.container}>
+            <View style={styles.content}>
+                <View style={styles.inputRow}>
+                    <TextInput
+                        style={styles.input}
+                        placeholder="npm test"
+                        placeholderTextColor={theme.colors.input.placeholder}
+                        value={command}
+                        onChangeText={setCommand}
+                        onSubmitEditing={handleRun}
+                        returnKeyType="go"
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        spellCheck={false}
+                    />
+                    {state.running ? (
+                        <Pressable style={[styles.button, { backgroundColor: '#FF3B30' }]} onPress={cancel} accessibilityLabel={t('runCommand.cancel')}>
+                            <Ionicons name="stop" size={18} color="#fff" />
+                        </Pressable>
+                    ) : (
+                        <Pressable
+                            style={[styles.button, { backgroundColor: canRun ? theme.colors.button.primary.background : theme.colors.surfaceHigh }]}
+                            onPress={handleRun}
+                            disabled={!canRun}
+                            accessibilityLabel={t('runCommand.run')}
+                        >
+                            <Ionicons name="play" size={18} color={canRun ? theme.colors.button.primary.tint : theme.colors.textSecondary} />
+                        </Pressable>
+                    )}
+                </View>
+
+                {status && (
+                    <View style={styles.status}>
+                        {state.running && <ActivityIndicator size="small" color={theme.colors.textSecondary} />}
+                        <Text style={[styles.statusText, failed && { color: theme.colors.terminal.error }]}>{status}</Text>
+                    </View>
+                )}
+
+                {state.command !== null && (
+                    <ScrollView
+                        ref={scrollRef}
+                        style={styles.output}
+                        onContentSizeChange={() => scrollRef.current?.scrollToEnd({ animated: false })}
+                    >
+                        <CommandView
+                            command={state.command}
+                            stdout={state.stdout}
+                            stderr={state.stderr}
+                            hideEmptyOutput={state.running}
+                            fullWidth
+                        />
+                    </ScrollView>
+                )}
+            </View>
+        </View>
+    );
+}
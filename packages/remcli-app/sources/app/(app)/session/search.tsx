@@ -0,0 +1,155 @@
+import React from 'react';
+import { ActivityIndicator, TextInput, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useUnistyles } from 'react-native-unistyles';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { Text } from '@/components/StyledText';
+import { Typography } from '@/constants/Typography';
+import { useAllSessions } from '@/sync/storage';
+import { searchCachedMessages, searchMachineLogs, mergeSearchResults, SessionSearchResult } from '@/sync/sessionSearch';
+import { useNavigateToSession } from '@/hooks/useNavigateToSession';
+import { getSessionName, formatLastSeen } from '@/utils/sessionUtils';
+import { t } from '@/text';
+
+const MACHINE_SEARCH_DELAY_MS = 400;
+
+export default React.memo(() => {
+    const { theme } = useUnistyles();
+    const sessions = useAllSessions();
+    const navigateToSession = useNavigateToSession();
+    const [query, setQuery] = React.useState('');
+    const [machineResults, setMachineResults] = React.useState<SessionSearchResult[]>([]);
+    const [isSearchingMachines, setIsSearchingMachines] = React.useState(false);
+
+    const sessionsById = React.useMemo(() => {
+        return new Map(sessions.map((s) => [s.id, s]));
+    }, [sessions]);
+
+    // Cached messages are already decrypted, so they are searched on every keystroke
+    const cachedResults = React.useMemo(() => searchCachedMessages(query), [query]);
+
+    // Machine logs are searched once typing pauses; stale responses are dropped
+    React.useEffect(() => {
+        setMachineResults([]);
+        if (query.trim().length < 2) {
+            setIsSearchingMachines(false);
+            return;
+        }
+        let cancelled = false;
+        setIsSearchingMachines(true);
+        const timer = setTimeout(async () => {
+            const results = await searchMachineLogs(query);
+            if (!cancelled) {
+                setMachineResults(results);
+                setIsSearchingMachines(false);
+            }
+        }, MACHINE_SEARCH_DELAY_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [query]);
+
+    const results = React.useMemo(() => {
+        return mergeSearchResults(cachedResults, machineResults)
+            .filter((r) => sessionsById.has(r.sessionId));
+    }, [cachedResults, machineResults, sessionsById]);
+
+    const hasQuery = query.trim().length > 0;
+
+    return (
+        <ItemList style={{ paddingTop: 0 }} keyboardShouldPersistTaps="handled">
+            <View style={{
+                backgroundColor: theme.colors.surface,
+                paddingHorizontal: 16,
+                paddingVertical: 12,
+                borderBottomWidth: 1,
+                borderBottomColor: theme.colors.divider
+            }}>
+                <View style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    backgroundColor: theme.colors.input.background,
+                    borderRadius: 10,
+                    paddingHorizontal: 12,
+                    paddingVertical: 8,
+                }}>
+                    <Ionicons
+                        name="search-outline"
+                        size={20}
+                        color={theme.colors.textSecondary}
+                        style={{ marginRight: 8 }}
+                    />
+                    <TextInput
+                        style={{
+                            flex: 1,
+                            fontSize: 16,
+                            color: theme.colors.input.text,
+                        }}
+                        placeholder={t('sessionSearch.placeholder')}
+                        placeholderTextColor={theme.colors.input.placeholder}
+                        value={query}
+                        onChangeText={setQuery}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        autoFocus={true}
+                        returnKeyType="search"
+                    />
+                    {isSearchingMachines && (
+                        <ActivityIndicator size="small" color={theme.colors.textSecondary} style={{ marginLeft: 8 }} />
+                    )}
+                    {query.length > 0 && (
+                        <Ionicons
+                            name="close-circle"
+                            size={20}
+                            color={theme.colors.textSecondary}
+                            onPress={() => setQuery('')}
+                            style={{ marginLeft: 8 }}
+                        />
+                    )}
+                </View>
+            </View>
+
+            {!hasQuery && (
+                <View style={{ paddingHorizontal: 32, paddingVertical: 24 }}>
+                    <Text style={{ fontSize: 14, color: theme.colors.textSecondary, textAlign: 'center', ...Typography.default() }}>
+                        {t('sessionSearch.hint')}
+                    </Text>
+                </View>
+            )}
+
+            {hasQuery && results.length === 0 && !isSearchingMachines && (
+                <ItemGroup>
+                    <Item title={t('sessionSearch.noResults')} showChevron={false} />
+                </ItemGroup>
+            )}
+
+            {results.length > 0 && (
+                <ItemGroup title={t('sessionSearch.results', { count: results.length })}>
+                    {results.map((result) => {
+                        const session = sessionsById.get(result.sessionId)!;
+                        return (
+                            <Item
+                                key={result.key}
+                                title={getSessionName(session)}
+                                subtitle={result.snippet}
+                                subtitleLines={3}
+                                detail={formatLastSeen(result.createdAt)}
+                                icon={
+                                    <Ionicons
+                                        name={result.role === 'user' ? 'person-outline' : 'sparkles-outline'}
+                                        size={24}
+                                        color={theme.colors.textSecondary}
+                                    />
+                                }
+                                onPress={() => navigateToSession(result.sessionId)}
+                            />
+                        );
+                    })}
+                </ItemGroup>
+            )}
+        </ItemList>
+    );
+});
@@ -0,0 +1,116 @@
+import React from 'react';
+import { ActivityIndicator, RefreshControl, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useUnistyles } from 'react-native-unistyles';
+import { useAuth } from '@/auth/AuthContext';
+import { Item } from '@/components/Item';
+import { ItemGroup } from '@/components/ItemGroup';
+import { ItemList } from '@/components/ItemList';
+import { Modal } from '@/modal';
+import { t } from '@/text';
+import { fetchDevices, revokeDevice, PairedDevice } from '@/sync/apiDevices';
+import { formatLastSeen } from '@/utils/sessionUtils';
+
+function deviceIcon(platform: string | null): React.ComponentProps<typeof Ionicons>['name'] {
+    switch (platform) {
+        case 'ios':
+        case 'android':
+            return 'phone-portrait-outline';
+        case 'web':
+            return 'globe-outline';
+        default:
+            return 'hardware-chip-outline';
+    }
+}
+
+export default React.memo(() => {
+    const { theme } = useUnistyles();
+    const auth = useAuth();
+    const [devices, setDevices] = React.useState<PairedDevice[] | null>(null);
+    const [isRefreshing, setIsRefreshing] = React.useState(false);
+    const [revokingId, setRevokingId] = React.useState<string | null>(null);
+
+    const load = React.useCallback(async () => {
+        try {
+            setDevices(await fetchDevices(auth.credentials!));
+        } catch (error) {
+            console.error('Failed to load devices:', error);
+            setDevices([]);
+        }
+    }, [auth.credentials]);
+
+    React.useEffect(() => {
+        load();
+    }, [load]);
+
+    const handleRefresh = React.useCallback(async () => {
+        setIsRefreshing(true);
+        await load();
+        setIsRefreshing(false);
+    }, [load]);
+
+    const handleRevoke = async (device: PairedDevice) => {
+        const confirmed = await Modal.confirm(
+            t('settingsDevices.revokeTitle', { name: device.name }),
+            device.current ? t('settingsDevices.revokeCurrentConfirm') : t('settingsDevices.revokeConfirm'),
+            { confirmText: t('settingsDevices.revoke'), destructive: true }
+        );
+        if (!confirmed) {
+            return;
+        }
+
+        setRevokingId(device.id);
+        try {
+            await revokeDevice(auth.credentials!, device.id);
+            if (device.current) {
+                // Our own token is gone — nothing else will work until the QR is scanned again
+                await auth.logout();
+                return;
+            }
+            await load();
+        } catch (error) {
+            Modal.alert(t('common.error'), t('settingsDevices.revokeFailed'));
+        } finally {
+            setRevokingId(null);
+        }
+    };
+
+    return (
+        <ItemList
+            style={{ paddingTop: 0 }}
+            refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />}
+        >
+            <ItemGroup
+                title={t('settingsDevices.pairedDevices')}
+                footer={t('settingsDevices.footer')}
+            >
+                {devices === null && (
+                    <View style={{ paddingVertical: 24, alignItems: 'center' }}>
+                        <ActivityIndicator size="small" color={theme.colors.textSecondary} />
+                    </View>
+                )}
+                {devices !== null && devices.length === 0 && (
+                    <Item
+                        title={t('settingsDevices.noDevices')}
+                        showChevron={false}
+                    />
+                )}
+                {devices?.map((device) => (
+                    <Item
+                        key={device.id}
+                        title={device.current ? t('settingsDevices.thisDevice', { name: device.name }) : device.name}
+                        subtitle={t('settingsDevices.lastSeen', { time: formatLastSeen(device.lastSeenAt) })}
+                        icon={<Ionicons name={deviceIcon(device.platform)} size={29} color={theme.colors.textSecondary} />}
+                        rightElement={
+                            <Ionicons name="close-circle-outline" size={24} color={theme.colors.textDestructive} />
+                        }
+                        loading={revokingId === device.id}
+                        disabled={revokingId !== null}
+                        onPress={() => handleRevoke(device)}
+                        showChevron={false}
+                    />
+                ))}
+            </ItemGroup>
+        </ItemList>
+    );
+});
@@ -24,6 +24,7 @@ import { t } from '@/text';
 import { Metadata } from '@/sync/storageTypes';
 import { AIBackendProfile, getProfileEnvironmentVariables, validateProfileForAgent } from '@/sync/settings';
 import { getBuiltInProfile } from '@/sync/profileUtils';
+import { AttachmentDraft, isImageAttachment } from '@/utils/attachments';
 
 interface AgentInputProps {
     value: string;
@@ -75,6 +76,9 @@ interface AgentInputProps {
     minHeight?: number;
     profileId?: string | null;
     onProfileClick?: () => void;
+    attachments?: AttachmentDraft[];
+    onAttachPress?: () => void;
+    onRemoveAttachment?: (index: number) => void;
 }
 
 const MAX_CONTEXT_SIZE = 190000;
@@ -106,6 +110,35 @@ const stylesheet = StyleSheet.create((theme, runtime) => ({
         paddingVertical: 4,
         minHeight: 40,
     },
+    attachmentsRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 6,
+        paddingHorizontal: 8,
+        paddingTop: 8,
+    },
+    attachmentChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        maxWidth: 200,
+        borderRadius: 8,
+        paddingLeft: 4,
+        paddingRight: 8,
+        paddingVertical: 4,
+        backgroundColor: theme.colors.surfacePressed,
+    },
+    attachmentThumbnail: {
+        width: 28,
+        height: 28,
+        borderRadius: 4,
+    },
+    attachmentName: {
+        flexShrink: 1,
+        fontSize: 12,
+        color: theme.colors.text,
+        ...Typography.default(),
+    },
 
     // Overlay styles
     autocompleteOverlay: {
@@ -299,7 +332,8 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
     const { theme } = useUnistyles();
     const { width: screenWidth, height: screenHeight } = useWindowDimensions();
 
-    const hasText = props.value.trim().length > 0;
+    // Attachments alone are enough to send a message
+    const hasText = props.value.trim().length > 0 || (props.attachments?.length ?? 0) > 0;
 
     // Check if this is a Codex, Cursor, or Gemini session
     // Use metadata.flavor for existing sessions, agentType prop for new sessions
@@ -470,7 +504,7 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
         // Original key handling
         if (Platform.OS === 'web') {
             if (agentInputEnterToSend && event.key === 'Enter' && !event.shiftKey) {
-                if (props.value.trim()) {
+                if (hasText) {
                     props.onSend();
                     return true; // Key was handled
                 }
@@ -491,7 +525,7 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
 
         }
         return false; // Key was not handled
-    }, [suggestions, moveUp, moveDown, selected, handleSuggestionSelect, props.showAbortButton, props.onAbort, isAborting, handleAbortPress, agentInputEnterToSend, props.value, props.onSend, props.permissionMode, props.onPermissionModeChange]);
+    }, [suggestions, moveUp, moveDown, selected, handleSuggestionSelect, props.showAbortButton, props.onAbort, isAborting, handleAbortPress, agentInputEnterToSend, hasText, props.onSend, props.permissionMode, props.onPermissionModeChange]);
 
 
 
@@ -956,6 +990,32 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
 
                 {/* Box 2: Action Area (Input + Send) */}
                 <View style={styles.unifiedPanel}>
+                    {/* Pending attachments */}
+                    {props.attachments && props.attachments.length > 0 && (
+                        <View style={styles.attachmentsRow}>
+                            {props.attachments.map((attachment, index) => (
+                                <View key={`${attachment.uri}-${index}`} style={styles.attachmentChip}>
+                                    {isImageAttachment(attachment.mimeType) ? (
+                                        <Image source={{ uri: attachment.uri }} style={styles.attachmentThumbnail} contentFit="cover" />
+                                    ) : (
+                                        <Ionicons name="document-outline" size={20} color={theme.colors.textSecondary} />
+                                    )}
+                                    <Text style={styles.attachmentName} numberOfLines={1}>
+                                        {attachment.name}
+                                    </Text>
+                                    {props.onRemoveAttachment && (
+                                        <Pressable
+                                            onPress={() => props.onRemoveAttachment?.(index)}
+                                            hitSlop={8}
+                                        >
+                                            <Ionicons name="close-circle" size={16} color={theme.colors.textSecondary} />
+                                        </Pressable>
+                                    )}
+                                </View>
+                            ))}
+                        </View>
+                    )}
+
                     {/* Input field */}
                     <View style={[styles.inputContainer, props.minHeight ? { minHeight: props.minHeight } : undefined]}>
                         <MultiTextInput
@@ -1002,6 +1062,33 @@ export const AgentInput = React.memo(React.forwardRef<MultiTextInputHandle, Agen
                                     </Pressable>
                                 )}
 
+                                {/* Attach button */}
+                                {props.onAttachPress && (
+                                    <Pressable
+                                        onPress={() => {
+                                            hapticsLight();
+                                            props.onAttachPress?.();
+                                        }}
+                                        hitSlop={{ top: 5, bottom: 10, left: 0, right: 0 }}
+                                        style={(p) => ({
+                                            flexDirection: 'row',
+                                            alignItems: 'center',
+                                            borderRadius: Platform.select({ default: 16, android: 20 }),
+                                            paddingHorizontal: 8,
+                                            paddingVertical: 6,
+                                            justifyContent: 'center',
+                                            height: 32,
+                                            opacity: p.pressed ? 0.7 : 1,
+                                        })}
+                                    >
+                                        <Octicons
+                                            name={'paperclip'}
+                                            size={16}
+                                            color={theme.colors.button.secondary.tint}
+                                        />
+                                    </Pressable>
+                                )}
+
                                 {/* Profile selector button - FIRST */}
                                 {props.profileId && props.onProfileClick && (
                                     <Pressable
@@ -8,22 +8,31 @@ import { MessageView } from './MessageView';
 import { Metadata, Session } from '@/sync/storageTypes';
 import { ChatFooter } from './ChatFooter';
 import { Message } from '@/sync/typesMessage';
+import { sync } from '@/sync/sync';
 
 export const ChatList = React.memo((props: { session: Session }) => {
-    const { messages } = useSessionMessages(props.session.id);
+    const { messages, hasOlderMessages } = useSessionMessages(props.session.id);
     return (
         <ChatListInternal
             metadata={props.session.metadata}
             sessionId={props.session.id}
             messages={messages}
+            hasOlderMessages={hasOlderMessages}
         />
     )
 });
 
-const ListHeader = React.memo(() => {
+const ListHeader = React.memo((props: { loadingOlder: boolean }) => {
     const headerHeight = useHeaderHeight();
     const safeArea = useSafeAreaInsets();
-    return <View style={{ flexDirection: 'row', alignItems: 'center', height: headerHeight + safeArea.top + 32 }} />;
+    return (
+        <View>
+            <View style={{ flexDirection: 'row', alignItems: 'center', height: headerHeight + safeArea.top + 32 }} />
+            {props.loadingOlder && (
+                <ActivityIndicator size="small" style={{ paddingVertical: 12 }} />
+            )}
+        </View>
+    );
 });
 
 const ListFooter = React.memo((props: { sessionId: string }) => {
@@ -37,8 +46,20 @@ const ChatListInternal = React.memo((props: {
     metadata: Metadata | null,
     sessionId: string,
     messages: Message[],
+    hasOlderMessages: boolean,
 }) => {
+    const [loadingOlder, setLoadingOlder] = React.useState(false);
     const keyExtractor = useCallback((item: any) => item.id, []);
+    // The list is inverted, so its end is the top of the chat — the oldest loaded message
+    const handleEndReached = useCallback(() => {
+        if (!props.hasOlderMessages || loadingOlder) {
+            return;
+        }
+        setLoadingOlder(true);
+        sync.loadOlderMessages(props.sessionId)
+            .catch((error) => console.error('Failed to load older messages:', error))
+            .finally(() => setLoadingOlder(false));
+    }, [props.hasOlderMessages, props.sessionId, loadingOlder]);
     const renderItem = useCallback(({ item }: { item: any }) => (
         <MessageView message={item} metadata={props.metadata} sessionId={props.sessionId} />
     ), [props.metadata, props.sessionId]);
@@ -54,8 +75,10 @@ const ChatListInternal = React.memo((props: {
             keyboardShouldPersistTaps="handled"
             keyboardDismissMode={Platform.OS === 'ios' ? 'interactive' : 'none'}
             renderItem={renderItem}
+            onEndReached={handleEndReached}
+            onEndReachedThreshold={0.5}
             ListHeaderComponent={<ListFooter sessionId={props.sessionId} />}
-            ListFooterComponent={<ListHeader />}
+            ListFooterComponent={<ListHeader loadingOlder={loadingOlder} />}
         />
     )
 });
\ No newline at end of file
@@ -93,6 +93,11 @@ const styles = StyleSheet.create((theme) => ({
         alignItems: 'center',
         justifyContent: 'center',
     },
+    headerButtons: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
 }));
 
 // Tab header configuration (zen excluded as that tab is disabled)
@@ -173,13 +178,22 @@ const HeaderRight = React.memo(({ activeTab }: { activeTab: ActiveTabType }) =>
 
     if (activeTab === 'sessions') {
         return (
-            <Pressable
-                onPress={() => router.push('/new')}
-                hitSlop={15}
-                style={styles.headerButton}
-            >
-                <Ionicons name="add-outline" size={28} color={theme.colors.header.tint} />
-            </Pressable>
+            <View style={styles.headerButtons}>
+                <Pressable
+                    onPress={() => router.push('/session/search')}
+                    hitSlop={15}
+                    style={styles.headerButton}
+                >
+                    <Ionicons name="search-outline" size={24} color={theme.colors.header.tint} />
+                </Pressable>
+                <Pressable
+                    onPress={() => router.push('/new')}
+                    hitSlop={15}
+                    style={styles.headerButton}
+                >
+                    <Ionicons name="add-outline" size={28} color={theme.colors.header.tint} />
+                </Pressable>
+            </View>
         );
     }
 
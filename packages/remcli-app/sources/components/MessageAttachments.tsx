@@ -0,0 +1,122 @@
+import * as React from 'react';
+import { ActivityIndicator, View } from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { Text } from './StyledText';
+import { Typography } from '@/constants/Typography';
+import { MessageAttachment } from '@/sync/typesRaw';
+import { sync } from '@/sync/sync';
+import { isImageAttachment } from '@/utils/attachments';
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Images are downloaded and decrypted on first render; files only show their name
+const ImageAttachment = React.memo((props: { sessionId: string; attachment: MessageAttachment }) => {
+  const { theme } = useUnistyles();
+  const [uri, setUri] = React.useState<string | null>(null);
+  const [failed, setFailed] = React.useState(false);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    sync.fetchAttachmentData(props.sessionId, props.attachment.id)
+      .then((data) => {
+        if (cancelled) return;
+        if (data) {
+          setUri(`data:${props.attachment.mimeType};base64,${data}`);
+        } else {
+          setFailed(true);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [props.sessionId, props.attachment.id, props.attachment.mimeType]);
+
+  if (failed) {
+    return <FileAttachment attachment={props.attachment} />;
+  }
+
+  return (
+    <View style={styles.image}>
+      {uri ? (
+        <Image source={{ uri }} style={styles.image} contentFit="cover" />
+      ) : (
+        <ActivityIndicator size="small" color={theme.colors.textSecondary} />
+      )}
+    </View>
+  );
+});
+
+const FileAttachment = React.memo((props: { attachment: MessageAttachment }) => {
+  const { theme } = useUnistyles();
+  return (
+    <View style={styles.file}>
+      <Ionicons name="document-outline" size={20} color={theme.colors.textSecondary} />
+      <View style={{ flexShrink: 1 }}>
+        <Text style={styles.fileName} numberOfLines={1}>{props.attachment.name}</Text>
+        <Text style={styles.fileSize}>{formatSize(props.attachment.size)}</Text>
+      </View>
+    </View>
+  );
+});
+
+export const MessageAttachments = React.memo((props: { sessionId: string; attachments: MessageAttachment[] }) => {
+  return (
+    <View style={styles.container}>
+      {props.attachments.map((attachment) => (
+        isImageAttachment(attachment.mimeType)
+          ? <ImageAttachment key={attachment.id} sessionId={props.sessionId} attachment={attachment} />
+          : <FileAttachment key={attachment.id} attachment={attachment} />
+      ))}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create((theme) => ({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    gap: 6,
+    paddingVertical: 6,
+  },
+  image: {
+    width: 160,
+    height: 160,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  file: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    maxWidth: 240,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: theme.colors.surface,
+  },
+  fileName: {
+    fontSize: 13,
+    color: theme.colors.text,
+    ...Typography.default('semiBold'),
+  },
+  fileSize: {
+    fontSize: 11,
+    color: theme.colors.textSecondary,
+    ...Typography.default(),
+  },
+}));
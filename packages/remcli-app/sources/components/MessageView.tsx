@@ -1,6 +1,7 @@
 import * as React from "react";
-import { View, Text } from "react-native";
-import { StyleSheet } from 'react-native-unistyles';
+import { View, Text, Pressable } from "react-native";
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import { Ionicons } from '@expo/vector-icons';
 import { MarkdownView } from "./markdown/MarkdownView";
 import { t } from '@/text';
 import { Message, UserTextMessage, AgentTextMessage, ToolCallMessage } from "@/sync/typesMessage";
@@ -11,6 +12,12 @@ import { AgentEvent } from "@/sync/typesRaw";
 import { sync } from '@/sync/sync';
 import { Option } from './markdown/MarkdownView';
 import { useSetting } from "@/sync/storage";
+import { MessageAttachments } from "./MessageAttachments";
+import { Modal } from '@/modal';
+import { useRemcliAction } from '@/hooks/useRemcliAction';
+import { useNavigateToSession } from '@/hooks/useNavigateToSession';
+import { RemcliError } from '@/utils/errors';
+import { forkSessionBeforeMessage, getForkSource } from '@/sync/sessionFork';
 
 export const MessageView = (props: {
   message: Message;
@@ -41,7 +48,7 @@ function RenderBlock(props: {
 }): React.ReactElement {
   switch (props.message.kind) {
     case 'user-text':
-      return <UserTextBlock message={props.message} sessionId={props.sessionId} />;
+      return <UserTextBlock message={props.message} metadata={props.metadata} sessionId={props.sessionId} />;
 
     case 'agent-text':
       return <AgentTextBlock message={props.message} sessionId={props.sessionId} />;
@@ -67,6 +74,7 @@ function RenderBlock(props: {
 
 function UserTextBlock(props: {
   message: UserTextMessage;
+  metadata: Metadata | null;
   sessionId: string;
 }) {
   const handleOptionPress = React.useCallback((option: Option) => {
@@ -75,16 +83,65 @@ function UserTextBlock(props: {
 
   return (
     <View style={styles.userMessageContainer}>
-      <View style={styles.userMessageBubble}>
-        <MarkdownView markdown={props.message.displayText || props.message.text} onOptionPress={handleOptionPress} />
-        {/* {__DEV__ && (
-          <Text style={styles.debugText}>{JSON.stringify(props.message.meta)}</Text>
-        )} */}
+      <View style={styles.userMessageRow}>
+        {getForkSource(props.metadata) && (
+          <ForkButton sessionId={props.sessionId} messageId={props.message.id} />
+        )}
+        <View style={styles.userMessageBubble}>
+          {props.message.attachments && props.message.attachments.length > 0 && (
+            <MessageAttachments sessionId={props.sessionId} attachments={props.message.attachments} />
+          )}
+          {(props.message.displayText || props.message.text).length > 0 && (
+            <MarkdownView markdown={props.message.displayText || props.message.text} onOptionPress={handleOptionPress} />
+          )}
+          {/* {__DEV__ && (
+            <Text style={styles.debugText}>{JSON.stringify(props.message.meta)}</Text>
+          )} */}
+        </View>
       </View>
     </View>
   );
 }
 
+// Starts a new session whose agent picks up from just before this message
+function ForkButton(props: {
+  sessionId: string;
+  messageId: string;
+}) {
+  const { theme } = useUnistyles();
+  const navigateToSession = useNavigateToSession();
+  const [forking, fork] = useRemcliAction(async () => {
+    const result = await forkSessionBeforeMessage(props.sessionId, props.messageId);
+    if (result.type !== 'success') {
+      throw new RemcliError(result.type === 'error' ? result.errorMessage : t('message.forkFailed'), false);
+    }
+    navigateToSession(result.sessionId);
+  });
+
+  const handlePress = React.useCallback(async () => {
+    const confirmed = await Modal.confirm(
+      t('message.forkFromHere'),
+      t('message.forkFromHereConfirm'),
+      { cancelText: t('common.cancel'), confirmText: t('message.fork') }
+    );
+    if (confirmed) {
+      fork();
+    }
+  }, [fork]);
+
+  return (
+    <Pressable
+      style={styles.forkButton}
+      onPress={handlePress}
+      disabled={forking}
+      hitSlop={8}
+      accessibilityLabel={t('message.forkFromHere')}
+    >
+      <Ionicons name="git-branch-outline" size={16} color={theme.colors.textSecondary} style={forking ? styles.forkButtonBusy : undefined} />
+    </Pressable>
+  );
+}
+
 function AgentTextBlock(props: {
   message: AgentTextMessage;
   sessionId: string;
@@ -189,7 +246,20 @@ const styles = StyleSheet.create((theme) => ({
     justifyContent: 'flex-end',
     paddingHorizontal: 16,
   },
+  userMessageRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    maxWidth: '100%',
+  },
+  forkButton: {
+    marginRight: 8,
+    marginBottom: 20,
+  },
+  forkButtonBusy: {
+    opacity: 0.4,
+  },
   userMessageBubble: {
+    flexShrink: 1,
     backgroundColor: theme.colors.userMessageBackground,
     paddingHorizontal: 12,
     paddingVertical: 4,
@@ -5,7 +5,7 @@ import { StyleSheet } from 'react-native-unistyles';
 import { useUnistyles } from 'react-native-unistyles';
 import { Typography } from '@/constants/Typography';
 import { t } from '@/text';
-import { AIBackendProfile } from '@/sync/settings';
+import { AIBackendProfile, PermissionTimeoutAction } from '@/sync/settings';
 import { PermissionMode, ModelMode } from '@/components/PermissionModeSelector';
 import { SessionTypeSelector } from '@/components/SessionTypeSelector';
 import { ItemGroup } from '@/components/ItemGroup';
@@ -14,6 +14,9 @@ import { getBuiltInProfileDocumentation } from '@/sync/profileUtils';
 import { useEnvironmentVariables, extractEnvVarReferences } from '@/hooks/useEnvironmentVariables';
 import { EnvironmentVariablesList } from '@/components/EnvironmentVariablesList';
 
+// Permission timeout choices in seconds; null leaves requests waiting for an answer
+const PERMISSION_TIMEOUT_OPTIONS: (number | null)[] = [null, 120, 300, 900, 3600];
+
 export interface ProfileEditFormProps {
     profile: AIBackendProfile;
     machineId: string | null;
@@ -58,6 +61,9 @@ export function ProfileEditForm({
     const [startupScript, setStartupScript] = React.useState(profile.startupBashScript || '');
     const [defaultSessionType, setDefaultSessionType] = React.useState<'simple' | 'worktree'>(profile.defaultSessionType || 'simple');
     const [defaultPermissionMode, setDefaultPermissionMode] = React.useState<PermissionMode>((profile.defaultPermissionMode as PermissionMode) || 'default');
+    const [permissionTimeoutSeconds, setPermissionTimeoutSeconds] = React.useState<number | null>(profile.permissionTimeout?.seconds ?? null);
+    const [permissionTimeoutAction, setPermissionTimeoutAction] = React.useState<PermissionTimeoutAction>(profile.permissionTimeout?.action || 'deny');
+    const [codexBackend, setCodexBackend] = React.useState<'mcp' | 'acp'>(profile.codexBackend || 'mcp');
     const [agentType, setAgentType] = React.useState<'claude' | 'codex' | 'cursor'>(() => {
         if (profile.compatibility.claude && !profile.compatibility.codex && !profile.compatibility.cursor) return 'claude';
         if (profile.compatibility.codex && !profile.compatibility.claude && !profile.compatibility.cursor) return 'codex';
@@ -93,6 +99,8 @@ export function ProfileEditForm({
             startupBashScript: useStartupScript ? (startupScript.trim() || undefined) : undefined,
             defaultSessionType: defaultSessionType,
             defaultPermissionMode: defaultPermissionMode,
+            permissionTimeout: permissionTimeoutSeconds ? { seconds: permissionTimeoutSeconds, action: permissionTimeoutAction } : undefined,
+            codexBackend: codexBackend === 'acp' ? 'acp' : undefined,
             updatedAt: Date.now(),
         });
     };
@@ -269,6 +277,116 @@ export function ProfileEditForm({
                     </ItemGroup>
                     <View style={{ marginBottom: 16 }} />
 
+                    {/* Permission Timeout */}
+                    <Text style={{
+                        fontSize: 14,
+                        fontWeight: '600',
+                        color: theme.colors.text,
+                        marginBottom: 12,
+                        ...Typography.default('semiBold')
+                    }}>
+                        {t('profiles.permissionTimeout.title')}
+                    </Text>
+                    <ItemGroup title="" footer={t('profiles.permissionTimeout.footer')}>
+                        {PERMISSION_TIMEOUT_OPTIONS.map((seconds, index, array) => (
+                            <Item
+                                key={seconds ?? 'off'}
+                                title={seconds ? t('profiles.permissionTimeout.minutes', { count: seconds / 60 }) : t('profiles.permissionTimeout.off')}
+                                rightElement={permissionTimeoutSeconds === seconds ? (
+                                    <Ionicons
+                                        name="checkmark-circle"
+                                        size={20}
+                                        color={theme.colors.button.primary.tint}
+                                    />
+                                ) : null}
+                                onPress={() => setPermissionTimeoutSeconds(seconds)}
+                                showChevron={false}
+                                selected={permissionTimeoutSeconds === seconds}
+                                showDivider={index < array.length - 1}
+                            />
+                        ))}
+                    </ItemGroup>
+                    {permissionTimeoutSeconds !== null && (
+                        <ItemGroup title={t('profiles.permissionTimeout.actionTitle')}>
+                            {([
+                                { value: 'deny', label: t('profiles.permissionTimeout.deny'), description: t('profiles.permissionTimeout.denyDescription'), icon: 'close-circle-outline' },
+                                { value: 'approve-read-only', label: t('profiles.permissionTimeout.approveReadOnly'), description: t('profiles.permissionTimeout.approveReadOnlyDescription'), icon: 'eye-outline' },
+                                { value: 'pause', label: t('profiles.permissionTimeout.pause'), description: t('profiles.permissionTimeout.pauseDescription'), icon: 'pause-circle-outline' },
+                            ] as const).map((option, index, array) => (
+                                <Item
+                                    key={option.value}
+                                    title={option.label}
+                                    subtitle={option.description}
+                                    leftElement={
+                                        <Ionicons
+                                            name={option.icon}
+                                            size={24}
+                                            color={permissionTimeoutAction === option.value ? theme.colors.button.primary.tint : theme.colors.textSecondary}
+                                        />
+                                    }
+                                    rightElement={permissionTimeoutAction === option.value ? (
+                                        <Ionicons
+                                            name="checkmark-circle"
+                                            size={20}
+                                            color={theme.colors.button.primary.tint}
+                                        />
+                                    ) : null}
+                                    onPress={() => setPermissionTimeoutAction(option.value)}
+                                    showChevron={false}
+                                    selected={permissionTimeoutAction === option.value}
+                                    showDivider={index < array.length - 1}
+                                />
+                            ))}
+                        </ItemGroup>
+                    )}
+                    <View style={{ marginBottom: 16 }} />
+
+                    {/* Codex Backend */}
+                    {profile.compatibility.codex && (
+                        <>
+                            <Text style={{
+                                fontSize: 14,
+                                fontWeight: '600',
+                                color: theme.colors.text,
+                                marginBottom: 12,
+                                ...Typography.default('semiBold')
+                            }}>
+                                {t('profiles.codexBackend.title')}
+                            </Text>
+                            <ItemGroup title="" footer={t('profiles.codexBackend.footer')}>
+                                {([
+                                    { value: 'mcp', label: t('profiles.codexBackend.mcp'), description: t('profiles.codexBackend.mcpDescription'), icon: 'server-outline' },
+                                    { value: 'acp', label: t('profiles.codexBackend.acp'), description: t('profiles.codexBackend.acpDescription'), icon: 'swap-horizontal-outline' },
+                                ] as const).map((option, index, array) => (
+                                    <Item
+                                        key={option.value}
+                                        title={option.label}
+                                        subtitle={option.description}
+                                        leftElement={
+                                            <Ionicons
+                                                name={option.icon}
+                                                size={24}
+                                                color={codexBackend === option.value ? theme.colors.button.primary.tint : theme.colors.textSecondary}
+                                            />
+                                        }
+                                        rightElement={codexBackend === option.value ? (
+                                            <Ionicons
+                                                name="checkmark-circle"
+                                                size={20}
+                                                color={theme.colors.button.primary.tint}
+                                            />
+                                        ) : null}
+                                        onPress={() => setCodexBackend(option.value)}
+                                        showChevron={false}
+                                        selected={codexBackend === option.value}
+                                        showDivider={index < array.length - 1}
+                                    />
+                                ))}
+                            </ItemGroup>
+                            <View style={{ marginBottom: 16 }} />
+                        </>
+                    )}
+
                     {/* Tmux Enable/Disable */}
                     <View style={{
                         flexDirection: 'row',
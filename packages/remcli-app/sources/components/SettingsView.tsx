@@ -307,6 +307,12 @@ export const SettingsView = React.memo(function SettingsView() {
                     icon={<Ionicons name="flask-outline" size={29} color="#FF9500" />}
                     onPress={() => router.push('/settings/features')}
                 />
+                <Item
+                    title={t('settings.devices')}
+                    subtitle={t('settings.devicesSubtitle')}
+                    icon={<Ionicons name="phone-portrait-outline" size={29} color="#FF2D55" />}
+                    onPress={() => router.push('/settings/devices')}
+                />
                 <Item
                     title={t('settings.profiles')}
                     subtitle={t('settings.profilesSubtitle')}
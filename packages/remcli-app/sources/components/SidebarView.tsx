@@ -264,6 +264,12 @@ export const SidebarView = React.memo(() => {
                                 <View style={styles.indicatorDot} />
                             )}
                         </Pressable>
+                        <Pressable
+                            onPress={() => router.push('/session/search')}
+                            hitSlop={15}
+                        >
+                            <Ionicons name="search-outline" size={24} color={theme.colors.header.tint} />
+                        </Pressable>
                         <Pressable
                             onPress={() => router.push('/settings')}
                             hitSlop={15}
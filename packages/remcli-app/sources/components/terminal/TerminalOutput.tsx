@@ -0,0 +1,183 @@
+import * as React from 'react';
+import { LayoutChangeEvent, NativeScrollEvent, NativeSyntheticEvent, Platform, Pressable, ScrollView, Text, TextStyle, View } from 'react-native';
+import { StyleSheet, useUnistyles } from 'react-native-unistyles';
+import type { TerminalColor, TerminalLine, TerminalSpan } from '@/utils/terminalScreen';
+import { TERMINAL_EXTRA_KEYS } from './terminalKeys';
+
+export const TERMINAL_FONT_SIZE = 12;
+export const TERMINAL_LINE_HEIGHT = 16;
+const CHAR_WIDTH = TERMINAL_FONT_SIZE * 0.6; // Menlo and the Android monospace font
+const PADDING = 8;
+const MAX_RENDERED_LINES = 400;
+
+// xterm-ish palette for the 16 basic colors
+const ANSI_COLORS = [
+    '#000000', '#cd3131', '#0dbc79', '#e5e510', '#2472c8', '#bc3fbc', '#11a8cd', '#e5e5e5',
+    '#666666', '#f14c4c', '#23d18b', '#f5f543', '#3b8eea', '#d670d6', '#29b8db', '#ffffff',
+];
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+function hex(value: number) {
+    return value.toString(16).padStart(2, '0');
+}
+
+function resolveColor(color: TerminalColor): string | null {
+    if (color === null || typeof color === 'string') {
+        return color;
+    }
+    if (color < 16) {
+        return ANSI_COLORS[color];
+    }
+    if (color < 232) {
+        const index = color - 16;
+        return `#${hex(CUBE_LEVELS[Math.floor(index / 36)])}${hex(CUBE_LEVELS[Math.floor(index / 6) % 6])}${hex(CUBE_LEVELS[index % 6])}`;
+    }
+    const gray = hex(Math.min(255, 8 + (color - 232) * 10));
+    return `#${gray}${gray}${gray}`;
+}
+
+/** Columns and rows that fit a view of this size */
+export function terminalSizeForLayout(width: number, height: number) {
+    return {
+        cols: Math.max(10, Math.floor((width - PADDING * 2) / CHAR_WIDTH)),
+        rows: Math.max(5, Math.floor((height - PADDING * 2) / TERMINAL_LINE_HEIGHT)),
+    };
+}
+
+const TerminalLineView = React.memo((props: { line: TerminalLine; foreground: string; background: string }) => {
+    const spans = props.line.map((span, index) => {
+        let fg = resolveColor(span.style.fg) ?? props.foreground;
+        let bg = resolveColor(span.style.bg);
+        if (span.style.inverse) {
+            [fg, bg] = [bg ?? props.background, fg];
+        }
+        const style: TextStyle = { color: fg };
+        if (bg) style.backgroundColor = bg;
+        if (span.style.bold) style.fontWeight = 'bold';
+        if (span.style.italic) style.fontStyle = 'italic';
+        if (span.style.underline) style.textDecorationLine = 'underline';
+        return <Text key={index} style={style}>{span.text}</Text>;
+    });
+    return <Text style={stylesheet.line} numberOfLines={1}>{spans.length > 0 ? spans : ' '}</Text>;
+}, (prev, next) => prev.foreground === next.foreground && prev.background === next.background && sameLine(prev.line, next.line));
+
+function sameLine(a: TerminalLine, b: TerminalLine) {
+    return a.length === b.length && a.every((span: TerminalSpan, i) => span.text === b[i].text && span.style === b[i].style);
+}
+
+interface TerminalOutputProps {
+    lines: TerminalLine[];
+    onSize: (cols: number, rows: number) => void;
+    onPress?: () => void;
+}
+
+/** Screen and scrollback of a remote terminal, kept scrolled to the bottom unless the user scrolls up */
+export const TerminalOutput = React.memo((props: TerminalOutputProps) => {
+    const { theme } = useUnistyles();
+    const scrollRef = React.useRef<ScrollView>(null);
+    const stickToBottom = React.useRef(true);
+    const { onSize } = props;
+
+    const handleLayout = React.useCallback((event: LayoutChangeEvent) => {
+        const { cols, rows } = terminalSizeForLayout(event.nativeEvent.layout.width, event.nativeEvent.layout.height);
+        onSize(cols, rows);
+    }, [onSize]);
+
+    const handleScroll = React.useCallback((event: NativeSyntheticEvent<NativeScrollEvent>) => {
+        const { contentOffset, contentSize, layoutMeasurement } = event.nativeEvent;
+        stickToBottom.current = contentOffset.y + layoutMeasurement.height >= contentSize.height - TERMINAL_LINE_HEIGHT * 2;
+    }, []);
+
+    const lines = props.lines.length > MAX_RENDERED_LINES ? props.lines.slice(-MAX_RENDERED_LINES) : props.lines;
+
+    return (
+        <View style={stylesheet.container} onLayout={handleLayout}>
+            <ScrollView
+                ref={scrollRef}
+                style={stylesheet.scroll}
+                contentContainerStyle={stylesheet.content}
+                onScroll={handleScroll}
+                scrollEventThrottle={100}
+                onContentSizeChange={() => {
+                    if (stickToBottom.current) {
+                        scrollRef.current?.scrollToEnd({ animated: false });
+                    }
+                }}
+                keyboardShouldPersistTaps="always"
+            >
+                <Pressable onPress={props.onPress}>
+                    {lines.map((line, index) => (
+                        <TerminalLineView
+                            key={index}
+                            line={line}
+                            foreground={theme.colors.terminal.stdout}
+                            background={theme.colors.terminal.background}
+                        />
+                    ))}
+                </Pressable>
+            </ScrollView>
+        </View>
+    );
+});
+
+/** Row of keys a phone keyboard lacks */
+export const TerminalExtraKeys = React.memo((props: { onKey: (sequence: string) => void; ctrl: boolean; onToggleCtrl: () => void }) => {
+    return (
+        <ScrollView horizontal style={stylesheet.keysBar} contentContainerStyle={stylesheet.keysContent} keyboardShouldPersistTaps="always" showsHorizontalScrollIndicator={false}>
+            <Pressable style={[stylesheet.key, props.ctrl && stylesheet.keyActive]} onPress={props.onToggleCtrl}>
+                <Text style={stylesheet.keyText}>ctrl</Text>
+            </Pressable>
+            {TERMINAL_EXTRA_KEYS.map((key) => (
+                <Pressable key={key.label} style={stylesheet.key} onPress={() => props.onKey(key.sequence)}>
+                    <Text style={stylesheet.keyText}>{key.label}</Text>
+                </Pressable>
+            ))}
+        </ScrollView>
+    );
+});
+
+const stylesheet = StyleSheet.create((theme) => ({
+    container: {
+        flex: 1,
+        backgroundColor: theme.colors.terminal.background,
+    },
+    scroll: {
+        flex: 1,
+    },
+    content: {
+        padding: PADDING,
+    },
+    line: {
+        fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+        fontSize: TERMINAL_FONT_SIZE,
+        lineHeight: TERMINAL_LINE_HEIGHT,
+        color: theme.colors.terminal.stdout,
+    },
+    keysBar: {
+        flexGrow: 0,
+        backgroundColor: theme.colors.surfaceHigh,
+        borderTopWidth: StyleSheet.hairlineWidth,
+        borderTopColor: theme.colors.divider,
+    },
+    keysContent: {
+        paddingHorizontal: 6,
+        paddingVertical: 6,
+        gap: 6,
+    },
+    key: {
+        minWidth: 40,
+        paddingHorizontal: 10,
+        paddingVertical: 8,
+        borderRadius: 6,
+        alignItems: 'center',
+        backgroundColor: theme.colors.surfaceHighest,
+    },
+    keyActive: {
+        backgroundColor: theme.colors.textLink,
+    },
+    keyText: {
+        fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+        fontSize: 14,
+        color: theme.colors.text,
+    },
+}));
@@ -0,0 +1,81 @@
+import * as React from 'react';
+import { TextInput, View } from 'react-native';
+import { StyleSheet } from 'react-native-unistyles';
+import type { TerminalLine } from '@/utils/terminalScreen';
+import { TerminalExtraKeys, TerminalOutput } from './TerminalOutput';
+import { controlSequence } from './terminalKeys';
+
+export interface TerminalViewProps {
+    lines: TerminalLine[];
+    onInput: (data: string) => void;
+    onSize: (cols: number, rows: number) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Remote terminal on native: the output plus an invisible text input that
+ * forwards whatever the system keyboard types, and a row of extra keys.
+ */
+export const TerminalView = React.memo((props: TerminalViewProps) => {
+    const inputRef = React.useRef<TextInput>(null);
+    const [ctrl, setCtrl] = React.useState(false);
+    const { onInput } = props;
+
+    const send = React.useCallback((data: string) => {
+        if (ctrl && data.length === 1) {
+            setCtrl(false);
+            onInput(controlSequence(data) ?? data);
+            return;
+        }
+        onInput(data);
+    }, [ctrl, onInput]);
+
+    return (
+        <View style={styles.container}>
+            <TerminalOutput lines={props.lines} onSize={props.onSize} onPress={() => inputRef.current?.focus()} />
+            {!props.disabled && (
+                <>
+                    <TerminalExtraKeys
+                        onKey={(sequence) => {
+                            setCtrl(false);
+                            onInput(sequence);
+                        }}
+                        ctrl={ctrl}
+                        onToggleCtrl={() => setCtrl((value) => !value)}
+                    />
+                    <TextInput
+                        ref={inputRef}
+                        style={styles.hiddenInput}
+                        value=""
+                        autoFocus
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        autoComplete="off"
+                        spellCheck={false}
+                        submitBehavior="submit"
+                        onChangeText={(text) => {
+                            if (text) send(text.replace(/\n/g, '\r'));
+                        }}
+                        onSubmitEditing={() => send('\r')}
+                        onKeyPress={(event) => {
+                            // The input is always empty, so backspace never changes its text
+                            if (event.nativeEvent.key === 'Backspace') send('\x7f');
+                        }}
+                    />
+                </>
+            )}
+        </View>
+    );
+});
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    hiddenInput: {
+        position: 'absolute',
+        width: 1,
+        height: 1,
+        opacity: 0,
+    },
+});
@@ -0,0 +1,103 @@
+import * as React from 'react';
+import { View } from 'react-native';
+import { StyleSheet } from 'react-native-unistyles';
+import { TerminalExtraKeys, TerminalOutput } from './TerminalOutput';
+import { controlSequence, keyboardEventToSequence } from './terminalKeys';
+import type { TerminalViewProps } from './TerminalView';
+
+/**
+ * Remote terminal on web: hardware keys are mapped to xterm sequences by a
+ * hidden textarea that keeps focus, so paste and mobile keyboards work too.
+ */
+export const TerminalView = React.memo((props: TerminalViewProps) => {
+    const inputRef = React.useRef<HTMLTextAreaElement>(null);
+    const [ctrl, setCtrl] = React.useState(false);
+    const { onInput } = props;
+
+    React.useEffect(() => {
+        if (!props.disabled) {
+            inputRef.current?.focus();
+        }
+    }, [props.disabled]);
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (event.nativeEvent.isComposing) {
+            return;
+        }
+        const sequence = keyboardEventToSequence({
+            key: event.key,
+            ctrlKey: event.ctrlKey || (ctrl && event.key.length === 1),
+            altKey: event.altKey,
+            metaKey: event.metaKey,
+            shiftKey: event.shiftKey,
+        });
+        if (sequence !== null) {
+            event.preventDefault();
+            setCtrl(false);
+            onInput(sequence);
+        }
+    };
+
+    // Text the key handler let through: IME composition and virtual keyboards
+    const handleInput = (event: React.FormEvent<HTMLTextAreaElement>) => {
+        const target = event.currentTarget;
+        if ((event.nativeEvent as InputEvent).isComposing || !target.value) {
+            return;
+        }
+        const text = target.value.replace(/\n/g, '\r');
+        target.value = '';
+        if (ctrl && text.length === 1) {
+            setCtrl(false);
+            onInput(controlSequence(text) ?? text);
+            return;
+        }
+        onInput(text);
+    };
+
+    const handlePaste = (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+        event.preventDefault();
+        const text = event.clipboardData.getData('text');
+        if (text) {
+            onInput(text.replace(/\r?\n/g, '\r'));
+        }
+    };
+
+    return (
+        <View style={styles.container}>
+            <TerminalOutput lines={props.lines} onSize={props.onSize} onPress={() => inputRef.current?.focus()} />
+            {!props.disabled && (
+                <>
+                    <TerminalExtraKeys
+                        onKey={(sequence) => {
+                            setCtrl(false);
+                            onInput(sequence);
+                            inputRef.current?.focus();
+                        }}
+                        ctrl={ctrl}
+                        onToggleCtrl={() => {
+                            setCtrl((value) => !value);
+                            inputRef.current?.focus();
+                        }}
+                    />
+                    <textarea
+                        ref={inputRef}
+                        autoCapitalize="off"
+                        autoCorrect="off"
+                        spellCheck={false}
+                        aria-label="Terminal input"
+                        onKeyDown={handleKeyDown}
+                        onInput={handleInput}
+                        onPaste={handlePaste}
+                        style={{ position: 'absolute', left: 0, bottom: 0, width: 1, height: 1, opacity: 0, border: 'none', padding: 0, resize: 'none' }}
+                    />
+                </>
+            )}
+        </View>
+    );
+});
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+});
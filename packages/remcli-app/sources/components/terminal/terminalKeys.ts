@@ -0,0 +1,84 @@
+/**
+ * Key sequences sent to remote terminals, shared by the native and web views.
+ */
+
+export interface TerminalKey {
+    label: string;
+    sequence: string;
+}
+
+/** Keys a phone keyboard lacks, shown above it */
+export const TERMINAL_EXTRA_KEYS: TerminalKey[] = [
+    { label: 'esc', sequence: '\x1b' },
+    { label: 'tab', sequence: '\t' },
+    { label: '^C', sequence: '\x03' },
+    { label: '^D', sequence: '\x04' },
+    { label: '←', sequence: '\x1b[D' },
+    { label: '↑', sequence: '\x1b[A' },
+    { label: '↓', sequence: '\x1b[B' },
+    { label: '→', sequence: '\x1b[C' },
+    { label: '|', sequence: '|' },
+    { label: '~', sequence: '~' },
+    { label: '/', sequence: '/' },
+    { label: '-', sequence: '-' },
+];
+
+const SPECIAL_KEYS: Record<string, string> = {
+    Enter: '\r',
+    Backspace: '\x7f',
+    Tab: '\t',
+    Escape: '\x1b',
+    ArrowUp: '\x1b[A',
+    ArrowDown: '\x1b[B',
+    ArrowRight: '\x1b[C',
+    ArrowLeft: '\x1b[D',
+    Home: '\x1b[H',
+    End: '\x1b[F',
+    Delete: '\x1b[3~',
+    PageUp: '\x1b[5~',
+    PageDown: '\x1b[6~',
+    Insert: '\x1b[2~',
+};
+
+/** Control character for a key pressed with Ctrl (^A..^Z, ^[ ^\ ^] ^^ ^_, ^@), or null */
+export function controlSequence(key: string): string | null {
+    if (key.length !== 1) {
+        return null;
+    }
+    const code = key.toUpperCase().charCodeAt(0);
+    if (code >= 64 && code <= 95) { // @ A-Z [ \ ] ^ _
+        return String.fromCharCode(code - 64);
+    }
+    if (key === ' ') {
+        return '\x00';
+    }
+    if (key === '?') {
+        return '\x7f';
+    }
+    return null;
+}
+
+/**
+ * Sequence for a hardware key press (xterm conventions), or null to let the
+ * browser handle it (Cmd shortcuts, bare modifiers, dead keys)
+ */
+export function keyboardEventToSequence(event: { key: string; ctrlKey: boolean; altKey: boolean; metaKey: boolean; shiftKey: boolean }): string | null {
+    if (event.metaKey) {
+        return null;
+    }
+    if (event.key === 'Tab' && event.shiftKey) {
+        return '\x1b[Z';
+    }
+    const special = SPECIAL_KEYS[event.key];
+    if (special) {
+        return event.altKey ? '\x1b' + special : special;
+    }
+    if (event.key.length !== 1) {
+        return null;
+    }
+    const sequence = event.ctrlKey ? controlSequence(event.key) : event.key;
+    if (sequence === null) {
+        return null;
+    }
+    return event.altKey ? '\x1b' + sequence : sequence;
+}
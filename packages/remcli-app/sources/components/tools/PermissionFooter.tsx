@@ -1,9 +1,9 @@
-import React, { useState } from 'react';
-import { View, Text, TouchableOpacity, ActivityIndicator, StyleSheet, Platform } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, StyleSheet, Platform, StyleProp, TextStyle } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { sessionAllow, sessionDeny } from '@/sync/ops';
 import { useUnistyles } from 'react-native-unistyles';
-import { storage } from '@/sync/storage';
+import { storage, useSession } from '@/sync/storage';
 import { t } from '@/text';
 
 interface PermissionFooterProps {
@@ -21,17 +21,43 @@ interface PermissionFooterProps {
     metadata?: any;
 }
 
+type PermissionTimeoutAction = 'deny' | 'approve-read-only' | 'pause';
+
+/**
+ * Counts down to the CLI's automatic decision for an unanswered request
+ */
+const PermissionCountdown: React.FC<{ timeoutAt: number; action: PermissionTimeoutAction; style: StyleProp<TextStyle> }> = ({ timeoutAt, action, style }) => {
+    const [remaining, setRemaining] = useState(() => Math.max(0, Math.ceil((timeoutAt - Date.now()) / 1000)));
+
+    useEffect(() => {
+        const update = () => setRemaining(Math.max(0, Math.ceil((timeoutAt - Date.now()) / 1000)));
+        update();
+        const interval = setInterval(update, 1000);
+        return () => clearInterval(interval);
+    }, [timeoutAt]);
+
+    const time = `${Math.floor(remaining / 60)}:${String(remaining % 60).padStart(2, '0')}`;
+    const label = action === 'pause'
+        ? t('profiles.permissionTimeout.countdownPause', { time })
+        : action === 'approve-read-only'
+            ? t('profiles.permissionTimeout.countdownApproveReadOnly', { time })
+            : t('profiles.permissionTimeout.countdownDeny', { time });
+    return <Text style={style}>{label}</Text>;
+};
+
 export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission, sessionId, toolName, toolInput, metadata }) => {
     const { theme } = useUnistyles();
+    const session = useSession(sessionId);
     const [loadingButton, setLoadingButton] = useState<'allow' | 'deny' | 'abort' | null>(null);
     const [loadingAllEdits, setLoadingAllEdits] = useState(false);
     const [loadingForSession, setLoadingForSession] = useState(false);
+    const [loadingForProject, setLoadingForProject] = useState(false);
     
     // Check if this is a Codex session - check both metadata.flavor and tool name prefix
     const isCodex = metadata?.flavor === 'codex' || toolName.startsWith('Codex');
 
     const handleApprove = async () => {
-        if (permission.status !== 'pending' || loadingButton !== null || loadingAllEdits || loadingForSession) return;
+        if (permission.status !== 'pending' || loadingButton !== null || loadingAllEdits || loadingForSession || loadingForProject) return;
 
         setLoadingButton('allow');
         try {
@@ -44,7 +70,7 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
     };
 
     const handleApproveAllEdits = async () => {
-        if (permission.status !== 'pending' || loadingButton !== null || loadingAllEdits || loadingForSession) return;
+        if (permission.status !== 'pending' || loadingButton !== null || loadingAllEdits || loadingForSession || loadingForProject) return;
 
         setLoadingAllEdits(true);
         try {
@@ -59,7 +85,7 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
     };
 
     const handleApproveForSession = async () => {
-        if (permission.status !== 'pending' || loadingButton !== null || loadingAllEdits || loadingForSession || !toolName) return;
+        if (permission.status !== 'pending' || loadingButton !== null || loadingAllEdits || loadingForSession || loadingForProject || !toolName) return;
 
         setLoadingForSession(true);
         try {
@@ -78,8 +104,22 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
         }
     };
 
+    const handleApproveForProject = async () => {
+        if (permission.status !== 'pending' || loadingButton !== null || loadingAllEdits || loadingForSession || loadingForProject) return;
+
+        setLoadingForProject(true);
+        try {
+            // The CLI saves a rule for this tool (or exact command) in the project's rules file
+            await sessionAllow(sessionId, permission.id, undefined, undefined, isCodex ? 'approved' : undefined, true);
+        } catch (error) {
+            console.error('Failed to approve for project:', error);
+        } finally {
+            setLoadingForProject(false);
+        }
+    };
+
     const handleDeny = async () => {
-        if (permission.status !== 'pending' || loadingButton !== null || loadingAllEdits || loadingForSession) return;
+        if (permission.status !== 'pending' || loadingButton !== null || loadingAllEdits || loadingForSession || loadingForProject) return;
 
         setLoadingButton('deny');
         try {
@@ -93,7 +133,7 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
     
     // Codex-specific handlers
     const handleCodexApprove = async () => {
-        if (permission.status !== 'pending' || loadingButton !== null || loadingForSession) return;
+        if (permission.status !== 'pending' || loadingButton !== null || loadingForSession || loadingForProject) return;
         
         setLoadingButton('allow');
         try {
@@ -106,7 +146,7 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
     };
     
     const handleCodexApproveForSession = async () => {
-        if (permission.status !== 'pending' || loadingButton !== null || loadingForSession) return;
+        if (permission.status !== 'pending' || loadingButton !== null || loadingForSession || loadingForProject) return;
         
         setLoadingForSession(true);
         try {
@@ -119,7 +159,7 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
     };
     
     const handleCodexAbort = async () => {
-        if (permission.status !== 'pending' || loadingButton !== null || loadingForSession) return;
+        if (permission.status !== 'pending' || loadingButton !== null || loadingForSession || loadingForProject) return;
         
         setLoadingButton('abort');
         try {
@@ -135,6 +175,16 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
     const isDenied = permission.status === 'denied';
     const isPending = permission.status === 'pending';
 
+    // Countdown while pending, or a note when the CLI decided on its own
+    const pendingRequest = isPending ? session?.agentState?.requests?.[permission.id] : undefined;
+    const timedOutLabel = permission.reason === 'timeout:approved'
+        ? t('profiles.permissionTimeout.timedOutApproved')
+        : permission.reason === 'timeout:denied'
+            ? t('profiles.permissionTimeout.timedOutDenied')
+            : permission.reason === 'timeout:paused'
+                ? t('profiles.permissionTimeout.timedOutPaused')
+                : null;
+
     // Helper function to check if tool matches allowed pattern
     const isToolAllowed = (toolName: string, toolInput: any, allowedTools: string[] | undefined): boolean => {
         if (!allowedTools) return false;
@@ -249,6 +299,12 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
         loadingIndicatorForSession: {
             color: theme.colors.permissionButton.allowAll.background,
         },
+        timeoutText: {
+            fontSize: 12,
+            color: theme.colors.textSecondary,
+            paddingHorizontal: 15,
+            paddingBottom: 4,
+        },
         iconApproved: {
             color: theme.colors.permissionButton.allow.background,
         },
@@ -257,10 +313,47 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
         },
     });
 
+    const timeoutNotice = pendingRequest?.timeoutAt && pendingRequest.timeoutAction ? (
+        <PermissionCountdown timeoutAt={pendingRequest.timeoutAt} action={pendingRequest.timeoutAction} style={styles.timeoutText} />
+    ) : timedOutLabel ? (
+        <Text style={styles.timeoutText}>{timedOutLabel}</Text>
+    ) : null;
+
+    // Remember for this project - shared by Claude and Codex, hidden for plan approval
+    const showForProject = toolName !== 'exit_plan_mode' && toolName !== 'ExitPlanMode';
+    const forProjectButton = showForProject && (
+        <TouchableOpacity
+            style={[
+                styles.button,
+                isPending && styles.buttonForSession,
+                !isPending && styles.buttonInactive
+            ]}
+            onPress={handleApproveForProject}
+            disabled={!isPending || loadingButton !== null || loadingAllEdits || loadingForSession || loadingForProject}
+            activeOpacity={isPending ? 0.7 : 1}
+        >
+            {loadingForProject && isPending ? (
+                <View style={[styles.buttonContent, { width: 40, height: 20, justifyContent: 'center' }]}>
+                    <ActivityIndicator size={Platform.OS === 'ios' ? "small" : 14 as any} color={styles.loadingIndicatorForSession.color} />
+                </View>
+            ) : (
+                <View style={styles.buttonContent}>
+                    <Text style={[
+                        styles.buttonText,
+                        isPending && styles.buttonTextForSession
+                    ]} numberOfLines={1} ellipsizeMode="tail">
+                        {t('permissionRules.yesForProject')}
+                    </Text>
+                </View>
+            )}
+        </TouchableOpacity>
+    );
+
     // Render Codex buttons if this is a Codex session
     if (isCodex) {
         return (
             <View style={styles.container}>
+                {timeoutNotice}
                 <View style={styles.buttonContainer}>
                     {/* Codex: Yes button */}
                     <TouchableOpacity
@@ -271,7 +364,7 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
                             (isCodexAborted || isCodexApprovedForSession) && styles.buttonInactive
                         ]}
                         onPress={handleCodexApprove}
-                        disabled={!isPending || loadingButton !== null || loadingForSession}
+                        disabled={!isPending || loadingButton !== null || loadingForSession || loadingForProject}
                         activeOpacity={isPending ? 0.7 : 1}
                     >
                         {loadingButton === 'allow' && isPending ? (
@@ -300,7 +393,7 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
                             (isCodexAborted || isCodexApproved) && styles.buttonInactive
                         ]}
                         onPress={handleCodexApproveForSession}
-                        disabled={!isPending || loadingButton !== null || loadingForSession}
+                        disabled={!isPending || loadingButton !== null || loadingForSession || loadingForProject}
                         activeOpacity={isPending ? 0.7 : 1}
                     >
                         {loadingForSession && isPending ? (
@@ -320,6 +413,8 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
                         )}
                     </TouchableOpacity>
 
+                    {forProjectButton}
+
                     {/* Codex: Stop, and explain what to do button */}
                     <TouchableOpacity
                         style={[
@@ -329,7 +424,7 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
                             (isCodexApproved || isCodexApprovedForSession) && styles.buttonInactive
                         ]}
                         onPress={handleCodexAbort}
-                        disabled={!isPending || loadingButton !== null || loadingForSession}
+                        disabled={!isPending || loadingButton !== null || loadingForSession || loadingForProject}
                         activeOpacity={isPending ? 0.7 : 1}
                     >
                         {loadingButton === 'abort' && isPending ? (
@@ -356,6 +451,7 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
     // Render Claude buttons (existing behavior)
     return (
         <View style={styles.container}>
+            {timeoutNotice}
             <View style={styles.buttonContainer}>
                 <TouchableOpacity
                     style={[
@@ -365,7 +461,7 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
                         (isDenied || isApprovedViaAllEdits || isApprovedForSession) && styles.buttonInactive
                     ]}
                     onPress={handleApprove}
-                    disabled={!isPending || loadingButton !== null || loadingAllEdits || loadingForSession}
+                    disabled={!isPending || loadingButton !== null || loadingAllEdits || loadingForSession || loadingForProject}
                     activeOpacity={isPending ? 0.7 : 1}
                 >
                     {loadingButton === 'allow' && isPending ? (
@@ -395,7 +491,7 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
                             (isDenied || isApprovedViaAllow || isApprovedForSession) && styles.buttonInactive
                         ]}
                         onPress={handleApproveAllEdits}
-                        disabled={!isPending || loadingButton !== null || loadingAllEdits || loadingForSession}
+                        disabled={!isPending || loadingButton !== null || loadingAllEdits || loadingForSession || loadingForProject}
                         activeOpacity={isPending ? 0.7 : 1}
                     >
                         {loadingAllEdits && isPending ? (
@@ -426,7 +522,7 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
                             (isDenied || isApprovedViaAllow || isApprovedViaAllEdits) && styles.buttonInactive
                         ]}
                         onPress={handleApproveForSession}
-                        disabled={!isPending || loadingButton !== null || loadingAllEdits || loadingForSession}
+                        disabled={!isPending || loadingButton !== null || loadingAllEdits || loadingForSession || loadingForProject}
                         activeOpacity={isPending ? 0.7 : 1}
                     >
                         {loadingForSession && isPending ? (
@@ -447,6 +543,8 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
                     </TouchableOpacity>
                 )}
 
+                {forProjectButton}
+
                 <TouchableOpacity
                     style={[
                         styles.button,
@@ -455,7 +553,7 @@ export const PermissionFooter: React.FC<PermissionFooterProps> = ({ permission,
                         (isApproved) && styles.buttonInactive
                     ]}
                     onPress={handleDeny}
-                    disabled={!isPending || loadingButton !== null || loadingAllEdits || loadingForSession}
+                    disabled={!isPending || loadingButton !== null || loadingAllEdits || loadingForSession || loadingForProject}
                     activeOpacity={isPending ? 0.7 : 1}
                 >
                     {loadingButton === 'deny' && isPending ? (
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { machineBashCancel, machineBashStart, sessionBashCancel, sessionBashStart } from '@/sync/ops';
+import { subscribeToBashJob, type BashJobEvent } from '@/sync/bashJobEvents';
+
+export type BashJobTarget = { sessionId: string } | { machineId: string };
+
+export interface BashJobState {
+    command: string | null;
+    running: boolean;
+    stdout: string;
+    stderr: string;
+    exit: Extract<BashJobEvent, { type: 'exit' }> | null;
+    error: string | null;
+}
+
+const INITIAL_STATE: BashJobState = { command: null, running: false, stdout: '', stderr: '', exit: null, error: null };
+
+// Only the tail of long outputs is kept on screen
+const MAX_OUTPUT_CHARS = 200_000;
+
+function cancelJob(target: BashJobTarget, jobId: string) {
+    ('sessionId' in target ? sessionBashCancel(target.sessionId, jobId) : machineBashCancel(target.machineId, jobId))
+        .catch(() => { });
+}
+
+function appendOutput(current: string, data: string) {
+    const next = current + data;
+    return next.length > MAX_OUTPUT_CHARS ? next.slice(next.length - MAX_OUTPUT_CHARS) : next;
+}
+
+/**
+ * Runs a command in a session or on a machine and streams its output.
+ *
+ * Output and the exit status arrive as `bash-job` ephemeral updates while
+ * the command runs. Starting a new command or unmounting cancels the
+ * running one.
+ */
+export function useBashJob(target: BashJobTarget) {
+    const [state, setState] = useState<BashJobState>(INITIAL_STATE);
+    const jobRef = useRef<{ jobId: string; unsubscribe: () => void } | null>(null);
+    const attemptRef = useRef(0);
+    const targetKey = 'sessionId' in target ? `session:${target.sessionId}` : `machine:${target.machineId}`;
+    const targetRef = useRef(target);
+    targetRef.current = target;
+
+    const detach = useCallback((cancel: boolean) => {
+        attemptRef.current++;
+        const job = jobRef.current;
+        if (!job) return;
+        jobRef.current = null;
+        job.unsubscribe();
+        if (cancel) {
+            cancelJob(targetRef.current, job.jobId);
+        }
+    }, []);
+
+    const start = useCallback(async (command: string, options: { cwd?: string; timeout?: number } = {}) => {
+        detach(true);
+        const attempt = ++attemptRef.current;
+        setState({ ...INITIAL_STATE, command, running: true });
+
+        const current = targetRef.current;
+        const request = { command, ...options };
+        const response = 'sessionId' in current
+            ? await sessionBashStart(current.sessionId, request)
+            : await machineBashStart(current.machineId, request);
+        if (attempt !== attemptRef.current) {
+            // Another command was started (or the screen closed) while this one was starting
+            if (response.jobId) {
+                cancelJob(current, response.jobId);
+            }
+            return;
+        }
+        if (!response.success || !response.jobId) {
+            setState((prev) => ({ ...prev, running: false, error: response.error ?? 'Failed to start command' }));
+            return;
+        }
+
+        const job = { jobId: response.jobId, unsubscribe: () => { } };
+        jobRef.current = job;
+        // Subscribing replays output that arrived before the response, possibly including the exit
+        const unsubscribe = subscribeToBashJob(job.jobId, (event) => {
+            if (jobRef.current !== job) return;
+            if (event.type === 'output') {
+                setState((prev) => ({ ...prev, [event.stream]: appendOutput(prev[event.stream], event.data) }));
+            } else {
+                setState((prev) => ({ ...prev, running: false, exit: event }));
+                detach(false);
+            }
+        });
+        if (jobRef.current === job) {
+            job.unsubscribe = unsubscribe;
+        } else {
+            unsubscribe();
+        }
+    }, [detach]);
+
+    const cancel = useCallback(() => {
+        const job = jobRef.current;
+        if (job) {
+            cancelJob(targetRef.current, job.jobId);
+        }
+    }, []);
+
+    // Cancel when leaving the screen or switching targets
+    useEffect(() => () => detach(true), [targetKey, detach]);
+
+    return { state, start, cancel };
+}
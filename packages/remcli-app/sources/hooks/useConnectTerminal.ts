@@ -3,7 +3,8 @@
  *
  * Opens the native barcode scanner (expo-camera), parses the scanned QR as a
  * P2P payload ({mode:'p2p', host, port, key, v}), derives the bearer token
- * via HMAC-SHA256 from the shared secret, and logs in. Also supports manual
+ * via HMAC-SHA256 from the shared secret, and logs in. When already logged in
+ * to another daemon, the scanned one is added next to it. Also supports manual
  * URL/JSON entry via `connectWithUrl` and direct processing via `processAuthUrl`.
  */
 
@@ -14,7 +15,9 @@ import { useAuth } from '@/auth/AuthContext';
 import { useCheckScannerPermissions } from '@/hooks/useCheckCameraPermissions';
 import { Modal } from '@/modal';
 import { t } from '@/text';
-import { parseP2PQRCode, connectP2P } from '@/sync/p2pConnect';
+import { parseP2PQRCode, connectP2P, pairP2PDaemon } from '@/sync/p2pConnect';
+import { getP2PConfig } from '@/sync/serverConfig';
+import { sync } from '@/sync/sync';
 import { encodeBase64 } from '@/encryption/base64';
 
 interface UseConnectTerminalOptions {
@@ -36,8 +39,14 @@ export function useConnectTerminal(options?: UseConnectTerminalOptions) {
 
         setIsLoading(true);
         try {
-            const { token, secret } = await connectP2P(payload);
-            await auth.login(token, encodeBase64(secret));
+            const primary = getP2PConfig();
+            if (auth.isAuthenticated && primary && primary.key !== payload.key) {
+                // Already connected: pair this daemon too and show its machines alongside
+                await sync.addDaemon(await pairP2PDaemon(payload));
+            } else {
+                const { token, secret } = await connectP2P(payload);
+                await auth.login(token, encodeBase64(secret));
+            }
 
             Modal.alert(t('common.success'), t('modals.terminalConnectedSuccessfully'), [
                 {
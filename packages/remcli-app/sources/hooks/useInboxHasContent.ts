@@ -1,10 +1,13 @@
 import { useUpdates } from './useUpdates';
+import { useUnseenNotificationCount } from '@/sync/storage';
 
 // Hook to check if inbox has content to show
 export function useInboxHasContent(): boolean {
     const { updateAvailable } = useUpdates();
+    const unseenNotifications = useUnseenNotificationCount();
 
     // Show dot if there's any actionable content:
     // - App updates available
-    return updateAvailable;
+    // - Unseen daemon notifications
+    return updateAvailable || unseenNotifications > 0;
 }
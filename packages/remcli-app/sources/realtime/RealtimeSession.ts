@@ -1,14 +1,15 @@
 import type { VoiceSession } from './types';
 import { fetchVoiceToken } from '@/sync/apiVoice';
-import { storage } from '@/sync/storage';
-import { sync } from '@/sync/sync';
 import { Modal } from '@/modal';
-import { TokenStorage } from '@/auth/tokenStorage';
 import { t } from '@/text';
 import { config } from '@/config';
 import { requestMicrophonePermission, showMicrophonePermissionDeniedAlert } from '@/utils/microphonePermissions';
+import { OpenAIRealtimeSession } from './openai/OpenAIRealtimeSession';
 
 let voiceSession: VoiceSession | null = null;
+let openAIVoiceSession: OpenAIRealtimeSession | null = null;
+// The session the current conversation runs on: ElevenLabs or OpenAI-compatible
+let activeVoiceSession: VoiceSession | null = null;
 let voiceSessionStarted: boolean = false;
 let currentSessionId: string | null = null;
 
@@ -26,78 +27,80 @@ export async function startRealtimeSession(sessionId: string, initialContext?: s
         return;
     }
 
-    const experimentsEnabled = storage.getState().settings.experiments;
     const agentId = __DEV__ ? config.elevenLabsAgentIdDev : config.elevenLabsAgentIdProd;
-    
-    if (!agentId) {
-        console.error('Agent ID not configured');
-        return;
-    }
-    
+
     try {
-        // Simple path: No experiments = no auth needed
-        if (!experimentsEnabled) {
+        // The daemon mints a token when it has a voice provider configured
+        const response = await fetchVoiceToken(sessionId);
+        console.log('[Voice] fetchVoiceToken response:', { ...response, token: response.token ? '<redacted>' : undefined });
+
+        if (!response.allowed) {
+            console.log('[Voice] Not allowed');
+            return;
+        }
+
+        if (response.token && response.provider === 'openai') {
+            openAIVoiceSession ??= new OpenAIRealtimeSession();
             currentSessionId = sessionId;
             voiceSessionStarted = true;
-            await voiceSession.startSession({
+            activeVoiceSession = openAIVoiceSession;
+            await openAIVoiceSession.startSession({
                 sessionId,
                 initialContext,
-                agentId  // Use agentId directly, no token
+                token: response.token,
+                url: response.url,
+                model: response.model
             });
             return;
         }
-        
-        // Experiments enabled = full auth flow
-        const credentials = await TokenStorage.getCredentials();
-        if (!credentials) {
-            Modal.alert(t('common.error'), t('errors.authenticationFailed'));
-            return;
-        }
-        
-        const response = await fetchVoiceToken(credentials, sessionId);
-        console.log('[Voice] fetchVoiceToken response:', response);
-
-        if (!response.allowed) {
-            console.log('[Voice] Not allowed');
-            return;
-        }
-
-        currentSessionId = sessionId;
-        voiceSessionStarted = true;
 
         if (response.token) {
-            // Use token from backend
+            // ElevenLabs, or the stub provider in tests
+            currentSessionId = sessionId;
+            voiceSessionStarted = true;
+            activeVoiceSession = voiceSession;
             await voiceSession.startSession({
                 sessionId,
                 initialContext,
                 token: response.token,
                 agentId: response.agentId
             });
-        } else {
-            // No token (e.g. server not deployed yet) - use agentId directly
-            await voiceSession.startSession({
-                sessionId,
-                initialContext,
-                agentId
-            });
+            return;
         }
+
+        // No provider on the daemon - use the public agent directly
+        if (!agentId) {
+            console.error('Agent ID not configured');
+            return;
+        }
+        currentSessionId = sessionId;
+        voiceSessionStarted = true;
+        activeVoiceSession = voiceSession;
+        await voiceSession.startSession({
+            sessionId,
+            initialContext,
+            agentId
+        });
     } catch (error) {
         console.error('Failed to start realtime session:', error);
         currentSessionId = null;
         voiceSessionStarted = false;
+        activeVoiceSession = null;
         Modal.alert(t('common.error'), t('errors.voiceServiceUnavailable'));
     }
 }
 
 export async function stopRealtimeSession() {
-    if (!voiceSession) {
+    const session = activeVoiceSession ?? voiceSession;
+    if (!session) {
         return;
     }
     
     try {
-        await voiceSession.endSession();
+        await session.endSession();
         currentSessionId = null;
         voiceSessionStarted = false;
+        activeVoiceSession = null;
     } catch (error) {
         console.error('Failed to stop realtime session:', error);
     }
@@ -115,7 +118,7 @@ export function isVoiceSessionStarted(): boolean {
 }
 
 export function getVoiceSession(): VoiceSession | null {
-    return voiceSession;
+    return activeVoiceSession ?? voiceSession;
 }
 
 export function getCurrentRealtimeSessionId(): string | null {
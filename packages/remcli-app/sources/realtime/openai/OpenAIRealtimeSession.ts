@@ -0,0 +1,217 @@
+import { storage } from '@/sync/storage';
+import { findLanguageByCode } from '@/constants/Languages';
+import { realtimeClientTools } from '../realtimeClientTools';
+import type { VoiceSession, VoiceSessionConfig } from '../types';
+import { mediaDevices, playRemoteAudio, RTCPeerConnection } from './webrtc';
+
+/**
+ * Voice session against an OpenAI-compatible realtime endpoint over WebRTC.
+ * The daemon mints the ephemeral key and tells us the endpoint and model;
+ * audio goes over the peer connection and events over the "oai-events" channel.
+ */
+
+const INSTRUCTIONS = [
+    'You are a voice assistant for a coding agent running on the user\'s machine.',
+    'Keep answers short and conversational; they are spoken aloud.',
+    'When the user asks the agent to do something, pass it on with messageClaudeCode.',
+    'When the agent asks for permission, read the request out and answer it with processPermissionRequest once the user decides.',
+    'Context updates about the session arrive as system messages; do not read them out unless asked.'
+].join(' ');
+
+const TOOLS = [
+    {
+        type: 'function',
+        name: 'messageClaudeCode',
+        description: 'Send a message to the coding agent',
+        parameters: {
+            type: 'object',
+            properties: {
+                message: { type: 'string', description: 'What to tell the agent' }
+            },
+            required: ['message']
+        }
+    },
+    {
+        type: 'function',
+        name: 'processPermissionRequest',
+        description: 'Allow or deny the agent\'s pending permission request',
+        parameters: {
+            type: 'object',
+            properties: {
+                decision: { type: 'string', enum: ['allow', 'deny'] }
+            },
+            required: ['decision']
+        }
+    }
+];
+
+type ClientToolName = keyof typeof realtimeClientTools;
+
+export class OpenAIRealtimeSession implements VoiceSession {
+    private peer: any = null;
+    private channel: any = null;
+    private microphone: any = null;
+    private stopAudio: (() => void) | null = null;
+
+    async startSession(config: VoiceSessionConfig): Promise<void> {
+        if (!config.token || !config.url || !config.model) {
+            throw new Error('Realtime endpoint, model or token missing');
+        }
+        await this.endSession();
+        storage.getState().setRealtimeStatus('connecting');
+
+        try {
+            const peer = new RTCPeerConnection();
+            this.peer = peer;
+            peer.addEventListener('track', (event: any) => {
+                if (event.streams?.[0]) {
+                    this.stopAudio?.();
+                    this.stopAudio = playRemoteAudio(event.streams[0]);
+                }
+            });
+            peer.addEventListener('connectionstatechange', () => {
+                if (this.peer === peer && (peer.connectionState === 'failed' || peer.connectionState === 'closed')) {
+                    void this.endSession();
+                }
+            });
+
+            this.microphone = await mediaDevices.getUserMedia({ audio: true });
+            for (const track of this.microphone.getTracks()) {
+                peer.addTrack(track, this.microphone);
+            }
+
+            const channel = peer.createDataChannel('oai-events');
+            this.channel = channel;
+            channel.addEventListener('open', () => {
+                this.send({
+                    type: 'session.update',
+                    session: {
+                        instructions: buildInstructions(config.initialContext),
+                        tools: TOOLS,
+                        tool_choice: 'auto'
+                    }
+                });
+                storage.getState().setRealtimeStatus('connected');
+                storage.getState().setRealtimeMode('idle');
+            });
+            channel.addEventListener('message', (event: any) => {
+                void this.handleEvent(event.data);
+            });
+
+            const offer = await peer.createOffer({});
+            await peer.setLocalDescription(offer);
+            const response = await fetch(`${config.url}?model=${encodeURIComponent(config.model)}`, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${config.token}`,
+                    'Content-Type': 'application/sdp'
+                },
+                body: offer.sdp
+            });
+            if (!response.ok) {
+                throw new Error(`Realtime endpoint answered ${response.status}`);
+            }
+            await peer.setRemoteDescription({ type: 'answer', sdp: await response.text() });
+        } catch (error) {
+            console.error('Failed to start OpenAI realtime session:', error);
+            await this.endSession();
+            storage.getState().setRealtimeStatus('error');
+        }
+    }
+
+    async endSession(): Promise<void> {
+        const hadPeer = this.peer !== null;
+        this.channel?.close();
+        this.peer?.close();
+        this.microphone?.getTracks().forEach((track: any) => track.stop());
+        this.stopAudio?.();
+        this.channel = null;
+        this.peer = null;
+        this.microphone = null;
+        this.stopAudio = null;
+        if (hadPeer) {
+            storage.getState().setRealtimeStatus('disconnected');
+            storage.getState().setRealtimeMode('idle', true);
+            storage.getState().clearRealtimeModeDebounce();
+        }
+    }
+
+    sendTextMessage(message: string): void {
+        this.send({
+            type: 'conversation.item.create',
+            item: { type: 'message', role: 'user', content: [{ type: 'input_text', text: message }] }
+        });
+        this.send({ type: 'response.create' });
+    }
+
+    sendContextualUpdate(update: string): void {
+        this.send({
+            type: 'conversation.item.create',
+            item: { type: 'message', role: 'system', content: [{ type: 'input_text', text: update }] }
+        });
+    }
+
+    private send(event: object) {
+        if (this.channel?.readyState !== 'open') {
+            console.warn('OpenAI realtime session not connected');
+            return;
+        }
+        this.channel.send(JSON.stringify(event));
+    }
+
+    private async handleEvent(data: string) {
+        let event: any;
+        try {
+            event = JSON.parse(data);
+        } catch {
+            return;
+        }
+        switch (event.type) {
+            case 'output_audio_buffer.started':
+                storage.getState().setRealtimeMode('speaking');
+                break;
+            case 'output_audio_buffer.stopped':
+            case 'output_audio_buffer.cleared':
+                storage.getState().setRealtimeMode('idle');
+                break;
+            case 'response.function_call_arguments.done':
+                await this.callTool(event.call_id, event.name, event.arguments);
+                break;
+            case 'error':
+                console.warn('OpenAI realtime error:', event.error);
+                break;
+        }
+    }
+
+    private async callTool(callId: string, name: string, args: string) {
+        let output: string;
+        if (!Object.prototype.hasOwnProperty.call(realtimeClientTools, name)) {
+            output = `error (unknown tool ${name})`;
+        } else {
+            let parameters: unknown = {};
+            try {
+                parameters = JSON.parse(args || '{}');
+            } catch {
+                // Let the tool reject the missing parameters
+            }
+            output = await realtimeClientTools[name as ClientToolName](parameters);
+        }
+        this.send({
+            type: 'conversation.item.create',
+            item: { type: 'function_call_output', call_id: callId, output }
+        });
+        this.send({ type: 'response.create' });
+    }
+}
+
+function buildInstructions(initialContext?: string): string {
+    const language = findLanguageByCode(storage.getState().settings.voiceAssistantLanguage);
+    let instructions = INSTRUCTIONS;
+    if (language?.code) {
+        instructions += ` Speak ${language.name}.`;
+    }
+    if (initialContext) {
+        instructions += '\n\n' + initialContext;
+    }
+    return instructions;
+}
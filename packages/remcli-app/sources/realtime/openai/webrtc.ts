@@ -0,0 +1,10 @@
+import { mediaDevices, RTCPeerConnection } from '@livekit/react-native-webrtc';
+
+export { mediaDevices, RTCPeerConnection };
+
+/**
+ * React Native WebRTC plays remote audio tracks on its own
+ */
+export function playRemoteAudio(_stream: unknown): () => void {
+    return () => { };
+}
@@ -0,0 +1,14 @@
+export const RTCPeerConnection = globalThis.RTCPeerConnection;
+export const mediaDevices = globalThis.navigator?.mediaDevices;
+
+/**
+ * Browsers need a media element to play the remote track
+ */
+export function playRemoteAudio(stream: MediaStream): () => void {
+    const audio = new Audio();
+    audio.autoplay = true;
+    audio.srcObject = stream;
+    return () => {
+        audio.srcObject = null;
+    };
+}
@@ -3,6 +3,8 @@ export interface VoiceSessionConfig {
     initialContext?: string;
     token?: string;
     agentId?: string;
+    url?: string;       // Realtime endpoint for OpenAI-compatible providers
+    model?: string;
 }
 
 export interface VoiceSession {
@@ -0,0 +1,61 @@
+import { backoff } from '@/utils/time';
+import type { DaemonConnection } from './daemonConnection';
+
+export interface UploadedAttachment {
+    id: string;
+    size: number;
+    createdAt: number;
+}
+
+/**
+ * Upload an attachment blob, already encrypted with the session key, to the daemon owning the session
+ */
+export async function uploadAttachment(daemon: DaemonConnection, sessionId: string, data: string): Promise<UploadedAttachment> {
+    const API_ENDPOINT = daemon.endpoint;
+
+    return await backoff(async () => {
+        const response = await fetch(`${API_ENDPOINT}/v1/sessions/${sessionId}/attachments`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${daemon.token}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ data })
+        });
+
+        if (!response.ok) {
+            if (response.status === 404) {
+                throw new Error('Session not found');
+            }
+            throw new Error(`Failed to upload attachment: ${response.status}`);
+        }
+
+        return await response.json() as UploadedAttachment;
+    });
+}
+
+/**
+ * Fetch an encrypted attachment blob
+ */
+export async function fetchAttachment(daemon: DaemonConnection, sessionId: string, attachmentId: string): Promise<string> {
+    const API_ENDPOINT = daemon.endpoint;
+
+    return await backoff(async () => {
+        const response = await fetch(`${API_ENDPOINT}/v1/sessions/${sessionId}/attachments/${attachmentId}`, {
+            headers: {
+                'Authorization': `Bearer ${daemon.token}`,
+                'Content-Type': 'application/json'
+            }
+        });
+
+        if (!response.ok) {
+            if (response.status === 404) {
+                throw new Error('Attachment not found');
+            }
+            throw new Error(`Failed to fetch attachment: ${response.status}`);
+        }
+
+        const body = await response.json() as { data: string };
+        return body.data;
+    });
+}
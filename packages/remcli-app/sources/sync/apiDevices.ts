@@ -0,0 +1,53 @@
+import { AuthCredentials } from '@/auth/tokenStorage';
+import { backoff } from '@/utils/time';
+import { getServerUrl } from './serverConfig';
+
+export interface PairedDevice {
+    id: string;
+    name: string;
+    platform: string | null;
+    createdAt: number;
+    lastSeenAt: number;
+    current: boolean;
+}
+
+/**
+ * Fetch devices paired with the daemon
+ */
+export async function fetchDevices(credentials: AuthCredentials): Promise<PairedDevice[]> {
+    const API_ENDPOINT = getServerUrl();
+
+    return await backoff(async () => {
+        const response = await fetch(`${API_ENDPOINT}/v1/devices`, {
+            headers: {
+                'Authorization': `Bearer ${credentials.token}`,
+                'Content-Type': 'application/json'
+            }
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to fetch devices: ${response.status}`);
+        }
+
+        const data = await response.json() as { devices: PairedDevice[] };
+        return data.devices;
+    });
+}
+
+/**
+ * Revoke a paired device — its token stops working and its connections are dropped
+ */
+export async function revokeDevice(credentials: AuthCredentials, deviceId: string): Promise<void> {
+    const API_ENDPOINT = getServerUrl();
+
+    const response = await fetch(`${API_ENDPOINT}/v1/devices/${deviceId}`, {
+        method: 'DELETE',
+        headers: {
+            'Authorization': `Bearer ${credentials.token}`
+        }
+    });
+
+    if (!response.ok && response.status !== 404) {
+        throw new Error(`Failed to revoke device: ${response.status}`);
+    }
+}
@@ -0,0 +1,52 @@
+import { backoff } from '@/utils/time';
+import type { DaemonConnection } from './daemonConnection';
+import { ApiNotification } from './apiTypes';
+
+/**
+ * Fetch the most recent notifications kept by a daemon, newest first
+ */
+export async function fetchNotifications(daemon: DaemonConnection): Promise<ApiNotification[]> {
+    const API_ENDPOINT = daemon.endpoint;
+
+    return await backoff(async () => {
+        const response = await fetch(`${API_ENDPOINT}/v1/notifications`, {
+            headers: {
+                'Authorization': `Bearer ${daemon.token}`,
+                'Content-Type': 'application/json'
+            }
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to fetch notifications: ${response.status}`);
+        }
+
+        const body = await response.json() as { notifications: ApiNotification[] };
+        return body.notifications;
+    });
+}
+
+/**
+ * Mark notifications as seen on a daemon (all of them when `ids` is omitted).
+ * The daemon broadcasts `notifications-seen` so the other devices clear them too.
+ */
+export async function markNotificationsSeen(daemon: DaemonConnection, ids?: string[]): Promise<string[]> {
+    const API_ENDPOINT = daemon.endpoint;
+
+    return await backoff(async () => {
+        const response = await fetch(`${API_ENDPOINT}/v1/notifications/seen`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${daemon.token}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify(ids ? { ids } : {})
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to mark notifications seen: ${response.status}`);
+        }
+
+        const body = await response.json() as { ids: string[] };
+        return body.ids;
+    });
+}
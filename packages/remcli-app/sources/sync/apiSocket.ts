@@ -1,5 +1,4 @@
 import { io, Socket } from 'socket.io-client';
-import { TokenStorage } from '@/auth/tokenStorage';
 import { Encryption } from './encryption/encryption';
 import { isP2PMode } from './serverConfig';
 
@@ -20,11 +19,14 @@ export interface SyncSocketState {
 
 export type SyncSocketListener = (state: SyncSocketState) => void;
 
+// How many recent update ids to remember for de-duplicating catch-up replays
+const SEEN_UPDATES_LIMIT = 1000;
+
 //
 // Main Class
 //
 
-class ApiSocket {
+export class ApiSocket {
 
     // State
     private socket: Socket | null = null;
@@ -35,6 +37,12 @@ class ApiSocket {
     private statusListeners: Set<(status: 'disconnected' | 'connecting' | 'connected' | 'error') => void> = new Set();
     private currentStatus: 'disconnected' | 'connecting' | 'connected' | 'error' = 'disconnected';
 
+    // Update stream position, used to catch up after a reconnect instead of refetching everything
+    private lastUpdateSeq: number | null = null;
+    private seenUpdateIds = new Set<string>();
+    private resuming = false;
+    private pendingUpdates: any[] = [];
+
     //
     // Initialization
     //
@@ -42,6 +50,8 @@ class ApiSocket {
     initialize(config: SyncSocketConfig, encryption: Encryption) {
         this.config = config;
         this.encryption = encryption;
+        this.lastUpdateSeq = null;
+        this.seenUpdateIds.clear();
         this.connect();
     }
 
@@ -180,14 +190,10 @@ class ApiSocket {
             throw new Error('SyncSocket not initialized');
         }
 
-        const credentials = await TokenStorage.getCredentials();
-        if (!credentials) {
-            throw new Error('No authentication credentials');
-        }
-
+        // Each daemon connection has its own device token
         const url = `${this.config.endpoint}${path}`;
         const headers = {
-            'Authorization': `Bearer ${credentials.token}`,
+            'Authorization': `Bearer ${this.config.token}`,
             ...options?.headers
         };
 
@@ -232,7 +238,11 @@ class ApiSocket {
             // console.log('🔌 SyncSocket: Socket ID:', this.socket?.id);
             this.updateStatus('connected');
             if (!this.socket?.recovered) {
-                this.reconnectedListeners.forEach(listener => listener());
+                if (this.lastUpdateSeq !== null) {
+                    this.resumeUpdates(this.lastUpdateSeq);
+                } else {
+                    this.reconnectedListeners.forEach(listener => listener());
+                }
             }
         });
 
@@ -255,6 +265,15 @@ class ApiSocket {
         // Message handling
         this.socket.onAny((event, data) => {
             // console.log(`📥 SyncSocket: Received event '${event}':`, JSON.stringify(data).substring(0, 200));
+            if (event === 'update') {
+                // Hold live updates while the missed ones are being replayed, to keep them in order
+                if (this.resuming) {
+                    this.pendingUpdates.push(data);
+                } else {
+                    this.dispatchUpdate(data);
+                }
+                return;
+            }
             const handler = this.messageHandlers.get(event);
             if (handler) {
                 // console.log(`📥 SyncSocket: Calling handler for '${event}'`);
@@ -264,10 +283,62 @@ class ApiSocket {
             }
         });
     }
+
+    private dispatchUpdate(data: any) {
+        const id = data?.id;
+        if (typeof id === 'string') {
+            if (this.seenUpdateIds.has(id)) {
+                return;
+            }
+            this.seenUpdateIds.add(id);
+            if (this.seenUpdateIds.size > SEEN_UPDATES_LIMIT) {
+                // Sets iterate in insertion order, so this drops the oldest id
+                this.seenUpdateIds.delete(this.seenUpdateIds.values().next().value!);
+            }
+        }
+        if (typeof data?.seq === 'number') {
+            this.lastUpdateSeq = Math.max(this.lastUpdateSeq ?? 0, data.seq);
+        }
+        this.messageHandlers.get('update')?.(data);
+    }
+
+    /**
+     * Replay the updates missed while disconnected. Falls back to a full refetch
+     * (reconnected listeners) when the server no longer has all of them.
+     */
+    private async resumeUpdates(afterSeq: number) {
+        this.resuming = true;
+        try {
+            const response = await this.request(`/v1/updates?afterSeq=${afterSeq}`);
+            if (!response.ok) {
+                throw new Error(`Failed to fetch missed updates: ${response.status}`);
+            }
+            const data = await response.json() as { resumable: boolean; seq: number; updates: any[] };
+            if (data.resumable) {
+                for (const update of data.updates) {
+                    this.dispatchUpdate(update);
+                }
+            } else {
+                this.lastUpdateSeq = data.seq;
+                this.reconnectedListeners.forEach(listener => listener());
+            }
+        } catch (error) {
+            // Older daemons have no update log — refetch everything
+            this.reconnectedListeners.forEach(listener => listener());
+        } finally {
+            this.resuming = false;
+            const pending = this.pendingUpdates;
+            this.pendingUpdates = [];
+            for (const update of pending) {
+                this.dispatchUpdate(update);
+            }
+        }
+    }
 }
 
 //
 // Singleton Export
 //
 
+// Socket of the primary daemon; other paired daemons get their own instance (see sync.addDaemon)
 export const apiSocket = new ApiSocket();
\ No newline at end of file
@@ -123,6 +123,29 @@ export const ApiKvBatchUpdateSchema = z.object({
     }))
 });
 
+// Daemon notifications (permission needed, turn finished, session crashed, `remcli notify`)
+export const ApiNotificationSchema = z.object({
+    id: z.string(),
+    kind: z.enum(['permission', 'turn-finished', 'session-crashed', 'message']),
+    sessionId: z.string().nullable(),
+    title: z.string().nullable(),
+    body: z.string().nullable(),
+    tool: z.string().nullable(),
+    createdAt: z.number(),
+    seenAt: z.number().nullable()
+});
+
+export const ApiNotificationUpdateSchema = z.object({
+    t: z.literal('notification'),
+    notification: ApiNotificationSchema
+});
+
+export const ApiNotificationsSeenSchema = z.object({
+    t: z.literal('notifications-seen'),
+    ids: z.array(z.string()),
+    seenAt: z.number()
+});
+
 export const ApiUpdateSchema = z.discriminatedUnion('t', [
     ApiUpdateNewMessageSchema,
     ApiUpdateNewSessionSchema,
@@ -133,11 +156,14 @@ export const ApiUpdateSchema = z.discriminatedUnion('t', [
     ApiNewArtifactSchema,
     ApiUpdateArtifactSchema,
     ApiDeleteArtifactSchema,
-    ApiKvBatchUpdateSchema
+    ApiKvBatchUpdateSchema,
+    ApiNotificationUpdateSchema,
+    ApiNotificationsSeenSchema
 ]);
 
 export type ApiUpdateNewMessage = z.infer<typeof ApiUpdateNewMessageSchema>;
 export type ApiKvBatchUpdate = z.infer<typeof ApiKvBatchUpdateSchema>;
+export type ApiNotification = z.infer<typeof ApiNotificationSchema>;
 export type ApiUpdate = z.infer<typeof ApiUpdateSchema>;
 
 //
@@ -191,10 +217,26 @@ export const ApiEphemeralMachineActivityUpdateSchema = z.object({
     activeAt: z.number(),
 });
 
+export const ApiEphemeralTerminalUpdateSchema = z.object({
+    type: z.literal('terminal'),
+    machineId: z.string(),
+    terminalId: z.string(),
+    payload: z.string(), // encrypted with the machine key
+});
+
+export const ApiEphemeralBashJobUpdateSchema = z.object({
+    type: z.literal('bash-job'),
+    sessionId: z.string().optional(), // set for session commands, encrypted with the session key
+    machineId: z.string().optional(), // set for machine commands, encrypted with the machine key
+    payload: z.string(),
+});
+
 export const ApiEphemeralUpdateSchema = z.union([
     ApiEphemeralActivityUpdateSchema,
     ApiEphemeralUsageUpdateSchema,
     ApiEphemeralMachineActivityUpdateSchema,
+    ApiEphemeralTerminalUpdateSchema,
+    ApiEphemeralBashJobUpdateSchema,
 ]);
 
 export type ApiEphemeralActivityUpdate = z.infer<typeof ApiEphemeralActivityUpdateSchema>;
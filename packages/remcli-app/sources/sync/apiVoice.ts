@@ -1,35 +1,30 @@
-import { AuthCredentials } from '@/auth/tokenStorage';
-import { getServerUrl } from './serverConfig';
 import { config } from '@/config';
-import { storage } from './storage';
+import { sync } from './sync';
 
 export interface VoiceTokenResponse {
     allowed: boolean;
     token?: string;
     agentId?: string;
+    // Set when the daemon minted the token with a provider from its settings
+    provider?: 'elevenlabs' | 'openai' | 'stub';
+    expiresAt?: number | null;
+    url?: string;
+    model?: string;
 }
 
-export async function fetchVoiceToken(
-    credentials: AuthCredentials,
-    sessionId: string
-): Promise<VoiceTokenResponse> {
-    const serverUrl = getServerUrl();
-    const userId = storage.getState().profile.id;
-    console.log(`[Voice] User ID: ${userId}`);
-
+/**
+ * Ask the daemon the session lives on for a short-lived voice token.
+ * The provider key stays in the daemon's settings.json.
+ */
+export async function fetchVoiceToken(sessionId: string): Promise<VoiceTokenResponse> {
     // Get agent ID from config
     const agentId = __DEV__
         ? config.elevenLabsAgentIdDev
         : config.elevenLabsAgentIdProd;
 
-    if (!agentId) {
-        throw new Error('Agent ID not configured');
-    }
-
-    const response = await fetch(`${serverUrl}/v1/voice/token`, {
+    const response = await sync.daemonForSession(sessionId).socket.request('/v1/voice/token', {
         method: 'POST',
         headers: {
-            'Authorization': `Bearer ${credentials.token}`,
             'Content-Type': 'application/json'
         },
         body: JSON.stringify({
@@ -39,9 +34,8 @@ export async function fetchVoiceToken(
     });
 
     if (!response.ok) {
-        // 400 means the endpoint doesn't exist yet on this server.
-        // Allow voice anyway to not break users on experimental/custom servers
-        // that haven't been updated with the token endpoint yet.
+        // 400 means the daemon has no voice provider configured (or is too old to
+        // broker tokens). Allow voice anyway with the public agent.
         if (response.status === 400) {
             return { allowed: true };
         }
@@ -49,4 +43,4 @@ export async function fetchVoiceToken(
     }
 
     return await response.json();
-}
\ No newline at end of file
+}
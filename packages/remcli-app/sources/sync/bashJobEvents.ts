@@ -0,0 +1,17 @@
+/**
+ * Output of streaming commands (see remcli-cli src/modules/common/bashJobs.ts).
+ * Sessions and daemons send it as `bash-job` ephemeral updates encrypted with
+ * the session or machine key; sync decrypts them and the command screen
+ * subscribes by job id.
+ */
+
+import { createStreamChannel } from './streamEvents';
+
+export type BashJobEvent =
+    | { jobId: string; type: 'output'; stream: 'stdout' | 'stderr'; data: string }
+    | { jobId: string; type: 'exit'; exitCode: number | null; signal: string | null; reason?: 'cancelled' | 'timeout' | 'error'; error?: string };
+
+const channel = createStreamChannel<BashJobEvent>((event) => event.jobId);
+
+export const subscribeToBashJob = channel.subscribe;
+export const dispatchBashJobEvent = channel.dispatch;
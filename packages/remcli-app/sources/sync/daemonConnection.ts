@@ -0,0 +1,34 @@
+import { decodeBase64 } from '@/encryption/base64';
+import { ApiSocket } from './apiSocket';
+import { Encryption } from './encryption/encryption';
+import { getDaemonUrl, P2PConfig } from './serverConfig';
+
+/**
+ * Connection to one paired daemon: its socket, this device's token and the
+ * encryption derived from the daemon's shared secret. Every session and machine
+ * belongs to exactly one daemon (`daemonId` in storage).
+ */
+export interface DaemonConnection {
+    id: string;
+    endpoint: string;
+    token: string;
+    encryption: Encryption;
+    socket: ApiSocket;
+}
+
+/**
+ * Open a socket to a secondary daemon. The primary daemon's connection is built
+ * from the auth credentials in syncInit instead.
+ */
+export async function openDaemonConnection(config: P2PConfig): Promise<DaemonConnection> {
+    if (!config.token) {
+        throw new Error(`Daemon ${config.id} is not paired`);
+    }
+
+    const encryption = await Encryption.create(decodeBase64(config.key));
+    const endpoint = getDaemonUrl(config);
+    const socket = new ApiSocket();
+    socket.initialize({ endpoint, token: config.token }, encryption);
+
+    return { id: config.id, endpoint, token: config.token, encryption, socket };
+}
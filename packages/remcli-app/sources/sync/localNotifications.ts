@@ -0,0 +1,82 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { t } from '@/text';
+import { getSessionName } from '@/utils/sessionUtils';
+import { storage } from './storage';
+import { InboxNotification } from './storageTypes';
+
+/**
+ * Title and body shown for a daemon notification, both in the inbox and in the system alert
+ */
+export function describeNotification(notification: InboxNotification): { title: string; body: string } {
+    const session = notification.sessionId ? storage.getState().sessions[notification.sessionId] : null;
+    const sessionName = session ? getSessionName(session) : null;
+
+    switch (notification.kind) {
+        case 'permission':
+            return {
+                title: t('inbox.permissionTitle', { tool: notification.tool ?? t('status.unknown') }),
+                body: sessionName ?? t('inbox.permissionBody')
+            };
+        case 'turn-finished':
+            return {
+                title: t('inbox.turnFinishedTitle'),
+                body: sessionName ?? t('inbox.turnFinishedBody')
+            };
+        case 'session-crashed':
+            return {
+                title: t('inbox.sessionCrashedTitle'),
+                body: sessionName ?? t('inbox.sessionCrashedBody')
+            };
+        case 'message':
+            return {
+                title: notification.title ?? 'Remcli',
+                body: notification.body ?? ''
+            };
+    }
+}
+
+/**
+ * Raise a system alert for a notification received over the daemon socket.
+ * There is no push service in P2P mode, so this only works while the app is connected:
+ * the Notification API on web (skipped when the tab has focus), a local notification on native.
+ */
+export async function presentLocalNotification(notification: InboxNotification): Promise<void> {
+    const { title, body } = describeNotification(notification);
+
+    try {
+        if (Platform.OS === 'web') {
+            if (typeof window === 'undefined' || !('Notification' in window)) {
+                return;
+            }
+            if (typeof document !== 'undefined' && document.hasFocus()) {
+                return;
+            }
+            if (window.Notification.permission === 'default') {
+                await window.Notification.requestPermission();
+            }
+            if (window.Notification.permission === 'granted') {
+                new window.Notification(title, { body, tag: notification.id });
+            }
+            return;
+        }
+
+        let { status } = await Notifications.getPermissionsAsync();
+        if (status !== 'granted') {
+            status = (await Notifications.requestPermissionsAsync()).status;
+        }
+        if (status !== 'granted') {
+            return;
+        }
+        await Notifications.scheduleNotificationAsync({
+            content: {
+                title,
+                body,
+                data: { notificationId: notification.id, sessionId: notification.sessionId }
+            },
+            trigger: null
+        });
+    } catch (error) {
+        console.error('Failed to present notification:', error);
+    }
+}
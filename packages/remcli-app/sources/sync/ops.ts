@@ -3,10 +3,18 @@
  * Provides strictly typed functions for all session-related RPC operations
  */
 
-import { apiSocket } from './apiSocket';
 import { sync } from './sync';
 import type { MachineMetadata } from './storageTypes';
 
+// Calls go to the paired daemon the session or machine lives on
+function sessionSocket(sessionId: string) {
+    return sync.daemonForSession(sessionId).socket;
+}
+
+function machineSocket(machineId: string) {
+    return sync.daemonForMachine(machineId).socket;
+}
+
 // Strict type definitions for all operations
 
 // Permission operation types
@@ -17,6 +25,7 @@ interface SessionPermissionRequest {
     mode?: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan';
     allowTools?: string[];
     decision?: 'approved' | 'approved_for_session' | 'denied' | 'abort';
+    rememberForProject?: boolean;
 }
 
 // Mode change operation types
@@ -39,6 +48,19 @@ interface SessionBashResponse {
     error?: string;
 }
 
+// Streaming bash: output arrives as `bash-job` events (see bashJobEvents.ts)
+interface BashStartRequest {
+    command: string;
+    cwd?: string;
+    timeout?: number;
+}
+
+interface BashStartResponse {
+    success: boolean;
+    jobId?: string;
+    error?: string;
+}
+
 // Read file operation types
 interface SessionReadFileRequest {
     path: string;
@@ -138,7 +160,16 @@ export interface SpawnSessionOptions {
     directory: string;
     approvedNewDirectoryCreation?: boolean;
     token?: string;
-    agent?: 'codex' | 'claude' | 'cursor' | 'gemini';
+    agent?: 'codex' | 'claude' | 'cursor' | 'gemini' | 'acp';
+    // Name of an ACP agent declared in the machine's settings.json (with agent 'acp')
+    acpAgent?: string;
+    // Resume the agent from another session's transcript, cut before a user message
+    fork?: {
+        sessionId: string;
+        agentSessionId: string;
+        messageText: string;
+        occurrence: number;
+    };
     // Environment variables from AI backend profile
     // Accepts any environment variables - daemon will pass them to the agent process
     // Common variables include:
@@ -159,20 +190,22 @@ export interface SpawnSessionOptions {
  */
 export async function machineSpawnNewSession(options: SpawnSessionOptions): Promise<SpawnSessionResult> {
 
-    const { machineId, directory, approvedNewDirectoryCreation = false, token, agent, environmentVariables } = options;
+    const { machineId, directory, approvedNewDirectoryCreation = false, token, agent, acpAgent, fork, environmentVariables } = options;
 
     try {
-        const result = await apiSocket.machineRPC<SpawnSessionResult, {
+        const result = await machineSocket(machineId).machineRPC<SpawnSessionResult, {
             type: 'spawn-in-directory'
             directory: string
             approvedNewDirectoryCreation?: boolean,
             token?: string,
-            agent?: 'codex' | 'claude' | 'cursor' | 'gemini',
+            agent?: 'codex' | 'claude' | 'cursor' | 'gemini' | 'acp',
+            acpAgent?: string,
+            fork?: SpawnSessionOptions['fork'],
             environmentVariables?: Record<string, string>;
         }>(
             machineId,
             'spawn-remcli-session',
-            { type: 'spawn-in-directory', directory, approvedNewDirectoryCreation, token, agent, environmentVariables }
+            { type: 'spawn-in-directory', directory, approvedNewDirectoryCreation, token, agent, acpAgent, fork, environmentVariables }
         );
         if (!result) {
             return {
@@ -194,7 +227,7 @@ export async function machineSpawnNewSession(options: SpawnSessionOptions): Prom
  * Stop the daemon on a specific machine
  */
 export async function machineStopDaemon(machineId: string): Promise<{ message: string }> {
-    const result = await apiSocket.machineRPC<{ message: string }, {}>(
+    const result = await machineSocket(machineId).machineRPC<{ message: string }, {}>(
         machineId,
         'stop-daemon',
         {}
@@ -216,7 +249,7 @@ export async function machineBash(
     exitCode: number;
 }> {
     try {
-        const result = await apiSocket.machineRPC<{
+        const result = await machineSocket(machineId).machineRPC<{
             success: boolean;
             stdout: string;
             stderr: string;
@@ -240,6 +273,296 @@ export async function machineBash(
     }
 }
 
+/**
+ * Start a streaming command on a machine
+ */
+export async function machineBashStart(machineId: string, request: BashStartRequest): Promise<BashStartResponse> {
+    try {
+        return await machineSocket(machineId).machineRPC<BashStartResponse, BashStartRequest>(
+            machineId,
+            'bash-start',
+            request
+        );
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
+
+export async function machineBashCancel(machineId: string, jobId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+        return await machineSocket(machineId).machineRPC<{ success: boolean; error?: string }, { jobId: string }>(
+            machineId,
+            'bash-cancel',
+            { jobId }
+        );
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
+
+export interface MachineSessionSearchHit {
+    agent: 'claude' | 'codex' | 'gemini';
+    agentSessionId: string;
+    path: string | null;
+    role: 'user' | 'assistant';
+    timestamp: number;
+    snippet: string;
+}
+
+/**
+ * Search the agent session logs (Claude/Codex/Gemini transcripts) on a machine.
+ * `paths` are the project directories the app knows about for that machine.
+ */
+export async function machineSearchSessions(
+    machineId: string,
+    query: string,
+    paths: string[],
+    limit: number = 50
+): Promise<MachineSessionSearchHit[]> {
+    const result = await machineSocket(machineId).machineRPC<{ hits: MachineSessionSearchHit[] }, {
+        query: string;
+        paths: string[];
+        limit: number;
+    }>(
+        machineId,
+        'search-sessions',
+        { query, paths, limit }
+    );
+    return result?.hits ?? [];
+}
+
+/**
+ * Entry of the daemon's audit log (see remcli-cli src/daemon/auditLog.ts)
+ */
+export type MachineAuditEntry = { time: number; pid: number } & (
+    | { type: 'rpc'; method: string; sessionId?: string; machineId?: string; deviceId?: string; durationMs: number; result: 'ok' | 'error'; error?: string }
+    | { type: 'session-spawn'; directory: string; agent?: string; sessionId?: string; result: 'success' | 'error' | 'needs-approval'; error?: string }
+    | { type: 'session-stop'; sessionId?: string; pid: number; reason: 'requested' | 'exited' }
+    | { type: 'permission'; sessionId: string; tool: string; decision: string; mode?: string }
+    | { type: 'auth-failure'; transport: 'http' | 'socket'; reason: string; ip?: string; url?: string }
+);
+
+/**
+ * Fetch the most recent audit log entries from a machine's daemon, newest first
+ */
+export async function machineAuditLog(
+    machineId: string,
+    limit: number = 50
+): Promise<MachineAuditEntry[]> {
+    const result = await machineSocket(machineId).machineRPC<{ entries: MachineAuditEntry[] }, {
+        limit: number;
+    }>(
+        machineId,
+        'audit-log',
+        { limit }
+    );
+    return result?.entries ?? [];
+}
+
+/**
+ * Scheduled session of a machine's daemon (see remcli-cli src/daemon/scheduler.ts)
+ */
+export interface MachineSchedule {
+    id: string;
+    name: string;
+    cron: string;
+    directory: string;
+    agent: 'claude' | 'codex' | 'gemini' | 'cursor';
+    profileId?: string;
+    prompt: string;
+    enabled: boolean;
+    createdAt: number;
+    /** Most recent first */
+    runs: MachineScheduleRun[];
+}
+
+export interface MachineScheduleRun {
+    startedAt: number;
+    status: 'started' | 'failed' | 'skipped';
+    sessionId?: string;
+    endedAt?: number;
+    error?: string;
+}
+
+export type NewMachineSchedule = Pick<MachineSchedule, 'name' | 'cron' | 'directory' | 'agent' | 'prompt'> & { profileId?: string };
+
+export async function machineListSchedules(machineId: string): Promise<MachineSchedule[]> {
+    const result = await machineSocket(machineId).machineRPC<{ jobs: MachineSchedule[] }, {}>(
+        machineId,
+        'list-schedules',
+        {}
+    );
+    return result?.jobs ?? [];
+}
+
+export async function machineAddSchedule(machineId: string, job: NewMachineSchedule): Promise<MachineSchedule> {
+    const result = await machineSocket(machineId).machineRPC<{ job: MachineSchedule }, NewMachineSchedule>(
+        machineId,
+        'add-schedule',
+        job
+    );
+    return result.job;
+}
+
+export async function machineUpdateSchedule(machineId: string, jobId: string, enabled: boolean): Promise<MachineSchedule> {
+    const result = await machineSocket(machineId).machineRPC<{ job: MachineSchedule }, { jobId: string; enabled: boolean }>(
+        machineId,
+        'update-schedule',
+        { jobId, enabled }
+    );
+    return result.job;
+}
+
+export async function machineRemoveSchedule(machineId: string, jobId: string): Promise<void> {
+    await machineSocket(machineId).machineRPC<{ success: boolean }, { jobId: string }>(
+        machineId,
+        'remove-schedule',
+        { jobId }
+    );
+}
+
+/**
+ * Start a scheduled session right away, outside its schedule
+ */
+export async function machineRunSchedule(machineId: string, jobId: string): Promise<MachineScheduleRun> {
+    const result = await machineSocket(machineId).machineRPC<{ run: MachineScheduleRun }, { jobId: string }>(
+        machineId,
+        'run-schedule',
+        { jobId }
+    );
+    return result.run;
+}
+
+/**
+ * Usage recorded by a machine's daemon (see remcli-cli src/daemon/usageLedger.ts)
+ */
+export type MachineUsageGroupBy = 'day' | 'project' | 'agent' | 'model' | 'session';
+
+export interface MachineUsageTotals {
+    tokens: { total: number; input: number; output: number; cacheCreation: number; cacheRead: number };
+    costUsd: number;
+    reports: number;
+}
+
+export interface MachineUsageRow extends MachineUsageTotals {
+    day?: string;
+    project?: string;
+    agent?: string;
+    model?: string;
+    sessionId?: string;
+}
+
+export interface MachineUsageBudget {
+    id: string;
+    period: 'day' | 'month';
+    project?: string;
+    limitUsd: number;
+    action: 'warn' | 'pause';
+    createdAt: number;
+    periodKey: string;
+    spentUsd: number;
+    exceeded: boolean;
+}
+
+export type NewMachineUsageBudget = Pick<MachineUsageBudget, 'period' | 'limitUsd' | 'action'> & { project?: string };
+
+export interface MachineUsageReport {
+    rows: MachineUsageRow[];
+    total: MachineUsageTotals;
+    budgets: MachineUsageBudget[];
+}
+
+async function usageResponse<T>(response: Response): Promise<T> {
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || body?.message || `Request failed: ${response.status}`);
+    }
+    return await response.json();
+}
+
+/**
+ * Fetch usage from a machine's daemon, grouped by the given fields. `since` and `until` are YYYY-MM-DD.
+ */
+export async function machineUsage(
+    machineId: string,
+    query: { groupBy?: MachineUsageGroupBy[]; since?: string; until?: string; project?: string }
+): Promise<MachineUsageReport> {
+    const params = new URLSearchParams();
+    if (query.groupBy?.length) params.set('groupBy', query.groupBy.join(','));
+    if (query.since) params.set('since', query.since);
+    if (query.until) params.set('until', query.until);
+    if (query.project) params.set('project', query.project);
+    const search = params.toString();
+    const response = await machineSocket(machineId).request(`/v1/usage${search ? `?${search}` : ''}`);
+    return usageResponse<MachineUsageReport>(response);
+}
+
+export async function machineAddUsageBudget(machineId: string, budget: NewMachineUsageBudget): Promise<void> {
+    const response = await machineSocket(machineId).request('/v1/usage/budgets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(budget)
+    });
+    await usageResponse(response);
+}
+
+export async function machineRemoveUsageBudget(machineId: string, budgetId: string): Promise<void> {
+    const response = await machineSocket(machineId).request(`/v1/usage/budgets/${encodeURIComponent(budgetId)}`, {
+        method: 'DELETE'
+    });
+    await usageResponse(response);
+}
+
+/**
+ * Open an interactive terminal on a machine: a new shell in `directory`, or the
+ * tmux window of a daemon-spawned session. Output arrives through subscribeToTerminal.
+ */
+export async function machineTerminalOpen(
+    machineId: string,
+    options: { directory?: string; sessionId?: string; cols: number; rows: number }
+): Promise<{ terminalId: string; title: string }> {
+    return await machineSocket(machineId).machineRPC<{ terminalId: string; title: string }, typeof options>(
+        machineId,
+        'terminal-open',
+        options
+    );
+}
+
+export async function machineTerminalInput(machineId: string, terminalId: string, data: string): Promise<void> {
+    await machineSocket(machineId).machineRPC<{ success: boolean }, { terminalId: string; data: string }>(
+        machineId,
+        'terminal-input',
+        { terminalId, data }
+    );
+}
+
+export async function machineTerminalResize(machineId: string, terminalId: string, cols: number, rows: number): Promise<void> {
+    await machineSocket(machineId).machineRPC<{ success: boolean }, { terminalId: string; cols: number; rows: number }>(
+        machineId,
+        'terminal-resize',
+        { terminalId, cols, rows }
+    );
+}
+
+/**
+ * Tell the daemon the terminal is still on screen; it closes terminals nobody pings
+ */
+export async function machineTerminalKeepAlive(machineId: string, terminalId: string): Promise<void> {
+    await machineSocket(machineId).machineRPC<{ success: boolean }, { terminalId: string }>(
+        machineId,
+        'terminal-keepalive',
+        { terminalId }
+    );
+}
+
+export async function machineTerminalClose(machineId: string, terminalId: string): Promise<void> {
+    await machineSocket(machineId).machineRPC<{ success: boolean }, { terminalId: string }>(
+        machineId,
+        'terminal-close',
+        { terminalId }
+    );
+}
+
 /**
  * Update machine metadata with optimistic concurrency control and automatic retry
  */
@@ -253,7 +576,7 @@ export async function machineUpdateMetadata(
     let currentMetadata = { ...metadata };
     let retryCount = 0;
 
-    const machineEncryption = sync.encryption.getMachineEncryption(machineId);
+    const machineEncryption = sync.getMachineEncryption(machineId);
     if (!machineEncryption) {
         throw new Error(`Machine encryption not found for ${machineId}`);
     }
@@ -261,7 +584,7 @@ export async function machineUpdateMetadata(
     while (retryCount < maxRetries) {
         const encryptedMetadata = await machineEncryption.encryptRaw(currentMetadata);
 
-        const result = await apiSocket.emitWithAck<{
+        const result = await machineSocket(machineId).emitWithAck<{
             result: 'success' | 'version-mismatch' | 'error';
             version?: number;
             metadata?: string;
@@ -309,7 +632,7 @@ export async function machineUpdateMetadata(
  * Abort the current session operation
  */
 export async function sessionAbort(sessionId: string): Promise<void> {
-    await apiSocket.sessionRPC(sessionId, 'abort', {
+    await sessionSocket(sessionId).sessionRPC(sessionId, 'abort', {
         reason: `The user doesn't want to proceed with this tool use. The tool use was rejected (eg. if it was a file edit, the new_string was NOT written to the file). STOP what you are doing and wait for the user to tell you how to proceed.`
     });
 }
@@ -317,9 +640,9 @@ export async function sessionAbort(sessionId: string): Promise<void> {
 /**
  * Allow a permission request
  */
-export async function sessionAllow(sessionId: string, id: string, mode?: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan', allowedTools?: string[], decision?: 'approved' | 'approved_for_session'): Promise<void> {
-    const request: SessionPermissionRequest = { id, approved: true, mode, allowTools: allowedTools, decision };
-    await apiSocket.sessionRPC(sessionId, 'permission', request);
+export async function sessionAllow(sessionId: string, id: string, mode?: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan', allowedTools?: string[], decision?: 'approved' | 'approved_for_session', rememberForProject?: boolean): Promise<void> {
+    const request: SessionPermissionRequest = { id, approved: true, mode, allowTools: allowedTools, decision, rememberForProject };
+    await sessionSocket(sessionId).sessionRPC(sessionId, 'permission', request);
 }
 
 /**
@@ -327,7 +650,7 @@ export async function sessionAllow(sessionId: string, id: string, mode?: 'defaul
  */
 export async function sessionDeny(sessionId: string, id: string, mode?: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan', allowedTools?: string[], decision?: 'denied' | 'abort'): Promise<void> {
     const request: SessionPermissionRequest = { id, approved: false, mode, allowTools: allowedTools, decision };
-    await apiSocket.sessionRPC(sessionId, 'permission', request);
+    await sessionSocket(sessionId).sessionRPC(sessionId, 'permission', request);
 }
 
 /**
@@ -335,7 +658,7 @@ export async function sessionDeny(sessionId: string, id: string, mode?: 'default
  */
 export async function sessionSwitch(sessionId: string, to: 'remote' | 'local'): Promise<boolean> {
     const request: SessionModeChangeRequest = { to };
-    const response = await apiSocket.sessionRPC<boolean, SessionModeChangeRequest>(
+    const response = await sessionSocket(sessionId).sessionRPC<boolean, SessionModeChangeRequest>(
         sessionId,
         'switch',
         request,
@@ -348,7 +671,7 @@ export async function sessionSwitch(sessionId: string, to: 'remote' | 'local'):
  */
 export async function sessionBash(sessionId: string, request: SessionBashRequest): Promise<SessionBashResponse> {
     try {
-        const response = await apiSocket.sessionRPC<SessionBashResponse, SessionBashRequest>(
+        const response = await sessionSocket(sessionId).sessionRPC<SessionBashResponse, SessionBashRequest>(
             sessionId,
             'bash',
             request
@@ -365,13 +688,40 @@ export async function sessionBash(sessionId: string, request: SessionBashRequest
     }
 }
 
+/**
+ * Start a streaming command in the session
+ */
+export async function sessionBashStart(sessionId: string, request: BashStartRequest): Promise<BashStartResponse> {
+    try {
+        return await sessionSocket(sessionId).sessionRPC<BashStartResponse, BashStartRequest>(
+            sessionId,
+            'bash-start',
+            request
+        );
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
+
+export async function sessionBashCancel(sessionId: string, jobId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+        return await sessionSocket(sessionId).sessionRPC<{ success: boolean; error?: string }, { jobId: string }>(
+            sessionId,
+            'bash-cancel',
+            { jobId }
+        );
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
+
 /**
  * Read a file from the session
  */
 export async function sessionReadFile(sessionId: string, path: string): Promise<SessionReadFileResponse> {
     try {
         const request: SessionReadFileRequest = { path };
-        const response = await apiSocket.sessionRPC<SessionReadFileResponse, SessionReadFileRequest>(
+        const response = await sessionSocket(sessionId).sessionRPC<SessionReadFileResponse, SessionReadFileRequest>(
             sessionId,
             'readFile',
             request
@@ -396,7 +746,7 @@ export async function sessionWriteFile(
 ): Promise<SessionWriteFileResponse> {
     try {
         const request: SessionWriteFileRequest = { path, content, expectedHash };
-        const response = await apiSocket.sessionRPC<SessionWriteFileResponse, SessionWriteFileRequest>(
+        const response = await sessionSocket(sessionId).sessionRPC<SessionWriteFileResponse, SessionWriteFileRequest>(
             sessionId,
             'writeFile',
             request
@@ -416,7 +766,7 @@ export async function sessionWriteFile(
 export async function sessionListDirectory(sessionId: string, path: string): Promise<SessionListDirectoryResponse> {
     try {
         const request: SessionListDirectoryRequest = { path };
-        const response = await apiSocket.sessionRPC<SessionListDirectoryResponse, SessionListDirectoryRequest>(
+        const response = await sessionSocket(sessionId).sessionRPC<SessionListDirectoryResponse, SessionListDirectoryRequest>(
             sessionId,
             'listDirectory',
             request
@@ -440,7 +790,7 @@ export async function sessionGetDirectoryTree(
 ): Promise<SessionGetDirectoryTreeResponse> {
     try {
         const request: SessionGetDirectoryTreeRequest = { path, maxDepth };
-        const response = await apiSocket.sessionRPC<SessionGetDirectoryTreeResponse, SessionGetDirectoryTreeRequest>(
+        const response = await sessionSocket(sessionId).sessionRPC<SessionGetDirectoryTreeResponse, SessionGetDirectoryTreeRequest>(
             sessionId,
             'getDirectoryTree',
             request
@@ -464,7 +814,7 @@ export async function sessionRipgrep(
 ): Promise<SessionRipgrepResponse> {
     try {
         const request: SessionRipgrepRequest = { args, cwd };
-        const response = await apiSocket.sessionRPC<SessionRipgrepResponse, SessionRipgrepRequest>(
+        const response = await sessionSocket(sessionId).sessionRPC<SessionRipgrepResponse, SessionRipgrepRequest>(
             sessionId,
             'ripgrep',
             request
@@ -478,12 +828,38 @@ export async function sessionRipgrep(
     }
 }
 
+/**
+ * Per-project permission rule (see remcli-cli src/utils/permissionRules.ts)
+ */
+export interface PermissionRule {
+    action: 'allow' | 'deny' | 'ask';
+    tool?: string;
+    command?: string;
+    path?: string;
+    mcpServer?: string;
+}
+
+/**
+ * Read the permission rules of the session's project, or replace them when `rules` is given
+ */
+export async function sessionPermissionRules(sessionId: string, rules?: PermissionRule[]): Promise<{ rules: PermissionRule[]; path: string }> {
+    const response = await sessionSocket(sessionId).sessionRPC<{ success: boolean; rules?: PermissionRule[]; path?: string; error?: string }, { rules?: PermissionRule[] }>(
+        sessionId,
+        'permission-rules',
+        rules ? { rules } : {}
+    );
+    if (!response.success) {
+        throw new Error(response.error || 'Failed to load permission rules');
+    }
+    return { rules: response.rules ?? [], path: response.path ?? '' };
+}
+
 /**
  * Kill the session process immediately
  */
 export async function sessionKill(sessionId: string): Promise<SessionKillResponse> {
     try {
-        const response = await apiSocket.sessionRPC<SessionKillResponse, {}>(
+        const response = await sessionSocket(sessionId).sessionRPC<SessionKillResponse, {}>(
             sessionId,
             'killSession',
             {}
@@ -504,7 +880,7 @@ export async function sessionKill(sessionId: string): Promise<SessionKillRespons
  */
 export async function sessionDelete(sessionId: string): Promise<{ success: boolean; message?: string }> {
     try {
-        const response = await apiSocket.request(`/v1/sessions/${sessionId}`, {
+        const response = await sessionSocket(sessionId).request(`/v1/sessions/${sessionId}`, {
             method: 'DELETE'
         });
         
@@ -530,6 +906,8 @@ export async function sessionDelete(sessionId: string): Promise<{ success: boole
 export type {
     SessionBashRequest,
     SessionBashResponse,
+    BashStartRequest,
+    BashStartResponse,
     SessionReadFileResponse,
     SessionWriteFileResponse,
     SessionListDirectoryResponse,
@@ -2,13 +2,18 @@
  * P2P direct connection support
  *
  * Parses P2P QR code payload, derives bearer token from shared secret
- * using HMAC-SHA256 (matching the CLI daemon's derivation), and configures
- * the app to connect directly to the daemon's local P2P server.
+ * using HMAC-SHA256 (matching the CLI daemon's derivation), exchanges the
+ * QR's pairing code for a per-device token, and configures the app to
+ * connect directly to the daemon's local P2P server. Several daemons can be
+ * paired at once; the first one is the primary daemon.
  */
 
+import { Platform } from 'react-native';
+import * as Device from 'expo-device';
 import { decodeBase64 } from '@/encryption/base64';
 import { hmac_sha512 } from '@/encryption/hmac_sha512';
-import { setP2PConfig, clearP2PConfig, P2PConfig } from './serverConfig';
+import { randomUUID } from '@/utils/uuid';
+import { setP2PConfig, clearP2PConfig, addP2PDaemon, getDaemonUrl, P2PConfig } from './serverConfig';
 
 // ─── Types ───────────────────────────────────────────────────────
 
@@ -17,6 +22,7 @@ export interface P2PQRPayload {
     host: string;
     port: number;
     key: string;      // base64-encoded shared secret
+    pair?: string;    // single-use pairing code (v2+)
     v: number;        // protocol version
 }
 
@@ -35,7 +41,8 @@ export function parseP2PQRCode(data: string): P2PQRPayload | null {
             typeof parsed.host === 'string' &&
             typeof parsed.port === 'number' &&
             typeof parsed.key === 'string' &&
-            typeof parsed.v === 'number'
+            typeof parsed.v === 'number' &&
+            (parsed.pair === undefined || typeof parsed.pair === 'string')
         ) {
             return parsed as P2PQRPayload;
         }
@@ -65,16 +72,45 @@ export async function deriveBearerToken(sharedSecret: Uint8Array): Promise<strin
         .join('');
 }
 
+// ─── Pairing ─────────────────────────────────────────────────────
+
+/**
+ * Exchange the QR's pairing code for a token that belongs to this device only.
+ * The secret-derived token proves we scanned the QR; the daemon accepts it for pairing and nothing else.
+ */
+async function pairDevice(endpoint: string, pairingToken: string, code: string): Promise<string> {
+    const response = await fetch(`${endpoint}/v1/devices/pair`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${pairingToken}`,
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+            code,
+            name: getDeviceName(),
+            platform: Platform.OS
+        })
+    });
+
+    if (!response.ok) {
+        throw new Error(`Failed to pair device: ${response.status}`);
+    }
+
+    const data = await response.json() as { deviceId: string; token: string };
+    return data.token;
+}
+
+function getDeviceName(): string {
+    const name = Device.deviceName || Device.modelName || Device.osName || Platform.OS;
+    return name.slice(0, 100);
+}
+
 // ─── Connection Setup ────────────────────────────────────────────
 
 /**
- * Process a P2P QR code payload: decode the shared secret, derive the bearer
- * token, build the server URL, and persist the P2P config so the app connects
- * to the daemon's local P2P server.
- *
- * Returns the bearer token and master secret for auth login.
+ * Decode the shared secret, build the daemon URL and pair this device with the daemon
  */
-export async function connectP2P(payload: P2PQRPayload): Promise<{
+async function pairWithDaemon(payload: P2PQRPayload): Promise<{
     token: string;
     secret: Uint8Array;
     endpoint: string;
@@ -82,27 +118,58 @@ export async function connectP2P(payload: P2PQRPayload): Promise<{
     // Decode shared secret from base64
     const sharedSecret = decodeBase64(payload.key);
 
-    // Derive bearer token (same algorithm as CLI daemon)
-    const token = await deriveBearerToken(sharedSecret);
+    // Derive the pairing token (same algorithm as CLI daemon)
+    const pairingToken = await deriveBearerToken(sharedSecret);
 
     // Build endpoint URL
-    let endpoint: string;
-    if (payload.port === 0) {
-        // Tunnel mode — host contains full URL with protocol (e.g. "https://abc.ngrok.io")
-        endpoint = payload.host;
-    } else {
-        endpoint = `http://${payload.host}:${payload.port}`;
-    }
+    const endpoint = getDaemonUrl(payload);
+
+    // v1 daemons predate per-device tokens and accept the shared-secret token directly
+    const token = payload.pair
+        ? await pairDevice(endpoint, pairingToken, payload.pair)
+        : pairingToken;
+
+    return { token, secret: sharedSecret, endpoint };
+}
+
+/**
+ * Process a P2P QR code payload: pair this device with the daemon and persist
+ * it as the primary daemon, replacing any previously paired ones.
+ *
+ * Returns the device's bearer token and master secret for auth login.
+ */
+export async function connectP2P(payload: P2PQRPayload): Promise<{
+    token: string;
+    secret: Uint8Array;
+    endpoint: string;
+}> {
+    const result = await pairWithDaemon(payload);
 
     // Persist P2P config
     const p2pConfig: P2PConfig = {
+        id: randomUUID(),
         host: payload.host,
         port: payload.port,
         key: payload.key,
     };
     setP2PConfig(p2pConfig);
 
-    return { token, secret: sharedSecret, endpoint };
+    return result;
+}
+
+/**
+ * Pair with an additional daemon while logged in to the primary one.
+ * Returns the stored daemon config, to be connected with `sync.addDaemon()`.
+ */
+export async function pairP2PDaemon(payload: P2PQRPayload): Promise<P2PConfig> {
+    const { token } = await pairWithDaemon(payload);
+    return addP2PDaemon({
+        id: randomUUID(),
+        host: payload.host,
+        port: payload.port,
+        key: payload.key,
+        token,
+    });
 }
 
 /**
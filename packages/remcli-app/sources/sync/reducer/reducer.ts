@@ -111,7 +111,7 @@
  */
 
 import { Message, ToolCall } from "../typesMessage";
-import { AgentEvent, NormalizedMessage, UsageData } from "../typesRaw";
+import { AgentEvent, MessageAttachment, NormalizedMessage, UsageData } from "../typesRaw";
 import { createTracer, traceMessages, TracerState } from "./reducerTracer";
 import { AgentState } from "../storageTypes";
 import { MessageMeta } from "../typesMessageMeta";
@@ -123,6 +123,7 @@ type ReducerMessage = {
     createdAt: number;
     role: 'user' | 'agent';
     text: string | null;
+    attachments?: MessageAttachment[];
     isThinking?: boolean;
     event: AgentEvent | null;
     tool: ToolCall | null;
@@ -602,6 +603,7 @@ export function reducer(state: ReducerState, messages: NormalizedMessage[], agen
                 role: 'user',
                 createdAt: msg.createdAt,
                 text: msg.content.text,
+                ...(msg.content.attachments && { attachments: msg.content.attachments }),
                 tool: null,
                 event: null,
                 meta: msg.meta,
@@ -1110,6 +1112,7 @@ function convertReducerMessageToMessage(reducerMsg: ReducerMessage, state: Reduc
             kind: 'user-text',
             text: reducerMsg.text,
             ...(reducerMsg.meta?.displayText && { displayText: reducerMsg.meta.displayText }),
+            ...(reducerMsg.attachments && { attachments: reducerMsg.attachments }),
             meta: reducerMsg.meta
         };
     } else if (reducerMsg.role === 'agent' && reducerMsg.text !== null) {
@@ -1,4 +1,5 @@
 import { Platform } from 'react-native';
+import { randomUUID } from '@/utils/uuid';
 
 // ─── Storage Abstraction ────────────────────────────────────────
 // MMKV does not support web — use localStorage as fallback
@@ -32,31 +33,88 @@ function createStorage(id: string): KVStorage {
 
 const serverConfigStorage = createStorage('server-config');
 
-const P2P_CONFIG_KEY = 'p2p-config';
+const P2P_DAEMONS_KEY = 'p2p-daemons';
+const LEGACY_P2P_CONFIG_KEY = 'p2p-config';
 // ─── P2P Config ──────────────────────────────────────────────────
 
 export interface P2PConfig {
+    id: string;       // local id of the paired daemon
     host: string;
     port: number;
-    key: string;  // base64-encoded shared secret
+    key: string;      // base64-encoded shared secret
+    token?: string;   // per-device token; the primary daemon's token lives in TokenStorage
 }
 
-export function getP2PConfig(): P2PConfig | null {
-    const raw = serverConfigStorage.getString(P2P_CONFIG_KEY);
-    if (!raw) return null;
+/**
+ * All paired daemons. The first one is the primary daemon: it holds the account
+ * (settings, profile, artifacts, KV) and its credentials are the auth credentials.
+ */
+export function getP2PDaemons(): P2PConfig[] {
+    const raw = serverConfigStorage.getString(P2P_DAEMONS_KEY);
+    if (raw) {
+        try {
+            return JSON.parse(raw) as P2PConfig[];
+        } catch {
+            return [];
+        }
+    }
+
+    // Migrate the single-daemon config of older app versions
+    const legacy = serverConfigStorage.getString(LEGACY_P2P_CONFIG_KEY);
+    if (!legacy) return [];
     try {
-        return JSON.parse(raw) as P2PConfig;
+        const config = { ...JSON.parse(legacy), id: randomUUID() } as P2PConfig;
+        setP2PDaemons([config]);
+        serverConfigStorage.delete(LEGACY_P2P_CONFIG_KEY);
+        return [config];
     } catch {
-        return null;
+        return [];
     }
 }
 
+function setP2PDaemons(daemons: P2PConfig[]): void {
+    serverConfigStorage.set(P2P_DAEMONS_KEY, JSON.stringify(daemons));
+}
+
+/**
+ * The primary daemon
+ */
+export function getP2PConfig(): P2PConfig | null {
+    return getP2PDaemons()[0] ?? null;
+}
+
+/**
+ * Make `config` the primary daemon, forgetting all others (used on login)
+ */
 export function setP2PConfig(config: P2PConfig): void {
-    serverConfigStorage.set(P2P_CONFIG_KEY, JSON.stringify(config));
+    setP2PDaemons([config]);
+}
+
+/**
+ * Add a secondary daemon. Re-pairing a daemon that is already known (same shared secret)
+ * replaces its entry and keeps its id.
+ */
+export function addP2PDaemon(config: P2PConfig): P2PConfig {
+    const daemons = getP2PDaemons();
+    const index = daemons.findIndex((d) => d.key === config.key);
+    if (index === -1) {
+        daemons.push(config);
+        setP2PDaemons(daemons);
+        return config;
+    }
+    const updated = { ...config, id: daemons[index].id };
+    daemons[index] = updated;
+    setP2PDaemons(daemons);
+    return updated;
+}
+
+export function removeP2PDaemon(id: string): void {
+    setP2PDaemons(getP2PDaemons().filter((d) => d.id !== id));
 }
 
 export function clearP2PConfig(): void {
-    serverConfigStorage.delete(P2P_CONFIG_KEY);
+    serverConfigStorage.delete(P2P_DAEMONS_KEY);
+    serverConfigStorage.delete(LEGACY_P2P_CONFIG_KEY);
 }
 
 export function isP2PMode(): boolean {
@@ -65,14 +123,21 @@ export function isP2PMode(): boolean {
 
 // ─── Server URL ──────────────────────────────────────────────────
 
+export function getDaemonUrl(config: Pick<P2PConfig, 'host' | 'port'>): string {
+    if (config.port === 0) {
+        // Tunnel mode — host contains full URL with protocol (e.g. "https://abc.ngrok.io")
+        return config.host;
+    }
+    return `http://${config.host}:${config.port}`;
+}
+
+/**
+ * URL of the primary daemon
+ */
 export function getServerUrl(): string {
     const p2p = getP2PConfig();
     if (p2p) {
-        if (p2p.port === 0) {
-            // Tunnel mode — host contains full URL with protocol (e.g. "https://abc.ngrok.io")
-            return p2p.host;
-        }
-        return `http://${p2p.host}:${p2p.port}`;
+        return getDaemonUrl(p2p);
     }
 
     return '';
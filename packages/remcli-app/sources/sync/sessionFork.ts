@@ -0,0 +1,149 @@
+import { storage } from './storage';
+import { machineSpawnNewSession, SpawnSessionResult } from './ops';
+import type { Message } from './typesMessage';
+import type { Metadata, Session } from './storageTypes';
+
+export interface ForkSource {
+    agent: 'claude' | 'codex' | 'gemini';
+    agentSessionId: string;
+}
+
+export interface ForkTreeNode {
+    session: Session;
+    depth: number;
+}
+
+/**
+ * The agent session a fork resumes from, or null when the session can't be forked
+ */
+export function getForkSource(metadata: Metadata | null): ForkSource | null {
+    if (!metadata?.machineId) {
+        return null;
+    }
+    const flavor = metadata.flavor ?? 'claude';
+    if (flavor === 'claude' && metadata.claudeSessionId) {
+        return { agent: 'claude', agentSessionId: metadata.claudeSessionId };
+    }
+    if (flavor === 'codex' && metadata.codexSessionId) {
+        return { agent: 'codex', agentSessionId: metadata.codexSessionId };
+    }
+    if (flavor === 'gemini' && metadata.geminiSessionId) {
+        return { agent: 'gemini', agentSessionId: metadata.geminiSessionId };
+    }
+    return null;
+}
+
+export interface ForkPoint {
+    messageText: string;
+    occurrence: number;
+}
+
+/**
+ * Where a fork before `messageId` is cut: the message's text, and how often that
+ * text was sent from this message on. The daemon looks it up in the agent's
+ * transcript, where messages sent while the agent was busy are merged into one
+ * prompt, so counting turns here would cut too early.
+ */
+export function findForkPoint(messages: Message[], messageId: string): ForkPoint | null {
+    const target = messages.find((m) => m.id === messageId);
+    if (target?.kind !== 'user-text' || !target.text.trim()) {
+        return null;
+    }
+    // Messages are stored newest first
+    let occurrence = 0;
+    for (const message of messages) {
+        if (message.kind === 'user-text') {
+            occurrence += countTextBlocks(message.text, target.text);
+        }
+        if (message.id === messageId) {
+            return { messageText: target.text, occurrence };
+        }
+    }
+    return null;
+}
+
+/**
+ * How often `text` appears in `message` as whole lines, the way the daemon
+ * counts it in merged prompts
+ */
+function countTextBlocks(message: string, text: string): number {
+    const needle = text.trim();
+    const haystack = message.trim();
+    let count = 0;
+    let from = 0;
+    while (true) {
+        const index = haystack.indexOf(needle, from);
+        if (index === -1) {
+            return count;
+        }
+        const end = index + needle.length;
+        if ((index === 0 || haystack[index - 1] === '\n') && (end === haystack.length || haystack[end] === '\n')) {
+            count++;
+            from = end;
+        } else {
+            from = index + 1;
+        }
+    }
+}
+
+/**
+ * Start a new session on the same machine whose agent resumes from the
+ * conversation as it was before `messageId`
+ */
+export async function forkSessionBeforeMessage(sessionId: string, messageId: string): Promise<SpawnSessionResult> {
+    const state = storage.getState();
+    const metadata = state.sessions[sessionId]?.metadata ?? null;
+    const source = getForkSource(metadata);
+    const forkPoint = findForkPoint(state.sessionMessages[sessionId]?.messages ?? [], messageId);
+    if (!metadata?.machineId || !source || !forkPoint) {
+        return { type: 'error', errorMessage: 'This message cannot be forked' };
+    }
+    return machineSpawnNewSession({
+        machineId: metadata.machineId,
+        directory: metadata.path,
+        agent: source.agent,
+        fork: { sessionId, agentSessionId: source.agentSessionId, ...forkPoint }
+    });
+}
+
+/**
+ * The fork tree `sessionId` belongs to, flattened depth first from its root.
+ * Empty when the session was never forked.
+ */
+export function buildForkTree(sessions: Session[], sessionId: string): ForkTreeNode[] {
+    const byId = new Map(sessions.map((s) => [s.id, s]));
+    const children = new Map<string, Session[]>();
+    for (const session of sessions) {
+        const parentId = session.metadata?.forkedFrom;
+        if (parentId && byId.has(parentId)) {
+            children.set(parentId, [...(children.get(parentId) ?? []), session]);
+        }
+    }
+
+    // Walk up to the oldest known ancestor
+    let root = byId.get(sessionId);
+    const visited = new Set<string>();
+    while (root?.metadata?.forkedFrom && byId.has(root.metadata.forkedFrom) && !visited.has(root.id)) {
+        visited.add(root.id);
+        root = byId.get(root.metadata.forkedFrom);
+    }
+    if (!root || (root.id === sessionId && !children.has(sessionId))) {
+        return [];
+    }
+
+    const nodes: ForkTreeNode[] = [];
+    const seen = new Set<string>();
+    const visit = (session: Session, depth: number) => {
+        if (seen.has(session.id)) {
+            return;
+        }
+        seen.add(session.id);
+        nodes.push({ session, depth });
+        const forks = [...(children.get(session.id) ?? [])].sort((a, b) => a.createdAt - b.createdAt);
+        for (const fork of forks) {
+            visit(fork, depth + 1);
+        }
+    };
+    visit(root, 0);
+    return nodes;
+}
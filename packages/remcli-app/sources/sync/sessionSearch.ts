@@ -0,0 +1,166 @@
+import { storage } from './storage';
+import { machineSearchSessions, MachineSessionSearchHit } from './ops';
+import { isMachineOnline } from '@/utils/machineUtils';
+import type { Session } from './storageTypes';
+
+export interface SessionSearchResult {
+    key: string;
+    sessionId: string;
+    messageId: string | null;      // Set for hits in cached messages
+    role: 'user' | 'assistant';
+    snippet: string;
+    createdAt: number;
+    source: 'cache' | 'machine';
+}
+
+const SNIPPET_CONTEXT = 60;
+const MAX_CACHED_HITS_PER_SESSION = 3;
+
+function buildSnippet(text: string, index: number, length: number): string {
+    const start = Math.max(0, index - SNIPPET_CONTEXT);
+    const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+    const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+    return (start > 0 ? '…' : '') + snippet + (end < text.length ? '…' : '');
+}
+
+/**
+ * Search the decrypted messages already loaded into storage
+ */
+export function searchCachedMessages(query: string): SessionSearchResult[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+        return [];
+    }
+
+    const results: SessionSearchResult[] = [];
+    const sessionMessages = storage.getState().sessionMessages;
+    for (const [sessionId, entry] of Object.entries(sessionMessages)) {
+        let sessionHits = 0;
+        for (const message of entry.messages) {
+            if (message.kind !== 'user-text' && message.kind !== 'agent-text') {
+                continue;
+            }
+            if (message.kind === 'agent-text' && message.isThinking) {
+                continue;
+            }
+            const text = message.kind === 'user-text' ? (message.displayText ?? message.text) : message.text;
+            const index = text.toLowerCase().indexOf(needle);
+            if (index === -1) {
+                continue;
+            }
+            results.push({
+                key: `cache:${sessionId}:${message.id}`,
+                sessionId,
+                messageId: message.id,
+                role: message.kind === 'user-text' ? 'user' : 'assistant',
+                snippet: buildSnippet(text, index, needle.length),
+                createdAt: message.createdAt,
+                source: 'cache',
+            });
+            if (++sessionHits >= MAX_CACHED_HITS_PER_SESSION) {
+                break;
+            }
+        }
+    }
+    return results;
+}
+
+/**
+ * Find the app session a transcript hit belongs to.
+ *
+ * Sessions record their agent's session id in metadata. Sessions from older
+ * CLIs that only record it for Claude are matched on machine, flavor and path,
+ * picking the latest session that started before the hit.
+ */
+function findSessionForHit(hit: MachineSessionSearchHit, sessions: Session[]): Session | null {
+    const match = sessions.find((s) => {
+        switch (hit.agent) {
+            case 'claude': return s.metadata?.claudeSessionId === hit.agentSessionId;
+            case 'codex': return s.metadata?.codexSessionId === hit.agentSessionId;
+            case 'gemini': return s.metadata?.geminiSessionId === hit.agentSessionId;
+        }
+    });
+    if (match) {
+        return match;
+    }
+    if (!hit.path) {
+        return null;
+    }
+
+    let best: Session | null = null;
+    for (const session of sessions) {
+        if (session.metadata?.path !== hit.path) {
+            continue;
+        }
+        if ((session.metadata?.flavor ?? 'claude') !== hit.agent) {
+            continue;
+        }
+        if (session.createdAt > hit.timestamp) {
+            continue;
+        }
+        if (!best || session.createdAt > best.createdAt) {
+            best = session;
+        }
+    }
+    return best;
+}
+
+/**
+ * Ask every online machine to search its agent session logs, and keep the
+ * hits that map to a session the app can open
+ */
+export async function searchMachineLogs(query: string): Promise<SessionSearchResult[]> {
+    if (!query.trim()) {
+        return [];
+    }
+
+    const state = storage.getState();
+    const sessions = Object.values(state.sessions);
+    const machines = Object.values(state.machines).filter(isMachineOnline);
+
+    const perMachine = await Promise.all(machines.map(async (machine) => {
+        const machineSessions = sessions.filter((s) => s.metadata?.machineId === machine.id);
+        const paths = [...new Set(machineSessions.map((s) => s.metadata?.path).filter((p): p is string => !!p))];
+        try {
+            const hits = await machineSearchSessions(machine.id, query, paths);
+            const results: SessionSearchResult[] = [];
+            for (const hit of hits) {
+                const session = findSessionForHit(hit, machineSessions);
+                if (!session) {
+                    continue;
+                }
+                results.push({
+                    key: `machine:${session.id}:${hit.agentSessionId}:${hit.timestamp}:${results.length}`,
+                    sessionId: session.id,
+                    messageId: null,
+                    role: hit.role,
+                    snippet: hit.snippet,
+                    createdAt: hit.timestamp,
+                    source: 'machine',
+                });
+            }
+            return results;
+        } catch (error) {
+            console.warn(`Session search failed on machine ${machine.id}:`, error);
+            return [];
+        }
+    }));
+    return perMachine.flat();
+}
+
+/**
+ * Merge cached and machine results, dropping machine hits whose text is
+ * already covered by a cached hit in the same session. Newest first.
+ */
+export function mergeSearchResults(cached: SessionSearchResult[], machine: SessionSearchResult[]): SessionSearchResult[] {
+    const seen = new Set(cached.map((r) => `${r.sessionId}:${r.snippet}`));
+    const merged = [...cached];
+    for (const result of machine) {
+        const key = `${result.sessionId}:${result.snippet}`;
+        if (!seen.has(key)) {
+            seen.add(key);
+            merged.push(result);
+        }
+    }
+    return merged.sort((a, b) => b.createdAt - a.createdAt);
+}
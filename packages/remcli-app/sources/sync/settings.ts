@@ -122,6 +122,15 @@ export const AIBackendProfileSchema = z.object({
     // Default model mode for this profile
     defaultModelMode: z.string().optional(),
 
+    // What to do when a permission request is not answered in time
+    permissionTimeout: z.object({
+        seconds: z.number().int().min(10),
+        action: z.enum(['deny', 'approve-read-only', 'pause']),
+    }).optional(),
+
+    // How Codex sessions talk to Codex: `codex mcp-server` (default) or the codex-acp adapter
+    codexBackend: z.enum(['mcp', 'acp']).optional(),
+
     // Compatibility metadata
     compatibility: ProfileCompatibilitySchema.default({ claude: true, codex: true, cursor: true, gemini: true }),
 
@@ -136,6 +145,8 @@ export const AIBackendProfileSchema = z.object({
 
 export type AIBackendProfile = z.infer<typeof AIBackendProfileSchema>;
 
+export type PermissionTimeoutAction = NonNullable<AIBackendProfile['permissionTimeout']>['action'];
+
 // Helper functions for profile validation and compatibility
 export function validateProfileForAgent(profile: AIBackendProfile, agent: 'claude' | 'codex' | 'cursor' | 'gemini'): boolean {
     return profile.compatibility[agent];
@@ -224,6 +235,17 @@ export function getProfileEnvironmentVariables(profile: AIBackendProfile): Recor
         }
     }
 
+    // Add permission timeout (read by the session's permission handlers)
+    if (profile.permissionTimeout) {
+        envVars.REMCLI_PERMISSION_TIMEOUT = profile.permissionTimeout.seconds.toString();
+        envVars.REMCLI_PERMISSION_TIMEOUT_ACTION = profile.permissionTimeout.action;
+    }
+
+    // Add Codex backend (read by `remcli codex`)
+    if (profile.codexBackend) {
+        envVars.REMCLI_CODEX_BACKEND = profile.codexBackend;
+    }
+
     return envVars;
 }
 
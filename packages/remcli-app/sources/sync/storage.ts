@@ -1,6 +1,6 @@
 import { create } from "zustand";
 import { useShallow } from 'zustand/react/shallow'
-import { Session, Machine, GitStatus } from "./storageTypes";
+import { Session, Machine, GitStatus, InboxNotification } from "./storageTypes";
 import { createReducer, reducer, ReducerState } from "./reducer/reducer";
 import { Message } from "./typesMessage";
 import { NormalizedMessage } from "./typesRaw";
@@ -44,6 +44,7 @@ interface SessionMessages {
     messagesMap: Record<string, Message>;
     reducerState: ReducerState;
     isLoaded: boolean;
+    hasOlderMessages?: boolean; // More history exists on the server before the oldest loaded page
 }
 
 // Machine type is now imported from storageTypes - represents persisted machine data
@@ -70,6 +71,7 @@ interface StorageState {
     sessionGitStatus: Record<string, GitStatus | null>;
     machines: Record<string, Machine>;
     artifacts: Record<string, DecryptedArtifact>;  // New artifacts storage
+    notifications: Record<string, InboxNotification>;
     realtimeStatus: 'disconnected' | 'connecting' | 'connected' | 'error';
     realtimeMode: 'idle' | 'speaking';
     socketStatus: 'disconnected' | 'connecting' | 'connected' | 'error';
@@ -80,11 +82,12 @@ interface StorageState {
     todoState: TodoState | null;
     todosLoaded: boolean;
     applySessions: (sessions: (Omit<Session, 'presence'> & { presence?: "online" | number })[]) => void;
-    applyMachines: (machines: Machine[], replace?: boolean) => void;
+    applyMachines: (machines: Machine[], replaceDaemonId?: string) => void;
     applyLoaded: () => void;
     applyReady: () => void;
     applyMessages: (sessionId: string, messages: NormalizedMessage[]) => { changed: string[], hasReadyEvent: boolean };
     applyMessagesLoaded: (sessionId: string) => void;
+    applyMessagesHasOlder: (sessionId: string, hasOlderMessages: boolean) => void;
     applySettings: (settings: Settings, version: number) => void;
     applySettingsLocal: (settings: Partial<Settings>) => void;
     applyLocalSettings: (settings: Partial<LocalSettings>) => void;
@@ -92,6 +95,8 @@ interface StorageState {
     applyTodos: (todoState: TodoState) => void;
     applyGitStatus: (sessionId: string, status: GitStatus | null) => void;
     applyNativeUpdateStatus: (status: { available: boolean; updateUrl?: string } | null) => void;
+    applyNotifications: (notifications: InboxNotification[], replaceDaemonId?: string) => void;
+    applyNotificationsSeen: (ids: string[], seenAt: number) => void;
     isMutableToolCall: (sessionId: string, callId: string) => boolean;
     setRealtimeStatus: (status: 'disconnected' | 'connecting' | 'connected' | 'error') => void;
     setRealtimeMode: (mode: 'idle' | 'speaking', immediate?: boolean) => void;
@@ -228,6 +233,7 @@ export const storage = create<StorageState>()((set, get) => {
         sessions: {},
         machines: {},
         artifacts: {},  // Initialize artifacts
+        notifications: {},
         todoState: null,  // Initialize todo state
         todosLoaded: false,  // Initialize todos loaded state
         sessionsData: null,  // Legacy - to be removed
@@ -582,6 +588,22 @@ export const storage = create<StorageState>()((set, get) => {
 
             return result;
         }),
+        applyMessagesHasOlder: (sessionId: string, hasOlderMessages: boolean) => set((state) => {
+            const existingSession = state.sessionMessages[sessionId];
+            if (!existingSession || existingSession.hasOlderMessages === hasOlderMessages) {
+                return state;
+            }
+            return {
+                ...state,
+                sessionMessages: {
+                    ...state.sessionMessages,
+                    [sessionId]: {
+                        ...existingSession,
+                        hasOlderMessages
+                    }
+                }
+            };
+        }),
         applySettingsLocal: (settings: Partial<Settings>) => set((state) => {
             saveSettings(applySettings(state.settings, settings), state.settingsVersion ?? 0);
             return {
@@ -640,6 +662,34 @@ export const storage = create<StorageState>()((set, get) => {
             ...state,
             nativeUpdateStatus: status
         })),
+        applyNotifications: (notifications: InboxNotification[], replaceDaemonId?: string) => set((state) => {
+            // Either replace all notifications of one daemon (fetch) or merge updates
+            const merged: Record<string, InboxNotification> = {};
+            Object.values(state.notifications).forEach(notification => {
+                if (replaceDaemonId === undefined || notification.daemonId !== replaceDaemonId) {
+                    merged[notification.id] = notification;
+                }
+            });
+            notifications.forEach(notification => {
+                merged[notification.id] = notification;
+            });
+            return {
+                ...state,
+                notifications: merged
+            };
+        }),
+        applyNotificationsSeen: (ids: string[], seenAt: number) => set((state) => {
+            const notifications = { ...state.notifications };
+            let changed = false;
+            for (const id of ids) {
+                const notification = notifications[id];
+                if (notification && notification.seenAt === null) {
+                    notifications[id] = { ...notification, seenAt };
+                    changed = true;
+                }
+            }
+            return changed ? { ...state, notifications } : state;
+        }),
         setRealtimeStatus: (status: 'disconnected' | 'connecting' | 'connected' | 'error') => set((state) => ({
             ...state,
             realtimeStatus: status
@@ -790,13 +840,18 @@ export const storage = create<StorageState>()((set, get) => {
             // Trigger a state update to notify hooks
             set((state) => ({ ...state }));
         },
-        applyMachines: (machines: Machine[], replace: boolean = false) => set((state) => {
-            // Either replace all machines or merge updates
+        applyMachines: (machines: Machine[], replaceDaemonId?: string) => set((state) => {
+            // Either replace all machines of one daemon or merge updates
             let mergedMachines: Record<string, Machine>;
 
-            if (replace) {
-                // Replace entire machine state (used by fetchMachines)
+            if (replaceDaemonId !== undefined) {
+                // Replace the daemon's machines, keep the other daemons' ones (used by fetchMachines)
                 mergedMachines = {};
+                Object.values(state.machines).forEach(machine => {
+                    if (machine.daemonId !== replaceDaemonId) {
+                        mergedMachines[machine.id] = machine;
+                    }
+                });
                 machines.forEach(machine => {
                     mergedMachines[machine.id] = machine;
                 });
@@ -906,12 +961,13 @@ export function useSession(id: string): Session | null {
 
 const emptyArray: unknown[] = [];
 
-export function useSessionMessages(sessionId: string): { messages: Message[], isLoaded: boolean } {
+export function useSessionMessages(sessionId: string): { messages: Message[], isLoaded: boolean, hasOlderMessages: boolean } {
     return storage(useShallow((state) => {
         const session = state.sessionMessages[sessionId];
         return {
             messages: session?.messages ?? emptyArray,
-            isLoaded: session?.isLoaded ?? false
+            isLoaded: session?.isLoaded ?? false,
+            hasOlderMessages: session?.hasOlderMessages ?? false
         };
     }));
 }
@@ -961,6 +1017,22 @@ export function useMachine(machineId: string): Machine | null {
     return storage(useShallow((state) => state.machines[machineId] ?? null));
 }
 
+export function useNotifications(): InboxNotification[] {
+    return storage(useShallow((state) => {
+        return Object.values(state.notifications).sort((a, b) => b.createdAt - a.createdAt);
+    }));
+}
+
+export function useUnseenNotificationCount(): number {
+    return storage((state) => {
+        let count = 0;
+        for (const notification of Object.values(state.notifications)) {
+            if (notification.seenAt === null) count++;
+        }
+        return count;
+    });
+}
+
 export function useSessionListViewData(): SessionListViewItem[] | null {
     return storage((state) => state.isDataReady ? state.sessionListViewData : null);
 }
@@ -17,6 +17,9 @@ export const MetadataSchema = z.object({
     }).optional(),
     machineId: z.string().optional(),
     claudeSessionId: z.string().optional(), // Claude Code session ID
+    codexSessionId: z.string().optional(), // Codex session ID
+    geminiSessionId: z.string().optional(), // Gemini session ID
+    forkedFrom: z.string().optional(), // Session this one was forked from
     tools: z.array(z.string()).optional(),
     slashCommands: z.array(z.string()).optional(),
     homeDir: z.string().optional(), // User's home directory on the machine
@@ -32,7 +35,9 @@ export const AgentStateSchema = z.object({
     requests: z.record(z.string(), z.object({
         tool: z.string(),
         arguments: z.any(),
-        createdAt: z.number().nullish()
+        createdAt: z.number().nullish(),
+        timeoutAt: z.number().nullish(),
+        timeoutAction: z.enum(['deny', 'approve-read-only', 'pause']).nullish()
     })).nullish(),
     completedRequests: z.record(z.string(), z.object({
         tool: z.string(),
@@ -51,6 +56,7 @@ export type AgentState = z.infer<typeof AgentStateSchema>;
 
 export interface Session {
     id: string,
+    daemonId?: string, // Paired daemon the session lives on
     seq: number,
     createdAt: number,
     updatedAt: number,
@@ -118,6 +124,7 @@ export type MachineMetadata = z.infer<typeof MachineMetadataSchema>;
 
 export interface Machine {
     id: string;
+    daemonId?: string;  // Paired daemon that reported the machine
     seq: number;
     createdAt: number;
     updatedAt: number;
@@ -129,6 +136,22 @@ export interface Machine {
     daemonStateVersion: number;
 }
 
+//
+// Notifications
+//
+
+export interface InboxNotification {
+    id: string;
+    daemonId?: string;  // Paired daemon that emitted the notification
+    kind: 'permission' | 'turn-finished' | 'session-crashed' | 'message';
+    sessionId: string | null;
+    title: string | null;
+    body: string | null;
+    tool: string | null;
+    createdAt: number;
+    seenAt: number | null;
+}
+
 //
 // Git Status
 //
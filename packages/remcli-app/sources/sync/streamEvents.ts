@@ -0,0 +1,60 @@
+/**
+ * Per-id channels for streams the daemon pushes as ephemeral updates (remote
+ * terminals, bash jobs). sync decrypts the updates and dispatches them; the
+ * screen showing a stream subscribes by id.
+ */
+
+// Events can arrive before the screen subscribes (the first output races the
+// RPC response that carries the id), so a few early events are kept for a short while
+const UNCLAIMED_TTL_MS = 10_000;
+const UNCLAIMED_MAX_EVENTS = 200;
+
+export function createStreamChannel<E>(getId: (event: E) => string) {
+    const listeners = new Map<string, Set<(event: E) => void>>();
+    const unclaimed = new Map<string, { receivedAt: number; events: E[] }>();
+
+    function subscribe(id: string, listener: (event: E) => void): () => void {
+        let set = listeners.get(id);
+        if (!set) {
+            set = new Set();
+            listeners.set(id, set);
+        }
+        set.add(listener);
+
+        const early = unclaimed.get(id);
+        if (early) {
+            unclaimed.delete(id);
+            early.events.forEach(listener);
+        }
+
+        return () => {
+            set!.delete(listener);
+            if (set!.size === 0) {
+                listeners.delete(id);
+            }
+        };
+    }
+
+    function dispatch(event: E) {
+        const id = getId(event);
+        const set = listeners.get(id);
+        if (set) {
+            set.forEach((listener) => listener(event));
+            return;
+        }
+
+        const now = Date.now();
+        for (const [unclaimedId, entry] of unclaimed) {
+            if (now - entry.receivedAt > UNCLAIMED_TTL_MS) {
+                unclaimed.delete(unclaimedId);
+            }
+        }
+        const entry = unclaimed.get(id) ?? { receivedAt: now, events: [] };
+        if (entry.events.length < UNCLAIMED_MAX_EVENTS) {
+            entry.events.push(event);
+        }
+        unclaimed.set(id, entry);
+    }
+
+    return { subscribe, dispatch };
+}
@@ -6,19 +6,20 @@ import { decodeBase64, encodeBase64 } from '@/encryption/base64';
 import { storage } from './storage';
 import { ApiEphemeralUpdateSchema, ApiMessage, ApiUpdateContainerSchema } from './apiTypes';
 import type { ApiEphemeralActivityUpdate } from './apiTypes';
-import { Session, Machine, MachineMetadata, MachineMetadataSchema } from './storageTypes';
+import { Session, Machine, MachineMetadata, MachineMetadataSchema, InboxNotification } from './storageTypes';
 import { InvalidateSync } from '@/utils/sync';
 import { ActivityUpdateAccumulator } from './reducer/activityUpdateAccumulator';
 import { randomUUID } from '@/utils/uuid';
 import { Platform, AppState } from 'react-native';
 import { isRunningOnMac } from '@/utils/platform';
-import { NormalizedMessage, normalizeRawMessage, RawRecord } from './typesRaw';
+import { MessageAttachment, NormalizedMessage, normalizeRawMessage, RawRecord } from './typesRaw';
 import { applySettings, Settings, settingsDefaults, settingsParse, SUPPORTED_SCHEMA_VERSION } from './settings';
 import { Profile, profileParse } from './profile';
 import { loadPendingSettings, savePendingSettings } from './persistence';
 import { initializeTracking, tracking } from '@/track';
 import { parseToken } from '@/utils/parseToken';
-import { getServerUrl } from './serverConfig';
+import { getP2PConfig, getP2PDaemons, getServerUrl, removeP2PDaemon, P2PConfig } from './serverConfig';
+import { DaemonConnection, openDaemonConnection } from './daemonConnection';
 import { log } from '@/log';
 import { gitStatusSync } from './gitStatusSync';
 import { projectManager } from './projectManager';
@@ -27,11 +28,21 @@ import { Message } from './typesMessage';
 import { EncryptionCache } from './encryption/encryptionCache';
 import { systemPrompt } from './prompt/systemPrompt';
 import { fetchArtifact, fetchArtifacts, createArtifact, updateArtifact } from './apiArtifacts';
+import { fetchAttachment, uploadAttachment } from './apiAttachments';
+import { fetchNotifications, markNotificationsSeen } from './apiNotifications';
+import { presentLocalNotification } from './localNotifications';
+import { dispatchTerminalEvent, TerminalEvent } from './terminalEvents';
+import { dispatchBashJobEvent, BashJobEvent } from './bashJobEvents';
+import type { AttachmentDraft } from '@/utils/attachments';
 import { DecryptedArtifact, Artifact, ArtifactCreateRequest, ArtifactUpdateRequest } from './artifactTypes';
 import { ArtifactEncryption } from './encryption/artifactEncryption';
+import type { SessionEncryption } from './encryption/sessionEncryption';
 import { initializeTodoSync } from '../-zen/model/ops';
 import { getDefaultModel, type AIAgent } from '@/utils/agents';
 
+// Update types that belong to the account rather than to a daemon's sessions and machines
+const ACCOUNT_UPDATE_TYPES = new Set(['update-account', 'new-artifact', 'update-artifact', 'delete-artifact', 'kv-batch-update']);
+
 class Sync {
     // Spawned agents (especially in spawn mode) can take noticeable time to connect.
     private static readonly SESSION_READY_TIMEOUT_MS = 10000;
@@ -40,10 +51,14 @@ class Sync {
     serverID!: string;
     anonID!: string;
     private credentials!: AuthCredentials;
+    private primaryDaemon!: DaemonConnection;
+    private daemons = new Map<string, DaemonConnection>(); // All paired daemons, including the primary one
     public encryptionCache = new EncryptionCache();
     private sessionsSync: InvalidateSync;
     private messagesSync = new Map<string, InvalidateSync>();
     private sessionReceivedMessages = new Map<string, Set<string>>();
+    private sessionMessageCursors = new Map<string, { oldestSeq: number; newestSeq: number }>(); // Seq range fetched over REST
+    private olderMessagesLoads = new Map<string, Promise<void>>();
     private sessionDataKeys = new Map<string, Uint8Array>(); // Store session data encryption keys internally
     private machineDataKeys = new Map<string, Uint8Array>(); // Store machine data encryption keys internally
     private artifactDataKeys = new Map<string, Uint8Array>(); // Store artifact data encryption keys internally
@@ -53,7 +68,10 @@ class Sync {
     private nativeUpdateSync: InvalidateSync;
     private artifactsSync: InvalidateSync;
     private todosSync: InvalidateSync;
+    private notificationsSync: InvalidateSync;
     private activityAccumulator: ActivityUpdateAccumulator;
+    private terminalDecryption: Promise<void> = Promise.resolve(); // Keeps terminal output in order
+    private bashJobDecryption: Promise<void> = Promise.resolve(); // Keeps command output in order
     private pendingSettings: Partial<Settings> = loadPendingSettings();
     // Generic locking mechanism
     private recalculationLockCount = 0;
@@ -67,6 +85,7 @@ class Sync {
         this.nativeUpdateSync = new InvalidateSync(this.fetchNativeUpdate);
         this.artifactsSync = new InvalidateSync(this.fetchArtifactsList);
         this.todosSync = new InvalidateSync(this.fetchTodos);
+        this.notificationsSync = new InvalidateSync(this.fetchNotifications);
 
         this.activityAccumulator = new ActivityUpdateAccumulator(this.flushActivityUpdates.bind(this), 2000);
 
@@ -81,6 +100,7 @@ class Sync {
                 log.log('📱 App became active: Invalidating artifacts sync');
                 this.artifactsSync.invalidate();
                 this.todosSync.invalidate();
+                this.notificationsSync.invalidate();
             } else {
                 log.log(`📱 App state changed to: ${nextAppState}`);
             }
@@ -112,8 +132,35 @@ class Sync {
 
     async #init() {
 
+        // Drop connections of a previous login
+        for (const daemon of this.daemons.values()) {
+            if (daemon.socket !== apiSocket) {
+                daemon.socket.disconnect();
+            }
+        }
+        this.daemons.clear();
+
+        // The primary daemon holds the account; other paired daemons only contribute sessions and machines
+        this.primaryDaemon = {
+            id: getP2PConfig()?.id ?? 'primary',
+            endpoint: getServerUrl(),
+            token: this.credentials.token,
+            encryption: this.encryption,
+            socket: apiSocket
+        };
+        this.daemons.set(this.primaryDaemon.id, this.primaryDaemon);
+
         // Subscribe to updates
-        this.subscribeToUpdates();
+        this.subscribeToUpdates(this.primaryDaemon);
+
+        // Connect the other paired daemons
+        for (const config of getP2PDaemons().slice(1)) {
+            try {
+                await this.connectDaemon(config);
+            } catch (error) {
+                console.error(`Failed to connect to daemon ${config.id}:`, error);
+            }
+        }
 
         // Sync initial PostHog opt-out state with stored settings
         if (tracking) {
@@ -134,6 +181,7 @@ class Sync {
         this.nativeUpdateSync.invalidate();
         this.artifactsSync.invalidate();
         this.todosSync.invalidate();
+        this.notificationsSync.invalidate();
         log.log('🔄 #init: All syncs invalidated, including artifacts and todos');
 
         // Wait for both sessions and machines to load, then mark as ready
@@ -167,10 +215,11 @@ class Sync {
     }
 
 
-    async sendMessage(sessionId: string, text: string, displayText?: string) {
+    async sendMessage(sessionId: string, text: string, displayText?: string, attachmentDrafts?: AttachmentDraft[]) {
 
         // Get encryption
-        const encryption = this.encryption.getSessionEncryption(sessionId);
+        const daemon = this.daemonForSession(sessionId);
+        const encryption = daemon.encryption.getSessionEncryption(sessionId);
         if (!encryption) { // Should never happen
             console.error(`Session ${sessionId} not found`);
             return;
@@ -215,12 +264,21 @@ class Sync {
         const model: string | null = modelMode !== 'default' ? modelMode : null;
         const fallbackModel: string | null = null;
 
+        // Upload attachments first; the message only references them by id
+        const attachments: MessageAttachment[] = [];
+        for (const draft of attachmentDrafts ?? []) {
+            const blob = await encryption.encryptRaw({ name: draft.name, mimeType: draft.mimeType, data: draft.data });
+            const uploaded = await uploadAttachment(daemon, sessionId, blob);
+            attachments.push({ id: uploaded.id, name: draft.name, mimeType: draft.mimeType, size: draft.size });
+        }
+
         // Create user message content with metadata
         const content: RawRecord = {
             role: 'user',
             content: {
                 type: 'text',
-                text
+                text,
+                ...(attachments.length > 0 && { attachments })
             },
             meta: {
                 sentFrom,
@@ -246,7 +304,7 @@ class Sync {
         }
 
         // Send message with optional permission mode and source identifier
-        apiSocket.send('message', {
+        daemon.socket.send('message', {
             sid: sessionId,
             message: encryptedRawRecord,
             localId,
@@ -287,10 +345,25 @@ class Sync {
     private fetchSessions = async () => {
         if (!this.credentials) return;
 
-        const API_ENDPOINT = getServerUrl();
-        const response = await fetch(`${API_ENDPOINT}/v1/sessions`, {
+        const daemons = [...this.daemons.values()];
+        const results = await Promise.allSettled(daemons.map((daemon) => this.fetchDaemonSessions(daemon)));
+        for (let i = 0; i < daemons.length; i++) {
+            const result = results[i];
+            if (result.status === 'fulfilled') {
+                continue;
+            }
+            // Other daemons may be offline; they are refetched when their socket reconnects
+            if (daemons[i] === this.primaryDaemon) {
+                throw result.reason;
+            }
+            console.warn(`Failed to fetch sessions from daemon ${daemons[i].id}:`, result.reason);
+        }
+    }
+
+    private fetchDaemonSessions = async (daemon: DaemonConnection) => {
+        const response = await fetch(`${daemon.endpoint}/v1/sessions`, {
             headers: {
-                'Authorization': `Bearer ${this.credentials.token}`,
+                'Authorization': `Bearer ${daemon.token}`,
                 'Content-Type': 'application/json'
             }
         });
@@ -320,7 +393,7 @@ class Sync {
         const sessionKeys = new Map<string, Uint8Array | null>();
         for (const session of sessions) {
             if (session.dataEncryptionKey) {
-                let decrypted = await this.encryption.decryptEncryptionKey(session.dataEncryptionKey);
+                let decrypted = await daemon.encryption.decryptEncryptionKey(session.dataEncryptionKey);
                 if (!decrypted) {
                     console.error(`Failed to decrypt data encryption key for session ${session.id}`);
                     continue;
@@ -330,13 +403,13 @@ class Sync {
                 sessionKeys.set(session.id, null);
             }
         }
-        await this.encryption.initializeSessions(sessionKeys);
+        await daemon.encryption.initializeSessions(sessionKeys);
 
         // Decrypt sessions
         let decryptedSessions: (Omit<Session, 'presence'> & { presence?: "online" | number })[] = [];
         for (const session of sessions) {
             // Get session encryption (should always exist after initialization)
-            const sessionEncryption = this.encryption.getSessionEncryption(session.id);
+            const sessionEncryption = daemon.encryption.getSessionEncryption(session.id);
             if (!sessionEncryption) {
                 console.error(`Session encryption not found for ${session.id} - this should never happen`);
                 continue;
@@ -351,6 +424,7 @@ class Sync {
             // Put it all together
             const processedSession = {
                 ...session,
+                daemonId: daemon.id,
                 thinking: false,
                 thinkingAt: 0,
                 metadata,
@@ -361,7 +435,7 @@ class Sync {
 
         // Apply to storage
         this.applySessions(decryptedSessions);
-        log.log(`📥 fetchSessions completed - processed ${decryptedSessions.length} sessions`);
+        log.log(`📥 fetchSessions completed for daemon ${daemon.id} - processed ${decryptedSessions.length} sessions`);
 
     }
 
@@ -373,6 +447,102 @@ class Sync {
         return this.sessionsSync.invalidateAndAwait();
     }
 
+    //
+    // Paired daemons
+    //
+
+    /**
+     * Connect to an additional paired daemon and merge its sessions and machines
+     */
+    async addDaemon(config: P2PConfig) {
+        // Re-pairing replaces the connection, the token may have changed
+        this.daemons.get(config.id)?.socket.disconnect();
+        await this.connectDaemon(config);
+        this.sessionsSync.invalidate();
+        this.machinesSync.invalidate();
+        this.notificationsSync.invalidate();
+    }
+
+    /**
+     * Disconnect a secondary daemon, forget its pairing and drop its sessions and machines
+     */
+    removeDaemon(daemonId: string) {
+        const daemon = this.daemons.get(daemonId);
+        if (!daemon || daemon === this.primaryDaemon) {
+            return;
+        }
+        daemon.socket.disconnect();
+        this.daemons.delete(daemonId);
+        removeP2PDaemon(daemonId);
+
+        for (const session of Object.values(storage.getState().sessions)) {
+            if (session.daemonId === daemonId) {
+                this.forgetSession(daemon, session.id);
+            }
+        }
+        storage.getState().applyMachines([], daemonId);
+        storage.getState().applyNotifications([], daemonId);
+    }
+
+    isPrimaryDaemon(daemonId: string | undefined): boolean {
+        return !daemonId || daemonId === this.primaryDaemon.id;
+    }
+
+    /**
+     * Connection of the daemon a session lives on (the primary daemon if it is not known yet)
+     */
+    daemonForSession(sessionId: string): DaemonConnection {
+        const daemonId = storage.getState().sessions[sessionId]?.daemonId;
+        return (daemonId && this.daemons.get(daemonId)) || this.primaryDaemon;
+    }
+
+    daemonForMachine(machineId: string): DaemonConnection {
+        const daemonId = storage.getState().machines[machineId]?.daemonId;
+        return (daemonId && this.daemons.get(daemonId)) || this.primaryDaemon;
+    }
+
+    getSessionEncryption(sessionId: string) {
+        return this.daemonForSession(sessionId).encryption.getSessionEncryption(sessionId);
+    }
+
+    getMachineEncryption(machineId: string) {
+        return this.daemonForMachine(machineId).encryption.getMachineEncryption(machineId);
+    }
+
+    private connectDaemon = async (config: P2PConfig) => {
+        const daemon = await openDaemonConnection(config);
+        this.daemons.set(daemon.id, daemon);
+        this.subscribeToUpdates(daemon);
+    }
+
+    private forgetSession = (daemon: DaemonConnection, sessionId: string) => {
+        // Remove session from storage
+        storage.getState().deleteSession(sessionId);
+
+        // Remove encryption keys from memory
+        daemon.encryption.removeSessionEncryption(sessionId);
+
+        // Remove from project manager
+        projectManager.removeSession(sessionId);
+
+        // Clear any cached git status
+        gitStatusSync.clearForSession(sessionId);
+    }
+
+    /**
+     * Download and decrypt an attachment of a session message, returning its base64 data
+     */
+    async fetchAttachmentData(sessionId: string, attachmentId: string): Promise<string | null> {
+        const daemon = this.daemonForSession(sessionId);
+        const encryption = daemon.encryption.getSessionEncryption(sessionId);
+        if (!encryption) {
+            return null;
+        }
+        const blob = await fetchAttachment(daemon, sessionId, attachmentId);
+        const payload = await encryption.decryptRaw(blob);
+        return typeof payload?.data === 'string' ? payload.data : null;
+    }
+
     public getCredentials() {
         return this.credentials;
     }
@@ -657,14 +827,63 @@ class Sync {
         }
     }
 
+    /**
+     * Mark notifications as seen (all of them when `ids` is omitted) on the daemons that emitted them
+     */
+    async markNotificationsSeen(ids?: string[]) {
+        const notifications = Object.values(storage.getState().notifications)
+            .filter((n) => n.seenAt === null && (!ids || ids.includes(n.id)));
+        if (notifications.length === 0) {
+            return;
+        }
+        storage.getState().applyNotificationsSeen(notifications.map((n) => n.id), Date.now());
+
+        const byDaemon = new Map<DaemonConnection, string[]>();
+        for (const notification of notifications) {
+            const daemon = (notification.daemonId && this.daemons.get(notification.daemonId)) || this.primaryDaemon;
+            byDaemon.set(daemon, [...(byDaemon.get(daemon) ?? []), notification.id]);
+        }
+        await Promise.all([...byDaemon].map(async ([daemon, daemonIds]) => {
+            try {
+                await markNotificationsSeen(daemon, ids ? daemonIds : undefined);
+            } catch (error) {
+                console.error(`Failed to mark notifications seen on daemon ${daemon.id}:`, error);
+            }
+        }));
+    }
+
+    private fetchNotifications = async () => {
+        if (!this.credentials) return;
+
+        const daemons = [...this.daemons.values()];
+        const results = await Promise.allSettled(daemons.map(async (daemon) => {
+            const notifications = await fetchNotifications(daemon);
+            storage.getState().applyNotifications(notifications.map((n) => ({ ...n, daemonId: daemon.id })), daemon.id);
+        }));
+        results.forEach((result, i) => {
+            if (result.status === 'rejected') {
+                console.error(`Failed to fetch notifications from daemon ${daemons[i].id}:`, result.reason);
+            }
+        });
+    }
+
     private fetchMachines = async () => {
         if (!this.credentials) return;
 
-        console.log('📊 Sync: Fetching machines...');
-        const API_ENDPOINT = getServerUrl();
-        const response = await fetch(`${API_ENDPOINT}/v1/machines`, {
+        const daemons = [...this.daemons.values()];
+        const results = await Promise.allSettled(daemons.map((daemon) => this.fetchDaemonMachines(daemon)));
+        results.forEach((result, i) => {
+            if (result.status === 'rejected') {
+                console.error(`Failed to fetch machines from daemon ${daemons[i].id}:`, result.reason);
+            }
+        });
+    }
+
+    private fetchDaemonMachines = async (daemon: DaemonConnection) => {
+        console.log(`📊 Sync: Fetching machines from daemon ${daemon.id}...`);
+        const response = await fetch(`${daemon.endpoint}/v1/machines`, {
             headers: {
-                'Authorization': `Bearer ${this.credentials.token}`,
+                'Authorization': `Bearer ${daemon.token}`,
                 'Content-Type': 'application/json'
             }
         });
@@ -694,7 +913,7 @@ class Sync {
         const machineKeysMap = new Map<string, Uint8Array | null>();
         for (const machine of machines) {
             if (machine.dataEncryptionKey) {
-                const decryptedKey = await this.encryption.decryptEncryptionKey(machine.dataEncryptionKey);
+                const decryptedKey = await daemon.encryption.decryptEncryptionKey(machine.dataEncryptionKey);
                 if (!decryptedKey) {
                     console.error(`Failed to decrypt data encryption key for machine ${machine.id}`);
                     continue;
@@ -707,14 +926,14 @@ class Sync {
         }
 
         // Initialize machine encryptions
-        await this.encryption.initializeMachines(machineKeysMap);
+        await daemon.encryption.initializeMachines(machineKeysMap);
 
         // Process all machines first, then update state once
         const decryptedMachines: Machine[] = [];
 
         for (const machine of machines) {
             // Get machine-specific encryption (might exist from previous initialization)
-            const machineEncryption = this.encryption.getMachineEncryption(machine.id);
+            const machineEncryption = daemon.encryption.getMachineEncryption(machine.id);
             if (!machineEncryption) {
                 console.error(`Machine encryption not found for ${machine.id} - this should never happen`);
                 continue;
@@ -748,6 +967,7 @@ class Sync {
 
                 decryptedMachines.push({
                     id: machine.id,
+                    daemonId: daemon.id,
                     seq: machine.seq,
                     createdAt: machine.createdAt,
                     updatedAt: machine.updatedAt,
@@ -763,6 +983,7 @@ class Sync {
                 // Still add the machine with null metadata
                 decryptedMachines.push({
                     id: machine.id,
+                    daemonId: daemon.id,
                     seq: machine.seq,
                     createdAt: machine.createdAt,
                     updatedAt: machine.updatedAt,
@@ -776,9 +997,9 @@ class Sync {
             }
         }
 
-        // Replace entire machine state with fetched machines
-        storage.getState().applyMachines(decryptedMachines, true);
-        log.log(`🖥️ fetchMachines completed - processed ${decryptedMachines.length} machines`);
+        // Replace the daemon's machines with the fetched ones
+        storage.getState().applyMachines(decryptedMachines, daemon.id);
+        log.log(`🖥️ fetchMachines completed for daemon ${daemon.id} - processed ${decryptedMachines.length} machines`);
     }
 
     private fetchTodos = async () => {
@@ -1071,15 +1292,100 @@ class Sync {
 
         // Get encryption - may not be ready yet if session was just created
         // Throwing an error triggers backoff retry in InvalidateSync
-        const encryption = this.encryption.getSessionEncryption(sessionId);
+        const encryption = this.getSessionEncryption(sessionId);
         if (!encryption) {
             log.log(`💬 fetchMessages: Session encryption not ready for ${sessionId}, will retry`);
             throw new Error(`Session encryption not ready for ${sessionId}`);
         }
 
-        // Request
-        const response = await apiSocket.request(`/v1/sessions/${sessionId}/messages`);
+        const cursor = this.sessionMessageCursors.get(sessionId);
+        let processed = 0;
+        if (!cursor) {
+            // First load: the newest page; older pages are loaded on scroll
+            const page = await this.requestMessagePage(sessionId, {});
+            processed += await this.applyMessagePage(sessionId, encryption, page.messages);
+            storage.getState().applyMessagesHasOlder(sessionId, page.hasMore);
+        } else {
+            // Catch up from the newest message we have, so long gaps are not truncated to one page
+            let hasMore = true;
+            while (hasMore) {
+                const page = await this.requestMessagePage(sessionId, { after_seq: this.sessionMessageCursors.get(sessionId)!.newestSeq });
+                processed += await this.applyMessagePage(sessionId, encryption, page.messages);
+                hasMore = page.hasMore && page.messages.length > 0;
+            }
+        }
+
+        storage.getState().applyMessagesLoaded(sessionId);
+        log.log(`💬 fetchMessages completed for session ${sessionId} - processed ${processed} messages`);
+    }
+
+    /**
+     * Load the page of messages before the oldest one fetched so far (chat scrolled to the top)
+     */
+    loadOlderMessages = (sessionId: string): Promise<void> => {
+        const inFlight = this.olderMessagesLoads.get(sessionId);
+        if (inFlight) {
+            return inFlight;
+        }
+
+        const load = (async () => {
+            const encryption = this.getSessionEncryption(sessionId);
+            const cursor = this.sessionMessageCursors.get(sessionId);
+            if (!encryption || !cursor || !storage.getState().sessionMessages[sessionId]?.hasOlderMessages) {
+                return;
+            }
+
+            const page = await this.requestMessagePage(sessionId, { before_seq: cursor.oldestSeq });
+            const processed = await this.applyMessagePage(sessionId, encryption, page.messages);
+            storage.getState().applyMessagesHasOlder(sessionId, page.hasMore);
+            log.log(`💬 loadOlderMessages for session ${sessionId} - processed ${processed} messages`);
+        })();
+
+        this.olderMessagesLoads.set(sessionId, load);
+        return load.finally(() => {
+            this.olderMessagesLoads.delete(sessionId);
+        });
+    }
+
+    private requestMessagePage = async (sessionId: string, query: { before_seq?: number; after_seq?: number }): Promise<{ messages: ApiMessage[]; hasMore: boolean }> => {
+        const params = new URLSearchParams();
+        if (query.before_seq !== undefined) {
+            params.set('before_seq', String(query.before_seq));
+        }
+        if (query.after_seq !== undefined) {
+            params.set('after_seq', String(query.after_seq));
+        }
+        const search = params.toString();
+
+        const response = await this.daemonForSession(sessionId).socket.request(`/v1/sessions/${sessionId}/messages${search ? `?${search}` : ''}`);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch messages: ${response.status}`);
+        }
         const data = await response.json();
+        return {
+            messages: data.messages as ApiMessage[],
+            // Daemons without pagination return the latest page only
+            hasMore: data.hasMore === true
+        };
+    }
+
+    /**
+     * Decrypt, normalize and apply a page of messages (newest first, as returned by the server).
+     * Returns the number of messages applied.
+     */
+    private applyMessagePage = async (sessionId: string, encryption: SessionEncryption, messages: ApiMessage[]): Promise<number> => {
+        // Track the fetched seq range for pagination
+        if (messages.length > 0) {
+            const seqs = messages.map((m) => m.seq);
+            const cursor = this.sessionMessageCursors.get(sessionId);
+            this.sessionMessageCursors.set(sessionId, {
+                oldestSeq: Math.min(cursor?.oldestSeq ?? Infinity, ...seqs),
+                newestSeq: Math.max(cursor?.newestSeq ?? -Infinity, ...seqs)
+            });
+        } else if (!this.sessionMessageCursors.has(sessionId)) {
+            // Empty session — later fetches catch up from the start
+            this.sessionMessageCursors.set(sessionId, { oldestSeq: 0, newestSeq: 0 });
+        }
 
         // Collect existing messages
         let eixstingMessages = this.sessionReceivedMessages.get(sessionId);
@@ -1094,7 +1400,7 @@ class Sync {
 
         // Filter out existing messages and prepare for batch decryption
         const messagesToDecrypt: ApiMessage[] = [];
-        for (const msg of [...data.messages as ApiMessage[]].reverse()) {
+        for (const msg of [...messages].reverse()) {
             if (!eixstingMessages.has(msg.id)) {
                 messagesToDecrypt.push(msg);
             }
@@ -1121,26 +1427,28 @@ class Sync {
 
         // Apply to storage
         this.applyMessages(sessionId, normalizedMessages);
-        storage.getState().applyMessagesLoaded(sessionId);
-        log.log(`💬 fetchMessages completed for session ${sessionId} - processed ${normalizedMessages.length} messages`);
+        return normalizedMessages.length;
     }
 
-    private subscribeToUpdates = () => {
+    private subscribeToUpdates = (daemon: DaemonConnection) => {
         // Subscribe to message updates
-        apiSocket.onMessage('update', this.handleUpdate.bind(this));
-        apiSocket.onMessage('ephemeral', this.handleEphemeralUpdate.bind(this));
+        daemon.socket.onMessage('update', (update) => this.handleUpdate(daemon, update));
+        daemon.socket.onMessage('ephemeral', this.handleEphemeralUpdate.bind(this));
 
         // Subscribe to connection state changes
-        apiSocket.onReconnected(() => {
-            log.log('🔌 Socket reconnected');
+        daemon.socket.onReconnected(() => {
+            log.log(`🔌 Socket reconnected (daemon ${daemon.id})`);
             this.sessionsSync.invalidate();
             this.machinesSync.invalidate();
-            log.log('🔌 Socket reconnected: Invalidating artifacts sync');
-            this.artifactsSync.invalidate();
+            this.notificationsSync.invalidate();
+            if (daemon === this.primaryDaemon) {
+                log.log('🔌 Socket reconnected: Invalidating artifacts sync');
+                this.artifactsSync.invalidate();
+            }
             const sessionsData = storage.getState().sessionsData;
             if (sessionsData) {
                 for (const item of sessionsData) {
-                    if (typeof item !== 'string') {
+                    if (typeof item !== 'string' && this.daemonForSession(item.id) === daemon) {
                         this.messagesSync.get(item.id)?.invalidate();
                         // Also invalidate git status on reconnection
                         gitStatusSync.invalidate(item.id);
@@ -1150,7 +1458,7 @@ class Sync {
         });
     }
 
-    private handleUpdate = async (update: unknown) => {
+    private handleUpdate = async (daemon: DaemonConnection, update: unknown) => {
         console.log('🔄 Sync: handleUpdate called with:', JSON.stringify(update).substring(0, 300));
         const validatedUpdate = ApiUpdateContainerSchema.safeParse(update);
         if (!validatedUpdate.success) {
@@ -1161,10 +1469,15 @@ class Sync {
         const updateData = validatedUpdate.data;
         console.log(`🔄 Sync: Validated update type: ${updateData.body.t}`);
 
+        // Account-level updates (profile, settings, artifacts, KV) only come from the primary daemon
+        if (daemon !== this.primaryDaemon && ACCOUNT_UPDATE_TYPES.has(updateData.body.t)) {
+            return;
+        }
+
         if (updateData.body.t === 'new-message') {
 
             // Get encryption
-            const encryption = this.encryption.getSessionEncryption(updateData.body.sid);
+            const encryption = daemon.encryption.getSessionEncryption(updateData.body.sid);
             if (!encryption) { // Should never happen
                 console.error(`Session ${updateData.body.sid} not found`);
                 this.fetchSessions(); // Just fetch sessions again
@@ -1240,25 +1553,14 @@ class Sync {
         } else if (updateData.body.t === 'delete-session') {
             log.log('🗑️ Delete session update received');
             const sessionId = updateData.body.sid;
-
-            // Remove session from storage
-            storage.getState().deleteSession(sessionId);
-
-            // Remove encryption keys from memory
-            this.encryption.removeSessionEncryption(sessionId);
-
-            // Remove from project manager
-            projectManager.removeSession(sessionId);
-
-            // Clear any cached git status
-            gitStatusSync.clearForSession(sessionId);
+            this.forgetSession(daemon, sessionId);
 
             log.log(`🗑️ Session ${sessionId} deleted from local storage`);
         } else if (updateData.body.t === 'update-session') {
             const session = storage.getState().sessions[updateData.body.id];
             if (session) {
                 // Get session encryption
-                const sessionEncryption = this.encryption.getSessionEncryption(updateData.body.id);
+                const sessionEncryption = daemon.encryption.getSessionEncryption(updateData.body.id);
                 if (!sessionEncryption) {
                     console.error(`Session encryption not found for ${updateData.body.id} - this should never happen`);
                     return;
@@ -1341,6 +1643,12 @@ class Sync {
 
                     storage.getState().applySettings(parsedSettings, accountUpdate.settings.version);
                     log.log(`📋 Settings synced from server (schema v${settingsSchemaVersion}, version ${accountUpdate.settings.version})`);
+
+                    // Local changes not pushed yet stay on top and are pushed against the new version
+                    if (Object.keys(this.pendingSettings).length > 0) {
+                        storage.getState().applySettingsLocal(this.pendingSettings);
+                        this.settingsSync.invalidate();
+                    }
                 } catch (error) {
                     console.error('❌ Failed to process settings update:', error);
                     // Don't crash on settings sync errors, just log
@@ -1354,6 +1662,7 @@ class Sync {
             // Create or update machine with all required fields
             const updatedMachine: Machine = {
                 id: machineId,
+                daemonId: daemon.id,
                 seq: updateData.seq,
                 createdAt: machine?.createdAt ?? updateData.createdAt,
                 updatedAt: updateData.createdAt,
@@ -1366,7 +1675,7 @@ class Sync {
             };
 
             // Get machine-specific encryption (might not exist if machine wasn't initialized)
-            const machineEncryption = this.encryption.getMachineEncryption(machineId);
+            const machineEncryption = daemon.encryption.getMachineEncryption(machineId);
             if (!machineEncryption) {
                 console.error(`Machine encryption not found for ${machineId} - cannot decrypt updates`);
                 return;
@@ -1509,6 +1818,15 @@ class Sync {
             
             // Remove encryption key from memory
             this.artifactDataKeys.delete(artifactId);
+        } else if (updateData.body.t === 'notification') {
+            const notification: InboxNotification = { ...updateData.body.notification, daemonId: daemon.id };
+            log.log(`🔔 Received ${notification.kind} notification ${notification.id}`);
+            storage.getState().applyNotifications([notification]);
+            if (notification.seenAt === null) {
+                presentLocalNotification(notification);
+            }
+        } else if (updateData.body.t === 'notifications-seen') {
+            storage.getState().applyNotificationsSeen(updateData.body.ids, updateData.body.seenAt);
         } else if (updateData.body.t === 'kv-batch-update') {
             log.log('📝 Received kv-batch-update');
             const kvUpdate = updateData.body;
@@ -1592,6 +1910,38 @@ class Sync {
             }
         }
 
+        // Remote terminal output, encrypted with the machine key
+        if (updateData.type === 'terminal') {
+            const machineEncryption = this.getMachineEncryption(updateData.machineId);
+            if (machineEncryption) {
+                this.terminalDecryption = this.terminalDecryption
+                    .then(() => machineEncryption.decryptRaw(updateData.payload))
+                    .then((event: TerminalEvent | null) => {
+                        if (event && event.terminalId === updateData.terminalId) {
+                            dispatchTerminalEvent(event);
+                        }
+                    })
+                    .catch((error) => console.warn('Failed to decrypt terminal output:', error));
+            }
+        }
+
+        // Streaming command output, encrypted with the key of the session or machine running it
+        if (updateData.type === 'bash-job') {
+            const encryption = updateData.sessionId
+                ? this.getSessionEncryption(updateData.sessionId)
+                : updateData.machineId ? this.getMachineEncryption(updateData.machineId) : null;
+            if (encryption) {
+                this.bashJobDecryption = this.bashJobDecryption
+                    .then(() => encryption.decryptRaw(updateData.payload))
+                    .then((event: BashJobEvent | null) => {
+                        if (event) {
+                            dispatchBashJobEvent(event);
+                        }
+                    })
+                    .catch((error) => console.warn('Failed to decrypt command output:', error));
+            }
+        }
+
         // daemon-status ephemeral updates are deprecated, machine status is handled via machine-activity
     }
 
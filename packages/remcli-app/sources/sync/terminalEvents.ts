@@ -0,0 +1,16 @@
+/**
+ * Output of remote terminals (see remcli-cli src/daemon/terminals.ts).
+ * The daemon streams it as `terminal` ephemeral updates encrypted with the
+ * machine key; sync decrypts them and the terminal screen subscribes by id.
+ */
+
+import { createStreamChannel } from './streamEvents';
+
+export type TerminalEvent =
+    | { terminalId: string; type: 'output'; data: string }
+    | { terminalId: string; type: 'exit' };
+
+const channel = createStreamChannel<TerminalEvent>((event) => event.terminalId);
+
+export const subscribeToTerminal = channel.subscribe;
+export const dispatchTerminalEvent = channel.dispatch;
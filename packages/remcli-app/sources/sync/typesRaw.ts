@@ -209,7 +209,7 @@ const rawAgentRecordSchema = z.discriminatedUnion('type', [z.object({
 }), z.object({
     // ACP (Agent Communication Protocol) - unified format for all agent providers
     type: z.literal('acp'),
-    provider: z.enum(['gemini', 'codex', 'claude', 'opencode']),
+    provider: z.enum(['gemini', 'codex', 'claude', 'opencode', 'acp']),
     data: z.discriminatedUnion('type', [
         // Core message types
         z.object({ type: z.literal('reasoning'), message: z.string() }),
@@ -306,6 +306,15 @@ function preprocessMessageContent(data: any): any {
     return data;
 }
 
+// File attached to a user message; the encrypted blob is stored by the daemon next to the session
+const rawAttachmentSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    mimeType: z.string(),
+    size: z.number(),
+});
+export type MessageAttachment = z.infer<typeof rawAttachmentSchema>;
+
 const rawRecordSchema = z.preprocess(
     preprocessMessageContent,
     z.discriminatedUnion('role', [
@@ -318,7 +327,8 @@ const rawRecordSchema = z.preprocess(
             role: z.literal('user'),
             content: z.object({
                 type: z.literal('text'),
-                text: z.string()
+                text: z.string(),
+                attachments: z.array(rawAttachmentSchema).optional()
             }),
             meta: MessageMetaSchema.optional()
         })
@@ -382,6 +392,7 @@ export type NormalizedMessage = ({
     content: {
         type: 'text';
         text: string;
+        attachments?: MessageAttachment[];
     }
 } | {
     role: 'agent'
@@ -27,6 +27,16 @@ export const en = {
         emptyTitle: 'Empty Inbox',
         emptyDescription: 'Connect with friends to start sharing sessions',
         updates: 'Updates',
+        emptyNotificationsDescription: 'Alerts from your sessions show up here: permission requests, finished turns and crashes.',
+        new: 'New',
+        earlier: 'Earlier',
+        markAllSeen: 'Mark all as seen',
+        permissionTitle: ({ tool }: { tool: string }) => `Permission needed: ${tool}`,
+        permissionBody: 'A session is waiting for approval',
+        turnFinishedTitle: 'Turn finished',
+        turnFinishedBody: 'A session is ready for your next message',
+        sessionCrashedTitle: 'Session crashed',
+        sessionCrashedBody: 'A session stopped unexpectedly',
     },
 
     common: {
@@ -135,6 +145,8 @@ export const en = {
         usageSubtitle: 'View your API usage and costs',
         profiles: 'Profiles',
         profilesSubtitle: 'Manage environment variable profiles for sessions',
+        devices: 'Devices',
+        devicesSubtitle: 'Manage phones and browsers paired with this computer',
 
         // Dynamic settings messages
         accountConnected: ({ service }: { service: string }) => `${service} account connected`,
@@ -298,8 +310,21 @@ export const en = {
         viewAll: 'View all sessions',
     },
 
+    sessionSearch: {
+        title: 'Search Messages',
+        placeholder: 'Search messages',
+        hint: 'Searches the messages loaded in the app and the Claude, Codex and Gemini logs on your online machines.',
+        noResults: 'No messages found',
+        results: ({ count }: { count: number }) => `${count} ${count === 1 ? 'result' : 'results'}`,
+    },
+
     session: {
         inputPlaceholder: 'Type a message ...',
+        attach: 'Attach',
+        attachPhoto: 'Photo',
+        attachFile: 'File',
+        attachmentTooLarge: ({ size }: { size: number }) => `Attachments must be ${size} MB or smaller`,
+        attachmentFailed: 'Could not attach the file',
     },
 
     commandPalette: {
@@ -319,6 +344,9 @@ export const en = {
         claudeCodeSessionIdCopied: 'Claude Code Session ID copied to clipboard',
         aiProvider: 'AI Provider',
         failedToCopyClaudeCodeSessionId: 'Failed to copy Claude Code Session ID',
+        forks: 'Forks',
+        forksFooter: 'Sessions forked from one another. Tap one to open it.',
+        thisSession: 'This session',
         metadataCopied: 'Metadata copied to clipboard',
         failedToCopyMetadata: 'Failed to copy metadata',
         failedToKillSession: 'Failed to kill session',
@@ -330,6 +358,8 @@ export const en = {
         quickActions: 'Quick Actions',
         viewMachine: 'View Machine',
         viewMachineSubtitle: 'View machine details and sessions',
+        permissionRules: 'Permission Rules',
+        permissionRulesSubtitle: 'Allow, ask or deny tools in this project',
         killSessionSubtitle: 'Immediately terminate the session',
         archiveSessionSubtitle: 'Archive this session and stop it',
         metadata: 'Metadata',
@@ -564,6 +594,19 @@ export const en = {
         }
     },
 
+    settingsDevices: {
+        pairedDevices: 'Paired Devices',
+        footer: 'Every device that scans the QR code gets its own access. Revoke a lost device here — other devices stay connected.',
+        noDevices: 'No paired devices',
+        thisDevice: ({ name }: { name: string }) => `${name} (this device)`,
+        lastSeen: ({ time }: { time: string }) => `Last seen ${time}`,
+        revoke: 'Revoke',
+        revokeTitle: ({ name }: { name: string }) => `Revoke ${name}?`,
+        revokeConfirm: 'This device will be disconnected and must scan a new QR code to reconnect.',
+        revokeCurrentConfirm: 'This is the device you are using. You will be signed out and must scan a new QR code to reconnect.',
+        revokeFailed: 'Failed to revoke device',
+    },
+
     settingsAccount: {
         // Account settings screen
         accountInformation: 'Account Information',
@@ -735,6 +778,17 @@ export const en = {
         lastSeen: 'Last Seen',
         never: 'Never',
         metadataVersion: 'Metadata Version',
+        auditLog: 'Audit Log',
+        auditLogFooter: 'Recent daemon events: RPC calls, sessions started and stopped, permission decisions and rejected connections. Run `remcli daemon audit` for the full log.',
+        auditLogEmpty: 'No events recorded yet',
+        auditRpc: ({ method }: { method: string }) => `RPC: ${method}`,
+        auditSessionSpawn: 'Session started',
+        auditSessionStop: 'Session stopped',
+        auditPermission: ({ tool }: { tool: string }) => `Permission: ${tool}`,
+        auditAuthFailure: 'Authentication failed',
+        forgetDaemon: 'Forget Daemon',
+        forgetDaemonSubtitle: 'Disconnect this daemon and hide its machines and sessions',
+        forgetDaemonConfirm: 'Its sessions keep running on that computer. Scan its QR code again to reconnect.',
         untitledSession: 'Untitled Session',
         back: 'Back',
     },
@@ -744,6 +798,10 @@ export const en = {
         unknownEvent: 'Unknown event',
         usageLimitUntil: ({ time }: { time: string }) => `Usage limit reached until ${time}`,
         unknownTime: 'unknown time',
+        forkFromHere: 'Fork from here',
+        forkFromHereConfirm: 'Start a new session that picks up the conversation just before this message. This session stays as it is.',
+        fork: 'Fork',
+        forkFailed: 'Failed to fork the session',
     },
 
     codex: {
@@ -763,6 +821,86 @@ export const en = {
         }
     },
 
+    permissionRules: {
+        // Per-project permission rules (app/(app)/session/[id]/permissions.tsx)
+        title: 'Permission Rules',
+        yesForProject: 'Yes, always allow in this project',
+        allow: 'Allow',
+        ask: 'Ask',
+        deny: 'Deny',
+        empty: 'No rules yet',
+        emptyDescription: 'Rules are checked before a permission request reaches your phone. Use "always allow in this project" on a request or add rules below.',
+        addRule: 'Add rule',
+        addTitle: ({ action }: { action: string }) => `${action} rule`,
+        addHelp: 'Bash(npm test*) for commands, Edit(src/**) for files, path:secrets/** for any tool touching those files, mcp:github for an MCP server, or a tool name.',
+        add: 'Add',
+        invalidRule: 'This rule could not be read. Check the syntax and try again.',
+        saveFailed: 'Failed to save the rules',
+        loadFailed: 'Could not load the rules. Pull to refresh once the machine is online.',
+        removeTitle: 'Remove rule?',
+        remove: 'Remove',
+        footer: ({ path }: { path: string }) => `Saved in ${path}. Deny wins over ask, ask over allow.`,
+    },
+
+    schedules: {
+        // Scheduled sessions (machine/[id].tsx and machine/[id]/schedule.tsx)
+        title: 'Scheduled Sessions',
+        footer: 'The daemon starts these sessions at the scheduled time (machine\'s local time). A run is skipped while the previous one is still active.',
+        addTitle: 'Add Scheduled Session',
+        disabled: 'Disabled',
+        neverRun: 'Never run',
+        runStarted: ({ time }: { time: string }) => `Started ${time}`,
+        runSkipped: ({ time }: { time: string }) => `Skipped ${time}, previous run still active`,
+        runFailed: ({ time }: { time: string }) => `Failed ${time}`,
+        openLastSession: 'Open Last Session',
+        runNow: 'Run Now',
+        enable: 'Enable',
+        disable: 'Disable',
+        delete: 'Delete',
+        name: 'Name',
+        namePlaceholder: 'Optional, defaults to the prompt',
+        when: 'When',
+        cronFooter: 'Pick a preset or enter a cron expression: minute hour day month weekday, e.g. 30 8 * * 1-5.',
+        presetHourly: 'Every hour',
+        presetDaily: 'Every day at 9:00',
+        presetWeekdays: 'Weekdays at 9:00',
+        presetWeekly: 'Mondays at 9:00',
+        directory: 'Directory',
+        agent: 'Agent',
+        prompt: 'Prompt',
+        promptFooter: 'Sent as the first message of each scheduled session.',
+        promptPlaceholder: 'Run the test suite and fix any failures',
+        add: 'Add Schedule',
+        addFailed: 'Failed to add the scheduled session',
+    },
+
+    remoteTerminal: {
+        // Remote terminals (machine/[id]/terminal.tsx)
+        title: 'Terminal',
+        machineFooter: 'Opens a shell on this machine in the directory entered above. Closing the screen ends the shell.',
+        open: 'Open Terminal',
+        attach: 'Attach Terminal',
+        attachSubtitle: 'See and control the agent\'s terminal (sessions started in tmux)',
+        openInProject: 'Open Terminal in Project',
+        connecting: 'Connecting…',
+        exited: 'The terminal has exited',
+        openFailed: ({ error }: { error: string }) => `Could not open the terminal: ${error}`,
+    },
+
+    runCommand: {
+        // Streaming shell commands (session/[id]/run.tsx)
+        title: 'Run Command',
+        subtitle: 'Run a shell command in the project and watch its output',
+        run: 'Run',
+        cancel: 'Cancel',
+        running: 'Running…',
+        exited: ({ code }: { code: string }) => `Exited with code ${code}`,
+        killed: ({ signal }: { signal: string }) => `Stopped by ${signal}`,
+        cancelled: 'Cancelled',
+        timedOut: 'Stopped after the time limit',
+        failedToStart: ({ error }: { error: string }) => `Could not run the command: ${error}`,
+    },
+
     textSelection: {
         // Text selection screen
         selectText: 'Select text range',
@@ -872,6 +1010,35 @@ export const en = {
         usageOverTime: 'Usage over time',
         byModel: 'By Model',
         noData: 'No usage data available',
+        // Machine usage report and budgets (machine/[id]/usage.tsx)
+        title: 'Usage',
+        subtitle: 'Token usage, cost and budgets',
+        footer: 'Costs are estimates from list prices, recorded as sessions report their token usage. Only Claude sessions report usage; Codex, Gemini and other agents are not counted, and budgets don\'t limit them.',
+        period: 'Period',
+        groupBy: 'Group by',
+        byDay: 'By Day',
+        byProject: 'By Project',
+        byAgent: 'By Agent',
+        bySession: 'By Session',
+        total: 'Total',
+        unknown: 'Unknown',
+        tokenBreakdown: ({ input, output, cached }: { input: string; output: string; cached: string }) => `${input} in · ${output} out · ${cached} cached`,
+        budgets: 'Budgets',
+        budgetsFooter: 'You get a notification when spending passes a budget. Budgets that stop turns also end the current turn of every session they cover until the period ends. Tap a budget to remove it.',
+        budgetDaily: ({ limit }: { limit: string }) => `${limit} per day`,
+        budgetMonthly: ({ limit }: { limit: string }) => `${limit} per month`,
+        allProjects: 'All projects',
+        actionWarn: 'Warns',
+        actionPause: 'Stops turns',
+        addBudget: 'Add Budget',
+        budgetAddFailed: 'Failed to add budget',
+        removeBudget: 'Remove budget?',
+        limitPlaceholder: 'Limit in USD, e.g. 20',
+        perDay: 'Per day',
+        perMonth: 'Per month',
+        projectPlaceholder: 'Project directory (optional)',
+        pauseWhenExceeded: 'Stop turns when exceeded',
+        pauseWhenExceededSubtitle: 'Otherwise you only get a notification',
     },
 
     feed: {
@@ -905,6 +1072,33 @@ export const en = {
         deleteConfirm: 'Are you sure you want to delete the profile "{name}"?',
         editProfile: 'Edit Profile',
         addProfileTitle: 'Add New Profile',
+        codexBackend: {
+            title: 'Codex Backend',
+            footer: 'How Codex sessions started with this profile talk to Codex.',
+            mcp: 'MCP server',
+            mcpDescription: 'Runs codex mcp-server (default)',
+            acp: 'ACP adapter',
+            acpDescription: 'Runs codex-acp, which must be installed on the machine',
+        },
+        permissionTimeout: {
+            title: 'Permission Timeout',
+            footer: 'Decide automatically when a permission request is not answered in time.',
+            off: 'Wait for an answer',
+            minutes: ({ count }: { count: number }) => `${count} min`,
+            actionTitle: 'When time runs out',
+            deny: 'Deny',
+            denyDescription: 'Reject the tool call and let the agent continue',
+            approveReadOnly: 'Approve read-only tools',
+            approveReadOnlyDescription: 'Allow tools that only read, deny the rest',
+            pause: 'Pause session',
+            pauseDescription: 'Reject the tool call and stop until you are back',
+            countdownDeny: ({ time }: { time: string }) => `Auto-deny in ${time}`,
+            countdownApproveReadOnly: ({ time }: { time: string }) => `Auto-decide in ${time}`,
+            countdownPause: ({ time }: { time: string }) => `Pausing in ${time}`,
+            timedOutApproved: 'Approved automatically after timeout',
+            timedOutDenied: 'Denied automatically after timeout',
+            timedOutPaused: 'Session paused after timeout',
+        },
         delete: {
             title: 'Delete Profile',
             message: ({ name }: { name: string }) => `Are you sure you want to delete "${name}"? This action cannot be undone.`,
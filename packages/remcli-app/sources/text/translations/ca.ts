@@ -27,6 +27,16 @@ export const ca: TranslationStructure = {
         emptyTitle: 'Safata buida',
         emptyDescription: 'Connecta\'t amb amics per començar a compartir sessions',
         updates: 'Actualitzacions',
+        emptyNotificationsDescription: 'Aquí apareixen els avisos de les teves sessions: sol·licituds de permís, torns acabats i fallades.',
+        new: 'Noves',
+        earlier: 'Anteriors',
+        markAllSeen: 'Marca-ho tot com a vist',
+        permissionTitle: ({ tool }: { tool: string }) => `Cal permís: ${tool}`,
+        permissionBody: 'Una sessió espera aprovació',
+        turnFinishedTitle: 'Torn acabat',
+        turnFinishedBody: 'Una sessió està llesta per al teu següent missatge',
+        sessionCrashedTitle: 'La sessió ha fallat',
+        sessionCrashedBody: 'Una sessió s\'ha aturat inesperadament',
     },
 
     common: {
@@ -136,6 +146,8 @@ export const ca: TranslationStructure = {
         usageSubtitle: "Veure l'ús de l'API i costos",
         profiles: 'Perfils',
         profilesSubtitle: 'Gestiona els perfils d\'entorn i variables',
+        devices: 'Dispositius',
+        devicesSubtitle: 'Gestiona els telèfons i navegadors vinculats a aquest ordinador',
 
         // Dynamic settings messages
         accountConnected: ({ service }: { service: string }) => `Compte de ${service} connectat`,
@@ -299,8 +311,21 @@ export const ca: TranslationStructure = {
         viewAll: 'Veure totes les sessions',
     },
 
+    sessionSearch: {
+        title: 'Cerca missatges',
+        placeholder: 'Cerca missatges',
+        hint: 'Cerca als missatges carregats a l\'app i als registres de Claude, Codex i Gemini dels teus ordinadors en línia.',
+        noResults: 'No s\'ha trobat cap missatge',
+        results: ({ count }: { count: number }) => `${count} ${count === 1 ? 'resultat' : 'resultats'}`,
+    },
+
     session: {
         inputPlaceholder: 'Escriu un missatge...',
+        attach: 'Adjuntar',
+        attachPhoto: 'Foto',
+        attachFile: 'Fitxer',
+        attachmentTooLarge: ({ size }: { size: number }) => `Els adjunts han de ser de ${size} MB o menys`,
+        attachmentFailed: 'No s\'ha pogut adjuntar el fitxer',
     },
 
     commandPalette: {
@@ -320,6 +345,9 @@ export const ca: TranslationStructure = {
         claudeCodeSessionIdCopied: 'ID de la sessió de Claude Code copiat al porta-retalls',
         aiProvider: 'Proveïdor d\'IA',
         failedToCopyClaudeCodeSessionId: 'Ha fallat copiar l\'ID de la sessió de Claude Code',
+        forks: 'Bifurcacions',
+        forksFooter: 'Sessions bifurcades les unes de les altres. Toca\'n una per obrir-la.',
+        thisSession: 'Aquesta sessió',
         metadataCopied: 'Metadades copiades al porta-retalls',
         failedToCopyMetadata: 'Ha fallat copiar les metadades',
         failedToKillSession: 'Ha fallat finalitzar la sessió',
@@ -331,6 +359,8 @@ export const ca: TranslationStructure = {
         quickActions: 'Accions ràpides',
         viewMachine: 'Veure la màquina',
         viewMachineSubtitle: 'Veure detalls de la màquina i sessions',
+        permissionRules: 'Regles de permisos',
+        permissionRulesSubtitle: 'Permet, pregunta o denega eines en aquest projecte',
         killSessionSubtitle: 'Finalitzar immediatament la sessió',
         archiveSessionSubtitle: 'Arxiva aquesta sessió i atura-la',
         metadata: 'Metadades',
@@ -565,6 +595,19 @@ export const ca: TranslationStructure = {
         }
     },
 
+    settingsDevices: {
+        pairedDevices: 'Dispositius vinculats',
+        footer: 'Cada dispositiu que escaneja el codi QR té el seu propi accés. Revoca aquí un dispositiu perdut: la resta continuen connectats.',
+        noDevices: 'No hi ha dispositius vinculats',
+        thisDevice: ({ name }: { name: string }) => `${name} (aquest dispositiu)`,
+        lastSeen: ({ time }: { time: string }) => `Vist per última vegada ${time}`,
+        revoke: 'Revoca',
+        revokeTitle: ({ name }: { name: string }) => `Revocar ${name}?`,
+        revokeConfirm: 'Aquest dispositiu es desconnectarà i haurà d\'escanejar un codi QR nou per tornar a connectar-se.',
+        revokeCurrentConfirm: 'Aquest és el dispositiu que estàs fent servir. Es tancarà la sessió i hauràs d\'escanejar un codi QR nou per tornar a connectar-te.',
+        revokeFailed: 'No s\'ha pogut revocar el dispositiu',
+    },
+
     settingsAccount: {
         // Account settings screen
         accountInformation: 'Informació del compte',
@@ -736,6 +779,17 @@ export const ca: TranslationStructure = {
         lastSeen: 'Vist per última vegada',
         never: 'Mai',
         metadataVersion: 'Versió de les metadades',
+        auditLog: 'Registre d\'auditoria',
+        auditLogFooter: 'Esdeveniments recents del dimoni: crides RPC, sessions iniciades i aturades, decisions de permisos i connexions rebutjades. Executa `remcli daemon audit` per veure el registre complet.',
+        auditLogEmpty: 'Encara no s\'ha registrat cap esdeveniment',
+        auditRpc: ({ method }: { method: string }) => `RPC: ${method}`,
+        auditSessionSpawn: 'Sessió iniciada',
+        auditSessionStop: 'Sessió aturada',
+        auditPermission: ({ tool }: { tool: string }) => `Permís: ${tool}`,
+        auditAuthFailure: 'Error d\'autenticació',
+        forgetDaemon: 'Oblida el dimoni',
+        forgetDaemonSubtitle: 'Desconnecta aquest dimoni i amaga les seves màquines i sessions',
+        forgetDaemonConfirm: 'Les seves sessions continuen funcionant en aquell ordinador. Torna a escanejar el codi QR per tornar-hi a connectar.',
         untitledSession: 'Sessió sense títol',
         back: 'Enrere',
     },
@@ -745,6 +799,10 @@ export const ca: TranslationStructure = {
         unknownEvent: 'Esdeveniment desconegut',
         usageLimitUntil: ({ time }: { time: string }) => `Límit d'ús assolit fins a ${time}`,
         unknownTime: 'temps desconegut',
+        forkFromHere: 'Bifurca des d\'aquí',
+        forkFromHereConfirm: 'Inicia una sessió nova que reprèn la conversa just abans d\'aquest missatge. Aquesta sessió es queda com està.',
+        fork: 'Bifurca',
+        forkFailed: 'No s\'ha pogut bifurcar la sessió',
     },
 
     codex: {
@@ -764,6 +822,86 @@ export const ca: TranslationStructure = {
         }
     },
 
+    permissionRules: {
+        // Per-project permission rules (app/(app)/session/[id]/permissions.tsx)
+        title: 'Regles de permisos',
+        yesForProject: 'Sí, permet sempre en aquest projecte',
+        allow: 'Permetre',
+        ask: 'Preguntar',
+        deny: 'Denegar',
+        empty: 'Encara no hi ha regles',
+        emptyDescription: 'Les regles es comproven abans que una sol·licitud de permís arribi al teu telèfon. Fes servir "permet sempre en aquest projecte" en una sol·licitud o afegeix regles a sota.',
+        addRule: 'Afegeix una regla',
+        addTitle: ({ action }: { action: string }) => `Regla: ${action}`,
+        addHelp: 'Bash(npm test*) per a ordres, Edit(src/**) per a fitxers, path:secrets/** per a qualsevol eina que toqui aquests fitxers, mcp:github per a un servidor MCP, o el nom d\'una eina.',
+        add: 'Afegeix',
+        invalidRule: 'No s\'ha pogut llegir la regla. Revisa la sintaxi i torna-ho a provar.',
+        saveFailed: 'No s\'han pogut desar les regles',
+        loadFailed: 'No s\'han pogut carregar les regles. Estira per actualitzar quan la màquina estigui en línia.',
+        removeTitle: 'Vols eliminar la regla?',
+        remove: 'Elimina',
+        footer: ({ path }: { path: string }) => `Desat a ${path}. Denegar té prioritat sobre preguntar, i preguntar sobre permetre.`,
+    },
+
+    schedules: {
+        // Scheduled sessions (machine/[id].tsx and machine/[id]/schedule.tsx)
+        title: 'Sessions programades',
+        footer: 'El dimoni inicia aquestes sessions a l\'hora programada (hora local de la màquina). Una execució s\'omet si l\'anterior encara és activa.',
+        addTitle: 'Afegeix una sessió programada',
+        disabled: 'Desactivada',
+        neverRun: 'Mai executada',
+        runStarted: ({ time }: { time: string }) => `Iniciada ${time}`,
+        runSkipped: ({ time }: { time: string }) => `Omesa ${time}, l'execució anterior encara és activa`,
+        runFailed: ({ time }: { time: string }) => `Ha fallat ${time}`,
+        openLastSession: 'Obre l\'última sessió',
+        runNow: 'Executa ara',
+        enable: 'Activa',
+        disable: 'Desactiva',
+        delete: 'Elimina',
+        name: 'Nom',
+        namePlaceholder: 'Opcional, per defecte el missatge',
+        when: 'Quan',
+        cronFooter: 'Tria una opció o escriu una expressió cron: minut hora dia mes dia-setmana, p. ex. 30 8 * * 1-5.',
+        presetHourly: 'Cada hora',
+        presetDaily: 'Cada dia a les 9:00',
+        presetWeekdays: 'Dies feiners a les 9:00',
+        presetWeekly: 'Dilluns a les 9:00',
+        directory: 'Directori',
+        agent: 'Agent',
+        prompt: 'Missatge',
+        promptFooter: 'S\'envia com a primer missatge de cada sessió programada.',
+        promptPlaceholder: 'Executa les proves i corregeix els errors',
+        add: 'Afegeix la programació',
+        addFailed: 'No s\'ha pogut afegir la sessió programada',
+    },
+
+    remoteTerminal: {
+        // Remote terminals (machine/[id]/terminal.tsx)
+        title: 'Terminal',
+        machineFooter: 'Obre un intèrpret d\'ordres en aquesta màquina al directori indicat a dalt. Tancar la pantalla acaba l\'intèrpret.',
+        open: 'Obre el terminal',
+        attach: 'Connecta al terminal',
+        attachSubtitle: 'Mira i controla el terminal de l\'agent (sessions iniciades a tmux)',
+        openInProject: 'Obre el terminal al projecte',
+        connecting: 'Connectant…',
+        exited: 'El terminal ha acabat',
+        openFailed: ({ error }: { error: string }) => `No s'ha pogut obrir el terminal: ${error}`,
+    },
+
+    runCommand: {
+        // Streaming shell commands (session/[id]/run.tsx)
+        title: 'Executa una ordre',
+        subtitle: 'Executa una ordre al projecte i mira\'n la sortida',
+        run: 'Executa',
+        cancel: 'Cancel·la',
+        running: 'S\'està executant…',
+        exited: ({ code }: { code: string }) => `Ha acabat amb el codi ${code}`,
+        killed: ({ signal }: { signal: string }) => `Aturada per ${signal}`,
+        cancelled: 'Cancel·lada',
+        timedOut: 'Aturada en superar el temps límit',
+        failedToStart: ({ error }: { error: string }) => `No s'ha pogut executar l'ordre: ${error}`,
+    },
+
     textSelection: {
         // Text selection screen
         selectText: 'Seleccionar rang de text',
@@ -872,6 +1010,35 @@ export const ca: TranslationStructure = {
         usageOverTime: 'Ús al llarg del temps',
         byModel: 'Per model',
         noData: "No hi ha dades d'ús disponibles",
+        // Machine usage report and budgets (machine/[id]/usage.tsx)
+        title: 'Ús',
+        subtitle: 'Ús de tokens, cost i pressupostos',
+        footer: 'Els costos són estimacions segons els preus de tarifa, registrats a mesura que les sessions informen del seu ús de tokens. Només les sessions de Claude informen de l\'ús; Codex, Gemini i els altres agents no es compten i els pressupostos no els limiten.',
+        period: 'Període',
+        groupBy: 'Agrupa per',
+        byDay: 'Per dia',
+        byProject: 'Per projecte',
+        byAgent: 'Per agent',
+        bySession: 'Per sessió',
+        total: 'Total',
+        unknown: 'Desconegut',
+        tokenBreakdown: ({ input, output, cached }: { input: string; output: string; cached: string }) => `${input} d'entrada · ${output} de sortida · ${cached} en memòria cau`,
+        budgets: 'Pressupostos',
+        budgetsFooter: 'Rebràs una notificació quan la despesa superi un pressupost. Els pressupostos que aturen torns també finalitzen el torn actual de cada sessió que cobreixen fins que acabi el període. Toca un pressupost per eliminar-lo.',
+        budgetDaily: ({ limit }: { limit: string }) => `${limit} per dia`,
+        budgetMonthly: ({ limit }: { limit: string }) => `${limit} per mes`,
+        allProjects: 'Tots els projectes',
+        actionWarn: 'Avisa',
+        actionPause: 'Atura torns',
+        addBudget: 'Afegeix pressupost',
+        budgetAddFailed: 'No s\'ha pogut afegir el pressupost',
+        removeBudget: 'Vols eliminar el pressupost?',
+        limitPlaceholder: 'Límit en USD, p. ex. 20',
+        perDay: 'Per dia',
+        perMonth: 'Per mes',
+        projectPlaceholder: 'Directori del projecte (opcional)',
+        pauseWhenExceeded: 'Atura torns en superar-lo',
+        pauseWhenExceededSubtitle: 'Si no, només rebràs una notificació',
     },
 
     profiles: {
@@ -881,6 +1048,33 @@ export const ca: TranslationStructure = {
         noProfileDescription: 'Crea un perfil per gestionar la teva configuració d\'entorn',
         addProfile: 'Afegeix un perfil',
         addProfileTitle: 'Títol del perfil d\'addició',
+        codexBackend: {
+            title: 'Backend de Codex',
+            footer: 'Com es comuniquen amb Codex les sessions iniciades amb aquest perfil.',
+            mcp: 'Servidor MCP',
+            mcpDescription: 'Executa codex mcp-server (per defecte)',
+            acp: 'Adaptador ACP',
+            acpDescription: 'Executa codex-acp, que ha d\'estar instal·lat a la màquina',
+        },
+        permissionTimeout: {
+            title: 'Temps d\'espera de permisos',
+            footer: 'Decideix automàticament quan una sol·licitud de permís no es respon a temps.',
+            off: 'Esperar una resposta',
+            minutes: ({ count }: { count: number }) => `${count} min`,
+            actionTitle: 'Quan s\'acabi el temps',
+            deny: 'Denegar',
+            denyDescription: 'Rebutja la crida i deixa que l\'agent continuï',
+            approveReadOnly: 'Aprovar eines de només lectura',
+            approveReadOnlyDescription: 'Permet eines que només llegeixen i denega la resta',
+            pause: 'Pausar la sessió',
+            pauseDescription: 'Rebutja la crida i atura\'t fins que tornis',
+            countdownDeny: ({ time }: { time: string }) => `Es denegarà en ${time}`,
+            countdownApproveReadOnly: ({ time }: { time: string }) => `Es decidirà en ${time}`,
+            countdownPause: ({ time }: { time: string }) => `Es pausarà en ${time}`,
+            timedOutApproved: 'Aprovat automàticament per temps esgotat',
+            timedOutDenied: 'Denegat automàticament per temps esgotat',
+            timedOutPaused: 'Sessió pausada per temps esgotat',
+        },
         editProfile: 'Edita el perfil',
         profileName: 'Nom del perfil',
         enterName: 'Introdueix el nom del perfil',
@@ -27,6 +27,16 @@ export const es: TranslationStructure = {
         emptyTitle: 'Bandeja vacía',
         emptyDescription: 'Conéctate con amigos para empezar a compartir sesiones',
         updates: 'Actualizaciones',
+        emptyNotificationsDescription: 'Aquí aparecen los avisos de tus sesiones: solicitudes de permiso, turnos terminados y fallos.',
+        new: 'Nuevas',
+        earlier: 'Anteriores',
+        markAllSeen: 'Marcar todo como visto',
+        permissionTitle: ({ tool }: { tool: string }) => `Permiso necesario: ${tool}`,
+        permissionBody: 'Una sesión espera aprobación',
+        turnFinishedTitle: 'Turno terminado',
+        turnFinishedBody: 'Una sesión está lista para tu siguiente mensaje',
+        sessionCrashedTitle: 'La sesión falló',
+        sessionCrashedBody: 'Una sesión se detuvo inesperadamente',
     },
 
     common: {
@@ -136,6 +146,8 @@ export const es: TranslationStructure = {
         usageSubtitle: 'Ver tu uso de API y costos',
         profiles: 'Perfiles',
         profilesSubtitle: 'Gestionar perfiles de variables de entorno para sesiones',
+        devices: 'Dispositivos',
+        devicesSubtitle: 'Gestiona los teléfonos y navegadores vinculados a este ordenador',
 
         // Dynamic settings messages
         accountConnected: ({ service }: { service: string }) => `Cuenta de ${service} conectada`,
@@ -299,8 +311,21 @@ export const es: TranslationStructure = {
         viewAll: 'Ver todas las sesiones',
     },
 
+    sessionSearch: {
+        title: 'Buscar mensajes',
+        placeholder: 'Buscar mensajes',
+        hint: 'Busca en los mensajes cargados en la app y en los registros de Claude, Codex y Gemini de tus equipos en línea.',
+        noResults: 'No se encontraron mensajes',
+        results: ({ count }: { count: number }) => `${count} ${count === 1 ? 'resultado' : 'resultados'}`,
+    },
+
     session: {
         inputPlaceholder: 'Escriba un mensaje ...',
+        attach: 'Adjuntar',
+        attachPhoto: 'Foto',
+        attachFile: 'Archivo',
+        attachmentTooLarge: ({ size }: { size: number }) => `Los adjuntos deben ser de ${size} MB o menos`,
+        attachmentFailed: 'No se pudo adjuntar el archivo',
     },
 
     commandPalette: {
@@ -320,6 +345,9 @@ export const es: TranslationStructure = {
         claudeCodeSessionIdCopied: 'ID de sesión de Claude Code copiado al portapapeles',
         aiProvider: 'Proveedor de IA',
         failedToCopyClaudeCodeSessionId: 'Falló al copiar ID de sesión de Claude Code',
+        forks: 'Bifurcaciones',
+        forksFooter: 'Sesiones bifurcadas unas de otras. Toca una para abrirla.',
+        thisSession: 'Esta sesión',
         metadataCopied: 'Metadatos copiados al portapapeles',
         failedToCopyMetadata: 'Falló al copiar metadatos',
         failedToKillSession: 'Falló al terminar sesión',
@@ -331,6 +359,8 @@ export const es: TranslationStructure = {
         quickActions: 'Acciones rápidas',
         viewMachine: 'Ver máquina',
         viewMachineSubtitle: 'Ver detalles de máquina y sesiones',
+        permissionRules: 'Reglas de permisos',
+        permissionRulesSubtitle: 'Permitir, preguntar o denegar herramientas en este proyecto',
         killSessionSubtitle: 'Terminar inmediatamente la sesión',
         archiveSessionSubtitle: 'Archivar esta sesión y detenerla',
         metadata: 'Metadatos',
@@ -565,6 +595,19 @@ export const es: TranslationStructure = {
         }
     },
 
+    settingsDevices: {
+        pairedDevices: 'Dispositivos vinculados',
+        footer: 'Cada dispositivo que escanea el código QR obtiene su propio acceso. Revoca aquí un dispositivo perdido: los demás siguen conectados.',
+        noDevices: 'No hay dispositivos vinculados',
+        thisDevice: ({ name }: { name: string }) => `${name} (este dispositivo)`,
+        lastSeen: ({ time }: { time: string }) => `Visto por última vez ${time}`,
+        revoke: 'Revocar',
+        revokeTitle: ({ name }: { name: string }) => `¿Revocar ${name}?`,
+        revokeConfirm: 'Este dispositivo se desconectará y tendrá que escanear un nuevo código QR para volver a conectarse.',
+        revokeCurrentConfirm: 'Este es el dispositivo que estás usando. Se cerrará la sesión y tendrás que escanear un nuevo código QR para volver a conectarte.',
+        revokeFailed: 'No se pudo revocar el dispositivo',
+    },
+
     settingsAccount: {
         // Account settings screen
         accountInformation: 'Información de la cuenta',
@@ -736,6 +779,17 @@ export const es: TranslationStructure = {
         lastSeen: 'Visto por última vez',
         never: 'Nunca',
         metadataVersion: 'Versión de metadatos',
+        auditLog: 'Registro de auditoría',
+        auditLogFooter: 'Eventos recientes del daemon: llamadas RPC, sesiones iniciadas y detenidas, decisiones de permisos y conexiones rechazadas. Ejecuta `remcli daemon audit` para ver el registro completo.',
+        auditLogEmpty: 'Aún no hay eventos registrados',
+        auditRpc: ({ method }: { method: string }) => `RPC: ${method}`,
+        auditSessionSpawn: 'Sesión iniciada',
+        auditSessionStop: 'Sesión detenida',
+        auditPermission: ({ tool }: { tool: string }) => `Permiso: ${tool}`,
+        auditAuthFailure: 'Error de autenticación',
+        forgetDaemon: 'Olvidar daemon',
+        forgetDaemonSubtitle: 'Desconecta este daemon y oculta sus máquinas y sesiones',
+        forgetDaemonConfirm: 'Sus sesiones siguen ejecutándose en ese ordenador. Escanea de nuevo su código QR para volver a conectar.',
         untitledSession: 'Sesión sin título',
         back: 'Atrás',
     },
@@ -745,6 +799,10 @@ export const es: TranslationStructure = {
         unknownEvent: 'Evento desconocido',
         usageLimitUntil: ({ time }: { time: string }) => `Límite de uso alcanzado hasta ${time}`,
         unknownTime: 'tiempo desconocido',
+        forkFromHere: 'Bifurcar desde aquí',
+        forkFromHereConfirm: 'Inicia una nueva sesión que retoma la conversación justo antes de este mensaje. Esta sesión se queda como está.',
+        fork: 'Bifurcar',
+        forkFailed: 'No se pudo bifurcar la sesión',
     },
 
     codex: {
@@ -764,6 +822,86 @@ export const es: TranslationStructure = {
         }
     },
 
+    permissionRules: {
+        // Per-project permission rules (app/(app)/session/[id]/permissions.tsx)
+        title: 'Reglas de permisos',
+        yesForProject: 'Sí, permitir siempre en este proyecto',
+        allow: 'Permitir',
+        ask: 'Preguntar',
+        deny: 'Denegar',
+        empty: 'Aún no hay reglas',
+        emptyDescription: 'Las reglas se comprueban antes de que una solicitud de permiso llegue a tu teléfono. Usa "permitir siempre en este proyecto" en una solicitud o añade reglas abajo.',
+        addRule: 'Añadir regla',
+        addTitle: ({ action }: { action: string }) => `Regla: ${action}`,
+        addHelp: 'Bash(npm test*) para comandos, Edit(src/**) para archivos, path:secrets/** para cualquier herramienta que toque esos archivos, mcp:github para un servidor MCP, o el nombre de una herramienta.',
+        add: 'Añadir',
+        invalidRule: 'No se pudo leer la regla. Revisa la sintaxis e inténtalo de nuevo.',
+        saveFailed: 'No se pudieron guardar las reglas',
+        loadFailed: 'No se pudieron cargar las reglas. Desliza para actualizar cuando la máquina esté en línea.',
+        removeTitle: '¿Eliminar la regla?',
+        remove: 'Eliminar',
+        footer: ({ path }: { path: string }) => `Guardado en ${path}. Denegar prevalece sobre preguntar, y preguntar sobre permitir.`,
+    },
+
+    schedules: {
+        // Scheduled sessions (machine/[id].tsx and machine/[id]/schedule.tsx)
+        title: 'Sesiones programadas',
+        footer: 'El daemon inicia estas sesiones a la hora programada (hora local de la máquina). Una ejecución se omite si la anterior sigue activa.',
+        addTitle: 'Añadir sesión programada',
+        disabled: 'Desactivada',
+        neverRun: 'Nunca ejecutada',
+        runStarted: ({ time }: { time: string }) => `Iniciada ${time}`,
+        runSkipped: ({ time }: { time: string }) => `Omitida ${time}, la ejecución anterior sigue activa`,
+        runFailed: ({ time }: { time: string }) => `Falló ${time}`,
+        openLastSession: 'Abrir última sesión',
+        runNow: 'Ejecutar ahora',
+        enable: 'Activar',
+        disable: 'Desactivar',
+        delete: 'Eliminar',
+        name: 'Nombre',
+        namePlaceholder: 'Opcional, por defecto el mensaje',
+        when: 'Cuándo',
+        cronFooter: 'Elige una opción o escribe una expresión cron: minuto hora día mes día-semana, p. ej. 30 8 * * 1-5.',
+        presetHourly: 'Cada hora',
+        presetDaily: 'Todos los días a las 9:00',
+        presetWeekdays: 'Días laborables a las 9:00',
+        presetWeekly: 'Los lunes a las 9:00',
+        directory: 'Directorio',
+        agent: 'Agente',
+        prompt: 'Mensaje',
+        promptFooter: 'Se envía como primer mensaje de cada sesión programada.',
+        promptPlaceholder: 'Ejecuta las pruebas y corrige los fallos',
+        add: 'Añadir programación',
+        addFailed: 'No se pudo añadir la sesión programada',
+    },
+
+    remoteTerminal: {
+        // Remote terminals (machine/[id]/terminal.tsx)
+        title: 'Terminal',
+        machineFooter: 'Abre una shell en esta máquina en el directorio indicado arriba. Al cerrar la pantalla termina la shell.',
+        open: 'Abrir terminal',
+        attach: 'Conectar al terminal',
+        attachSubtitle: 'Ve y controla el terminal del agente (sesiones iniciadas en tmux)',
+        openInProject: 'Abrir terminal en el proyecto',
+        connecting: 'Conectando…',
+        exited: 'El terminal ha terminado',
+        openFailed: ({ error }: { error: string }) => `No se pudo abrir el terminal: ${error}`,
+    },
+
+    runCommand: {
+        // Streaming shell commands (session/[id]/run.tsx)
+        title: 'Ejecutar comando',
+        subtitle: 'Ejecuta un comando en el proyecto y mira su salida',
+        run: 'Ejecutar',
+        cancel: 'Cancelar',
+        running: 'Ejecutando…',
+        exited: ({ code }: { code: string }) => `Terminó con el código ${code}`,
+        killed: ({ signal }: { signal: string }) => `Detenido por ${signal}`,
+        cancelled: 'Cancelado',
+        timedOut: 'Detenido al superar el tiempo límite',
+        failedToStart: ({ error }: { error: string }) => `No se pudo ejecutar el comando: ${error}`,
+    },
+
     textSelection: {
         // Text selection screen
         selectText: 'Seleccionar rango de texto',
@@ -873,6 +1011,35 @@ export const es: TranslationStructure = {
         usageOverTime: 'Uso a lo largo del tiempo',
         byModel: 'Por modelo',
         noData: 'No hay datos de uso disponibles',
+        // Machine usage report and budgets (machine/[id]/usage.tsx)
+        title: 'Uso',
+        subtitle: 'Uso de tokens, coste y presupuestos',
+        footer: 'Los costes son estimaciones según los precios de lista, registrados a medida que las sesiones informan de su uso de tokens. Solo las sesiones de Claude informan de su uso; Codex, Gemini y otros agentes no se cuentan y los presupuestos no los limitan.',
+        period: 'Periodo',
+        groupBy: 'Agrupar por',
+        byDay: 'Por día',
+        byProject: 'Por proyecto',
+        byAgent: 'Por agente',
+        bySession: 'Por sesión',
+        total: 'Total',
+        unknown: 'Desconocido',
+        tokenBreakdown: ({ input, output, cached }: { input: string; output: string; cached: string }) => `${input} de entrada · ${output} de salida · ${cached} en caché`,
+        budgets: 'Presupuestos',
+        budgetsFooter: 'Recibirás una notificación cuando el gasto supere un presupuesto. Los presupuestos que detienen turnos también terminan el turno actual de cada sesión que cubren hasta que acabe el periodo. Toca un presupuesto para eliminarlo.',
+        budgetDaily: ({ limit }: { limit: string }) => `${limit} por día`,
+        budgetMonthly: ({ limit }: { limit: string }) => `${limit} por mes`,
+        allProjects: 'Todos los proyectos',
+        actionWarn: 'Avisa',
+        actionPause: 'Detiene turnos',
+        addBudget: 'Añadir presupuesto',
+        budgetAddFailed: 'No se pudo añadir el presupuesto',
+        removeBudget: '¿Eliminar presupuesto?',
+        limitPlaceholder: 'Límite en USD, p. ej. 20',
+        perDay: 'Por día',
+        perMonth: 'Por mes',
+        projectPlaceholder: 'Directorio del proyecto (opcional)',
+        pauseWhenExceeded: 'Detener turnos al superarlo',
+        pauseWhenExceededSubtitle: 'Si no, solo recibirás una notificación',
     },
 
     feed: {
@@ -906,6 +1073,33 @@ export const es: TranslationStructure = {
         deleteConfirm: '¿Estás seguro de que quieres eliminar el perfil "{name}"?',
         editProfile: 'Editar Perfil',
         addProfileTitle: 'Agregar Nuevo Perfil',
+        codexBackend: {
+            title: 'Backend de Codex',
+            footer: 'Cómo se comunican con Codex las sesiones iniciadas con este perfil.',
+            mcp: 'Servidor MCP',
+            mcpDescription: 'Ejecuta codex mcp-server (predeterminado)',
+            acp: 'Adaptador ACP',
+            acpDescription: 'Ejecuta codex-acp, que debe estar instalado en la máquina',
+        },
+        permissionTimeout: {
+            title: 'Tiempo de espera de permisos',
+            footer: 'Decide automáticamente cuando una solicitud de permiso no se responde a tiempo.',
+            off: 'Esperar una respuesta',
+            minutes: ({ count }: { count: number }) => `${count} min`,
+            actionTitle: 'Cuando se acabe el tiempo',
+            deny: 'Denegar',
+            denyDescription: 'Rechaza la llamada y deja que el agente continúe',
+            approveReadOnly: 'Aprobar herramientas de solo lectura',
+            approveReadOnlyDescription: 'Permite herramientas que solo leen y deniega el resto',
+            pause: 'Pausar la sesión',
+            pauseDescription: 'Rechaza la llamada y espera hasta que vuelvas',
+            countdownDeny: ({ time }: { time: string }) => `Se denegará en ${time}`,
+            countdownApproveReadOnly: ({ time }: { time: string }) => `Se decidirá en ${time}`,
+            countdownPause: ({ time }: { time: string }) => `Se pausará en ${time}`,
+            timedOutApproved: 'Aprobado automáticamente por tiempo agotado',
+            timedOutDenied: 'Denegado automáticamente por tiempo agotado',
+            timedOutPaused: 'Sesión pausada por tiempo agotado',
+        },
         delete: {
             title: 'Eliminar Perfil',
             message: ({ name }: { name: string }) => `¿Estás seguro de que quieres eliminar "${name}"? Esta acción no se puede deshacer.`,
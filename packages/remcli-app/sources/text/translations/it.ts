@@ -27,6 +27,16 @@ export const it: TranslationStructure = {
         emptyTitle: 'Posta vuota',
         emptyDescription: 'Connettiti con amici per iniziare a condividere sessioni',
         updates: 'Aggiornamenti',
+        emptyNotificationsDescription: 'Qui compaiono gli avvisi delle tue sessioni: richieste di permesso, turni completati e crash.',
+        new: 'Nuove',
+        earlier: 'Precedenti',
+        markAllSeen: 'Segna tutto come visto',
+        permissionTitle: ({ tool }: { tool: string }) => `Permesso richiesto: ${tool}`,
+        permissionBody: 'Una sessione attende l\'approvazione',
+        turnFinishedTitle: 'Turno completato',
+        turnFinishedBody: 'Una sessione è pronta per il tuo prossimo messaggio',
+        sessionCrashedTitle: 'Sessione interrotta',
+        sessionCrashedBody: 'Una sessione si è fermata inaspettatamente',
     },
 
     common: {
@@ -93,6 +103,33 @@ export const it: TranslationStructure = {
         deleteConfirm: 'Sei sicuro di voler eliminare il profilo "{name}"?',
         editProfile: 'Modifica profilo',
         addProfileTitle: 'Aggiungi nuovo profilo',
+        codexBackend: {
+            title: 'Backend di Codex',
+            footer: 'Come le sessioni avviate con questo profilo comunicano con Codex.',
+            mcp: 'Server MCP',
+            mcpDescription: 'Esegue codex mcp-server (predefinito)',
+            acp: 'Adattatore ACP',
+            acpDescription: 'Esegue codex-acp, che deve essere installato sulla macchina',
+        },
+        permissionTimeout: {
+            title: 'Timeout dei permessi',
+            footer: 'Decidi automaticamente quando una richiesta di permesso non riceve risposta in tempo.',
+            off: 'Attendi una risposta',
+            minutes: ({ count }: { count: number }) => `${count} min`,
+            actionTitle: 'Allo scadere del tempo',
+            deny: 'Nega',
+            denyDescription: 'Rifiuta la chiamata e lascia continuare l\'agente',
+            approveReadOnly: 'Approva strumenti di sola lettura',
+            approveReadOnlyDescription: 'Consenti gli strumenti che leggono soltanto, nega il resto',
+            pause: 'Metti in pausa la sessione',
+            pauseDescription: 'Rifiuta la chiamata e fermati finché non torni',
+            countdownDeny: ({ time }: { time: string }) => `Rifiuto automatico tra ${time}`,
+            countdownApproveReadOnly: ({ time }: { time: string }) => `Decisione automatica tra ${time}`,
+            countdownPause: ({ time }: { time: string }) => `Pausa tra ${time}`,
+            timedOutApproved: 'Approvato automaticamente per timeout',
+            timedOutDenied: 'Negato automaticamente per timeout',
+            timedOutPaused: 'Sessione in pausa per timeout',
+        },
         delete: {
             title: 'Elimina profilo',
             message: ({ name }: { name: string }) => `Sei sicuro di voler eliminare "${name}"? Questa azione non può essere annullata.`,
@@ -165,6 +202,8 @@ export const it: TranslationStructure = {
         usageSubtitle: 'Vedi il tuo utilizzo API e i costi',
         profiles: 'Profili',
         profilesSubtitle: 'Gestisci i profili delle variabili ambiente per le sessioni',
+        devices: 'Dispositivi',
+        devicesSubtitle: 'Gestisci telefoni e browser associati a questo computer',
 
         // Dynamic settings messages
         accountConnected: ({ service }: { service: string }) => `Account ${service} collegato`,
@@ -328,8 +367,21 @@ export const it: TranslationStructure = {
         viewAll: 'Visualizza tutte le sessioni',
     },
 
+    sessionSearch: {
+        title: 'Cerca messaggi',
+        placeholder: 'Cerca messaggi',
+        hint: 'Cerca nei messaggi caricati nell\'app e nei log di Claude, Codex e Gemini dei tuoi computer online.',
+        noResults: 'Nessun messaggio trovato',
+        results: ({ count }: { count: number }) => `${count} ${count === 1 ? 'risultato' : 'risultati'}`,
+    },
+
     session: {
         inputPlaceholder: 'Scrivi un messaggio ...',
+        attach: 'Allega',
+        attachPhoto: 'Foto',
+        attachFile: 'File',
+        attachmentTooLarge: ({ size }: { size: number }) => `Gli allegati devono essere di ${size} MB o meno`,
+        attachmentFailed: 'Impossibile allegare il file',
     },
 
     commandPalette: {
@@ -349,6 +401,9 @@ export const it: TranslationStructure = {
         claudeCodeSessionIdCopied: 'ID sessione Claude Code copiato negli appunti',
         aiProvider: 'Provider IA',
         failedToCopyClaudeCodeSessionId: 'Impossibile copiare l\'ID sessione Claude Code',
+        forks: 'Diramazioni',
+        forksFooter: 'Sessioni diramate l\'una dall\'altra. Toccane una per aprirla.',
+        thisSession: 'Questa sessione',
         metadataCopied: 'Metadati copiati negli appunti',
         failedToCopyMetadata: 'Impossibile copiare i metadati',
         failedToKillSession: 'Impossibile terminare la sessione',
@@ -360,6 +415,8 @@ export const it: TranslationStructure = {
         quickActions: 'Azioni rapide',
         viewMachine: 'Visualizza macchina',
         viewMachineSubtitle: 'Visualizza dettagli e sessioni della macchina',
+        permissionRules: 'Regole dei permessi',
+        permissionRulesSubtitle: 'Consenti, chiedi o nega strumenti in questo progetto',
         killSessionSubtitle: 'Termina immediatamente la sessione',
         archiveSessionSubtitle: 'Archivia questa sessione e fermala',
         metadata: 'Metadati',
@@ -594,6 +651,19 @@ export const it: TranslationStructure = {
         }
     },
 
+    settingsDevices: {
+        pairedDevices: 'Dispositivi associati',
+        footer: 'Ogni dispositivo che scansiona il codice QR riceve un proprio accesso. Revoca qui un dispositivo smarrito: gli altri restano connessi.',
+        noDevices: 'Nessun dispositivo associato',
+        thisDevice: ({ name }: { name: string }) => `${name} (questo dispositivo)`,
+        lastSeen: ({ time }: { time: string }) => `Visto l'ultima volta ${time}`,
+        revoke: 'Revoca',
+        revokeTitle: ({ name }: { name: string }) => `Revocare ${name}?`,
+        revokeConfirm: 'Questo dispositivo verrà disconnesso e dovrà scansionare un nuovo codice QR per riconnettersi.',
+        revokeCurrentConfirm: 'Questo è il dispositivo che stai usando. Verrai disconnesso e dovrai scansionare un nuovo codice QR per riconnetterti.',
+        revokeFailed: 'Impossibile revocare il dispositivo',
+    },
+
     settingsAccount: {
         // Account settings screen
         accountInformation: 'Informazioni account',
@@ -765,6 +835,17 @@ export const it: TranslationStructure = {
         lastSeen: 'Ultimo accesso',
         never: 'Mai',
         metadataVersion: 'Versione metadati',
+        auditLog: 'Registro di audit',
+        auditLogFooter: 'Eventi recenti del daemon: chiamate RPC, sessioni avviate e arrestate, decisioni sui permessi e connessioni rifiutate. Esegui `remcli daemon audit` per il registro completo.',
+        auditLogEmpty: 'Nessun evento registrato',
+        auditRpc: ({ method }: { method: string }) => `RPC: ${method}`,
+        auditSessionSpawn: 'Sessione avviata',
+        auditSessionStop: 'Sessione arrestata',
+        auditPermission: ({ tool }: { tool: string }) => `Permesso: ${tool}`,
+        auditAuthFailure: 'Autenticazione non riuscita',
+        forgetDaemon: 'Dimentica daemon',
+        forgetDaemonSubtitle: 'Disconnetti questo daemon e nascondi le sue macchine e sessioni',
+        forgetDaemonConfirm: 'Le sue sessioni continuano a funzionare su quel computer. Scansiona di nuovo il codice QR per riconnetterti.',
         untitledSession: 'Sessione senza titolo',
         back: 'Indietro',
     },
@@ -774,6 +855,10 @@ export const it: TranslationStructure = {
         unknownEvent: 'Evento sconosciuto',
         usageLimitUntil: ({ time }: { time: string }) => `Limite di utilizzo raggiunto fino a ${time}`,
         unknownTime: 'ora sconosciuta',
+        forkFromHere: 'Dirama da qui',
+        forkFromHereConfirm: 'Avvia una nuova sessione che riprende la conversazione subito prima di questo messaggio. Questa sessione resta com\'è.',
+        fork: 'Dirama',
+        forkFailed: 'Impossibile diramare la sessione',
     },
 
     codex: {
@@ -793,6 +878,86 @@ export const it: TranslationStructure = {
         }
     },
 
+    permissionRules: {
+        // Per-project permission rules (app/(app)/session/[id]/permissions.tsx)
+        title: 'Regole dei permessi',
+        yesForProject: 'Sì, consenti sempre in questo progetto',
+        allow: 'Consenti',
+        ask: 'Chiedi',
+        deny: 'Nega',
+        empty: 'Nessuna regola',
+        emptyDescription: 'Le regole vengono verificate prima che una richiesta di permesso arrivi al telefono. Usa "consenti sempre in questo progetto" su una richiesta o aggiungi regole qui sotto.',
+        addRule: 'Aggiungi regola',
+        addTitle: ({ action }: { action: string }) => `Regola: ${action}`,
+        addHelp: 'Bash(npm test*) per i comandi, Edit(src/**) per i file, path:secrets/** per qualsiasi strumento che tocchi quei file, mcp:github per un server MCP, oppure il nome di uno strumento.',
+        add: 'Aggiungi',
+        invalidRule: 'Impossibile leggere la regola. Controlla la sintassi e riprova.',
+        saveFailed: 'Impossibile salvare le regole',
+        loadFailed: 'Impossibile caricare le regole. Trascina per aggiornare quando la macchina è online.',
+        removeTitle: 'Rimuovere la regola?',
+        remove: 'Rimuovi',
+        footer: ({ path }: { path: string }) => `Salvato in ${path}. Nega prevale su chiedi, chiedi su consenti.`,
+    },
+
+    schedules: {
+        // Scheduled sessions (machine/[id].tsx and machine/[id]/schedule.tsx)
+        title: 'Sessioni pianificate',
+        footer: 'Il daemon avvia queste sessioni all\'orario pianificato (ora locale della macchina). Un\'esecuzione viene saltata se la precedente è ancora attiva.',
+        addTitle: 'Aggiungi sessione pianificata',
+        disabled: 'Disattivata',
+        neverRun: 'Mai eseguita',
+        runStarted: ({ time }: { time: string }) => `Avviata ${time}`,
+        runSkipped: ({ time }: { time: string }) => `Saltata ${time}, l'esecuzione precedente è ancora attiva`,
+        runFailed: ({ time }: { time: string }) => `Non riuscita ${time}`,
+        openLastSession: 'Apri ultima sessione',
+        runNow: 'Esegui ora',
+        enable: 'Attiva',
+        disable: 'Disattiva',
+        delete: 'Elimina',
+        name: 'Nome',
+        namePlaceholder: 'Facoltativo, predefinito il prompt',
+        when: 'Quando',
+        cronFooter: 'Scegli un\'opzione o inserisci un\'espressione cron: minuto ora giorno mese giorno-settimana, es. 30 8 * * 1-5.',
+        presetHourly: 'Ogni ora',
+        presetDaily: 'Ogni giorno alle 9:00',
+        presetWeekdays: 'Giorni feriali alle 9:00',
+        presetWeekly: 'Il lunedì alle 9:00',
+        directory: 'Directory',
+        agent: 'Agente',
+        prompt: 'Prompt',
+        promptFooter: 'Inviato come primo messaggio di ogni sessione pianificata.',
+        promptPlaceholder: 'Esegui i test e correggi gli errori',
+        add: 'Aggiungi pianificazione',
+        addFailed: 'Impossibile aggiungere la sessione pianificata',
+    },
+
+    remoteTerminal: {
+        // Remote terminals (machine/[id]/terminal.tsx)
+        title: 'Terminale',
+        machineFooter: 'Apre una shell su questa macchina nella directory indicata sopra. Chiudere la schermata termina la shell.',
+        open: 'Apri terminale',
+        attach: 'Collega al terminale',
+        attachSubtitle: 'Vedi e controlla il terminale dell\'agente (sessioni avviate in tmux)',
+        openInProject: 'Apri terminale nel progetto',
+        connecting: 'Connessione…',
+        exited: 'Il terminale è terminato',
+        openFailed: ({ error }: { error: string }) => `Impossibile aprire il terminale: ${error}`,
+    },
+
+    runCommand: {
+        // Streaming shell commands (session/[id]/run.tsx)
+        title: 'Esegui comando',
+        subtitle: 'Esegui un comando nel progetto e segui l\'output',
+        run: 'Esegui',
+        cancel: 'Annulla',
+        running: 'In esecuzione…',
+        exited: ({ code }: { code: string }) => `Terminato con codice ${code}`,
+        killed: ({ signal }: { signal: string }) => `Interrotto da ${signal}`,
+        cancelled: 'Annullato',
+        timedOut: 'Interrotto al superamento del tempo limite',
+        failedToStart: ({ error }: { error: string }) => `Impossibile eseguire il comando: ${error}`,
+    },
+
     textSelection: {
         // Text selection screen
         selectText: 'Seleziona intervallo di testo',
@@ -902,6 +1067,35 @@ export const it: TranslationStructure = {
         usageOverTime: 'Utilizzo nel tempo',
         byModel: 'Per modello',
         noData: 'Nessun dato di utilizzo disponibile',
+        // Machine usage report and budgets (machine/[id]/usage.tsx)
+        title: 'Utilizzo',
+        subtitle: 'Utilizzo di token, costi e budget',
+        footer: 'I costi sono stime basate sui prezzi di listino, registrate man mano che le sessioni riportano l\'uso di token. Solo le sessioni Claude riportano l\'uso; Codex, Gemini e gli altri agenti non vengono conteggiati e i budget non li limitano.',
+        period: 'Periodo',
+        groupBy: 'Raggruppa per',
+        byDay: 'Per giorno',
+        byProject: 'Per progetto',
+        byAgent: 'Per agente',
+        bySession: 'Per sessione',
+        total: 'Totale',
+        unknown: 'Sconosciuto',
+        tokenBreakdown: ({ input, output, cached }: { input: string; output: string; cached: string }) => `${input} in ingresso · ${output} in uscita · ${cached} in cache`,
+        budgets: 'Budget',
+        budgetsFooter: 'Ricevi una notifica quando la spesa supera un budget. I budget che fermano i turni terminano anche il turno corrente di ogni sessione coperta fino alla fine del periodo. Tocca un budget per rimuoverlo.',
+        budgetDaily: ({ limit }: { limit: string }) => `${limit} al giorno`,
+        budgetMonthly: ({ limit }: { limit: string }) => `${limit} al mese`,
+        allProjects: 'Tutti i progetti',
+        actionWarn: 'Avvisa',
+        actionPause: 'Ferma i turni',
+        addBudget: 'Aggiungi budget',
+        budgetAddFailed: 'Impossibile aggiungere il budget',
+        removeBudget: 'Rimuovere il budget?',
+        limitPlaceholder: 'Limite in USD, ad es. 20',
+        perDay: 'Al giorno',
+        perMonth: 'Al mese',
+        projectPlaceholder: 'Directory del progetto (facoltativa)',
+        pauseWhenExceeded: 'Ferma i turni al superamento',
+        pauseWhenExceededSubtitle: 'Altrimenti ricevi solo una notifica',
     },
 
     feed: {
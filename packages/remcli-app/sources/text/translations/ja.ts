@@ -30,6 +30,16 @@ export const ja: TranslationStructure = {
         emptyTitle: '受信トレイは空です',
         emptyDescription: '友達と接続してセッションを共有しましょう',
         updates: '更新',
+        emptyNotificationsDescription: 'セッションからの通知がここに表示されます：権限リクエスト、完了したターン、クラッシュ。',
+        new: '新着',
+        earlier: '以前',
+        markAllSeen: 'すべて既読にする',
+        permissionTitle: ({ tool }: { tool: string }) => `権限が必要です: ${tool}`,
+        permissionBody: 'セッションが承認を待っています',
+        turnFinishedTitle: 'ターン完了',
+        turnFinishedBody: 'セッションが次のメッセージを待っています',
+        sessionCrashedTitle: 'セッションがクラッシュしました',
+        sessionCrashedBody: 'セッションが予期せず停止しました',
     },
 
     common: {
@@ -96,6 +106,33 @@ export const ja: TranslationStructure = {
         deleteConfirm: 'プロファイル「{name}」を削除してもよろしいですか？',
         editProfile: 'プロファイルを編集',
         addProfileTitle: '新しいプロファイルを追加',
+        codexBackend: {
+            title: 'Codex バックエンド',
+            footer: 'このプロファイルで開始した Codex セッションが Codex と通信する方法です。',
+            mcp: 'MCP サーバー',
+            mcpDescription: 'codex mcp-server を実行（デフォルト）',
+            acp: 'ACP アダプター',
+            acpDescription: 'codex-acp を実行（マシンにインストールが必要）',
+        },
+        permissionTimeout: {
+            title: '権限リクエストのタイムアウト',
+            footer: '権限リクエストに時間内に応答がない場合に自動で判断します。',
+            off: '応答を待つ',
+            minutes: ({ count }: { count: number }) => `${count}分`,
+            actionTitle: '時間切れのとき',
+            deny: '拒否',
+            denyDescription: 'ツール呼び出しを拒否し、エージェントは続行します',
+            approveReadOnly: '読み取り専用ツールを承認',
+            approveReadOnlyDescription: '読み取りのみのツールを許可し、それ以外は拒否します',
+            pause: 'セッションを一時停止',
+            pauseDescription: 'ツール呼び出しを拒否し、戻るまで停止します',
+            countdownDeny: ({ time }: { time: string }) => `${time} 後に自動拒否`,
+            countdownApproveReadOnly: ({ time }: { time: string }) => `${time} 後に自動判断`,
+            countdownPause: ({ time }: { time: string }) => `${time} 後に一時停止`,
+            timedOutApproved: 'タイムアウトにより自動承認',
+            timedOutDenied: 'タイムアウトにより自動拒否',
+            timedOutPaused: 'タイムアウトによりセッションを一時停止',
+        },
         delete: {
             title: 'プロファイルを削除',
             message: ({ name }: { name: string }) => `「${name}」を削除してもよろしいですか？この操作は元に戻せません。`,
@@ -168,6 +205,8 @@ export const ja: TranslationStructure = {
         usageSubtitle: 'API使用量とコストを確認',
         profiles: 'プロファイル',
         profilesSubtitle: 'セッション用の環境変数プロファイルを管理',
+        devices: 'デバイス',
+        devicesSubtitle: 'このコンピューターとペアリングされたスマートフォンやブラウザを管理',
 
         // Dynamic settings messages
         accountConnected: ({ service }: { service: string }) => `${service}アカウントが接続されました`,
@@ -331,8 +370,21 @@ export const ja: TranslationStructure = {
         viewAll: 'すべてのセッションを表示',
     },
 
+    sessionSearch: {
+        title: 'メッセージを検索',
+        placeholder: 'メッセージを検索',
+        hint: 'アプリに読み込まれたメッセージと、オンラインのマシン上の Claude・Codex・Gemini のログを検索します。',
+        noResults: 'メッセージが見つかりません',
+        results: ({ count }: { count: number }) => `${count} 件`,
+    },
+
     session: {
         inputPlaceholder: 'メッセージを入力...',
+        attach: '添付',
+        attachPhoto: '写真',
+        attachFile: 'ファイル',
+        attachmentTooLarge: ({ size }: { size: number }) => `添付ファイルは${size} MB以下にしてください`,
+        attachmentFailed: 'ファイルを添付できませんでした',
     },
 
     commandPalette: {
@@ -352,6 +404,9 @@ export const ja: TranslationStructure = {
         claudeCodeSessionIdCopied: 'Claude Code Session IDがクリップボードにコピーされました',
         aiProvider: 'AIプロバイダー',
         failedToCopyClaudeCodeSessionId: 'Claude Code Session IDのコピーに失敗しました',
+        forks: '分岐',
+        forksFooter: '互いに分岐したセッションです。タップして開きます。',
+        thisSession: 'このセッション',
         metadataCopied: 'メタデータがクリップボードにコピーされました',
         failedToCopyMetadata: 'メタデータのコピーに失敗しました',
         failedToKillSession: 'セッションの終了に失敗しました',
@@ -363,6 +418,8 @@ export const ja: TranslationStructure = {
         quickActions: 'クイックアクション',
         viewMachine: 'マシンを表示',
         viewMachineSubtitle: 'マシンの詳細とセッションを表示',
+        permissionRules: '権限ルール',
+        permissionRulesSubtitle: 'このプロジェクトでツールを許可・確認・拒否',
         killSessionSubtitle: 'セッションを即座に終了',
         archiveSessionSubtitle: 'このセッションをアーカイブして停止',
         metadata: 'メタデータ',
@@ -597,6 +654,19 @@ export const ja: TranslationStructure = {
         }
     },
 
+    settingsDevices: {
+        pairedDevices: 'ペアリング済みデバイス',
+        footer: 'QRコードをスキャンした各デバイスには個別のアクセス権が付与されます。紛失したデバイスはここで取り消せます。他のデバイスは接続されたままです。',
+        noDevices: 'ペアリング済みのデバイスはありません',
+        thisDevice: ({ name }: { name: string }) => `${name}（このデバイス）`,
+        lastSeen: ({ time }: { time: string }) => `最終接続: ${time}`,
+        revoke: '取り消す',
+        revokeTitle: ({ name }: { name: string }) => `${name} を取り消しますか？`,
+        revokeConfirm: 'このデバイスは切断され、再接続するには新しいQRコードをスキャンする必要があります。',
+        revokeCurrentConfirm: '現在使用中のデバイスです。サインアウトされ、再接続するには新しいQRコードをスキャンする必要があります。',
+        revokeFailed: 'デバイスの取り消しに失敗しました',
+    },
+
     settingsAccount: {
         // Account settings screen
         accountInformation: 'アカウント情報',
@@ -768,6 +838,17 @@ export const ja: TranslationStructure = {
         lastSeen: '最終確認',
         never: 'なし',
         metadataVersion: 'メタデータバージョン',
+        auditLog: '監査ログ',
+        auditLogFooter: 'デーモンの最近のイベント: RPC 呼び出し、セッションの開始と停止、権限の判断、拒否された接続。完全なログは `remcli daemon audit` で確認できます。',
+        auditLogEmpty: 'まだイベントは記録されていません',
+        auditRpc: ({ method }: { method: string }) => `RPC: ${method}`,
+        auditSessionSpawn: 'セッション開始',
+        auditSessionStop: 'セッション停止',
+        auditPermission: ({ tool }: { tool: string }) => `権限: ${tool}`,
+        auditAuthFailure: '認証失敗',
+        forgetDaemon: 'デーモンを削除',
+        forgetDaemonSubtitle: 'このデーモンとの接続を解除し、そのマシンとセッションを非表示にします',
+        forgetDaemonConfirm: 'セッションはそのコンピューターで動作し続けます。再接続するには QR コードをもう一度スキャンしてください。',
         untitledSession: '無題のセッション',
         back: '戻る',
     },
@@ -777,6 +858,10 @@ export const ja: TranslationStructure = {
         unknownEvent: '不明なイベント',
         usageLimitUntil: ({ time }: { time: string }) => `${time}まで使用制限中`,
         unknownTime: '不明な時間',
+        forkFromHere: 'ここから分岐',
+        forkFromHereConfirm: 'このメッセージの直前から会話を引き継ぐ新しいセッションを開始します。このセッションはそのまま残ります。',
+        fork: '分岐',
+        forkFailed: 'セッションを分岐できませんでした',
     },
 
     codex: {
@@ -796,6 +881,86 @@ export const ja: TranslationStructure = {
         }
     },
 
+    permissionRules: {
+        // Per-project permission rules (app/(app)/session/[id]/permissions.tsx)
+        title: '権限ルール',
+        yesForProject: 'はい、このプロジェクトでは常に許可',
+        allow: '許可',
+        ask: '確認',
+        deny: '拒否',
+        empty: 'ルールはまだありません',
+        emptyDescription: 'ルールは権限リクエストがスマートフォンに届く前にチェックされます。リクエストで「このプロジェクトでは常に許可」を使うか、下でルールを追加してください。',
+        addRule: 'ルールを追加',
+        addTitle: ({ action }: { action: string }) => `${action}ルール`,
+        addHelp: 'コマンドは Bash(npm test*)、ファイルは Edit(src/**)、該当ファイルに触れるすべてのツールは path:secrets/**、MCP サーバーは mcp:github、またはツール名を入力します。',
+        add: '追加',
+        invalidRule: 'ルールを読み取れませんでした。構文を確認してもう一度お試しください。',
+        saveFailed: 'ルールを保存できませんでした',
+        loadFailed: 'ルールを読み込めませんでした。マシンがオンラインになったら引っ張って更新してください。',
+        removeTitle: 'ルールを削除しますか？',
+        remove: '削除',
+        footer: ({ path }: { path: string }) => `${path} に保存されます。拒否は確認より、確認は許可より優先されます。`,
+    },
+
+    schedules: {
+        // Scheduled sessions (machine/[id].tsx and machine/[id]/schedule.tsx)
+        title: 'スケジュールされたセッション',
+        footer: 'デーモンは予定時刻（マシンのローカル時刻）にこれらのセッションを開始します。前回の実行がまだ動作中の場合はスキップされます。',
+        addTitle: 'スケジュールセッションを追加',
+        disabled: '無効',
+        neverRun: '未実行',
+        runStarted: ({ time }: { time: string }) => `${time}に開始`,
+        runSkipped: ({ time }: { time: string }) => `${time}にスキップ（前回の実行がまだ動作中）`,
+        runFailed: ({ time }: { time: string }) => `${time}に失敗`,
+        openLastSession: '最後のセッションを開く',
+        runNow: '今すぐ実行',
+        enable: '有効にする',
+        disable: '無効にする',
+        delete: '削除',
+        name: '名前',
+        namePlaceholder: '任意。省略時はプロンプトを使用',
+        when: '実行タイミング',
+        cronFooter: 'プリセットを選ぶか cron 式を入力します: 分 時 日 月 曜日（例: 30 8 * * 1-5）。',
+        presetHourly: '毎時',
+        presetDaily: '毎日 9:00',
+        presetWeekdays: '平日 9:00',
+        presetWeekly: '毎週月曜 9:00',
+        directory: 'ディレクトリ',
+        agent: 'エージェント',
+        prompt: 'プロンプト',
+        promptFooter: '各スケジュールセッションの最初のメッセージとして送信されます。',
+        promptPlaceholder: 'テストを実行して失敗を修正してください',
+        add: 'スケジュールを追加',
+        addFailed: 'スケジュールセッションを追加できませんでした',
+    },
+
+    remoteTerminal: {
+        // Remote terminals (machine/[id]/terminal.tsx)
+        title: 'ターミナル',
+        machineFooter: '上で入力したディレクトリでこのマシンのシェルを開きます。画面を閉じるとシェルは終了します。',
+        open: 'ターミナルを開く',
+        attach: 'ターミナルに接続',
+        attachSubtitle: 'エージェントのターミナルを表示・操作します（tmux で起動したセッション）',
+        openInProject: 'プロジェクトでターミナルを開く',
+        connecting: '接続中…',
+        exited: 'ターミナルは終了しました',
+        openFailed: ({ error }: { error: string }) => `ターミナルを開けませんでした: ${error}`,
+    },
+
+    runCommand: {
+        // Streaming shell commands (session/[id]/run.tsx)
+        title: 'コマンドを実行',
+        subtitle: 'プロジェクトでシェルコマンドを実行し、出力を確認します',
+        run: '実行',
+        cancel: 'キャンセル',
+        running: '実行中…',
+        exited: ({ code }: { code: string }) => `終了コード ${code} で終了しました`,
+        killed: ({ signal }: { signal: string }) => `${signal} で停止しました`,
+        cancelled: 'キャンセルしました',
+        timedOut: '制限時間を超えたため停止しました',
+        failedToStart: ({ error }: { error: string }) => `コマンドを実行できませんでした: ${error}`,
+    },
+
     textSelection: {
         // Text selection screen
         selectText: 'テキスト範囲を選択',
@@ -905,6 +1070,35 @@ export const ja: TranslationStructure = {
         usageOverTime: '使用量の推移',
         byModel: 'モデル別',
         noData: '使用データがありません',
+        // Machine usage report and budgets (machine/[id]/usage.tsx)
+        title: '使用量',
+        subtitle: 'トークン使用量、コスト、予算',
+        footer: 'コストは定価に基づく推定値で、セッションがトークン使用量を報告するたびに記録されます。使用量を報告するのは Claude セッションのみです。Codex、Gemini などのエージェントは集計されず、予算による制限も受けません。',
+        period: '期間',
+        groupBy: 'グループ化',
+        byDay: '日別',
+        byProject: 'プロジェクト別',
+        byAgent: 'エージェント別',
+        bySession: 'セッション別',
+        total: '合計',
+        unknown: '不明',
+        tokenBreakdown: ({ input, output, cached }: { input: string; output: string; cached: string }) => `入力 ${input} · 出力 ${output} · キャッシュ ${cached}`,
+        budgets: '予算',
+        budgetsFooter: '支出が予算を超えると通知されます。ターンを停止する予算は、期間が終わるまで対象セッションの現在のターンも終了します。予算をタップすると削除できます。',
+        budgetDaily: ({ limit }: { limit: string }) => `1日 ${limit}`,
+        budgetMonthly: ({ limit }: { limit: string }) => `1か月 ${limit}`,
+        allProjects: 'すべてのプロジェクト',
+        actionWarn: '通知のみ',
+        actionPause: 'ターンを停止',
+        addBudget: '予算を追加',
+        budgetAddFailed: '予算を追加できませんでした',
+        removeBudget: '予算を削除しますか？',
+        limitPlaceholder: '上限（USD）例: 20',
+        perDay: '1日あたり',
+        perMonth: '1か月あたり',
+        projectPlaceholder: 'プロジェクトのディレクトリ（任意）',
+        pauseWhenExceeded: '超過時にターンを停止',
+        pauseWhenExceededSubtitle: 'オフの場合は通知のみ',
     },
 
     feed: {
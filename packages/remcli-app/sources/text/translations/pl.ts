@@ -38,6 +38,16 @@ export const pl: TranslationStructure = {
         emptyTitle: 'Pusta skrzynka',
         emptyDescription: 'Połącz się z przyjaciółmi, aby zacząć udostępniać sesje',
         updates: 'Aktualizacje',
+        emptyNotificationsDescription: 'Tutaj pojawiają się alerty z Twoich sesji: prośby o uprawnienia, zakończone tury i awarie.',
+        new: 'Nowe',
+        earlier: 'Wcześniejsze',
+        markAllSeen: 'Oznacz wszystkie jako przeczytane',
+        permissionTitle: ({ tool }: { tool: string }) => `Wymagane uprawnienie: ${tool}`,
+        permissionBody: 'Sesja czeka na zatwierdzenie',
+        turnFinishedTitle: 'Tura zakończona',
+        turnFinishedBody: 'Sesja czeka na Twoją kolejną wiadomość',
+        sessionCrashedTitle: 'Sesja uległa awarii',
+        sessionCrashedBody: 'Sesja nieoczekiwanie się zatrzymała',
     },
 
     common: {
@@ -147,6 +157,8 @@ export const pl: TranslationStructure = {
         usageSubtitle: 'Zobacz użycie API i koszty',
         profiles: 'Profile',
         profilesSubtitle: 'Zarządzaj profilami zmiennych środowiskowych dla sesji',
+        devices: 'Urządzenia',
+        devicesSubtitle: 'Zarządzaj telefonami i przeglądarkami sparowanymi z tym komputerem',
 
         // Dynamic settings messages
         accountConnected: ({ service }: { service: string }) => `Konto ${service} połączone`,
@@ -310,8 +322,21 @@ export const pl: TranslationStructure = {
         viewAll: 'Zobacz wszystkie sesje',
     },
 
+    sessionSearch: {
+        title: 'Szukaj wiadomości',
+        placeholder: 'Szukaj wiadomości',
+        hint: 'Przeszukuje wiadomości wczytane w aplikacji oraz logi Claude, Codex i Gemini na Twoich komputerach online.',
+        noResults: 'Nie znaleziono wiadomości',
+        results: ({ count }: { count: number }) => `${count} ${plural({ count, one: 'wynik', few: 'wyniki', many: 'wyników' })}`,
+    },
+
     session: {
         inputPlaceholder: 'Wpisz wiadomość...',
+        attach: 'Załącz',
+        attachPhoto: 'Zdjęcie',
+        attachFile: 'Plik',
+        attachmentTooLarge: ({ size }: { size: number }) => `Załączniki mogą mieć maksymalnie ${size} MB`,
+        attachmentFailed: 'Nie udało się załączyć pliku',
     },
 
     commandPalette: {
@@ -331,6 +356,9 @@ export const pl: TranslationStructure = {
         claudeCodeSessionIdCopied: 'ID sesji Claude Code skopiowane do schowka',
         aiProvider: 'Dostawca AI',
         failedToCopyClaudeCodeSessionId: 'Nie udało się skopiować ID sesji Claude Code',
+        forks: 'Rozgałęzienia',
+        forksFooter: 'Sesje rozgałęzione jedna z drugiej. Dotknij, aby otworzyć.',
+        thisSession: 'Ta sesja',
         metadataCopied: 'Metadane skopiowane do schowka',
         failedToCopyMetadata: 'Nie udało się skopiować metadanych',
         failedToKillSession: 'Nie udało się zakończyć sesji',
@@ -342,6 +370,8 @@ export const pl: TranslationStructure = {
         quickActions: 'Szybkie akcje',
         viewMachine: 'Zobacz maszynę',
         viewMachineSubtitle: 'Zobacz szczegóły maszyny i sesje',
+        permissionRules: 'Reguły uprawnień',
+        permissionRulesSubtitle: 'Zezwalaj, pytaj lub odmawiaj narzędziom w tym projekcie',
         killSessionSubtitle: 'Natychmiastowo zakończ sesję',
         archiveSessionSubtitle: 'Zarchiwizuj tę sesję i zatrzymaj ją',
         metadata: 'Metadane',
@@ -575,6 +605,19 @@ export const pl: TranslationStructure = {
         }
     },
 
+    settingsDevices: {
+        pairedDevices: 'Sparowane urządzenia',
+        footer: 'Każde urządzenie, które zeskanuje kod QR, otrzymuje własny dostęp. Tutaj możesz odebrać dostęp zgubionemu urządzeniu — pozostałe pozostaną połączone.',
+        noDevices: 'Brak sparowanych urządzeń',
+        thisDevice: ({ name }: { name: string }) => `${name} (to urządzenie)`,
+        lastSeen: ({ time }: { time: string }) => `Ostatnio widziane ${time}`,
+        revoke: 'Odbierz dostęp',
+        revokeTitle: ({ name }: { name: string }) => `Odebrać dostęp urządzeniu ${name}?`,
+        revokeConfirm: 'To urządzenie zostanie rozłączone i będzie musiało zeskanować nowy kod QR, aby połączyć się ponownie.',
+        revokeCurrentConfirm: 'To urządzenie, którego teraz używasz. Zostaniesz wylogowany i będziesz musiał zeskanować nowy kod QR, aby połączyć się ponownie.',
+        revokeFailed: 'Nie udało się odebrać dostępu urządzeniu',
+    },
+
     settingsAccount: {
         // Account settings screen
         accountInformation: 'Informacje o koncie',
@@ -746,6 +789,17 @@ export const pl: TranslationStructure = {
         lastSeen: 'Ostatnio widziana',
         never: 'Nigdy',
         metadataVersion: 'Wersja metadanych',
+        auditLog: 'Dziennik audytu',
+        auditLogFooter: 'Ostatnie zdarzenia demona: wywołania RPC, uruchomione i zatrzymane sesje, decyzje o uprawnieniach oraz odrzucone połączenia. Uruchom `remcli daemon audit`, aby zobaczyć pełny dziennik.',
+        auditLogEmpty: 'Brak zarejestrowanych zdarzeń',
+        auditRpc: ({ method }: { method: string }) => `RPC: ${method}`,
+        auditSessionSpawn: 'Sesja uruchomiona',
+        auditSessionStop: 'Sesja zatrzymana',
+        auditPermission: ({ tool }: { tool: string }) => `Uprawnienie: ${tool}`,
+        auditAuthFailure: 'Błąd uwierzytelniania',
+        forgetDaemon: 'Zapomnij demona',
+        forgetDaemonSubtitle: 'Rozłącz tego demona i ukryj jego maszyny oraz sesje',
+        forgetDaemonConfirm: 'Jego sesje nadal działają na tamtym komputerze. Zeskanuj ponownie kod QR, aby połączyć się ponownie.',
         untitledSession: 'Sesja bez nazwy',
         back: 'Wstecz',
     },
@@ -755,6 +809,10 @@ export const pl: TranslationStructure = {
         unknownEvent: 'Nieznane zdarzenie',
         usageLimitUntil: ({ time }: { time: string }) => `Osiągnięto limit użycia do ${time}`,
         unknownTime: 'nieznany czas',
+        forkFromHere: 'Rozgałęź stąd',
+        forkFromHereConfirm: 'Rozpocznij nową sesję, która podejmie rozmowę tuż przed tą wiadomością. Ta sesja pozostanie bez zmian.',
+        fork: 'Rozgałęź',
+        forkFailed: 'Nie udało się rozgałęzić sesji',
     },
 
     codex: {
@@ -774,6 +832,86 @@ export const pl: TranslationStructure = {
         }
     },
 
+    permissionRules: {
+        // Per-project permission rules (app/(app)/session/[id]/permissions.tsx)
+        title: 'Reguły uprawnień',
+        yesForProject: 'Tak, zawsze zezwalaj w tym projekcie',
+        allow: 'Zezwól',
+        ask: 'Pytaj',
+        deny: 'Odmów',
+        empty: 'Brak reguł',
+        emptyDescription: 'Reguły są sprawdzane, zanim prośba o uprawnienie trafi na Twój telefon. Użyj "zawsze zezwalaj w tym projekcie" przy prośbie lub dodaj reguły poniżej.',
+        addRule: 'Dodaj regułę',
+        addTitle: ({ action }: { action: string }) => `Reguła: ${action}`,
+        addHelp: 'Bash(npm test*) dla poleceń, Edit(src/**) dla plików, path:secrets/** dla każdego narzędzia dotykającego tych plików, mcp:github dla serwera MCP lub nazwa narzędzia.',
+        add: 'Dodaj',
+        invalidRule: 'Nie udało się odczytać reguły. Sprawdź składnię i spróbuj ponownie.',
+        saveFailed: 'Nie udało się zapisać reguł',
+        loadFailed: 'Nie udało się wczytać reguł. Przeciągnij, aby odświeżyć, gdy maszyna będzie online.',
+        removeTitle: 'Usunąć regułę?',
+        remove: 'Usuń',
+        footer: ({ path }: { path: string }) => `Zapisano w ${path}. Odmów ma pierwszeństwo przed pytaj, a pytaj przed zezwól.`,
+    },
+
+    schedules: {
+        // Scheduled sessions (machine/[id].tsx and machine/[id]/schedule.tsx)
+        title: 'Zaplanowane sesje',
+        footer: 'Demon uruchamia te sesje o zaplanowanej godzinie (czas lokalny maszyny). Uruchomienie jest pomijane, gdy poprzednie nadal trwa.',
+        addTitle: 'Dodaj zaplanowaną sesję',
+        disabled: 'Wyłączona',
+        neverRun: 'Nigdy nie uruchomiono',
+        runStarted: ({ time }: { time: string }) => `Uruchomiono ${time}`,
+        runSkipped: ({ time }: { time: string }) => `Pominięto ${time}, poprzednie uruchomienie nadal trwa`,
+        runFailed: ({ time }: { time: string }) => `Niepowodzenie ${time}`,
+        openLastSession: 'Otwórz ostatnią sesję',
+        runNow: 'Uruchom teraz',
+        enable: 'Włącz',
+        disable: 'Wyłącz',
+        delete: 'Usuń',
+        name: 'Nazwa',
+        namePlaceholder: 'Opcjonalnie, domyślnie treść polecenia',
+        when: 'Kiedy',
+        cronFooter: 'Wybierz gotową opcję lub wpisz wyrażenie cron: minuta godzina dzień miesiąc dzień-tygodnia, np. 30 8 * * 1-5.',
+        presetHourly: 'Co godzinę',
+        presetDaily: 'Codziennie o 9:00',
+        presetWeekdays: 'W dni robocze o 9:00',
+        presetWeekly: 'W poniedziałki o 9:00',
+        directory: 'Katalog',
+        agent: 'Agent',
+        prompt: 'Polecenie',
+        promptFooter: 'Wysyłane jako pierwsza wiadomość każdej zaplanowanej sesji.',
+        promptPlaceholder: 'Uruchom testy i napraw błędy',
+        add: 'Dodaj harmonogram',
+        addFailed: 'Nie udało się dodać zaplanowanej sesji',
+    },
+
+    remoteTerminal: {
+        // Remote terminals (machine/[id]/terminal.tsx)
+        title: 'Terminal',
+        machineFooter: 'Otwiera powłokę na tej maszynie w katalogu wpisanym powyżej. Zamknięcie ekranu kończy powłokę.',
+        open: 'Otwórz terminal',
+        attach: 'Podłącz terminal',
+        attachSubtitle: 'Podgląd i sterowanie terminalem agenta (sesje uruchomione w tmux)',
+        openInProject: 'Otwórz terminal w projekcie',
+        connecting: 'Łączenie…',
+        exited: 'Terminal zakończył działanie',
+        openFailed: ({ error }: { error: string }) => `Nie udało się otworzyć terminala: ${error}`,
+    },
+
+    runCommand: {
+        // Streaming shell commands (session/[id]/run.tsx)
+        title: 'Uruchom polecenie',
+        subtitle: 'Uruchom polecenie powłoki w projekcie i obserwuj wynik',
+        run: 'Uruchom',
+        cancel: 'Anuluj',
+        running: 'Uruchomione…',
+        exited: ({ code }: { code: string }) => `Zakończono z kodem ${code}`,
+        killed: ({ signal }: { signal: string }) => `Zatrzymano sygnałem ${signal}`,
+        cancelled: 'Anulowano',
+        timedOut: 'Zatrzymano po przekroczeniu limitu czasu',
+        failedToStart: ({ error }: { error: string }) => `Nie udało się uruchomić polecenia: ${error}`,
+    },
+
     textSelection: {
         // Text selection screen
         selectText: 'Wybierz zakres tekstu',
@@ -896,6 +1034,35 @@ export const pl: TranslationStructure = {
         usageOverTime: 'Użycie w czasie',
         byModel: 'Według modelu',
         noData: 'Brak danych o użyciu',
+        // Machine usage report and budgets (machine/[id]/usage.tsx)
+        title: 'Użycie',
+        subtitle: 'Użycie tokenów, koszty i budżety',
+        footer: 'Koszty są szacowane według cen katalogowych i zapisywane, gdy sesje zgłaszają użycie tokenów. Użycie zgłaszają tylko sesje Claude; Codex, Gemini i inni agenci nie są liczeni, a budżety ich nie ograniczają.',
+        period: 'Okres',
+        groupBy: 'Grupuj według',
+        byDay: 'Według dnia',
+        byProject: 'Według projektu',
+        byAgent: 'Według agenta',
+        bySession: 'Według sesji',
+        total: 'Razem',
+        unknown: 'Nieznane',
+        tokenBreakdown: ({ input, output, cached }: { input: string; output: string; cached: string }) => `${input} wej. · ${output} wyj. · ${cached} z pamięci podręcznej`,
+        budgets: 'Budżety',
+        budgetsFooter: 'Otrzymasz powiadomienie, gdy wydatki przekroczą budżet. Budżety zatrzymujące tury kończą też bieżącą turę każdej objętej sesji do końca okresu. Dotknij budżetu, aby go usunąć.',
+        budgetDaily: ({ limit }: { limit: string }) => `${limit} dziennie`,
+        budgetMonthly: ({ limit }: { limit: string }) => `${limit} miesięcznie`,
+        allProjects: 'Wszystkie projekty',
+        actionWarn: 'Ostrzega',
+        actionPause: 'Zatrzymuje tury',
+        addBudget: 'Dodaj budżet',
+        budgetAddFailed: 'Nie udało się dodać budżetu',
+        removeBudget: 'Usunąć budżet?',
+        limitPlaceholder: 'Limit w USD, np. 20',
+        perDay: 'Dziennie',
+        perMonth: 'Miesięcznie',
+        projectPlaceholder: 'Katalog projektu (opcjonalnie)',
+        pauseWhenExceeded: 'Zatrzymuj tury po przekroczeniu',
+        pauseWhenExceededSubtitle: 'W przeciwnym razie otrzymasz tylko powiadomienie',
     },
 
     feed: {
@@ -929,6 +1096,33 @@ export const pl: TranslationStructure = {
         deleteConfirm: 'Czy na pewno chcesz usunąć profil "{name}"?',
         editProfile: 'Edytuj Profil',
         addProfileTitle: 'Dodaj Nowy Profil',
+        codexBackend: {
+            title: 'Backend Codex',
+            footer: 'Jak sesje Codex uruchomione z tym profilem komunikują się z Codex.',
+            mcp: 'Serwer MCP',
+            mcpDescription: 'Uruchamia codex mcp-server (domyślnie)',
+            acp: 'Adapter ACP',
+            acpDescription: 'Uruchamia codex-acp, który musi być zainstalowany na maszynie',
+        },
+        permissionTimeout: {
+            title: 'Limit czasu uprawnień',
+            footer: 'Decyduj automatycznie, gdy prośba o uprawnienie nie zostanie na czas obsłużona.',
+            off: 'Czekaj na odpowiedź',
+            minutes: ({ count }: { count: number }) => `${count} min`,
+            actionTitle: 'Gdy czas minie',
+            deny: 'Odmów',
+            denyDescription: 'Odrzuć wywołanie i pozwól agentowi kontynuować',
+            approveReadOnly: 'Zatwierdzaj narzędzia tylko do odczytu',
+            approveReadOnlyDescription: 'Zezwalaj na narzędzia, które tylko czytają, resztę odrzucaj',
+            pause: 'Wstrzymaj sesję',
+            pauseDescription: 'Odrzuć wywołanie i czekaj na Twój powrót',
+            countdownDeny: ({ time }: { time: string }) => `Automatyczna odmowa za ${time}`,
+            countdownApproveReadOnly: ({ time }: { time: string }) => `Automatyczna decyzja za ${time}`,
+            countdownPause: ({ time }: { time: string }) => `Wstrzymanie za ${time}`,
+            timedOutApproved: 'Zatwierdzono automatycznie po upływie czasu',
+            timedOutDenied: 'Odrzucono automatycznie po upływie czasu',
+            timedOutPaused: 'Sesja wstrzymana po upływie czasu',
+        },
         delete: {
             title: 'Usuń Profil',
             message: ({ name }: { name: string }) => `Czy na pewno chcesz usunąć "${name}"? Tej czynności nie można cofnąć.`,
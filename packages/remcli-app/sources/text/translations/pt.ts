@@ -27,6 +27,16 @@ export const pt: TranslationStructure = {
         emptyTitle: 'Caixa de entrada vazia',
         emptyDescription: 'Conecte-se com amigos para começar a compartilhar sessões',
         updates: 'Atualizações',
+        emptyNotificationsDescription: 'Os alertas das suas sessões aparecem aqui: pedidos de permissão, turnos concluídos e falhas.',
+        new: 'Novas',
+        earlier: 'Anteriores',
+        markAllSeen: 'Marcar tudo como visto',
+        permissionTitle: ({ tool }: { tool: string }) => `Permissão necessária: ${tool}`,
+        permissionBody: 'Uma sessão aguarda aprovação',
+        turnFinishedTitle: 'Turno concluído',
+        turnFinishedBody: 'Uma sessão está pronta para sua próxima mensagem',
+        sessionCrashedTitle: 'A sessão falhou',
+        sessionCrashedBody: 'Uma sessão parou inesperadamente',
     },
 
     common: {
@@ -136,6 +146,8 @@ export const pt: TranslationStructure = {
         usageSubtitle: 'Visualizar uso da API e custos',
         profiles: 'Perfis',
         profilesSubtitle: 'Gerenciar perfis de ambiente e variáveis',
+        devices: 'Dispositivos',
+        devicesSubtitle: 'Gerencie os telefones e navegadores pareados com este computador',
 
         // Dynamic settings messages
         accountConnected: ({ service }: { service: string }) => `Conta ${service} conectada`,
@@ -299,8 +311,21 @@ export const pt: TranslationStructure = {
         viewAll: 'Ver todas as sessões',
     },
 
+    sessionSearch: {
+        title: 'Pesquisar mensagens',
+        placeholder: 'Pesquisar mensagens',
+        hint: 'Pesquisa nas mensagens carregadas no app e nos logs do Claude, Codex e Gemini das suas máquinas online.',
+        noResults: 'Nenhuma mensagem encontrada',
+        results: ({ count }: { count: number }) => `${count} ${count === 1 ? 'resultado' : 'resultados'}`,
+    },
+
     session: {
         inputPlaceholder: 'Digite uma mensagem ...',
+        attach: 'Anexar',
+        attachPhoto: 'Foto',
+        attachFile: 'Arquivo',
+        attachmentTooLarge: ({ size }: { size: number }) => `Os anexos devem ter ${size} MB ou menos`,
+        attachmentFailed: 'Não foi possível anexar o arquivo',
     },
 
     commandPalette: {
@@ -320,6 +345,9 @@ export const pt: TranslationStructure = {
         claudeCodeSessionIdCopied: 'ID da sessão Claude Code copiado para a área de transferência',
         aiProvider: 'Provedor de IA',
         failedToCopyClaudeCodeSessionId: 'Falha ao copiar ID da sessão Claude Code',
+        forks: 'Ramificações',
+        forksFooter: 'Sessões ramificadas umas das outras. Toque em uma para abri-la.',
+        thisSession: 'Esta sessão',
         metadataCopied: 'Metadados copiados para a área de transferência',
         failedToCopyMetadata: 'Falha ao copiar metadados',
         failedToKillSession: 'Falha ao encerrar sessão',
@@ -331,6 +359,8 @@ export const pt: TranslationStructure = {
         quickActions: 'Ações rápidas',
         viewMachine: 'Ver máquina',
         viewMachineSubtitle: 'Ver detalhes da máquina e sessões',
+        permissionRules: 'Regras de permissão',
+        permissionRulesSubtitle: 'Permitir, perguntar ou negar ferramentas neste projeto',
         killSessionSubtitle: 'Encerrar imediatamente a sessão',
         archiveSessionSubtitle: 'Arquivar esta sessão e pará-la',
         metadata: 'Metadados',
@@ -565,6 +595,19 @@ export const pt: TranslationStructure = {
         }
     },
 
+    settingsDevices: {
+        pairedDevices: 'Dispositivos pareados',
+        footer: 'Cada dispositivo que escaneia o código QR recebe seu próprio acesso. Revogue aqui um dispositivo perdido — os outros continuam conectados.',
+        noDevices: 'Nenhum dispositivo pareado',
+        thisDevice: ({ name }: { name: string }) => `${name} (este dispositivo)`,
+        lastSeen: ({ time }: { time: string }) => `Visto por último ${time}`,
+        revoke: 'Revogar',
+        revokeTitle: ({ name }: { name: string }) => `Revogar ${name}?`,
+        revokeConfirm: 'Este dispositivo será desconectado e precisará escanear um novo código QR para se reconectar.',
+        revokeCurrentConfirm: 'Este é o dispositivo que você está usando. Você será desconectado e precisará escanear um novo código QR para se reconectar.',
+        revokeFailed: 'Falha ao revogar o dispositivo',
+    },
+
     settingsAccount: {
         // Account settings screen
         accountInformation: 'Informações da conta',
@@ -736,6 +779,17 @@ export const pt: TranslationStructure = {
         lastSeen: 'Visto pela última vez',
         never: 'Nunca',
         metadataVersion: 'Versão dos metadados',
+        auditLog: 'Registro de auditoria',
+        auditLogFooter: 'Eventos recentes do daemon: chamadas RPC, sessões iniciadas e encerradas, decisões de permissão e conexões rejeitadas. Execute `remcli daemon audit` para ver o registro completo.',
+        auditLogEmpty: 'Nenhum evento registrado ainda',
+        auditRpc: ({ method }: { method: string }) => `RPC: ${method}`,
+        auditSessionSpawn: 'Sessão iniciada',
+        auditSessionStop: 'Sessão encerrada',
+        auditPermission: ({ tool }: { tool: string }) => `Permissão: ${tool}`,
+        auditAuthFailure: 'Falha de autenticação',
+        forgetDaemon: 'Esquecer daemon',
+        forgetDaemonSubtitle: 'Desconecta este daemon e oculta suas máquinas e sessões',
+        forgetDaemonConfirm: 'As sessões continuam rodando naquele computador. Escaneie o código QR novamente para reconectar.',
         untitledSession: 'Sessão sem título',
         back: 'Voltar',
     },
@@ -745,6 +799,10 @@ export const pt: TranslationStructure = {
         unknownEvent: 'Evento desconhecido',
         usageLimitUntil: ({ time }: { time: string }) => `Limite de uso atingido até ${time}`,
         unknownTime: 'horário desconhecido',
+        forkFromHere: 'Ramificar a partir daqui',
+        forkFromHereConfirm: 'Inicia uma nova sessão que retoma a conversa logo antes desta mensagem. Esta sessão fica como está.',
+        fork: 'Ramificar',
+        forkFailed: 'Falha ao ramificar a sessão',
     },
 
     codex: {
@@ -764,6 +822,86 @@ export const pt: TranslationStructure = {
         }
     },
 
+    permissionRules: {
+        // Per-project permission rules (app/(app)/session/[id]/permissions.tsx)
+        title: 'Regras de permissão',
+        yesForProject: 'Sim, permitir sempre neste projeto',
+        allow: 'Permitir',
+        ask: 'Perguntar',
+        deny: 'Negar',
+        empty: 'Ainda não há regras',
+        emptyDescription: 'As regras são verificadas antes que um pedido de permissão chegue ao seu telefone. Use "permitir sempre neste projeto" em um pedido ou adicione regras abaixo.',
+        addRule: 'Adicionar regra',
+        addTitle: ({ action }: { action: string }) => `Regra: ${action}`,
+        addHelp: 'Bash(npm test*) para comandos, Edit(src/**) para arquivos, path:secrets/** para qualquer ferramenta que toque nesses arquivos, mcp:github para um servidor MCP, ou o nome de uma ferramenta.',
+        add: 'Adicionar',
+        invalidRule: 'Não foi possível ler a regra. Verifique a sintaxe e tente novamente.',
+        saveFailed: 'Falha ao salvar as regras',
+        loadFailed: 'Não foi possível carregar as regras. Puxe para atualizar quando a máquina estiver online.',
+        removeTitle: 'Remover regra?',
+        remove: 'Remover',
+        footer: ({ path }: { path: string }) => `Salvo em ${path}. Negar prevalece sobre perguntar, e perguntar sobre permitir.`,
+    },
+
+    schedules: {
+        // Scheduled sessions (machine/[id].tsx and machine/[id]/schedule.tsx)
+        title: 'Sessões agendadas',
+        footer: 'O daemon inicia estas sessões no horário agendado (hora local da máquina). Uma execução é ignorada enquanto a anterior ainda estiver ativa.',
+        addTitle: 'Adicionar sessão agendada',
+        disabled: 'Desativada',
+        neverRun: 'Nunca executada',
+        runStarted: ({ time }: { time: string }) => `Iniciada ${time}`,
+        runSkipped: ({ time }: { time: string }) => `Ignorada ${time}, execução anterior ainda ativa`,
+        runFailed: ({ time }: { time: string }) => `Falhou ${time}`,
+        openLastSession: 'Abrir última sessão',
+        runNow: 'Executar agora',
+        enable: 'Ativar',
+        disable: 'Desativar',
+        delete: 'Excluir',
+        name: 'Nome',
+        namePlaceholder: 'Opcional, usa o prompt por padrão',
+        when: 'Quando',
+        cronFooter: 'Escolha uma opção ou digite uma expressão cron: minuto hora dia mês dia-da-semana, ex. 30 8 * * 1-5.',
+        presetHourly: 'A cada hora',
+        presetDaily: 'Todos os dias às 9:00',
+        presetWeekdays: 'Dias úteis às 9:00',
+        presetWeekly: 'Segundas às 9:00',
+        directory: 'Diretório',
+        agent: 'Agente',
+        prompt: 'Prompt',
+        promptFooter: 'Enviado como primeira mensagem de cada sessão agendada.',
+        promptPlaceholder: 'Execute os testes e corrija as falhas',
+        add: 'Adicionar agendamento',
+        addFailed: 'Falha ao adicionar a sessão agendada',
+    },
+
+    remoteTerminal: {
+        // Remote terminals (machine/[id]/terminal.tsx)
+        title: 'Terminal',
+        machineFooter: 'Abre um shell nesta máquina no diretório informado acima. Fechar a tela encerra o shell.',
+        open: 'Abrir terminal',
+        attach: 'Conectar ao terminal',
+        attachSubtitle: 'Veja e controle o terminal do agente (sessões iniciadas no tmux)',
+        openInProject: 'Abrir terminal no projeto',
+        connecting: 'Conectando…',
+        exited: 'O terminal foi encerrado',
+        openFailed: ({ error }: { error: string }) => `Não foi possível abrir o terminal: ${error}`,
+    },
+
+    runCommand: {
+        // Streaming shell commands (session/[id]/run.tsx)
+        title: 'Executar comando',
+        subtitle: 'Execute um comando no projeto e acompanhe a saída',
+        run: 'Executar',
+        cancel: 'Cancelar',
+        running: 'Executando…',
+        exited: ({ code }: { code: string }) => `Encerrado com código ${code}`,
+        killed: ({ signal }: { signal: string }) => `Interrompido por ${signal}`,
+        cancelled: 'Cancelado',
+        timedOut: 'Interrompido após o tempo limite',
+        failedToStart: ({ error }: { error: string }) => `Não foi possível executar o comando: ${error}`,
+    },
+
     textSelection: {
         // Text selection screen
         selectText: 'Selecionar intervalo de texto',
@@ -872,6 +1010,35 @@ export const pt: TranslationStructure = {
         usageOverTime: 'Uso ao longo do tempo',
         byModel: 'Por modelo',
         noData: 'Nenhum dado de uso disponível',
+        // Machine usage report and budgets (machine/[id]/usage.tsx)
+        title: 'Uso',
+        subtitle: 'Uso de tokens, custo e orçamentos',
+        footer: 'Os custos são estimativas com base nos preços de tabela, registrados conforme as sessões informam seu uso de tokens. Apenas as sessões do Claude informam o uso; Codex, Gemini e outros agentes não são contabilizados e os orçamentos não os limitam.',
+        period: 'Período',
+        groupBy: 'Agrupar por',
+        byDay: 'Por dia',
+        byProject: 'Por projeto',
+        byAgent: 'Por agente',
+        bySession: 'Por sessão',
+        total: 'Total',
+        unknown: 'Desconhecido',
+        tokenBreakdown: ({ input, output, cached }: { input: string; output: string; cached: string }) => `${input} de entrada · ${output} de saída · ${cached} em cache`,
+        budgets: 'Orçamentos',
+        budgetsFooter: 'Você recebe uma notificação quando o gasto ultrapassa um orçamento. Orçamentos que interrompem turnos também encerram o turno atual de cada sessão coberta até o fim do período. Toque em um orçamento para removê-lo.',
+        budgetDaily: ({ limit }: { limit: string }) => `${limit} por dia`,
+        budgetMonthly: ({ limit }: { limit: string }) => `${limit} por mês`,
+        allProjects: 'Todos os projetos',
+        actionWarn: 'Avisa',
+        actionPause: 'Interrompe turnos',
+        addBudget: 'Adicionar orçamento',
+        budgetAddFailed: 'Falha ao adicionar orçamento',
+        removeBudget: 'Remover orçamento?',
+        limitPlaceholder: 'Limite em USD, ex.: 20',
+        perDay: 'Por dia',
+        perMonth: 'Por mês',
+        projectPlaceholder: 'Diretório do projeto (opcional)',
+        pauseWhenExceeded: 'Interromper turnos ao ultrapassar',
+        pauseWhenExceededSubtitle: 'Caso contrário, você só recebe uma notificação',
     },
 
     profiles: {
@@ -881,6 +1048,33 @@ export const pt: TranslationStructure = {
         noProfileDescription: 'Crie um perfil para gerenciar sua configuração de ambiente',
         addProfile: 'Adicionar perfil',
         addProfileTitle: 'Título do perfil de adição',
+        codexBackend: {
+            title: 'Backend do Codex',
+            footer: 'Como as sessões do Codex iniciadas com este perfil se comunicam com o Codex.',
+            mcp: 'Servidor MCP',
+            mcpDescription: 'Executa codex mcp-server (padrão)',
+            acp: 'Adaptador ACP',
+            acpDescription: 'Executa codex-acp, que precisa estar instalado na máquina',
+        },
+        permissionTimeout: {
+            title: 'Tempo limite de permissões',
+            footer: 'Decida automaticamente quando um pedido de permissão não for respondido a tempo.',
+            off: 'Aguardar resposta',
+            minutes: ({ count }: { count: number }) => `${count} min`,
+            actionTitle: 'Quando o tempo acabar',
+            deny: 'Negar',
+            denyDescription: 'Rejeita a chamada e deixa o agente continuar',
+            approveReadOnly: 'Aprovar ferramentas somente leitura',
+            approveReadOnlyDescription: 'Permite ferramentas que apenas leem e nega o resto',
+            pause: 'Pausar sessão',
+            pauseDescription: 'Rejeita a chamada e para até você voltar',
+            countdownDeny: ({ time }: { time: string }) => `Negação automática em ${time}`,
+            countdownApproveReadOnly: ({ time }: { time: string }) => `Decisão automática em ${time}`,
+            countdownPause: ({ time }: { time: string }) => `Pausa em ${time}`,
+            timedOutApproved: 'Aprovado automaticamente por tempo esgotado',
+            timedOutDenied: 'Negado automaticamente por tempo esgotado',
+            timedOutPaused: 'Sessão pausada por tempo esgotado',
+        },
         editProfile: 'Editar perfil',
         profileName: 'Nome do perfil',
         enterName: 'Digite o nome do perfil',
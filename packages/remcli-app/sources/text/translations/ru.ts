@@ -38,6 +38,16 @@ export const ru: TranslationStructure = {
         emptyTitle: 'Входящие пусты',
         emptyDescription: 'Подключитесь к друзьям, чтобы начать делиться сессиями',
         updates: 'Обновления',
+        emptyNotificationsDescription: 'Здесь появляются оповещения ваших сессий: запросы разрешений, завершённые ходы и сбои.',
+        new: 'Новые',
+        earlier: 'Ранее',
+        markAllSeen: 'Отметить все как просмотренные',
+        permissionTitle: ({ tool }: { tool: string }) => `Нужно разрешение: ${tool}`,
+        permissionBody: 'Сессия ждёт подтверждения',
+        turnFinishedTitle: 'Ход завершён',
+        turnFinishedBody: 'Сессия ждёт вашего следующего сообщения',
+        sessionCrashedTitle: 'Сессия завершилась сбоем',
+        sessionCrashedBody: 'Сессия неожиданно остановилась',
     },
 
     common: {
@@ -118,6 +128,8 @@ export const ru: TranslationStructure = {
         usageSubtitle: 'Просмотр использования API и затрат',
         profiles: 'Профили',
         profilesSubtitle: 'Управление профилями переменных окружения для сессий',
+        devices: 'Устройства',
+        devicesSubtitle: 'Управление телефонами и браузерами, привязанными к этому компьютеру',
 
         // Dynamic settings messages
         accountConnected: ({ service }: { service: string }) => `Аккаунт ${service} подключен`,
@@ -294,6 +306,9 @@ export const ru: TranslationStructure = {
         claudeCodeSessionIdCopied: 'ID сессии Claude Code скопирован в буфер обмена',
         aiProvider: 'Поставщик ИИ',
         failedToCopyClaudeCodeSessionId: 'Не удалось скопировать ID сессии Claude Code',
+        forks: 'Ответвления',
+        forksFooter: 'Сессии, ответвлённые друг от друга. Нажмите, чтобы открыть.',
+        thisSession: 'Эта сессия',
         metadataCopied: 'Метаданные скопированы в буфер обмена',
         failedToCopyMetadata: 'Не удалось скопировать метаданные',
         failedToKillSession: 'Не удалось завершить сессию',
@@ -305,6 +320,8 @@ export const ru: TranslationStructure = {
         quickActions: 'Быстрые действия',
         viewMachine: 'Посмотреть машину',
         viewMachineSubtitle: 'Посмотреть детали машины и сессии',
+        permissionRules: 'Правила разрешений',
+        permissionRulesSubtitle: 'Разрешать, спрашивать или запрещать инструменты в этом проекте',
         killSessionSubtitle: 'Немедленно завершить сессию',
         archiveSessionSubtitle: 'Архивировать эту сессию и остановить её',
         metadata: 'Метаданные',
@@ -373,8 +390,21 @@ export const ru: TranslationStructure = {
         hoursAgo: ({ count }: { count: number }) => `${count} ${plural({ count, one: 'час', few: 'часа', many: 'часов' })} назад`,
     },
 
+    sessionSearch: {
+        title: 'Поиск сообщений',
+        placeholder: 'Поиск сообщений',
+        hint: 'Ищет в сообщениях, загруженных в приложение, и в логах Claude, Codex и Gemini на ваших компьютерах в сети.',
+        noResults: 'Сообщения не найдены',
+        results: ({ count }: { count: number }) => `${count} ${plural({ count, one: 'результат', few: 'результата', many: 'результатов' })}`,
+    },
+
     session: {
         inputPlaceholder: 'Введите сообщение...',
+        attach: 'Прикрепить',
+        attachPhoto: 'Фото',
+        attachFile: 'Файл',
+        attachmentTooLarge: ({ size }: { size: number }) => `Вложения должны быть не больше ${size} МБ`,
+        attachmentFailed: 'Не удалось прикрепить файл',
     },
 
     commandPalette: {
@@ -575,6 +605,19 @@ export const ru: TranslationStructure = {
         }
     },
 
+    settingsDevices: {
+        pairedDevices: 'Привязанные устройства',
+        footer: 'Каждое устройство, отсканировавшее QR-код, получает собственный доступ. Отзовите здесь доступ потерянного устройства — остальные останутся подключены.',
+        noDevices: 'Нет привязанных устройств',
+        thisDevice: ({ name }: { name: string }) => `${name} (это устройство)`,
+        lastSeen: ({ time }: { time: string }) => `В сети ${time}`,
+        revoke: 'Отозвать',
+        revokeTitle: ({ name }: { name: string }) => `Отозвать доступ ${name}?`,
+        revokeConfirm: 'Устройство будет отключено, и для повторного подключения потребуется отсканировать новый QR-код.',
+        revokeCurrentConfirm: 'Это устройство, которое вы сейчас используете. Вы выйдете из системы, и для повторного подключения потребуется отсканировать новый QR-код.',
+        revokeFailed: 'Не удалось отозвать доступ устройства',
+    },
+
     settingsAccount: {
         // Account settings screen
         accountInformation: 'Информация об аккаунте',
@@ -734,6 +777,17 @@ export const ru: TranslationStructure = {
         lastSeen: 'Последняя активность',
         never: 'Никогда',
         metadataVersion: 'Версия метаданных',
+        auditLog: 'Журнал аудита',
+        auditLogFooter: 'Последние события демона: вызовы RPC, запуск и остановка сессий, решения по разрешениям и отклонённые подключения. Полный журнал: `remcli daemon audit`.',
+        auditLogEmpty: 'Событий пока нет',
+        auditRpc: ({ method }: { method: string }) => `RPC: ${method}`,
+        auditSessionSpawn: 'Сессия запущена',
+        auditSessionStop: 'Сессия остановлена',
+        auditPermission: ({ tool }: { tool: string }) => `Разрешение: ${tool}`,
+        auditAuthFailure: 'Ошибка аутентификации',
+        forgetDaemon: 'Забыть демон',
+        forgetDaemonSubtitle: 'Отключить этот демон и скрыть его машины и сессии',
+        forgetDaemonConfirm: 'Его сессии продолжат работать на том компьютере. Отсканируйте QR-код снова, чтобы переподключиться.',
         untitledSession: 'Безымянная сессия',
         back: 'Назад',
     },
@@ -743,6 +797,10 @@ export const ru: TranslationStructure = {
         unknownEvent: 'Неизвестное событие',
         usageLimitUntil: ({ time }: { time: string }) => `Лимит использования достигнут до ${time}`,
         unknownTime: 'неизвестное время',
+        forkFromHere: 'Ответвить отсюда',
+        forkFromHereConfirm: 'Начать новую сессию, которая продолжит разговор с момента перед этим сообщением. Эта сессия останется без изменений.',
+        fork: 'Ответвить',
+        forkFailed: 'Не удалось ответвить сессию',
     },
 
     codex: {
@@ -774,6 +832,86 @@ export const ru: TranslationStructure = {
         restartNow: 'Перезапустить',
     },
 
+    permissionRules: {
+        // Per-project permission rules (app/(app)/session/[id]/permissions.tsx)
+        title: 'Правила разрешений',
+        yesForProject: 'Да, всегда разрешать в этом проекте',
+        allow: 'Разрешить',
+        ask: 'Спрашивать',
+        deny: 'Запретить',
+        empty: 'Правил пока нет',
+        emptyDescription: 'Правила проверяются до того, как запрос разрешения попадёт на ваш телефон. Выберите «всегда разрешать в этом проекте» в запросе или добавьте правила ниже.',
+        addRule: 'Добавить правило',
+        addTitle: ({ action }: { action: string }) => `Правило: ${action}`,
+        addHelp: 'Bash(npm test*) для команд, Edit(src/**) для файлов, path:secrets/** для любых инструментов, затрагивающих эти файлы, mcp:github для MCP-сервера или имя инструмента.',
+        add: 'Добавить',
+        invalidRule: 'Не удалось разобрать правило. Проверьте синтаксис и попробуйте снова.',
+        saveFailed: 'Не удалось сохранить правила',
+        loadFailed: 'Не удалось загрузить правила. Потяните, чтобы обновить, когда машина будет в сети.',
+        removeTitle: 'Удалить правило?',
+        remove: 'Удалить',
+        footer: ({ path }: { path: string }) => `Сохраняется в ${path}. Запрет важнее вопроса, вопрос важнее разрешения.`,
+    },
+
+    schedules: {
+        // Scheduled sessions (machine/[id].tsx and machine/[id]/schedule.tsx)
+        title: 'Запланированные сессии',
+        footer: 'Демон запускает эти сессии в назначенное время (локальное время машины). Запуск пропускается, пока предыдущий ещё активен.',
+        addTitle: 'Добавить запланированную сессию',
+        disabled: 'Отключена',
+        neverRun: 'Ещё не запускалась',
+        runStarted: ({ time }: { time: string }) => `Запущена ${time}`,
+        runSkipped: ({ time }: { time: string }) => `Пропущена ${time}, предыдущий запуск ещё активен`,
+        runFailed: ({ time }: { time: string }) => `Ошибка ${time}`,
+        openLastSession: 'Открыть последнюю сессию',
+        runNow: 'Запустить сейчас',
+        enable: 'Включить',
+        disable: 'Отключить',
+        delete: 'Удалить',
+        name: 'Название',
+        namePlaceholder: 'Необязательно, по умолчанию — текст запроса',
+        when: 'Когда',
+        cronFooter: 'Выберите вариант или введите выражение cron: минута час день месяц день-недели, например 30 8 * * 1-5.',
+        presetHourly: 'Каждый час',
+        presetDaily: 'Каждый день в 9:00',
+        presetWeekdays: 'По будням в 9:00',
+        presetWeekly: 'По понедельникам в 9:00',
+        directory: 'Каталог',
+        agent: 'Агент',
+        prompt: 'Запрос',
+        promptFooter: 'Отправляется первым сообщением каждой запланированной сессии.',
+        promptPlaceholder: 'Запусти тесты и исправь ошибки',
+        add: 'Добавить расписание',
+        addFailed: 'Не удалось добавить запланированную сессию',
+    },
+
+    remoteTerminal: {
+        // Remote terminals (machine/[id]/terminal.tsx)
+        title: 'Терминал',
+        machineFooter: 'Открывает оболочку на этой машине в указанном выше каталоге. Закрытие экрана завершает оболочку.',
+        open: 'Открыть терминал',
+        attach: 'Подключиться к терминалу',
+        attachSubtitle: 'Просмотр и управление терминалом агента (сессии, запущенные в tmux)',
+        openInProject: 'Открыть терминал в проекте',
+        connecting: 'Подключение…',
+        exited: 'Терминал завершил работу',
+        openFailed: ({ error }: { error: string }) => `Не удалось открыть терминал: ${error}`,
+    },
+
+    runCommand: {
+        // Streaming shell commands (session/[id]/run.tsx)
+        title: 'Выполнить команду',
+        subtitle: 'Выполните команду в проекте и следите за выводом',
+        run: 'Выполнить',
+        cancel: 'Отмена',
+        running: 'Выполняется…',
+        exited: ({ code }: { code: string }) => `Завершено с кодом ${code}`,
+        killed: ({ signal }: { signal: string }) => `Остановлено сигналом ${signal}`,
+        cancelled: 'Отменено',
+        timedOut: 'Остановлено по истечении времени',
+        failedToStart: ({ error }: { error: string }) => `Не удалось выполнить команду: ${error}`,
+    },
+
     textSelection: {
         // Text selection screen
         selectText: 'Выделить диапазон текста',
@@ -895,6 +1033,35 @@ export const ru: TranslationStructure = {
         usageOverTime: 'Использование во времени',
         byModel: 'По модели',
         noData: 'Данные об использовании недоступны',
+        // Machine usage report and budgets (machine/[id]/usage.tsx)
+        title: 'Использование',
+        subtitle: 'Использование токенов, стоимость и бюджеты',
+        footer: 'Стоимость оценивается по прейскурантным ценам и записывается по мере того, как сессии сообщают об использовании токенов. Использование сообщают только сессии Claude; Codex, Gemini и другие агенты не учитываются, и бюджеты их не ограничивают.',
+        period: 'Период',
+        groupBy: 'Группировать по',
+        byDay: 'По дням',
+        byProject: 'По проектам',
+        byAgent: 'По агентам',
+        bySession: 'По сессиям',
+        total: 'Итого',
+        unknown: 'Неизвестно',
+        tokenBreakdown: ({ input, output, cached }: { input: string; output: string; cached: string }) => `${input} вход · ${output} выход · ${cached} из кэша`,
+        budgets: 'Бюджеты',
+        budgetsFooter: 'Вы получите уведомление, когда расходы превысят бюджет. Бюджеты, останавливающие ходы, также завершают текущий ход каждой охваченной сессии до конца периода. Нажмите на бюджет, чтобы удалить его.',
+        budgetDaily: ({ limit }: { limit: string }) => `${limit} в день`,
+        budgetMonthly: ({ limit }: { limit: string }) => `${limit} в месяц`,
+        allProjects: 'Все проекты',
+        actionWarn: 'Предупреждает',
+        actionPause: 'Останавливает ходы',
+        addBudget: 'Добавить бюджет',
+        budgetAddFailed: 'Не удалось добавить бюджет',
+        removeBudget: 'Удалить бюджет?',
+        limitPlaceholder: 'Лимит в USD, например 20',
+        perDay: 'В день',
+        perMonth: 'В месяц',
+        projectPlaceholder: 'Папка проекта (необязательно)',
+        pauseWhenExceeded: 'Останавливать ходы при превышении',
+        pauseWhenExceededSubtitle: 'Иначе вы получите только уведомление',
     },
 
     feed: {
@@ -928,6 +1095,33 @@ export const ru: TranslationStructure = {
         deleteConfirm: 'Вы уверены, что хотите удалить профиль "{name}"?',
         editProfile: 'Редактировать Профиль',
         addProfileTitle: 'Добавить Новый Профиль',
+        codexBackend: {
+            title: 'Бэкенд Codex',
+            footer: 'Как сессии Codex, запущенные с этим профилем, общаются с Codex.',
+            mcp: 'MCP-сервер',
+            mcpDescription: 'Запускает codex mcp-server (по умолчанию)',
+            acp: 'ACP-адаптер',
+            acpDescription: 'Запускает codex-acp, который должен быть установлен на машине',
+        },
+        permissionTimeout: {
+            title: 'Тайм-аут разрешений',
+            footer: 'Принимать решение автоматически, если на запрос разрешения не ответили вовремя.',
+            off: 'Ждать ответа',
+            minutes: ({ count }: { count: number }) => `${count} мин`,
+            actionTitle: 'Когда время истечёт',
+            deny: 'Запретить',
+            denyDescription: 'Отклонить вызов и позволить агенту продолжить',
+            approveReadOnly: 'Разрешать только чтение',
+            approveReadOnlyDescription: 'Разрешать инструменты, которые только читают, остальные запрещать',
+            pause: 'Приостановить сессию',
+            pauseDescription: 'Отклонить вызов и ждать вашего возвращения',
+            countdownDeny: ({ time }: { time: string }) => `Автозапрет через ${time}`,
+            countdownApproveReadOnly: ({ time }: { time: string }) => `Авторешение через ${time}`,
+            countdownPause: ({ time }: { time: string }) => `Пауза через ${time}`,
+            timedOutApproved: 'Одобрено автоматически по тайм-ауту',
+            timedOutDenied: 'Отклонено автоматически по тайм-ауту',
+            timedOutPaused: 'Сессия приостановлена по тайм-ауту',
+        },
         delete: {
             title: 'Удалить Профиль',
             message: ({ name }: { name: string }) => `Вы уверены, что хотите удалить "${name}"? Это действие нельзя отменить.`,
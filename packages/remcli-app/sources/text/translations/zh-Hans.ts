@@ -29,6 +29,16 @@ export const zhHans: TranslationStructure = {
         emptyTitle: '收件箱为空',
         emptyDescription: '与好友建立连接，开始共享会话',
         updates: '更新',
+        emptyNotificationsDescription: '会话的提醒会显示在这里：权限请求、已完成的回合和崩溃。',
+        new: '新的',
+        earlier: '更早',
+        markAllSeen: '全部标为已读',
+        permissionTitle: ({ tool }: { tool: string }) => `需要权限：${tool}`,
+        permissionBody: '有会话正在等待批准',
+        turnFinishedTitle: '回合已完成',
+        turnFinishedBody: '有会话正在等待你的下一条消息',
+        sessionCrashedTitle: '会话已崩溃',
+        sessionCrashedBody: '有会话意外停止',
     },
 
     common: {
@@ -138,6 +148,8 @@ export const zhHans: TranslationStructure = {
         usageSubtitle: '查看 API 使用情况和费用',
         profiles: '配置文件',
         profilesSubtitle: '管理环境配置文件和变量',
+        devices: '设备',
+        devicesSubtitle: '管理与此电脑配对的手机和浏览器',
 
         // Dynamic settings messages
         accountConnected: ({ service }: { service: string }) => `已连接 ${service} 账户`,
@@ -301,8 +313,21 @@ export const zhHans: TranslationStructure = {
         viewAll: '查看所有会话',
     },
 
+    sessionSearch: {
+        title: '搜索消息',
+        placeholder: '搜索消息',
+        hint: '搜索应用中已加载的消息，以及在线电脑上 Claude、Codex 和 Gemini 的日志。',
+        noResults: '未找到消息',
+        results: ({ count }: { count: number }) => `${count} 条结果`,
+    },
+
     session: {
         inputPlaceholder: '输入消息...',
+        attach: '添加附件',
+        attachPhoto: '照片',
+        attachFile: '文件',
+        attachmentTooLarge: ({ size }: { size: number }) => `附件不能超过 ${size} MB`,
+        attachmentFailed: '无法添加附件',
     },
 
     commandPalette: {
@@ -322,6 +347,9 @@ export const zhHans: TranslationStructure = {
         claudeCodeSessionIdCopied: 'Claude Code 会话 ID 已复制到剪贴板',
         aiProvider: 'AI 提供商',
         failedToCopyClaudeCodeSessionId: '复制 Claude Code 会话 ID 失败',
+        forks: '分叉',
+        forksFooter: '相互分叉的会话。点按即可打开。',
+        thisSession: '当前会话',
         metadataCopied: '元数据已复制到剪贴板',
         failedToCopyMetadata: '复制元数据失败',
         failedToKillSession: '终止会话失败',
@@ -333,6 +361,8 @@ export const zhHans: TranslationStructure = {
         quickActions: '快速操作',
         viewMachine: '查看设备',
         viewMachineSubtitle: '查看设备详情和会话',
+        permissionRules: '权限规则',
+        permissionRulesSubtitle: '在此项目中允许、询问或拒绝工具',
         killSessionSubtitle: '立即终止会话',
         archiveSessionSubtitle: '归档此会话并停止它',
         metadata: '元数据',
@@ -567,6 +597,19 @@ export const zhHans: TranslationStructure = {
         }
     },
 
+    settingsDevices: {
+        pairedDevices: '已配对设备',
+        footer: '每台扫描二维码的设备都有独立的访问权限。可在此撤销丢失的设备，其他设备保持连接。',
+        noDevices: '没有已配对的设备',
+        thisDevice: ({ name }: { name: string }) => `${name}（本设备）`,
+        lastSeen: ({ time }: { time: string }) => `上次在线 ${time}`,
+        revoke: '撤销',
+        revokeTitle: ({ name }: { name: string }) => `撤销 ${name}？`,
+        revokeConfirm: '该设备将断开连接，需要扫描新的二维码才能重新连接。',
+        revokeCurrentConfirm: '这是您正在使用的设备。您将被登出，需要扫描新的二维码才能重新连接。',
+        revokeFailed: '撤销设备失败',
+    },
+
     settingsAccount: {
         // Account settings screen
         accountInformation: '账户信息',
@@ -738,6 +781,17 @@ export const zhHans: TranslationStructure = {
         lastSeen: '最后活跃',
         never: '从未',
         metadataVersion: '元数据版本',
+        auditLog: '审计日志',
+        auditLogFooter: '守护进程的最近事件:RPC 调用、会话启动和停止、权限决定以及被拒绝的连接。运行 `remcli daemon audit` 查看完整日志。',
+        auditLogEmpty: '尚未记录任何事件',
+        auditRpc: ({ method }: { method: string }) => `RPC: ${method}`,
+        auditSessionSpawn: '会话已启动',
+        auditSessionStop: '会话已停止',
+        auditPermission: ({ tool }: { tool: string }) => `权限: ${tool}`,
+        auditAuthFailure: '身份验证失败',
+        forgetDaemon: '忘记守护进程',
+        forgetDaemonSubtitle: '断开此守护进程并隐藏其机器和会话',
+        forgetDaemonConfirm: '其会话会继续在那台电脑上运行。再次扫描其二维码即可重新连接。',
         untitledSession: '无标题会话',
         back: '返回',
     },
@@ -747,6 +801,10 @@ export const zhHans: TranslationStructure = {
         unknownEvent: '未知事件',
         usageLimitUntil: ({ time }: { time: string }) => `使用限制到 ${time}`,
         unknownTime: '未知时间',
+        forkFromHere: '从这里分叉',
+        forkFromHereConfirm: '开始一个新会话，从这条消息之前继续对话。当前会话保持不变。',
+        fork: '分叉',
+        forkFailed: '分叉会话失败',
     },
 
     codex: {
@@ -766,6 +824,86 @@ export const zhHans: TranslationStructure = {
         }
     },
 
+    permissionRules: {
+        // Per-project permission rules (app/(app)/session/[id]/permissions.tsx)
+        title: '权限规则',
+        yesForProject: '是，在此项目中始终允许',
+        allow: '允许',
+        ask: '询问',
+        deny: '拒绝',
+        empty: '暂无规则',
+        emptyDescription: '规则会在权限请求发送到你的手机之前进行检查。在请求上使用“在此项目中始终允许”，或在下方添加规则。',
+        addRule: '添加规则',
+        addTitle: ({ action }: { action: string }) => `${action}规则`,
+        addHelp: '命令用 Bash(npm test*)，文件用 Edit(src/**)，涉及这些文件的任何工具用 path:secrets/**，MCP 服务器用 mcp:github，或直接输入工具名称。',
+        add: '添加',
+        invalidRule: '无法解析该规则。请检查语法后重试。',
+        saveFailed: '保存规则失败',
+        loadFailed: '无法加载规则。机器上线后请下拉刷新。',
+        removeTitle: '删除规则？',
+        remove: '删除',
+        footer: ({ path }: { path: string }) => `保存在 ${path}。拒绝优先于询问，询问优先于允许。`,
+    },
+
+    schedules: {
+        // Scheduled sessions (machine/[id].tsx and machine/[id]/schedule.tsx)
+        title: '计划会话',
+        footer: '守护进程会在计划时间（机器本地时间）启动这些会话。如果上一次运行仍在进行，本次运行将被跳过。',
+        addTitle: '添加计划会话',
+        disabled: '已停用',
+        neverRun: '从未运行',
+        runStarted: ({ time }: { time: string }) => `${time}启动`,
+        runSkipped: ({ time }: { time: string }) => `${time}跳过，上一次运行仍在进行`,
+        runFailed: ({ time }: { time: string }) => `${time}失败`,
+        openLastSession: '打开上次会话',
+        runNow: '立即运行',
+        enable: '启用',
+        disable: '停用',
+        delete: '删除',
+        name: '名称',
+        namePlaceholder: '可选，默认使用提示词',
+        when: '时间',
+        cronFooter: '选择预设或输入 cron 表达式：分 时 日 月 星期，例如 30 8 * * 1-5。',
+        presetHourly: '每小时',
+        presetDaily: '每天 9:00',
+        presetWeekdays: '工作日 9:00',
+        presetWeekly: '每周一 9:00',
+        directory: '目录',
+        agent: '代理',
+        prompt: '提示词',
+        promptFooter: '作为每个计划会话的第一条消息发送。',
+        promptPlaceholder: '运行测试并修复失败',
+        add: '添加计划',
+        addFailed: '添加计划会话失败',
+    },
+
+    remoteTerminal: {
+        // Remote terminals (machine/[id]/terminal.tsx)
+        title: '终端',
+        machineFooter: '在上方输入的目录中打开此机器上的 shell。关闭页面会结束该 shell。',
+        open: '打开终端',
+        attach: '连接终端',
+        attachSubtitle: '查看并控制代理的终端（在 tmux 中启动的会话）',
+        openInProject: '在项目中打开终端',
+        connecting: '正在连接…',
+        exited: '终端已退出',
+        openFailed: ({ error }: { error: string }) => `无法打开终端：${error}`,
+    },
+
+    runCommand: {
+        // Streaming shell commands (session/[id]/run.tsx)
+        title: '运行命令',
+        subtitle: '在项目中运行 shell 命令并查看输出',
+        run: '运行',
+        cancel: '取消',
+        running: '运行中…',
+        exited: ({ code }: { code: string }) => `已退出，代码 ${code}`,
+        killed: ({ signal }: { signal: string }) => `已被 ${signal} 停止`,
+        cancelled: '已取消',
+        timedOut: '超出时间限制，已停止',
+        failedToStart: ({ error }: { error: string }) => `无法运行命令：${error}`,
+    },
+
     textSelection: {
         // Text selection screen
         selectText: '选择文本范围',
@@ -874,6 +1012,35 @@ export const zhHans: TranslationStructure = {
         usageOverTime: '使用趋势',
         byModel: '按模型',
         noData: '暂无使用数据',
+        // Machine usage report and budgets (machine/[id]/usage.tsx)
+        title: '用量',
+        subtitle: 'Token 用量、费用和预算',
+        footer: '费用按标价估算，在会话报告 token 用量时记录。只有 Claude 会话会报告用量；Codex、Gemini 和其他代理不计入，预算也不会限制它们。',
+        period: '时间段',
+        groupBy: '分组方式',
+        byDay: '按天',
+        byProject: '按项目',
+        byAgent: '按代理',
+        bySession: '按会话',
+        total: '总计',
+        unknown: '未知',
+        tokenBreakdown: ({ input, output, cached }: { input: string; output: string; cached: string }) => `输入 ${input} · 输出 ${output} · 缓存 ${cached}`,
+        budgets: '预算',
+        budgetsFooter: '支出超过预算时会收到通知。停止轮次的预算还会在周期结束前结束其覆盖的每个会话的当前轮次。点按预算可将其删除。',
+        budgetDaily: ({ limit }: { limit: string }) => `每天 ${limit}`,
+        budgetMonthly: ({ limit }: { limit: string }) => `每月 ${limit}`,
+        allProjects: '所有项目',
+        actionWarn: '仅提醒',
+        actionPause: '停止轮次',
+        addBudget: '添加预算',
+        budgetAddFailed: '添加预算失败',
+        removeBudget: '删除预算？',
+        limitPlaceholder: '限额（美元），例如 20',
+        perDay: '每天',
+        perMonth: '每月',
+        projectPlaceholder: '项目目录（可选）',
+        pauseWhenExceeded: '超出时停止轮次',
+        pauseWhenExceededSubtitle: '否则只会收到通知',
     },
 
     profiles: {
@@ -883,6 +1050,33 @@ export const zhHans: TranslationStructure = {
         noProfileDescription: '创建配置文件以管理您的环境设置',
         addProfile: '添加配置文件',
         addProfileTitle: '添加配置文件标题',
+        codexBackend: {
+            title: 'Codex 后端',
+            footer: '使用此配置文件启动的 Codex 会话与 Codex 通信的方式。',
+            mcp: 'MCP 服务器',
+            mcpDescription: '运行 codex mcp-server（默认）',
+            acp: 'ACP 适配器',
+            acpDescription: '运行 codex-acp，需要在该机器上安装',
+        },
+        permissionTimeout: {
+            title: '权限请求超时',
+            footer: '权限请求未及时得到回应时自动处理。',
+            off: '等待回应',
+            minutes: ({ count }: { count: number }) => `${count} 分钟`,
+            actionTitle: '超时后',
+            deny: '拒绝',
+            denyDescription: '拒绝该工具调用，让代理继续',
+            approveReadOnly: '批准只读工具',
+            approveReadOnlyDescription: '允许只读取的工具，拒绝其他工具',
+            pause: '暂停会话',
+            pauseDescription: '拒绝该工具调用，并等待你回来',
+            countdownDeny: ({ time }: { time: string }) => `${time} 后自动拒绝`,
+            countdownApproveReadOnly: ({ time }: { time: string }) => `${time} 后自动处理`,
+            countdownPause: ({ time }: { time: string }) => `${time} 后暂停`,
+            timedOutApproved: '超时后已自动批准',
+            timedOutDenied: '超时后已自动拒绝',
+            timedOutPaused: '超时后会话已暂停',
+        },
         editProfile: '编辑配置文件',
         profileName: '配置文件名称',
         enterName: '输入配置文件名称',
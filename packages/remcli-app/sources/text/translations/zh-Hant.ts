@@ -29,6 +29,16 @@ export const zhHant: TranslationStructure = {
         emptyTitle: '收件匣是空的',
         emptyDescription: '與好友建立連結，開始共享工作階段',
         updates: '更新',
+        emptyNotificationsDescription: '工作階段的提醒會顯示在這裡：權限請求、已完成的回合與當機。',
+        new: '新的',
+        earlier: '更早',
+        markAllSeen: '全部標為已讀',
+        permissionTitle: ({ tool }: { tool: string }) => `需要權限：${tool}`,
+        permissionBody: '有工作階段正在等待核准',
+        turnFinishedTitle: '回合已完成',
+        turnFinishedBody: '有工作階段正在等待你的下一則訊息',
+        sessionCrashedTitle: '工作階段已當機',
+        sessionCrashedBody: '有工作階段意外停止',
     },
 
     common: {
@@ -137,6 +147,8 @@ export const zhHant: TranslationStructure = {
         usageSubtitle: '查看 API 使用情況和費用',
         profiles: '設定檔',
         profilesSubtitle: '管理工作階段的環境變數設定檔',
+        devices: '裝置',
+        devicesSubtitle: '管理與此電腦配對的手機和瀏覽器',
 
         // Dynamic settings messages
         accountConnected: ({ service }: { service: string }) => `已連結 ${service} 帳戶`,
@@ -300,8 +312,21 @@ export const zhHant: TranslationStructure = {
         viewAll: '查看所有工作階段',
     },
 
+    sessionSearch: {
+        title: '搜尋訊息',
+        placeholder: '搜尋訊息',
+        hint: '搜尋應用程式中已載入的訊息，以及線上電腦上 Claude、Codex 和 Gemini 的紀錄。',
+        noResults: '找不到訊息',
+        results: ({ count }: { count: number }) => `${count} 筆結果`,
+    },
+
     session: {
         inputPlaceholder: '輸入訊息...',
+        attach: '新增附件',
+        attachPhoto: '照片',
+        attachFile: '檔案',
+        attachmentTooLarge: ({ size }: { size: number }) => `附件不能超過 ${size} MB`,
+        attachmentFailed: '無法新增附件',
     },
 
     commandPalette: {
@@ -321,6 +346,9 @@ export const zhHant: TranslationStructure = {
         claudeCodeSessionIdCopied: 'Claude Code 工作階段 ID 已複製到剪貼簿',
         aiProvider: 'AI 提供者',
         failedToCopyClaudeCodeSessionId: '複製 Claude Code 工作階段 ID 失敗',
+        forks: '分岔',
+        forksFooter: '相互分岔的工作階段。點一下即可開啟。',
+        thisSession: '目前的工作階段',
         metadataCopied: '中繼資料已複製到剪貼簿',
         failedToCopyMetadata: '複製中繼資料失敗',
         failedToKillSession: '終止工作階段失敗',
@@ -332,6 +360,8 @@ export const zhHant: TranslationStructure = {
         quickActions: '快速操作',
         viewMachine: '查看裝置',
         viewMachineSubtitle: '查看裝置詳情和工作階段',
+        permissionRules: '權限規則',
+        permissionRulesSubtitle: '在此專案中允許、詢問或拒絕工具',
         killSessionSubtitle: '立即終止工作階段',
         archiveSessionSubtitle: '封存此工作階段並停止它',
         metadata: '中繼資料',
@@ -566,6 +596,19 @@ export const zhHant: TranslationStructure = {
         }
     },
 
+    settingsDevices: {
+        pairedDevices: '已配對裝置',
+        footer: '每台掃描 QR 碼的裝置都有獨立的存取權限。可在此撤銷遺失的裝置，其他裝置保持連線。',
+        noDevices: '沒有已配對的裝置',
+        thisDevice: ({ name }: { name: string }) => `${name}（本裝置）`,
+        lastSeen: ({ time }: { time: string }) => `上次上線 ${time}`,
+        revoke: '撤銷',
+        revokeTitle: ({ name }: { name: string }) => `撤銷 ${name}？`,
+        revokeConfirm: '此裝置將中斷連線，需要掃描新的 QR 碼才能重新連線。',
+        revokeCurrentConfirm: '這是您正在使用的裝置。您將被登出，需要掃描新的 QR 碼才能重新連線。',
+        revokeFailed: '撤銷裝置失敗',
+    },
+
     settingsAccount: {
         // Account settings screen
         accountInformation: '帳戶資訊',
@@ -737,6 +780,17 @@ export const zhHant: TranslationStructure = {
         lastSeen: '最後活躍',
         never: '從未',
         metadataVersion: '中繼資料版本',
+        auditLog: '稽核日誌',
+        auditLogFooter: '守護程式的最近事件:RPC 呼叫、工作階段啟動與停止、權限決定以及被拒絕的連線。執行 `remcli daemon audit` 查看完整日誌。',
+        auditLogEmpty: '尚未記錄任何事件',
+        auditRpc: ({ method }: { method: string }) => `RPC: ${method}`,
+        auditSessionSpawn: '工作階段已啟動',
+        auditSessionStop: '工作階段已停止',
+        auditPermission: ({ tool }: { tool: string }) => `權限: ${tool}`,
+        auditAuthFailure: '驗證失敗',
+        forgetDaemon: '忘記守護程式',
+        forgetDaemonSubtitle: '中斷此守護程式並隱藏其機器與工作階段',
+        forgetDaemonConfirm: '其工作階段會繼續在那台電腦上執行。再次掃描其 QR 碼即可重新連線。',
         untitledSession: '無標題工作階段',
         back: '返回',
     },
@@ -746,6 +800,10 @@ export const zhHant: TranslationStructure = {
         unknownEvent: '未知事件',
         usageLimitUntil: ({ time }: { time: string }) => `使用限制到 ${time}`,
         unknownTime: '未知時間',
+        forkFromHere: '從這裡分岔',
+        forkFromHereConfirm: '開始一個新工作階段，從這則訊息之前繼續對話。目前的工作階段保持不變。',
+        fork: '分岔',
+        forkFailed: '分岔工作階段失敗',
     },
 
     codex: {
@@ -765,6 +823,86 @@ export const zhHant: TranslationStructure = {
         }
     },
 
+    permissionRules: {
+        // Per-project permission rules (app/(app)/session/[id]/permissions.tsx)
+        title: '權限規則',
+        yesForProject: '是，在此專案中一律允許',
+        allow: '允許',
+        ask: '詢問',
+        deny: '拒絕',
+        empty: '尚無規則',
+        emptyDescription: '規則會在權限請求送到你的手機之前進行檢查。在請求上使用「在此專案中一律允許」，或在下方新增規則。',
+        addRule: '新增規則',
+        addTitle: ({ action }: { action: string }) => `${action}規則`,
+        addHelp: '指令用 Bash(npm test*)，檔案用 Edit(src/**)，涉及這些檔案的任何工具用 path:secrets/**，MCP 伺服器用 mcp:github，或直接輸入工具名稱。',
+        add: '新增',
+        invalidRule: '無法解析此規則。請檢查語法後再試一次。',
+        saveFailed: '儲存規則失敗',
+        loadFailed: '無法載入規則。機器上線後請下拉重新整理。',
+        removeTitle: '刪除規則？',
+        remove: '刪除',
+        footer: ({ path }: { path: string }) => `儲存在 ${path}。拒絕優先於詢問，詢問優先於允許。`,
+    },
+
+    schedules: {
+        // Scheduled sessions (machine/[id].tsx and machine/[id]/schedule.tsx)
+        title: '排程工作階段',
+        footer: '常駐程式會在排程時間（機器本地時間）啟動這些工作階段。若上一次執行仍在進行，本次執行將略過。',
+        addTitle: '新增排程工作階段',
+        disabled: '已停用',
+        neverRun: '從未執行',
+        runStarted: ({ time }: { time: string }) => `${time}啟動`,
+        runSkipped: ({ time }: { time: string }) => `${time}略過，上一次執行仍在進行`,
+        runFailed: ({ time }: { time: string }) => `${time}失敗`,
+        openLastSession: '開啟上次工作階段',
+        runNow: '立即執行',
+        enable: '啟用',
+        disable: '停用',
+        delete: '刪除',
+        name: '名稱',
+        namePlaceholder: '選填，預設使用提示詞',
+        when: '時間',
+        cronFooter: '選擇預設或輸入 cron 運算式：分 時 日 月 星期，例如 30 8 * * 1-5。',
+        presetHourly: '每小時',
+        presetDaily: '每天 9:00',
+        presetWeekdays: '平日 9:00',
+        presetWeekly: '每週一 9:00',
+        directory: '目錄',
+        agent: '代理',
+        prompt: '提示詞',
+        promptFooter: '作為每個排程工作階段的第一則訊息傳送。',
+        promptPlaceholder: '執行測試並修正失敗',
+        add: '新增排程',
+        addFailed: '新增排程工作階段失敗',
+    },
+
+    remoteTerminal: {
+        // Remote terminals (machine/[id]/terminal.tsx)
+        title: '終端機',
+        machineFooter: '在上方輸入的目錄中開啟此機器上的 shell。關閉頁面會結束該 shell。',
+        open: '開啟終端機',
+        attach: '連接終端機',
+        attachSubtitle: '檢視並控制代理的終端機（在 tmux 中啟動的工作階段）',
+        openInProject: '在專案中開啟終端機',
+        connecting: '正在連線…',
+        exited: '終端機已結束',
+        openFailed: ({ error }: { error: string }) => `無法開啟終端機：${error}`,
+    },
+
+    runCommand: {
+        // Streaming shell commands (session/[id]/run.tsx)
+        title: '執行命令',
+        subtitle: '在專案中執行 shell 命令並查看輸出',
+        run: '執行',
+        cancel: '取消',
+        running: '執行中…',
+        exited: ({ code }: { code: string }) => `已結束，代碼 ${code}`,
+        killed: ({ signal }: { signal: string }) => `已被 ${signal} 停止`,
+        cancelled: '已取消',
+        timedOut: '超過時間限制，已停止',
+        failedToStart: ({ error }: { error: string }) => `無法執行命令：${error}`,
+    },
+
     textSelection: {
         // Text selection screen
         selectText: '選擇文字範圍',
@@ -873,6 +1011,35 @@ export const zhHant: TranslationStructure = {
         usageOverTime: '使用趨勢',
         byModel: '按模型',
         noData: '暫無使用資料',
+        // Machine usage report and budgets (machine/[id]/usage.tsx)
+        title: '用量',
+        subtitle: 'Token 用量、費用和預算',
+        footer: '費用依定價估算，在工作階段回報 token 用量時記錄。只有 Claude 工作階段會回報用量；Codex、Gemini 和其他代理不計入，預算也不會限制它們。',
+        period: '時間範圍',
+        groupBy: '分組方式',
+        byDay: '依日',
+        byProject: '依專案',
+        byAgent: '依代理',
+        bySession: '依工作階段',
+        total: '總計',
+        unknown: '未知',
+        tokenBreakdown: ({ input, output, cached }: { input: string; output: string; cached: string }) => `輸入 ${input} · 輸出 ${output} · 快取 ${cached}`,
+        budgets: '預算',
+        budgetsFooter: '支出超過預算時會收到通知。停止回合的預算也會在期間結束前結束其涵蓋的每個工作階段的目前回合。點按預算即可移除。',
+        budgetDaily: ({ limit }: { limit: string }) => `每天 ${limit}`,
+        budgetMonthly: ({ limit }: { limit: string }) => `每月 ${limit}`,
+        allProjects: '所有專案',
+        actionWarn: '僅提醒',
+        actionPause: '停止回合',
+        addBudget: '新增預算',
+        budgetAddFailed: '新增預算失敗',
+        removeBudget: '移除預算？',
+        limitPlaceholder: '上限（美元），例如 20',
+        perDay: '每天',
+        perMonth: '每月',
+        projectPlaceholder: '專案目錄（選填）',
+        pauseWhenExceeded: '超出時停止回合',
+        pauseWhenExceededSubtitle: '否則只會收到通知',
     },
 
     feed: {
@@ -906,6 +1073,33 @@ export const zhHant: TranslationStructure = {
         deleteConfirm: '確定要刪除設定檔「{name}」嗎？',
         editProfile: '編輯設定檔',
         addProfileTitle: '新增設定檔',
+        codexBackend: {
+            title: 'Codex 後端',
+            footer: '使用此設定檔啟動的 Codex 工作階段與 Codex 通訊的方式。',
+            mcp: 'MCP 伺服器',
+            mcpDescription: '執行 codex mcp-server（預設）',
+            acp: 'ACP 轉接器',
+            acpDescription: '執行 codex-acp，需要在該機器上安裝',
+        },
+        permissionTimeout: {
+            title: '權限請求逾時',
+            footer: '權限請求未及時得到回應時自動處理。',
+            off: '等待回應',
+            minutes: ({ count }: { count: number }) => `${count} 分鐘`,
+            actionTitle: '逾時後',
+            deny: '拒絕',
+            denyDescription: '拒絕此工具呼叫，讓代理繼續',
+            approveReadOnly: '核准唯讀工具',
+            approveReadOnlyDescription: '允許只讀取的工具，拒絕其他工具',
+            pause: '暫停工作階段',
+            pauseDescription: '拒絕此工具呼叫，並等你回來',
+            countdownDeny: ({ time }: { time: string }) => `${time} 後自動拒絕`,
+            countdownApproveReadOnly: ({ time }: { time: string }) => `${time} 後自動處理`,
+            countdownPause: ({ time }: { time: string }) => `${time} 後暫停`,
+            timedOutApproved: '逾時後已自動核准',
+            timedOutDenied: '逾時後已自動拒絕',
+            timedOutPaused: '逾時後工作階段已暫停',
+        },
         delete: {
             title: '刪除設定檔',
             message: ({ name }: { name: string }) => `確定要刪除「${name}」嗎？此操作無法復原。`,
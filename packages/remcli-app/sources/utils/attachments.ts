@@ -0,0 +1,90 @@
+import { Platform } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+
+/**
+ * File picked in the composer, held in memory until the message is sent
+ */
+export interface AttachmentDraft {
+    name: string;
+    mimeType: string;
+    size: number;
+    data: string;   // base64
+    uri: string;    // Local URI, used for previews
+}
+
+// Attachments travel base64-encoded inside an encrypted envelope, so keep them well
+// under the daemon's request body limit
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export function isImageAttachment(mimeType: string): boolean {
+    return mimeType.startsWith('image/');
+}
+
+async function readUriAsBase64(uri: string): Promise<string> {
+    if (Platform.OS === 'web') {
+        const blob = await (await fetch(uri)).blob();
+        return await new Promise<string>((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+            reader.onerror = () => reject(reader.error);
+            reader.readAsDataURL(blob);
+        });
+    }
+    return await new File(uri).base64();
+}
+
+/**
+ * Pick images from the photo library. Returns an empty list when cancelled.
+ */
+export async function pickImageAttachments(): Promise<AttachmentDraft[]> {
+    const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ['images'],
+        allowsMultipleSelection: true,
+        base64: true,
+        quality: 0.8,
+    });
+    if (result.canceled) {
+        return [];
+    }
+
+    const drafts: AttachmentDraft[] = [];
+    for (const asset of result.assets) {
+        const data = asset.base64 ?? await readUriAsBase64(asset.uri);
+        drafts.push({
+            name: asset.fileName ?? `image-${Date.now()}.jpg`,
+            mimeType: asset.mimeType ?? 'image/jpeg',
+            size: asset.fileSize ?? Math.floor(data.length * 3 / 4),
+            data,
+            uri: asset.uri,
+        });
+    }
+    return drafts;
+}
+
+/**
+ * Pick arbitrary files. Returns an empty list when cancelled.
+ */
+export async function pickFileAttachments(): Promise<AttachmentDraft[]> {
+    const result = await DocumentPicker.getDocumentAsync({
+        multiple: true,
+        copyToCacheDirectory: true,
+    });
+    if (result.canceled) {
+        return [];
+    }
+
+    const drafts: AttachmentDraft[] = [];
+    for (const asset of result.assets) {
+        const data = await readUriAsBase64(asset.uri);
+        drafts.push({
+            name: asset.name,
+            mimeType: asset.mimeType ?? 'application/octet-stream',
+            size: asset.size ?? Math.floor(data.length * 3 / 4),
+            data,
+            uri: asset.uri,
+        });
+    }
+    return drafts;
+}
@@ -0,0 +1,49 @@
+import type { PermissionRule } from '@/sync/ops';
+
+/** Tools whose argument in `Tool(...)` is a shell command rather than a file path */
+const COMMAND_TOOLS = ['Bash', 'CodexBash', 'shell', 'run_shell_command', 'execute'];
+
+/**
+ * Parse the short rule syntax used by the rules screen:
+ * - `Bash(npm test*)`: tool with a command glob
+ * - `Edit(src/**)`: tool with a file path glob
+ * - `path:secrets/**`: any tool touching matching files
+ * - `mcp:github`: every tool of an MCP server
+ * - `WebFetch`: a tool name (globs allowed)
+ */
+export function parseRuleSpec(action: PermissionRule['action'], spec: string): PermissionRule | null {
+    const value = spec.trim();
+    if (!value) {
+        return null;
+    }
+    if (value.startsWith('mcp:')) {
+        const server = value.slice(4).trim();
+        return server ? { action, mcpServer: server } : null;
+    }
+    if (value.startsWith('path:')) {
+        const path = value.slice(5).trim();
+        return path ? { action, path } : null;
+    }
+    const match = value.match(/^([^()\s]+)\((.+)\)$/);
+    if (match) {
+        const [, tool, argument] = match;
+        return COMMAND_TOOLS.includes(tool)
+            ? { action, tool, command: argument }
+            : { action, tool, path: argument };
+    }
+    return /\s|[()]/.test(value) ? null : { action, tool: value };
+}
+
+/**
+ * Inverse of parseRuleSpec, for display
+ */
+export function formatRuleSpec(rule: PermissionRule): string {
+    if (rule.mcpServer && !rule.tool) {
+        return `mcp:${rule.mcpServer}`;
+    }
+    if (!rule.tool) {
+        return rule.path ? `path:${rule.path}` : rule.command ?? '';
+    }
+    const argument = rule.command ?? rule.path;
+    return argument ? `${rule.tool}(${argument})` : rule.tool;
+}
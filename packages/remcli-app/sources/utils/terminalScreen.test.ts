@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { TerminalScreen } from './terminalScreen';
+
+describe('TerminalScreen', () => {
+    it('prints text and handles carriage returns and line feeds', () => {
+        const screen = new TerminalScreen(20, 4);
+        screen.write('hello\r\nworld');
+        expect(screen.getText()).toBe('hello\nworld');
+        expect(screen.cursor).toEqual({ x: 5, y: 1, visible: true });
+    });
+
+    it('wraps long lines and scrolls into scrollback', () => {
+        const screen = new TerminalScreen(10, 2);
+        screen.write('0123456789abc\r\nnext');
+        expect(screen.getText()).toBe('abc\nnext');
+        const lines = screen.getLines({ cursor: false }).map((line) => line.map((span) => span.text).join(''));
+        expect(lines).toEqual(['0123456789', 'abc', 'next']);
+    });
+
+    it('moves the cursor and erases', () => {
+        const screen = new TerminalScreen(10, 3);
+        screen.write('aaaaa\r\nbbbbb\r\nccccc');
+        screen.write('\x1b[2;3H\x1b[K');
+        expect(screen.getText()).toBe('aaaaa\nbb\nccccc');
+        screen.write('\x1b[1;1H\x1b[2J');
+        expect(screen.getText()).toBe('');
+    });
+
+    it('applies colors and merges equally styled cells into spans', () => {
+        const screen = new TerminalScreen(20, 2);
+        screen.write('\x1b[1;31mred\x1b[0m plain \x1b[38;5;208mo\x1b[38;2;1;2;3mt');
+        const [line] = screen.getLines({ cursor: false, scrollback: false });
+        expect(line.map((span) => span.text)).toEqual(['red', ' plain ', 'o', 't']);
+        expect(line[0].style).toMatchObject({ fg: 1, bold: true });
+        expect(line[1].style).toMatchObject({ fg: null, bold: false });
+        expect(line[2].style.fg).toBe(208);
+        expect(line[3].style.fg).toBe('#010203');
+    });
+
+    it('restores the main screen after the alternate screen', () => {
+        const screen = new TerminalScreen(20, 3);
+        screen.write('$ vim');
+        screen.write('\x1b[?1049h\x1b[Hediting');
+        expect(screen.isAlternateScreen).toBe(true);
+        expect(screen.getText()).toBe('editing');
+        screen.write('\x1b[?1049l');
+        expect(screen.getText()).toBe('$ vim');
+        expect(screen.cursor).toMatchObject({ x: 5, y: 0 });
+    });
+
+    it('keeps the title and skips other escape sequences', () => {
+        const screen = new TerminalScreen(20, 2);
+        screen.write('\x1b]0;my title\x07\x1b]8;;http://x\x1b\\link\x1b(B\x1b[?2004h');
+        expect(screen.title).toBe('my title');
+        expect(screen.getText()).toBe('link');
+    });
+
+    it('scrolls inside a scroll region', () => {
+        const screen = new TerminalScreen(10, 4);
+        screen.write('top\r\n1\r\n2\r\nbottom');
+        screen.write('\x1b[2;3r\x1b[3;1H\n');
+        expect(screen.getText()).toBe('top\n2\n\nbottom');
+    });
+
+    it('keeps the cursor line when the screen shrinks', () => {
+        const screen = new TerminalScreen(10, 4);
+        screen.write('a\r\nb\r\nc\r\nd');
+        screen.resize(5, 2);
+        expect(screen.getText()).toBe('c\nd');
+        expect(screen.cursor).toMatchObject({ x: 1, y: 1 });
+    });
+});
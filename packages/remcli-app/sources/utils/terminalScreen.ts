@@ -0,0 +1,603 @@
+/**
+ * A small VT100/xterm screen model for the remote terminal.
+ *
+ * Feeds on the raw output of a tmux pane and keeps a grid of styled cells,
+ * a cursor and some scrollback. It covers what shells and common full-screen
+ * programs (less, vim, htop, agents' TUIs) use: cursor movement, erasing,
+ * scroll regions, insert/delete, SGR colors (16, 256 and truecolor) and the
+ * alternate screen. Anything else is parsed and ignored. Wide characters take
+ * one column.
+ */
+
+export type TerminalColor = number | string | null; // palette index, '#rrggbb' or default
+
+export interface TerminalStyle {
+    fg: TerminalColor;
+    bg: TerminalColor;
+    bold: boolean;
+    dim: boolean;
+    italic: boolean;
+    underline: boolean;
+    inverse: boolean;
+}
+
+export interface TerminalSpan {
+    text: string;
+    style: TerminalStyle;
+}
+
+export type TerminalLine = TerminalSpan[];
+
+interface Cell {
+    ch: string;
+    style: TerminalStyle;
+}
+
+const DEFAULT_STYLE: TerminalStyle = Object.freeze({
+    fg: null,
+    bg: null,
+    bold: false,
+    dim: false,
+    italic: false,
+    underline: false,
+    inverse: false,
+}) as TerminalStyle;
+
+const CURSOR_STYLE: TerminalStyle = Object.freeze({ ...DEFAULT_STYLE, inverse: true }) as TerminalStyle;
+
+const MAX_SCROLLBACK = 1000;
+
+type ParserState = 'ground' | 'escape' | 'csi' | 'osc' | 'charset';
+
+function blankLine(cols: number, style: TerminalStyle = DEFAULT_STYLE): Cell[] {
+    return Array.from({ length: cols }, () => ({ ch: ' ', style }));
+}
+
+export class TerminalScreen {
+    cols: number;
+    rows: number;
+    /** Window title set by the program (OSC 0/2) */
+    title: string | null = null;
+    /** Bumped on every change, for cheap re-render checks */
+    version = 0;
+
+    private lines: Cell[][];
+    private scrollback: Cell[][] = [];
+    private savedMain: { lines: Cell[][]; x: number; y: number } | null = null;
+    private x = 0;
+    private y = 0;
+    private wrapPending = false;
+    private cursorVisible = true;
+    private autoWrap = true;
+    private style: TerminalStyle = DEFAULT_STYLE;
+    private saved = { x: 0, y: 0, style: DEFAULT_STYLE };
+    private scrollTop = 0;
+    private scrollBottom: number;
+
+    private state: ParserState = 'ground';
+    private params = '';
+    private osc = '';
+
+    constructor(cols: number, rows: number) {
+        this.cols = cols;
+        this.rows = rows;
+        this.lines = Array.from({ length: rows }, () => blankLine(cols));
+        this.scrollBottom = rows - 1;
+    }
+
+    get cursor() {
+        return { x: this.x, y: this.y, visible: this.cursorVisible };
+    }
+
+    get isAlternateScreen() {
+        return this.savedMain !== null;
+    }
+
+    write(data: string) {
+        for (const ch of data) {
+            this.feed(ch);
+        }
+        this.version++;
+    }
+
+    resize(cols: number, rows: number) {
+        if (cols === this.cols && rows === this.rows) {
+            return;
+        }
+        const fit = (line: Cell[]) => line.length >= cols ? line.slice(0, cols) : [...line, ...blankLine(cols - line.length)];
+        this.lines = this.lines.map(fit);
+        this.scrollback = this.scrollback.map(fit);
+        while (this.lines.length > rows) {
+            // Keep the cursor on screen: drop lines from the top while it allows, then from the bottom
+            if (this.y > 0) {
+                this.pushScrollback(this.lines.shift()!);
+                this.y--;
+            } else {
+                this.lines.pop();
+            }
+        }
+        while (this.lines.length < rows) {
+            this.lines.push(blankLine(cols));
+        }
+        this.cols = cols;
+        this.rows = rows;
+        this.scrollTop = 0;
+        this.scrollBottom = rows - 1;
+        this.x = Math.min(this.x, cols - 1);
+        this.y = Math.min(this.y, rows - 1);
+        this.wrapPending = false;
+        this.version++;
+    }
+
+    /**
+     * Scrollback followed by the screen, as runs of equally styled text.
+     * Trailing blanks are trimmed; the cursor is drawn as an inverse cell.
+     */
+    getLines(options: { scrollback?: boolean; cursor?: boolean } = {}): TerminalLine[] {
+        const source = options.scrollback === false ? this.lines : [...this.scrollback, ...this.lines];
+        const cursorRow = source.length - this.rows + this.y;
+        return source.map((line, row) => {
+            const cells = options.cursor !== false && this.cursorVisible && row === cursorRow
+                ? line.map((cell, col) => col === this.x ? { ch: cell.ch, style: CURSOR_STYLE } : cell)
+                : line;
+            return toSpans(cells);
+        });
+    }
+
+    /** Plain text of the visible screen, mostly for tests */
+    getText(): string {
+        return this.lines.map((line) => line.map((cell) => cell.ch).join('').trimEnd()).join('\n').trimEnd();
+    }
+
+    // ─── Parser ──────────────────────────────────────────────────
+
+    private feed(ch: string) {
+        switch (this.state) {
+            case 'ground':
+                this.ground(ch);
+                return;
+            case 'escape':
+                this.escape(ch);
+                return;
+            case 'charset':
+                this.state = 'ground';
+                return;
+            case 'csi':
+                if (ch >= '@' && ch <= '~') {
+                    this.state = 'ground';
+                    this.csi(ch, this.params);
+                } else if (ch === '\x1b') {
+                    this.state = 'escape';
+                } else {
+                    this.params += ch;
+                }
+                return;
+            case 'osc':
+                if (ch === '\x07') {
+                    this.endOsc();
+                } else if (ch === '\x1b') {
+                    // ESC \ ends the string; the backslash is dropped by escape()
+                    this.endOsc();
+                    this.state = 'escape';
+                } else {
+                    this.osc += ch;
+                }
+                return;
+        }
+    }
+
+    private ground(ch: string) {
+        switch (ch) {
+            case '\x1b':
+                this.state = 'escape';
+                return;
+            case '\r':
+                this.x = 0;
+                this.wrapPending = false;
+                return;
+            case '\n':
+            case '\v':
+            case '\f':
+                this.lineFeed();
+                return;
+            case '\b':
+                this.x = Math.max(0, this.x - 1);
+                this.wrapPending = false;
+                return;
+            case '\t':
+                this.x = Math.min(this.cols - 1, (Math.floor(this.x / 8) + 1) * 8);
+                return;
+        }
+        if (ch < ' ' || ch === '\x7f') {
+            return;
+        }
+        this.print(ch);
+    }
+
+    private escape(ch: string) {
+        this.state = 'ground';
+        switch (ch) {
+            case '[':
+                this.state = 'csi';
+                this.params = '';
+                return;
+            case ']':
+                this.state = 'osc';
+                this.osc = '';
+                return;
+            case '(':
+            case ')':
+            case '*':
+            case '+':
+                this.state = 'charset';
+                return;
+            case '7':
+                this.saveCursor();
+                return;
+            case '8':
+                this.restoreCursor();
+                return;
+            case 'D':
+                this.lineFeed();
+                return;
+            case 'E':
+                this.x = 0;
+                this.lineFeed();
+                return;
+            case 'M':
+                if (this.y === this.scrollTop) {
+                    this.scrollDown(1);
+                } else {
+                    this.y = Math.max(0, this.y - 1);
+                }
+                return;
+            case 'c':
+                this.reset();
+                return;
+        }
+    }
+
+    private endOsc() {
+        this.state = 'ground';
+        const separator = this.osc.indexOf(';');
+        const command = this.osc.slice(0, separator);
+        if (command === '0' || command === '2') {
+            this.title = this.osc.slice(separator + 1);
+        }
+    }
+
+    private csi(final: string, raw: string) {
+        const isPrivate = raw.startsWith('?');
+        const params = (isPrivate ? raw.slice(1) : raw).split(';').map((p) => p === '' ? NaN : parseInt(p, 10));
+        const n = (index: number, fallback = 1) => {
+            const value = params[index];
+            return Number.isFinite(value) && value > 0 ? value : fallback;
+        };
+        this.wrapPending = false;
+
+        switch (final) {
+            case 'A':
+                this.y = Math.max(this.y < this.scrollTop ? 0 : this.scrollTop, this.y - n(0));
+                break;
+            case 'B':
+                this.y = Math.min(this.y > this.scrollBottom ? this.rows - 1 : this.scrollBottom, this.y + n(0));
+                break;
+            case 'C':
+                this.x = Math.min(this.cols - 1, this.x + n(0));
+                break;
+            case 'D':
+                this.x = Math.max(0, this.x - n(0));
+                break;
+            case 'E':
+                this.x = 0;
+                this.y = Math.min(this.rows - 1, this.y + n(0));
+                break;
+            case 'F':
+                this.x = 0;
+                this.y = Math.max(0, this.y - n(0));
+                break;
+            case 'G':
+            case '`':
+                this.x = Math.min(this.cols - 1, n(0) - 1);
+                break;
+            case 'd':
+                this.y = Math.min(this.rows - 1, n(0) - 1);
+                break;
+            case 'H':
+            case 'f':
+                this.y = Math.min(this.rows - 1, n(0) - 1);
+                this.x = Math.min(this.cols - 1, n(1) - 1);
+                break;
+            case 'J':
+                this.eraseDisplay(n(0, 0));
+                break;
+            case 'K':
+                this.eraseLine(n(0, 0));
+                break;
+            case 'L':
+                if (this.y >= this.scrollTop && this.y <= this.scrollBottom) {
+                    this.scrollRegion(this.y, this.scrollBottom, -n(0));
+                }
+                break;
+            case 'M':
+                if (this.y >= this.scrollTop && this.y <= this.scrollBottom) {
+                    this.scrollRegion(this.y, this.scrollBottom, n(0));
+                }
+                break;
+            case '@': {
+                const line = this.lines[this.y];
+                const count = Math.min(n(0), this.cols - this.x);
+                line.splice(this.x, 0, ...blankLine(count, this.blankStyle()));
+                line.length = this.cols;
+                break;
+            }
+            case 'P': {
+                const line = this.lines[this.y];
+                const count = Math.min(n(0), this.cols - this.x);
+                line.splice(this.x, count);
+                line.push(...blankLine(count, this.blankStyle()));
+                break;
+            }
+            case 'X':
+                this.fill(this.y, this.x, Math.min(this.cols, this.x + n(0)));
+                break;
+            case 'S':
+                this.scrollUp(n(0));
+                break;
+            case 'T':
+                this.scrollDown(n(0));
+                break;
+            case 'm':
+                this.sgr(params);
+                break;
+            case 'r':
+                if (!isPrivate) {
+                    const top = n(0) - 1;
+                    const bottom = Math.min(this.rows, n(1, this.rows)) - 1;
+                    if (top < bottom) {
+                        this.scrollTop = top;
+                        this.scrollBottom = bottom;
+                        this.x = 0;
+                        this.y = 0;
+                    }
+                }
+                break;
+            case 's':
+                this.saveCursor();
+                break;
+            case 'u':
+                this.restoreCursor();
+                break;
+            case 'h':
+            case 'l':
+                if (isPrivate) {
+                    params.forEach((mode) => this.setMode(mode, final === 'h'));
+                }
+                break;
+        }
+    }
+
+    private setMode(mode: number, enabled: boolean) {
+        switch (mode) {
+            case 7:
+                this.autoWrap = enabled;
+                break;
+            case 25:
+                this.cursorVisible = enabled;
+                break;
+            case 47:
+            case 1047:
+            case 1049:
+                if (enabled && !this.savedMain) {
+                    if (mode === 1049) this.saveCursor();
+                    this.savedMain = { lines: this.lines, x: this.x, y: this.y };
+                    this.lines = Array.from({ length: this.rows }, () => blankLine(this.cols));
+                } else if (!enabled && this.savedMain) {
+                    const main = this.savedMain;
+                    this.savedMain = null;
+                    this.lines = main.lines.length === this.rows ? main.lines : Array.from({ length: this.rows }, (_, i) => main.lines[i] ?? blankLine(this.cols));
+                    if (mode === 1049) this.restoreCursor();
+                }
+                break;
+        }
+    }
+
+    private sgr(params: number[]) {
+        let style = { ...this.style };
+        for (let i = 0; i < params.length; i++) {
+            const p = Number.isFinite(params[i]) ? params[i] : 0;
+            if (p === 0) {
+                style = { ...DEFAULT_STYLE };
+            } else if (p === 1) {
+                style.bold = true;
+            } else if (p === 2) {
+                style.dim = true;
+            } else if (p === 3) {
+                style.italic = true;
+            } else if (p === 4) {
+                style.underline = true;
+            } else if (p === 7) {
+                style.inverse = true;
+            } else if (p === 22) {
+                style.bold = false;
+                style.dim = false;
+            } else if (p === 23) {
+                style.italic = false;
+            } else if (p === 24) {
+                style.underline = false;
+            } else if (p === 27) {
+                style.inverse = false;
+            } else if (p >= 30 && p <= 37) {
+                style.fg = p - 30;
+            } else if (p >= 90 && p <= 97) {
+                style.fg = p - 90 + 8;
+            } else if (p >= 40 && p <= 47) {
+                style.bg = p - 40;
+            } else if (p >= 100 && p <= 107) {
+                style.bg = p - 100 + 8;
+            } else if (p === 39) {
+                style.fg = null;
+            } else if (p === 49) {
+                style.bg = null;
+            } else if (p === 38 || p === 48) {
+                let color: TerminalColor = null;
+                if (params[i + 1] === 5) {
+                    color = params[i + 2] ?? null;
+                    i += 2;
+                } else if (params[i + 1] === 2) {
+                    const [r, g, b] = [params[i + 2], params[i + 3], params[i + 4]].map((c) => (c || 0).toString(16).padStart(2, '0'));
+                    color = `#${r}${g}${b}`;
+                    i += 4;
+                }
+                if (p === 38) {
+                    style.fg = color;
+                } else {
+                    style.bg = color;
+                }
+            }
+        }
+        this.style = Object.freeze(style) as TerminalStyle;
+    }
+
+    // ─── Screen operations ───────────────────────────────────────
+
+    private print(ch: string) {
+        if (this.wrapPending) {
+            this.x = 0;
+            this.lineFeed();
+            this.wrapPending = false;
+        }
+        this.lines[this.y][this.x] = { ch, style: this.style };
+        if (this.x === this.cols - 1) {
+            this.wrapPending = this.autoWrap;
+        } else {
+            this.x++;
+        }
+    }
+
+    private lineFeed() {
+        this.wrapPending = false;
+        if (this.y === this.scrollBottom) {
+            this.scrollUp(1);
+        } else if (this.y < this.rows - 1) {
+            this.y++;
+        }
+    }
+
+    private scrollUp(count: number) {
+        this.scrollRegion(this.scrollTop, this.scrollBottom, count);
+    }
+
+    private scrollDown(count: number) {
+        this.scrollRegion(this.scrollTop, this.scrollBottom, -count);
+    }
+
+    /** Scroll lines top..bottom up by count (down when negative) */
+    private scrollRegion(top: number, bottom: number, count: number) {
+        const size = bottom - top + 1;
+        const amount = Math.min(Math.abs(count), size);
+        for (let i = 0; i < amount; i++) {
+            if (count > 0) {
+                const removed = this.lines.splice(top, 1)[0];
+                // Lines leaving the top of the full main screen go to scrollback
+                if (top === 0 && !this.savedMain) {
+                    this.pushScrollback(removed);
+                }
+                this.lines.splice(bottom, 0, blankLine(this.cols, this.blankStyle()));
+            } else {
+                this.lines.splice(bottom, 1);
+                this.lines.splice(top, 0, blankLine(this.cols, this.blankStyle()));
+            }
+        }
+    }
+
+    private pushScrollback(line: Cell[]) {
+        this.scrollback.push(line);
+        if (this.scrollback.length > MAX_SCROLLBACK) {
+            this.scrollback.shift();
+        }
+    }
+
+    private eraseDisplay(mode: number) {
+        if (mode === 0) {
+            this.fill(this.y, this.x, this.cols);
+            for (let row = this.y + 1; row < this.rows; row++) this.fill(row, 0, this.cols);
+        } else if (mode === 1) {
+            for (let row = 0; row < this.y; row++) this.fill(row, 0, this.cols);
+            this.fill(this.y, 0, this.x + 1);
+        } else if (mode === 2) {
+            for (let row = 0; row < this.rows; row++) this.fill(row, 0, this.cols);
+        } else if (mode === 3) {
+            this.scrollback = [];
+        }
+    }
+
+    private eraseLine(mode: number) {
+        if (mode === 0) {
+            this.fill(this.y, this.x, this.cols);
+        } else if (mode === 1) {
+            this.fill(this.y, 0, this.x + 1);
+        } else if (mode === 2) {
+            this.fill(this.y, 0, this.cols);
+        }
+    }
+
+    private fill(row: number, from: number, to: number) {
+        const style = this.blankStyle();
+        const line = this.lines[row];
+        for (let col = from; col < to; col++) {
+            line[col] = { ch: ' ', style };
+        }
+    }
+
+    /** Erased cells keep the current background, like xterm */
+    private blankStyle(): TerminalStyle {
+        return this.style.bg === null ? DEFAULT_STYLE : Object.freeze({ ...DEFAULT_STYLE, bg: this.style.bg }) as TerminalStyle;
+    }
+
+    private saveCursor() {
+        this.saved = { x: this.x, y: this.y, style: this.style };
+    }
+
+    private restoreCursor() {
+        this.x = Math.min(this.saved.x, this.cols - 1);
+        this.y = Math.min(this.saved.y, this.rows - 1);
+        this.style = this.saved.style;
+        this.wrapPending = false;
+    }
+
+    private reset() {
+        this.lines = Array.from({ length: this.rows }, () => blankLine(this.cols));
+        this.savedMain = null;
+        this.x = 0;
+        this.y = 0;
+        this.style = DEFAULT_STYLE;
+        this.cursorVisible = true;
+        this.autoWrap = true;
+        this.scrollTop = 0;
+        this.scrollBottom = this.rows - 1;
+    }
+}
+
+function sameStyle(a: TerminalStyle, b: TerminalStyle) {
+    return a === b || (a.fg === b.fg && a.bg === b.bg && a.bold === b.bold && a.dim === b.dim
+        && a.italic === b.italic && a.underline === b.underline && a.inverse === b.inverse);
+}
+
+function toSpans(cells: Cell[]): TerminalLine {
+    // Trim trailing blanks without a background
+    let end = cells.length;
+    while (end > 0 && cells[end - 1].ch === ' ' && cells[end - 1].style.bg === null && !cells[end - 1].style.inverse) {
+        end--;
+    }
+    const spans: TerminalSpan[] = [];
+    for (let i = 0; i < end; i++) {
+        const last = spans[spans.length - 1];
+        if (last && sameStyle(last.style, cells[i].style)) {
+            last.text += cells[i].ch;
+        } else {
+            spans.push({ text: cells[i].ch, style: cells[i].style });
+        }
+    }
+    return spans;
+}
@@ -2,15 +2,19 @@
 /**
  * Session Hook Forwarder
  * 
- * This script is executed by Claude's SessionStart hook.
- * It reads JSON data from stdin and forwards it to Happy's hook server.
+ * This script is executed by Claude's hooks (SessionStart, Stop, PreToolUse, ...).
+ * It reads JSON data from stdin and forwards it to Remcli's hook server.
+ * A JSON reply from the server is printed to stdout, where Claude reads it
+ * as the hook output (e.g. a PreToolUse permission decision).
  * 
- * Usage: echo '{"session_id":"..."}' | node session_hook_forwarder.cjs <port>
+ * Usage: echo '{"session_id":"..."}' | node session_hook_forwarder.cjs <port> [route]
+ * The route defaults to session-start.
  */
 
 const http = require('http');
 
 const port = parseInt(process.argv[2], 10);
+const route = process.argv[3] || 'session-start';
 
 if (!port || isNaN(port)) {
     process.exit(1);
@@ -29,13 +33,21 @@ process.stdin.on('end', () => {
         host: '127.0.0.1',
         port: port,
         method: 'POST',
-        path: '/hook/session-start',
+        path: '/hook/' + route,
         headers: {
             'Content-Type': 'application/json',
             'Content-Length': body.length
         }
     }, (res) => {
-        res.resume(); // Drain response
+        if (!String(res.headers['content-type'] || '').startsWith('application/json')) {
+            res.resume(); // Drain response
+            return;
+        }
+        const replyChunks = [];
+        res.on('data', (chunk) => replyChunks.push(chunk));
+        res.on('end', () => {
+            process.stdout.write(Buffer.concat(replyChunks));
+        });
     });
     
     req.on('error', () => {
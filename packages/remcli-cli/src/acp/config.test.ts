@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseAcpAgents } from './config';
+import { ConfiguredTransport } from '@/agent/transport';
+
+vi.mock('@/ui/logger', () => ({
+    logger: {
+        debug: vi.fn(),
+        warn: vi.fn()
+    }
+}));
+
+describe('parseAcpAgents', () => {
+    it('keeps valid agents and skips invalid names and entries', () => {
+        const agents = parseAcpAgents({
+            opencode: { command: 'opencode', args: ['acp'], env: { OPENCODE_API_KEY: '${KEY}' } },
+            'my-agent': { command: '/opt/agent', transport: { initTimeoutMs: 30_000, filterStdout: false } },
+            gemini: { command: 'gemini' },
+            'Bad Name': { command: 'x' },
+            broken: { args: ['no-command'] }
+        });
+
+        expect(Object.keys(agents)).toEqual(['opencode', 'my-agent']);
+        expect(agents.opencode).toEqual({ command: 'opencode', args: ['acp'], env: { OPENCODE_API_KEY: '${KEY}' } });
+        expect(agents['my-agent'].transport).toEqual({ initTimeoutMs: 30_000, filterStdout: false });
+    });
+
+    it('ignores settings that are not an object', () => {
+        expect(parseAcpAgents(undefined)).toEqual({});
+        expect(parseAcpAgents([{ command: 'opencode' }])).toEqual({});
+    });
+});
+
+describe('ConfiguredTransport', () => {
+    it('applies configured quirks over the defaults', () => {
+        const transport = new ConfiguredTransport('opencode', {
+            initTimeoutMs: 30_000,
+            toolCallTimeoutMs: 5_000,
+            toolPatterns: [{ name: 'change_title', patterns: ['change_title'] }],
+            investigationTools: ['research']
+        });
+
+        expect(transport.getInitTimeout()).toBe(30_000);
+        expect(transport.getIdleTimeout()).toBe(500);
+        expect(transport.getToolCallTimeout('read-1', 'read')).toBe(5_000);
+        expect(transport.getToolCallTimeout('Research-2')).toBe(600_000);
+        expect(transport.determineToolName('other', 'mcp__remcli__change_title-3', {}, { recentPromptHadChangeTitle: true, toolCallCountSincePrompt: 0 })).toBe('change_title');
+        expect(transport.determineToolName('read', 'change_title-4', {}, { recentPromptHadChangeTitle: true, toolCallCountSincePrompt: 0 })).toBe('read');
+        expect(transport.filterStdoutLine('debug: starting')).toBeNull();
+    });
+
+    it('keeps non-JSON stdout when filtering is off', () => {
+        const transport = new ConfiguredTransport('raw', { filterStdout: false });
+        expect(transport.getInitTimeout()).toBe(60_000);
+        expect(transport.filterStdoutLine('{"jsonrpc":"2.0"}')).toBe('{"jsonrpc":"2.0"}');
+        expect(transport.filterStdoutLine('plain text')).toBe('plain text');
+        expect(transport.filterStdoutLine('   ')).toBeNull();
+    });
+});
@@ -0,0 +1,95 @@
+/**
+ * ACP agents declared in settings
+ *
+ * Any CLI that speaks the Agent Client Protocol over stdio can run as a remote
+ * session without a code change. Agents are declared under `acpAgents` in
+ * ~/.remcli/settings.json, keyed by the name used with `remcli acp <name>`:
+ *
+ * ```json
+ * "acpAgents": {
+ *   "opencode": {
+ *     "command": "opencode",
+ *     "args": ["acp"],
+ *     "env": { "OPENCODE_API_KEY": "${OPENCODE_API_KEY}" },
+ *     "transport": { "initTimeoutMs": 30000 }
+ *   }
+ * }
+ * ```
+ *
+ * Environment values may reference the caller's environment with ${VAR}.
+ */
+
+import * as z from 'zod';
+import { logger } from '@/ui/logger';
+import { readSettings } from '@/persistence';
+
+// ─── Types ───────────────────────────────────────────────────────
+
+/** Agent names end up in shell commands and tmux session names */
+export const ACP_AGENT_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+/** Names taken by built-in agents and subcommands */
+const RESERVED_NAMES = ['claude', 'codex', 'cursor', 'gemini', 'acp'];
+
+export const AcpAgentTransportSchema = z.object({
+    initTimeoutMs: z.number().int().positive().optional(),       // Wait for initialize and session/new (default 60s)
+    idleTimeoutMs: z.number().int().positive().optional(),       // Quiet period that ends a response (default 500ms)
+    toolCallTimeoutMs: z.number().int().positive().optional(),   // Per tool call (default 2 minutes)
+    filterStdout: z.boolean().optional(),                        // Drop stdout lines that are not JSON (default true)
+    toolPatterns: z.array(z.object({                             // Real tool names for calls reported as "other"
+        name: z.string(),
+        patterns: z.array(z.string()).min(1)
+    })).optional(),
+    investigationTools: z.array(z.string()).optional(),          // Tool call IDs containing these get 10 minutes
+    investigationTimeoutMs: z.number().int().positive().optional()
+});
+
+export const AcpAgentConfigSchema = z.object({
+    command: z.string().min(1),
+    args: z.array(z.string()).optional(),
+    env: z.record(z.string(), z.string()).optional(),
+    displayName: z.string().optional(),
+    transport: AcpAgentTransportSchema.optional()
+});
+
+export type AcpAgentTransportConfig = z.infer<typeof AcpAgentTransportSchema>;
+export type AcpAgentConfig = z.infer<typeof AcpAgentConfigSchema>;
+
+// ─── Parsing ─────────────────────────────────────────────────────
+
+/**
+ * Parse the raw `acpAgents` setting, skipping invalid entries
+ */
+export function parseAcpAgents(raw: unknown): Record<string, AcpAgentConfig> {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return {};
+    }
+    const agents: Record<string, AcpAgentConfig> = {};
+    for (const [name, entry] of Object.entries(raw)) {
+        if (!ACP_AGENT_NAME_PATTERN.test(name) || RESERVED_NAMES.includes(name)) {
+            logger.warn(`⚠️ Invalid ACP agent name "${name}" - skipping. Use lowercase letters, digits, - and _, not a built-in agent name`);
+            continue;
+        }
+        const parsed = AcpAgentConfigSchema.safeParse(entry);
+        if (parsed.success) {
+            agents[name] = parsed.data;
+        } else {
+            logger.warn(`⚠️ Invalid ACP agent "${name}" - skipping. Error: ${parsed.error.message}`);
+        }
+    }
+    return agents;
+}
+
+/**
+ * ACP agents currently declared in settings.json
+ */
+export async function readAcpAgents(): Promise<Record<string, AcpAgentConfig>> {
+    return parseAcpAgents((await readSettings()).acpAgents);
+}
+
+/**
+ * One declared ACP agent, or null when it is missing or invalid
+ */
+export async function getAcpAgent(name: string): Promise<AcpAgentConfig | null> {
+    return (await readAcpAgents())[name] ?? null;
+}
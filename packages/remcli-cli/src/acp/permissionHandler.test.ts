@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AcpAgentPermissionHandler } from './permissionHandler';
+import { RpcHandlerManager } from '@/api/rpc/RpcHandlerManager';
+import type { ApiSessionClient } from '@/api/apiSession';
+import type { AgentState } from '@/api/types';
+
+vi.mock('@/ui/logger', () => ({
+    logger: {
+        debug: vi.fn()
+    }
+}));
+
+vi.mock('@/daemon/auditLog', () => ({
+    recordAuditEvent: vi.fn()
+}));
+
+function createSession() {
+    let agentState: AgentState = {};
+    return {
+        sessionId: 'session-1',
+        rpcHandlerManager: new RpcHandlerManager({
+            scopePrefix: 'session-1',
+            encryptionKey: new Uint8Array(32),
+            encryptionVariant: 'legacy'
+        }),
+        updateAgentState: (updater: (state: AgentState) => AgentState) => {
+            agentState = updater(agentState);
+        },
+        get agentState() {
+            return agentState;
+        }
+    };
+}
+
+describe('AcpAgentPermissionHandler', () => {
+    it('only auto-approves known read tools in read-only mode', async () => {
+        const session = createSession();
+        const handler = new AcpAgentPermissionHandler(session as unknown as ApiSessionClient, '/work/project', 'agent');
+        handler.setPermissionMode('read-only');
+
+        for (const tool of ['read', 'search', 'think', 'read_file', 'List_Directory']) {
+            await expect(handler.handleToolCall(`call-${tool}`, tool, {})).resolves.toEqual({ decision: 'approved' });
+        }
+
+        for (const tool of ['run_command', 'move_file', 'fetch', 'terminal', 'apply_diff', 'execute', 'other']) {
+            handler.handleToolCall(`call-${tool}`, tool, {}).catch(() => {});
+            expect(session.agentState.requests?.[`call-${tool}`]).toMatchObject({ tool });
+        }
+        handler.reset();
+    });
+});
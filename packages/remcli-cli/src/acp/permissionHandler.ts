@@ -0,0 +1,107 @@
+/**
+ * ACP Agent Permission Handler
+ *
+ * Handles tool permission requests for agents declared under `acpAgents`.
+ * Nothing is known about their tools, so read-only mode only approves the
+ * ACP kinds and tool names known to read and asks for everything else.
+ */
+
+import { logger } from "@/ui/logger";
+import { ApiSessionClient } from "@/api/apiSession";
+import type { PermissionMode } from '@/api/types';
+import {
+    BasePermissionHandler,
+    PermissionResult
+} from '@/utils/BasePermissionHandler';
+
+/**
+ * Tools that never need approval, matched on the whole tool name or ACP kind.
+ * The tool call id is chosen by the agent, so it never counts.
+ */
+const ALWAYS_APPROVED_TOOLS = new Set(['change_title', 'remcli__change_title', 'mcp__remcli__change_title', 'think']);
+
+/** ACP kinds and tool names approved in read-only mode, matched on the whole name */
+const READ_ONLY_TOOLS = new Set([
+    'read', 'search', 'think', 'list',
+    'read_file', 'read_many_files', 'list_directory', 'ls', 'glob', 'grep', 'search_file_content'
+]);
+
+export class AcpAgentPermissionHandler extends BasePermissionHandler {
+    private currentPermissionMode: PermissionMode = 'default';
+
+    constructor(session: ApiSessionClient, workingDirectory: string, private readonly agentName: string) {
+        super(session, workingDirectory);
+    }
+
+    protected getLogPrefix(): string {
+        return `[${this.agentName}]`;
+    }
+
+    setPermissionMode(mode: PermissionMode): void {
+        this.currentPermissionMode = mode;
+        logger.debug(`${this.getLogPrefix()} Permission mode set to: ${mode}`);
+    }
+
+    private shouldAutoApprove(toolName: string): boolean {
+        const lowerName = toolName.toLowerCase();
+        if (ALWAYS_APPROVED_TOOLS.has(lowerName)) {
+            return true;
+        }
+
+        switch (this.currentPermissionMode) {
+            case 'yolo':
+            case 'bypassPermissions':
+            case 'safe-yolo':
+                return true;
+            case 'read-only':
+                return READ_ONLY_TOOLS.has(lowerName);
+            default:
+                return false;
+        }
+    }
+
+    async handleToolCall(
+        toolCallId: string,
+        toolName: string,
+        input: unknown
+    ): Promise<PermissionResult> {
+        // Project rules first; "ask" overrides the permission mode
+        const ruleResult = this.applyPermissionRules(toolCallId, toolName, input);
+        if (ruleResult && ruleResult !== 'ask') {
+            return ruleResult;
+        }
+
+        if (ruleResult !== 'ask' && this.shouldAutoApprove(toolName)) {
+            const decision = this.currentPermissionMode === 'yolo' ? 'approved_for_session' : 'approved';
+            logger.debug(`${this.getLogPrefix()} Auto-approving tool ${toolName} (${toolCallId}) in ${this.currentPermissionMode} mode`);
+
+            this.session.updateAgentState((currentState) => ({
+                ...currentState,
+                completedRequests: {
+                    ...currentState.completedRequests,
+                    [toolCallId]: {
+                        tool: toolName,
+                        arguments: input,
+                        createdAt: Date.now(),
+                        completedAt: Date.now(),
+                        status: 'approved',
+                        decision
+                    }
+                }
+            }));
+
+            return { decision };
+        }
+
+        return new Promise<PermissionResult>((resolve, reject) => {
+            this.pendingRequests.set(toolCallId, {
+                resolve,
+                reject,
+                toolName,
+                input
+            });
+            this.addPendingRequestToState(toolCallId, toolName, input);
+            logger.debug(`${this.getLogPrefix()} Permission request sent for tool: ${toolName} (${toolCallId}) in ${this.currentPermissionMode} mode`);
+        });
+    }
+}
@@ -0,0 +1,78 @@
+/**
+ * ACP Agent Entry Point
+ *
+ * Runs an agent declared under `acpAgents` in ~/.remcli/settings.json
+ * through Remcli. The agent is spawned with AcpBackend and a transport built
+ * from its configuration; its messages reach the app in the ACP format via
+ * MessageAdapter.
+ *
+ * The session loop is shared with runCodexAcp.ts in runAcpSession.ts.
+ */
+
+import { logger } from '@/ui/logger';
+import { Credentials } from '@/persistence';
+import { configuration } from '@/configuration';
+import { hashObject } from '@/utils/deterministicJson';
+import type { PermissionMode } from '@/api/types';
+
+import { createConfiguredAcpBackend } from '@/agent/factories/acp';
+import { getAcpAgent } from './config';
+import { AcpAgentPermissionHandler } from './permissionHandler';
+import { runAcpSession } from './runAcpSession';
+
+/**
+ * Mode configuration for ACP agent messages
+ */
+interface AcpMode {
+    permissionMode: PermissionMode;
+}
+
+/**
+ * Main entry point for the acp command with ink UI
+ */
+export async function runAcp(opts: {
+    credentials: Credentials;
+    agentName: string;
+    startedBy?: 'daemon' | 'terminal';
+}): Promise<void> {
+    const { agentName } = opts;
+    const config = await getAcpAgent(agentName);
+    if (!config) {
+        throw new Error(`ACP agent "${agentName}" is not declared under acpAgents in ${configuration.settingsFile}`);
+    }
+    const displayName = config.displayName ?? agentName;
+
+    await runAcpSession<AcpMode, AcpAgentPermissionHandler, ReturnType<typeof createConfiguredAcpBackend>>({
+        credentials: opts.credentials,
+        startedBy: opts.startedBy,
+        tag: agentName,
+        flavor: agentName,
+        displayName,
+        agentType: 'acp',
+        initialMode: { permissionMode: 'default' },
+        readMode: (meta, previous) => {
+            if (!meta?.permissionMode) {
+                return previous;
+            }
+            logger.debug(`[${agentName}] Permission mode updated: ${meta.permissionMode}`);
+            return { permissionMode: meta.permissionMode as PermissionMode };
+        },
+        hashMode: (mode) => hashObject({
+            permissionMode: mode.permissionMode,
+        }),
+        withSystemPrompt: true,
+        createPermissionHandler: (session, path) => new AcpAgentPermissionHandler(session, path, agentName),
+        createBackend: ({ mcpServers, permissionHandler }) => createConfiguredAcpBackend({
+            name: agentName,
+            config,
+            cwd: process.cwd(),
+            mcpServers,
+            permissionHandler,
+        }),
+        // The mode is applied by the permission handler, so one process serves every mode
+        onTurnStart: (mode, permissionHandler) => permissionHandler.setPermissionMode(mode.permissionMode),
+        describeError: (message) => message.includes('ENOENT')
+            ? `Failed to start ${displayName}: "${config.command}" not found. Make sure it is installed and in your PATH.`
+            : `Error: ${message}`,
+    });
+}
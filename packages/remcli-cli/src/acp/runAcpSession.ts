@@ -0,0 +1,547 @@
+/**
+ * Shared session loop for ACP backends
+ *
+ * runAcp.ts and runCodexAcp.ts drive an AcpBackend the same way:
+ * session setup → message queue → UI → main loop → cleanup.
+ * This module holds that loop; each entry point only says how to read the
+ * mode from a message, how to build its backend and its permission handler.
+ */
+
+import { render } from 'ink';
+import React from 'react';
+import { randomUUID } from 'node:crypto';
+import { join } from 'node:path';
+import { ApiClient } from '@/api/api';
+import { logger } from '@/ui/logger';
+import { Credentials, readSettings } from '@/persistence';
+import { createSessionMetadata } from '@/utils/createSessionMetadata';
+import { MessageQueue2 } from '@/utils/MessageQueue2';
+import { projectPath } from '@/projectPath';
+import { startRemcliServer } from '@/claude/utils/startRemcliServer';
+import { MessageBuffer } from '@/ui/ink/messageBuffer';
+import { CodexDisplay } from '@/ui/ink/CodexDisplay';
+import { notifyDaemonSessionStarted } from '@/daemon/controlClient';
+import { registerKillSessionHandler } from '@/claude/registerKillSessionHandler';
+import { stopCaffeinate } from '@/utils/caffeinate';
+import { connectionState } from '@/utils/serverConnectionErrors';
+import { setupOfflineReconnection } from '@/utils/setupOfflineReconnection';
+import { appendAttachmentPaths, readInlineImages, type ImageInput } from '@/utils/attachments';
+import type { BasePermissionHandler } from '@/utils/BasePermissionHandler';
+import { CHANGE_TITLE_INSTRUCTION } from '@/gemini/constants';
+import type { ApiSessionClient } from '@/api/apiSession';
+import type { MessageMeta, PermissionMode } from '@/api/types';
+
+import { createMessageAdapter, type MobileAgentType } from '@/agent/adapters';
+import type { AgentBackend, AgentMessage, AgentMessageHandler, McpServerConfig } from '@/agent';
+
+/** Longest wait for the end of a response after the prompt returns */
+const RESPONSE_TIMEOUT_MS = 120_000;
+
+/**
+ * Mode configuration queued with each message
+ */
+export interface AcpSessionMode {
+    permissionMode: PermissionMode;
+}
+
+export interface AcpBackendSlotOptions<M, B extends AgentBackend> {
+    /** Create a backend for a mode, resuming the given ACP session when set */
+    create: (mode: M, resumeSessionId: string | undefined) => B;
+    /** ACP session of a running backend, resumed by its replacement */
+    resumeSessionId?: (backend: B) => string | undefined;
+    /** Restart the backend when the mode changes (its options are fixed at spawn) */
+    restartOnModeChange?: boolean;
+    onMessage: AgentMessageHandler;
+    onRestart?: () => void;
+    onStarted?: (backend: B) => void;
+}
+
+/**
+ * The backend process of a session and the ACP session it runs
+ */
+export class AcpBackendSlot<M, B extends AgentBackend = AgentBackend> {
+    private backend: B | null = null;
+    private sessionId: string | null = null;
+    private modeHash: string | null = null;
+
+    constructor(
+        private readonly options: AcpBackendSlotOptions<M, B>,
+        private resumeSessionId?: string
+    ) { }
+
+    /**
+     * Backend for a turn in the given mode, started or restarted as needed
+     */
+    async prepare(mode: M, modeHash: string): Promise<{ backend: B; sessionId: string }> {
+        if (this.backend && this.options.restartOnModeChange && this.modeHash !== modeHash) {
+            this.resumeSessionId = this.options.resumeSessionId?.(this.backend);
+            logger.debug(`[AcpBackendSlot] Mode changed - restarting backend (resume: ${this.resumeSessionId ?? 'none'})`);
+            this.options.onRestart?.();
+            await this.dispose();
+        }
+        if (!this.backend || !this.sessionId) {
+            const backend = this.options.create(mode, this.resumeSessionId);
+            backend.onMessage(this.options.onMessage);
+            try {
+                this.sessionId = (await backend.startSession()).sessionId;
+            } catch (error) {
+                await backend.dispose();
+                throw error;
+            }
+            this.backend = backend;
+            this.modeHash = modeHash;
+            this.options.onStarted?.(backend);
+        }
+        return { backend: this.backend, sessionId: this.sessionId };
+    }
+
+    async cancel(): Promise<void> {
+        if (this.backend && this.sessionId) {
+            await this.backend.cancel(this.sessionId);
+        }
+    }
+
+    async dispose(): Promise<void> {
+        const backend = this.backend;
+        this.backend = null;
+        this.sessionId = null;
+        this.modeHash = null;
+        await backend?.dispose();
+    }
+}
+
+export interface AcpSessionOptions<M extends AcpSessionMode, H extends BasePermissionHandler, B extends AgentBackend> {
+    credentials: Credentials;
+    startedBy?: 'daemon' | 'terminal';
+    /** Log tag, without brackets */
+    tag: string;
+    flavor: string;
+    /** Name shown in the terminal UI and offline warnings */
+    displayName: string;
+    agentType: MobileAgentType;
+    /** Session this one was forked from */
+    forkedFrom?: string;
+    /** ACP session the first backend resumes */
+    resumeSessionId?: string;
+    initialMode: M;
+    /** Mode for a new message, from its meta and the previous mode */
+    readMode: (meta: MessageMeta | undefined, previous: M) => M;
+    hashMode: (mode: M) => string;
+    /** Prepend the app's appendSystemPrompt to the first prompt */
+    withSystemPrompt?: boolean;
+    createPermissionHandler: (session: ApiSessionClient, path: string) => H;
+    createBackend: (context: {
+        mode: M;
+        resumeSessionId: string | undefined;
+        mcpServers: Record<string, McpServerConfig>;
+        permissionHandler: H;
+    }) => B;
+    /** See AcpBackendSlotOptions */
+    backendResumeSessionId?: (backend: B) => string | undefined;
+    restartOnModeChange?: boolean;
+    onBackendStarted?: (backend: B, session: ApiSessionClient) => void;
+    /** Called before each turn with its mode */
+    onTurnStart?: (mode: M, permissionHandler: H) => void;
+    /** Text shown for an error that ends a turn */
+    describeError: (message: string) => string;
+}
+
+/**
+ * Run a session against an ACP backend until the user exits
+ */
+export async function runAcpSession<M extends AcpSessionMode, H extends BasePermissionHandler, B extends AgentBackend>(
+    opts: AcpSessionOptions<M, H, B>
+): Promise<void> {
+    const tag = `[${opts.tag}]`;
+
+    //
+    // Define session
+    //
+
+    const sessionTag = randomUUID();
+
+    // Set backend for offline warnings
+    connectionState.setBackend(opts.displayName);
+
+    const api = await ApiClient.create(opts.credentials);
+
+    logger.debug(`${tag} Starting with options: startedBy=${opts.startedBy || 'terminal'}`);
+
+    //
+    // Machine
+    //
+
+    const settings = await readSettings();
+    const machineId = settings?.machineId;
+    if (!machineId) {
+        console.error(`[START] No machine ID found in settings. Make sure daemon is running: remcli daemon start`);
+        process.exit(1);
+    }
+    logger.debug(`Using machineId: ${machineId}`);
+
+    //
+    // Create session
+    //
+
+    const { state, metadata } = createSessionMetadata({
+        flavor: opts.flavor,
+        machineId,
+        startedBy: opts.startedBy,
+        forkedFrom: opts.forkedFrom,
+    });
+    const response = await api.getOrCreateSession({ tag: sessionTag, metadata, state });
+
+    // Handle server unreachable — create offline stub with hot reconnection
+    let session: ApiSessionClient;
+    let permissionHandler: H | null = null;
+
+    // Swaps requested mid-turn wait for the turn to end
+    let isProcessingMessage = false;
+    let pendingSessionSwap: ApiSessionClient | null = null;
+
+    const swapSession = (newSession: ApiSessionClient) => {
+        session = newSession;
+        permissionHandler?.updateSession(newSession);
+    };
+
+    const { session: initialSession, reconnectionHandle } = setupOfflineReconnection({
+        api,
+        sessionTag,
+        metadata,
+        state,
+        response,
+        onSessionSwap: (newSession) => {
+            if (isProcessingMessage) {
+                logger.debug(`${tag} Session swap requested during message processing - queueing`);
+                pendingSessionSwap = newSession;
+            } else {
+                swapSession(newSession);
+            }
+        },
+    });
+    session = initialSession;
+
+    // Report to daemon
+    if (response) {
+        try {
+            logger.debug(`[START] Reporting session ${response.id} to daemon`);
+            const result = await notifyDaemonSessionStarted(response.id, metadata);
+            if (result.error) {
+                logger.debug(`[START] Failed to report to daemon:`, result.error);
+            }
+        } catch (error) {
+            logger.debug('[START] Failed to report to daemon:', error);
+        }
+    }
+
+    const messageQueue = new MessageQueue2<M>(opts.hashMode);
+
+    let currentMode = opts.initialMode;
+    let isFirstMessage = true;
+
+    session.onUserMessage((message) => {
+        currentMode = opts.readMode(message.meta, currentMode);
+
+        // System prompt and change_title instruction go with the first message only
+        let prompt = message.content.text;
+        if (isFirstMessage) {
+            const systemPrompt = opts.withSystemPrompt ? message.meta?.appendSystemPrompt : undefined;
+            prompt = (systemPrompt ? systemPrompt + '\n\n' : '') + prompt + '\n\n' + CHANGE_TITLE_INSTRUCTION;
+            isFirstMessage = false;
+        }
+
+        // Images go to the agent as prompt content blocks, other attachments are referenced by path
+        const attachments = message.content.attachments;
+        messageQueue.push(
+            appendAttachmentPaths(prompt, attachments, true),
+            currentMode,
+            readInlineImages(attachments)
+        );
+    });
+
+    let thinking = false;
+    session.keepAlive(thinking, 'remote');
+    const keepAliveInterval = setInterval(() => {
+        session.keepAlive(thinking, 'remote');
+    }, 2000);
+
+    //
+    // Abort handling
+    //
+
+    let abortController = new AbortController();
+    let shouldExit = false;
+
+    async function handleAbort() {
+        logger.debug(`${tag} Abort requested`);
+        session.sendAgentMessage(opts.agentType, {
+            type: 'turn_aborted',
+            id: randomUUID(),
+        });
+        try {
+            abortController.abort();
+            messageQueue.reset();
+            await backendSlot.cancel();
+            logger.debug(`${tag} Abort completed`);
+        } catch (error) {
+            logger.debug(`${tag} Error during abort:`, error);
+        } finally {
+            abortController = new AbortController();
+        }
+    }
+
+    const handleKillSession = async () => {
+        logger.debug(`${tag} Kill session requested`);
+        await handleAbort();
+
+        try {
+            if (session) {
+                session.updateMetadata((currentMetadata) => ({
+                    ...currentMetadata,
+                    lifecycleState: 'archived',
+                    lifecycleStateSince: Date.now(),
+                    archivedBy: 'cli',
+                    archiveReason: 'User terminated',
+                }));
+
+                session.sendSessionDeath();
+                await session.flush();
+                await session.close();
+            }
+
+            stopCaffeinate();
+            remcliServer.stop();
+
+            await backendSlot.dispose();
+
+            logger.debug(`${tag} Session termination complete, exiting`);
+            process.exit(0);
+        } catch (error) {
+            logger.debug(`${tag} Error during session termination:`, error);
+            process.exit(1);
+        }
+    };
+
+    session.rpcHandlerManager.registerHandler('abort', handleAbort);
+    registerKillSessionHandler(session.rpcHandlerManager, handleKillSession);
+
+    //
+    // Initialize Ink UI (reuse CodexDisplay)
+    //
+
+    const messageBuffer = new MessageBuffer();
+    const hasTTY = process.stdout.isTTY && process.stdin.isTTY;
+    let inkInstance: ReturnType<typeof render> | null = null;
+
+    if (hasTTY) {
+        console.clear();
+        inkInstance = render(React.createElement(CodexDisplay, {
+            messageBuffer,
+            logPath: process.env.DEBUG ? logger.getLogPath() : undefined,
+            agentLabel: opts.displayName,
+            onExit: async () => {
+                logger.debug(`${tag}: Exiting agent via Ctrl-C`);
+                shouldExit = true;
+                await handleAbort();
+            },
+        }), {
+            exitOnCtrlC: false,
+            patchConsole: false,
+        });
+
+        process.stdin.resume();
+        if (process.stdin.isTTY) {
+            process.stdin.setRawMode(true);
+        }
+        process.stdin.setEncoding('utf8');
+    }
+
+    //
+    // Start Remcli MCP server and set up the backend's message handling
+    //
+
+    const remcliServer = await startRemcliServer(session);
+    const bridgeCommand = join(projectPath(), 'bin', 'remcli-mcp.mjs');
+    const mcpServers = {
+        remcli: {
+            command: bridgeCommand,
+            args: ['--url', remcliServer.url],
+        },
+    };
+
+    permissionHandler = opts.createPermissionHandler(session, metadata.path);
+    const handler = permissionHandler;
+    const adapter = createMessageAdapter(opts.agentType);
+
+    // Response text is sent to the app once per turn, not per chunk
+    let accumulatedResponse = '';
+    let taskStartedSent = false;
+
+    const handleAgentMessage = (msg: AgentMessage) => {
+        switch (msg.type) {
+            case 'model-output':
+                if (msg.textDelta) {
+                    if (!accumulatedResponse) {
+                        messageBuffer.removeLastMessage('system');
+                        messageBuffer.addMessage(msg.textDelta, 'assistant');
+                    } else {
+                        messageBuffer.updateLastMessage(msg.textDelta, 'assistant');
+                    }
+                    accumulatedResponse += msg.textDelta;
+                }
+                return;
+
+            case 'status':
+                logger.debug(`${tag} Status changed: ${msg.status}${msg.detail ? ` - ${msg.detail}` : ''}`);
+                if (msg.status === 'running') {
+                    thinking = true;
+                    session.keepAlive(thinking, 'remote');
+                    if (!taskStartedSent) {
+                        session.sendAgentMessage(opts.agentType, { type: 'task_started', id: randomUUID() });
+                        taskStartedSent = true;
+                        messageBuffer.addMessage('Thinking...', 'system');
+                    }
+                } else if (msg.status === 'error') {
+                    const errorMessage = `Error: ${msg.detail ? (typeof msg.detail === 'object' ? JSON.stringify(msg.detail) : msg.detail) : 'Unknown error'}`;
+                    messageBuffer.addMessage(errorMessage, 'status');
+                    session.sendAgentMessage(opts.agentType, { type: 'message', message: errorMessage });
+                }
+                return;
+
+            case 'tool-call':
+                messageBuffer.addMessage(`Executing: ${msg.toolName} ${JSON.stringify(msg.args ?? {}).substring(0, 100)}`, 'tool');
+                break;
+
+            case 'tool-result': {
+                const resultText = typeof msg.result === 'string' ? msg.result : JSON.stringify(msg.result);
+                messageBuffer.addMessage(`Result: ${(resultText ?? '').substring(0, 200)}`, 'result');
+                break;
+            }
+
+            case 'fs-edit':
+                messageBuffer.addMessage(`File edit: ${msg.description}`, 'tool');
+                break;
+
+            case 'terminal-output':
+                messageBuffer.addMessage(msg.data, 'result');
+                break;
+        }
+
+        const data = adapter.toSessionMessage(msg);
+        if (data) {
+            session.sendAgentMessage(adapter.agentType, data);
+        }
+    };
+
+    const backendSlot = new AcpBackendSlot<M, B>({
+        create: (mode, resumeSessionId) => opts.createBackend({ mode, resumeSessionId, mcpServers, permissionHandler: handler }),
+        resumeSessionId: opts.backendResumeSessionId,
+        restartOnModeChange: opts.restartOnModeChange,
+        onMessage: handleAgentMessage,
+        onRestart: () => {
+            messageBuffer.addMessage('═'.repeat(40), 'status');
+            messageBuffer.addMessage(`Starting new ${opts.displayName} session (mode changed)...`, 'status');
+        },
+        onStarted: (backend) => opts.onBackendStarted?.(backend, session),
+    }, opts.resumeSessionId);
+
+    try {
+        while (!shouldExit) {
+            const waitSignal = abortController.signal;
+            const message: { message: string; mode: M; hash: string; images: ImageInput[] } | null =
+                await messageQueue.waitForMessagesAndGetAsString(waitSignal);
+            if (!message) {
+                if (waitSignal.aborted && !shouldExit) {
+                    logger.debug(`${tag} Wait aborted while idle, continuing`);
+                    continue;
+                }
+                break;
+            }
+
+            messageBuffer.addMessage(message.message, 'user');
+            opts.onTurnStart?.(message.mode, handler);
+            isProcessingMessage = true;
+            accumulatedResponse = '';
+            taskStartedSent = false;
+
+            try {
+                const { backend, sessionId } = await backendSlot.prepare(message.mode, message.hash);
+                await backend.sendPrompt(sessionId, message.message, message.images);
+                if (backend.waitForResponseComplete) {
+                    await backend.waitForResponseComplete(RESPONSE_TIMEOUT_MS);
+                }
+            } catch (error) {
+                logger.debug(`${tag} Error in ACP session:`, error);
+                const isAbortError = error instanceof Error && error.name === 'AbortError';
+
+                if (isAbortError) {
+                    messageBuffer.addMessage('Aborted by user', 'status');
+                    session.sendSessionEvent({ type: 'message', message: 'Aborted by user' });
+                } else {
+                    const hint = opts.describeError(error instanceof Error ? error.message : String(error));
+                    messageBuffer.addMessage(hint, 'status');
+                    session.sendAgentMessage(opts.agentType, { type: 'message', message: hint });
+                }
+            } finally {
+                handler.reset();
+
+                if (accumulatedResponse.trim()) {
+                    session.sendAgentMessage(opts.agentType, {
+                        type: 'message',
+                        message: accumulatedResponse,
+                    });
+                    accumulatedResponse = '';
+                }
+                session.sendAgentMessage(opts.agentType, {
+                    type: 'task_complete',
+                    id: randomUUID(),
+                });
+
+                thinking = false;
+                session.keepAlive(thinking, 'remote');
+                if (!shouldExit && messageQueue.size() === 0) {
+                    session.sendSessionEvent({ type: 'ready' });
+                }
+
+                isProcessingMessage = false;
+                if (pendingSessionSwap) {
+                    swapSession(pendingSessionSwap);
+                    pendingSessionSwap = null;
+                }
+            }
+        }
+    } finally {
+        logger.debug(`${tag}: Final cleanup start`);
+
+        if (reconnectionHandle) {
+            reconnectionHandle.cancel();
+        }
+
+        try {
+            session.sendSessionDeath();
+            await session.flush();
+            await session.close();
+        } catch (e) {
+            logger.debug(`${tag}: Error while closing session`, e);
+        }
+
+        await backendSlot.dispose();
+
+        remcliServer.stop();
+
+        if (process.stdin.isTTY) {
+            try { process.stdin.setRawMode(false); } catch { /* ignore */ }
+        }
+        if (hasTTY) {
+            try { process.stdin.pause(); } catch { /* ignore */ }
+        }
+
+        clearInterval(keepAliveInterval);
+        if (inkInstance) {
+            inkInstance.unmount();
+        }
+        messageBuffer.clear();
+
+        logger.debug(`${tag}: Final cleanup completed`);
+    }
+}
@@ -32,6 +32,7 @@ import type {
 } from '../core';
 import { logger } from '@/ui/logger';
 import { delay } from '@/utils/time';
+import type { ImageInput } from '@/utils/attachments';
 import packageJson from '../../../package.json';
 
 /**
@@ -160,6 +161,13 @@ export interface AcpBackendOptions {
 
   /** Optional callback to check if prompt has change_title instruction */
   hasChangeTitleInstruction?: (prompt: string) => boolean;
+
+  /**
+   * ACP session to load instead of creating a new one. Used only when the
+   * agent advertises the `loadSession` capability; otherwise a new session
+   * is created.
+   */
+  resumeSessionId?: string;
 }
 
 /**
@@ -270,6 +278,10 @@ export class AcpBackend implements AgentBackend {
   private connection: ClientSideConnection | null = null;
   private acpSessionId: string | null = null;
   private disposed = false;
+  /** Set from the agent's prompt capabilities during initialize */
+  private supportsImagePrompts = false;
+  /** True while a loaded session replays its history (updates are dropped) */
+  private replayingHistory = false;
   /** Track active tool calls to prevent duplicate events */
   private activeToolCalls = new Set<string>();
   private toolCallTimeouts = new Map<string, NodeJS.Timeout>();
@@ -658,7 +670,7 @@ export class AcpBackend implements AgentBackend {
       const initTimeout = this.transport.getInitTimeout();
       logger.debug(`[AcpBackend] Initializing connection (timeout: ${initTimeout}ms)...`);
 
-      await withRetry(
+      const initResponse = await withRetry(
         async () => {
           let timeoutHandle: NodeJS.Timeout | null = null;
           try {
@@ -690,7 +702,8 @@ export class AcpBackend implements AgentBackend {
           maxDelayMs: RETRY_CONFIG.maxDelayMs,
         }
       );
-      logger.debug(`[AcpBackend] Initialize completed`);
+      this.supportsImagePrompts = initResponse.agentCapabilities?.promptCapabilities?.image ?? false;
+      logger.debug(`[AcpBackend] Initialize completed (image prompts: ${this.supportsImagePrompts})`);
 
       // Create a new session with retry
       const mcpServers = this.options.mcpServers
@@ -709,42 +722,52 @@ export class AcpBackend implements AgentBackend {
         mcpServers: mcpServers as unknown as NewSessionRequest['mcpServers'],
       };
 
-      logger.debug(`[AcpBackend] Creating new session...`);
+      const resumeSessionId = this.options.resumeSessionId;
+      const supportsLoadSession = initResponse.agentCapabilities?.loadSession ?? false;
+      if (resumeSessionId && supportsLoadSession) {
+        this.acpSessionId = await this.loadExistingSession(resumeSessionId, newSessionRequest, initTimeout);
+      } else if (resumeSessionId) {
+        logger.debug(`[AcpBackend] ${this.transport.agentName} cannot load sessions, starting a new one instead of ${resumeSessionId}`);
+      }
 
-      const sessionResponse = await withRetry(
-        async () => {
-          let timeoutHandle: NodeJS.Timeout | null = null;
-          try {
-            const result = await Promise.race([
-              this.connection!.newSession(newSessionRequest).then((res) => {
-                if (timeoutHandle) {
-                  clearTimeout(timeoutHandle);
-                  timeoutHandle = null;
-                }
-                return res;
-              }),
-              new Promise<never>((_, reject) => {
-                timeoutHandle = setTimeout(() => {
-                  reject(new Error(`New session timeout after ${initTimeout}ms - ${this.transport.agentName} did not respond`));
-                }, initTimeout);
-              }),
-            ]);
-            return result;
-          } finally {
-            if (timeoutHandle) {
-              clearTimeout(timeoutHandle);
+      if (!this.acpSessionId) {
+        logger.debug(`[AcpBackend] Creating new session...`);
+
+        const sessionResponse = await withRetry(
+          async () => {
+            let timeoutHandle: NodeJS.Timeout | null = null;
+            try {
+              const result = await Promise.race([
+                this.connection!.newSession(newSessionRequest).then((res) => {
+                  if (timeoutHandle) {
+                    clearTimeout(timeoutHandle);
+                    timeoutHandle = null;
+                  }
+                  return res;
+                }),
+                new Promise<never>((_, reject) => {
+                  timeoutHandle = setTimeout(() => {
+                    reject(new Error(`New session timeout after ${initTimeout}ms - ${this.transport.agentName} did not respond`));
+                  }, initTimeout);
+                }),
+              ]);
+              return result;
+            } finally {
+              if (timeoutHandle) {
+                clearTimeout(timeoutHandle);
+              }
             }
+          },
+          {
+            operationName: 'NewSession',
+            maxAttempts: RETRY_CONFIG.maxAttempts,
+            baseDelayMs: RETRY_CONFIG.baseDelayMs,
+            maxDelayMs: RETRY_CONFIG.maxDelayMs,
           }
-        },
-        {
-          operationName: 'NewSession',
-          maxAttempts: RETRY_CONFIG.maxAttempts,
-          baseDelayMs: RETRY_CONFIG.baseDelayMs,
-          maxDelayMs: RETRY_CONFIG.maxDelayMs,
-        }
-      );
-      this.acpSessionId = sessionResponse.sessionId;
-      logger.debug(`[AcpBackend] Session created: ${this.acpSessionId}`);
+        );
+        this.acpSessionId = sessionResponse.sessionId;
+        logger.debug(`[AcpBackend] Session created: ${this.acpSessionId}`);
+      }
 
       this.emitIdleStatus();
 
@@ -771,6 +794,48 @@ export class AcpBackend implements AgentBackend {
     }
   }
 
+  /**
+   * Load a previous ACP session (session/load) so the conversation continues
+   * where it left off. Returns null when loading fails, so the caller can
+   * fall back to a new session.
+   */
+  private async loadExistingSession(
+    sessionId: string,
+    request: NewSessionRequest,
+    timeoutMs: number
+  ): Promise<string | null> {
+    logger.debug(`[AcpBackend] Loading session ${sessionId}...`);
+    this.replayingHistory = true;
+    let timeoutHandle: NodeJS.Timeout | null = null;
+    try {
+      await Promise.race([
+        this.connection!.loadSession({ ...request, sessionId }),
+        new Promise<never>((_, reject) => {
+          timeoutHandle = setTimeout(() => {
+            reject(new Error(`Load session timeout after ${timeoutMs}ms - ${this.transport.agentName} did not respond`));
+          }, timeoutMs);
+        }),
+      ]);
+      logger.debug(`[AcpBackend] Session loaded: ${sessionId}`);
+      return sessionId;
+    } catch (error) {
+      logger.debug(`[AcpBackend] Failed to load session ${sessionId}, starting a new one:`, error);
+      return null;
+    } finally {
+      if (timeoutHandle) {
+        clearTimeout(timeoutHandle);
+      }
+      this.replayingHistory = false;
+    }
+  }
+
+  /**
+   * ID of the agent-side ACP session, for resuming it in a new backend
+   */
+  getAcpSessionId(): string | null {
+    return this.acpSessionId;
+  }
+
   /**
    * Create handler context for session update processing
    */
@@ -811,6 +876,11 @@ export class AcpBackend implements AgentBackend {
 
     const sessionUpdateType = update.sessionUpdate;
 
+    // A loaded session streams its whole history back; the app already has it
+    if (this.replayingHistory) {
+      return;
+    }
+
     // Log session updates for debugging (but not every chunk to avoid log spam)
     if (sessionUpdateType !== 'agent_message_chunk') {
       logger.debug(`[AcpBackend] Received session update: ${sessionUpdateType}`, JSON.stringify({
@@ -871,7 +941,7 @@ export class AcpBackend implements AgentBackend {
   private idleResolver: (() => void) | null = null;
   private waitingForResponse = false;
 
-  async sendPrompt(sessionId: SessionId, prompt: string): Promise<void> {
+  async sendPrompt(sessionId: SessionId, prompt: string, images?: ImageInput[]): Promise<void> {
     // Check if prompt contains change_title instruction (via optional callback)
     const promptHasChangeTitle = this.options.hasChangeTitleInstruction?.(prompt) ?? false;
 
@@ -902,9 +972,17 @@ export class AcpBackend implements AgentBackend {
         text: prompt,
       };
 
+      // Images are only sent to agents that advertise image prompt support
+      const imageBlocks: ContentBlock[] = this.supportsImagePrompts
+        ? (images ?? []).map((image) => ({ type: 'image', data: image.data, mimeType: image.mimeType }))
+        : [];
+      if (images?.length && !this.supportsImagePrompts) {
+        logger.debug(`[AcpBackend] Agent does not accept image prompts, dropping ${images.length} image(s)`);
+      }
+
       const promptRequest: PromptRequest = {
         sessionId: this.acpSessionId,
-        prompt: [contentBlock],
+        prompt: [...imageBlocks, contentBlock],
       };
 
       logger.debug(`[AcpBackend] Prompt request:`, JSON.stringify(promptRequest, null, 2));
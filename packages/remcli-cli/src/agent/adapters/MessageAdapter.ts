@@ -25,6 +25,9 @@ import type {
   EventMessage,
 } from '../core/AgentMessage';
 
+import { randomUUID } from 'node:crypto';
+import type { ACPMessageData } from '@/api/apiSession';
+
 import type {
   MobileAgentType,
   MobileAgentMessage,
@@ -152,6 +155,90 @@ export class MessageAdapter {
     }
   }
 
+  /**
+   * Transform an AgentMessage to the ACP message data sent with
+   * `ApiSessionClient.sendAgentMessage`.
+   *
+   * Returns null for messages the session does not forward as they come:
+   * model output is accumulated by the runner and sent once per turn, and
+   * status changes drive task_started/task_complete in the runner.
+   */
+  toSessionMessage(msg: AgentMessage): ACPMessageData | null {
+    switch (msg.type) {
+      case 'tool-call':
+        return { type: 'tool-call', name: msg.toolName, callId: msg.callId, input: msg.args, id: randomUUID() };
+
+      case 'tool-result':
+        return {
+          type: 'tool-result',
+          callId: msg.callId,
+          output: msg.result,
+          id: randomUUID(),
+          ...(msg.result && typeof msg.result === 'object' && 'error' in msg.result ? { isError: true } : {}),
+        };
+
+      case 'permission-request': {
+        const payload = (msg.payload ?? {}) as { toolName?: string };
+        return {
+          type: 'permission-request',
+          permissionId: msg.id,
+          toolName: payload.toolName || msg.reason || 'unknown',
+          description: msg.reason || payload.toolName || '',
+          options: msg.payload,
+        };
+      }
+
+      case 'fs-edit':
+        return {
+          type: 'file-edit',
+          description: msg.description,
+          diff: msg.diff,
+          filePath: msg.path || 'unknown',
+          id: randomUUID(),
+        };
+
+      case 'terminal-output':
+        return { type: 'terminal-output', data: msg.data, callId: randomUUID() };
+
+      case 'event': {
+        if (msg.name !== 'thinking') {
+          return null;
+        }
+        const payload = msg.payload as { text?: string } | undefined;
+        return { type: 'thinking', text: String(payload?.text ?? '') };
+      }
+
+      case 'token-count':
+        return { ...msg, type: 'token_count', id: randomUUID() };
+
+      case 'exec-approval-request': {
+        const { call_id, type, ...inputs } = msg;
+        return { type: 'tool-call', name: 'Bash', callId: call_id, input: inputs, id: randomUUID() };
+      }
+
+      case 'patch-apply-begin':
+        return {
+          type: 'tool-call',
+          name: 'Patch',
+          callId: msg.call_id,
+          input: { auto_approved: msg.auto_approved, changes: msg.changes },
+          id: randomUUID(),
+        };
+
+      case 'patch-apply-end':
+        return {
+          type: 'tool-result',
+          callId: msg.call_id,
+          output: { stdout: msg.stdout, stderr: msg.stderr, success: msg.success },
+          id: randomUUID(),
+          ...(msg.success ? {} : { isError: true }),
+        };
+
+      default:
+        return null;
+    }
+  }
+
   private normalizeModelOutput(
     msg: ModelOutputMessage,
     base: NormalizedMobilePayload
@@ -282,4 +369,5 @@ export const adapters = {
   claude: new MessageAdapter({ agentType: 'claude' }),
   opencode: new MessageAdapter({ agentType: 'opencode' }),
   cursor: new MessageAdapter({ agentType: 'cursor' }),
+  acp: new MessageAdapter({ agentType: 'acp' }),
 } as const;
@@ -10,8 +10,9 @@
 
 /**
  * Supported agent types for the mobile app
+ * ('acp' covers agents declared in settings.json)
  */
-export type MobileAgentType = 'gemini' | 'codex' | 'claude' | 'opencode' | 'cursor';
+export type MobileAgentType = 'gemini' | 'codex' | 'claude' | 'opencode' | 'cursor' | 'acp';
 
 /**
  * Message roles for the mobile app
@@ -12,6 +12,8 @@
  * - Stream model output and events
  */
 
+import type { ImageInput } from '@/utils/attachments';
+
 /** Unique identifier for an agent session */
 export type SessionId = string;
 
@@ -115,8 +117,9 @@ export interface AgentBackend {
    * 
    * @param sessionId - The session to send the prompt to
    * @param prompt - The user's prompt text
+   * @param images - Optional images attached to the prompt
    */
-  sendPrompt(sessionId: SessionId, prompt: string): Promise<void>;
+  sendPrompt(sessionId: SessionId, prompt: string, images?: ImageInput[]): Promise<void>;
   
   /**
    * Cancel the current operation in a session.
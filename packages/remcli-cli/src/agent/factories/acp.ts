@@ -0,0 +1,68 @@
+/**
+ * Configured ACP Backend - any ACP agent declared in settings
+ *
+ * This module provides a factory function for creating a backend for an
+ * agent declared under `acpAgents` in ~/.remcli/settings.json. The agent's
+ * command, arguments, environment and transport quirks all come from its
+ * configuration, so new ACP-speaking CLIs (OpenCode, ...) need no code.
+ */
+
+import { AcpBackend, type AcpBackendOptions, type AcpPermissionHandler } from '../acp/AcpBackend';
+import type { AgentBackend, McpServerConfig, AgentFactoryOptions } from '../core';
+import { ConfiguredTransport } from '../transport';
+import { logger } from '@/ui/logger';
+import type { AcpAgentConfig } from '@/acp/config';
+import { expandEnvironmentVariables } from '@/utils/expandEnvVars';
+
+/**
+ * Options for creating a configured ACP backend
+ */
+export interface ConfiguredAcpBackendOptions extends AgentFactoryOptions {
+  /** Name of the agent in settings (used for logging and the transport) */
+  name: string;
+
+  /** The agent's entry from settings */
+  config: AcpAgentConfig;
+
+  /** MCP servers to make available to the agent */
+  mcpServers?: Record<string, McpServerConfig>;
+
+  /** Optional permission handler for tool approval */
+  permissionHandler?: AcpPermissionHandler;
+}
+
+/**
+ * Create a backend for an ACP agent declared in settings.
+ *
+ * ${VAR} references in the configured environment are expanded from the
+ * current process environment; `options.env` is applied on top.
+ *
+ * @param options - Configuration options
+ * @returns AgentBackend instance
+ */
+export function createConfiguredAcpBackend(options: ConfiguredAcpBackendOptions): AgentBackend {
+  const { name, config } = options;
+  const env = {
+    ...expandEnvironmentVariables(config.env ?? {}, process.env),
+    ...options.env,
+  };
+
+  logger.debug(`[${name}] Creating ACP backend: ${config.command} ${(config.args ?? []).join(' ')} (env: ${Object.keys(env).join(', ') || 'none'})`);
+
+  const backendOptions: AcpBackendOptions = {
+    agentName: name,
+    cwd: options.cwd,
+    command: config.command,
+    args: config.args ?? [],
+    env,
+    mcpServers: options.mcpServers,
+    permissionHandler: options.permissionHandler,
+    transportHandler: new ConfiguredTransport(name, config.transport),
+    // The change_title instruction is appended to the first prompt
+    hasChangeTitleInstruction: (prompt: string) =>
+      prompt.toLowerCase().includes('change_title') ||
+      prompt.toLowerCase().includes('change title'),
+  };
+
+  return new AcpBackend(backendOptions);
+}
@@ -0,0 +1,112 @@
+/**
+ * Codex ACP Backend - Codex via the codex-acp adapter
+ *
+ * This module provides a factory function for creating a Codex backend
+ * that communicates using the Agent Client Protocol (ACP).
+ *
+ * `codex-acp` runs Codex in-process and exposes it over ACP on stdio, so
+ * permission requests arrive as ACP requests (answered through the
+ * permission handler) and sessions are resumed with session/load instead of
+ * looking for transcript files.
+ */
+
+import { AcpBackend, type AcpBackendOptions, type AcpPermissionHandler } from '../acp/AcpBackend';
+import type { McpServerConfig, AgentFactoryOptions } from '../core';
+import { agentRegistry } from '../core';
+import { codexTransport } from '../transport';
+import { logger } from '@/ui/logger';
+import type { PermissionMode } from '@/api/types';
+import { getCodexApprovalPolicy, getCodexSandboxMode } from '@/codex/utils/permissionModes';
+
+/** ACP adapter for Codex, expected in PATH */
+export const CODEX_ACP_COMMAND = 'codex-acp';
+
+/**
+ * Options for creating a Codex ACP backend
+ */
+export interface CodexBackendOptions extends AgentFactoryOptions {
+  /** Model to use (defaults to the model in Codex's own config) */
+  model?: string;
+
+  /** Permission mode, mapped to Codex's approval policy and sandbox */
+  permissionMode?: PermissionMode;
+
+  /** ACP session to resume (from a previous backend's getAcpSessionId()) */
+  resumeSessionId?: string;
+
+  /** MCP servers to make available to the agent */
+  mcpServers?: Record<string, McpServerConfig>;
+
+  /** Optional permission handler for tool approval */
+  permissionHandler?: AcpPermissionHandler;
+}
+
+/**
+ * Build `-c key=value` overrides for codex-acp.
+ * Values are TOML; JSON strings are valid TOML strings.
+ */
+function buildConfigOverrides(options: CodexBackendOptions): string[] {
+  const mode = options.permissionMode ?? 'default';
+  const overrides: Record<string, string> = {
+    approval_policy: getCodexApprovalPolicy(mode),
+    sandbox_mode: getCodexSandboxMode(mode),
+  };
+  if (options.model) {
+    overrides.model = options.model;
+  }
+  return Object.entries(overrides).flatMap(([key, value]) => ['-c', `${key}=${JSON.stringify(value)}`]);
+}
+
+/**
+ * Create a Codex backend using ACP.
+ *
+ * The codex-acp adapter must be installed and available in PATH
+ * (npm install -g @zed-industries/codex-acp).
+ *
+ * @param options - Configuration options
+ * @returns AcpBackend instance (exposes getAcpSessionId() for resuming)
+ */
+export function createCodexBackend(options: CodexBackendOptions): AcpBackend {
+  const args = buildConfigOverrides(options);
+
+  const backendOptions: AcpBackendOptions = {
+    agentName: 'codex',
+    cwd: options.cwd,
+    command: CODEX_ACP_COMMAND,
+    args,
+    env: {
+      ...options.env,
+      // codex-acp logs to stderr; keep it quiet unless RUST_LOG is set
+      RUST_LOG: process.env.RUST_LOG ?? 'error',
+    },
+    mcpServers: options.mcpServers,
+    permissionHandler: options.permissionHandler,
+    transportHandler: codexTransport,
+    resumeSessionId: options.resumeSessionId,
+    // The change_title instruction is appended to the first prompt
+    hasChangeTitleInstruction: (prompt: string) =>
+      prompt.toLowerCase().includes('change_title') ||
+      prompt.toLowerCase().includes('change title'),
+  };
+
+  logger.debug('[Codex] Creating ACP backend with options:', {
+    cwd: backendOptions.cwd,
+    command: backendOptions.command,
+    args,
+    resumeSessionId: options.resumeSessionId ?? null,
+    mcpServerCount: options.mcpServers ? Object.keys(options.mcpServers).length : 0,
+  });
+
+  return new AcpBackend(backendOptions);
+}
+
+/**
+ * Register the Codex ACP backend with the global agent registry.
+ *
+ * Registered as 'codex-acp'; 'codex' stays the MCP-server integration in
+ * src/codex/.
+ */
+export function registerCodexAgent(): void {
+  agentRegistry.register('codex-acp', (opts) => createCodexBackend(opts));
+  logger.debug('[Codex] Registered codex-acp with agent registry');
+}
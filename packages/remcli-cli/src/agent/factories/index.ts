@@ -15,7 +15,20 @@ export {
   type GeminiBackendResult,
 } from './gemini';
 
+// Codex via the codex-acp adapter
+export {
+  createCodexBackend,
+  registerCodexAgent,
+  CODEX_ACP_COMMAND,
+  type CodexBackendOptions,
+} from './codex';
+
+// ACP agents declared in settings.json
+export {
+  createConfiguredAcpBackend,
+  type ConfiguredAcpBackendOptions,
+} from './acp';
+
 // Future factories:
-// export { createCodexBackend, registerCodexAgent, type CodexBackendOptions } from './codex';
 // export { createClaudeBackend, registerClaudeAgent, type ClaudeBackendOptions } from './claude';
 // export { createOpenCodeBackend, registerOpenCodeAgent, type OpenCodeBackendOptions } from './opencode';
@@ -0,0 +1,139 @@
+/**
+ * Codex Transport Handler
+ *
+ * Codex-specific implementation of TransportHandler for the `codex-acp`
+ * adapter, which speaks ACP on stdio and drives Codex through its own
+ * protocol. Handles:
+ * - Longer tool call timeout (shell commands run builds and test suites)
+ * - Stderr parsing (detects missing login and unknown models)
+ * - Tool name patterns (change_title)
+ *
+ * @module CodexTransport
+ */
+
+import type {
+  ToolPattern,
+  StderrContext,
+  StderrResult,
+  ToolNameContext,
+} from '../TransportHandler';
+import type { AgentMessage } from '../../core';
+import { DefaultTransport } from '../DefaultTransport';
+
+/**
+ * Codex-specific timeout values (in milliseconds)
+ */
+export const CODEX_TIMEOUTS = {
+  /** codex-acp starts quickly, but the first start may refresh auth */
+  init: 60_000,
+  /** Shell commands can run builds and test suites */
+  toolCall: 600_000,
+  /** Think tools are usually quick */
+  think: 30_000,
+  /** Idle detection after last message chunk */
+  idle: 500,
+} as const;
+
+/**
+ * Known tool name patterns for Codex.
+ * Codex reports its own tools with a proper kind; only MCP tools from the
+ * Remcli bridge may come through as "other".
+ */
+const CODEX_TOOL_PATTERNS: ToolPattern[] = [
+  {
+    name: 'change_title',
+    patterns: ['change_title', 'change-title', 'remcli__change_title', 'mcp__remcli__change_title'],
+  },
+];
+
+/**
+ * Codex transport handler.
+ *
+ * Starts from DefaultTransport (codex-acp writes only JSON-RPC to stdout)
+ * and adds Codex-specific timeouts and error detection.
+ */
+export class CodexTransport extends DefaultTransport {
+  constructor() {
+    super('codex');
+  }
+
+  getInitTimeout(): number {
+    return CODEX_TIMEOUTS.init;
+  }
+
+  /**
+   * Handle codex-acp stderr output.
+   *
+   * Detects:
+   * - Missing or expired login (401) - emit error with login hint
+   * - Unknown model - emit error
+   */
+  handleStderr(text: string, _context: StderrContext): StderrResult {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      return { message: null, suppress: true };
+    }
+
+    if (trimmed.includes('401 Unauthorized') || trimmed.includes('Not logged in')) {
+      const errorMessage: AgentMessage = {
+        type: 'status',
+        status: 'error',
+        detail: 'Codex is not authenticated. Run `codex login` on this machine or set OPENAI_API_KEY in the profile.',
+      };
+      return { message: errorMessage };
+    }
+
+    if (trimmed.includes('model_not_found') || trimmed.includes('does not exist or you do not have access')) {
+      const errorMessage: AgentMessage = {
+        type: 'status',
+        status: 'error',
+        detail: 'Model not found or not available for this account.',
+      };
+      return { message: errorMessage };
+    }
+
+    return { message: null };
+  }
+
+  getToolPatterns(): ToolPattern[] {
+    return CODEX_TOOL_PATTERNS;
+  }
+
+  getToolCallTimeout(_toolCallId: string, toolKind?: string): number {
+    if (toolKind === 'think') {
+      return CODEX_TIMEOUTS.think;
+    }
+    return CODEX_TIMEOUTS.toolCall;
+  }
+
+  getIdleTimeout(): number {
+    return CODEX_TIMEOUTS.idle;
+  }
+
+  extractToolNameFromId(toolCallId: string): string | null {
+    const lowerId = toolCallId.toLowerCase();
+    for (const toolPattern of CODEX_TOOL_PATTERNS) {
+      if (toolPattern.patterns.some((pattern) => lowerId.includes(pattern.toLowerCase()))) {
+        return toolPattern.name;
+      }
+    }
+    return null;
+  }
+
+  determineToolName(
+    toolName: string,
+    toolCallId: string,
+    _input: Record<string, unknown>,
+    _context: ToolNameContext
+  ): string {
+    if (toolName !== 'other' && toolName !== 'Unknown tool') {
+      return toolName;
+    }
+    return this.extractToolNameFromId(toolCallId) ?? toolName;
+  }
+}
+
+/**
+ * Singleton instance for convenience
+ */
+export const codexTransport = new CodexTransport();
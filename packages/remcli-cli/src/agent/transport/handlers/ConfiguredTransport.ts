@@ -0,0 +1,120 @@
+/**
+ * Configured Transport Handler
+ *
+ * TransportHandler for ACP agents declared in settings rather than in code.
+ * Starts from DefaultTransport and applies the quirks given in the agent's
+ * configuration:
+ * - Init, idle and tool call timeouts
+ * - Whether non-JSON stdout lines are dropped
+ * - Tool name patterns for calls reported as "other"
+ * - Investigation tools that get a longer timeout
+ *
+ * @module ConfiguredTransport
+ */
+
+import type { ToolPattern, ToolNameContext } from '../TransportHandler';
+import { DefaultTransport } from '../DefaultTransport';
+
+/**
+ * Transport quirks of a configured ACP agent (all optional)
+ */
+export interface ConfiguredTransportOptions {
+  /** Initialization timeout in milliseconds */
+  initTimeoutMs?: number;
+  /** Quiet period after the last chunk before the agent counts as idle */
+  idleTimeoutMs?: number;
+  /** Timeout for a regular tool call */
+  toolCallTimeoutMs?: number;
+  /** Drop stdout lines that are not JSON objects (default true) */
+  filterStdout?: boolean;
+  /** Patterns to recover tool names from tool call IDs */
+  toolPatterns?: ToolPattern[];
+  /** Substrings of tool call IDs that mark investigation tools */
+  investigationTools?: string[];
+  /** Timeout for investigation tools in milliseconds */
+  investigationTimeoutMs?: number;
+}
+
+/**
+ * Timeouts used when the configuration leaves them out (in milliseconds)
+ */
+const DEFAULT_TIMEOUTS = {
+  /** Idle detection after last message chunk */
+  idle: 500,
+  /** Investigation tools can run for a long time */
+  investigation: 600_000,
+} as const;
+
+export class ConfiguredTransport extends DefaultTransport {
+  private readonly options: ConfiguredTransportOptions;
+
+  constructor(agentName: string, options: ConfiguredTransportOptions = {}) {
+    super(agentName);
+    this.options = options;
+  }
+
+  getInitTimeout(): number {
+    return this.options.initTimeoutMs ?? super.getInitTimeout();
+  }
+
+  getIdleTimeout(): number {
+    return this.options.idleTimeoutMs ?? DEFAULT_TIMEOUTS.idle;
+  }
+
+  /**
+   * Keep every line when filtering is turned off
+   */
+  filterStdoutLine(line: string): string | null {
+    if (this.options.filterStdout === false) {
+      return line.trim() ? line : null;
+    }
+    return super.filterStdoutLine(line);
+  }
+
+  getToolPatterns(): ToolPattern[] {
+    return this.options.toolPatterns ?? [];
+  }
+
+  isInvestigationTool(toolCallId: string, _toolKind?: string): boolean {
+    const lowerId = toolCallId.toLowerCase();
+    return (this.options.investigationTools ?? []).some((tool) => lowerId.includes(tool.toLowerCase()));
+  }
+
+  getToolCallTimeout(toolCallId: string, toolKind?: string): number {
+    if (this.isInvestigationTool(toolCallId, toolKind)) {
+      return this.options.investigationTimeoutMs ?? DEFAULT_TIMEOUTS.investigation;
+    }
+    if (toolKind !== 'think' && this.options.toolCallTimeoutMs) {
+      return this.options.toolCallTimeoutMs;
+    }
+    return super.getToolCallTimeout(toolCallId, toolKind);
+  }
+
+  /**
+   * First configured pattern found in the tool call ID
+   */
+  extractToolNameFromId(toolCallId: string): string | null {
+    const lowerId = toolCallId.toLowerCase();
+    for (const toolPattern of this.getToolPatterns()) {
+      if (toolPattern.patterns.some((pattern) => lowerId.includes(pattern.toLowerCase()))) {
+        return toolPattern.name;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Replace "other" and "Unknown tool" with a name matched from the tool call ID
+   */
+  determineToolName(
+    toolName: string,
+    toolCallId: string,
+    _input: Record<string, unknown>,
+    _context: ToolNameContext
+  ): string {
+    if (toolName !== 'other' && toolName !== 'Unknown tool') {
+      return toolName;
+    }
+    return this.extractToolNameFromId(toolCallId) ?? toolName;
+  }
+}
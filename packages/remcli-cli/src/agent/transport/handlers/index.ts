@@ -7,8 +7,9 @@
  */
 
 export { GeminiTransport, geminiTransport } from './GeminiTransport';
+export { ConfiguredTransport, type ConfiguredTransportOptions } from './ConfiguredTransport';
+export { CodexTransport, codexTransport } from './CodexTransport';
 
 // Future handlers:
-// export { CodexTransport, codexTransport } from './CodexTransport';
 // export { ClaudeTransport, claudeTransport } from './ClaudeTransport';
 // export { OpenCodeTransport, openCodeTransport } from './OpenCodeTransport';
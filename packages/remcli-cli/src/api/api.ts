@@ -270,6 +270,23 @@ export class ApiClient {
     }
   }
 
+  /**
+   * Store a free-text notification on the daemon; paired apps alert and list it in their inbox
+   */
+  async sendNotification(opts: { body: string, title?: string }): Promise<void> {
+    await axios.post(
+      `${getEffectiveServerUrl()}/v1/notifications`,
+      opts,
+      {
+        headers: {
+          'Authorization': `Bearer ${this.credential.token}`,
+          'Content-Type': 'application/json'
+        },
+        timeout: 10000
+      }
+    );
+  }
+
   sessionSyncClient(session: Session): ApiSessionClient {
     return new ApiSessionClient(this.credential.token, session);
   }
@@ -10,7 +10,16 @@ import { randomUUID } from 'node:crypto';
 import { AsyncLock } from '@/utils/lock';
 import { RpcHandlerManager } from './rpc/RpcHandlerManager';
 import { registerCommonHandlers } from '../modules/common/registerCommonHandlers';
+import { registerPermissionRulesHandler } from '@/utils/permissionRules';
 import { calculateCost } from '@/utils/pricing';
+import { takeInitialPromptFromEnvironment } from '@/daemon/scheduler';
+import { configuration } from '@/configuration';
+import axios from 'axios';
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+
+/** How long to wait for the daemon to say whether an app is connected */
+const APP_PRESENCE_TIMEOUT_MS = 2000;
 
 /**
  * ACP (Agent Communication Protocol) message data types.
@@ -37,7 +46,7 @@ export type ACPMessageData =
     // Usage/metrics
     | { type: 'token_count';[key: string]: unknown };
 
-export type ACPProvider = 'gemini' | 'codex' | 'claude' | 'opencode';
+export type ACPProvider = 'gemini' | 'codex' | 'claude' | 'opencode' | 'acp';
 
 export class ApiSessionClient extends EventEmitter {
     private readonly token: string;
@@ -49,6 +58,10 @@ export class ApiSessionClient extends EventEmitter {
     private socket: Socket<ServerToClientEvents, ClientToServerEvents>;
     private pendingMessages: UserMessage[] = [];
     private pendingMessageCallback: ((message: UserMessage) => void) | null = null;
+    private attachmentDownloads: Promise<void> | null = null;
+    private turnInProgress = false; // A user message arrived since the last turn-finished notification
+    private readonly cancelBashJobs: () => void;
+    private initialPrompt: string | null; // Prompt of a scheduled session, sent once connected
     readonly rpcHandlerManager: RpcHandlerManager;
     private agentStateLock = new AsyncLock();
     private metadataLock = new AsyncLock();
@@ -66,6 +79,9 @@ export class ApiSessionClient extends EventEmitter {
         this.encryptionKey = session.encryptionKey;
         this.encryptionVariant = session.encryptionVariant;
 
+        // Sessions started by the daemon scheduler get their prompt as a file
+        this.initialPrompt = takeInitialPromptFromEnvironment();
+
         // Initialize RPC handler manager
         this.rpcHandlerManager = new RpcHandlerManager({
             scopePrefix: this.sessionId,
@@ -73,7 +89,14 @@ export class ApiSessionClient extends EventEmitter {
             encryptionVariant: this.encryptionVariant,
             logger: (msg, data) => logger.debug(msg, data)
         });
-        registerCommonHandlers(this.rpcHandlerManager, this.metadata.path);
+        // Output of streaming commands goes to the app as encrypted ephemeral events
+        this.cancelBashJobs = registerCommonHandlers(this.rpcHandlerManager, this.metadata.path, (event) => {
+            this.socket.emit('bash-job', {
+                sid: this.sessionId,
+                payload: encodeBase64(encrypt(this.encryptionKey, this.encryptionVariant, event))
+            });
+        });
+        registerPermissionRulesHandler(this.rpcHandlerManager, this.metadata.path);
 
         //
         // Create socket
@@ -102,6 +125,11 @@ export class ApiSessionClient extends EventEmitter {
         this.socket.on('connect', () => {
             logger.debug('Socket connected successfully');
             this.rpcHandlerManager.onSocketConnect(this.socket);
+            if (this.initialPrompt) {
+                const prompt = this.initialPrompt;
+                this.initialPrompt = null;
+                this.sendInitialPrompt(prompt);
+            }
         })
 
         // Set up global RPC request handler
@@ -138,11 +166,7 @@ export class ApiSessionClient extends EventEmitter {
                     const userResult = UserMessageSchema.safeParse(body);
                     if (userResult.success) {
                         // Server already filtered to only our session
-                        if (this.pendingMessageCallback) {
-                            this.pendingMessageCallback(userResult.data);
-                        } else {
-                            this.pendingMessages.push(userResult.data);
-                        }
+                        this.receiveUserMessage(userResult.data);
                     } else {
                         // If not a user message, it might be a permission response or other message type
                         this.emit('message', body);
@@ -168,6 +192,17 @@ export class ApiSessionClient extends EventEmitter {
             }
         });
 
+        // A `pause` usage budget is exceeded: stop the current turn like the app's stop button
+        this.socket.on('usage-budget-exceeded', (data) => {
+            if (data.sid !== this.sessionId) {
+                return;
+            }
+            logger.debug(`[SOCKET] Usage budget ${data.budgetId} exceeded ($${data.spentUsd.toFixed(2)} of $${data.limitUsd.toFixed(2)}), aborting turn`);
+            this.rpcHandlerManager.invokeLocal('abort', {}).catch((error) => {
+                logger.debug('[SOCKET] Failed to abort turn for usage budget:', error);
+            });
+        });
+
         // DEATH
         this.socket.on('error', (error) => {
             logger.debug('[API] Socket error:', error);
@@ -180,6 +215,75 @@ export class ApiSessionClient extends EventEmitter {
         this.socket.connect();
     }
 
+    private dispatchUserMessage(message: UserMessage) {
+        if (this.pendingMessageCallback) {
+            this.pendingMessageCallback(message);
+        } else {
+            this.pendingMessages.push(message);
+        }
+    }
+
+    /**
+     * Deliver a user message, downloading its attachments first. Messages stay
+     * in order: anything arriving while a download runs waits behind it.
+     */
+    private receiveUserMessage(message: UserMessage) {
+        this.turnInProgress = true;
+        if (!message.content.attachments?.length && !this.attachmentDownloads) {
+            this.dispatchUserMessage(message);
+            return;
+        }
+
+        const chain = (this.attachmentDownloads ?? Promise.resolve())
+            .then(() => this.downloadAttachments(message))
+            .then((resolved) => this.dispatchUserMessage(resolved));
+        this.attachmentDownloads = chain;
+        chain.finally(() => {
+            if (this.attachmentDownloads === chain) {
+                this.attachmentDownloads = null;
+            }
+        });
+    }
+
+    /**
+     * Fetch and decrypt the attachments of a message into
+     * ~/.remcli/attachments/<sessionId>, filling in their local paths.
+     * Attachments that fail to download are passed on without a path. A path
+     * sent by the app is never used: it could point the agent at any file.
+     */
+    private async downloadAttachments(message: UserMessage): Promise<UserMessage> {
+        const attachments = message.content.attachments;
+        if (!attachments?.length) {
+            return message;
+        }
+
+        const dir = join(configuration.remcliHomeDir, 'attachments', this.sessionId);
+        const resolved = await Promise.all(attachments.map(async ({ path: _appPath, ...attachment }) => {
+            try {
+                const response = await axios.get<{ data: string }>(
+                    `${getEffectiveServerUrl()}/v1/sessions/${this.sessionId}/attachments/${encodeURIComponent(attachment.id)}`,
+                    {
+                        headers: { 'Authorization': `Bearer ${this.token}` },
+                        timeout: 60000
+                    }
+                );
+                const payload = decrypt(this.encryptionKey, this.encryptionVariant, decodeBase64(response.data.data)) as { data?: unknown } | null;
+                if (!payload || typeof payload.data !== 'string') {
+                    throw new Error('Attachment payload could not be decrypted');
+                }
+
+                mkdirSync(dir, { recursive: true });
+                const path = join(dir, `${basename(attachment.id)}-${basename(attachment.name) || 'file'}`);
+                writeFileSync(path, Buffer.from(payload.data, 'base64'));
+                return { ...attachment, path };
+            } catch (error) {
+                logger.debug(`[API] Failed to download attachment ${attachment.id}:`, error);
+                return attachment;
+            }
+        }));
+        return { ...message, content: { ...message.content, attachments: resolved } };
+    }
+
     onUserMessage(callback: (data: UserMessage) => void) {
         this.pendingMessageCallback = callback;
         while (this.pendingMessages.length > 0) {
@@ -195,6 +299,9 @@ export class ApiSessionClient extends EventEmitter {
         let content: MessageContent;
 
         // Check if body is already a MessageContent (has role property)
+        if (body.type === 'user') {
+            this.turnInProgress = true;
+        }
         if (body.type === 'user' && typeof body.message.content === 'string' && body.isSidechain !== true && body.isMeta !== true) {
             content = {
                 role: 'user',
@@ -255,6 +362,29 @@ export class ApiSessionClient extends EventEmitter {
         }
     }
 
+    /**
+     * Post a user message on behalf of the CLI: it shows up in the app like a
+     * message typed there and is delivered to the agent as the next prompt
+     */
+    sendInitialPrompt(text: string) {
+        const message: UserMessage = {
+            role: 'user',
+            content: {
+                type: 'text',
+                text
+            },
+            meta: {
+                sentFrom: 'cli'
+            }
+        };
+        logger.debug(`[API] Sending initial prompt (${text.length} chars)`);
+        this.socket.emit('message', {
+            sid: this.sessionId,
+            message: encodeBase64(encrypt(this.encryptionKey, this.encryptionVariant, message))
+        });
+        this.receiveUserMessage(message);
+    }
+
     sendCodexMessage(body: any) {
         let content = {
             role: 'agent',
@@ -287,7 +417,7 @@ export class ApiSessionClient extends EventEmitter {
      * @param provider - The agent provider sending the message (e.g., 'gemini', 'codex', 'claude')
      * @param body - The message payload (type: 'message' | 'reasoning' | 'tool-call' | 'tool-result')
      */
-    sendAgentMessage(provider: 'gemini' | 'codex' | 'claude' | 'opencode' | 'cursor', body: ACPMessageData) {
+    sendAgentMessage(provider: 'gemini' | 'codex' | 'claude' | 'opencode' | 'cursor' | 'acp', body: ACPMessageData) {
         let content = {
             role: 'agent',
             content: {
@@ -331,6 +461,21 @@ export class ApiSessionClient extends EventEmitter {
             sid: this.sessionId,
             message: encrypted
         });
+
+        // Agents send `ready` when a turn ends (some more than once) — alert once per turn
+        if (event.type === 'ready' && this.turnInProgress) {
+            this.turnInProgress = false;
+            this.sendNotification({ kind: 'turn-finished' });
+        }
+    }
+
+    /**
+     * Ask the daemon to store and broadcast a notification for this session
+     * (the app alerts locally and lists it in the inbox)
+     */
+    sendNotification(notification: { kind: 'permission', tool: string } | { kind: 'turn-finished' }) {
+        logger.debug(`[API] Sending ${notification.kind} notification`);
+        this.socket.emit('notification', { sid: this.sessionId, ...notification });
     }
 
     /**
@@ -348,6 +493,22 @@ export class ApiSessionClient extends EventEmitter {
         });
     }
 
+    /**
+     * Whether an app is connected to the daemon and could answer a permission request
+     */
+    async isAppConnected(): Promise<boolean> {
+        if (!this.socket.connected) {
+            return false;
+        }
+        try {
+            const answer = await this.socket.timeout(APP_PRESENCE_TIMEOUT_MS).emitWithAck('app-presence');
+            return answer.connected;
+        } catch (error) {
+            logger.debug('[API] App presence check failed:', error);
+            return false;
+        }
+    }
+
     /**
      * Send session death message
      */
@@ -368,6 +529,9 @@ export class ApiSessionClient extends EventEmitter {
         const usageReport = {
             key: 'claude-session',
             sessionId: this.sessionId,
+            agent: this.metadata?.flavor ?? 'claude',
+            project: this.metadata?.path,
+            model,
             tokens: {
                 total: totalTokens,
                 input: usage.input_tokens,
@@ -421,9 +585,17 @@ export class ApiSessionClient extends EventEmitter {
                 let updated = handler(this.agentState || {});
                 const answer = await this.socket.emitWithAck('update-state', { sid: this.sessionId, expectedVersion: this.agentStateVersion, agentState: updated ? encodeBase64(encrypt(this.encryptionKey, this.encryptionVariant, updated)) : null });
                 if (answer.result === 'success') {
+                    const previousRequests = this.agentState?.requests ?? {};
                     this.agentState = answer.agentState ? decrypt(this.encryptionKey, this.encryptionVariant, decodeBase64(answer.agentState)) : null;
                     this.agentStateVersion = answer.version;
                     logger.debug('Agent state updated', this.agentState);
+
+                    // New permission requests mean the agent is blocked on the user
+                    for (const [id, request] of Object.entries(this.agentState?.requests ?? {})) {
+                        if (!(id in previousRequests)) {
+                            this.sendNotification({ kind: 'permission', tool: request.tool });
+                        }
+                    }
                 } else if (answer.result === 'version-mismatch') {
                     if (answer.version > this.agentStateVersion) {
                         this.agentStateVersion = answer.version;
@@ -457,6 +629,7 @@ export class ApiSessionClient extends EventEmitter {
 
     async close() {
         logger.debug('[API] socket.close() called');
+        this.cancelBashJobs();
         this.socket.close();
     }
 }
@@ -86,6 +86,19 @@ export class RpcHandlerManager {
         }
     }
 
+    /**
+     * Call a registered handler from within the process, without encryption
+     * @param method - The method name (without prefix)
+     * @param params - The handler params
+     */
+    async invokeLocal<TResponse = any>(method: string, params: unknown): Promise<TResponse> {
+        const handler = this.handlers.get(this.getPrefixedMethod(method));
+        if (!handler) {
+            throw new Error(`Method not found: ${method}`);
+        }
+        return await handler(params);
+    }
+
     onSocketConnect(socket: Socket): void {
         this.socket = socket;
         for (const [prefixedMethod] of this.handlers) {
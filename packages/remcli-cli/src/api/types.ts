@@ -1,5 +1,6 @@
 import { z } from 'zod'
 import { UsageSchema } from '@/claude/types'
+import type { PermissionTimeoutAction } from '@/utils/permissionTimeout'
 
 /**
  * Permission mode type - includes both Claude and Codex modes
@@ -106,6 +107,7 @@ export interface ServerToClientEvents {
   ephemeral: (data: { type: 'activity', id: string, active: boolean, activeAt: number, thinking: boolean }) => void
   auth: (data: { success: boolean, user: string }) => void
   error: (data: { message: string }) => void
+  'usage-budget-exceeded': (data: { sid: string, budgetId: string, limitUsd: number, spentUsd: number }) => void
 }
 
 
@@ -121,6 +123,7 @@ export interface ClientToServerEvents {
     mode?: 'local' | 'remote';
   }) => void
   'session-end': (data: { sid: string, time: number }) => void,
+  'notification': (data: { sid: string, kind: 'permission', tool: string } | { sid: string, kind: 'turn-finished' }) => void,
   'update-metadata': (data: { sid: string, expectedVersion: number, metadata: string }, cb: (answer: {
     result: 'error'
   } | {
@@ -144,6 +147,7 @@ export interface ClientToServerEvents {
     agentState: string | null
   }) => void) => void,
   'ping': (callback: () => void) => void
+  'app-presence': (callback: (answer: { connected: boolean }) => void) => void
   'rpc-register': (data: { method: string }) => void
   'rpc-unregister': (data: { method: string }) => void
   'rpc-call': (data: { method: string, params: string }, callback: (response: {
@@ -151,9 +155,13 @@ export interface ClientToServerEvents {
     result?: string
     error?: string
   }) => void) => void
+  'bash-job': (data: { sid: string, payload: string }) => void
   'usage-report': (data: {
     key: string
     sessionId: string
+    agent?: string
+    project?: string
+    model?: string
     tokens: {
       total: number
       [key: string]: number
@@ -272,11 +280,26 @@ export const CreateSessionResponseSchema = z.object({
 
 export type CreateSessionResponse = z.infer<typeof CreateSessionResponseSchema>
 
+/**
+ * File attached to a user message. The encrypted blob is uploaded to
+ * /v1/sessions/:sessionId/attachments before the message is sent.
+ */
+export const UserMessageAttachmentSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  mimeType: z.string(),
+  size: z.number(),
+  path: z.string().optional() // Local file path, set by the CLI once downloaded
+})
+
+export type UserMessageAttachment = z.infer<typeof UserMessageAttachmentSchema>
+
 export const UserMessageSchema = z.object({
   role: z.literal('user'),
   content: z.object({
     type: z.literal('text'),
-    text: z.string()
+    text: z.string(),
+    attachments: z.array(UserMessageAttachmentSchema).optional()
   }),
   localKey: z.string().optional(), // Mobile messages include this
   meta: MessageMetaSchema.optional()
@@ -311,6 +334,9 @@ export type Metadata = {
   },
   machineId?: string,
   claudeSessionId?: string, // Claude Code session ID
+  codexSessionId?: string, // Codex session ID
+  geminiSessionId?: string, // Gemini session ID
+  forkedFrom?: string, // Remcli session this one was forked from
   tools?: string[],
   slashCommands?: string[],
   homeDir: string,
@@ -334,7 +360,9 @@ export type AgentState = {
     [id: string]: {
       tool: string,
       arguments: any,
-      createdAt: number
+      createdAt: number,
+      timeoutAt?: number,
+      timeoutAction?: PermissionTimeoutAction
     }
   }
   completedRequests?: {
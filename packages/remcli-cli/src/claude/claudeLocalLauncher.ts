@@ -3,6 +3,7 @@ import { claudeLocal, ExitCodeError } from "./claudeLocal";
 import { Session } from "./session";
 import { Future } from "@/utils/future";
 import { createSessionScanner } from "./utils/sessionScanner";
+import { LocalHookHandler } from "./utils/localHookHandler";
 
 export type LauncherResult = { type: 'switch' } | { type: 'exit', code: number };
 
@@ -27,6 +28,9 @@ export async function claudeLocalLauncher(session: Session): Promise<LauncherRes
     };
     session.addSessionFoundCallback(scannerSessionCallback);
 
+    // Mirror Claude's hooks (approvals, turn end) to the app while in the terminal
+    const hooks = new LocalHookHandler(session);
+    session.setHookEventHandler(hooks.handle);
 
     // Handle abort
     let exitReason: LauncherResult | null = null;
@@ -74,6 +78,7 @@ export async function claudeLocalLauncher(session: Session): Promise<LauncherRes
         // When to abort
         session.client.rpcHandlerManager.registerHandler('abort', doAbort); // Abort current process, clean queue and switch to remote mode
         session.client.rpcHandlerManager.registerHandler('switch', doSwitch); // When user wants to switch to remote mode
+        session.client.rpcHandlerManager.registerHandler('permission', hooks.handlePermissionResponse); // Answers to held PreToolUse hooks
         session.queue.setOnMessage((message: string, mode) => {
             // Switch to remote mode when message received
             doSwitch();
@@ -146,7 +151,12 @@ export async function claudeLocalLauncher(session: Session): Promise<LauncherRes
         // Set handlers to no-op
         session.client.rpcHandlerManager.registerHandler('abort', async () => { });
         session.client.rpcHandlerManager.registerHandler('switch', async () => { });
+        session.client.rpcHandlerManager.registerHandler('permission', async () => { });
         session.queue.setOnMessage(null);
+
+        // Hand held hooks back to the terminal
+        session.setHookEventHandler(null);
+        hooks.dispose();
         
         // Remove session found callback
         session.removeSessionFoundCallback(scannerSessionCallback);
@@ -12,6 +12,25 @@ import { awaitFileExist } from "@/modules/watcher/awaitFileExist";
 import { systemPrompt } from "./utils/systemPrompt";
 import { PermissionResult } from "./sdk/types";
 import type { JsRuntime } from "./runClaude";
+import type { ImageInput } from "@/utils/attachments";
+
+/**
+ * Plain text prompts stay a string; attached images become image content blocks ahead of the text
+ */
+function buildUserContent(text: string, images?: ImageInput[]): SDKUserMessage['message']['content'] {
+    if (!images || images.length === 0) {
+        return text;
+    }
+    const blocks: Exclude<SDKUserMessage['message']['content'], string> = images.map((image) => ({
+        type: 'image',
+        source: { type: 'base64', media_type: image.mimeType, data: image.data }
+    }));
+    // Empty text blocks are rejected, and a message may carry only images
+    if (text.trim()) {
+        blocks.push({ type: 'text', text });
+    }
+    return blocks;
+}
 
 export async function claudeRemote(opts: {
 
@@ -30,7 +49,7 @@ export async function claudeRemote(opts: {
     jsRuntime?: JsRuntime,
 
     // Dynamic parameters
-    nextMessage: () => Promise<{ message: string, mode: EnhancedMode } | null>,
+    nextMessage: () => Promise<{ message: string, mode: EnhancedMode, images?: ImageInput[] } | null>,
     onReady: () => void,
     isAborted: (toolCallId: string) => boolean,
 
@@ -151,7 +170,7 @@ export async function claudeRemote(opts: {
         type: 'user',
         message: {
             role: 'user',
-            content: initial.message,
+            content: buildUserContent(initial.message, initial.images),
         },
     });
 
@@ -213,7 +232,7 @@ export async function claudeRemote(opts: {
                     return;
                 }
                 mode = next.mode;
-                messages.push({ type: 'user', message: { role: 'user', content: next.message } });
+                messages.push({ type: 'user', message: { role: 'user', content: buildUserContent(next.message, next.images) } });
             }
 
             // Handle tool result
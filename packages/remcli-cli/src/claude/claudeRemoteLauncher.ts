@@ -10,6 +10,7 @@ import { SDKToLogConverter } from "./utils/sdkToLogConverter";
 import { PLAN_FAKE_REJECT } from "./sdk/prompts";
 import { EnhancedMode } from "./loop";
 import { OutgoingMessageQueue } from "./utils/OutgoingMessageQueue";
+import type { ImageInput } from "@/utils/attachments";
 
 interface PermissionsField {
     date: number;
@@ -80,6 +81,11 @@ export async function claudeRemoteLauncher(session: Session): Promise<'switch' |
         messageQueue.releaseToolCall(toolCallId);
     });
 
+    // A timeout that pauses the session ends the turn, like the abort button
+    permissionHandler.setOnPause(() => {
+        void doAbort();
+    });
+
     // Create SDK to Log converter (pass responses from permissions)
     const sdkToLogConverter = new SDKToLogConverter({
         sessionId: session.sessionId || 'unknown',
@@ -264,6 +270,7 @@ export async function claudeRemoteLauncher(session: Session): Promise<'switch' |
         let pending: {
             message: string;
             mode: EnhancedMode;
+            images?: ImageInput[];
         } | null = null;
 
         // Track session ID to detect when it actually changes
@@ -330,7 +337,8 @@ export async function claudeRemoteLauncher(session: Session): Promise<'switch' |
                             display.writeMessage(`User: ${msg.message}`, 'user');
                             return {
                                 message: msg.message,
-                                mode: msg.mode
+                                mode: msg.mode,
+                                images: msg.images
                             }
                         }
 
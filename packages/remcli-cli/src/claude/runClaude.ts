@@ -25,6 +25,8 @@ import { projectPath } from '../projectPath';
 import { resolve } from 'node:path';
 import { connectionState } from '@/utils/serverConnectionErrors';
 import { Session } from './session';
+import { appendAttachmentPaths, readInlineImages } from '@/utils/attachments';
+import { takeSessionForkFromEnvironment } from '@/modules/sessionFork';
 
 /** JavaScript runtime to use for spawning Claude Code */
 export type JsRuntime = 'node' | 'bun'
@@ -48,6 +50,12 @@ export async function runClaude(credentials: Credentials, options: StartOptions
     const workingDirectory = process.cwd();
     const sessionTag = randomUUID();
 
+    // Forks start from the truncated transcript the daemon prepared
+    const fork = takeSessionForkFromEnvironment();
+    if (fork) {
+        options = { ...options, claudeArgs: ['--resume', fork.agentSessionId, ...(options.claudeArgs ?? [])] };
+    }
+
     // Log environment info at startup
     logger.debugLargeJson('[START] Remcli process started', getEnvironmentInfo());
     logger.debug(`[START] Options: startedBy=${options.startedBy}, startingMode=${options.startingMode}`);
@@ -91,7 +99,8 @@ export async function runClaude(credentials: Credentials, options: StartOptions
         // Initialize lifecycle state
         lifecycleState: 'running',
         lifecycleStateSince: Date.now(),
-        flavor: 'claude'
+        flavor: 'claude',
+        ...(fork ? { forkedFrom: fork.parentSessionId } : {})
     };
     const response = await api.getOrCreateSession({ tag: sessionTag, metadata, state });
 
@@ -158,7 +167,8 @@ export async function runClaude(credentials: Credentials, options: StartOptions
                     currentSession.onSessionFound(sessionId);
                 }
             }
-        }
+        },
+        onHookEvent: (event, data) => currentSession?.onHookEvent(event, data)
     });
     logger.debug(`[START] Hook server started on port ${hookServer.port}`);
 
@@ -320,7 +330,9 @@ export async function runClaude(credentials: Credentials, options: StartOptions
             allowedTools: messageAllowedTools,
             disallowedTools: messageDisallowedTools
         };
-        messageQueue.push(message.content.text, enhancedMode);
+        // Images go to Claude as content blocks, other attachments are referenced by path
+        const attachments = message.content.attachments;
+        messageQueue.push(appendAttachmentPaths(message.content.text, attachments, true), enhancedMode, readInlineImages(attachments));
         logger.debugLargeJson('User message pushed to queue:', message)
     });
 
@@ -3,6 +3,9 @@ import { MessageQueue2 } from "@/utils/MessageQueue2";
 import { EnhancedMode } from "./loop";
 import { logger } from "@/ui/logger";
 import type { JsRuntime } from "./runClaude";
+import type { ClaudeHookEvent, HookResponse, SessionHookData } from "./utils/startHookServer";
+
+export type HookEventHandler = (event: ClaudeHookEvent, data: SessionHookData) => Promise<HookResponse | void>;
 
 export class Session {
     readonly path: string;
@@ -26,6 +29,9 @@ export class Session {
     
     /** Callbacks to be notified when session ID is found/changed */
     private sessionFoundCallbacks: ((sessionId: string) => void)[] = [];
+
+    /** Handler for hook events other than SessionStart, set by the running launcher */
+    private hookEventHandler: HookEventHandler | null = null;
     
     /** Keep alive interval reference for cleanup */
     private keepAliveInterval: NodeJS.Timeout;
@@ -74,6 +80,7 @@ export class Session {
     cleanup = (): void => {
         clearInterval(this.keepAliveInterval);
         this.sessionFoundCallbacks = [];
+        this.hookEventHandler = null;
         logger.debug('[Session] Cleaned up resources');
     }
 
@@ -132,6 +139,26 @@ export class Session {
         }
     }
 
+    /**
+     * Set (or clear) the handler for Claude hook events other than SessionStart.
+     * Only the local launcher sets one; in remote mode the SDK stream already
+     * carries the same information.
+     */
+    setHookEventHandler = (handler: HookEventHandler | null): void => {
+        this.hookEventHandler = handler;
+    }
+
+    /**
+     * Called by the hook server for every hook event other than SessionStart
+     */
+    onHookEvent = async (event: ClaudeHookEvent, data: SessionHookData): Promise<HookResponse | void> => {
+        if (!this.hookEventHandler) {
+            logger.debug(`[Session] Ignoring ${event} hook, no handler in ${this.mode} mode`);
+            return;
+        }
+        return this.hookEventHandler(event, data);
+    }
+
     /**
      * Clear the current session ID (used by /clear command)
      */
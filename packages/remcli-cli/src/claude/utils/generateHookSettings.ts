@@ -2,7 +2,9 @@
  * Generate temporary settings file with Claude hooks for session tracking
  * 
  * Creates a settings.json file that configures Claude's SessionStart hook
- * to notify our HTTP server when sessions change (new session, resume, compact, etc.)
+ * to notify our HTTP server when sessions change (new session, resume, compact, etc.),
+ * plus the Notification, Stop, tool and prompt hooks used to mirror local-mode
+ * sessions in the app.
  */
 
 import { join, resolve } from 'node:path';
@@ -10,9 +12,16 @@ import { writeFileSync, mkdirSync, unlinkSync, existsSync } from 'node:fs';
 import { configuration } from '@/configuration';
 import { logger } from '@/ui/logger';
 import { projectPath } from '@/projectPath';
+import { CLAUDE_HOOK_ROUTES, ClaudeHookEvent } from './startHookServer';
 
 /**
- * Generate a temporary settings file with SessionStart hook configuration
+ * PreToolUse hooks may wait for an approval from the app (see LocalHookHandler),
+ * so they get a longer timeout than Claude's default. In seconds.
+ */
+const PRE_TOOL_USE_HOOK_TIMEOUT = 60;
+
+/**
+ * Generate a temporary settings file with hook configuration for every event in CLAUDE_HOOK_ROUTES
  * 
  * @param port - The port where Remcli server is listening
  * @returns Path to the generated settings file
@@ -27,23 +36,24 @@ export function generateHookSettingsFile(port: number): string {
 
     // Path to the hook forwarder script
     const forwarderScript = resolve(projectPath(), 'scripts', 'session_hook_forwarder.cjs');
-    const hookCommand = `node "${forwarderScript}" ${port}`;
 
-    const settings = {
-        hooks: {
-            SessionStart: [
-                {
-                    matcher: "*",
-                    hooks: [
-                        {
-                            type: "command",
-                            command: hookCommand
-                        }
-                    ]
-                }
-            ]
-        }
-    };
+    const hooks: Partial<Record<ClaudeHookEvent, unknown[]>> = {};
+    for (const [event, route] of Object.entries(CLAUDE_HOOK_ROUTES) as [ClaudeHookEvent, string][]) {
+        hooks[event] = [
+            {
+                matcher: "*",
+                hooks: [
+                    {
+                        type: "command",
+                        command: `node "${forwarderScript}" ${port} ${route}`,
+                        ...(event === 'PreToolUse' ? { timeout: PRE_TOOL_USE_HOOK_TIMEOUT } : {})
+                    }
+                ]
+            }
+        ];
+    }
+
+    const settings = { hooks };
 
     writeFileSync(filepath, JSON.stringify(settings, null, 2));
     logger.debug(`[generateHookSettings] Created hook settings file: ${filepath}`);
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest';
+import { join } from 'node:path';
+import { configuration } from '@/configuration';
+import { AgentState } from '@/api/types';
+import { Session } from '../session';
+import { LocalHookHandler } from './localHookHandler';
+
+vi.mock('@/ui/logger', () => ({
+    logger: {
+        debug: vi.fn()
+    }
+}));
+
+vi.mock('@/daemon/auditLog', () => ({
+    recordAuditEvent: vi.fn()
+}));
+
+function createSession(opts: { appConnected?: boolean } = {}) {
+    let agentState: AgentState = {};
+    const client = {
+        sessionId: 'session-1',
+        isAppConnected: vi.fn(async () => opts.appConnected ?? true),
+        sendSessionEvent: vi.fn(),
+        updateAgentState: vi.fn((handler: (state: AgentState) => AgentState) => {
+            agentState = handler(agentState);
+        })
+    };
+    const session = {
+        client,
+        path: '/tmp/remcli-local-hooks-test-project',
+        allowedTools: ['mcp__remcli__change_title'],
+        onThinkingChange: vi.fn()
+    } as unknown as Session;
+    return { session, client, getAgentState: () => agentState };
+}
+
+describe('LocalHookHandler', () => {
+    it('holds PreToolUse until the app answers', async () => {
+        const { session, getAgentState } = createSession();
+        const hooks = new LocalHookHandler(session);
+
+        const decision = hooks.handle('PreToolUse', { tool_name: 'Bash', tool_input: { command: 'ls' }, tool_use_id: 'toolu_1' });
+        await vi.waitFor(() => expect(getAgentState().requests?.toolu_1?.tool).toBe('Bash'));
+
+        await hooks.handlePermissionResponse({ id: 'toolu_1', approved: false, reason: 'not now' });
+        expect(await decision).toEqual({
+            hookSpecificOutput: { hookEventName: 'PreToolUse', permissionDecision: 'deny', permissionDecisionReason: 'not now' }
+        });
+        expect(getAgentState().requests).toEqual({});
+        expect(getAgentState().completedRequests?.toolu_1?.status).toBe('denied');
+    });
+
+    it('hands back to the terminal when nobody answers', async () => {
+        vi.useFakeTimers();
+        try {
+            const { session, getAgentState } = createSession();
+            const hooks = new LocalHookHandler(session, { approvalWindowMs: 1000 });
+
+            const decision = hooks.handle('PreToolUse', { tool_name: 'Write', tool_input: {}, tool_use_id: 'toolu_2', permission_mode: 'default' });
+            await vi.advanceTimersByTimeAsync(1000);
+
+            expect(await decision).toBeUndefined();
+            expect(getAgentState().completedRequests?.toolu_2?.status).toBe('canceled');
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('passes straight through when no app is connected', async () => {
+        const { session, client } = createSession({ appConnected: false });
+        const hooks = new LocalHookHandler(session, { approvalWindowMs: 60_000 });
+
+        expect(await hooks.handle('PreToolUse', { tool_name: 'Bash', tool_input: { command: 'ls' }, tool_use_id: 'toolu_3' })).toBeUndefined();
+        expect(client.updateAgentState).not.toHaveBeenCalled();
+    });
+
+    it('makes Claude prompt for calls an ask rule matched', async () => {
+        vi.useFakeTimers();
+        try {
+            const { session, getAgentState } = createSession();
+            const hooks = new LocalHookHandler(session, { approvalWindowMs: 1000 });
+            const rulesFile = join(configuration.remcliHomeDir, 'permissions', 'x.json');
+
+            // bypassPermissions would let Claude run the call without asking
+            const decision = hooks.handle('PreToolUse', { tool_name: 'Write', tool_input: { file_path: rulesFile }, tool_use_id: 'toolu_4', permission_mode: 'bypassPermissions' });
+            await vi.advanceTimersByTimeAsync(1000);
+
+            expect(await decision).toMatchObject({ hookSpecificOutput: { permissionDecision: 'ask' } });
+            expect(getAgentState().completedRequests?.toolu_4?.status).toBe('canceled');
+
+            const offline = new LocalHookHandler(createSession({ appConnected: false }).session);
+            expect(await offline.handle('PreToolUse', { tool_name: 'Write', tool_input: { file_path: rulesFile }, permission_mode: 'bypassPermissions' }))
+                .toMatchObject({ hookSpecificOutput: { permissionDecision: 'ask' } });
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('does not hold tools Claude would not prompt for', async () => {
+        const { session, client } = createSession();
+        const hooks = new LocalHookHandler(session);
+
+        expect(await hooks.handle('PreToolUse', { tool_name: 'Read', tool_input: {} })).toBeUndefined();
+        expect(await hooks.handle('PreToolUse', { tool_name: 'mcp__remcli__change_title', tool_input: {} })).toBeUndefined();
+        expect(await hooks.handle('PreToolUse', { tool_name: 'Edit', tool_input: {}, permission_mode: 'acceptEdits' })).toBeUndefined();
+        expect(client.updateAgentState).not.toHaveBeenCalled();
+    });
+
+    it('reports notifications and turn end', async () => {
+        const { session, client } = createSession();
+        const hooks = new LocalHookHandler(session);
+
+        await hooks.handle('Notification', { message: 'Claude needs your permission to use Bash' });
+        await hooks.handle('Notification', { message: 'Claude is waiting for your input' });
+        await hooks.handle('Stop', {});
+
+        expect(client.sendSessionEvent.mock.calls).toEqual([
+            [{ type: 'message', message: 'Claude needs your permission to use Bash' }],
+            [{ type: 'ready' }]
+        ]);
+        expect(session.onThinkingChange).toHaveBeenCalledWith(false);
+    });
+});
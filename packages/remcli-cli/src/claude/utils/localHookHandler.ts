@@ -0,0 +1,231 @@
+/**
+ * Local-mode hook handling
+ *
+ * While Claude runs in the terminal the app only sees what the session scanner
+ * reads back from the transcript. Claude's hooks (forwarded by the hook server)
+ * fill in the rest:
+ * - PreToolUse: while an app is connected, the tool call is posted as a
+ *   permission request in agent state and held for up to REMOTE_APPROVAL_WINDOW_MS
+ *   so it can be answered from the app. Without an app or an answer Claude
+ *   carries on with its own flow (auto-allow or the terminal prompt). Project
+ *   permission rules are applied first; a call an `ask` rule matched falls back
+ *   to the terminal prompt, even in acceptEdits or bypassPermissions mode.
+ * - Notification: forwarded as a session event ("Claude needs your permission to use Bash")
+ * - Stop: the turn finished, sends the `ready` event
+ * - UserPromptSubmit / PostToolUse: Claude is working, marks the session as thinking
+ */
+
+import { randomUUID } from 'node:crypto';
+import { logger } from '@/ui/logger';
+import { recordAuditEvent } from '@/daemon/auditLog';
+import { Session } from '../session';
+import { getToolDescriptor } from './getToolDescriptor';
+import { describeRule, PermissionRules, ruleForToolCall } from '@/utils/permissionRules';
+import { ClaudeHookEvent, HookResponse, SessionHookData } from './startHookServer';
+
+/** How long a PreToolUse hook waits for an answer from the app before handing back to the terminal */
+export const REMOTE_APPROVAL_WINDOW_MS = 15_000;
+
+/** Tools Claude never asks about, so there is nothing to approve remotely */
+const NO_PROMPT_TOOLS = new Set(['Read', 'Glob', 'Grep', 'LS', 'NotebookRead', 'TodoWrite', 'Task', 'BashOutput', 'KillShell']);
+
+interface PermissionResponse {
+    id: string;
+    approved: boolean;
+    reason?: string;
+    allowTools?: string[];
+    rememberForProject?: boolean;
+}
+
+interface PendingHookRequest {
+    toolName: string;
+    input: unknown;
+    fallback: HookResponse | undefined;    // Answer when the app doesn't give one
+    resolve: (response: HookResponse | undefined) => void;
+}
+
+export class LocalHookHandler {
+    private session: Session;
+    private approvalWindowMs: number;
+    private pendingRequests = new Map<string, PendingHookRequest>();
+    private allowedTools = new Set<string>();
+
+    constructor(session: Session, opts: { approvalWindowMs?: number } = {}) {
+        this.session = session;
+        this.approvalWindowMs = opts.approvalWindowMs ?? REMOTE_APPROVAL_WINDOW_MS;
+    }
+
+    /**
+     * Hook event entry point, passed to Session.setHookEventHandler
+     */
+    handle = async (event: ClaudeHookEvent, data: SessionHookData): Promise<HookResponse | void> => {
+        switch (event) {
+            case 'PreToolUse':
+                return this.handlePreToolUse(data);
+            case 'Notification':
+                // Idle "waiting for your input" notifications duplicate Stop
+                if (data.message && !/waiting for your input/i.test(data.message)) {
+                    this.session.client.sendSessionEvent({ type: 'message', message: data.message });
+                }
+                return;
+            case 'Stop':
+                this.session.onThinkingChange(false);
+                this.session.client.sendSessionEvent({ type: 'ready' });
+                return;
+            case 'UserPromptSubmit':
+            case 'PostToolUse':
+                this.session.onThinkingChange(true);
+                return;
+            case 'SessionStart':
+                return;
+        }
+    }
+
+    /**
+     * Handle a `permission` RPC from the app for a held PreToolUse hook
+     */
+    handlePermissionResponse = async (response: PermissionResponse): Promise<void> => {
+        const pending = this.pendingRequests.get(response.id);
+        if (!pending) {
+            logger.debug(`[localHooks] Permission request ${response.id} not found or already resolved`);
+            return;
+        }
+        this.pendingRequests.delete(response.id);
+
+        for (const tool of response.allowTools ?? []) {
+            this.allowedTools.add(tool);
+        }
+        if (response.rememberForProject) {
+            PermissionRules.forProject(this.session.path).addRule(
+                ruleForToolCall(pending.toolName, pending.input, response.approved ? 'allow' : 'deny')
+            );
+        }
+
+        recordAuditEvent({
+            type: 'permission',
+            sessionId: this.session.client.sessionId,
+            tool: pending.toolName,
+            decision: response.approved ? 'approved' : 'denied'
+        });
+        this.completeRequest(response.id, response.approved ? 'approved' : 'denied', response.reason);
+
+        pending.resolve(response.approved
+            ? preToolUseDecision('allow', 'Approved from the Remcli app')
+            : preToolUseDecision('deny', response.reason || 'The user denied this tool call from the Remcli app'));
+    }
+
+    /**
+     * Release every held hook back to the terminal (local launcher is exiting)
+     */
+    dispose(): void {
+        for (const [id, pending] of this.pendingRequests) {
+            this.completeRequest(id, 'canceled', 'Session left local mode');
+            pending.resolve(pending.fallback);
+        }
+        this.pendingRequests.clear();
+    }
+
+    private async handlePreToolUse(data: SessionHookData): Promise<HookResponse | void> {
+        const toolName = data.tool_name;
+        if (!toolName) {
+            return;
+        }
+
+        // Project rules decide before Claude's own checks; "ask" always goes to the app
+        const ruleMatch = PermissionRules.forProject(this.session.path).evaluate(toolName, data.tool_input);
+        if (ruleMatch?.action === 'allow') {
+            return preToolUseDecision('allow', `Allowed by project rule: ${describeRule(ruleMatch.rule)}`);
+        }
+        if (ruleMatch?.action === 'deny') {
+            return preToolUseDecision('deny', `Blocked by project rule: ${describeRule(ruleMatch.rule)}`);
+        }
+        if (ruleMatch?.action !== 'ask' && !this.needsApproval(toolName, data.permission_mode)) {
+            return;
+        }
+        if (ruleMatch?.action !== 'ask' && this.allowedTools.has(toolName)) {
+            return preToolUseDecision('allow', 'Allowed for this session from the Remcli app');
+        }
+        // Claude's own flow could auto-allow the call, so an `ask` rule makes it prompt
+        const fallback = ruleMatch?.action === 'ask'
+            ? preToolUseDecision('ask', `Project rule asks first: ${describeRule(ruleMatch.rule)}`)
+            : undefined;
+        // Nobody could answer from the app, so don't keep the terminal waiting
+        if (!await this.session.client.isAppConnected()) {
+            return fallback;
+        }
+
+        const id = data.tool_use_id || randomUUID();
+        this.session.client.updateAgentState((currentState) => ({
+            ...currentState,
+            requests: {
+                ...currentState.requests,
+                [id]: {
+                    tool: toolName,
+                    arguments: data.tool_input,
+                    createdAt: Date.now()
+                }
+            }
+        }));
+        logger.debug(`[localHooks] Holding ${toolName} (${id}) for up to ${this.approvalWindowMs}ms`);
+
+        return new Promise<HookResponse | undefined>((resolve) => {
+            const timer = setTimeout(() => {
+                if (this.pendingRequests.delete(id)) {
+                    this.completeRequest(id, 'canceled', 'Answered in the terminal');
+                    resolve(fallback);
+                }
+            }, this.approvalWindowMs);
+            this.pendingRequests.set(id, {
+                toolName,
+                input: data.tool_input,
+                fallback,
+                resolve: (value) => {
+                    clearTimeout(timer);
+                    resolve(value);
+                }
+            });
+        });
+    }
+
+    private needsApproval(toolName: string, permissionMode: string | undefined): boolean {
+        if (NO_PROMPT_TOOLS.has(toolName) || this.session.allowedTools?.includes(toolName)) {
+            return false;
+        }
+        const descriptor = getToolDescriptor(toolName);
+        if (descriptor.exitPlan || permissionMode === 'bypassPermissions') {
+            return false;
+        }
+        return !(permissionMode === 'acceptEdits' && descriptor.edit);
+    }
+
+    private completeRequest(id: string, status: 'approved' | 'denied' | 'canceled', reason?: string): void {
+        this.session.client.updateAgentState((currentState) => {
+            const request = currentState.requests?.[id];
+            if (!request) return currentState;
+            const { [id]: _, ...remainingRequests } = currentState.requests || {};
+            return {
+                ...currentState,
+                requests: remainingRequests,
+                completedRequests: {
+                    ...currentState.completedRequests,
+                    [id]: {
+                        ...request,
+                        completedAt: Date.now(),
+                        status,
+                        reason
+                    }
+                }
+            };
+        });
+    }
+}
+
+function preToolUseDecision(permissionDecision: 'allow' | 'deny' | 'ask', permissionDecisionReason: string): HookResponse {
+    return {
+        hookSpecificOutput: {
+            hookEventName: 'PreToolUse',
+            permissionDecision,
+            permissionDecisionReason
+        }
+    };
+}
@@ -1,8 +1,7 @@
 import { homedir } from "node:os";
 import { join, resolve } from "node:path";
 
-export function getProjectPath(workingDirectory: string) {
+export function getProjectPath(workingDirectory: string, claudeConfigDir: string = process.env.CLAUDE_CONFIG_DIR || join(homedir(), '.claude')) {
     const projectId = resolve(workingDirectory).replace(/[\\\/\.: _]/g, '-');
-    const claudeConfigDir = process.env.CLAUDE_CONFIG_DIR || join(homedir(), '.claude');
     return join(claudeConfigDir, 'projects', projectId);
-}
\ No newline at end of file
+}
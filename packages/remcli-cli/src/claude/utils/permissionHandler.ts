@@ -15,6 +15,9 @@ import { getToolName } from "./getToolName";
 import { EnhancedMode, PermissionMode } from "../loop";
 import { getToolDescriptor } from "./getToolDescriptor";
 import { delay } from "@/utils/time";
+import { recordAuditEvent } from "@/daemon/auditLog";
+import { describeRule, PermissionRules, ruleForToolCall } from "@/utils/permissionRules";
+import { PermissionTimeoutTimers, permissionTimeoutReason, readPermissionTimeout, resolvePermissionTimeout } from "@/utils/permissionTimeout";
 
 interface PermissionResponse {
     id: string;
@@ -22,6 +25,7 @@ interface PermissionResponse {
     reason?: string;
     mode?: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan';
     allowTools?: string[];
+    rememberForProject?: boolean;
     receivedAt?: number;
 }
 
@@ -43,6 +47,8 @@ export class PermissionHandler {
     private allowedBashPrefixes = new Set<string>();
     private permissionMode: PermissionMode = 'default';
     private onPermissionRequestCallback?: (toolCallId: string) => void;
+    private onPauseCallback?: () => void;
+    private timeouts = new PermissionTimeoutTimers(readPermissionTimeout(), (id) => this.handleTimeout(id));
 
     constructor(session: Session) {
         this.session = session;
@@ -56,6 +62,13 @@ export class PermissionHandler {
         this.onPermissionRequestCallback = callback;
     }
 
+    /**
+     * Set callback to abort the turn when a timeout pauses the session
+     */
+    setOnPause(callback: () => void) {
+        this.onPauseCallback = callback;
+    }
+
     handleModeChange(mode: PermissionMode) {
         this.permissionMode = mode;
     }
@@ -84,6 +97,13 @@ export class PermissionHandler {
             this.permissionMode = response.mode;
         }
 
+        // Save a project rule so the same call is not asked again
+        if (response.rememberForProject && pending.toolName !== 'exit_plan_mode' && pending.toolName !== 'ExitPlanMode') {
+            PermissionRules.forProject(this.session.path).addRule(
+                ruleForToolCall(pending.toolName, pending.input, response.approved ? 'allow' : 'deny')
+            );
+        }
+
         // Handle 
         if (pending.toolName === 'exit_plan_mode' || pending.toolName === 'ExitPlanMode') {
             // Handle exit_plan_mode specially
@@ -115,8 +135,25 @@ export class PermissionHandler {
      */
     handleToolCall = async (toolName: string, input: unknown, mode: EnhancedMode, options: { signal: AbortSignal }): Promise<PermissionResult> => {
 
+        // Project rules come first; "ask" skips the allowlists and mode shortcuts below
+        const ruleMatch = PermissionRules.forProject(this.session.path).evaluate(toolName, input);
+        if (ruleMatch?.action === 'allow' || ruleMatch?.action === 'deny') {
+            logger.debug(`Project rule ${ruleMatch.action}s ${toolName}: ${JSON.stringify(ruleMatch.rule)}`);
+            recordAuditEvent({
+                type: 'permission',
+                sessionId: this.session.client.sessionId,
+                tool: toolName,
+                decision: ruleMatch.action === 'allow' ? 'approved' : 'denied',
+                mode: 'project-rule'
+            });
+            return ruleMatch.action === 'allow'
+                ? { behavior: 'allow', updatedInput: input as Record<string, unknown> }
+                : { behavior: 'deny', message: `A project permission rule blocks this tool call (${describeRule(ruleMatch.rule)}). Do not retry it; ask the user how to proceed.` };
+        }
+        const mustAsk = ruleMatch?.action === 'ask';
+
         // Check if tool is explicitly allowed
-        if (toolName === 'Bash') {
+        if (!mustAsk && toolName === 'Bash') {
             const inputObj = input as { command?: string };
             if (inputObj?.command) {
                 // Check literal matches
@@ -130,7 +167,7 @@ export class PermissionHandler {
                     }
                 }
             }
-        } else if (this.allowedTools.has(toolName)) {
+        } else if (!mustAsk && this.allowedTools.has(toolName)) {
             return { behavior: 'allow', updatedInput: input as Record<string, unknown> };
         }
 
@@ -141,11 +178,11 @@ export class PermissionHandler {
         // Handle special cases
         //
 
-        if (this.permissionMode === 'bypassPermissions') {
+        if (this.permissionMode === 'bypassPermissions' && !mustAsk) {
             return { behavior: 'allow', updatedInput: input as Record<string, unknown> };
         }
 
-        if (this.permissionMode === 'acceptEdits' && descriptor.edit) {
+        if (this.permissionMode === 'acceptEdits' && descriptor.edit && !mustAsk) {
             return { behavior: 'allow', updatedInput: input as Record<string, unknown> };
         }
 
@@ -177,6 +214,7 @@ export class PermissionHandler {
             // Set up abort signal handling
             const abortHandler = () => {
                 this.pendingRequests.delete(id);
+                this.timeouts.clear(id);
                 reject(new Error('Permission request aborted'));
             };
             signal.addEventListener('abort', abortHandler, { once: true });
@@ -201,6 +239,7 @@ export class PermissionHandler {
             }
 
             // Update agent state
+            const timeoutAt = this.timeouts.start(id);
             this.session.client.updateAgentState((currentState) => ({
                 ...currentState,
                 requests: {
@@ -208,7 +247,8 @@ export class PermissionHandler {
                     [id]: {
                         tool: toolName,
                         arguments: input,
-                        createdAt: Date.now()
+                        createdAt: Date.now(),
+                        ...(timeoutAt ? { timeoutAt, timeoutAction: this.timeouts.config!.action } : {})
                     }
                 }
             }));
@@ -332,6 +372,7 @@ export class PermissionHandler {
         this.allowedBashPrefixes.clear();
 
         // Cancel all pending requests
+        this.timeouts.clearAll();
         for (const [, pending] of this.pendingRequests.entries()) {
             pending.reject(new Error('Session reset'));
         }
@@ -378,35 +419,86 @@ export class PermissionHandler {
             // Store the response with timestamp
             this.responses.set(id, { ...message, receivedAt: Date.now() });
             this.pendingRequests.delete(id);
+            this.timeouts.clear(id);
 
             // Handle the permission response based on tool type
             this.handlePermissionResponse(message, pending);
+            recordAuditEvent({
+                type: 'permission',
+                sessionId: this.session.client.sessionId,
+                tool: pending.toolName,
+                decision: message.approved ? 'approved' : 'denied',
+                ...(message.mode ? { mode: message.mode } : {})
+            });
 
-            // Move processed request to completedRequests
-            this.session.client.updateAgentState((currentState) => {
-                const request = currentState.requests?.[id];
-                if (!request) return currentState;
-                let r = { ...currentState.requests };
-                delete r[id];
-                return {
-                    ...currentState,
-                    requests: r,
-                    completedRequests: {
-                        ...currentState.completedRequests,
-                        [id]: {
-                            ...request,
-                            completedAt: Date.now(),
-                            status: message.approved ? 'approved' : 'denied',
-                            reason: message.reason,
-                            mode: message.mode,
-                            allowTools: message.allowTools
-                        }
+            this.moveToCompleted(id, message);
+        });
+    }
+
+    /**
+     * Move a request to completedRequests in agent state
+     */
+    private moveToCompleted(id: string, message: PermissionResponse): void {
+        this.session.client.updateAgentState((currentState) => {
+            const request = currentState.requests?.[id];
+            if (!request) return currentState;
+            let r = { ...currentState.requests };
+            delete r[id];
+            return {
+                ...currentState,
+                requests: r,
+                completedRequests: {
+                    ...currentState.completedRequests,
+                    [id]: {
+                        ...request,
+                        completedAt: Date.now(),
+                        status: message.approved ? 'approved' : 'denied',
+                        reason: message.reason,
+                        mode: message.mode,
+                        allowTools: message.allowTools
                     }
-                };
-            });
+                }
+            };
         });
     }
 
+    /**
+     * Decide a request nobody answered, according to the configured timeout action
+     */
+    private handleTimeout(id: string): void {
+        const pending = this.pendingRequests.get(id);
+        if (!pending || !this.timeouts.config) {
+            return;
+        }
+        const outcome = resolvePermissionTimeout(this.timeouts.config.action, pending.toolName, pending.input);
+        const response: PermissionResponse = {
+            id,
+            approved: outcome === 'approved',
+            reason: permissionTimeoutReason(outcome),
+            receivedAt: Date.now()
+        };
+        this.responses.set(id, response);
+        this.pendingRequests.delete(id);
+
+        if (outcome === 'approved') {
+            pending.resolve({ behavior: 'allow', updatedInput: (pending.input as Record<string, unknown>) || {} });
+        } else if (outcome === 'paused') {
+            pending.resolve({ behavior: 'deny', message: `The permission request timed out while the user was away, so the tool was not run. STOP what you are doing and wait for the user to come back and tell you how to proceed.` });
+            this.onPauseCallback?.();
+        } else {
+            pending.resolve({ behavior: 'deny', message: `The permission request timed out without an answer from the user, so the tool was not run. Continue without it if you can, otherwise stop and explain what you need.` });
+        }
+        recordAuditEvent({
+            type: 'permission',
+            sessionId: this.session.client.sessionId,
+            tool: pending.toolName,
+            decision: outcome === 'approved' ? 'approved' : 'denied',
+            mode: response.reason
+        });
+
+        this.moveToCompleted(id, response);
+    }
+
     /**
      * Gets the responses map (for compatibility with existing code)
      */
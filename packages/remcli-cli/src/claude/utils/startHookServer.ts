@@ -2,7 +2,10 @@
  * Dedicated HTTP server for receiving Claude session hooks
  * 
  * This server receives notifications from Claude when sessions change
- * (new session, resume, compact, fork, etc.) via the SessionStart hook.
+ * (new session, resume, compact, fork, etc.) via the SessionStart hook, and
+ * the other hook events listed in CLAUDE_HOOK_ROUTES (Notification, Stop,
+ * PreToolUse, PostToolUse, UserPromptSubmit) so local-mode sessions can
+ * report approvals and turn completion to the app.
  * 
  * Separate from the MCP server to keep concerns isolated.
  * 
@@ -43,6 +46,18 @@
  *                                     └─► Notifies SessionScanner
  * ```
  * 
+ * ### Other Hook Events
+ * ```
+ * Claude CLI (Stop, PreToolUse, ...)
+ *     │
+ *     └─► session_hook_forwarder.cjs <port> <route>
+ *             │
+ *             └─► HTTP POST to http://127.0.0.1:<port>/hook/<route>
+ *                     │
+ *                     └─► onHookEvent(event, data) ──► JSON reply printed to
+ *                         Claude as the hook output (e.g. a PreToolUse decision)
+ * ```
+ * 
  * ### Triggered By
  * - `remcli` (fresh start) - new session created
  * - `remcli --continue` - continues last session (may fork)
@@ -61,7 +76,21 @@ import { createServer, IncomingMessage, ServerResponse, Server } from 'node:http
 import { logger } from '@/ui/logger';
 
 /**
- * Data received from Claude's SessionStart hook
+ * Claude hook events we subscribe to, mapped to their URL route on the hook server
+ */
+export const CLAUDE_HOOK_ROUTES = {
+    SessionStart: 'session-start',
+    Notification: 'notification',
+    Stop: 'stop',
+    PreToolUse: 'pre-tool-use',
+    PostToolUse: 'post-tool-use',
+    UserPromptSubmit: 'user-prompt-submit'
+} as const;
+
+export type ClaudeHookEvent = keyof typeof CLAUDE_HOOK_ROUTES;
+
+/**
+ * Data received from a Claude hook (the JSON Claude writes to the hook's stdin)
  */
 export interface SessionHookData {
     session_id?: string;
@@ -70,12 +99,26 @@ export interface SessionHookData {
     cwd?: string;
     hook_event_name?: string;
     source?: string;
+    permission_mode?: string;
+    tool_name?: string;
+    tool_input?: unknown;
+    tool_use_id?: string;
+    message?: string;
+    prompt?: string;
     [key: string]: unknown;
 }
 
+/**
+ * JSON written back to Claude as the hook output, e.g.
+ * `{ hookSpecificOutput: { hookEventName: 'PreToolUse', permissionDecision: 'allow' } }`
+ */
+export type HookResponse = Record<string, unknown>;
+
 export interface HookServerOptions {
     /** Called when a session hook is received with a valid session ID */
     onSessionHook: (sessionId: string, data: SessionHookData) => void;
+    /** Called for every other hook event; a returned object is sent back to Claude as the hook output */
+    onHookEvent?: (event: ClaudeHookEvent, data: SessionHookData) => Promise<HookResponse | void> | HookResponse | void;
 }
 
 export interface HookServer {
@@ -92,12 +135,13 @@ export interface HookServer {
  * @returns Promise resolving to the server instance with port info
  */
 export async function startHookServer(options: HookServerOptions): Promise<HookServer> {
-    const { onSessionHook } = options;
+    const { onSessionHook, onHookEvent } = options;
 
     return new Promise((resolve, reject) => {
         const server: Server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
-            // Only handle POST to /hook/session-start
-            if (req.method === 'POST' && req.url === '/hook/session-start') {
+            // Only handle POST to /hook/<route>
+            const event = req.method === 'POST' ? hookEventForUrl(req.url) : null;
+            if (event) {
                 // Set timeout to prevent hanging if Claude doesn't close stdin
                 const timeout = setTimeout(() => {
                     if (!res.headersSent) {
@@ -114,7 +158,7 @@ export async function startHookServer(options: HookServerOptions): Promise<HookS
                     clearTimeout(timeout);
                     
                     const body = Buffer.concat(chunks).toString('utf-8');
-                    logger.debug('[hookServer] Received session hook:', body);
+                    logger.debug(`[hookServer] Received ${event} hook:`, body);
 
                     let data: SessionHookData = {};
                     try {
@@ -123,6 +167,16 @@ export async function startHookServer(options: HookServerOptions): Promise<HookS
                         logger.debug('[hookServer] Failed to parse hook data as JSON:', parseError);
                     }
 
+                    if (event !== 'SessionStart') {
+                        const response = onHookEvent ? await onHookEvent(event, data) : undefined;
+                        if (response) {
+                            res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(response));
+                        } else {
+                            res.writeHead(200, { 'Content-Type': 'text/plain' }).end('ok');
+                        }
+                        return;
+                    }
+
                     // Support both snake_case (from Claude) and camelCase
                     const sessionId = data.session_id || data.sessionId;
                     if (sessionId) {
@@ -174,3 +228,11 @@ export async function startHookServer(options: HookServerOptions): Promise<HookS
     });
 }
 
+function hookEventForUrl(url: string | undefined): ClaudeHookEvent | null {
+    for (const [event, route] of Object.entries(CLAUDE_HOOK_ROUTES)) {
+        if (url === `/hook/${route}`) {
+            return event as ClaudeHookEvent;
+        }
+    }
+    return null;
+}
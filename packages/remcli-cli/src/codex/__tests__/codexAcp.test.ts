@@ -0,0 +1,200 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { chmodSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getCodexApprovalPolicy, getCodexSandboxMode } from '../utils/permissionModes';
+import { CodexPermissionHandler } from '../utils/permissionHandler';
+import { CodexTransport } from '@/agent/transport';
+import { createCodexBackend } from '@/agent/factories/codex';
+import type { AcpBackend } from '@/agent/acp/AcpBackend';
+import { AcpBackendSlot } from '@/acp/runAcpSession';
+import { RpcHandlerManager } from '@/api/rpc/RpcHandlerManager';
+import type { AgentState, PermissionMode } from '@/api/types';
+
+vi.mock('@/ui/logger', () => ({
+    logger: {
+        debug: vi.fn(),
+        warn: vi.fn()
+    }
+}));
+
+vi.mock('@/daemon/auditLog', () => ({
+    recordAuditEvent: vi.fn()
+}));
+
+/**
+ * Stand-in for codex-acp: answers ACP over stdio, asks for permission when
+ * the prompt says so, and logs what it was asked to FAKE_ACP_LOG
+ */
+const FAKE_CODEX_ACP = `#!${process.execPath}
+const { appendFileSync } = require('node:fs');
+const { createInterface } = require('node:readline');
+const log = (entry) => appendFileSync(process.env.FAKE_ACP_LOG, JSON.stringify({ ...entry, args: process.argv.slice(2) }) + '\\n');
+const send = (message) => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\\n');
+const waiting = new Map();
+let nextId = 1;
+createInterface({ input: process.stdin }).on('line', (line) => {
+    const message = JSON.parse(line);
+    if (!message.method) {
+        waiting.get(message.id)?.(message.result);
+        return;
+    }
+    const reply = (result) => send({ id: message.id, result });
+    switch (message.method) {
+        case 'initialize':
+            return reply({ protocolVersion: 1, agentCapabilities: { loadSession: true } });
+        case 'session/new':
+            log({ method: 'session/new' });
+            return reply({ sessionId: 'acp-session-' + process.pid });
+        case 'session/load':
+            log({ method: 'session/load', sessionId: message.params.sessionId });
+            return reply({});
+        case 'session/prompt': {
+            if (!message.params.prompt.some((block) => block.text && block.text.includes('rm'))) {
+                return reply({ stopReason: 'end_turn' });
+            }
+            const id = nextId++;
+            waiting.set(id, (result) => {
+                log({ method: 'permission', outcome: result.outcome });
+                reply({ stopReason: 'end_turn' });
+            });
+            return send({ id, method: 'session/request_permission', params: {
+                sessionId: message.params.sessionId,
+                toolCall: { toolCallId: 'call-rm', kind: 'execute', title: 'rm notes.txt', rawInput: { command: 'rm notes.txt' } },
+                options: [
+                    { optionId: 'proceed_once', name: 'Allow once', kind: 'allow_once' },
+                    { optionId: 'cancel', name: 'Reject', kind: 'reject_once' }
+                ]
+            } });
+        }
+    }
+});
+`;
+
+function createSession() {
+    let agentState: AgentState = {};
+    return {
+        sessionId: 'session-1',
+        rpcHandlerManager: new RpcHandlerManager({
+            scopePrefix: 'session-1',
+            encryptionKey: new Uint8Array(32),
+            encryptionVariant: 'legacy'
+        }),
+        updateAgentState: (updater: (state: AgentState) => AgentState) => {
+            agentState = updater(agentState);
+        },
+        get agentState() {
+            return agentState;
+        }
+    };
+}
+
+describe('Codex permission modes', () => {
+    it('maps permission modes to approval policy and sandbox', () => {
+        expect([getCodexApprovalPolicy('default'), getCodexSandboxMode('default')]).toEqual(['untrusted', 'workspace-write']);
+        expect([getCodexApprovalPolicy('read-only'), getCodexSandboxMode('read-only')]).toEqual(['never', 'read-only']);
+        expect([getCodexApprovalPolicy('yolo'), getCodexSandboxMode('yolo')]).toEqual(['on-failure', 'danger-full-access']);
+        expect([getCodexApprovalPolicy('acceptEdits'), getCodexSandboxMode('acceptEdits')]).toEqual(['on-request', 'workspace-write']);
+    });
+});
+
+describe('CodexTransport', () => {
+    const transport = new CodexTransport();
+
+    it('recovers change_title from tool call IDs reported as other', () => {
+        const context = { recentPromptHadChangeTitle: true, toolCallCountSincePrompt: 0 };
+        expect(transport.determineToolName('other', 'mcp__remcli__change_title-1', {}, context)).toBe('change_title');
+        expect(transport.determineToolName('execute', 'call_abc', {}, context)).toBe('execute');
+        expect(transport.determineToolName('other', 'call_abc', {}, context)).toBe('other');
+    });
+
+    it('turns missing login on stderr into an error status', () => {
+        const context = { activeToolCalls: new Set<string>(), hasActiveInvestigation: false };
+        const result = transport.handleStderr('ERROR: 401 Unauthorized', context);
+        expect(result.message).toMatchObject({ type: 'status', status: 'error' });
+        expect(transport.handleStderr('INFO starting', context).message).toBeNull();
+    });
+});
+
+describe('codex-acp backend', () => {
+    let dir: string;
+    let logFile: string;
+
+    beforeAll(() => {
+        dir = mkdtempSync(join(tmpdir(), 'codex-acp-test-'));
+        logFile = join(dir, 'calls.jsonl');
+        writeFileSync(join(dir, 'codex-acp'), FAKE_CODEX_ACP);
+        chmodSync(join(dir, 'codex-acp'), 0o755);
+    });
+
+    afterAll(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    function readCalls(): Array<{ method: string; args: string[]; sessionId?: string; outcome?: unknown }> {
+        return readFileSync(logFile, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+    }
+
+    function createSlot(permissionHandler: CodexPermissionHandler) {
+        return new AcpBackendSlot<{ permissionMode: PermissionMode }, AcpBackend>({
+            create: (mode, resumeSessionId) => createCodexBackend({
+                cwd: dir,
+                permissionMode: mode.permissionMode,
+                resumeSessionId,
+                permissionHandler,
+                env: { PATH: `${dir}:${process.env.PATH}`, FAKE_ACP_LOG: logFile },
+            }),
+            resumeSessionId: (backend) => backend.getAcpSessionId() ?? undefined,
+            restartOnModeChange: true,
+            onMessage: () => { },
+        });
+    }
+
+    it('restarts on a mode change and loads the previous ACP session', async () => {
+        rmSync(logFile, { force: true });
+        const slot = createSlot(new CodexPermissionHandler(createSession(), dir));
+        try {
+            const first = await slot.prepare({ permissionMode: 'default' }, 'default');
+            const firstAcpSession = first.backend.getAcpSessionId();
+            expect((await slot.prepare({ permissionMode: 'default' }, 'default')).backend).toBe(first.backend);
+
+            const second = await slot.prepare({ permissionMode: 'yolo' }, 'yolo');
+            expect(second.backend).not.toBe(first.backend);
+            expect(second.backend.getAcpSessionId()).toBe(firstAcpSession);
+
+            const calls = readCalls();
+            expect(calls.map((call) => call.method)).toEqual(['session/new', 'session/load']);
+            expect(calls[0].args).toContain('approval_policy="untrusted"');
+            expect(calls[1]).toMatchObject({ sessionId: firstAcpSession });
+            expect(calls[1].args).toContain('approval_policy="on-failure"');
+            expect(calls[1].args).toContain('sandbox_mode="danger-full-access"');
+        } finally {
+            await slot.dispose();
+        }
+    }, 20_000);
+
+    it('asks the app for permission and passes its answer to codex-acp', async () => {
+        rmSync(logFile, { force: true });
+        const session = createSession();
+        const slot = createSlot(new CodexPermissionHandler(session, dir));
+        try {
+            const { backend, sessionId } = await slot.prepare({ permissionMode: 'default' }, 'default');
+            const prompt = backend.sendPrompt(sessionId, 'rm notes.txt please');
+
+            await vi.waitFor(() => expect(Object.keys(session.agentState.requests ?? {})).toHaveLength(1), { timeout: 5_000 });
+            const [requestId] = Object.keys(session.agentState.requests!);
+            expect(session.agentState.requests![requestId]).toMatchObject({ tool: 'execute' });
+
+            await session.rpcHandlerManager.invokeLocal('permission', { id: requestId, approved: true });
+            await prompt;
+
+            expect(session.agentState.completedRequests?.[requestId]).toMatchObject({ status: 'approved' });
+            expect(readCalls().at(-1)).toMatchObject({
+                method: 'permission',
+                outcome: { outcome: 'selected', optionId: 'proceed_once' }
+            });
+        } finally {
+            await slot.dispose();
+        }
+    }, 20_000);
+});
@@ -5,6 +5,7 @@ import { CodexMcpClient } from './codexMcpClient';
 import { CodexPermissionHandler } from './utils/permissionHandler';
 import { ReasoningProcessor } from './utils/reasoningProcessor';
 import { DiffProcessor } from './utils/diffProcessor';
+import { getCodexApprovalPolicy, getCodexSandboxMode } from './utils/permissionModes';
 import { randomUUID } from 'node:crypto';
 import { logger } from '@/ui/logger';
 import { Credentials, readSettings } from '@/persistence';
@@ -30,6 +31,8 @@ import { stopCaffeinate } from "@/utils/caffeinate";
 import { connectionState } from '@/utils/serverConnectionErrors';
 import { setupOfflineReconnection } from '@/utils/setupOfflineReconnection';
 import type { ApiSessionClient } from '@/api/apiSession';
+import { appendAttachmentPaths } from '@/utils/attachments';
+import { takeSessionForkFromEnvironment } from '@/modules/sessionFork';
 
 type ReadyEventOptions = {
     pending: unknown;
@@ -103,10 +106,13 @@ export async function runCodex(opts: {
     // Create session
     //
 
+    // Forks start from the truncated rollout the daemon prepared
+    const fork = takeSessionForkFromEnvironment();
     const { state, metadata } = createSessionMetadata({
         flavor: 'codex',
         machineId,
-        startedBy: opts.startedBy
+        startedBy: opts.startedBy,
+        forkedFrom: fork?.parentSessionId
     });
     const response = await api.getOrCreateSession({ tag: sessionTag, metadata, state });
 
@@ -181,7 +187,8 @@ export async function runCodex(opts: {
             permissionMode: messagePermissionMode || 'default',
             model: messageModel,
         };
-        messageQueue.push(message.content.text, enhancedMode);
+        // Codex has no inline image input here, so attachments are referenced by path
+        messageQueue.push(appendAttachmentPaths(message.content.text, message.content.attachments, false), enhancedMode);
     });
     let thinking = false;
     session.keepAlive(thinking, 'remote');
@@ -381,7 +388,7 @@ export async function runCodex(opts: {
             return null;
         }
     }
-    permissionHandler = new CodexPermissionHandler(session);
+    permissionHandler = new CodexPermissionHandler(session, metadata.path);
     const reasoningProcessor = new ReasoningProcessor((message) => {
         // Callback to send messages directly from the processor
         session.sendCodexMessage(message);
@@ -553,7 +560,7 @@ export async function runCodex(opts: {
         let currentModeHash: string | null = null;
         let pending: { message: string; mode: EnhancedMode; isolate: boolean; hash: string } | null = null;
         // If we restart (e.g., mode change), use this to carry a resume file
-        let nextExperimentalResume: string | null = null;
+        let nextExperimentalResume: string | null = fork?.file ?? null;
 
         while (!shouldExit) {
             logActiveHandles('loop-top');
@@ -618,34 +625,8 @@ export async function runCodex(opts: {
 
             try {
                 // Map permission mode to approval policy and sandbox for startSession
-                const approvalPolicy = (() => {
-                    switch (message.mode.permissionMode) {
-                        // Codex native modes
-                        case 'default': return 'untrusted' as const;                    // Ask for non-trusted commands
-                        case 'read-only': return 'never' as const;                      // Never ask, read-only enforced by sandbox
-                        case 'safe-yolo': return 'on-failure' as const;                 // Auto-run, ask only on failure
-                        case 'yolo': return 'on-failure' as const;                      // Auto-run, ask only on failure
-                        // Defensive fallback for Claude-specific modes (backward compatibility)
-                        case 'bypassPermissions': return 'on-failure' as const;         // Full access: map to yolo behavior
-                        case 'acceptEdits': return 'on-request' as const;               // Let model decide (closest to auto-approve edits)
-                        case 'plan': return 'untrusted' as const;                       // Conservative: ask for non-trusted
-                        default: return 'untrusted' as const;                           // Safe fallback
-                    }
-                })();
-                const sandbox = (() => {
-                    switch (message.mode.permissionMode) {
-                        // Codex native modes
-                        case 'default': return 'workspace-write' as const;              // Can write in workspace
-                        case 'read-only': return 'read-only' as const;                  // Read-only filesystem
-                        case 'safe-yolo': return 'workspace-write' as const;            // Can write in workspace
-                        case 'yolo': return 'danger-full-access' as const;              // Full system access
-                        // Defensive fallback for Claude-specific modes
-                        case 'bypassPermissions': return 'danger-full-access' as const; // Full access: map to yolo
-                        case 'acceptEdits': return 'workspace-write' as const;          // Can edit files in workspace
-                        case 'plan': return 'workspace-write' as const;                 // Can write for planning
-                        default: return 'workspace-write' as const;                     // Safe default
-                    }
-                })();
+                const approvalPolicy = getCodexApprovalPolicy(message.mode.permissionMode);
+                const sandbox = getCodexSandboxMode(message.mode.permissionMode);
 
                 if (!wasCreated) {
                     const startConfig: CodexSessionConfig = {
@@ -689,6 +670,15 @@ export async function runCodex(opts: {
                     );
                     wasCreated = true;
                     first = false;
+
+                    // Recorded so the app can fork this session
+                    const codexSessionId = client.getSessionId();
+                    if (codexSessionId) {
+                        session.updateMetadata((currentMetadata) => ({
+                            ...currentMetadata,
+                            codexSessionId
+                        }));
+                    }
                 } else {
                     const response = await client.continueSession(
                         message.message,
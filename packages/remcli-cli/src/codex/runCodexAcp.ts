@@ -0,0 +1,100 @@
+/**
+ * Codex ACP Entry Point
+ *
+ * Runs Codex through the codex-acp adapter instead of `codex mcp-server`.
+ * Selected with `remcli codex --acp` or a profile whose Codex backend is
+ * "acp" (REMCLI_CODEX_BACKEND=acp in the session environment).
+ *
+ * Differences from runCodex.ts:
+ * - Tool approvals arrive as ACP permission requests and are answered by
+ *   CodexPermissionHandler directly
+ * - When the mode changes, the new codex-acp process loads the previous ACP
+ *   session instead of searching ~/.codex/sessions for its transcript
+ *
+ * The session loop is shared with runAcp.ts in acp/runAcpSession.ts.
+ */
+
+import { logger } from '@/ui/logger';
+import { Credentials } from '@/persistence';
+import { hashObject } from '@/utils/deterministicJson';
+import type { PermissionMode } from '@/api/types';
+
+import { createCodexBackend, CODEX_ACP_COMMAND } from '@/agent/factories/codex';
+import type { AcpBackend } from '@/agent/acp/AcpBackend';
+import { runAcpSession } from '@/acp/runAcpSession';
+import { CodexPermissionHandler } from './utils/permissionHandler';
+import { takeSessionForkFromEnvironment } from '@/modules/sessionFork';
+
+/**
+ * Mode configuration for Codex ACP messages
+ */
+interface CodexAcpMode {
+    permissionMode: PermissionMode;
+    model?: string;
+}
+
+/**
+ * Main entry point for `remcli codex --acp` with ink UI
+ */
+export async function runCodexAcp(opts: {
+    credentials: Credentials;
+    startedBy?: 'daemon' | 'terminal';
+}): Promise<void> {
+    // Forks load the truncated rollout the daemon prepared
+    const fork = takeSessionForkFromEnvironment();
+
+    await runAcpSession<CodexAcpMode, CodexPermissionHandler, AcpBackend>({
+        credentials: opts.credentials,
+        startedBy: opts.startedBy,
+        tag: 'codex-acp',
+        flavor: 'codex',
+        displayName: 'Codex',
+        agentType: 'codex',
+        forkedFrom: fork?.parentSessionId,
+        resumeSessionId: fork?.agentSessionId,
+        initialMode: { permissionMode: 'default' },
+        readMode: (meta, previous) => {
+            const mode = { ...previous };
+            if (meta?.permissionMode) {
+                mode.permissionMode = meta.permissionMode as PermissionMode;
+                logger.debug(`[codex-acp] Permission mode updated: ${mode.permissionMode}`);
+            }
+            // Explicit null resets the model to Codex's default
+            if (meta?.hasOwnProperty('model')) {
+                mode.model = meta.model || undefined;
+                logger.debug(`[codex-acp] Model updated: ${mode.model || 'reset to default'}`);
+            }
+            return mode;
+        },
+        hashMode: (mode) => hashObject({
+            permissionMode: mode.permissionMode,
+            model: mode.model,
+        }),
+        createPermissionHandler: (session, path) => new CodexPermissionHandler(session, path),
+        createBackend: ({ mode, resumeSessionId, mcpServers, permissionHandler }) => createCodexBackend({
+            cwd: process.cwd(),
+            model: mode.model,
+            permissionMode: mode.permissionMode,
+            resumeSessionId,
+            mcpServers,
+            permissionHandler,
+        }),
+        // Approval policy, sandbox and model are fixed when codex-acp starts;
+        // the new process loads the previous ACP session with session/load
+        restartOnModeChange: true,
+        backendResumeSessionId: (backend) => backend.getAcpSessionId() ?? undefined,
+        onBackendStarted: (backend, session) => {
+            // Recorded so the app can fork this session
+            const codexSessionId = backend.getAcpSessionId();
+            if (codexSessionId) {
+                session.updateMetadata((currentMetadata) => ({
+                    ...currentMetadata,
+                    codexSessionId
+                }));
+            }
+        },
+        describeError: (message) => message.includes('ENOENT')
+            ? `Failed to start Codex: "${CODEX_ACP_COMMAND}" not found. Install it with: npm install -g @zed-industries/codex-acp`
+            : `Error: ${message}`,
+    });
+}
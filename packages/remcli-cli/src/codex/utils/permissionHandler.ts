@@ -6,10 +6,10 @@
  */
 
 import { logger } from "@/ui/logger";
-import { ApiSessionClient } from "@/api/apiSession";
 import {
     BasePermissionHandler,
     PermissionResult,
+    PermissionSession,
     PendingRequest
 } from '@/utils/BasePermissionHandler';
 
@@ -20,8 +20,8 @@ export type { PermissionResult, PendingRequest };
  * Codex-specific permission handler.
  */
 export class CodexPermissionHandler extends BasePermissionHandler {
-    constructor(session: ApiSessionClient) {
-        super(session);
+    constructor(session: PermissionSession, workingDirectory: string) {
+        super(session, workingDirectory);
     }
 
     protected getLogPrefix(): string {
@@ -40,6 +40,11 @@ export class CodexPermissionHandler extends BasePermissionHandler {
         toolName: string,
         input: unknown
     ): Promise<PermissionResult> {
+        const ruleResult = this.applyPermissionRules(toolCallId, toolName, input);
+        if (ruleResult && ruleResult !== 'ask') {
+            return ruleResult;
+        }
+
         return new Promise<PermissionResult>((resolve, reject) => {
             // Store the pending request
             this.pendingRequests.set(toolCallId, {
@@ -0,0 +1,49 @@
+/**
+ * Permission Modes - maps Remcli permission modes to Codex settings
+ *
+ * Codex enforces permissions itself through an approval policy (when to ask)
+ * and a sandbox (what commands may touch). Both Codex backends (MCP server
+ * and codex-acp) start Codex with the settings returned here.
+ */
+
+import type { PermissionMode } from '@/api/types';
+import type { CodexSessionConfig } from '../types';
+
+export type CodexApprovalPolicy = NonNullable<CodexSessionConfig['approval-policy']>;
+export type CodexSandboxMode = NonNullable<CodexSessionConfig['sandbox']>;
+
+/**
+ * When Codex asks for approval in a permission mode
+ */
+export function getCodexApprovalPolicy(mode: PermissionMode): CodexApprovalPolicy {
+    switch (mode) {
+        // Codex native modes
+        case 'default': return 'untrusted';                    // Ask for non-trusted commands
+        case 'read-only': return 'never';                      // Never ask, read-only enforced by sandbox
+        case 'safe-yolo': return 'on-failure';                 // Auto-run, ask only on failure
+        case 'yolo': return 'on-failure';                      // Auto-run, ask only on failure
+        // Defensive fallback for Claude-specific modes (backward compatibility)
+        case 'bypassPermissions': return 'on-failure';         // Full access: map to yolo behavior
+        case 'acceptEdits': return 'on-request';               // Let model decide (closest to auto-approve edits)
+        case 'plan': return 'untrusted';                       // Conservative: ask for non-trusted
+        default: return 'untrusted';                           // Safe fallback
+    }
+}
+
+/**
+ * Which sandbox Codex runs commands in for a permission mode
+ */
+export function getCodexSandboxMode(mode: PermissionMode): CodexSandboxMode {
+    switch (mode) {
+        // Codex native modes
+        case 'default': return 'workspace-write';              // Can write in workspace
+        case 'read-only': return 'read-only';                  // Read-only filesystem
+        case 'safe-yolo': return 'workspace-write';            // Can write in workspace
+        case 'yolo': return 'danger-full-access';              // Full system access
+        // Defensive fallback for Claude-specific modes
+        case 'bypassPermissions': return 'danger-full-access'; // Full access: map to yolo
+        case 'acceptEdits': return 'workspace-write';          // Can edit files in workspace
+        case 'plan': return 'workspace-write';                 // Can write for planning
+        default: return 'workspace-write';                     // Safe default
+    }
+}
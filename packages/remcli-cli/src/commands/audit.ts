@@ -0,0 +1,118 @@
+import chalk from 'chalk';
+import { AUDIT_EVENT_TYPES, AuditEntry, AuditEventType, getAuditLogPath, readAuditLog } from '@/daemon/auditLog';
+
+/**
+ * Handle `remcli daemon audit` subcommand
+ *
+ * Prints the daemon's structured audit log (RPC calls, session spawn/stop,
+ * permission decisions, auth failures), newest first. Reads the log file
+ * directly, so it works while the daemon is stopped.
+ */
+export async function handleAuditCommand(args: string[]): Promise<void> {
+    if (args.includes('help') || args.includes('--help') || args.includes('-h')) {
+        showAuditHelp();
+        return;
+    }
+
+    const limitArg = readOption(args, '--limit');
+    const limit = limitArg !== undefined ? parseInt(limitArg, 10) : 50;
+    if (!Number.isInteger(limit) || limit < 1) {
+        console.error(chalk.red('Invalid --limit'));
+        process.exit(1);
+    }
+
+    const type = readOption(args, '--type');
+    if (type !== undefined && !AUDIT_EVENT_TYPES.includes(type as AuditEventType)) {
+        console.error(chalk.red(`Unknown event type: ${type}`), `(expected one of ${AUDIT_EVENT_TYPES.join(', ')})`);
+        process.exit(1);
+    }
+
+    const sinceArg = readOption(args, '--since');
+    const sinceMs = sinceArg !== undefined ? parseDuration(sinceArg) : undefined;
+    if (sinceArg !== undefined && sinceMs === null) {
+        console.error(chalk.red(`Invalid --since: ${sinceArg}`), '(use e.g. 30m, 6h or 2d)');
+        process.exit(1);
+    }
+
+    const entries = readAuditLog({
+        limit,
+        type: type as AuditEventType | undefined,
+        sessionId: readOption(args, '--session'),
+        since: sinceMs ? Date.now() - sinceMs : undefined
+    });
+
+    if (args.includes('--json')) {
+        for (const entry of entries) {
+            console.log(JSON.stringify(entry));
+        }
+        return;
+    }
+
+    if (entries.length === 0) {
+        console.log(`No audit events found in ${getAuditLogPath()}`);
+        return;
+    }
+
+    // Oldest at the top, like a log
+    for (const entry of [...entries].reverse()) {
+        console.log(formatAuditEntry(entry));
+    }
+}
+
+function showAuditHelp(): void {
+    console.log(`
+${chalk.bold('remcli daemon audit')} - Show the daemon audit log
+
+${chalk.bold('Usage:')}
+  remcli daemon audit [options]
+
+${chalk.bold('Options:')}
+  --limit <n>          Number of events to show (default: 50)
+  --type <type>        Only show one event type: ${AUDIT_EVENT_TYPES.join(', ')}
+  --session <id>       Only show events for one session
+  --since <duration>   Only show events newer than e.g. 30m, 6h or 2d
+  --json               Print raw JSON lines
+
+${chalk.bold('Description:')}
+  The audit log is kept at ${getAuditLogPath()}.
+`);
+}
+
+function readOption(args: string[], name: string): string | undefined {
+    const index = args.indexOf(name);
+    return index !== -1 ? args[index + 1] : undefined;
+}
+
+function parseDuration(value: string): number | null {
+    const match = /^(\d+)([smhd])$/.exec(value);
+    if (!match) {
+        return null;
+    }
+    const unit = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[match[2] as 's' | 'm' | 'h' | 'd'];
+    return parseInt(match[1], 10) * unit;
+}
+
+function formatAuditEntry(entry: AuditEntry): string {
+    const time = chalk.gray(new Date(entry.time).toLocaleString());
+    switch (entry.type) {
+        case 'rpc': {
+            const result = entry.result === 'ok' ? chalk.green('ok') : chalk.red(`error: ${entry.error ?? 'unknown'}`);
+            const device = entry.deviceId ? ` device=${entry.deviceId}` : '';
+            return `${time} ${chalk.cyan('rpc')} ${entry.method} ${result} ${entry.durationMs}ms${device}`;
+        }
+        case 'session-spawn': {
+            const result = entry.result === 'success' ? chalk.green(`session=${entry.sessionId}`)
+                : entry.result === 'error' ? chalk.red(`error: ${entry.error ?? 'unknown'}`)
+                : chalk.yellow('needs directory approval');
+            return `${time} ${chalk.cyan('spawn')} ${entry.agent ?? 'claude'} in ${entry.directory} ${result}`;
+        }
+        case 'session-stop':
+            return `${time} ${chalk.cyan('stop')} session=${entry.sessionId ?? '?'} pid=${entry.pid} (${entry.reason})`;
+        case 'permission': {
+            const decision = entry.decision.startsWith('approved') ? chalk.green(entry.decision) : chalk.red(entry.decision);
+            return `${time} ${chalk.cyan('permission')} ${entry.tool} ${decision} session=${entry.sessionId}`;
+        }
+        case 'auth-failure':
+            return `${time} ${chalk.red('auth-failure')} ${entry.transport} ${entry.reason}${entry.ip ? ` from ${entry.ip}` : ''}${entry.url ? ` ${entry.url}` : ''}`;
+    }
+}
@@ -0,0 +1,79 @@
+import chalk from 'chalk';
+import { listDaemonDevices, revokeDaemonDevice } from '@/daemon/controlClient';
+
+/**
+ * Handle `remcli daemon devices` subcommand
+ *
+ * Manages apps paired with the daemon's P2P server:
+ * - devices list: Show paired devices and when they were last seen
+ * - devices revoke <id>: Revoke a device's token and drop its connections
+ */
+export async function handleDevicesCommand(args: string[]): Promise<void> {
+    const subcommand = args[0];
+
+    if (!subcommand || subcommand === 'help' || subcommand === '--help' || subcommand === '-h') {
+        showDevicesHelp();
+        return;
+    }
+
+    switch (subcommand) {
+        case 'list':
+            await handleDevicesList();
+            break;
+        case 'revoke':
+            await handleDevicesRevoke(args[1]);
+            break;
+        default:
+            console.error(chalk.red(`Unknown devices command: ${subcommand}`));
+            showDevicesHelp();
+            process.exit(1);
+    }
+}
+
+function showDevicesHelp(): void {
+    console.log(`
+${chalk.bold('remcli daemon devices')} - Manage paired devices
+
+${chalk.bold('Usage:')}
+  remcli daemon devices list           List devices paired with this daemon
+  remcli daemon devices revoke <id>    Revoke a device (it must scan a new QR code to reconnect)
+
+${chalk.bold('Description:')}
+  Every app that accepts the daemon's QR code gets its own access token.
+  Revoking a device disconnects it immediately without affecting other devices.
+`);
+}
+
+async function handleDevicesList(): Promise<void> {
+    const result = await listDaemonDevices();
+    if (result.error || !result.devices) {
+        console.error(chalk.red('Daemon is not running.'), 'Start it with: remcli daemon start');
+        process.exit(1);
+    }
+
+    if (result.devices.length === 0) {
+        console.log('No paired devices. Scan the QR code from `remcli daemon qr` to pair one.');
+        return;
+    }
+
+    console.log(chalk.bold('Paired devices:'));
+    for (const device of result.devices) {
+        const platform = device.platform ? chalk.gray(` (${device.platform})`) : '';
+        console.log(`  ${chalk.cyan(device.id)}  ${device.name}${platform}`);
+        console.log(chalk.gray(`    paired ${new Date(device.createdAt).toLocaleString()}, last seen ${new Date(device.lastSeenAt).toLocaleString()}`));
+    }
+}
+
+async function handleDevicesRevoke(deviceId: string | undefined): Promise<void> {
+    if (!deviceId) {
+        console.error(chalk.red('Device ID required:'), 'remcli daemon devices revoke <id>');
+        process.exit(1);
+    }
+
+    const success = await revokeDaemonDevice(deviceId);
+    if (!success) {
+        console.error(chalk.red(`Failed to revoke device ${deviceId}`), '(is the daemon running and the ID correct?)');
+        process.exit(1);
+    }
+    console.log(chalk.green('✓'), `Device ${deviceId} revoked`);
+}
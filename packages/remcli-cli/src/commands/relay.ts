@@ -0,0 +1,92 @@
+import chalk from 'chalk';
+import { generateToken } from '@/daemon/p2p/p2pAuth';
+import { startRelayServer } from '@/relay/relayServer';
+
+/**
+ * Handle `remcli relay` subcommand
+ *
+ * Runs the self-hosted relay that daemons can use instead of ngrok:
+ * - relay serve: Listen for a daemon and forward app traffic to it
+ */
+export async function handleRelayCommand(args: string[]): Promise<void> {
+    const subcommand = args[0];
+
+    if (!subcommand || subcommand === 'help' || subcommand === '--help' || subcommand === '-h') {
+        showRelayHelp();
+        return;
+    }
+
+    switch (subcommand) {
+        case 'serve':
+            await handleRelayServe(args.slice(1));
+            break;
+        default:
+            console.error(chalk.red(`Unknown relay command: ${subcommand}`));
+            showRelayHelp();
+            process.exit(1);
+    }
+}
+
+function showRelayHelp(): void {
+    console.log(`
+${chalk.bold('remcli relay')} - Self-hosted relay for remote access
+
+${chalk.bold('Usage:')}
+  remcli relay serve [options]    Run the relay in the foreground
+
+${chalk.bold('Options:')}
+  --port <port>          Port to listen on (default: 8787, or REMCLI_RELAY_PORT)
+  --host <host>          Interface to bind (default: 0.0.0.0)
+  --secret <secret>      Secret daemons must present (default: REMCLI_RELAY_SECRET, or a generated one)
+  --public-url <url>     URL the app should use, e.g. https://... when TLS is terminated by a reverse proxy
+
+${chalk.bold('Description:')}
+  The daemon dials out to the relay, so it works behind NAT and firewalls.
+  Point a daemon at it with:
+    REMCLI_RELAY_URL=<relay url> REMCLI_RELAY_SECRET=<secret> remcli daemon start --tunnel
+
+  ${chalk.yellow('Put the relay behind TLS.')} Message content is end-to-end encrypted, but the
+  app's bearer token, the relay secret and HTTP headers cross the relay as sent,
+  so over plain http anyone on the path can read them.
+`);
+}
+
+function readOption(args: string[], name: string): string | undefined {
+    const index = args.indexOf(name);
+    return index !== -1 ? args[index + 1] : undefined;
+}
+
+async function handleRelayServe(args: string[]): Promise<void> {
+    const port = parseInt(readOption(args, '--port') ?? process.env.REMCLI_RELAY_PORT ?? '8787', 10);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        console.error(chalk.red('Invalid port'));
+        process.exit(1);
+    }
+    const host = readOption(args, '--host') ?? '0.0.0.0';
+    const publicUrl = readOption(args, '--public-url');
+    let secret = readOption(args, '--secret') ?? process.env.REMCLI_RELAY_SECRET;
+    const generatedSecret = !secret;
+    if (!secret) {
+        secret = generateToken();
+    }
+
+    const relay = await startRelayServer({ port, host, secret, publicUrl });
+
+    console.log(chalk.green('✓'), `Relay listening on ${host}:${relay.port}`);
+    if (generatedSecret) {
+        console.log(`  Generated secret: ${chalk.cyan(secret)}`);
+        console.log(chalk.gray('  Pass --secret or REMCLI_RELAY_SECRET to keep it across restarts.'));
+    }
+    console.log(`  Start the daemon with REMCLI_RELAY_URL=${publicUrl ?? `http://<this host>:${relay.port}`} and REMCLI_RELAY_SECRET set.`);
+    if (!publicUrl?.startsWith('https://')) {
+        console.log(chalk.yellow('  Without TLS, tokens and the relay secret cross the network in plaintext.'));
+        console.log(chalk.yellow('  Put a TLS reverse proxy in front and pass its URL with --public-url https://...'));
+    }
+
+    const shutdown = async () => {
+        await relay.stop();
+        process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+}
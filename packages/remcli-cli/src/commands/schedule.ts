@@ -0,0 +1,164 @@
+import chalk from 'chalk';
+import { resolve } from 'node:path';
+import { addDaemonSchedule, listDaemonSchedules, removeDaemonSchedule } from '@/daemon/controlClient';
+import { SCHEDULE_AGENTS, ScheduleAgent, ScheduledRun, nextCronTime, parseCron } from '@/daemon/scheduler';
+
+/**
+ * Handle `remcli schedule` subcommand
+ *
+ * Manages sessions the daemon starts on a cron schedule:
+ * - schedule list: Show jobs, their next run and their last results
+ * - schedule add: Add a job that starts an agent in a directory with a prompt
+ * - schedule remove <id>: Remove a job
+ */
+export async function handleScheduleCommand(args: string[]): Promise<void> {
+    const subcommand = args[0];
+
+    if (!subcommand || subcommand === 'help' || subcommand === '--help' || subcommand === '-h') {
+        showScheduleHelp();
+        return;
+    }
+
+    switch (subcommand) {
+        case 'list':
+            await handleScheduleList();
+            break;
+        case 'add':
+            await handleScheduleAdd(args.slice(1));
+            break;
+        case 'remove':
+            await handleScheduleRemove(args[1]);
+            break;
+        default:
+            console.error(chalk.red(`Unknown schedule command: ${subcommand}`));
+            showScheduleHelp();
+            process.exit(1);
+    }
+}
+
+function showScheduleHelp(): void {
+    console.log(`
+${chalk.bold('remcli schedule')} - Scheduled agent sessions
+
+${chalk.bold('Usage:')}
+  remcli schedule list                  List scheduled sessions and their last runs
+  remcli schedule add [options]         Add a scheduled session
+  remcli schedule remove <id>           Remove a scheduled session
+
+${chalk.bold('Options for add:')}
+  --cron <expression>    When to run: "min hour day month weekday", or @hourly, @daily, @weekly, @monthly
+  --prompt <text>        First message sent to the agent
+  --dir <path>           Working directory (default: current directory)
+  --agent <agent>        ${SCHEDULE_AGENTS.join(', ')} (default: claude)
+  --profile <id>         AI backend profile to use
+  --name <name>          Display name (default: the prompt)
+
+${chalk.bold('Examples:')}
+  remcli schedule add --cron "0 3 * * *" --prompt "Run the test suite and fix flaky tests"
+  remcli schedule add --cron "@weekly" --agent codex --dir ~/src/app --prompt "Update dependencies"
+
+${chalk.bold('Description:')}
+  The daemon starts each job at the scheduled time (local time) as a regular
+  session you can follow from the app. A run is skipped while the session of
+  the previous run is still active.
+`);
+}
+
+function readOption(args: string[], name: string): string | undefined {
+    const index = args.indexOf(name);
+    return index !== -1 ? args[index + 1] : undefined;
+}
+
+function formatRun(run: ScheduledRun): string {
+    const time = new Date(run.startedAt).toLocaleString();
+    switch (run.status) {
+        case 'started':
+            return `${chalk.green('started')} ${time} → session ${run.sessionId}${run.endedAt ? chalk.gray(' (ended)') : ''}`;
+        case 'skipped':
+            return `${chalk.yellow('skipped')} ${time}${run.error ? chalk.gray(` (${run.error})`) : ''}`;
+        case 'failed':
+            return `${chalk.red('failed')} ${time}${run.error ? chalk.gray(` (${run.error})`) : ''}`;
+    }
+}
+
+async function handleScheduleList(): Promise<void> {
+    const result = await listDaemonSchedules();
+    if (result.error || !result.jobs) {
+        console.error(chalk.red('Daemon is not running.'), 'Start it with: remcli daemon start');
+        process.exit(1);
+    }
+
+    if (result.jobs.length === 0) {
+        console.log('No scheduled sessions. Add one with `remcli schedule add`.');
+        return;
+    }
+
+    console.log(chalk.bold('Scheduled sessions:'));
+    for (const job of result.jobs) {
+        const status = job.enabled ? '' : chalk.yellow(' (disabled)');
+        const profile = job.profileId ? `, profile ${job.profileId}` : '';
+        console.log(`  ${chalk.cyan(job.id)}  ${job.name}${status}`);
+        console.log(chalk.gray(`    ${job.cron} · ${job.agent}${profile} · ${job.directory}`));
+        if (job.enabled) {
+            const next = nextCronTime(parseCron(job.cron), new Date());
+            console.log(chalk.gray(`    next run: ${next ? next.toLocaleString() : 'never'}`));
+        }
+        if (job.runs.length > 0) {
+            console.log(`    last run: ${formatRun(job.runs[0])}`);
+        }
+    }
+}
+
+async function handleScheduleAdd(args: string[]): Promise<void> {
+    const cron = readOption(args, '--cron');
+    const prompt = readOption(args, '--prompt');
+    if (!cron || !prompt) {
+        console.error(chalk.red('--cron and --prompt are required:'), 'remcli schedule add --cron "0 3 * * *" --prompt "..."');
+        process.exit(1);
+    }
+    try {
+        parseCron(cron);
+    } catch (error) {
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+    }
+
+    const agent = (readOption(args, '--agent') ?? 'claude') as ScheduleAgent;
+    if (!SCHEDULE_AGENTS.includes(agent)) {
+        console.error(chalk.red(`Unknown agent: ${agent}`), `(expected one of ${SCHEDULE_AGENTS.join(', ')})`);
+        process.exit(1);
+    }
+
+    const result = await addDaemonSchedule({
+        name: readOption(args, '--name') ?? prompt.slice(0, 60),
+        cron,
+        directory: resolve(readOption(args, '--dir') ?? process.cwd()),
+        agent,
+        profileId: readOption(args, '--profile'),
+        prompt
+    });
+    if (!result.success || !result.job) {
+        console.error(chalk.red('Failed to add scheduled session:'), result.error ?? 'Daemon is not running. Start it with: remcli daemon start');
+        process.exit(1);
+    }
+
+    const next = nextCronTime(parseCron(result.job.cron), new Date());
+    console.log(chalk.green('✓'), `Scheduled ${chalk.cyan(result.job.id)} (${result.job.name})`);
+    if (next) {
+        console.log(chalk.gray(`  next run: ${next.toLocaleString()}`));
+    }
+}
+
+async function handleScheduleRemove(jobId: string | undefined): Promise<void> {
+    if (!jobId) {
+        console.error(chalk.red('Schedule ID required:'), 'remcli schedule remove <id>');
+        process.exit(1);
+    }
+
+    const success = await removeDaemonSchedule(jobId);
+    if (!success) {
+        console.error(chalk.red(`Failed to remove scheduled session ${jobId}`), '(is the daemon running and the ID correct?)');
+        process.exit(1);
+    }
+    console.log(chalk.green('✓'), `Scheduled session ${jobId} removed`);
+}
@@ -0,0 +1,250 @@
+import chalk from 'chalk';
+import { resolve } from 'node:path';
+import { addDaemonBudget, queryDaemonUsage, removeDaemonBudget } from '@/daemon/controlClient';
+import { USAGE_GROUP_BY, UsageBudgetStatus, UsageGroupBy, UsageRow, usageDay } from '@/daemon/usageLedger';
+
+const UNTRACKED_AGENTS_NOTE = 'Only Claude sessions report usage. Codex, Gemini and other ACP agents are not counted, and budgets do not limit them.';
+
+/**
+ * Handle `remcli usage` subcommand
+ *
+ * Reports the token usage and cost the daemon recorded for its sessions. Only
+ * Claude sessions report usage, so the output says that budgets don't cover
+ * the other agents:
+ * - usage [options]: Show usage grouped by day, project, agent, model or session
+ * - usage budget list: Show budgets and the current period's spend
+ * - usage budget add: Add a daily or monthly budget, optionally for one project
+ * - usage budget remove <id>: Remove a budget
+ */
+export async function handleUsageCommand(args: string[]): Promise<void> {
+    const subcommand = args[0];
+
+    if (subcommand === 'help' || subcommand === '--help' || subcommand === '-h') {
+        showUsageHelp();
+        return;
+    }
+
+    if (subcommand !== 'budget') {
+        await handleUsageReport(args);
+        return;
+    }
+
+    switch (args[1]) {
+        case undefined:
+        case 'list':
+            await handleBudgetList();
+            break;
+        case 'add':
+            await handleBudgetAdd(args.slice(2));
+            break;
+        case 'remove':
+            await handleBudgetRemove(args[2]);
+            break;
+        default:
+            console.error(chalk.red(`Unknown budget command: ${args[1]}`));
+            showUsageHelp();
+            process.exit(1);
+    }
+}
+
+function showUsageHelp(): void {
+    console.log(`
+${chalk.bold('remcli usage')} - Token usage and cost of your sessions
+
+${chalk.bold('Usage:')}
+  remcli usage [options]                Show recorded usage
+  remcli usage budget list              List budgets and this period's spend
+  remcli usage budget add [options]     Add a budget
+  remcli usage budget remove <id>       Remove a budget
+
+${chalk.bold('Options:')}
+  --by <fields>        Group by ${USAGE_GROUP_BY.join(', ')}; comma separated (default: day)
+  --since <when>       First day: YYYY-MM-DD or e.g. 7d (default: 30d)
+  --until <date>       Last day, YYYY-MM-DD
+  --project <path>     Only one project directory
+  --agent <agent>      Only one agent (claude, codex, ...)
+  --model <model>      Only one model
+  --json               Print the raw report as JSON
+
+${chalk.bold('Options for budget add:')}
+  --limit <usd>        Spend cap in US dollars
+  --period <period>    day or month (default: day)
+  --project <path>     Only count one project directory
+  --pause              Stop running turns once the cap is exceeded (default: warn only)
+
+${chalk.bold('Examples:')}
+  remcli usage --by project,model --since 7d
+  remcli usage budget add --limit 20
+  remcli usage budget add --limit 100 --period month --project . --pause
+
+${chalk.bold('Description:')}
+  Sessions report token usage after every reply; the daemon keeps totals per
+  day, session, project, agent and model. Costs are estimates from list prices.
+  When a budget is exceeded, paired apps get a notification; with --pause the
+  daemon also stops the turn of every session the budget covers until the
+  period ends or the budget is removed.
+
+  ${UNTRACKED_AGENTS_NOTE}
+`);
+}
+
+function readOption(args: string[], name: string): string | undefined {
+    const index = args.indexOf(name);
+    return index !== -1 ? args[index + 1] : undefined;
+}
+
+/**
+ * Turn `7d` into the date seven days ago; dates pass through
+ */
+function parseSince(value: string): string | null {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return value;
+    }
+    const match = /^(\d+)d$/.exec(value);
+    if (!match) {
+        return null;
+    }
+    const date = new Date();
+    date.setDate(date.getDate() - parseInt(match[1], 10) + 1);
+    return usageDay(date);
+}
+
+function formatCost(usd: number): string {
+    return `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+}
+
+function formatTokens(count: number): string {
+    if (count >= 1_000_000) {
+        return `${(count / 1_000_000).toFixed(1)}M`;
+    }
+    if (count >= 1_000) {
+        return `${(count / 1_000).toFixed(1)}k`;
+    }
+    return String(count);
+}
+
+function rowLabel(row: UsageRow, groupBy: UsageGroupBy[]): string {
+    return groupBy.map((field) => (field === 'session' ? row.sessionId : row[field]) ?? '').join('  ');
+}
+
+async function handleUsageReport(args: string[]): Promise<void> {
+    const groupBy = (readOption(args, '--by') ?? 'day').split(',').filter(Boolean) as UsageGroupBy[];
+    const unknown = groupBy.find((field) => !USAGE_GROUP_BY.includes(field));
+    if (unknown) {
+        console.error(chalk.red(`Unknown group: ${unknown}`), `(expected ${USAGE_GROUP_BY.join(', ')})`);
+        process.exit(1);
+    }
+
+    const sinceArg = readOption(args, '--since') ?? '30d';
+    const since = parseSince(sinceArg);
+    if (!since) {
+        console.error(chalk.red(`Invalid --since: ${sinceArg}`), '(use YYYY-MM-DD or e.g. 7d)');
+        process.exit(1);
+    }
+    const project = readOption(args, '--project');
+
+    const result = await queryDaemonUsage({
+        groupBy,
+        since,
+        until: readOption(args, '--until'),
+        project: project ? resolve(project) : undefined,
+        agent: readOption(args, '--agent'),
+        model: readOption(args, '--model')
+    });
+    if (result.error || !result.rows || !result.total) {
+        console.error(chalk.red('Daemon is not running.'), 'Start it with: remcli daemon start');
+        process.exit(1);
+    }
+
+    if (args.includes('--json')) {
+        console.log(JSON.stringify(result, null, 2));
+        return;
+    }
+
+    if (result.rows.length === 0) {
+        console.log(`No usage recorded since ${since}.`);
+        return;
+    }
+
+    const labels = result.rows.map((row) => rowLabel(row, groupBy));
+    const width = Math.max(...labels.map((label) => label.length));
+    console.log(chalk.bold(`Usage since ${since} by ${groupBy.join(', ')}:`));
+    result.rows.forEach((row, index) => {
+        const tokens = chalk.gray(`${formatTokens(row.tokens.input)} in · ${formatTokens(row.tokens.output)} out · ${formatTokens(row.tokens.cacheRead)} cached`);
+        console.log(`  ${labels[index].padEnd(width)}  ${formatCost(row.costUsd).padStart(10)}  ${tokens}`);
+    });
+    console.log(`  ${'Total'.padEnd(width)}  ${chalk.bold(formatCost(result.total.costUsd).padStart(10))}  ${chalk.gray(`${formatTokens(result.total.tokens.total)} tokens`)}`);
+
+    const exceeded = (result.budgets ?? []).filter((budget) => budget.exceeded);
+    for (const budget of exceeded) {
+        console.log(chalk.yellow(`\nBudget ${budget.id} exceeded: ${formatBudget(budget)}`));
+    }
+    console.log(chalk.gray(`\n${UNTRACKED_AGENTS_NOTE}`));
+}
+
+function formatBudget(budget: UsageBudgetStatus): string {
+    const scope = budget.project ? ` for ${budget.project}` : '';
+    return `${formatCost(budget.spentUsd)} of ${formatCost(budget.limitUsd)} per ${budget.period}${scope}`;
+}
+
+async function handleBudgetList(): Promise<void> {
+    const result = await queryDaemonUsage({});
+    if (result.error || !result.budgets) {
+        console.error(chalk.red('Daemon is not running.'), 'Start it with: remcli daemon start');
+        process.exit(1);
+    }
+
+    if (result.budgets.length === 0) {
+        console.log('No usage budgets. Add one with `remcli usage budget add --limit <usd>`.');
+        return;
+    }
+
+    console.log(chalk.bold('Usage budgets:'));
+    for (const budget of result.budgets) {
+        const status = budget.exceeded ? chalk.red(' (exceeded)') : '';
+        console.log(`  ${chalk.cyan(budget.id)}  ${formatBudget(budget)}${status}`);
+        console.log(chalk.gray(`    ${budget.action === 'pause' ? 'stops turns' : 'warns'} when exceeded · period ${budget.periodKey}`));
+    }
+    console.log(chalk.gray(`\n${UNTRACKED_AGENTS_NOTE}`));
+}
+
+async function handleBudgetAdd(args: string[]): Promise<void> {
+    const limitUsd = Number(readOption(args, '--limit'));
+    if (!Number.isFinite(limitUsd) || limitUsd <= 0) {
+        console.error(chalk.red('--limit is required:'), 'remcli usage budget add --limit 20');
+        process.exit(1);
+    }
+    const period = readOption(args, '--period') ?? 'day';
+    if (period !== 'day' && period !== 'month') {
+        console.error(chalk.red(`Invalid --period: ${period}`), '(expected day or month)');
+        process.exit(1);
+    }
+    const project = readOption(args, '--project');
+
+    const result = await addDaemonBudget({
+        period,
+        limitUsd,
+        project: project ? resolve(project) : undefined,
+        action: args.includes('--pause') ? 'pause' : 'warn'
+    });
+    if (!result.success || !result.budget) {
+        console.error(chalk.red('Failed to add budget:'), result.error ?? 'Daemon is not running. Start it with: remcli daemon start');
+        process.exit(1);
+    }
+    console.log(chalk.green('✓'), `Added budget ${chalk.cyan(result.budget.id)} (${formatCost(limitUsd)} per ${period}${result.budget.project ? ` for ${result.budget.project}` : ''})`);
+    console.log(chalk.gray(UNTRACKED_AGENTS_NOTE));
+}
+
+async function handleBudgetRemove(budgetId: string | undefined): Promise<void> {
+    if (!budgetId) {
+        console.error(chalk.red('Budget ID required:'), 'remcli usage budget remove <id>');
+        process.exit(1);
+    }
+
+    const success = await removeDaemonBudget(budgetId);
+    if (!success) {
+        console.error(chalk.red(`Failed to remove budget ${budgetId}`), '(is the daemon running and the ID correct?)');
+        process.exit(1);
+    }
+    console.log(chalk.green('✓'), `Budget ${budgetId} removed`);
+}
@@ -21,6 +21,8 @@ class Configuration {
   public readonly privateKeyFile: string
   public readonly daemonStateFile: string
   public readonly daemonLockFile: string
+  public readonly p2pDir: string
+  public readonly p2pIdentityFile: string
   public readonly currentCliVersion: string
 
   public readonly isExperimentalEnabled: boolean
@@ -45,6 +47,8 @@ class Configuration {
     this.privateKeyFile = join(this.remcliHomeDir, 'access.key')
     this.daemonStateFile = join(this.remcliHomeDir, 'daemon.state.json')
     this.daemonLockFile = join(this.remcliHomeDir, 'daemon.state.json.lock')
+    this.p2pDir = join(this.remcliHomeDir, 'p2p')
+    this.p2pIdentityFile = join(this.p2pDir, 'identity.json')
 
     this.isExperimentalEnabled = ['true', '1', 'yes'].includes(process.env.REMCLI_EXPERIMENTAL?.toLowerCase() || '');
     this.disableCaffeinate = ['true', '1', 'yes'].includes(process.env.REMCLI_DISABLE_CAFFEINATE?.toLowerCase() || '');
@@ -32,6 +32,7 @@ import type { PermissionMode } from '@/api/types';
 
 import { cursorQuery } from './cursorQuery';
 import type { CursorMode, CursorStreamEvent } from './types';
+import { appendAttachmentPaths } from '@/utils/attachments';
 
 
 /**
@@ -131,7 +132,8 @@ export async function runCursor(opts: {
             permissionMode: messagePermissionMode || 'default',
             model: messageModel,
         };
-        messageQueue.push(message.content.text, mode);
+        // Attachments are referenced by path for the agent to open
+        messageQueue.push(appendAttachmentPaths(message.content.text, message.content.attachments, false), mode);
     });
 
     let thinking = false;
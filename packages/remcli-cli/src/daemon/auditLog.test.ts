@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { appendFileSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+describe('audit log', () => {
+    let homeDir: string;
+    let previousHomeDir: string | undefined;
+    let audit: typeof import('./auditLog');
+
+    beforeEach(async () => {
+        homeDir = mkdtempSync(join(tmpdir(), 'remcli-audit-test-'));
+        previousHomeDir = process.env.REMCLI_HOME_DIR;
+        process.env.REMCLI_HOME_DIR = homeDir;
+        // configuration reads REMCLI_HOME_DIR once, at import
+        vi.resetModules();
+        audit = await import('./auditLog');
+    });
+
+    afterEach(() => {
+        if (previousHomeDir === undefined) {
+            delete process.env.REMCLI_HOME_DIR;
+        } else {
+            process.env.REMCLI_HOME_DIR = previousHomeDir;
+        }
+        rmSync(homeDir, { recursive: true, force: true });
+    });
+
+    it('appends events and reads them back newest first', () => {
+        audit.recordAuditEvent({ type: 'session-spawn', directory: '/tmp/a', sessionId: 's1', result: 'success' });
+        audit.recordAuditEvent({ type: 'rpc', method: 's1:bash', sessionId: 's1', durationMs: 12, result: 'ok' });
+        audit.recordAuditEvent({ type: 'auth-failure', transport: 'http', reason: 'invalid-token' });
+
+        const entries = audit.readAuditLog();
+        expect(entries.map(e => e.type)).toEqual(['auth-failure', 'rpc', 'session-spawn']);
+        expect(entries[0].pid).toBe(process.pid);
+        expect(audit.getAuditLogPath()).toBe(join(homeDir, 'audit.jsonl'));
+    });
+
+    it('filters by type, session and limit and skips torn lines', () => {
+        audit.recordAuditEvent({ type: 'rpc', method: 's1:bash', sessionId: 's1', durationMs: 1, result: 'ok' });
+        audit.recordAuditEvent({ type: 'rpc', method: 's2:bash', sessionId: 's2', durationMs: 1, result: 'error', error: 'timeout' });
+        audit.recordAuditEvent({ type: 'permission', sessionId: 's1', tool: 'Bash', decision: 'approved' });
+        appendFileSync(audit.getAuditLogPath(), '{"type":"rpc",');
+
+        expect(audit.readAuditLog({ type: 'rpc' })).toHaveLength(2);
+        expect(audit.readAuditLog({ sessionId: 's1' }).map(e => e.type)).toEqual(['permission', 'rpc']);
+        expect(audit.readAuditLog({ limit: 1 })).toHaveLength(1);
+    });
+});
@@ -0,0 +1,161 @@
+/**
+ * Structured audit log
+ *
+ * Security-relevant daemon events are appended as JSON lines to ~/.remcli/audit.jsonl:
+ * - rpc: every RPC forwarded by the P2P server (method, session/machine, device, duration, result)
+ * - session-spawn / session-stop: sessions started and stopped by the daemon
+ * - permission: tool permission decisions made from the app (written by session processes)
+ * - auth-failure: rejected REST requests, socket connections and pairing attempts
+ *
+ * The daemon and its session processes append to the same file. Lines are small
+ * single writes, so concurrent appends do not interleave. When the file grows past
+ * MAX_AUDIT_LOG_BYTES it is rotated to audit.jsonl.1, replacing the previous one.
+ */
+
+import { appendFileSync, existsSync, readFileSync, renameSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { configuration } from '@/configuration';
+import { logger } from '@/ui/logger';
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export type AuditEvent =
+    | {
+        type: 'rpc';
+        method: string;
+        sessionId?: string;
+        machineId?: string;
+        deviceId?: string;
+        durationMs: number;
+        result: 'ok' | 'error';
+        error?: string;
+    }
+    | {
+        type: 'session-spawn';
+        directory: string;
+        agent?: string;
+        sessionId?: string;
+        result: 'success' | 'error' | 'needs-approval';
+        error?: string;
+    }
+    | {
+        type: 'session-stop';
+        sessionId?: string;
+        pid: number;
+        reason: 'requested' | 'exited';
+    }
+    | {
+        type: 'permission';
+        sessionId: string;
+        tool: string;
+        decision: string;
+        mode?: string;
+    }
+    | {
+        type: 'auth-failure';
+        transport: 'http' | 'socket';
+        reason: string;
+        ip?: string;
+        url?: string;
+    };
+
+export type AuditEventType = AuditEvent['type'];
+
+export const AUDIT_EVENT_TYPES: AuditEventType[] = ['rpc', 'session-spawn', 'session-stop', 'permission', 'auth-failure'];
+
+export type AuditEntry = AuditEvent & {
+    time: number;
+    pid: number;
+};
+
+export interface AuditQuery {
+    limit?: number;
+    type?: AuditEventType;
+    sessionId?: string;
+    since?: number;
+}
+
+// ─── Writing ─────────────────────────────────────────────────────
+
+const MAX_AUDIT_LOG_BYTES = 10 * 1024 * 1024;
+const ROTATE_CHECK_INTERVAL = 100;
+
+let writesSinceRotateCheck = ROTATE_CHECK_INTERVAL;
+
+export function getAuditLogPath(): string {
+    return join(configuration.remcliHomeDir, 'audit.jsonl');
+}
+
+function rotateIfNeeded(path: string): void {
+    if (++writesSinceRotateCheck < ROTATE_CHECK_INTERVAL) {
+        return;
+    }
+    writesSinceRotateCheck = 0;
+    try {
+        if (existsSync(path) && statSync(path).size > MAX_AUDIT_LOG_BYTES) {
+            renameSync(path, `${path}.1`);
+        }
+    } catch (error) {
+        logger.debug('[AUDIT] Failed to rotate audit log:', error);
+    }
+}
+
+/**
+ * Append an event to the audit log. Never throws — auditing must not break the caller.
+ */
+export function recordAuditEvent(event: AuditEvent): void {
+    const path = getAuditLogPath();
+    try {
+        rotateIfNeeded(path);
+        const entry: AuditEntry = { time: Date.now(), pid: process.pid, ...event };
+        appendFileSync(path, JSON.stringify(entry) + '\n');
+    } catch (error) {
+        logger.debug('[AUDIT] Failed to write audit event:', error);
+    }
+}
+
+// ─── Reading ─────────────────────────────────────────────────────
+
+function readEntries(path: string): AuditEntry[] {
+    if (!existsSync(path)) {
+        return [];
+    }
+    const entries: AuditEntry[] = [];
+    for (const line of readFileSync(path, 'utf8').split('\n')) {
+        if (!line) continue;
+        try {
+            const parsed = JSON.parse(line);
+            if (parsed && typeof parsed.type === 'string' && typeof parsed.time === 'number') {
+                entries.push(parsed as AuditEntry);
+            }
+        } catch {
+            // Skip a torn line from a crash mid-write
+        }
+    }
+    return entries;
+}
+
+/**
+ * Read audit entries matching the query, newest first
+ */
+export function readAuditLog(query: AuditQuery = {}): AuditEntry[] {
+    const path = getAuditLogPath();
+    const limit = query.limit ?? 100;
+
+    const matches: AuditEntry[] = [];
+    // Current file first, then the rotated one, both walked from the end
+    for (const file of [path, `${path}.1`]) {
+        const entries = readEntries(file);
+        for (let i = entries.length - 1; i >= 0 && matches.length < limit; i--) {
+            const entry = entries[i];
+            if (query.since !== undefined && entry.time < query.since) continue;
+            if (query.type && entry.type !== query.type) continue;
+            if (query.sessionId && !('sessionId' in entry && entry.sessionId === query.sessionId)) continue;
+            matches.push(entry);
+        }
+        if (matches.length >= limit) {
+            break;
+        }
+    }
+    return matches;
+}
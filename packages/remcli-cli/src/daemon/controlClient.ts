@@ -10,6 +10,9 @@ import { projectPath } from '@/projectPath';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 import { configuration } from '@/configuration';
+import type { P2PDevice } from './p2p/p2pDevices';
+import type { NewScheduledJob, ScheduledJob } from './scheduler';
+import type { NewUsageBudget, UsageBudget, UsageBudgetStatus, UsageQuery, UsageQueryResult } from './usageLedger';
 
 async function daemonPost(path: string, body?: any): Promise<{ error?: string } | any> {
   const state = await readDaemonState();
@@ -84,6 +87,46 @@ export async function spawnDaemonSession(directory: string, sessionId?: string):
   return result;
 }
 
+export async function listDaemonDevices(): Promise<{ devices?: P2PDevice[]; error?: string }> {
+  return await daemonPost('/list-devices');
+}
+
+export async function revokeDaemonDevice(deviceId: string): Promise<boolean> {
+  const result = await daemonPost('/revoke-device', { deviceId });
+  return result.success || false;
+}
+
+export async function createDaemonPairingCode(): Promise<string | null> {
+  const result = await daemonPost('/pairing-code');
+  return result.code || null;
+}
+
+export async function listDaemonSchedules(): Promise<{ jobs?: ScheduledJob[]; error?: string }> {
+  return await daemonPost('/list-schedules');
+}
+
+export async function addDaemonSchedule(job: NewScheduledJob): Promise<{ success?: boolean; job?: ScheduledJob; error?: string }> {
+  return await daemonPost('/add-schedule', job);
+}
+
+export async function removeDaemonSchedule(jobId: string): Promise<boolean> {
+  const result = await daemonPost('/remove-schedule', { jobId });
+  return result.success || false;
+}
+
+export async function queryDaemonUsage(query: UsageQuery): Promise<Partial<UsageQueryResult> & { budgets?: UsageBudgetStatus[]; error?: string }> {
+  return await daemonPost('/usage', query);
+}
+
+export async function addDaemonBudget(budget: NewUsageBudget): Promise<{ success?: boolean; budget?: UsageBudget; error?: string }> {
+  return await daemonPost('/add-budget', budget);
+}
+
+export async function removeDaemonBudget(budgetId: string): Promise<boolean> {
+  const result = await daemonPost('/remove-budget', { budgetId });
+  return result.success || false;
+}
+
 export async function stopDaemonHttp(): Promise<void> {
   await daemonPost('/stop');
 }
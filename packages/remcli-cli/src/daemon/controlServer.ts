@@ -10,19 +10,28 @@ import { logger } from '@/ui/logger';
 import { Metadata } from '@/api/types';
 import { TrackedSession } from './types';
 import { SpawnSessionOptions, SpawnSessionResult } from '@/modules/common/registerCommonHandlers';
+import { P2PDeviceRegistry } from './p2p/p2pDevices';
+import { DaemonScheduler, NewScheduledJobSchema, ScheduledJobSchema } from './scheduler';
+import { NewUsageBudgetSchema, USAGE_GROUP_BY, UsageBudgetSchema, UsageLedger } from './usageLedger';
 
 export function startDaemonControlServer({
   getChildren,
   stopSession,
   spawnSession,
   requestShutdown,
-  onRemcliSessionWebhook
+  onRemcliSessionWebhook,
+  devices,
+  scheduler,
+  usage
 }: {
   getChildren: () => TrackedSession[];
   stopSession: (sessionId: string) => boolean;
   spawnSession: (options: SpawnSessionOptions) => Promise<SpawnSessionResult>;
   requestShutdown: () => void;
   onRemcliSessionWebhook: (sessionId: string, metadata: Metadata) => void;
+  devices: P2PDeviceRegistry;
+  scheduler: DaemonScheduler;
+  usage: UsageLedger;
 }): Promise<{ port: number; stop: () => Promise<void> }> {
   return new Promise((resolve) => {
     const app = fastify({
@@ -168,6 +177,163 @@ export function startDaemonControlServer({
       }
     });
 
+    // List paired P2P devices
+    typed.post('/list-devices', {
+      schema: {
+        response: {
+          200: z.object({
+            devices: z.array(z.object({
+              id: z.string(),
+              name: z.string(),
+              platform: z.string().nullable(),
+              createdAt: z.number(),
+              lastSeenAt: z.number()
+            }))
+          })
+        }
+      }
+    }, async () => {
+      return { devices: devices.list() };
+    });
+
+    // Revoke a paired P2P device (drops its live connections)
+    typed.post('/revoke-device', {
+      schema: {
+        body: z.object({
+          deviceId: z.string()
+        }),
+        response: {
+          200: z.object({
+            success: z.boolean()
+          })
+        }
+      }
+    }, async (request) => {
+      const { deviceId } = request.body;
+
+      logger.debug(`[CONTROL SERVER] Revoke device request: ${deviceId}`);
+      return { success: devices.revoke(deviceId) };
+    });
+
+    // Mint a pairing code for a fresh QR code
+    typed.post('/pairing-code', {
+      schema: {
+        response: {
+          200: z.object({
+            code: z.string()
+          })
+        }
+      }
+    }, async () => {
+      return { code: devices.createPairingCode() };
+    });
+
+    // List scheduled sessions with their recent runs
+    typed.post('/list-schedules', {
+      schema: {
+        response: {
+          200: z.object({
+            jobs: z.array(ScheduledJobSchema)
+          })
+        }
+      }
+    }, async () => {
+      return { jobs: scheduler.list() };
+    });
+
+    // Add a scheduled session
+    typed.post('/add-schedule', {
+      schema: {
+        body: NewScheduledJobSchema,
+        response: {
+          200: z.object({
+            success: z.boolean(),
+            job: ScheduledJobSchema.optional(),
+            error: z.string().optional()
+          })
+        }
+      }
+    }, async (request) => {
+      logger.debug(`[CONTROL SERVER] Add schedule request: ${request.body.name} (${request.body.cron})`);
+      try {
+        return { success: true, job: scheduler.add(request.body) };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // Remove a scheduled session
+    typed.post('/remove-schedule', {
+      schema: {
+        body: z.object({
+          jobId: z.string()
+        }),
+        response: {
+          200: z.object({
+            success: z.boolean()
+          })
+        }
+      }
+    }, async (request) => {
+      logger.debug(`[CONTROL SERVER] Remove schedule request: ${request.body.jobId}`);
+      return { success: scheduler.remove(request.body.jobId) };
+    });
+
+    // Recorded usage, grouped and filtered like GET /v1/usage
+    typed.post('/usage', {
+      schema: {
+        body: z.object({
+          since: z.string().optional(),
+          until: z.string().optional(),
+          groupBy: z.array(z.enum(USAGE_GROUP_BY)).optional(),
+          project: z.string().optional(),
+          agent: z.string().optional(),
+          model: z.string().optional(),
+          sessionId: z.string().optional()
+        })
+      }
+    }, async (request) => {
+      return { ...usage.query(request.body), budgets: usage.listBudgets() };
+    });
+
+    // Add a usage budget
+    typed.post('/add-budget', {
+      schema: {
+        body: NewUsageBudgetSchema,
+        response: {
+          200: z.object({
+            success: z.boolean(),
+            budget: UsageBudgetSchema.optional(),
+            error: z.string().optional()
+          })
+        }
+      }
+    }, async (request) => {
+      logger.debug(`[CONTROL SERVER] Add budget request: $${request.body.limitUsd} per ${request.body.period}`);
+      try {
+        return { success: true, budget: usage.addBudget(request.body) };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // Remove a usage budget
+    typed.post('/remove-budget', {
+      schema: {
+        body: z.object({
+          budgetId: z.string()
+        }),
+        response: {
+          200: z.object({
+            success: z.boolean()
+          })
+        }
+      }
+    }, async (request) => {
+      logger.debug(`[CONTROL SERVER] Remove budget request: ${request.body.budgetId}`);
+      return { success: usage.removeBudget(request.body.budgetId) };
+    });
+
     // Stop daemon
     typed.post('/stop', {
       schema: {
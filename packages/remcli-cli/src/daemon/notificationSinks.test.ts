@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer as createHttpServer, IncomingHttpHeaders, Server as HttpServer } from 'node:http';
+import { createServer as createNetServer, Server as NetServer, AddressInfo } from 'node:net';
+import { deliverToSink, dispatchSinkEvent, NotificationSink, parseNotificationSinks, signWebhookBody, sinkAccepts, SinkEvent } from './notificationSinks';
+
+vi.mock('@/ui/logger', () => ({
+    logger: {
+        debug: vi.fn(),
+        warn: vi.fn()
+    }
+}));
+
+const event: SinkEvent = {
+    type: 'permission-request',
+    sessionId: 'session-1',
+    path: '/work/api',
+    title: 'Permission needed: Bash',
+    body: 'api is waiting for approval',
+    tool: 'Bash',
+    time: 1_700_000_000_000
+};
+
+interface ReceivedRequest {
+    url: string;
+    headers: IncomingHttpHeaders;
+    body: string;
+}
+
+/** Local HTTP stand-in that records every request */
+function startHttpStandIn(): Promise<{ server: HttpServer; url: string; requests: ReceivedRequest[] }> {
+    const requests: ReceivedRequest[] = [];
+    const server = createHttpServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => { body += chunk; });
+        req.on('end', () => {
+            requests.push({ url: req.url!, headers: req.headers, body });
+            res.end('ok');
+        });
+    });
+    return new Promise((resolve) => {
+        server.listen(0, '127.0.0.1', () => {
+            resolve({ server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests });
+        });
+    });
+}
+
+/** Local SMTP stand-in: accepts one message per connection and records the dialogue */
+function startSmtpStandIn(): Promise<{ server: NetServer; port: number; commands: string[]; messages: string[] }> {
+    const commands: string[] = [];
+    const messages: string[] = [];
+    const server = createNetServer((socket) => {
+        let buffer = '';
+        let inData = false;
+        socket.write('220 stand-in ESMTP\r\n');
+        socket.on('data', (chunk) => {
+            buffer += chunk.toString('utf8');
+            while (true) {
+                if (inData) {
+                    const end = buffer.indexOf('\r\n.\r\n');
+                    if (end === -1) return;
+                    messages.push(buffer.slice(0, end));
+                    buffer = buffer.slice(end + 5);
+                    inData = false;
+                    socket.write('250 queued\r\n');
+                    continue;
+                }
+                const end = buffer.indexOf('\r\n');
+                if (end === -1) return;
+                const line = buffer.slice(0, end);
+                buffer = buffer.slice(end + 2);
+                commands.push(line);
+                if (line.startsWith('EHLO')) {
+                    socket.write('250-stand-in\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n');
+                } else if (line.startsWith('AUTH')) {
+                    socket.write('235 authenticated\r\n');
+                } else if (line === 'DATA') {
+                    inData = true;
+                    socket.write('354 go ahead\r\n');
+                } else if (line === 'QUIT') {
+                    socket.end('221 bye\r\n');
+                } else {
+                    socket.write('250 ok\r\n');
+                }
+            }
+        });
+    });
+    return new Promise((resolve) => {
+        server.listen(0, '127.0.0.1', () => {
+            resolve({ server, port: (server.address() as AddressInfo).port, commands, messages });
+        });
+    });
+}
+
+describe('notification sinks', () => {
+    let http: Awaited<ReturnType<typeof startHttpStandIn>>;
+
+    beforeEach(async () => {
+        http = await startHttpStandIn();
+    });
+
+    afterEach(async () => {
+        await new Promise((resolve) => http.server.close(resolve));
+    });
+
+    it('posts signed JSON to webhooks', async () => {
+        await dispatchSinkEvent([{ type: 'webhook', url: `${http.url}/hook`, secret: 's3cret' }], event);
+
+        expect(http.requests).toHaveLength(1);
+        const [request] = http.requests;
+        expect(request.url).toBe('/hook');
+        expect(request.headers['x-remcli-event']).toBe('permission-request');
+        expect(request.headers['x-remcli-signature']).toBe(signWebhookBody('s3cret', request.body));
+        expect(JSON.parse(request.body)).toMatchObject({
+            type: 'permission-request',
+            sessionId: 'session-1',
+            tool: 'Bash',
+            text: 'Permission needed: Bash: api is waiting for approval'
+        });
+    });
+
+    it('posts to ntfy topics with title and priority headers', async () => {
+        await dispatchSinkEvent([{ type: 'ntfy', url: `${http.url}/remcli`, token: 'tk' }], { ...event, title: 'Permission nötig' });
+
+        const [request] = http.requests;
+        expect(request.url).toBe('/remcli');
+        expect(request.body).toBe('api is waiting for approval');
+        expect(request.headers['title']).toBe(`=?UTF-8?B?${Buffer.from('Permission nötig').toString('base64')}?=`);
+        expect(request.headers['priority']).toBe('high');
+        expect(request.headers['authorization']).toBe('Bearer tk');
+    });
+
+    it('filters by event type and session path', async () => {
+        const sinks: NotificationSink[] = [
+            { type: 'webhook', url: `${http.url}/ends`, events: ['session-end'] },
+            { type: 'webhook', url: `${http.url}/work`, paths: ['/work'] },
+            { type: 'webhook', url: `${http.url}/other`, paths: ['/work/api-v2'] },
+            { type: 'webhook', url: `${http.url}/off`, enabled: false }
+        ];
+        await dispatchSinkEvent(sinks, event);
+
+        expect(http.requests.map((r) => r.url)).toEqual(['/work']);
+        expect(sinkAccepts(sinks[1], { ...event, path: null })).toBe(false);
+        expect(sinkAccepts(sinks[0], { ...event, type: 'session-end' })).toBe(true);
+    });
+
+    it('sends email through SMTP', async () => {
+        const smtp = await startSmtpStandIn();
+        try {
+            await dispatchSinkEvent([{
+                type: 'smtp',
+                host: '127.0.0.1',
+                port: smtp.port,
+                username: 'me',
+                password: 'pw',
+                allowInsecureAuth: true,
+                from: 'remcli@example.com',
+                to: ['a@example.com', 'b@example.com']
+            }], { ...event, body: 'line one\n.hidden dot' });
+
+            expect(smtp.commands).toEqual([
+                expect.stringMatching(/^EHLO /),
+                `AUTH PLAIN ${Buffer.from('\0me\0pw').toString('base64')}`,
+                'MAIL FROM:<remcli@example.com>',
+                'RCPT TO:<a@example.com>',
+                'RCPT TO:<b@example.com>',
+                'DATA',
+                'QUIT'
+            ]);
+            expect(smtp.messages).toHaveLength(1);
+            expect(smtp.messages[0]).toContain('Subject: [Remcli] Permission needed: Bash');
+            expect(smtp.messages[0]).toContain('To: a@example.com, b@example.com');
+            expect(smtp.messages[0]).toContain('line one\r\n..hidden dot');
+        } finally {
+            await new Promise((resolve) => smtp.server.close(resolve));
+        }
+    });
+
+    it('refuses to send SMTP credentials without TLS', async () => {
+        const smtp = await startSmtpStandIn();
+        try {
+            await expect(deliverToSink({
+                type: 'smtp',
+                host: '127.0.0.1',
+                port: smtp.port,
+                username: 'me',
+                password: 'pw',
+                from: 'remcli@example.com',
+                to: ['a@example.com']
+            }, event)).rejects.toThrow('refusing to send the password in plaintext');
+
+            expect(smtp.commands).toEqual([expect.stringMatching(/^EHLO /)]);
+            expect(smtp.messages).toEqual([]);
+        } finally {
+            await new Promise((resolve) => smtp.server.close(resolve));
+        }
+    });
+
+    it('skips invalid sink settings', () => {
+        const sinks = parseNotificationSinks([
+            { type: 'ntfy', url: 'https://ntfy.sh/topic' },
+            { type: 'webhook' },
+            { type: 'pager', url: 'https://example.com' }
+        ]);
+        expect(sinks).toEqual([{ type: 'ntfy', url: 'https://ntfy.sh/topic' }]);
+    });
+});
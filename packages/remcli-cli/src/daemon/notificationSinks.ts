@@ -0,0 +1,385 @@
+/**
+ * Outbound notification sinks
+ *
+ * The app only hears about permission requests and finished sessions while it is
+ * connected. Sinks configured under `notificationSinks` in ~/.remcli/settings.json
+ * forward the same events to services that reach a phone or a team channel:
+ * - webhook: JSON POST, signed with HMAC-SHA256 when a secret is set
+ * - ntfy: POST to an ntfy-compatible topic URL
+ * - smtp: plain-text email through an SMTP server
+ *
+ * Every sink can be limited to some event types and to sessions under some paths.
+ * Settings are read on each event, so edits apply without restarting the daemon.
+ * Delivery is best effort: failures are logged and never block the daemon.
+ */
+
+import { createHmac } from 'node:crypto';
+import { hostname, homedir } from 'node:os';
+import { basename, resolve } from 'node:path';
+import * as net from 'node:net';
+import * as tls from 'node:tls';
+import axios from 'axios';
+import * as z from 'zod';
+import { logger } from '@/ui/logger';
+import { readSettings } from '@/persistence';
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export const SINK_EVENT_TYPES = ['permission-request', 'turn-finished', 'session-end', 'session-crashed', 'message'] as const;
+
+export type SinkEventType = typeof SINK_EVENT_TYPES[number];
+
+export interface SinkEvent {
+    type: SinkEventType;
+    sessionId: string | null;
+    path: string | null;      // Session working directory, when the daemon knows it
+    title: string;
+    body: string;
+    tool: string | null;
+    time: number;
+}
+
+const SinkFilterSchema = z.object({
+    name: z.string().optional(),
+    events: z.array(z.enum(SINK_EVENT_TYPES)).optional(),   // All events when omitted
+    paths: z.array(z.string()).optional(),                 // Session directories (and below); all sessions when omitted
+    enabled: z.boolean().optional()
+});
+
+export const NotificationSinkSchema = z.discriminatedUnion('type', [
+    SinkFilterSchema.extend({
+        type: z.literal('webhook'),
+        url: z.string().url(),
+        secret: z.string().optional(),
+        headers: z.record(z.string(), z.string()).optional()
+    }),
+    SinkFilterSchema.extend({
+        type: z.literal('ntfy'),
+        url: z.string().url(),          // Server and topic, e.g. https://ntfy.sh/my-remcli-topic
+        token: z.string().optional()
+    }),
+    SinkFilterSchema.extend({
+        type: z.literal('smtp'),
+        host: z.string(),
+        port: z.number().int().positive().optional(),
+        secure: z.boolean().optional(),  // Implicit TLS (port 465); otherwise STARTTLS is used when offered
+        username: z.string().optional(),
+        password: z.string().optional(),
+        allowInsecureAuth: z.boolean().optional(),  // Send credentials even without TLS
+        from: z.string(),
+        to: z.array(z.string()).min(1)
+    })
+]);
+
+export type NotificationSink = z.infer<typeof NotificationSinkSchema>;
+
+/** Per-request timeout for every sink */
+const SINK_TIMEOUT_MS = 10_000;
+
+// ─── Dispatch ────────────────────────────────────────────────────
+
+/**
+ * Parse the raw `notificationSinks` setting, skipping invalid entries
+ */
+export function parseNotificationSinks(raw: unknown): NotificationSink[] {
+    if (!Array.isArray(raw)) {
+        return [];
+    }
+    const sinks: NotificationSink[] = [];
+    for (const entry of raw) {
+        const parsed = NotificationSinkSchema.safeParse(entry);
+        if (parsed.success) {
+            sinks.push(parsed.data);
+        } else {
+            logger.warn(`⚠️ Invalid notification sink "${entry?.name || entry?.type || 'unknown'}" - skipping. Error: ${parsed.error.message}`);
+        }
+    }
+    return sinks;
+}
+
+export function sinkAccepts(sink: NotificationSink, event: SinkEvent): boolean {
+    if (sink.enabled === false) {
+        return false;
+    }
+    if (sink.events && !sink.events.includes(event.type)) {
+        return false;
+    }
+    if (sink.paths && sink.paths.length > 0) {
+        if (!event.path) {
+            return false;
+        }
+        const sessionPath = resolve(event.path);
+        return sink.paths.some((path) => {
+            const prefix = resolve(path.replace(/^~(?=$|\/)/, homedir()));
+            return sessionPath === prefix || sessionPath.startsWith(prefix + '/');
+        });
+    }
+    return true;
+}
+
+/**
+ * Describe a daemon event and deliver it to the sinks currently in settings.json. Never throws.
+ */
+export async function notifySinks(input: Pick<SinkEvent, 'type' | 'sessionId' | 'path' | 'tool'> & { title?: string | null; body?: string | null }): Promise<void> {
+    try {
+        const sinks = parseNotificationSinks((await readSettings()).notificationSinks);
+        if (sinks.length === 0) {
+            return;
+        }
+        await dispatchSinkEvent(sinks, {
+            type: input.type,
+            sessionId: input.sessionId,
+            path: input.path,
+            tool: input.tool,
+            ...describeSinkEvent(input),
+            time: Date.now()
+        });
+    } catch (error) {
+        logger.debug('[SINKS] Failed to dispatch event:', error);
+    }
+}
+
+/**
+ * Deliver an event to every sink that accepts it. Never throws.
+ */
+export async function dispatchSinkEvent(sinks: NotificationSink[], event: SinkEvent): Promise<void> {
+    await Promise.all(sinks.filter((sink) => sinkAccepts(sink, event)).map(async (sink) => {
+        const label = sink.name || sink.type;
+        try {
+            await deliverToSink(sink, event);
+            logger.debug(`[SINKS] Delivered ${event.type} to ${label}`);
+        } catch (error) {
+            logger.debug(`[SINKS] Failed to deliver ${event.type} to ${label}:`, error);
+        }
+    }));
+}
+
+export async function deliverToSink(sink: NotificationSink, event: SinkEvent): Promise<void> {
+    switch (sink.type) {
+        case 'webhook':
+            return sendWebhook(sink, event);
+        case 'ntfy':
+            return sendNtfy(sink, event);
+        case 'smtp':
+            return sendEmail(sink, event);
+    }
+}
+
+/**
+ * Short human-readable text for an event, used by every sink
+ */
+export function describeSinkEvent(event: Pick<SinkEvent, 'type' | 'sessionId' | 'path' | 'tool'> & { title?: string | null; body?: string | null }): { title: string; body: string } {
+    const session = event.path ? basename(event.path) : event.sessionId ?? 'a session';
+    switch (event.type) {
+        case 'permission-request':
+            return { title: `Permission needed: ${event.tool ?? 'tool'}`, body: `${session} is waiting for approval` };
+        case 'turn-finished':
+            return { title: 'Turn finished', body: `${session} is ready for the next message` };
+        case 'session-end':
+            return { title: 'Session ended', body: `${session} has ended` };
+        case 'session-crashed':
+            return { title: 'Session crashed', body: `${session} stopped unexpectedly` };
+        case 'message':
+            return { title: event.title || 'Remcli', body: event.body ?? '' };
+    }
+}
+
+// ─── Webhook ─────────────────────────────────────────────────────
+
+/**
+ * HMAC-SHA256 of the raw request body, sent as `X-Remcli-Signature: sha256=<hex>`
+ */
+export function signWebhookBody(secret: string, body: string): string {
+    return 'sha256=' + createHmac('sha256', secret).update(body).digest('hex');
+}
+
+async function sendWebhook(sink: Extract<NotificationSink, { type: 'webhook' }>, event: SinkEvent): Promise<void> {
+    const body = JSON.stringify({
+        ...event,
+        host: hostname(),
+        // Lets Slack-style incoming webhooks render the event without a custom format
+        text: `${event.title}: ${event.body}`
+    });
+    await axios.post(sink.url, body, {
+        timeout: SINK_TIMEOUT_MS,
+        headers: {
+            ...sink.headers,
+            'Content-Type': 'application/json',
+            'X-Remcli-Event': event.type,
+            ...(sink.secret ? { 'X-Remcli-Signature': signWebhookBody(sink.secret, body) } : {})
+        }
+    });
+}
+
+// ─── ntfy ────────────────────────────────────────────────────────
+
+async function sendNtfy(sink: Extract<NotificationSink, { type: 'ntfy' }>, event: SinkEvent): Promise<void> {
+    await axios.post(sink.url, event.body, {
+        timeout: SINK_TIMEOUT_MS,
+        headers: {
+            'Content-Type': 'text/plain; charset=utf-8',
+            // HTTP headers are Latin-1; ntfy decodes RFC 2047 encoded titles
+            'Title': encodeHeaderWord(event.title),
+            'Tags': event.type,
+            'Priority': event.type === 'permission-request' || event.type === 'session-crashed' ? 'high' : 'default',
+            ...(sink.token ? { 'Authorization': `Bearer ${sink.token}` } : {})
+        }
+    });
+}
+
+// ─── SMTP ────────────────────────────────────────────────────────
+
+async function sendEmail(sink: Extract<NotificationSink, { type: 'smtp' }>, event: SinkEvent): Promise<void> {
+    const port = sink.port ?? (sink.secure ? 465 : 587);
+    const socket = sink.secure
+        ? tls.connect({ host: sink.host, port, servername: sink.host })
+        : net.connect({ host: sink.host, port });
+    const client = new SmtpClient(socket);
+
+    try {
+        await client.expect(220);
+        let features = await client.command(`EHLO ${hostname()}`, 250);
+        let encrypted = !!sink.secure;
+        if (!sink.secure && /^STARTTLS$/im.test(features)) {
+            await client.command('STARTTLS', 220);
+            client.upgrade(sink.host);
+            encrypted = true;
+            features = await client.command(`EHLO ${hostname()}`, 250);
+        }
+        if (sink.username) {
+            if (!encrypted && !sink.allowInsecureAuth) {
+                throw new Error(`SMTP server ${sink.host} offers no TLS; refusing to send the password in plaintext (set secure, or allowInsecureAuth to override)`);
+            }
+            const credentials = Buffer.from(`\0${sink.username}\0${sink.password ?? ''}`).toString('base64');
+            await client.command(`AUTH PLAIN ${credentials}`, 235);
+        }
+        await client.command(`MAIL FROM:<${sink.from}>`, 250);
+        for (const recipient of sink.to) {
+            await client.command(`RCPT TO:<${recipient}>`, 250, 251);
+        }
+        await client.command('DATA', 354);
+        await client.command(buildEmail(sink, event) + '\r\n.', 250);
+        await client.command('QUIT', 221).catch(() => { });
+    } finally {
+        client.close();
+    }
+}
+
+function buildEmail(sink: Extract<NotificationSink, { type: 'smtp' }>, event: SinkEvent): string {
+    const headers = [
+        `From: ${sink.from}`,
+        `To: ${sink.to.join(', ')}`,
+        `Subject: ${encodeHeaderWord(`[Remcli] ${event.title}`)}`,
+        `Date: ${new Date(event.time).toUTCString()}`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: 8bit',
+        `X-Remcli-Event: ${event.type}`
+    ];
+    const lines = [event.body];
+    if (event.path) lines.push('', `Directory: ${event.path}`);
+    if (event.sessionId) lines.push(`Session: ${event.sessionId}`);
+    lines.push(`Host: ${hostname()}`);
+
+    // Dot-stuffing: a line starting with "." would otherwise end the DATA section early
+    const text = lines.join('\r\n').replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    return headers.join('\r\n') + '\r\n\r\n' + text;
+}
+
+function encodeHeaderWord(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+/**
+ * Just enough of an SMTP client to submit one message: reads multi-line replies
+ * and checks their codes. Connection errors and timeouts reject the pending read.
+ */
+class SmtpClient {
+    private socket: net.Socket;
+    private buffer = '';
+    private error: Error | null = null;
+    private wake: (() => void) | null = null;
+
+    constructor(socket: net.Socket) {
+        this.socket = socket;
+        this.attach(socket);
+    }
+
+    async expect(...codes: number[]): Promise<string> {
+        const reply = await this.read();
+        if (!codes.includes(reply.code)) {
+            throw new Error(`SMTP error: ${reply.code} ${reply.text}`);
+        }
+        return reply.text;
+    }
+
+    async command(line: string, ...codes: number[]): Promise<string> {
+        this.socket.write(line + '\r\n');
+        return this.expect(...codes);
+    }
+
+    upgrade(servername: string): void {
+        this.socket.removeAllListeners('data');
+        this.socket = tls.connect({ socket: this.socket, servername });
+        this.attach(this.socket);
+    }
+
+    close(): void {
+        this.socket.destroy();
+    }
+
+    private attach(socket: net.Socket): void {
+        // No setEncoding: the raw socket may be handed to TLS by STARTTLS
+        socket.setTimeout(SINK_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+        socket.on('data', (chunk: Buffer) => {
+            this.buffer += chunk.toString('utf8');
+            this.notify();
+        });
+        socket.on('error', (error) => {
+            this.error = error;
+            this.notify();
+        });
+        socket.on('close', () => {
+            this.error ??= new Error('SMTP connection closed');
+            this.notify();
+        });
+    }
+
+    private notify(): void {
+        const wake = this.wake;
+        this.wake = null;
+        wake?.();
+    }
+
+    private async read(): Promise<{ code: number; text: string }> {
+        while (true) {
+            const reply = this.takeReply();
+            if (reply) {
+                return reply;
+            }
+            if (this.error) {
+                throw this.error;
+            }
+            await new Promise<void>((resolve) => { this.wake = resolve; });
+        }
+    }
+
+    /** Pop one complete reply ("250-a", "250-b", "250 c") off the buffer */
+    private takeReply(): { code: number; text: string } | null {
+        const lines: string[] = [];
+        let offset = 0;
+        while (true) {
+            const end = this.buffer.indexOf('\r\n', offset);
+            if (end === -1) {
+                return null;
+            }
+            const line = this.buffer.slice(offset, end);
+            offset = end + 2;
+            lines.push(line.slice(4));
+            if (line[3] !== '-') {
+                this.buffer = this.buffer.slice(offset);
+                return { code: parseInt(line.slice(0, 3), 10), text: lines.join('\n') };
+            }
+        }
+    }
+}
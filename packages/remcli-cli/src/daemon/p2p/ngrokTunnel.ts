@@ -0,0 +1,164 @@
+/**
+ * Ngrok tunnel provider
+ *
+ * Spawns `ngrok http <port>` with JSON logs on stdout and reads the public
+ * URL from its "started tunnel" log line, so several ngrok agents can run
+ * side by side without fighting over the local API port.
+ *
+ * Prerequisites: ngrok must be installed and authenticated.
+ */
+
+import { execSync, spawn, ChildProcess } from 'node:child_process';
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { configuration } from '@/configuration';
+import { logger } from '@/ui/logger';
+import type { TunnelInfo, TunnelProvider } from './tunnel';
+
+const START_TIMEOUT_MS = 15_000;
+
+/**
+ * Check if ngrok is available on the system
+ */
+export function isNgrokAvailable(): boolean {
+    try {
+        execSync('which ngrok', { stdio: 'pipe' });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function pidFile(): string {
+    return join(configuration.remcliHomeDir, 'ngrok.pid');
+}
+
+/**
+ * Stop the ngrok agent a previous daemon started and did not get to clean up.
+ * Only the recorded PID is touched, and only if it still is an ngrok process.
+ */
+function stopLeftoverNgrok(): void {
+    if (!existsSync(pidFile())) {
+        return;
+    }
+    try {
+        const pid = parseInt(readFileSync(pidFile(), 'utf-8').trim(), 10);
+        const command = execSync(`ps -p ${pid} -o comm=`, { stdio: 'pipe' }).toString().trim();
+        if (command.endsWith('ngrok')) {
+            process.kill(pid);
+            logger.debug(`[TUNNEL] Stopped leftover ngrok process ${pid}`);
+        }
+    } catch {
+        // Process is gone — that's fine
+    }
+    try {
+        unlinkSync(pidFile());
+    } catch {
+        // Already removed
+    }
+}
+
+/**
+ * Start an ngrok tunnel for the given local port.
+ *
+ * Returns null if ngrok is not installed or fails to start.
+ */
+async function startNgrokTunnel(localPort: number): Promise<TunnelInfo | null> {
+    if (!isNgrokAvailable()) {
+        console.log('  ngrok is not installed. Install it from https://ngrok.com/download');
+        console.log('  Then authenticate: ngrok config add-authtoken <your-token>');
+        return null;
+    }
+
+    stopLeftoverNgrok();
+
+    logger.debug(`[TUNNEL] Starting ngrok tunnel for port ${localPort}`);
+
+    const ngrokProcess: ChildProcess = spawn('ngrok', ['http', String(localPort), '--log', 'stdout', '--log-format', 'json'], {
+        stdio: ['ignore', 'pipe', 'pipe'],
+        detached: true
+    });
+    if (ngrokProcess.pid) {
+        writeFileSync(pidFile(), String(ngrokProcess.pid));
+    }
+
+    let exited = false;
+    let started = false;
+    let stderrOutput = '';
+    ngrokProcess.stderr?.on('data', (data) => {
+        stderrOutput += data.toString();
+    });
+
+    const tunnelUrl = await new Promise<string | null>((resolve) => {
+        const timeout = setTimeout(() => {
+            logger.debug('[TUNNEL] Timed out waiting for ngrok to start a tunnel');
+            resolve(null);
+        }, START_TIMEOUT_MS);
+
+        let buffered = '';
+        ngrokProcess.stdout?.on('data', (data) => {
+            buffered += data.toString();
+            const lines = buffered.split('\n');
+            buffered = lines.pop() ?? '';
+            for (const line of lines) {
+                try {
+                    const entry = JSON.parse(line);
+                    if (entry.lvl === 'eror' || entry.lvl === 'crit') {
+                        logger.debug(`[TUNNEL] ngrok: ${entry.err || entry.msg}`);
+                    }
+                    if (entry.msg === 'started tunnel' && typeof entry.url === 'string') {
+                        clearTimeout(timeout);
+                        started = true;
+                        resolve(entry.url);
+                        return;
+                    }
+                } catch {
+                    // Not a JSON log line
+                }
+            }
+        });
+
+        ngrokProcess.on('exit', (code) => {
+            exited = true;
+            clearTimeout(timeout);
+            const reason = stderrOutput.trim() || `exit code ${code}`;
+            logger.debug(`[TUNNEL] ngrok exited: ${reason}`);
+            if (!started) {
+                console.log(`  ngrok failed: ${reason}`);
+                resolve(null);
+            }
+        });
+
+        ngrokProcess.on('error', (error) => {
+            exited = true;
+            clearTimeout(timeout);
+            logger.debug(`[TUNNEL] ngrok error: ${error.message}`);
+            resolve(null);
+        });
+    });
+
+    const stop = () => {
+        try {
+            if (!exited) {
+                ngrokProcess.kill();
+                logger.debug('[TUNNEL] ngrok process killed');
+            }
+            unlinkSync(pidFile());
+        } catch (error) {
+            logger.debug('[TUNNEL] Error stopping ngrok:', error);
+        }
+    };
+
+    if (!tunnelUrl) {
+        stop();
+        return null;
+    }
+
+    logger.debug(`[TUNNEL] Tunnel established: ${tunnelUrl}`);
+    return { url: tunnelUrl, stop };
+}
+
+export const ngrokTunnelProvider: TunnelProvider = {
+    name: 'ngrok',
+    start: startNgrokTunnel,
+};
@@ -2,13 +2,18 @@
  * P2P authentication using shared secret
  * No accounts, no user IDs — the shared secret IS the identity
  * QR code scan proves physical proximity and establishes trust
+ *
+ * The token derived from the shared secret is only good for pairing: each paired
+ * device gets its own token (see p2pDevices.ts), and local processes spawned by
+ * the daemon use a separate local token that never leaves this machine.
  */
 
-import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
 import { encodeBase64, decodeBase64 } from '@/api/encryption';
 
 const P2P_AUTH_CONTEXT = 'p2p-auth';
 const SHARED_SECRET_SIZE = 32;
+const TOKEN_SIZE = 32;
 
 /**
  * Generate a new random shared secret (32 bytes)
@@ -34,7 +39,27 @@ export function deriveBearerToken(sharedSecret: Uint8Array): string {
  * Uses timing-safe comparison to prevent timing attacks
  */
 export function verifyBearerToken(token: string, sharedSecret: Uint8Array): boolean {
-    const expected = deriveBearerToken(sharedSecret);
+    return tokensEqual(token, deriveBearerToken(sharedSecret));
+}
+
+/**
+ * Generate a random opaque token (hex) for a paired device or for local processes
+ */
+export function generateToken(): string {
+    return randomBytes(TOKEN_SIZE).toString('hex');
+}
+
+/**
+ * Hash a token for storage, so the devices file never holds usable credentials
+ */
+export function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Timing-safe string comparison
+ */
+export function tokensEqual(token: string, expected: string): boolean {
     if (token.length !== expected.length) return false;
 
     try {
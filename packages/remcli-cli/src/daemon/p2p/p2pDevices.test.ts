@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { P2PDeviceRegistry } from './p2pDevices';
+
+describe('P2PDeviceRegistry', () => {
+    let dataDir: string;
+
+    beforeEach(() => {
+        dataDir = join(tmpdir(), `p2p-devices-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+        mkdirSync(dataDir, { recursive: true });
+    });
+
+    afterEach(() => {
+        rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('pairs a device once per code and authenticates its token', () => {
+        const registry = new P2PDeviceRegistry({ dataDir, localToken: 'local' });
+        const code = registry.createPairingCode();
+
+        const paired = registry.pair(code, 'Pixel', 'android');
+        expect(paired).not.toBeNull();
+        expect(registry.pair(code, 'Other', null)).toBeNull();
+
+        const auth = registry.authenticate(paired!.token);
+        expect(auth).toMatchObject({ type: 'device', device: { id: paired!.device.id, name: 'Pixel' } });
+        expect(registry.authenticate('local')).toEqual({ type: 'local' });
+        expect(registry.authenticate('nope')).toBeNull();
+    });
+
+    it('rejects expired pairing codes', () => {
+        const registry = new P2PDeviceRegistry({ localToken: 'local', pairingCodeTtlMs: -1 });
+        expect(registry.pair(registry.createPairingCode(), 'Pixel', null)).toBeNull();
+    });
+
+    it('persists devices with hashed tokens and forgets revoked ones', () => {
+        const registry = new P2PDeviceRegistry({ dataDir, localToken: 'local' });
+        const phone = registry.pair(registry.createPairingCode(), 'Phone', 'ios')!;
+        const laptop = registry.pair(registry.createPairingCode(), 'Laptop', 'web')!;
+        expect(readFileSync(join(dataDir, 'devices.json'), 'utf-8')).not.toContain(phone.token);
+
+        const revoked: string[] = [];
+        registry.onRevoked((id) => revoked.push(id));
+        expect(registry.revoke(phone.device.id)).toBe(true);
+        expect(revoked).toEqual([phone.device.id]);
+
+        const reloaded = new P2PDeviceRegistry({ dataDir, localToken: 'local' });
+        expect(reloaded.list().map(d => d.name)).toEqual(['Laptop']);
+        expect(reloaded.authenticate(phone.token)).toBeNull();
+        expect(reloaded.authenticate(laptop.token)?.type).toBe('device');
+    });
+});
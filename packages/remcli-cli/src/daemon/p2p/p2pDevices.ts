@@ -0,0 +1,209 @@
+/**
+ * P2P device registry
+ * Every app that accepts the QR code gets its own bearer token, so a lost phone
+ * can be revoked without rotating the shared secret for everyone else.
+ *
+ * - Pairing codes are minted whenever a QR code is shown; they are single-use
+ *   and expire, so an old screenshot of the QR cannot pair a new device
+ * - Device tokens are stored hashed in devices.json (mode 0600)
+ * - The local token authenticates processes spawned by the daemon itself
+ */
+
+import { randomBytes, randomUUID } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { logger } from '@/ui/logger';
+import { generateToken, hashToken, tokensEqual } from './p2pAuth';
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export interface P2PDevice {
+    id: string;
+    name: string;
+    platform: string | null;
+    createdAt: number;
+    lastSeenAt: number;
+}
+
+interface StoredDevice extends P2PDevice {
+    tokenHash: string;
+}
+
+export type P2PAuthResult =
+    | { type: 'local' }
+    | { type: 'device'; device: P2PDevice };
+
+export interface P2PDeviceRegistryOptions {
+    dataDir?: string;             // Persist to this directory; omit for a memory-only registry
+    localToken: string;           // Token for processes spawned by the daemon
+    pairingCodeTtlMs?: number;    // Default 10 minutes
+}
+
+const DEVICES_FILE = 'devices.json';
+const LAST_SEEN_PERSIST_INTERVAL_MS = 60_000;
+
+// ─── Registry ────────────────────────────────────────────────────
+
+export class P2PDeviceRegistry {
+    private devices = new Map<string, StoredDevice>();
+    private pairingCodes = new Map<string, number>();  // code -> expiresAt
+    private revokedListeners = new Set<(deviceId: string) => void>();
+    private lastPersistedSeen = new Map<string, number>();
+
+    private readonly dataDir: string | null;
+    private readonly localToken: string;
+    private readonly pairingCodeTtlMs: number;
+
+    constructor(options: P2PDeviceRegistryOptions) {
+        this.dataDir = options.dataDir ?? null;
+        this.localToken = options.localToken;
+        this.pairingCodeTtlMs = options.pairingCodeTtlMs ?? 10 * 60_000;
+
+        if (this.dataDir) {
+            mkdirSync(this.dataDir, { recursive: true, mode: 0o700 });
+            this.load();
+        }
+    }
+
+    // ─── Persistence ─────────────────────────────────────────────
+
+    private load(): void {
+        const path = join(this.dataDir!, DEVICES_FILE);
+        if (!existsSync(path)) return;
+
+        try {
+            const raw = JSON.parse(readFileSync(path, 'utf-8')) as { devices?: StoredDevice[] };
+            for (const device of raw.devices ?? []) {
+                this.devices.set(device.id, device);
+                this.lastPersistedSeen.set(device.id, device.lastSeenAt);
+            }
+            logger.debug(`[P2P DEVICES] Loaded ${this.devices.size} paired device(s)`);
+        } catch (error) {
+            logger.debug('[P2P DEVICES] Failed to read devices file, starting empty:', error);
+        }
+    }
+
+    private save(): void {
+        if (!this.dataDir) return;
+
+        const path = join(this.dataDir, DEVICES_FILE);
+        const tmpPath = `${path}.tmp`;
+        try {
+            writeFileSync(tmpPath, JSON.stringify({ devices: Array.from(this.devices.values()) }, null, 2), { mode: 0o600 });
+            renameSync(tmpPath, path);
+        } catch (error) {
+            logger.debug('[P2P DEVICES] Failed to write devices file:', error);
+        }
+    }
+
+    // ─── Pairing ─────────────────────────────────────────────────
+
+    /**
+     * Mint a pairing code to embed in a QR code
+     */
+    createPairingCode(): string {
+        const now = Date.now();
+        for (const [code, expiresAt] of this.pairingCodes) {
+            if (expiresAt <= now) this.pairingCodes.delete(code);
+        }
+
+        const code = randomBytes(16).toString('base64url');
+        this.pairingCodes.set(code, now + this.pairingCodeTtlMs);
+        return code;
+    }
+
+    /**
+     * Exchange a pairing code for a device token.
+     * Returns null if the code is unknown, already used or expired.
+     */
+    pair(code: string, name: string, platform: string | null): { device: P2PDevice; token: string } | null {
+        const expiresAt = this.pairingCodes.get(code);
+        if (expiresAt === undefined) return null;
+        this.pairingCodes.delete(code);
+        if (expiresAt <= Date.now()) return null;
+
+        const token = generateToken();
+        const now = Date.now();
+        const stored: StoredDevice = {
+            id: randomUUID(),
+            name,
+            platform,
+            createdAt: now,
+            lastSeenAt: now,
+            tokenHash: hashToken(token)
+        };
+        this.devices.set(stored.id, stored);
+        this.lastPersistedSeen.set(stored.id, now);
+        this.save();
+
+        logger.debug(`[P2P DEVICES] Paired device ${stored.id} (${name})`);
+        return { device: toDevice(stored), token };
+    }
+
+    // ─── Authentication ──────────────────────────────────────────
+
+    /**
+     * Resolve a bearer token to the local daemon processes or a paired device
+     */
+    authenticate(token: string): P2PAuthResult | null {
+        if (tokensEqual(token, this.localToken)) {
+            return { type: 'local' };
+        }
+
+        const tokenHash = hashToken(token);
+        for (const stored of this.devices.values()) {
+            if (tokensEqual(tokenHash, stored.tokenHash)) {
+                this.touch(stored);
+                return { type: 'device', device: toDevice(stored) };
+            }
+        }
+        return null;
+    }
+
+    private touch(stored: StoredDevice): void {
+        const now = Date.now();
+        stored.lastSeenAt = now;
+
+        // lastSeenAt changes on every request — only hit the disk once a minute per device
+        const persisted = this.lastPersistedSeen.get(stored.id) ?? 0;
+        if (now - persisted >= LAST_SEEN_PERSIST_INTERVAL_MS) {
+            this.lastPersistedSeen.set(stored.id, now);
+            this.save();
+        }
+    }
+
+    // ─── Management ──────────────────────────────────────────────
+
+    list(): P2PDevice[] {
+        return Array.from(this.devices.values())
+            .map(toDevice)
+            .sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+    }
+
+    revoke(deviceId: string): boolean {
+        if (!this.devices.delete(deviceId)) return false;
+        this.lastPersistedSeen.delete(deviceId);
+        this.save();
+
+        logger.debug(`[P2P DEVICES] Revoked device ${deviceId}`);
+        for (const listener of this.revokedListeners) {
+            listener(deviceId);
+        }
+        return true;
+    }
+
+    onRevoked(listener: (deviceId: string) => void): () => void {
+        this.revokedListeners.add(listener);
+        return () => this.revokedListeners.delete(listener);
+    }
+}
+
+function toDevice(stored: StoredDevice): P2PDevice {
+    return {
+        id: stored.id,
+        name: stored.name,
+        platform: stored.platform,
+        createdAt: stored.createdAt,
+        lastSeenAt: stored.lastSeenAt
+    };
+}
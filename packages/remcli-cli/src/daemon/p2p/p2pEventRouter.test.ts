@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { P2PEventRouter, UpdatePayload } from './p2pEventRouter';
+
+function update(seq: number): UpdatePayload {
+    return { id: `u${seq}`, seq, body: { t: 'test' }, createdAt: seq };
+}
+
+describe('P2PEventRouter update history', () => {
+    it('returns the updates after a seq', () => {
+        const router = new P2PEventRouter();
+        for (const seq of [1, 2, 4]) {
+            router.emitUpdate(update(seq), { type: 'user-scoped-only' });
+        }
+
+        expect(router.getUpdatesAfter(1)?.map(u => u.seq)).toEqual([2, 4]);
+        expect(router.getUpdatesAfter(4)).toEqual([]);
+    });
+
+    it('refuses to resume from before the router started', () => {
+        const router = new P2PEventRouter({ initialSeq: 10 });
+        router.emitUpdate(update(11), { type: 'user-scoped-only' });
+
+        expect(router.getUpdatesAfter(9)).toBeNull();
+        expect(router.getUpdatesAfter(10)?.map(u => u.seq)).toEqual([11]);
+    });
+
+    it('refuses to resume once the gap was evicted from the ring', () => {
+        const router = new P2PEventRouter({ historySize: 2 });
+        for (const seq of [1, 2, 3]) {
+            router.emitUpdate(update(seq), { type: 'user-scoped-only' });
+        }
+
+        expect(router.getUpdatesAfter(0)).toBeNull();
+        expect(router.getUpdatesAfter(1)?.map(u => u.seq)).toEqual([2, 3]);
+    });
+});
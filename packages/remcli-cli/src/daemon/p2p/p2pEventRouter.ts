@@ -2,6 +2,9 @@
  * P2P Event Router
  * Broadcasts update and ephemeral events to connected Socket.IO clients
  * Simplified version of server's EventRouter — single-user, few connections
+ *
+ * Keeps a bounded ring of recent updates so a reconnecting app can fetch
+ * exactly the updates it missed (GET /v1/updates?afterSeq=) instead of refetching everything.
  */
 
 import { Socket } from 'socket.io';
@@ -16,6 +19,7 @@ export interface P2PClientConnection {
     connectionType: ConnectionType;
     sessionId?: string;   // Only for session-scoped
     machineId?: string;   // Only for machine-scoped
+    deviceId?: string;    // Paired device the socket authenticated as (unset for local processes)
 }
 
 export interface UpdatePayload {
@@ -39,10 +43,23 @@ export type RecipientFilter =
     | { type: 'machine-scoped-only'; machineId: string }
     | { type: 'all-user-authenticated-connections' };
 
+export interface P2PEventRouterOptions {
+    initialSeq?: number;     // User seq when the router started; older updates were never recorded
+    historySize?: number;    // Updates kept for catch-up (default 1000)
+}
+
 // ─── Router ──────────────────────────────────────────────────────
 
 export class P2PEventRouter {
     private connections = new Set<P2PClientConnection>();
+    private history: UpdatePayload[] = [];
+    private historyStartSeq: number;   // Every update with seq > historyStartSeq is in history
+    private readonly historySize: number;
+
+    constructor(options: P2PEventRouterOptions = {}) {
+        this.historyStartSeq = options.initialSeq ?? 0;
+        this.historySize = options.historySize ?? 1000;
+    }
 
     addConnection(conn: P2PClientConnection): void {
         this.connections.add(conn);
@@ -58,10 +75,34 @@ export class P2PEventRouter {
         return this.connections.size;
     }
 
+    /**
+     * Whether an app is connected, as opposed to only local session and machine processes
+     */
+    hasUserScopedConnection(): boolean {
+        for (const conn of this.connections) {
+            if (conn.connectionType === 'user-scoped') {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Drop every socket of a revoked device
+     */
+    disconnectDevice(deviceId: string): void {
+        for (const conn of this.connections) {
+            if (conn.deviceId === deviceId) {
+                conn.socket.disconnect(true);
+            }
+        }
+    }
+
     /**
      * Broadcast a persistent update event to matching connections
      */
     emitUpdate(payload: UpdatePayload, filter: RecipientFilter, skipSender?: Socket): void {
+        this.recordUpdate(payload);
         for (const conn of this.connections) {
             if (skipSender && conn.socket === skipSender) continue;
             if (this.matchesFilter(conn, filter)) {
@@ -82,6 +123,26 @@ export class P2PEventRouter {
         }
     }
 
+    /**
+     * Updates with seq > afterSeq, oldest first.
+     * Returns null if some of them already fell out of the ring (the client must refetch).
+     */
+    getUpdatesAfter(afterSeq: number): UpdatePayload[] | null {
+        if (afterSeq < this.historyStartSeq) {
+            return null;
+        }
+        return this.history.filter(u => u.seq > afterSeq);
+    }
+
+    private recordUpdate(payload: UpdatePayload): void {
+        // Every filter includes user-scoped connections, so every update is part of the app's stream
+        this.history.push(payload);
+        while (this.history.length > this.historySize) {
+            const evicted = this.history.shift()!;
+            this.historyStartSeq = Math.max(this.historyStartSeq, evicted.seq);
+        }
+    }
+
     private matchesFilter(conn: P2PClientConnection, filter: RecipientFilter): boolean {
         switch (filter.type) {
             case 'all-interested-in-session':
@@ -0,0 +1,42 @@
+/**
+ * P2P notifications
+ * Durable alerts for the app: permission needed, turn finished, session crashed
+ * and `remcli notify`. Each one is kept in the P2PStore and broadcast as a
+ * `notification` update, so a device that was offline catches up through
+ * GET /v1/updates or GET /v1/notifications and can still alert locally.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { P2PStore, P2PNotification, P2PNotificationInput } from './p2pStore';
+import { P2PEventRouter } from './p2pEventRouter';
+import { logger } from '@/ui/logger';
+
+export function emitNotification(store: P2PStore, router: P2PEventRouter, input: P2PNotificationInput): P2PNotification {
+    const notification = store.addNotification(input);
+    logger.debug(`[P2P NOTIFY] ${notification.kind} ${notification.id}${notification.sessionId ? ` for session ${notification.sessionId}` : ''}`);
+
+    router.emitUpdate({
+        id: randomUUID(),
+        seq: store.allocateUserSeq(),
+        body: { t: 'notification', notification },
+        createdAt: Date.now()
+    }, { type: 'user-scoped-only' });
+
+    return notification;
+}
+
+/**
+ * Mark notifications seen (all when `ids` is omitted) and tell the other devices
+ */
+export function emitNotificationsSeen(store: P2PStore, router: P2PEventRouter, ids?: string[]): string[] {
+    const result = store.markNotificationsSeen(ids);
+    if (result.ids.length > 0) {
+        router.emitUpdate({
+            id: randomUUID(),
+            seq: store.allocateUserSeq(),
+            body: { t: 'notifications-seen', ids: result.ids, seenAt: result.seenAt },
+            createdAt: Date.now()
+        }, { type: 'user-scoped-only' });
+    }
+    return result.ids;
+}
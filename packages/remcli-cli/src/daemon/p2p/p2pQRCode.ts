@@ -13,7 +13,8 @@ export interface P2PConnectionInfo {
     host: string;      // LAN IP (e.g. "192.168.1.5") or full tunnel URL (e.g. "https://abc.ngrok.io")
     port: number;       // Socket.IO server port (0 when using tunnel)
     key: string;        // Base64-encoded shared secret
-    v: 1;               // Protocol version
+    pair: string;       // Single-use pairing code, exchanged for a device token
+    v: 2;               // Protocol version
 }
 
 // ─── QR Code ─────────────────────────────────────────────────────
@@ -24,14 +25,16 @@ export interface P2PConnectionInfo {
 export function buildP2PConnectionInfo(
     host: string,
     port: number,
-    sharedSecret: Uint8Array
+    sharedSecret: Uint8Array,
+    pairingCode: string
 ): P2PConnectionInfo {
     return {
         mode: 'p2p',
         host,
         port,
         key: encodeSharedSecret(sharedSecret),
-        v: 1
+        pair: pairingCode,
+        v: 2
     };
 }
 
@@ -81,6 +84,9 @@ export function displayP2PQRCode(url: string): void {
     console.log(`  Open in browser:`);
     console.log(`  ${url}`);
     console.log();
+    console.log('  The code pairs one device and expires in 10 minutes.');
+    console.log('  Run "remcli daemon qr" for a new one.');
+    console.log();
     console.log('='.repeat(60));
     console.log();
 }
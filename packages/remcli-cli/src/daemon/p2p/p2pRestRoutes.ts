@@ -5,15 +5,45 @@
  */
 
 import { FastifyInstance } from 'fastify';
+import { randomUUID } from 'node:crypto';
 import { z } from 'zod';
 import { ZodTypeProvider } from 'fastify-type-provider-zod';
 import { P2PStore } from './p2pStore';
-import { P2PEventRouter } from './p2pEventRouter';
+import { P2PEventRouter, UpdatePayload } from './p2pEventRouter';
 import { verifyBearerToken } from './p2pAuth';
+import { P2PAuthResult, P2PDeviceRegistry } from './p2pDevices';
+import { emitNotification, emitNotificationsSeen } from './p2pNotifications';
 import { logger } from '@/ui/logger';
+import { recordAuditEvent } from '@/daemon/auditLog';
+import { NewUsageBudgetSchema, USAGE_GROUP_BY, UsageLedger } from '@/daemon/usageLedger';
+import { readVoiceProvider } from '@/daemon/voiceBroker';
+
+declare module 'fastify' {
+    interface FastifyRequest {
+        p2pAuth?: P2PAuthResult;
+    }
+}
+
+const PAIR_ROUTE = '/v1/devices/pair';
+
+// A daemon serves a single local account
+const P2P_ACCOUNT_ID = 'p2p-local';
+
+// Attachments are base64 of an encrypted JSON envelope around base64 file data,
+// so a 10 MB file needs roughly 25 MB of request body
+const MAX_ATTACHMENT_BODY_BYTES = 32 * 1024 * 1024;
 
 // ─── Types ───────────────────────────────────────────────────────
 
+function buildUpdate(store: P2PStore, body: Record<string, unknown>): UpdatePayload {
+    return {
+        id: randomUUID(),
+        seq: store.allocateUserSeq(),
+        body,
+        createdAt: Date.now()
+    };
+}
+
 function sessionToResponse(s: ReturnType<P2PStore['getSession']>) {
     if (!s) return null;
     return {
@@ -50,13 +80,28 @@ function machineToResponse(m: ReturnType<P2PStore['getMachine']>) {
     };
 }
 
+function artifactToResponse(a: NonNullable<ReturnType<P2PStore['getArtifact']>>, includeBody: boolean) {
+    return {
+        id: a.id,
+        header: a.header,
+        headerVersion: a.headerVersion,
+        ...(includeBody ? { body: a.body, bodyVersion: a.bodyVersion } : {}),
+        dataEncryptionKey: a.dataEncryptionKey,
+        seq: a.seq,
+        createdAt: a.createdAt,
+        updatedAt: a.updatedAt
+    };
+}
+
 // ─── Register Routes ─────────────────────────────────────────────
 
 export function registerP2PRestRoutes(
     app: FastifyInstance,
     store: P2PStore,
     router: P2PEventRouter,
-    sharedSecret: Uint8Array
+    sharedSecret: Uint8Array,
+    devices: P2PDeviceRegistry,
+    usage: UsageLedger
 ): void {
     const typed = app.withTypeProvider<ZodTypeProvider>();
 
@@ -70,15 +115,29 @@ export function registerP2PRestRoutes(
 
         const authHeader = request.headers.authorization;
         if (!authHeader || !authHeader.startsWith('Bearer ')) {
+            recordAuditEvent({ type: 'auth-failure', transport: 'http', reason: 'missing-token', ip: request.ip, url: request.url });
             reply.code(401).send({ error: 'Missing or invalid authorization header' });
             return;
         }
 
         const token = authHeader.slice(7);
-        if (!verifyBearerToken(token, sharedSecret)) {
+
+        // Pairing is the only route that accepts the token derived from the QR shared secret
+        if (request.url === PAIR_ROUTE) {
+            if (!verifyBearerToken(token, sharedSecret)) {
+                recordAuditEvent({ type: 'auth-failure', transport: 'http', reason: 'invalid-pairing-token', ip: request.ip, url: request.url });
+                reply.code(401).send({ error: 'Invalid token' });
+            }
+            return;
+        }
+
+        const auth = devices.authenticate(token);
+        if (!auth) {
+            recordAuditEvent({ type: 'auth-failure', transport: 'http', reason: 'invalid-token', ip: request.ip, url: request.url });
             reply.code(401).send({ error: 'Invalid token' });
             return;
         }
+        request.p2pAuth = auth;
     });
 
     // ─── Health Check ────────────────────────────────────────────
@@ -86,15 +145,78 @@ export function registerP2PRestRoutes(
         return { status: 'ok', mode: 'p2p' };
     });
 
-    // ─── GET /v1/account/settings (stub for P2P) ────────────────
+    // ─── POST /v1/devices/pair ───────────────────────────────────
+    typed.post(PAIR_ROUTE, {
+        schema: {
+            body: z.object({
+                code: z.string(),
+                name: z.string().min(1).max(100),
+                platform: z.string().max(50).optional()
+            })
+        }
+    }, async (request, reply) => {
+        const { code, name, platform } = request.body;
+        const paired = devices.pair(code, name, platform ?? null);
+        if (!paired) {
+            recordAuditEvent({ type: 'auth-failure', transport: 'http', reason: 'invalid-pairing-code', ip: request.ip, url: request.url });
+            reply.code(403);
+            return { error: 'Pairing code is invalid or expired' };
+        }
+        return { deviceId: paired.device.id, token: paired.token };
+    });
+
+    // ─── GET /v1/devices ─────────────────────────────────────────
+    typed.get('/v1/devices', async (request) => {
+        const currentId = request.p2pAuth?.type === 'device' ? request.p2pAuth.device.id : null;
+        return {
+            devices: devices.list().map(d => ({ ...d, current: d.id === currentId }))
+        };
+    });
+
+    // ─── DELETE /v1/devices/:deviceId ────────────────────────────
+    typed.delete('/v1/devices/:deviceId', {
+        schema: {
+            params: z.object({
+                deviceId: z.string()
+            })
+        }
+    }, async (request, reply) => {
+        if (!devices.revoke(request.params.deviceId)) {
+            reply.code(404);
+            return { error: 'Device not found' };
+        }
+        return { success: true };
+    });
+
+    // ─── GET /v1/updates (reconnect catch-up) ────────────────────
+    typed.get('/v1/updates', {
+        schema: {
+            querystring: z.object({
+                afterSeq: z.coerce.number().int().min(0)
+            })
+        }
+    }, async (request) => {
+        const { afterSeq } = request.query;
+        const seq = store.getUserSeq();
+
+        // A seq from the future means the client synced with a different store — it must refetch
+        const updates = afterSeq <= seq ? router.getUpdatesAfter(afterSeq) : null;
+        if (!updates) {
+            return { resumable: false, seq, updates: [] };
+        }
+        return { resumable: true, seq, updates };
+    });
+
+    // ─── GET /v1/account/settings ────────────────────────────────
     typed.get('/v1/account/settings', async () => {
-        return { settings: null, settingsVersion: 0 };
+        const { settings, version } = store.getAccountSettings();
+        return { settings, settingsVersion: version };
     });
 
     // ─── GET /v1/account/profile (stub for P2P) ──────────────────
     typed.get('/v1/account/profile', async () => {
         return {
-            id: 'p2p-local',
+            id: P2P_ACCOUNT_ID,
             timestamp: Date.now(),
             firstName: null,
             lastName: null,
@@ -103,97 +225,367 @@ export function registerP2PRestRoutes(
         };
     });
 
-    // ─── POST /v1/account/settings (stub for P2P) ────────────────
-    typed.post('/v1/account/settings', async () => {
+    // ─── POST /v1/account/settings ───────────────────────────────
+    typed.post('/v1/account/settings', {
+        schema: {
+            body: z.object({
+                settings: z.string(),
+                expectedVersion: z.number().int().min(0)
+            })
+        }
+    }, async (request) => {
+        const { settings, expectedVersion } = request.body;
+        const result = store.updateAccountSettings(settings, expectedVersion);
+
+        if (result.result === 'version-mismatch') {
+            return {
+                success: false as const,
+                error: 'version-mismatch' as const,
+                currentVersion: result.version,
+                currentSettings: result.settings
+            };
+        }
+
+        // Every app connected to this daemon converges on the new settings
+        const update = buildUpdate(store, {
+            t: 'update-account',
+            id: P2P_ACCOUNT_ID,
+            settings: { value: result.settings, version: result.version }
+        });
+        router.emitUpdate(update, { type: 'user-scoped-only' });
+
+        return { success: true as const, version: result.version };
+    });
+
+    // ─── GET /v1/notifications ───────────────────────────────────
+    typed.get('/v1/notifications', {
+        schema: {
+            querystring: z.object({
+                unseen: z.enum(['0', '1']).optional(),
+                limit: z.coerce.number().int().min(1).max(200).optional()
+            })
+        }
+    }, async (request) => {
+        const { unseen, limit } = request.query;
+        return { notifications: store.getNotifications({ unseenOnly: unseen === '1', limit }) };
+    });
+
+    // ─── POST /v1/notifications ──────────────────────────────────
+    // Free-text notification, used by `remcli notify`
+    typed.post('/v1/notifications', {
+        schema: {
+            body: z.object({
+                title: z.string().max(200).optional(),
+                body: z.string().min(1).max(2000),
+                sessionId: z.string().optional()
+            })
+        }
+    }, async (request) => {
+        const { title, body, sessionId } = request.body;
+        const notification = emitNotification(store, router, { kind: 'message', title, body, sessionId });
+        return { notification };
+    });
+
+    // ─── POST /v1/notifications/seen ─────────────────────────────
+    typed.post('/v1/notifications/seen', {
+        schema: {
+            body: z.object({
+                ids: z.array(z.string()).optional()   // Omit to mark everything seen
+            })
+        }
+    }, async (request) => {
+        return { success: true as const, ids: emitNotificationsSeen(store, router, request.body.ids) };
+    });
+
+    // ─── GET /v1/usage ───────────────────────────────────────────
+    // Recorded token usage and cost, e.g. ?groupBy=day,project&since=2026-10-01
+    typed.get('/v1/usage', {
+        schema: {
+            querystring: z.object({
+                since: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+                until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+                groupBy: z.string().optional()
+                    .transform((value) => value ? value.split(',') : [])
+                    .pipe(z.array(z.enum(USAGE_GROUP_BY))),
+                project: z.string().optional(),
+                agent: z.string().optional(),
+                model: z.string().optional(),
+                sessionId: z.string().optional()
+            })
+        }
+    }, async (request) => {
+        return { ...usage.query(request.query), budgets: usage.listBudgets() };
+    });
+
+    // ─── GET /v1/usage/budgets ───────────────────────────────────
+    typed.get('/v1/usage/budgets', async () => {
+        return { budgets: usage.listBudgets() };
+    });
+
+    // ─── POST /v1/usage/budgets ──────────────────────────────────
+    typed.post('/v1/usage/budgets', {
+        schema: {
+            body: NewUsageBudgetSchema
+        }
+    }, async (request) => {
+        return { budget: usage.addBudget(request.body) };
+    });
+
+    // ─── DELETE /v1/usage/budgets/:budgetId ──────────────────────
+    typed.delete('/v1/usage/budgets/:budgetId', {
+        schema: {
+            params: z.object({ budgetId: z.string() })
+        }
+    }, async (request, reply) => {
+        if (!usage.removeBudget(request.params.budgetId)) {
+            reply.code(404);
+            return { error: 'Budget not found' };
+        }
         return { success: true };
     });
 
-    // ─── GET /v1/artifacts (stub for P2P) ─────────────────────────
+    // ─── GET /v1/artifacts (headers only) ────────────────────────
     typed.get('/v1/artifacts', async () => {
-        return [];
+        return store.getArtifacts().map(a => artifactToResponse(a, false));
     });
 
-    // ─── GET /v1/artifacts/:artifactId (stub for P2P) ──────────────
+    // ─── GET /v1/artifacts/:artifactId ───────────────────────────
     typed.get('/v1/artifacts/:artifactId', {
         schema: {
             params: z.object({
                 artifactId: z.string()
             })
         }
-    }, async (_request, reply) => {
-        reply.code(404);
-        return { error: 'Artifact not found' };
+    }, async (request, reply) => {
+        const artifact = store.getArtifact(request.params.artifactId);
+        if (!artifact) {
+            reply.code(404);
+            return { error: 'Artifact not found' };
+        }
+        return artifactToResponse(artifact, true);
     });
 
-    // ─── POST /v1/artifacts (stub for P2P) ──────────────────────────
-    typed.post('/v1/artifacts', async (_request, reply) => {
-        reply.code(501);
-        return { error: 'Artifacts not supported in P2P mode' };
+    // ─── POST /v1/artifacts ──────────────────────────────────────
+    typed.post('/v1/artifacts', {
+        schema: {
+            body: z.object({
+                id: z.string().uuid(),
+                header: z.string(),
+                body: z.string(),
+                dataEncryptionKey: z.string()
+            })
+        }
+    }, async (request, reply) => {
+        const { id, header, body, dataEncryptionKey } = request.body;
+
+        if (store.getArtifact(id)) {
+            reply.code(409);
+            return { error: 'Artifact with this ID already exists' };
+        }
+
+        const artifact = store.createArtifact(id, header, body, dataEncryptionKey);
+
+        const update = buildUpdate(store, {
+            t: 'new-artifact',
+            artifactId: artifact.id,
+            seq: artifact.seq,
+            header: artifact.header,
+            headerVersion: artifact.headerVersion,
+            body: artifact.body,
+            bodyVersion: artifact.bodyVersion,
+            dataEncryptionKey: artifact.dataEncryptionKey,
+            createdAt: artifact.createdAt,
+            updatedAt: artifact.updatedAt
+        });
+        router.emitUpdate(update, { type: 'user-scoped-only' });
+
+        return artifactToResponse(artifact, true);
     });
 
-    // ─── POST /v1/artifacts/:artifactId (stub for P2P) ─────────────
+    // ─── POST /v1/artifacts/:artifactId (update) ─────────────────
     typed.post('/v1/artifacts/:artifactId', {
         schema: {
             params: z.object({
                 artifactId: z.string()
+            }),
+            body: z.object({
+                header: z.string().optional(),
+                expectedHeaderVersion: z.number().int().optional(),
+                body: z.string().optional(),
+                expectedBodyVersion: z.number().int().optional()
             })
         }
-    }, async (_request, reply) => {
-        reply.code(501);
-        return { error: 'Artifacts not supported in P2P mode' };
+    }, async (request, reply) => {
+        const { artifactId } = request.params;
+        const { header, expectedHeaderVersion, body, expectedBodyVersion } = request.body;
+
+        const artifact = store.getArtifact(artifactId);
+        if (!artifact) {
+            reply.code(404);
+            return { error: 'Artifact not found' };
+        }
+
+        // Check both parts before writing either, so a mismatch never leaves a half-applied update
+        const headerMismatch = header !== undefined && expectedHeaderVersion !== undefined && artifact.headerVersion !== expectedHeaderVersion;
+        const bodyMismatch = body !== undefined && expectedBodyVersion !== undefined && artifact.bodyVersion !== expectedBodyVersion;
+        if (headerMismatch || bodyMismatch) {
+            return {
+                success: false as const,
+                error: 'version-mismatch' as const,
+                ...(headerMismatch ? { currentHeaderVersion: artifact.headerVersion, currentHeader: artifact.header } : {}),
+                ...(bodyMismatch ? { currentBodyVersion: artifact.bodyVersion, currentBody: artifact.body } : {})
+            };
+        }
+
+        const updateBody: Record<string, unknown> = { t: 'update-artifact', artifactId };
+        const response: { success: true; headerVersion?: number; bodyVersion?: number } = { success: true };
+
+        if (header !== undefined) {
+            const r = store.updateArtifactHeader(artifactId, header, artifact.headerVersion);
+            response.headerVersion = r.version;
+            updateBody.header = { version: r.version, value: r.data };
+        }
+        if (body !== undefined) {
+            const r = store.updateArtifactBody(artifactId, body, artifact.bodyVersion);
+            response.bodyVersion = r.version;
+            updateBody.body = { version: r.version, value: r.data };
+        }
+
+        if (header !== undefined || body !== undefined) {
+            router.emitUpdate(buildUpdate(store, updateBody), { type: 'user-scoped-only' });
+        }
+
+        return response;
     });
 
-    // ─── DELETE /v1/artifacts/:artifactId (stub for P2P) ────────────
+    // ─── DELETE /v1/artifacts/:artifactId ────────────────────────
     typed.delete('/v1/artifacts/:artifactId', {
         schema: {
             params: z.object({
                 artifactId: z.string()
             })
         }
-    }, async (_request, reply) => {
-        reply.code(501);
-        return { error: 'Artifacts not supported in P2P mode' };
+    }, async (request, reply) => {
+        const { artifactId } = request.params;
+        if (!store.deleteArtifact(artifactId)) {
+            reply.code(404);
+            return { error: 'Artifact not found' };
+        }
+
+        const update = buildUpdate(store, {
+            t: 'delete-artifact',
+            artifactId
+        });
+        router.emitUpdate(update, { type: 'user-scoped-only' });
+
+        return { success: true };
     });
 
-    // ─── GET /v1/kv (stub for P2P — returns empty list) ────────────
-    typed.get('/v1/kv', async () => {
-        return { items: [] };
+    // ─── GET /v1/kv ──────────────────────────────────────────────
+    typed.get('/v1/kv', {
+        schema: {
+            querystring: z.object({
+                prefix: z.string().optional(),
+                limit: z.coerce.number().min(1).max(1000).default(100)
+            })
+        }
+    }, async (request) => {
+        const { prefix, limit } = request.query;
+        return { items: store.listKv(prefix, limit) };
     });
 
-    // ─── GET /v1/kv/:key (stub for P2P) ────────────────────────────
+    // ─── GET /v1/kv/:key ─────────────────────────────────────────
     typed.get('/v1/kv/:key', {
         schema: {
             params: z.object({
                 key: z.string()
             })
         }
-    }, async (_request, reply) => {
-        reply.code(404);
-        return { error: 'Key not found' };
+    }, async (request, reply) => {
+        const item = store.getKv(request.params.key);
+        if (!item) {
+            reply.code(404);
+            return { error: 'Key not found' };
+        }
+        return item;
     });
 
-    // ─── POST /v1/kv/bulk (stub for P2P) ───────────────────────────
-    typed.post('/v1/kv/bulk', async () => {
-        return { values: [] };
+    // ─── POST /v1/kv/bulk ────────────────────────────────────────
+    typed.post('/v1/kv/bulk', {
+        schema: {
+            body: z.object({
+                keys: z.array(z.string()).max(100)
+            })
+        }
+    }, async (request) => {
+        return { values: store.bulkGetKv(request.body.keys) };
     });
 
-    // ─── POST /v1/kv (stub for P2P — mutate) ──────────────────────
-    typed.post('/v1/kv', async (request) => {
-        const body = request.body as { mutations?: Array<{ key: string }> };
-        const mutations = body.mutations || [];
-        return {
-            success: true,
-            results: mutations.map((m: { key: string }) => ({
-                key: m.key,
-                version: 1
-            }))
-        };
+    // ─── POST /v1/kv (mutate) ────────────────────────────────────
+    typed.post('/v1/kv', {
+        schema: {
+            body: z.object({
+                mutations: z.array(z.object({
+                    key: z.string(),
+                    value: z.string().nullable(),
+                    version: z.number().int()
+                })).max(100)
+            })
+        }
+    }, async (request, reply) => {
+        const { mutations } = request.body;
+        const result = store.mutateKv(mutations);
+
+        if (!result.success) {
+            reply.code(409);
+            return result;
+        }
+
+        if (mutations.length > 0) {
+            const update = buildUpdate(store, {
+                t: 'kv-batch-update',
+                changes: mutations.map((m, i) => ({
+                    key: m.key,
+                    value: m.value,
+                    version: result.results[i].version
+                }))
+            });
+            router.emitUpdate(update, { type: 'user-scoped-only' });
+        }
+
+        return result;
     });
 
-    // ─── POST /v1/voice/token (stub for P2P) ──────────────────────
-    typed.post('/v1/voice/token', async (_request, reply) => {
-        reply.code(400);
-        return { error: 'Voice not supported in P2P mode' };
+    // ─── POST /v1/voice/token ────────────────────────────────────
+    // Mints a short-lived token with the provider key kept in settings.json.
+    // 400 without a provider: the app then falls back to a public agent.
+    typed.post('/v1/voice/token', {
+        schema: {
+            body: z.object({
+                sessionId: z.string(),
+                agentId: z.string().optional()
+            })
+        }
+    }, async (request, reply) => {
+        const { sessionId, agentId } = request.body;
+        if (!store.getSession(sessionId)) {
+            reply.code(404);
+            return { error: 'Session not found' };
+        }
+        const provider = await readVoiceProvider();
+        if (!provider) {
+            reply.code(400);
+            return { error: 'Voice is not configured on this machine' };
+        }
+        try {
+            const token = await provider.mintToken({ sessionId, agentId });
+            logger.debug(`[P2P REST] Minted ${provider.name} voice token for session ${sessionId}`);
+            return { allowed: true, provider: provider.name, ...token };
+        } catch (error) {
+            logger.debug(`[P2P REST] Failed to mint ${provider.name} voice token:`, error);
+            reply.code(502);
+            return { error: `Voice provider ${provider.name} did not issue a token` };
+        }
     });
 
     // ─── GET /v1/sessions ────────────────────────────────────────
@@ -314,12 +706,23 @@ export function registerP2PRestRoutes(
         schema: {
             params: z.object({
                 sessionId: z.string()
+            }),
+            querystring: z.object({
+                before_seq: z.coerce.number().int().optional(),
+                after_seq: z.coerce.number().int().optional(),
+                limit: z.coerce.number().int().min(1).max(500).default(150)
             })
         }
     }, async (request) => {
         const { sessionId } = request.params;
-        const messages = store.getMessages(sessionId, 150);
+        const { before_seq, after_seq, limit } = request.query;
+        const { messages, hasMore } = store.getMessagePage(sessionId, {
+            beforeSeq: before_seq,
+            afterSeq: after_seq,
+            limit
+        });
         return {
+            hasMore,
             messages: messages.map(m => ({
                 id: m.id,
                 seq: m.seq,
@@ -331,6 +734,47 @@ export function registerP2PRestRoutes(
         };
     });
 
+    // ─── POST /v1/sessions/:sessionId/attachments ────────────────
+    // Payload is encrypted by the app with the session key; the daemon only stores it
+    typed.post('/v1/sessions/:sessionId/attachments', {
+        bodyLimit: MAX_ATTACHMENT_BODY_BYTES,
+        schema: {
+            params: z.object({
+                sessionId: z.string()
+            }),
+            body: z.object({
+                data: z.string().min(1)
+            })
+        }
+    }, async (request, reply) => {
+        const { sessionId } = request.params;
+        const attachment = store.addAttachment(sessionId, request.body.data);
+        if (!attachment) {
+            reply.code(404);
+            return { error: 'Session not found' };
+        }
+        logger.debug(`[P2P REST] Stored attachment ${attachment.id} for session ${sessionId} (${attachment.size} bytes)`);
+        return { id: attachment.id, size: attachment.size, createdAt: attachment.createdAt };
+    });
+
+    // ─── GET /v1/sessions/:sessionId/attachments/:attachmentId ───
+    typed.get('/v1/sessions/:sessionId/attachments/:attachmentId', {
+        schema: {
+            params: z.object({
+                sessionId: z.string(),
+                attachmentId: z.string()
+            })
+        }
+    }, async (request, reply) => {
+        const { sessionId, attachmentId } = request.params;
+        const data = store.getAttachment(sessionId, attachmentId);
+        if (data === null) {
+            reply.code(404);
+            return { error: 'Attachment not found' };
+        }
+        return { id: attachmentId, data };
+    });
+
     // ─── DELETE /v1/sessions/:sessionId ──────────────────────────
     typed.delete('/v1/sessions/:sessionId', {
         schema: {
@@ -14,8 +14,10 @@ import { P2PStore } from './p2pStore';
 import { P2PEventRouter, P2PClientConnection, ConnectionType } from './p2pEventRouter';
 import { registerSocketHandlers } from './p2pSocketHandlers';
 import { registerP2PRestRoutes } from './p2pRestRoutes';
-import { verifyBearerToken } from './p2pAuth';
+import { P2PDeviceRegistry } from './p2pDevices';
+import { UsageLedger } from '@/daemon/usageLedger';
 import { logger } from '@/ui/logger';
+import { recordAuditEvent } from '@/daemon/auditLog';
 import { TrackedSession } from '../types';
 import { SpawnSessionOptions, SpawnSessionResult } from '@/modules/common/registerCommonHandlers';
 import { Metadata } from '@/api/types';
@@ -27,11 +29,14 @@ export interface P2PServerConfig {
     host: string;              // '0.0.0.0' for LAN
     sharedSecret: Uint8Array;  // 32 bytes from QR code
     store: P2PStore;
+    devices: P2PDeviceRegistry;
     getChildren: () => TrackedSession[];
     stopSession: (sessionId: string) => boolean;
     spawnSession: (options: SpawnSessionOptions) => Promise<SpawnSessionResult>;
     requestShutdown: () => void;
     onRemcliSessionWebhook: (sessionId: string, metadata: Metadata) => void;
+    onSessionEnd?: (sessionId: string) => void;
+    usage: UsageLedger;
     webAppDir?: string;        // Path to web app build (static files)
 }
 
@@ -47,9 +52,9 @@ export interface P2PServer {
 // ─── Server ──────────────────────────────────────────────────────
 
 export async function startP2PServer(config: P2PServerConfig): Promise<P2PServer> {
-    const { port, host, sharedSecret, store } = config;
+    const { port, host, sharedSecret, store, devices } = config;
 
-    const router = new P2PEventRouter();
+    const router = new P2PEventRouter({ initialSeq: store.getUserSeq() });
 
     // Create Fastify instance
     const app = fastify({ logger: false });
@@ -68,7 +73,7 @@ export async function startP2PServer(config: P2PServerConfig): Promise<P2PServer
     });
 
     // Register REST routes
-    registerP2PRestRoutes(app, store, router, sharedSecret);
+    registerP2PRestRoutes(app, store, router, sharedSecret, devices, config.usage);
 
     // Serve web app static files if available
     if (config.webAppDir && existsSync(config.webAppDir)) {
@@ -109,14 +114,30 @@ export async function startP2PServer(config: P2PServerConfig): Promise<P2PServer
     // Socket.IO authentication middleware
     io.use((socket, next) => {
         const token = socket.handshake.auth?.token;
-        if (!token || !verifyBearerToken(token, sharedSecret)) {
+        const auth = typeof token === 'string' ? devices.authenticate(token) : null;
+        if (!auth) {
             logger.debug('[P2P SERVER] Socket.IO auth failed');
+            recordAuditEvent({ type: 'auth-failure', transport: 'socket', reason: 'invalid-token', ip: socket.handshake.address });
             next(new Error('Authentication failed'));
             return;
         }
+
+        // Session and machine sockets are the daemon's own processes — paired devices are always user-scoped
+        const clientType = socket.handshake.auth?.clientType || 'user-scoped';
+        if (auth.type === 'device' && clientType !== 'user-scoped') {
+            logger.debug(`[P2P SERVER] Device ${auth.device.id} tried to connect as ${clientType}`);
+            recordAuditEvent({ type: 'auth-failure', transport: 'socket', reason: `device ${auth.device.id} requested ${clientType}`, ip: socket.handshake.address });
+            next(new Error('Authentication failed'));
+            return;
+        }
+
+        socket.data.deviceId = auth.type === 'device' ? auth.device.id : undefined;
         next();
     });
 
+    // Kick live sockets of revoked devices
+    const unsubscribeRevoked = devices.onRevoked((deviceId) => router.disconnectDevice(deviceId));
+
     // Track sessions that have already received message replay to avoid duplicates on reconnect
     const replayedSessions = new Set<string>();
 
@@ -131,11 +152,12 @@ export async function startP2PServer(config: P2PServerConfig): Promise<P2PServer
             socket,
             connectionType,
             sessionId,
-            machineId
+            machineId,
+            deviceId: socket.data.deviceId
         };
 
         router.addConnection(connection);
-        registerSocketHandlers(socket, connection, store, router);
+        registerSocketHandlers(socket, connection, store, router, config.onSessionEnd, config.usage);
 
         // Replay pending messages for session-scoped connections (first connect only).
         // Fixes race condition: app sends message before session process connects to Socket.IO,
@@ -174,6 +196,8 @@ export async function startP2PServer(config: P2PServerConfig): Promise<P2PServer
         app.listen({ port, host }, (err, address) => {
             if (err) {
                 logger.debug('[P2P SERVER] Failed to start:', err);
+                unsubscribeRevoked();
+                io.close();
                 reject(err);
                 return;
             }
@@ -189,6 +213,7 @@ export async function startP2PServer(config: P2PServerConfig): Promise<P2PServer
                 getConnectionCount: () => router.getConnectionCount(),
                 stop: async () => {
                     logger.debug('[P2P SERVER] Stopping...');
+                    unsubscribeRevoked();
                     io.close();
                     await app.close();
                     logger.debug('[P2P SERVER] Stopped');
@@ -7,7 +7,7 @@
  */
 
 import { readDaemonState, readSettings, updateSettings, Credentials } from '@/persistence';
-import { deriveBearerToken, decodeSharedSecret } from './p2pAuth';
+import { decodeSharedSecret } from './p2pAuth';
 import { configuration } from '@/configuration';
 import { randomUUID } from 'node:crypto';
 import { logger } from '@/ui/logger';
@@ -32,16 +32,16 @@ export async function setupP2PForSession(): Promise<{
         );
     }
 
-    if (!daemonState.p2pPort || !daemonState.p2pSharedSecret) {
+    if (!daemonState.p2pPort || !daemonState.p2pSharedSecret || !daemonState.p2pLocalToken) {
         throw new Error(
             'Daemon is running but P2P server info is missing. ' +
             'Try restarting the daemon: remcli daemon stop && remcli daemon start'
         );
     }
 
-    // Derive bearer token from shared secret
+    // Shared secret is the encryption key; the local token authenticates us to the daemon
     const sharedSecret = decodeSharedSecret(daemonState.p2pSharedSecret);
-    const bearerToken = deriveBearerToken(sharedSecret);
+    const bearerToken = daemonState.p2pLocalToken;
 
     // Configure the global server URL to point to local P2P server
     const p2pUrl = `http://127.0.0.1:${daemonState.p2pPort}`;
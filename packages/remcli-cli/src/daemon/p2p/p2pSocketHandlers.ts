@@ -9,6 +9,9 @@ import { randomUUID } from 'node:crypto';
 import { P2PStore } from './p2pStore';
 import { P2PEventRouter, P2PClientConnection, UpdatePayload } from './p2pEventRouter';
 import { logger } from '@/ui/logger';
+import { recordAuditEvent } from '@/daemon/auditLog';
+import { emitNotification } from './p2pNotifications';
+import { UsageLedger } from '@/daemon/usageLedger';
 
 // ─── RPC Listener Registry ──────────────────────────────────────
 
@@ -19,6 +22,9 @@ interface RPCListener {
 
 const rpcListeners = new Map<string, RPCListener>();
 
+/** Per-keystroke terminal RPCs stay out of the audit log; opening and closing a terminal is audited */
+const UNAUDITED_RPC_METHODS = new Set(['terminal-input', 'terminal-resize', 'terminal-keepalive']);
+
 // ─── Helper: Build Update Payload ────────────────────────────────
 
 function buildUpdate(store: P2PStore, body: Record<string, unknown>): UpdatePayload {
@@ -36,7 +42,9 @@ export function registerSocketHandlers(
     socket: Socket,
     connection: P2PClientConnection,
     store: P2PStore,
-    router: P2PEventRouter
+    router: P2PEventRouter,
+    onSessionEnd?: (sessionId: string) => void,
+    usage?: UsageLedger
 ): void {
     // ─── Session: message ────────────────────────────────────────
     socket.on('message', (data: { sid: string; message: string; localId?: string }) => {
@@ -133,6 +141,17 @@ export function registerSocketHandlers(
             activeAt: time,
             thinking: false
         }, { type: 'user-scoped-only' });
+        onSessionEnd?.(sid);
+    });
+
+    // ─── Session: notification ───────────────────────────────────
+    socket.on('notification', (data: { sid: string; kind: string; tool?: string }) => {
+        const { sid, kind, tool } = data;
+        if ((kind !== 'permission' && kind !== 'turn-finished') || !store.getSession(sid)) {
+            logger.debug(`[P2P SOCKET] Ignoring ${kind} notification for session ${sid}`);
+            return;
+        }
+        emitNotification(store, router, { kind, sessionId: sid, tool });
     });
 
     // ─── Machine: machine-alive ──────────────────────────────────
@@ -226,18 +245,41 @@ export function registerSocketHandlers(
         const { method, params } = data;
         logger.debug(`[P2P SOCKET] rpc-call: ${method}`);
 
+        // Methods are scoped as <sessionId|machineId>:<name>; params stay encrypted end to end
+        const startedAt = Date.now();
+        const scope = method.includes(':') ? method.slice(0, method.indexOf(':')) : '';
+        const audited = !UNAUDITED_RPC_METHODS.has(method.slice(method.indexOf(':') + 1));
+        const audit = (result: 'ok' | 'error', error?: string) => {
+            if (!audited) {
+                return;
+            }
+            recordAuditEvent({
+                type: 'rpc',
+                method,
+                ...(store.getSession(scope) ? { sessionId: scope } : scope ? { machineId: scope } : {}),
+                deviceId: connection.deviceId,
+                durationMs: Date.now() - startedAt,
+                result,
+                ...(error ? { error } : {})
+            });
+        };
+
         const listener = rpcListeners.get(method);
         if (!listener) {
-            callback({ ok: false, error: `No handler registered for method: ${method}` });
+            const errorMessage = `No handler registered for method: ${method}`;
+            audit('error', errorMessage);
+            callback({ ok: false, error: errorMessage });
             return;
         }
 
         try {
             const response = await listener.socket.timeout(30000).emitWithAck('rpc-request', { method, params });
+            audit('ok');
             callback({ ok: true, result: response });
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             logger.debug(`[P2P SOCKET] rpc-call error for ${method}: ${errorMessage}`);
+            audit('error', errorMessage);
             callback({ ok: false, error: errorMessage });
         }
     });
@@ -247,12 +289,35 @@ export function registerSocketHandlers(
         callback({});
     });
 
+    // Lets a local-mode session skip waiting for answers nobody can give
+    socket.on('app-presence', (callback: (response: { connected: boolean }) => void) => {
+        callback({ connected: router.hasUserScopedConnection() });
+    });
+
+    // ─── Bash jobs ───────────────────────────────────────────────
+    // Output of streaming commands, encrypted with the session key. Only the
+    // session's own process may report it.
+    socket.on('bash-job', (data: { sid: string; payload: string }) => {
+        if (connection.connectionType !== 'session-scoped' || connection.sessionId !== data.sid) {
+            logger.debug(`[P2P SOCKET] bash-job for session ${data.sid} rejected: not sent by that session`);
+            return;
+        }
+        router.emitEphemeral({
+            type: 'bash-job',
+            sessionId: data.sid,
+            payload: data.payload
+        }, { type: 'user-scoped-only' });
+    });
+
     // ─── Usage Report ────────────────────────────────────────────
     socket.on('usage-report', (data: {
         key: string;
         sessionId?: string;
-        tokens: Record<string, number>;
-        cost: Record<string, number>;
+        agent?: string;
+        project?: string;
+        model?: string;
+        tokens: { total: number; [key: string]: number };
+        cost: { total: number; [key: string]: number };
     }) => {
         const { key, sessionId, tokens, cost } = data;
 
@@ -266,6 +331,24 @@ export function registerSocketHandlers(
                 timestamp: Date.now()
             }, { type: 'user-scoped-only' });
         }
+
+        if (!sessionId || !usage) {
+            return;
+        }
+        const { crossed, pause } = usage.record({ ...data, sessionId });
+        for (const budget of crossed) {
+            const scope = budget.project ? ` for ${budget.project}` : '';
+            emitNotification(store, router, {
+                kind: 'message',
+                sessionId,
+                title: 'Usage budget exceeded',
+                body: `$${budget.spentUsd.toFixed(2)} spent of the $${budget.limitUsd.toFixed(2)} ${budget.period === 'day' ? 'daily' : 'monthly'} budget${scope}.${budget.action === 'pause' ? ` Turns are stopped until the ${budget.period} ends or the budget changes.` : ''}`
+            });
+        }
+        if (pause) {
+            // The report came from the session itself, so tell it directly to stop its turn
+            socket.emit('usage-budget-exceeded', { sid: sessionId, budgetId: pause.id, limitUsd: pause.limitUsd, spentUsd: pause.spentUsd });
+        }
     });
 
     // ─── Artifacts ───────────────────────────────────────────────
@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFileSync, existsSync, mkdirSync, rmSync, statSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { P2PStore } from './p2pStore';
+
+describe('P2PStore persistence', () => {
+    let dataDir: string;
+
+    beforeEach(() => {
+        dataDir = join(tmpdir(), `p2p-store-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+        mkdirSync(dataDir, { recursive: true });
+    });
+
+    afterEach(() => {
+        rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('reloads sessions, messages and sequence counters', () => {
+        const store = new P2PStore({ dataDir });
+        const session = store.createSession('tag-1', 'meta', 'dek');
+        store.addMessage(session.id, 'first', 'local-1');
+        store.addMessage(session.id, 'second', null);
+        const userSeq = store.allocateUserSeq();
+        store.close();
+
+        const reloaded = new P2PStore({ dataDir });
+        expect(reloaded.getSession(session.id)?.metadata).toBe('meta');
+        expect(reloaded.getMessages(session.id).map(m => m.content.c)).toEqual(['second', 'first']);
+        expect(reloaded.allocateUserSeq()).toBe(userSeq + 1);
+        expect(reloaded.addMessage(session.id, 'third', null)?.seq).toBe(3);
+    });
+
+    it('keeps the store and message logs private to the user', () => {
+        const store = new P2PStore({ dataDir });
+        const session = store.createSession('tag-1', 'meta', 'dek');
+        store.addMessage(session.id, 'secret', null);
+        store.close();
+
+        const mode = (path: string) => statSync(path).mode & 0o777;
+        expect(mode(dataDir)).toBe(0o700);
+        expect(mode(join(dataDir, 'messages'))).toBe(0o700);
+        expect(mode(join(dataDir, 'store.json'))).toBe(0o600);
+        expect(mode(join(dataDir, 'messages', `${session.id}.jsonl`))).toBe(0o600);
+    });
+
+    it('loads sessions and machines as inactive', () => {
+        const store = new P2PStore({ dataDir });
+        const session = store.createSession('tag-1', 'meta', null);
+        store.getOrCreateMachine('machine-1', 'meta', null, null);
+        store.close();
+
+        const reloaded = new P2PStore({ dataDir });
+        expect(reloaded.getSession(session.id)?.active).toBe(false);
+        expect(reloaded.getMachine('machine-1')?.active).toBe(false);
+    });
+
+    it('takes message seq from the log when the snapshot is behind', () => {
+        const store = new P2PStore({ dataDir });
+        const session = store.createSession('tag-1', 'meta', null);
+        store.close();
+
+        // Message appended after the last snapshot write (e.g. crash before flush), plus a torn line
+        store.addMessage(session.id, 'unflushed', null);
+        appendFileSync(join(dataDir, 'messages', `${session.id}.jsonl`), '{"torn":');
+
+        const reloaded = new P2PStore({ dataDir });
+        expect(reloaded.getMessages(session.id)).toHaveLength(1);
+        expect(reloaded.addMessage(session.id, 'next', null)?.seq).toBe(2);
+        expect(new P2PStore({ dataDir }).getMessages(session.id)).toHaveLength(2);
+    });
+
+    it('removes the message log when a session is deleted', () => {
+        const store = new P2PStore({ dataDir });
+        const session = store.createSession('tag-1', 'meta', null);
+        store.addMessage(session.id, 'hello', null);
+        const logPath = join(dataDir, 'messages', `${session.id}.jsonl`);
+        expect(existsSync(logPath)).toBe(true);
+
+        store.deleteSession(session.id);
+        store.close();
+
+        expect(existsSync(logPath)).toBe(false);
+        expect(new P2PStore({ dataDir }).getSession(session.id)).toBeUndefined();
+    });
+
+    it('stores attachments next to the session and drops them on delete', () => {
+        const store = new P2PStore({ dataDir });
+        const session = store.createSession('tag-1', 'meta', null);
+        const attachment = store.addAttachment(session.id, 'encrypted-blob');
+        expect(attachment).not.toBeNull();
+        expect(store.addAttachment('missing-session', 'blob')).toBeNull();
+        store.close();
+
+        const reloaded = new P2PStore({ dataDir });
+        expect(reloaded.getAttachment(session.id, attachment!.id)).toBe('encrypted-blob');
+        expect(reloaded.getAttachment(session.id, '../../state.json')).toBeNull();
+
+        reloaded.deleteSession(session.id);
+        expect(reloaded.getAttachment(session.id, attachment!.id)).toBeNull();
+        expect(existsSync(join(dataDir, 'attachments', session.id))).toBe(false);
+    });
+
+    it('stays memory-only without a data directory', () => {
+        const store = new P2PStore();
+        const session = store.createSession('tag-1', 'meta', null);
+        store.addMessage(session.id, 'hello', null);
+        store.close();
+
+        expect(new P2PStore().getSession(session.id)).toBeUndefined();
+    });
+});
+
+describe('P2PStore message pages', () => {
+    function storeWithMessages(count: number) {
+        const store = new P2PStore();
+        const session = store.createSession('tag-1', 'meta', null);
+        for (let i = 1; i <= count; i++) {
+            store.addMessage(session.id, `m${i}`, null);
+        }
+        return { store, sessionId: session.id };
+    }
+
+    it('pages backwards from the newest message', () => {
+        const { store, sessionId } = storeWithMessages(5);
+
+        const first = store.getMessagePage(sessionId, { limit: 2 });
+        expect(first.messages.map(m => m.seq)).toEqual([5, 4]);
+        expect(first.hasMore).toBe(true);
+
+        const second = store.getMessagePage(sessionId, { limit: 2, beforeSeq: 4 });
+        expect(second.messages.map(m => m.seq)).toEqual([3, 2]);
+        expect(second.hasMore).toBe(true);
+
+        const last = store.getMessagePage(sessionId, { limit: 2, beforeSeq: 2 });
+        expect(last.messages.map(m => m.seq)).toEqual([1]);
+        expect(last.hasMore).toBe(false);
+    });
+
+    it('pages forwards after a seq', () => {
+        const { store, sessionId } = storeWithMessages(5);
+
+        const page = store.getMessagePage(sessionId, { limit: 2, afterSeq: 1 });
+        expect(page.messages.map(m => m.seq)).toEqual([3, 2]);
+        expect(page.hasMore).toBe(true);
+
+        expect(store.getMessagePage(sessionId, { afterSeq: 5 })).toEqual({ messages: [], hasMore: false });
+        expect(store.getMessagePage(sessionId, { afterSeq: 1, beforeSeq: 4 }).messages.map(m => m.seq)).toEqual([3, 2]);
+    });
+});
+
+describe('P2PStore KV', () => {
+    it('creates, updates and deletes keys with version checks', () => {
+        const store = new P2PStore();
+
+        expect(store.mutateKv([{ key: 'todo.1', value: 'a', version: -1 }]))
+            .toEqual({ success: true, results: [{ key: 'todo.1', version: 0 }] });
+        expect(store.mutateKv([{ key: 'todo.1', value: 'b', version: 0 }]))
+            .toEqual({ success: true, results: [{ key: 'todo.1', version: 1 }] });
+        expect(store.getKv('todo.1')).toEqual({ key: 'todo.1', value: 'b', version: 1 });
+
+        expect(store.mutateKv([{ key: 'todo.1', value: null, version: 1 }]))
+            .toEqual({ success: true, results: [{ key: 'todo.1', version: -1 }] });
+        expect(store.getKv('todo.1')).toBeUndefined();
+    });
+
+    it('rejects the whole batch on a version mismatch', () => {
+        const store = new P2PStore();
+        store.mutateKv([{ key: 'todo.index', value: 'index', version: -1 }]);
+
+        const result = store.mutateKv([
+            { key: 'todo.2', value: 'new', version: -1 },
+            { key: 'todo.index', value: 'stale', version: 5 }
+        ]);
+
+        expect(result).toEqual({
+            success: false,
+            errors: [{ key: 'todo.index', error: 'version-mismatch', version: 0, value: 'index' }]
+        });
+        expect(store.getKv('todo.2')).toBeUndefined();
+    });
+
+    it('lists keys by prefix', () => {
+        const store = new P2PStore();
+        store.mutateKv([
+            { key: 'todo.b', value: '2', version: -1 },
+            { key: 'todo.a', value: '1', version: -1 },
+            { key: 'other', value: '3', version: -1 }
+        ]);
+
+        expect(store.listKv('todo.').map(i => i.key)).toEqual(['todo.a', 'todo.b']);
+        expect(store.bulkGetKv(['other', 'missing']).map(i => i.key)).toEqual(['other']);
+    });
+});
+
+describe('P2PStore artifacts', () => {
+    it('lists artifacts most recently updated first', async () => {
+        const store = new P2PStore();
+        store.createArtifact('a', 'header-a', 'body-a', 'dek');
+        await new Promise(resolve => setTimeout(resolve, 2));
+        store.createArtifact('b', 'header-b', 'body-b', 'dek');
+        await new Promise(resolve => setTimeout(resolve, 2));
+        store.updateArtifactHeader('a', 'header-a2', 1);
+
+        expect(store.getArtifacts().map(a => a.id)).toEqual(['a', 'b']);
+        expect(store.getArtifact('a')?.headerVersion).toBe(2);
+    });
+});
+
+describe('P2PStore account settings', () => {
+    it('updates settings with version checks', () => {
+        const store = new P2PStore();
+        expect(store.getAccountSettings()).toEqual({ settings: null, version: 0 });
+
+        expect(store.updateAccountSettings('s1', 0)).toEqual({ result: 'success', settings: 's1', version: 1 });
+        expect(store.updateAccountSettings('stale', 0)).toEqual({ result: 'version-mismatch', settings: 's1', version: 1 });
+        expect(store.getAccountSettings()).toEqual({ settings: 's1', version: 1 });
+    });
+
+    it('persists settings across reloads', () => {
+        const dataDir = join(tmpdir(), `p2p-store-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+        try {
+            const store = new P2PStore({ dataDir });
+            store.updateAccountSettings('s1', 0);
+            store.close();
+
+            expect(new P2PStore({ dataDir }).getAccountSettings()).toEqual({ settings: 's1', version: 1 });
+        } finally {
+            rmSync(dataDir, { recursive: true, force: true });
+        }
+    });
+});
+
+describe('P2PStore notifications', () => {
+    it('lists newest first and marks notifications seen', () => {
+        const store = new P2PStore();
+        const first = store.addNotification({ kind: 'turn-finished', sessionId: 's1' });
+        const second = store.addNotification({ kind: 'permission', sessionId: 's1', tool: 'Bash' });
+
+        expect(store.getNotifications().map(n => n.id)).toEqual([second.id, first.id]);
+        expect(store.markNotificationsSeen([first.id]).ids).toEqual([first.id]);
+        expect(store.getNotifications({ unseenOnly: true }).map(n => n.id)).toEqual([second.id]);
+        expect(store.markNotificationsSeen().ids).toEqual([second.id]);
+        expect(store.getNotifications({ unseenOnly: true })).toEqual([]);
+    });
+
+    it('persists notifications across reloads', () => {
+        const dataDir = join(tmpdir(), `p2p-store-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+        try {
+            const store = new P2PStore({ dataDir });
+            const notification = store.addNotification({ kind: 'message', title: 'Deploy', body: 'Done' });
+            store.close();
+
+            expect(new P2PStore({ dataDir }).getNotifications()).toEqual([notification]);
+        } finally {
+            rmSync(dataDir, { recursive: true, force: true });
+        }
+    });
+});
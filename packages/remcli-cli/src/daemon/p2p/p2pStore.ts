@@ -1,11 +1,19 @@
 /**
- * P2P in-memory data store
+ * P2P data store
  * Replaces PostgreSQL for local P2P mode
  * Stores sessions, messages, machines with sequence numbering
- * Data lives only in memory — each daemon session generates a new shared secret
+ *
+ * When a data directory is given, the store survives daemon restarts:
+ * - store.json holds sessions, machines, artifacts, notifications and sequence
+ *   counters (rewritten atomically, debounced)
+ * - messages/<sessionId>.jsonl is an append-only log of session messages
+ * - attachments/<sessionId>/<attachmentId> holds encrypted attachment blobs
  */
 
 import { randomUUID } from 'node:crypto';
+import { appendFileSync, chmodSync, existsSync, mkdirSync, readFileSync, readdirSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { logger } from '@/ui/logger';
 
 // ─── Types ───────────────────────────────────────────────────────
 
@@ -60,6 +68,94 @@ export interface P2PArtifact {
     updatedAt: number;
 }
 
+export interface P2PAttachment {
+    id: string;
+    sessionId: string;
+    size: number;              // Length of the encrypted payload
+    createdAt: number;
+}
+
+export interface P2PKvItem {
+    key: string;
+    value: string;
+    version: number;
+}
+
+export interface P2PKvMutation {
+    key: string;
+    value: string | null;  // null deletes the key
+    version: number;       // Current version, -1 for keys that don't exist yet
+}
+
+export type P2PKvMutateResult =
+    | { success: true; results: Array<{ key: string; version: number }> }
+    | { success: false; errors: Array<{ key: string; error: 'version-mismatch'; version: number; value: string | null }> };
+
+export interface P2PAccountSettings {
+    settings: string | null;   // Encrypted by the app, opaque to the daemon
+    version: number;
+}
+
+export type P2PNotificationKind = 'permission' | 'turn-finished' | 'session-crashed' | 'message';
+
+export interface P2PNotification {
+    id: string;
+    kind: P2PNotificationKind;
+    sessionId: string | null;
+    title: string | null;      // Free text (`remcli notify -t`); the app builds titles for the other kinds
+    body: string | null;
+    tool: string | null;       // Tool waiting for approval ('permission' only)
+    createdAt: number;
+    seenAt: number | null;
+}
+
+export type P2PNotificationInput = Pick<P2PNotification, 'kind'> & Partial<Pick<P2PNotification, 'sessionId' | 'title' | 'body' | 'tool'>>;
+
+export interface P2PMessagePageOptions {
+    limit?: number;        // Default 150
+    beforeSeq?: number;    // Only messages with seq < beforeSeq
+    afterSeq?: number;     // Only messages with seq > afterSeq
+}
+
+export interface P2PStoreOptions {
+    dataDir?: string;          // Persist to this directory; omit for a memory-only store
+    flushDelayMs?: number;     // Debounce for store.json rewrites (default 250ms)
+}
+
+interface P2PStoreSnapshot {
+    version: 1;
+    userSeq: number;
+    sessionSeqs: Record<string, number>;
+    sessions: P2PSession[];
+    machines: P2PMachine[];
+    artifacts: P2PArtifact[];
+    kv?: P2PKvItem[];
+    settings?: P2PAccountSettings;
+    notifications?: P2PNotification[];
+}
+
+const SNAPSHOT_FILE = 'store.json';
+const MESSAGES_DIR = 'messages';
+const ATTACHMENTS_DIR = 'attachments';
+const MAX_NOTIFICATIONS = 200;
+
+/**
+ * Index of the first message with seq >= target (messages sorted by seq)
+ */
+function lowerBoundBySeq(messages: P2PMessage[], target: number): number {
+    let lo = 0;
+    let hi = messages.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >>> 1;
+        if (messages[mid].seq < target) {
+            lo = mid + 1;
+        } else {
+            hi = mid;
+        }
+    }
+    return lo;
+}
+
 // ─── Store ───────────────────────────────────────────────────────
 
 export class P2PStore {
@@ -67,12 +163,185 @@ export class P2PStore {
     private sessionMessages = new Map<string, P2PMessage[]>();
     private machines = new Map<string, P2PMachine>();
     private artifacts = new Map<string, P2PArtifact>();
+    private kv = new Map<string, P2PKvItem>();
+    private accountSettings: P2PAccountSettings = { settings: null, version: 0 };
+    private notifications: P2PNotification[] = [];            // Oldest first, capped at MAX_NOTIFICATIONS
+    private notificationListeners = new Set<(notification: P2PNotification) => void>();
+    private attachments = new Map<string, string>();    // Memory-only mode: `${sessionId}/${id}` -> payload
     private userSeq = 0;
     private sessionSeqs = new Map<string, number>();
 
+    private readonly dataDir: string | null;
+    private readonly flushDelayMs: number;
+    private flushTimer: NodeJS.Timeout | null = null;
+
+    constructor(options: P2PStoreOptions = {}) {
+        this.dataDir = options.dataDir ?? null;
+        this.flushDelayMs = options.flushDelayMs ?? 250;
+
+        if (this.dataDir) {
+            // Holds session content, so it's private to the user; older daemons
+            // created it with the default umask
+            mkdirSync(join(this.dataDir, MESSAGES_DIR), { recursive: true, mode: 0o700 });
+            chmodSync(this.dataDir, 0o700);
+            this.load();
+        }
+    }
+
+    // ─── Persistence ─────────────────────────────────────────────
+
+    /**
+     * Load snapshot and message logs from disk.
+     * Nothing from a previous daemon run is alive anymore, so everything is loaded as inactive.
+     */
+    private load(): void {
+        const dataDir = this.dataDir!;
+        const snapshotPath = join(dataDir, SNAPSHOT_FILE);
+
+        if (existsSync(snapshotPath)) {
+            try {
+                const snapshot = JSON.parse(readFileSync(snapshotPath, 'utf-8')) as P2PStoreSnapshot;
+                this.userSeq = snapshot.userSeq || 0;
+                for (const [sessionId, seq] of Object.entries(snapshot.sessionSeqs || {})) {
+                    this.sessionSeqs.set(sessionId, seq);
+                }
+                for (const session of snapshot.sessions || []) {
+                    this.sessions.set(session.id, { ...session, active: false });
+                }
+                for (const machine of snapshot.machines || []) {
+                    this.machines.set(machine.id, { ...machine, active: false });
+                }
+                for (const artifact of snapshot.artifacts || []) {
+                    this.artifacts.set(artifact.id, artifact);
+                }
+                for (const item of snapshot.kv || []) {
+                    this.kv.set(item.key, item);
+                }
+                if (snapshot.settings) {
+                    this.accountSettings = snapshot.settings;
+                }
+                this.notifications = snapshot.notifications || [];
+            } catch (error) {
+                logger.debug(`[P2P STORE] Failed to read snapshot ${snapshotPath}, starting empty:`, error);
+            }
+        }
+
+        const messagesDir = join(dataDir, MESSAGES_DIR);
+        for (const file of readdirSync(messagesDir)) {
+            if (!file.endsWith('.jsonl')) continue;
+            const sessionId = file.slice(0, -'.jsonl'.length);
+
+            // Log of a session that was deleted before the snapshot caught up
+            if (!this.sessions.has(sessionId)) {
+                rmSync(join(messagesDir, file), { force: true });
+                continue;
+            }
+
+            const messages: P2PMessage[] = [];
+            let malformed = false;
+            for (const line of readFileSync(join(messagesDir, file), 'utf-8').split('\n')) {
+                if (!line.trim()) continue;
+                try {
+                    messages.push(JSON.parse(line) as P2PMessage);
+                } catch {
+                    // Torn write from a crash — skip the partial line
+                    logger.debug(`[P2P STORE] Skipping malformed message line in ${file}`);
+                    malformed = true;
+                }
+            }
+            this.sessionMessages.set(sessionId, messages);
+
+            // Rewrite the log so new appends don't land on the end of a torn line
+            if (malformed) {
+                writeFileSync(join(messagesDir, file), messages.map(m => JSON.stringify(m) + '\n').join(''), { mode: 0o600 });
+            }
+
+            // Snapshot may lag behind the log — never hand out a seq twice
+            const lastSeq = messages.length > 0 ? messages[messages.length - 1].seq : 0;
+            this.sessionSeqs.set(sessionId, Math.max(this.sessionSeqs.get(sessionId) || 0, lastSeq));
+        }
+
+        for (const sessionId of this.sessions.keys()) {
+            if (!this.sessionMessages.has(sessionId)) {
+                this.sessionMessages.set(sessionId, []);
+            }
+        }
+
+        const attachmentsDir = join(dataDir, ATTACHMENTS_DIR);
+        if (existsSync(attachmentsDir)) {
+            for (const sessionId of readdirSync(attachmentsDir)) {
+                if (!this.sessions.has(sessionId)) {
+                    rmSync(join(attachmentsDir, sessionId), { recursive: true, force: true });
+                }
+            }
+        }
+
+        logger.debug(`[P2P STORE] Loaded ${this.sessions.size} session(s), ${this.machines.size} machine(s), ${this.artifacts.size} artifact(s) from ${dataDir} (userSeq=${this.userSeq})`);
+    }
+
+    /**
+     * Schedule a debounced snapshot write
+     */
+    private markDirty(): void {
+        if (!this.dataDir || this.flushTimer) return;
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            this.flush();
+        }, this.flushDelayMs);
+        this.flushTimer.unref();
+    }
+
+    /**
+     * Write the snapshot to disk immediately (temp file + rename)
+     */
+    flush(): void {
+        if (!this.dataDir) return;
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+
+        const snapshot: P2PStoreSnapshot = {
+            version: 1,
+            userSeq: this.userSeq,
+            sessionSeqs: Object.fromEntries(this.sessionSeqs),
+            sessions: Array.from(this.sessions.values()),
+            machines: Array.from(this.machines.values()),
+            artifacts: Array.from(this.artifacts.values()),
+            kv: Array.from(this.kv.values()),
+            settings: this.accountSettings,
+            notifications: this.notifications
+        };
+
+        const snapshotPath = join(this.dataDir, SNAPSHOT_FILE);
+        const tmpPath = `${snapshotPath}.tmp`;
+        try {
+            writeFileSync(tmpPath, JSON.stringify(snapshot), { mode: 0o600 });
+            renameSync(tmpPath, snapshotPath);
+        } catch (error) {
+            logger.debug('[P2P STORE] Failed to write snapshot:', error);
+        }
+    }
+
+    /**
+     * Flush pending writes — call on daemon shutdown
+     */
+    close(): void {
+        this.flush();
+    }
+
+    private messageLogPath(sessionId: string): string {
+        return join(this.dataDir!, MESSAGES_DIR, `${sessionId}.jsonl`);
+    }
+
     // ─── Sequences ───────────────────────────────────────────────
 
+    getUserSeq(): number {
+        return this.userSeq;
+    }
+
     allocateUserSeq(): number {
+        this.markDirty();
         return ++this.userSeq;
     }
 
@@ -80,6 +349,7 @@ export class P2PStore {
         const current = this.sessionSeqs.get(sessionId) || 0;
         const next = current + 1;
         this.sessionSeqs.set(sessionId, next);
+        this.markDirty();
         return next;
     }
 
@@ -98,6 +368,7 @@ export class P2PStore {
                 if (dataEncryptionKey !== null) {
                     session.dataEncryptionKey = dataEncryptionKey;
                 }
+                this.markDirty();
                 return session;
             }
         }
@@ -120,6 +391,7 @@ export class P2PStore {
 
         this.sessions.set(session.id, session);
         this.sessionMessages.set(session.id, []);
+        this.markDirty();
         return session;
     }
 
@@ -150,6 +422,16 @@ export class P2PStore {
         const existed = this.sessions.delete(id);
         this.sessionMessages.delete(id);
         this.sessionSeqs.delete(id);
+        for (const key of this.attachments.keys()) {
+            if (key.startsWith(`${id}/`)) {
+                this.attachments.delete(key);
+            }
+        }
+        if (existed && this.dataDir) {
+            rmSync(this.messageLogPath(id), { force: true });
+            rmSync(join(this.dataDir, ATTACHMENTS_DIR, id), { recursive: true, force: true });
+            this.markDirty();
+        }
         return existed;
     }
 
@@ -176,6 +458,7 @@ export class P2PStore {
         session.metadata = metadata;
         session.metadataVersion++;
         session.updatedAt = Date.now();
+        this.markDirty();
 
         return {
             result: 'success',
@@ -206,6 +489,7 @@ export class P2PStore {
         session.agentState = agentState;
         session.agentStateVersion++;
         session.updatedAt = Date.now();
+        this.markDirty();
 
         return {
             result: 'success',
@@ -220,6 +504,7 @@ export class P2PStore {
         session.active = active;
         session.activeAt = Date.now();
         session.updatedAt = Date.now();
+        this.markDirty();
     }
 
     // ─── Messages ────────────────────────────────────────────────
@@ -246,17 +531,49 @@ export class P2PStore {
         }
         messages.push(message);
 
+        if (this.dataDir) {
+            try {
+                appendFileSync(this.messageLogPath(sessionId), JSON.stringify(message) + '\n', { mode: 0o600 });
+            } catch (error) {
+                logger.debug(`[P2P STORE] Failed to append message for session ${sessionId}:`, error);
+            }
+        }
+
         // Update timestamps but do NOT change session.active —
         // active state is controlled only by session-alive / session-end events from the agent
         session.updatedAt = now;
+        this.markDirty();
 
         return message;
     }
 
     getMessages(sessionId: string, limit: number = 150): P2PMessage[] {
+        return this.getMessagePage(sessionId, { limit }).messages;
+    }
+
+    /**
+     * Page through a session's messages by seq. Messages are returned newest first (as server does).
+     * With afterSeq the page is the oldest `limit` messages after the cursor (for catching up),
+     * otherwise it is the newest `limit` messages before beforeSeq (or overall).
+     */
+    getMessagePage(sessionId: string, options: P2PMessagePageOptions = {}): { messages: P2PMessage[]; hasMore: boolean } {
         const messages = this.sessionMessages.get(sessionId) || [];
-        // Return last N messages, sorted by createdAt desc (newest first, as server does)
-        return messages.slice(-limit).reverse();
+        const limit = options.limit ?? 150;
+
+        // Messages are appended in seq order, so the cursors are binary-searchable bounds
+        const start = options.afterSeq !== undefined ? lowerBoundBySeq(messages, options.afterSeq + 1) : 0;
+        const end = options.beforeSeq !== undefined ? lowerBoundBySeq(messages, options.beforeSeq) : messages.length;
+        if (end <= start) {
+            return { messages: [], hasMore: false };
+        }
+
+        if (options.afterSeq !== undefined) {
+            const pageEnd = Math.min(end, start + limit);
+            return { messages: messages.slice(start, pageEnd).reverse(), hasMore: pageEnd < end };
+        }
+
+        const pageStart = Math.max(start, end - limit);
+        return { messages: messages.slice(pageStart, end).reverse(), hasMore: pageStart > start };
     }
 
     // ─── Machines ────────────────────────────────────────────────
@@ -281,6 +598,7 @@ export class P2PStore {
             existing.active = true;
             existing.activeAt = Date.now();
             existing.updatedAt = Date.now();
+            this.markDirty();
             return existing;
         }
 
@@ -300,6 +618,7 @@ export class P2PStore {
         };
 
         this.machines.set(id, machine);
+        this.markDirty();
         return machine;
     }
 
@@ -331,6 +650,7 @@ export class P2PStore {
         machine.metadata = metadata;
         machine.metadataVersion++;
         machine.updatedAt = Date.now();
+        this.markDirty();
 
         return {
             result: 'success',
@@ -360,6 +680,7 @@ export class P2PStore {
         machine.active = true;
         machine.activeAt = Date.now();
         machine.updatedAt = Date.now();
+        this.markDirty();
 
         return {
             result: 'success',
@@ -368,6 +689,44 @@ export class P2PStore {
         };
     }
 
+    // ─── Attachments ─────────────────────────────────────────────
+
+    /**
+     * Store an encrypted attachment next to its session.
+     * Returns null if the session does not exist.
+     */
+    addAttachment(sessionId: string, data: string): P2PAttachment | null {
+        if (!this.sessions.has(sessionId)) {
+            return null;
+        }
+        const attachment: P2PAttachment = {
+            id: randomUUID(),
+            sessionId,
+            size: data.length,
+            createdAt: Date.now()
+        };
+        if (this.dataDir) {
+            const dir = join(this.dataDir, ATTACHMENTS_DIR, sessionId);
+            mkdirSync(dir, { recursive: true, mode: 0o700 });
+            writeFileSync(join(dir, attachment.id), data, { mode: 0o600 });
+        } else {
+            this.attachments.set(`${sessionId}/${attachment.id}`, data);
+        }
+        return attachment;
+    }
+
+    getAttachment(sessionId: string, attachmentId: string): string | null {
+        if (!this.dataDir) {
+            return this.attachments.get(`${sessionId}/${attachmentId}`) ?? null;
+        }
+        // Attachment ids are UUIDs we minted; anything else could escape the directory
+        if (!/^[0-9a-f-]{36}$/i.test(attachmentId) || !this.sessions.has(sessionId)) {
+            return null;
+        }
+        const path = join(this.dataDir, ATTACHMENTS_DIR, sessionId, attachmentId);
+        return existsSync(path) ? readFileSync(path, 'utf-8') : null;
+    }
+
     // ─── Artifacts ───────────────────────────────────────────────
 
     createArtifact(id: string, header: string, body: string, dataEncryptionKey: string): P2PArtifact {
@@ -384,6 +743,7 @@ export class P2PStore {
             updatedAt: now
         };
         this.artifacts.set(id, artifact);
+        this.markDirty();
         return artifact;
     }
 
@@ -391,6 +751,11 @@ export class P2PStore {
         return this.artifacts.get(id);
     }
 
+    getArtifacts(): P2PArtifact[] {
+        return Array.from(this.artifacts.values())
+            .sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
     updateArtifactHeader(artifactId: string, header: string, expectedVersion: number): {
         result: 'success' | 'version-mismatch' | 'error';
         version: number;
@@ -406,6 +771,7 @@ export class P2PStore {
         artifact.header = header;
         artifact.headerVersion++;
         artifact.updatedAt = Date.now();
+        this.markDirty();
 
         return { result: 'success', version: artifact.headerVersion, data: artifact.header };
     }
@@ -425,13 +791,156 @@ export class P2PStore {
         artifact.body = body;
         artifact.bodyVersion++;
         artifact.updatedAt = Date.now();
+        this.markDirty();
 
         return { result: 'success', version: artifact.bodyVersion, data: artifact.body };
     }
 
     deleteArtifact(id: string): boolean {
         const existed = this.artifacts.delete(id);
+        if (existed) {
+            this.markDirty();
+        }
         return existed;
     }
 
+    // ─── KV ──────────────────────────────────────────────────────
+
+    getKv(key: string): P2PKvItem | undefined {
+        return this.kv.get(key);
+    }
+
+    listKv(prefix?: string, limit: number = 100): P2PKvItem[] {
+        return Array.from(this.kv.values())
+            .filter(item => !prefix || item.key.startsWith(prefix))
+            .sort((a, b) => a.key.localeCompare(b.key))
+            .slice(0, limit);
+    }
+
+    bulkGetKv(keys: string[]): P2PKvItem[] {
+        return keys
+            .map(key => this.kv.get(key))
+            .filter((item): item is P2PKvItem => item !== undefined);
+    }
+
+    /**
+     * Apply a batch of KV mutations atomically with optimistic concurrency control.
+     * Every mutation must carry the key's current version (-1 if absent), otherwise nothing is written.
+     * New keys start at version 0; deleted keys report version -1 so they can be re-created.
+     */
+    mutateKv(mutations: P2PKvMutation[]): P2PKvMutateResult {
+        const errors: Array<{ key: string; error: 'version-mismatch'; version: number; value: string | null }> = [];
+        for (const mutation of mutations) {
+            const current = this.kv.get(mutation.key);
+            const currentVersion = current ? current.version : -1;
+            if (mutation.version !== currentVersion) {
+                errors.push({
+                    key: mutation.key,
+                    error: 'version-mismatch',
+                    version: currentVersion,
+                    value: current ? current.value : null
+                });
+            }
+        }
+        if (errors.length > 0) {
+            return { success: false, errors };
+        }
+
+        const results: Array<{ key: string; version: number }> = [];
+        for (const mutation of mutations) {
+            if (mutation.value === null) {
+                this.kv.delete(mutation.key);
+                results.push({ key: mutation.key, version: -1 });
+            } else {
+                const version = mutation.version + 1;
+                this.kv.set(mutation.key, { key: mutation.key, value: mutation.value, version });
+                results.push({ key: mutation.key, version });
+            }
+        }
+        this.markDirty();
+
+        return { success: true, results };
+    }
+
+    // ─── Account settings ────────────────────────────────────────
+
+    getAccountSettings(): P2PAccountSettings {
+        return { ...this.accountSettings };
+    }
+
+    /**
+     * Replace the settings blob if `expectedVersion` is the current version.
+     * Returns the stored settings either way, so a losing writer can merge and retry.
+     */
+    updateAccountSettings(settings: string, expectedVersion: number): {
+        result: 'success' | 'version-mismatch';
+    } & P2PAccountSettings {
+        if (this.accountSettings.version !== expectedVersion) {
+            return { result: 'version-mismatch', ...this.accountSettings };
+        }
+
+        this.accountSettings = { settings, version: expectedVersion + 1 };
+        this.markDirty();
+
+        return { result: 'success', ...this.accountSettings };
+    }
+
+    // ─── Notifications ───────────────────────────────────────────
+
+    addNotification(input: P2PNotificationInput): P2PNotification {
+        const notification: P2PNotification = {
+            id: randomUUID(),
+            kind: input.kind,
+            sessionId: input.sessionId ?? null,
+            title: input.title ?? null,
+            body: input.body ?? null,
+            tool: input.tool ?? null,
+            createdAt: Date.now(),
+            seenAt: null
+        };
+        this.notifications.push(notification);
+        if (this.notifications.length > MAX_NOTIFICATIONS) {
+            this.notifications.splice(0, this.notifications.length - MAX_NOTIFICATIONS);
+        }
+        this.markDirty();
+        for (const listener of this.notificationListeners) {
+            listener(notification);
+        }
+        return notification;
+    }
+
+    onNotification(listener: (notification: P2PNotification) => void): () => void {
+        this.notificationListeners.add(listener);
+        return () => this.notificationListeners.delete(listener);
+    }
+
+    /**
+     * Newest first
+     */
+    getNotifications(options: { unseenOnly?: boolean; limit?: number } = {}): P2PNotification[] {
+        return this.notifications
+            .filter(n => !options.unseenOnly || n.seenAt === null)
+            .reverse()
+            .slice(0, options.limit ?? MAX_NOTIFICATIONS);
+    }
+
+    /**
+     * Mark the given notifications (all when `ids` is omitted) as seen.
+     * Returns the ids that were unseen before.
+     */
+    markNotificationsSeen(ids?: string[]): { ids: string[]; seenAt: number } {
+        const wanted = ids ? new Set(ids) : null;
+        const seenAt = Date.now();
+        const marked: string[] = [];
+        for (const notification of this.notifications) {
+            if (notification.seenAt === null && (!wanted || wanted.has(notification.id))) {
+                notification.seenAt = seenAt;
+                marked.push(notification.id);
+            }
+        }
+        if (marked.length > 0) {
+            this.markDirty();
+        }
+        return { ids: marked, seenAt };
+    }
 }
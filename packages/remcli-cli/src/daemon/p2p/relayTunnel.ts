@@ -0,0 +1,197 @@
+/**
+ * Relay tunnel provider
+ *
+ * Dials out to a self-hosted relay started with `remcli relay serve` and
+ * keeps its control channel open. Whenever the app connects to the relay,
+ * the relay asks for a data channel and the daemon pipes it to the local
+ * P2P server port. Dropped control channels are redialed with backoff.
+ *
+ * Configured with REMCLI_RELAY_URL and REMCLI_RELAY_SECRET.
+ */
+
+import { request as httpRequest, ClientRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { connect } from 'node:net';
+import { Duplex } from 'node:stream';
+import { logger } from '@/ui/logger';
+import {
+    RELAY_CONTROL_PATH,
+    RELAY_DATA_PATH,
+    RELAY_UPGRADE_PROTOCOL,
+    RelayControlMessage,
+    createControlMessageParser,
+} from '@/relay/relayProtocol';
+import type { TunnelInfo, TunnelProvider } from './tunnel';
+
+const DIAL_TIMEOUT_MS = 10_000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+export interface RelayTunnelOptions {
+    relayUrl: string;
+    secret: string;
+    localPort: number;
+}
+
+export class RelayTunnelClient {
+    private control: Duplex | null = null;
+    private readonly channels = new Set<Duplex>();
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private reconnectDelayMs = 1000;
+    private stopped = false;
+
+    constructor(private readonly options: RelayTunnelOptions) {}
+
+    /**
+     * Open the control channel. Resolves with the URL the app should use once
+     * the relay accepted the daemon; rejects if the first attempt fails.
+     */
+    async connect(): Promise<string> {
+        const socket = await this.dial(RELAY_CONTROL_PATH);
+        return await new Promise<string>((resolve, reject) => {
+            let ready = false;
+            socket.on('data', createControlMessageParser((message) => {
+                if (message.type === 'ready' && !ready) {
+                    ready = true;
+                    this.reconnectDelayMs = 1000;
+                    resolve(message.url ?? this.options.relayUrl.replace(/\/$/, ''));
+                }
+                this.handleControlMessage(message);
+            }));
+            socket.on('error', (error) => logger.debug(`[RELAY TUNNEL] Control channel error: ${error.message}`));
+            socket.on('close', () => {
+                if (this.control === socket) {
+                    this.control = null;
+                }
+                if (!ready) {
+                    reject(new Error('Relay closed the control channel'));
+                    return;
+                }
+                logger.debug('[RELAY TUNNEL] Control channel closed');
+                this.scheduleReconnect();
+            });
+            this.control = socket;
+        });
+    }
+
+    stop(): void {
+        this.stopped = true;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        this.control?.destroy();
+        this.control = null;
+        for (const channel of this.channels) {
+            channel.destroy();
+        }
+        this.channels.clear();
+    }
+
+    private handleControlMessage(message: RelayControlMessage): void {
+        if (message.type === 'open') {
+            this.openDataChannel(message.id).catch((error) => {
+                logger.debug(`[RELAY TUNNEL] Failed to open data channel ${message.id}: ${error.message}`);
+            });
+        }
+    }
+
+    private async openDataChannel(id: string): Promise<void> {
+        const channel = await this.dial(RELAY_DATA_PATH + id);
+        if (this.stopped) {
+            channel.destroy();
+            return;
+        }
+
+        const local = connect(this.options.localPort, '127.0.0.1');
+        this.channels.add(channel);
+        channel.pipe(local).pipe(channel);
+        channel.on('error', () => local.destroy());
+        local.on('error', () => channel.destroy());
+        channel.on('close', () => {
+            this.channels.delete(channel);
+            local.destroy();
+        });
+        local.on('close', () => channel.destroy());
+    }
+
+    private scheduleReconnect(): void {
+        if (this.stopped || this.reconnectTimer) {
+            return;
+        }
+        const delay = this.reconnectDelayMs;
+        this.reconnectDelayMs = Math.min(this.reconnectDelayMs * 2, MAX_RECONNECT_DELAY_MS);
+        logger.debug(`[RELAY TUNNEL] Reconnecting to relay in ${delay}ms`);
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            if (this.stopped) {
+                return;
+            }
+            this.connect().catch((error) => {
+                logger.debug(`[RELAY TUNNEL] Reconnect failed: ${error.message}`);
+                this.scheduleReconnect();
+            });
+        }, delay);
+    }
+
+    /**
+     * Open a raw channel to the relay via an HTTP upgrade
+     */
+    private dial(path: string): Promise<Duplex> {
+        const url = new URL(path, this.options.relayUrl);
+        const request: ClientRequest = (url.protocol === 'https:' ? httpsRequest : httpRequest)(url, {
+            headers: {
+                'Connection': 'Upgrade',
+                'Upgrade': RELAY_UPGRADE_PROTOCOL,
+                'Authorization': `Bearer ${this.options.secret}`
+            }
+        });
+
+        return new Promise((resolve, reject) => {
+            request.setTimeout(DIAL_TIMEOUT_MS, () => {
+                request.destroy(new Error('Timed out connecting to relay'));
+            });
+            request.on('upgrade', (_response, socket, head) => {
+                request.setTimeout(0);
+                if (head.length > 0) {
+                    socket.unshift(head);
+                }
+                resolve(socket);
+            });
+            request.on('response', (response) => {
+                response.resume();
+                reject(new Error(`Relay refused connection: HTTP ${response.statusCode}`));
+            });
+            request.on('error', reject);
+            request.end();
+        });
+    }
+}
+
+async function startRelayTunnel(localPort: number): Promise<TunnelInfo | null> {
+    const relayUrl = process.env.REMCLI_RELAY_URL;
+    const secret = process.env.REMCLI_RELAY_SECRET;
+    if (!relayUrl || !secret) {
+        console.log('  Relay tunnel needs REMCLI_RELAY_URL and REMCLI_RELAY_SECRET.');
+        console.log('  Start a relay with: remcli relay serve');
+        return null;
+    }
+
+    logger.debug(`[RELAY TUNNEL] Connecting to relay ${relayUrl} for port ${localPort}`);
+    const client = new RelayTunnelClient({ relayUrl, secret, localPort });
+    try {
+        const url = await client.connect();
+        logger.debug(`[RELAY TUNNEL] Tunnel established: ${url}`);
+        return { url, stop: () => client.stop() };
+    } catch (error) {
+        client.stop();
+        const reason = error instanceof Error ? error.message : String(error);
+        logger.debug(`[RELAY TUNNEL] Failed to connect to relay: ${reason}`);
+        console.log(`  relay failed: ${reason}`);
+        return null;
+    }
+}
+
+export const relayTunnelProvider: TunnelProvider = {
+    name: 'relay',
+    start: startRelayTunnel,
+};
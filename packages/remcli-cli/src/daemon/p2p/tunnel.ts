@@ -1,147 +1,69 @@
 /**
- * Ngrok tunnel support for P2P remote access
+ * Tunnel support for P2P remote access
  *
- * When --tunnel flag is used, starts an ngrok tunnel pointing at the local
- * P2P server port. The tunnel URL replaces the LAN IP in the QR code,
- * enabling access from anywhere (not just local network).
+ * When --tunnel is used, the daemon exposes its P2P server through a tunnel
+ * provider. The tunnel URL replaces the LAN IP in the QR code, enabling
+ * access from anywhere (not just local network).
  *
- * Prerequisites: ngrok must be installed and authenticated.
+ * Built-in providers:
+ * - ngrok: spawns the ngrok agent
+ * - relay: dials out to a self-hosted `remcli relay serve`
+ *
+ * The provider is picked with --tunnel-provider <name> or
+ * REMCLI_TUNNEL_PROVIDER. Without either, the relay is used when
+ * REMCLI_RELAY_URL is set and ngrok otherwise.
  */
 
-import { execSync, spawn, ChildProcess } from 'node:child_process';
 import { logger } from '@/ui/logger';
-import axios from 'axios';
+import { ngrokTunnelProvider } from './ngrokTunnel';
+import { relayTunnelProvider } from './relayTunnel';
 
-interface TunnelInfo {
+export interface TunnelInfo {
     url: string;
     stop: () => void;
 }
 
-/**
- * Check if ngrok is available on the system
- */
-export function isNgrokAvailable(): boolean {
-    try {
-        execSync('which ngrok', { stdio: 'pipe' });
-        return true;
-    } catch {
-        return false;
-    }
+export interface TunnelProvider {
+    name: string;
+    /** Returns null (after telling the user why) if the tunnel could not be started */
+    start: (localPort: number) => Promise<TunnelInfo | null>;
+}
+
+const providers = new Map<string, TunnelProvider>();
+
+export function registerTunnelProvider(provider: TunnelProvider): void {
+    providers.set(provider.name, provider);
 }
 
+registerTunnelProvider(ngrokTunnelProvider);
+registerTunnelProvider(relayTunnelProvider);
+
 /**
- * Kill any existing ngrok processes to avoid port 4040 conflicts
+ * Resolve the provider name from the daemon's arguments and environment
  */
-function killExistingNgrok(): void {
-    try {
-        execSync('pkill -f ngrok', { stdio: 'pipe' });
-        logger.debug('[TUNNEL] Killed existing ngrok processes');
-    } catch {
-        // No ngrok running — that's fine
+export function resolveTunnelProviderName(argv: string[] = process.argv, env: NodeJS.ProcessEnv = process.env): string {
+    const flagIndex = argv.indexOf('--tunnel-provider');
+    if (flagIndex !== -1 && argv[flagIndex + 1]) {
+        return argv[flagIndex + 1];
+    }
+    if (env.REMCLI_TUNNEL_PROVIDER) {
+        return env.REMCLI_TUNNEL_PROVIDER;
     }
+    return env.REMCLI_RELAY_URL ? 'relay' : 'ngrok';
 }
 
 /**
- * Start an ngrok tunnel for the given local port.
+ * Start a tunnel for the given local port with the named provider.
  *
- * Spawns `ngrok http <port>` and polls the local ngrok API to retrieve the
- * public URL. Returns the tunnel URL and a stop function.
- *
- * Returns null if ngrok is not installed or fails to start.
+ * Returns null if the provider is unknown or fails to start.
  */
-export async function startNgrokTunnel(localPort: number): Promise<TunnelInfo | null> {
-    if (!isNgrokAvailable()) {
-        console.log('  ngrok is not installed. Install it from https://ngrok.com/download');
-        console.log('  Then authenticate: ngrok config add-authtoken <your-token>');
+export async function startTunnel(localPort: number, providerName: string): Promise<TunnelInfo | null> {
+    const provider = providers.get(providerName);
+    if (!provider) {
+        console.log(`  Unknown tunnel provider "${providerName}". Available: ${[...providers.keys()].join(', ')}`);
         return null;
     }
 
-    // Kill any leftover ngrok from previous daemon sessions
-    killExistingNgrok();
-    await new Promise(resolve => setTimeout(resolve, 500));
-
-    logger.debug(`[TUNNEL] Starting ngrok tunnel for port ${localPort}`);
-
-    // Spawn ngrok — capture stderr for error diagnostics
-    const ngrokProcess: ChildProcess = spawn('ngrok', ['http', String(localPort)], {
-        stdio: ['ignore', 'ignore', 'pipe'],
-        detached: true
-    });
-
-    // Collect stderr for error messages
-    let stderrOutput = '';
-    ngrokProcess.stderr?.on('data', (data) => {
-        stderrOutput += data.toString();
-    });
-
-    // Handle early exit
-    let exited = false;
-    let exitCode: number | null = null;
-    ngrokProcess.on('exit', (code) => {
-        exited = true;
-        exitCode = code;
-        logger.debug(`[TUNNEL] ngrok exited with code ${code}`);
-        if (stderrOutput.trim()) {
-            logger.debug(`[TUNNEL] ngrok stderr: ${stderrOutput.trim()}`);
-        }
-    });
-
-    ngrokProcess.on('error', (error) => {
-        exited = true;
-        logger.debug(`[TUNNEL] ngrok error: ${error.message}`);
-    });
-
-    // Poll ngrok local API for tunnel URL
-    // ngrok exposes API at http://127.0.0.1:4040/api/tunnels
-    const maxAttempts = 30;
-    const pollIntervalMs = 500;
-    let tunnelUrl: string | null = null;
-
-    for (let i = 0; i < maxAttempts; i++) {
-        if (exited) {
-            const reason = stderrOutput.trim() || `exit code ${exitCode}`;
-            logger.debug(`[TUNNEL] ngrok exited before tunnel was established: ${reason}`);
-            console.log(`  ngrok failed: ${reason}`);
-            return null;
-        }
-
-        await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
-
-        try {
-            const response = await axios.get('http://127.0.0.1:4040/api/tunnels', {
-                timeout: 2000
-            });
-
-            const tunnels = response.data?.tunnels;
-            if (tunnels && tunnels.length > 0) {
-                // Prefer HTTPS tunnel
-                const httpsTunnel = tunnels.find((t: { proto: string }) => t.proto === 'https');
-                tunnelUrl = httpsTunnel?.public_url || tunnels[0].public_url;
-                break;
-            }
-        } catch {
-            // ngrok API not ready yet, keep polling
-        }
-    }
-
-    if (!tunnelUrl) {
-        logger.debug('[TUNNEL] Failed to get tunnel URL after polling');
-        ngrokProcess.kill();
-        return null;
-    }
-
-    logger.debug(`[TUNNEL] Tunnel established: ${tunnelUrl}`);
-
-    const stop = () => {
-        try {
-            if (!exited) {
-                ngrokProcess.kill();
-                logger.debug('[TUNNEL] ngrok process killed');
-            }
-        } catch (error) {
-            logger.debug('[TUNNEL] Error killing ngrok:', error);
-        }
-    };
-
-    return { url: tunnelUrl, stop };
+    logger.debug(`[TUNNEL] Starting ${provider.name} tunnel for port ${localPort}`);
+    return await provider.start(localPort);
 }
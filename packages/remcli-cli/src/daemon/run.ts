@@ -5,31 +5,43 @@ import * as tmp from 'tmp';
 import { TrackedSession } from './types';
 import { MachineMetadata, Metadata } from '@/api/types';
 import { SpawnSessionOptions, SpawnSessionResult, registerCommonHandlers } from '@/modules/common/registerCommonHandlers';
+import { searchSessionLogs } from '@/modules/sessionSearch';
+import { forkAgentSession, sessionForkEnvironment } from '@/modules/sessionFork';
 import { logger } from '@/ui/logger';
 import { configuration } from '@/configuration';
 import { startCaffeinate, stopCaffeinate } from '@/utils/caffeinate';
 import packageJson from '../../package.json';
 import { getEnvironmentInfo } from '@/ui/doctor';
 import { spawnRemcliCLI } from '@/utils/spawnRemcliCLI';
-import { writeDaemonState, DaemonLocallyPersistedState, readDaemonState, acquireDaemonLock, releaseDaemonLock, readSettings, validateProfileForAgent, getProfileEnvironmentVariables } from '@/persistence';
+import { writeDaemonState, DaemonLocallyPersistedState, readDaemonState, acquireDaemonLock, releaseDaemonLock, readSettings, updateSettings, validateProfileForAgent, getProfileEnvironmentVariables, readP2PIdentity, writeP2PIdentity } from '@/persistence';
 
 import { cleanupDaemonState, isDaemonRunningCurrentlyInstalledRemcliVersion, stopDaemon } from './controlClient';
 import { findAllRemcliProcesses } from './doctor';
 import { startDaemonControlServer } from './controlServer';
-import { existsSync, readFileSync } from 'fs';
+import { existsSync, readFileSync, rmSync } from 'fs';
 import { join, resolve } from 'path';
 import { projectPath } from '@/projectPath';
 import { getTmuxUtilities, isTmuxAvailable } from '@/utils/tmux';
 import { expandEnvironmentVariables } from '@/utils/expandEnvVars';
-import { P2PStore } from './p2p/p2pStore';
+import { P2PStore, P2PNotificationKind } from './p2p/p2pStore';
 import { startP2PServer, P2PServer } from './p2p/p2pServer';
-import { generateSharedSecret, encodeSharedSecret, deriveBearerToken } from './p2p/p2pAuth';
+import { emitNotification } from './p2p/p2pNotifications';
+import { generateSharedSecret, encodeSharedSecret, decodeSharedSecret, generateToken } from './p2p/p2pAuth';
+import { P2PDeviceRegistry } from './p2p/p2pDevices';
 import { getLanIPAddress } from './p2p/networkUtils';
 import { buildP2PConnectionInfo, buildP2PQRUrl, displayP2PQRCode, displayP2PConnectionStatus } from './p2p/p2pQRCode';
-import { startNgrokTunnel } from './p2p/tunnel';
+import { resolveTunnelProviderName, startTunnel } from './p2p/tunnel';
 import { io as ioClient, Socket as ClientSocket } from 'socket.io-client';
+import { randomUUID } from 'node:crypto';
 import { RpcHandlerManager } from '@/api/rpc/RpcHandlerManager';
 import { openTerminalWithCommand } from '@/utils/openTerminal';
+import { AUDIT_EVENT_TYPES, AuditEventType, readAuditLog, recordAuditEvent } from './auditLog';
+import { DaemonScheduler, writeInitialPromptFile } from './scheduler';
+import { DaemonTerminals } from './terminals';
+import { UsageLedger } from './usageLedger';
+import { encodeBase64, encrypt } from '@/api/encryption';
+import { notifySinks, SinkEventType } from './notificationSinks';
+import { ACP_AGENT_NAME_PATTERN, getAcpAgent } from '@/acp/config';
 
 // Track tmux session names created by this daemon for cleanup
 const daemonTmuxSessions = new Set<string>();
@@ -47,7 +59,7 @@ export const initialMachineMetadata: MachineMetadata = {
 // Get environment variables for a profile, filtered for agent compatibility
 async function getProfileEnvironmentVariablesForAgent(
   profileId: string,
-  agentType: 'claude' | 'codex' | 'cursor' | 'gemini'
+  agentType: 'claude' | 'codex' | 'cursor' | 'gemini' | 'acp'
 ): Promise<Record<string, string>> {
   try {
     const settings = await readSettings();
@@ -58,8 +70,8 @@ async function getProfileEnvironmentVariablesForAgent(
       return {};
     }
 
-    // Check if profile is compatible with the agent
-    if (!validateProfileForAgent(profile, agentType)) {
+    // Check if profile is compatible with the agent (profiles have no flag for ACP agents from settings)
+    if (agentType !== 'acp' && !validateProfileForAgent(profile, agentType)) {
       logger.debug(`[DAEMON RUN] Profile ${profileId} not compatible with agent ${agentType}`);
       return {};
     }
@@ -187,7 +199,7 @@ export async function startDaemon(): Promise<void> {
   // 1. Not have a stale daemon state
   // 2. Should not have another daemon process running
 
-  // Kill orphaned sessions from previous daemon (they have stale P2P credentials)
+  // Kill orphaned sessions from previous daemon (they are bound to the previous P2P server instance)
   try {
     const allProcesses = await findAllRemcliProcesses();
     const orphanedSessions = allProcesses.filter(p =>
@@ -226,10 +238,15 @@ export async function startDaemon(): Promise<void> {
       logger.debug('[DAEMON RUN] Sleep prevention enabled');
     }
 
-    // Generate P2P shared secret for this daemon session
-    const sharedSecret = generateSharedSecret();
-    const bearerToken = deriveBearerToken(sharedSecret);
-    logger.debug('[DAEMON RUN] P2P shared secret generated');
+    // Load the persisted P2P identity (shared secret + last port), or create one on first run.
+    // Reusing it keeps already-paired apps connected across daemon restarts and upgrades.
+    const p2pIdentity = await readP2PIdentity();
+    const sharedSecret = p2pIdentity ? decodeSharedSecret(p2pIdentity.sharedSecret) : generateSharedSecret();
+    const localToken = p2pIdentity?.localToken ?? generateToken();
+    logger.debug(`[DAEMON RUN] P2P shared secret ${p2pIdentity ? 'loaded from disk' : 'generated'}`);
+
+    // Paired devices (per-device tokens) — needed by the control server for `remcli daemon devices`
+    const p2pDevices = new P2PDeviceRegistry({ dataDir: configuration.p2pDir, localToken });
 
     // Setup state - key by PID
     const pidToTrackedSession = new Map<number, TrackedSession>();
@@ -237,6 +254,9 @@ export async function startDaemon(): Promise<void> {
     // Session spawning awaiter system
     const pidToAwaiter = new Map<number, (session: TrackedSession) => void>();
 
+    // Session working directories for notification sink path filters, dropped once the end or crash is reported
+    const sessionPaths = new Map<string, string>();
+
     // Helper functions
     const getCurrentChildren = () => Array.from(pidToTrackedSession.values());
 
@@ -251,6 +271,7 @@ export async function startDaemon(): Promise<void> {
       }
 
       logger.debug(`[DAEMON RUN] Session webhook: ${sessionId}, PID: ${pid}, started by: ${sessionMetadata.startedBy || 'unknown'}`);
+      sessionPaths.set(sessionId, sessionMetadata.path);
       logger.debug(`[DAEMON RUN] Current tracked sessions before webhook: ${Array.from(pidToTrackedSession.keys()).join(', ')}`);
 
       // Check if we already have this PID (daemon-spawned)
@@ -283,7 +304,7 @@ export async function startDaemon(): Promise<void> {
     };
 
     // Spawn a new session (sessionId reserved for future --resume functionality)
-    const spawnSession = async (options: SpawnSessionOptions): Promise<SpawnSessionResult> => {
+    const spawnSessionProcess = async (options: SpawnSessionOptions): Promise<SpawnSessionResult> => {
       logger.debugLargeJson('[DAEMON RUN] Spawning session', options);
 
       const { directory, sessionId, machineId, approvedNewDirectoryCreation = true } = options;
@@ -436,9 +457,49 @@ export async function startDaemon(): Promise<void> {
           };
         }
 
+        // ACP agents are declared in settings.json and started with `remcli acp <name>`
+        let acpAgent: string | null = null;
+        if (options.agent === 'acp') {
+          if (!options.acpAgent || !ACP_AGENT_NAME_PATTERN.test(options.acpAgent) || !(await getAcpAgent(options.acpAgent))) {
+            return {
+              type: 'error',
+              errorMessage: `ACP agent "${options.acpAgent ?? ''}" is not declared under acpAgents in ${configuration.settingsFile}`
+            };
+          }
+          acpAgent = options.acpAgent;
+        }
+
+        // Forks resume the agent from a truncated copy of the parent's transcript
+        let forkEnv: Record<string, string> = {};
+        if (options.fork) {
+          const forkAgent = options.agent ?? 'claude';
+          if (forkAgent !== 'claude' && forkAgent !== 'codex' && forkAgent !== 'gemini') {
+            return {
+              type: 'error',
+              errorMessage: `Forking is not supported for ${forkAgent} sessions`
+            };
+          }
+          try {
+            const fork = await forkAgentSession({
+              agent: forkAgent,
+              agentSessionId: options.fork.agentSessionId,
+              directory,
+              messageText: options.fork.messageText,
+              occurrence: options.fork.occurrence
+            });
+            forkEnv = sessionForkEnvironment(options.fork.sessionId, fork);
+            logger.debug(`[DAEMON RUN] Forking session ${options.fork.sessionId} with ${fork.turns} turns`);
+          } catch (error) {
+            return {
+              type: 'error',
+              errorMessage: `Failed to fork session: ${error instanceof Error ? error.message : String(error)}`
+            };
+          }
+        }
+
         // Each remote session gets its own tmux session → its own Terminal.app tab
         const agent = options.agent === 'gemini' ? 'gemini' : options.agent === 'cursor' ? 'cursor' : (options.agent === 'codex' ? 'codex' : 'claude');
-        const tmuxSessionName = `remcli-${Date.now()}-${agent}`;
+        const tmuxSessionName = `remcli-${Date.now()}-${acpAgent ?? agent}`;
         const windowName = 'main';
 
           logger.debug(`[DAEMON RUN] Attempting to spawn session in tmux: ${tmuxSessionName}`);
@@ -447,7 +508,8 @@ export async function startDaemon(): Promise<void> {
 
           // Construct command for the CLI
           const cliPath = join(projectPath(), 'dist', 'index.mjs');
-          const fullCommand = `node --no-warnings --no-deprecation ${cliPath} ${agent} --remcli-starting-mode remote --started-by daemon`;
+          const subcommand = acpAgent ? `acp ${acpAgent}` : agent;
+          const fullCommand = `node --no-warnings --no-deprecation ${cliPath} ${subcommand} --remcli-starting-mode remote --started-by daemon`;
 
           // Spawn in tmux with environment variables
           const tmuxEnv: Record<string, string> = {};
@@ -460,7 +522,7 @@ export async function startDaemon(): Promise<void> {
           }
 
           // Add extra environment variables (these should already be filtered)
-          Object.assign(tmuxEnv, extraEnv);
+          Object.assign(tmuxEnv, extraEnv, forkEnv);
 
           const tmuxResult = await tmux.spawnInTmux([fullCommand], {
             sessionName: tmuxSessionName,
@@ -538,6 +600,48 @@ export async function startDaemon(): Promise<void> {
       }
     };
 
+    // Every spawn attempt lands in the audit log, whichever path it took
+    const spawnSession = async (options: SpawnSessionOptions): Promise<SpawnSessionResult> => {
+      const result = await spawnSessionProcess(options);
+      recordAuditEvent({
+        type: 'session-spawn',
+        directory: options.directory,
+        agent: options.agent === 'acp' ? options.acpAgent : options.agent,
+        ...(result.type === 'success' ? { sessionId: result.sessionId, result: 'success' as const }
+          : result.type === 'error' ? { result: 'error' as const, error: result.errorMessage }
+          : { result: 'needs-approval' as const })
+      });
+      return result;
+    };
+
+    // Scheduled sessions: the prompt travels to the session in a file named by REMCLI_INITIAL_PROMPT_FILE
+    const scheduler = new DaemonScheduler({
+      spawn: async (job) => {
+        const settings = await readSettings();
+        const profileId = job.profileId ?? settings.activeProfileId;
+        const profileEnv = profileId ? await getProfileEnvironmentVariablesForAgent(profileId, job.agent) : {};
+        const promptFile = writeInitialPromptFile(job.prompt);
+        try {
+          const result = await spawnSession({
+            directory: job.directory,
+            agent: job.agent,
+            environmentVariables: { ...profileEnv, REMCLI_INITIAL_PROMPT_FILE: promptFile }
+          });
+          if (result.type !== 'success') {
+            rmSync(promptFile, { force: true });
+          }
+          return result;
+        } catch (error) {
+          rmSync(promptFile, { force: true });
+          throw error;
+        }
+      },
+      isSessionRunning: (sessionId) => getCurrentChildren().some((child) => child.remcliSessionId === sessionId)
+    });
+
+    // Token usage and cost reported by sessions, with optional budgets
+    const usage = new UsageLedger();
+
     // Stop a session by sessionId or PID fallback
     const stopSession = (sessionId: string): boolean => {
       logger.debug(`[DAEMON RUN] Attempting to stop session ${sessionId}`);
@@ -565,6 +669,7 @@ export async function startDaemon(): Promise<void> {
           }
 
           pidToTrackedSession.delete(pid);
+          recordAuditEvent({ type: 'session-stop', sessionId: session.remcliSessionId, pid, reason: 'requested' });
           logger.debug(`[DAEMON RUN] Removed session ${sessionId} from tracking`);
           return true;
         }
@@ -577,6 +682,10 @@ export async function startDaemon(): Promise<void> {
     // Handle child process exit
     const onChildExited = (pid: number) => {
       logger.debug(`[DAEMON RUN] Removing exited process PID ${pid} from tracking`);
+      const session = pidToTrackedSession.get(pid);
+      if (session) {
+        recordAuditEvent({ type: 'session-stop', sessionId: session.remcliSessionId, pid, reason: 'exited' });
+      }
       pidToTrackedSession.delete(pid);
     };
 
@@ -586,7 +695,10 @@ export async function startDaemon(): Promise<void> {
       stopSession,
       spawnSession,
       requestShutdown: () => requestShutdown('remcli-cli'),
-      onRemcliSessionWebhook
+      onRemcliSessionWebhook,
+      devices: p2pDevices,
+      scheduler,
+      usage
     });
 
     // Write initial daemon state (no lock needed for state file)
@@ -601,11 +713,33 @@ export async function startDaemon(): Promise<void> {
     logger.debug('[DAEMON RUN] Daemon state written');
 
     // ─── P2P Server ──────────────────────────────────────────────
-    // Load P2P store from disk
-    const p2pStore = new P2PStore();
-    // Start with a fresh store — each daemon session generates a new shared secret,
-    // so old sessions/machines encrypted with the previous key are unusable.
-    logger.debug('[DAEMON RUN] P2P store initialized (fresh — new shared secret)');
+    // Load P2P store from disk — the shared secret is persisted too,
+    // so sessions/machines from previous daemon runs stay decryptable by the app
+    const p2pStore = new P2PStore({ dataDir: configuration.p2pDir });
+    logger.debug(`[DAEMON RUN] P2P store loaded from ${configuration.p2pDir}`);
+
+    // Forward notifications and session ends to the sinks configured in settings.json
+    const notificationSinkTypes: Record<P2PNotificationKind, SinkEventType> = {
+      'permission': 'permission-request',
+      'turn-finished': 'turn-finished',
+      'session-crashed': 'session-crashed',
+      'message': 'message'
+    };
+    p2pStore.onNotification((notification) => {
+      notifySinks({
+        type: notificationSinkTypes[notification.kind],
+        sessionId: notification.sessionId,
+        path: notification.sessionId ? sessionPaths.get(notification.sessionId) ?? null : null,
+        tool: notification.tool,
+        title: notification.title,
+        body: notification.body
+      });
+    });
+    const onSessionEnd = (sessionId: string) => {
+      notifySinks({ type: 'session-end', sessionId, path: sessionPaths.get(sessionId) ?? null, tool: null });
+      sessionPaths.delete(sessionId);
+      scheduler.markSessionEnded(sessionId);
+    };
 
     // Determine LAN IP address
     const lanIP = getLanIPAddress() || '0.0.0.0';
@@ -620,36 +754,57 @@ export async function startDaemon(): Promise<void> {
         console.log('  Warning: Web app build not found. Run "npm run build:web" first for QR→browser flow.');
     }
 
-    // Start P2P server
+    // Start P2P server — prefer the port from the previous run so the app's saved config stays valid
+    const p2pServerConfig = {
+        port: p2pIdentity?.port ?? 0,  // 0 = random available port
+        host: '0.0.0.0',
+        sharedSecret,
+        store: p2pStore,
+        devices: p2pDevices,
+        getChildren: getCurrentChildren,
+        stopSession,
+        spawnSession,
+        requestShutdown: () => requestShutdown('remcli-app'),
+        onRemcliSessionWebhook,
+        onSessionEnd,
+        usage,
+        webAppDir
+    };
     let p2pServer: P2PServer;
     try {
-        p2pServer = await startP2PServer({
-            port: 0,  // Random available port
-            host: '0.0.0.0',
-            sharedSecret,
-            store: p2pStore,
-            getChildren: getCurrentChildren,
-            stopSession,
-            spawnSession,
-            requestShutdown: () => requestShutdown('remcli-app'),
-            onRemcliSessionWebhook,
-            webAppDir
-        });
+        try {
+            p2pServer = await startP2PServer(p2pServerConfig);
+        } catch (error: any) {
+            if (p2pServerConfig.port === 0 || error?.code !== 'EADDRINUSE') {
+                throw error;
+            }
+            logger.debug(`[DAEMON RUN] P2P port ${p2pServerConfig.port} is taken, falling back to a random port`);
+            p2pServer = await startP2PServer({ ...p2pServerConfig, port: 0 });
+        }
         logger.debug(`[DAEMON RUN] P2P server started on port ${p2pServer.port}`);
     } catch (error) {
         logger.debug('[DAEMON RUN] Failed to start P2P server:', error);
         throw error;
     }
 
+    // Persist identity (first run, or port changed)
+    if (!p2pIdentity || p2pIdentity.port !== p2pServer.port || p2pIdentity.localToken !== localToken) {
+        await writeP2PIdentity({ sharedSecret: encodeSharedSecret(sharedSecret), port: p2pServer.port, localToken });
+        logger.debug('[DAEMON RUN] P2P identity written');
+    }
+
     // Update daemon state with P2P info
     fileState.p2pPort = p2pServer.port;
     fileState.p2pHost = lanIP;
     fileState.p2pSharedSecret = encodeSharedSecret(sharedSecret);
+    fileState.p2pLocalToken = localToken;
     writeDaemonState(fileState);
     logger.debug('[DAEMON RUN] Daemon state updated with P2P info');
 
-    // Register machine in P2P store
-    const machineId = `machine-${process.pid}-${Date.now()}`;
+    // Register machine in P2P store under the persisted machine ID,
+    // so a restarted daemon updates its machine instead of adding a new one
+    const settings = await updateSettings(async (s) => s.machineId ? s : { ...s, machineId: randomUUID() });
+    const machineId = settings.machineId!;
     p2pStore.getOrCreateMachine(
         machineId,
         JSON.stringify(initialMachineMetadata),
@@ -666,7 +821,7 @@ export async function startDaemon(): Promise<void> {
     const machineSocket: ClientSocket = ioClient(`http://127.0.0.1:${p2pServer.port}`, {
         transports: ['websocket'],
         auth: {
-            token: bearerToken,
+            token: localToken,
             clientType: 'machine-scoped',
             machineId
         },
@@ -684,11 +839,31 @@ export async function startDaemon(): Promise<void> {
     });
 
     // Register common handlers (bash, readFile, listDirectory, etc.)
-    registerCommonHandlers(machineRpcManager, process.cwd());
+    // Output of streaming commands is encrypted with the machine key and sent as ephemeral events
+    const cancelBashJobs = registerCommonHandlers(machineRpcManager, process.cwd(), (event) => {
+        p2pServer.router.emitEphemeral({
+            type: 'bash-job',
+            machineId,
+            payload: encodeBase64(encrypt(sharedSecret, 'legacy', event))
+        }, { type: 'user-scoped-only' });
+    });
+
+    // Remote terminals: output is encrypted with the machine key and streamed as ephemeral events
+    const terminals = new DaemonTerminals({
+        onEvent: (event) => {
+            p2pServer.router.emitEphemeral({
+                type: 'terminal',
+                machineId,
+                terminalId: event.terminalId,
+                payload: encodeBase64(encrypt(sharedSecret, 'legacy', event))
+            }, { type: 'user-scoped-only' });
+        },
+        getTmuxTarget: (sessionId) => getCurrentChildren().find((child) => child.remcliSessionId === sessionId)?.tmuxSessionId ?? null
+    });
 
     // Register daemon-specific RPC handlers
     machineRpcManager.registerHandler('spawn-remcli-session', async (params: any) => {
-        const { directory, sessionId: sid, machineId: targetMachineId, approvedNewDirectoryCreation, agent, token, environmentVariables } = params || {};
+        const { directory, sessionId: sid, machineId: targetMachineId, approvedNewDirectoryCreation, agent, acpAgent, fork, token, environmentVariables } = params || {};
         logger.debugLargeJson('[DAEMON RUN] RPC spawn-remcli-session', params);
 
         if (!directory) {
@@ -701,6 +876,8 @@ export async function startDaemon(): Promise<void> {
             machineId: targetMachineId,
             approvedNewDirectoryCreation,
             agent,
+            acpAgent,
+            fork,
             token,
             environmentVariables
         });
@@ -732,6 +909,106 @@ export async function startDaemon(): Promise<void> {
         return { message: 'Session stopped' };
     });
 
+    machineRpcManager.registerHandler('search-sessions', async (params: any) => {
+        const { query, limit, paths } = params || {};
+        if (typeof query !== 'string' || !query.trim()) {
+            throw new Error('Query is required');
+        }
+
+        const hits = await searchSessionLogs({
+            query,
+            limit: typeof limit === 'number' ? Math.min(Math.max(limit, 1), 200) : undefined,
+            paths: Array.isArray(paths) ? paths.filter((p: unknown): p is string => typeof p === 'string') : undefined
+        });
+        logger.debug(`[DAEMON RUN] RPC search-sessions found ${hits.length} hits`);
+        return { hits };
+    });
+
+    machineRpcManager.registerHandler('audit-log', (params: any) => {
+        const { limit, type, sessionId: filterSessionId } = params || {};
+        const entries = readAuditLog({
+            limit: typeof limit === 'number' ? Math.min(Math.max(limit, 1), 500) : 100,
+            type: AUDIT_EVENT_TYPES.includes(type) ? type as AuditEventType : undefined,
+            sessionId: typeof filterSessionId === 'string' ? filterSessionId : undefined
+        });
+        return { entries };
+    });
+
+    machineRpcManager.registerHandler('list-schedules', () => {
+        return { jobs: scheduler.list() };
+    });
+
+    machineRpcManager.registerHandler('add-schedule', (params: any) => {
+        const job = scheduler.add(params || {});
+        logger.debug(`[DAEMON RUN] RPC add-schedule created ${job.id}`);
+        return { job };
+    });
+
+    machineRpcManager.registerHandler('update-schedule', (params: any) => {
+        const { jobId, enabled } = params || {};
+        if (typeof jobId !== 'string' || typeof enabled !== 'boolean') {
+            throw new Error('jobId and enabled are required');
+        }
+        const job = scheduler.setEnabled(jobId, enabled);
+        if (!job) {
+            throw new Error('Scheduled session not found');
+        }
+        return { job };
+    });
+
+    machineRpcManager.registerHandler('remove-schedule', (params: any) => {
+        const { jobId } = params || {};
+        if (!scheduler.remove(jobId)) {
+            throw new Error('Scheduled session not found');
+        }
+        return { success: true };
+    });
+
+    machineRpcManager.registerHandler('run-schedule', async (params: any) => {
+        const run = await scheduler.run(params?.jobId);
+        if (!run) {
+            throw new Error('Scheduled session not found');
+        }
+        return { run };
+    });
+
+    machineRpcManager.registerHandler('terminal-open', async (params: any) => {
+        const { sessionId: targetSessionId, directory, cols, rows } = params || {};
+        return await terminals.open({
+            sessionId: typeof targetSessionId === 'string' ? targetSessionId : undefined,
+            directory: typeof directory === 'string' ? directory : undefined,
+            cols: Number(cols) || 80,
+            rows: Number(rows) || 24
+        });
+    });
+
+    machineRpcManager.registerHandler('terminal-input', (params: any) => {
+        const { terminalId, data } = params || {};
+        if (typeof data !== 'string' || !terminals.input(terminalId, data)) {
+            throw new Error('Terminal not found');
+        }
+        return { success: true };
+    });
+
+    machineRpcManager.registerHandler('terminal-resize', (params: any) => {
+        const { terminalId, cols, rows } = params || {};
+        if (!terminals.resize(terminalId, Number(cols), Number(rows))) {
+            throw new Error('Terminal not found');
+        }
+        return { success: true };
+    });
+
+    machineRpcManager.registerHandler('terminal-keepalive', (params: any) => {
+        if (!terminals.keepAlive(params?.terminalId)) {
+            throw new Error('Terminal not found');
+        }
+        return { success: true };
+    });
+
+    machineRpcManager.registerHandler('terminal-close', async (params: any) => {
+        return { success: await terminals.close(params?.terminalId) };
+    });
+
     machineRpcManager.registerHandler('stop-daemon', () => {
         logger.debug('[DAEMON RUN] RPC stop-daemon received');
         setTimeout(() => requestShutdown('remcli-app'), 100);
@@ -759,14 +1036,15 @@ export async function startDaemon(): Promise<void> {
 
     logger.debug('[DAEMON RUN] Machine RPC socket connecting to own P2P server');
 
-    // Optionally start ngrok tunnel for remote access
+    // Optionally start a tunnel (ngrok or a self-hosted relay) for remote access
     const useTunnel = process.argv.includes('--tunnel') || process.env.REMCLI_TUNNEL === 'true';
     let tunnelStop: (() => void) | null = null;
     let tunnelUrl: string | undefined;
 
     if (useTunnel) {
-        console.log('  Starting ngrok tunnel for remote access...');
-        const tunnel = await startNgrokTunnel(p2pServer.port);
+        const tunnelProvider = resolveTunnelProviderName();
+        console.log(`  Starting ${tunnelProvider} tunnel for remote access...`);
+        const tunnel = await startTunnel(p2pServer.port, tunnelProvider);
         if (tunnel) {
             tunnelUrl = tunnel.url;
             tunnelStop = tunnel.stop;
@@ -776,25 +1054,28 @@ export async function startDaemon(): Promise<void> {
 
             // Show QR with tunnel URL (accessible from anywhere)
             // Keep full URL with protocol in host field — app needs it to connect
-            const tunnelConnectionInfo = buildP2PConnectionInfo(tunnelUrl.replace(/\/$/, ''), 0, sharedSecret);
+            const tunnelConnectionInfo = buildP2PConnectionInfo(tunnelUrl.replace(/\/$/, ''), 0, sharedSecret, p2pDevices.createPairingCode());
             const tunnelQRUrl = buildP2PQRUrl(tunnelConnectionInfo, tunnelUrl);
             displayP2PQRCode(tunnelQRUrl);
             displayP2PConnectionStatus(lanIP, p2pServer.port, tunnelUrl);
         } else {
             console.log('  Failed to start tunnel, using LAN only');
-            const connectionInfo = buildP2PConnectionInfo(lanIP, p2pServer.port, sharedSecret);
+            const connectionInfo = buildP2PConnectionInfo(lanIP, p2pServer.port, sharedSecret, p2pDevices.createPairingCode());
             const qrUrl = buildP2PQRUrl(connectionInfo);
             displayP2PQRCode(qrUrl);
             displayP2PConnectionStatus(lanIP, p2pServer.port);
         }
     } else {
         // LAN only - show QR with LAN IP
-        const connectionInfo = buildP2PConnectionInfo(lanIP, p2pServer.port, sharedSecret);
+        const connectionInfo = buildP2PConnectionInfo(lanIP, p2pServer.port, sharedSecret, p2pDevices.createPairingCode());
         const qrUrl = buildP2PQRUrl(connectionInfo);
         displayP2PQRCode(qrUrl);
         displayP2PConnectionStatus(lanIP, p2pServer.port);
     }
 
+    // Start scheduled sessions once sessions can reach the P2P server
+    scheduler.start();
+
     // Every 60 seconds:
     // 1. Prune stale sessions
     // 2. Check if daemon needs update
@@ -813,14 +1094,31 @@ export async function startDaemon(): Promise<void> {
       }
 
       // Prune stale sessions
-      for (const [pid, _] of pidToTrackedSession.entries()) {
+      for (const [pid, session] of pidToTrackedSession.entries()) {
         try {
           // Check if process is still alive (signal 0 doesn't kill, just checks)
           process.kill(pid, 0);
         } catch (error) {
           // Process is dead, remove from tracking
           logger.debug(`[DAEMON RUN] Removing stale session with PID ${pid} (process no longer exists)`);
+          recordAuditEvent({ type: 'session-stop', sessionId: session.remcliSessionId, pid, reason: 'exited' });
           pidToTrackedSession.delete(pid);
+
+          // A clean exit sends session-end first; still active means the process died
+          if (session.remcliSessionId && p2pStore.getSession(session.remcliSessionId)?.active) {
+            p2pStore.setSessionActive(session.remcliSessionId, false);
+            p2pServer.router.emitEphemeral({
+              type: 'activity',
+              id: session.remcliSessionId,
+              active: false,
+              activeAt: Date.now(),
+              thinking: false
+            }, { type: 'user-scoped-only' });
+            emitNotification(p2pStore, p2pServer.router, { kind: 'session-crashed', sessionId: session.remcliSessionId });
+          }
+          if (session.remcliSessionId) {
+            sessionPaths.delete(session.remcliSessionId);
+          }
         }
       }
 
@@ -875,6 +1173,7 @@ export async function startDaemon(): Promise<void> {
           p2pPort: p2pServer.port,
           p2pHost: lanIP,
           p2pSharedSecret: encodeSharedSecret(sharedSecret),
+          p2pLocalToken: localToken,
           tunnelUrl
         };
         writeDaemonState(updatedState);
@@ -892,6 +1191,11 @@ export async function startDaemon(): Promise<void> {
     const cleanupAndShutdown = async (source: 'remcli-app' | 'remcli-cli' | 'os-signal' | 'exception', errorMessage?: string) => {
       logger.debug(`[DAEMON RUN] Starting proper cleanup (source: ${source}, errorMessage: ${errorMessage})...`);
 
+      scheduler.stop();
+      usage.flush();
+      cancelBashJobs();
+      await terminals.closeAll();
+
       // Clear health check interval
       if (restartOnStaleVersionAndHeartbeat) {
         clearInterval(restartOnStaleVersionAndHeartbeat);
@@ -933,7 +1237,7 @@ export async function startDaemon(): Promise<void> {
         // tmux may not be available
       }
 
-      // Stop ngrok tunnel if running
+      // Stop tunnel if running
       if (tunnelStop) {
         try {
           tunnelStop();
@@ -951,6 +1255,9 @@ export async function startDaemon(): Promise<void> {
         logger.debug('[DAEMON RUN] Failed to stop P2P server:', error);
       }
 
+      // Flush pending P2P store writes
+      p2pStore.close();
+
       await stopControlServer();
       await cleanupDaemonState();
       await stopCaffeinate();
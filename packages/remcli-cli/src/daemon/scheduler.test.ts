@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, statSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DaemonScheduler, cronMatches, nextCronTime, parseCron, takeInitialPromptFromEnvironment, writeInitialPromptFile } from './scheduler';
+
+vi.mock('@/ui/logger', () => ({
+    logger: {
+        debug: vi.fn()
+    }
+}));
+
+describe('cron expressions', () => {
+    it('parses lists, ranges, steps and macros', () => {
+        const schedule = parseCron('*/15 9-17 * * 1-5');
+        expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+        expect([...schedule.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+        expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+
+        expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+        expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+        expect(() => parseCron('0 0 * *')).toThrow('expected 5 fields');
+        expect(() => parseCron('60 * * * *')).toThrow('out of range');
+        expect(() => parseCron('a * * * *')).toThrow('bad field');
+    });
+
+    it('matches either day field when both are restricted', () => {
+        const schedule = parseCron('0 12 1 * 1');
+        // Monday 2026-10-05 and Thursday 2026-10-01
+        expect(cronMatches(schedule, new Date(2026, 9, 5, 12, 0))).toBe(true);
+        expect(cronMatches(schedule, new Date(2026, 9, 1, 12, 0))).toBe(true);
+        expect(cronMatches(schedule, new Date(2026, 9, 6, 12, 0))).toBe(false);
+    });
+
+    it('finds the next run', () => {
+        const next = nextCronTime(parseCron('30 3 * * *'), new Date(2026, 9, 5, 12, 0));
+        expect(next).toEqual(new Date(2026, 9, 6, 3, 30));
+    });
+});
+
+describe('DaemonScheduler', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'remcli-scheduler-test-'));
+        filePath = join(dir, 'schedules.json');
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('spawns due jobs once per minute and persists their runs', async () => {
+        const spawn = vi.fn().mockResolvedValue({ type: 'success', sessionId: 'session-1' });
+        const scheduler = new DaemonScheduler({ filePath, spawn, isSessionRunning: () => false });
+        const job = scheduler.add({ name: 'Nightly', cron: '0 3 * * *', directory: '/tmp/project', prompt: 'Run the tests' });
+        scheduler.add({ name: 'Off', cron: '0 3 * * *', directory: '/tmp/project', prompt: 'Nothing', enabled: false });
+
+        await scheduler.tick(new Date(2026, 9, 5, 2, 59));
+        expect(spawn).not.toHaveBeenCalled();
+
+        await scheduler.tick(new Date(2026, 9, 5, 3, 0, 10));
+        await scheduler.tick(new Date(2026, 9, 5, 3, 0, 40));
+        expect(spawn).toHaveBeenCalledTimes(1);
+        expect(spawn.mock.calls[0][0]).toMatchObject({ id: job.id, agent: 'claude', prompt: 'Run the tests' });
+
+        scheduler.markSessionEnded('session-1');
+        const reloaded = new DaemonScheduler({ filePath, spawn, isSessionRunning: () => false });
+        expect(reloaded.list()[0].runs).toEqual([
+            expect.objectContaining({ status: 'started', sessionId: 'session-1', endedAt: expect.any(Number) })
+        ]);
+        expect(JSON.parse(readFileSync(filePath, 'utf8')).jobs).toHaveLength(2);
+    });
+
+    it('skips a run while the previous session is alive and records failures', async () => {
+        const spawn = vi.fn()
+            .mockResolvedValueOnce({ type: 'success', sessionId: 'session-1' })
+            .mockResolvedValueOnce({ type: 'error', errorMessage: 'Failed to spawn session: boom' });
+        const running = new Set(['session-1']);
+        const scheduler = new DaemonScheduler({ filePath, spawn, isSessionRunning: (id) => running.has(id) });
+        const job = scheduler.add({ name: 'Hourly', cron: '@hourly', directory: '/tmp/project', prompt: 'Check CI' });
+
+        await scheduler.run(job.id);
+        const skipped = await scheduler.run(job.id);
+        expect(skipped).toMatchObject({ status: 'skipped' });
+        expect(spawn).toHaveBeenCalledTimes(1);
+
+        running.clear();
+        const failed = await scheduler.run(job.id);
+        expect(failed).toMatchObject({ status: 'failed', error: 'Failed to spawn session: boom' });
+        expect(scheduler.list()[0].runs.map((run) => run.status)).toEqual(['failed', 'skipped', 'started']);
+    });
+
+    it('rejects invalid cron expressions', () => {
+        const scheduler = new DaemonScheduler({ filePath, spawn: vi.fn(), isSessionRunning: () => false });
+        expect(() => scheduler.add({ name: 'Bad', cron: 'every day', directory: '/tmp', prompt: 'x' })).toThrow();
+        expect(scheduler.list()).toEqual([]);
+    });
+});
+
+describe('initial prompt files', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'remcli-prompt-test-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+        delete process.env.REMCLI_INITIAL_PROMPT_FILE;
+    });
+
+    it('hands the prompt over verbatim, once', () => {
+        const file = writeInitialPromptFile('Deploy ${HOME} with $(date)', dir);
+        expect(statSync(file).mode & 0o777).toBe(0o600);
+
+        process.env.REMCLI_INITIAL_PROMPT_FILE = file;
+        expect(takeInitialPromptFromEnvironment()).toBe('Deploy ${HOME} with $(date)');
+        expect(process.env.REMCLI_INITIAL_PROMPT_FILE).toBeUndefined();
+        expect(existsSync(file)).toBe(false);
+
+        process.env.REMCLI_INITIAL_PROMPT_FILE = file;
+        expect(takeInitialPromptFromEnvironment()).toBeNull();
+    });
+});
@@ -0,0 +1,385 @@
+/**
+ * Scheduled sessions
+ *
+ * Cron-like jobs kept in ~/.remcli/schedules.json. Each job spawns an agent in a
+ * directory with a prompt, e.g. "0 3 * * *" → "run the tests and fix flaky ones".
+ * The prompt reaches the new session through a private file named by
+ * REMCLI_INITIAL_PROMPT_FILE, which the session client reads, deletes and posts
+ * as the first user message.
+ *
+ * The daemon is the only writer of the file. `remcli schedule` goes through the
+ * control server and the app through machine RPCs, so edits never race with the
+ * run history the scheduler records.
+ *
+ * Cron expressions have five fields (minute hour day-of-month month day-of-week)
+ * with `*`, lists, ranges and steps, or one of @hourly, @daily, @weekly, @monthly.
+ * Times are the daemon's local time. A job is skipped while the session of its
+ * previous run is still alive.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import * as z from 'zod';
+import { configuration } from '@/configuration';
+import { logger } from '@/ui/logger';
+import type { SpawnSessionResult } from '@/modules/common/registerCommonHandlers';
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export const SCHEDULE_AGENTS = ['claude', 'codex', 'gemini', 'cursor'] as const;
+
+export type ScheduleAgent = typeof SCHEDULE_AGENTS[number];
+
+const ScheduledRunSchema = z.object({
+    startedAt: z.number(),
+    status: z.enum(['started', 'failed', 'skipped']),
+    sessionId: z.string().optional(),
+    endedAt: z.number().optional(),
+    error: z.string().optional()
+});
+
+export type ScheduledRun = z.infer<typeof ScheduledRunSchema>;
+
+export const ScheduledJobSchema = z.object({
+    id: z.string(),
+    name: z.string().min(1),
+    cron: z.string(),
+    directory: z.string().min(1),
+    agent: z.enum(SCHEDULE_AGENTS).default('claude'),
+    profileId: z.string().optional(),
+    prompt: z.string().min(1),
+    enabled: z.boolean().default(true),
+    createdAt: z.number(),
+    /** Most recent first */
+    runs: z.array(ScheduledRunSchema).default([])
+});
+
+export type ScheduledJob = z.infer<typeof ScheduledJobSchema>;
+
+export const NewScheduledJobSchema = ScheduledJobSchema.pick({
+    name: true,
+    cron: true,
+    directory: true,
+    agent: true,
+    profileId: true,
+    prompt: true,
+    enabled: true
+});
+
+export type NewScheduledJob = z.input<typeof NewScheduledJobSchema>;
+
+export interface SchedulerOptions {
+    filePath?: string;
+    /** Spawn the session for a job; the scheduler records the outcome */
+    spawn: (job: ScheduledJob) => Promise<SpawnSessionResult>;
+    /** Whether a session started by an earlier run is still alive */
+    isSessionRunning: (sessionId: string) => boolean;
+}
+
+const MAX_RUNS_PER_JOB = 10;
+
+// ─── Cron ────────────────────────────────────────────────────────
+
+export interface CronSchedule {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    /** Both day fields restricted: standard cron matches either of them */
+    dayOr: boolean;
+}
+
+const CRON_MACROS: Record<string, string> = {
+    '@hourly': '0 * * * *',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@weekly': '0 0 * * 0',
+    '@monthly': '0 0 1 * *',
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *'
+};
+
+/**
+ * Parse a five-field cron expression; throws on invalid input
+ */
+export function parseCron(expression: string): CronSchedule {
+    const expanded = CRON_MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+    const fields = expanded.split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+    }
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+    const daysOfWeek = parseCronField(dayOfWeek, 0, 7, expression);
+    if (daysOfWeek.has(7)) {
+        daysOfWeek.delete(7);
+        daysOfWeek.add(0);
+    }
+    return {
+        minutes: parseCronField(minute, 0, 59, expression),
+        hours: parseCronField(hour, 0, 23, expression),
+        daysOfMonth: parseCronField(dayOfMonth, 1, 31, expression),
+        months: parseCronField(month, 1, 12, expression),
+        daysOfWeek,
+        dayOr: !dayOfMonth.startsWith('*') && !dayOfWeek.startsWith('*')
+    };
+}
+
+function parseCronField(field: string, min: number, max: number, expression: string): Set<number> {
+    const values = new Set<number>();
+    for (const part of field.split(',')) {
+        const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+        if (!match) {
+            throw new Error(`Invalid cron expression "${expression}": bad field "${field}"`);
+        }
+        const [, range, start, end, step] = match;
+        const from = range === '*' ? min : Number(start);
+        const to = range === '*' ? max : end !== undefined ? Number(end) : step ? max : from;
+        const increment = step ? Number(step) : 1;
+        if (from < min || to > max || from > to || increment < 1) {
+            throw new Error(`Invalid cron expression "${expression}": "${part}" is out of range ${min}-${max}`);
+        }
+        for (let value = from; value <= to; value += increment) {
+            values.add(value);
+        }
+    }
+    return values;
+}
+
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+    if (!schedule.minutes.has(date.getMinutes()) || !schedule.hours.has(date.getHours()) || !schedule.months.has(date.getMonth() + 1)) {
+        return false;
+    }
+    const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+    const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+    return schedule.dayOr ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Next time a schedule fires after `after`, searched minute by minute up to a year ahead
+ */
+export function nextCronTime(schedule: CronSchedule, after: Date): Date | null {
+    const date = new Date(after);
+    date.setSeconds(0, 0);
+    for (let i = 0; i < 366 * 24 * 60; i++) {
+        date.setMinutes(date.getMinutes() + 1);
+        if (cronMatches(schedule, date)) {
+            return date;
+        }
+    }
+    return null;
+}
+
+// ─── Scheduler ───────────────────────────────────────────────────
+
+export class DaemonScheduler {
+    private readonly filePath: string;
+    private jobs: ScheduledJob[];
+    private timer: NodeJS.Timeout | null = null;
+    private lastTickMinute: number | null = null;
+
+    constructor(private readonly options: SchedulerOptions) {
+        this.filePath = options.filePath ?? join(configuration.remcliHomeDir, 'schedules.json');
+        this.jobs = this.load();
+    }
+
+    list(): ScheduledJob[] {
+        return this.jobs.map((job) => ({ ...job, runs: [...job.runs] }));
+    }
+
+    add(input: NewScheduledJob): ScheduledJob {
+        const fields = NewScheduledJobSchema.parse(input);
+        parseCron(fields.cron);
+        const job: ScheduledJob = { ...fields, id: randomUUID().slice(0, 8), createdAt: Date.now(), runs: [] };
+        this.jobs.push(job);
+        this.save();
+        logger.debug(`[SCHEDULER] Added job ${job.id} (${job.name}, ${job.cron})`);
+        return job;
+    }
+
+    remove(id: string): boolean {
+        const count = this.jobs.length;
+        this.jobs = this.jobs.filter((job) => job.id !== id);
+        if (this.jobs.length === count) {
+            return false;
+        }
+        this.save();
+        logger.debug(`[SCHEDULER] Removed job ${id}`);
+        return true;
+    }
+
+    setEnabled(id: string, enabled: boolean): ScheduledJob | null {
+        const job = this.jobs.find((j) => j.id === id);
+        if (!job) {
+            return null;
+        }
+        job.enabled = enabled;
+        this.save();
+        return { ...job };
+    }
+
+    /**
+     * Run a job now, outside its schedule
+     */
+    async run(id: string): Promise<ScheduledRun | null> {
+        const job = this.jobs.find((j) => j.id === id);
+        return job ? this.runJob(job) : null;
+    }
+
+    /**
+     * Record the end of a session started by a job
+     */
+    markSessionEnded(sessionId: string): void {
+        for (const job of this.jobs) {
+            const run = job.runs.find((r) => r.sessionId === sessionId);
+            if (run && !run.endedAt) {
+                run.endedAt = Date.now();
+                this.save();
+                return;
+            }
+        }
+    }
+
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+        // Check twice a minute so a late timer never skips a minute
+        const tick = () => this.tick(new Date()).catch((error) => {
+            logger.debug('[SCHEDULER] Tick failed:', error);
+        });
+        this.timer = setInterval(tick, 30_000);
+        tick();
+        logger.debug(`[SCHEDULER] Started with ${this.jobs.length} job(s)`);
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Start every enabled job whose schedule matches the current minute (once per minute)
+     */
+    async tick(now: Date): Promise<void> {
+        const minute = Math.floor(now.getTime() / 60_000);
+        if (minute === this.lastTickMinute) {
+            return;
+        }
+        this.lastTickMinute = minute;
+
+        for (const job of this.jobs) {
+            if (!job.enabled) {
+                continue;
+            }
+            let schedule: CronSchedule;
+            try {
+                schedule = parseCron(job.cron);
+            } catch (error) {
+                logger.debug(`[SCHEDULER] Skipping job ${job.id}:`, error);
+                continue;
+            }
+            if (cronMatches(schedule, now)) {
+                await this.runJob(job);
+            }
+        }
+    }
+
+    private async runJob(job: ScheduledJob): Promise<ScheduledRun> {
+        const previous = job.runs[0];
+        let run: ScheduledRun;
+        if (previous?.sessionId && !previous.endedAt && this.options.isSessionRunning(previous.sessionId)) {
+            run = { startedAt: Date.now(), status: 'skipped', error: `Previous run (session ${previous.sessionId}) is still running` };
+        } else {
+            run = await this.spawn(job);
+        }
+        logger.debug(`[SCHEDULER] Job ${job.id} (${job.name}): ${run.status}${run.sessionId ? ` → ${run.sessionId}` : ''}${run.error ? ` (${run.error})` : ''}`);
+
+        job.runs = [run, ...job.runs].slice(0, MAX_RUNS_PER_JOB);
+        this.save();
+        return run;
+    }
+
+    private async spawn(job: ScheduledJob): Promise<ScheduledRun> {
+        const startedAt = Date.now();
+        try {
+            const result = await this.options.spawn(job);
+            switch (result.type) {
+                case 'success':
+                    return { startedAt, status: 'started', sessionId: result.sessionId };
+                case 'requestToApproveDirectoryCreation':
+                    return { startedAt, status: 'failed', error: `Directory ${result.directory} does not exist` };
+                case 'error':
+                    return { startedAt, status: 'failed', error: result.errorMessage };
+            }
+        } catch (error) {
+            return { startedAt, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+
+    private load(): ScheduledJob[] {
+        if (!existsSync(this.filePath)) {
+            return [];
+        }
+        try {
+            const raw = JSON.parse(readFileSync(this.filePath, 'utf8'));
+            const jobs: ScheduledJob[] = [];
+            for (const entry of Array.isArray(raw?.jobs) ? raw.jobs : []) {
+                const parsed = ScheduledJobSchema.safeParse(entry);
+                if (parsed.success) {
+                    jobs.push(parsed.data);
+                } else {
+                    logger.debug(`[SCHEDULER] Skipping invalid job in ${this.filePath}: ${JSON.stringify(entry)}`);
+                }
+            }
+            return jobs;
+        } catch (error) {
+            logger.debug(`[SCHEDULER] Failed to read ${this.filePath}:`, error);
+            return [];
+        }
+    }
+
+    private save(): void {
+        mkdirSync(dirname(this.filePath), { recursive: true });
+        const tmpFile = this.filePath + '.tmp';
+        writeFileSync(tmpFile, JSON.stringify({ jobs: this.jobs }, null, 2));
+        renameSync(tmpFile, this.filePath);
+    }
+}
+
+// ─── Initial prompt ──────────────────────────────────────────────
+
+/**
+ * Write a job's prompt for the session it starts. The prompt stays out of the
+ * environment, where profile variable expansion would rewrite `${...}` in it
+ * and tmux would keep it for every later pane of the session.
+ */
+export function writeInitialPromptFile(prompt: string, dir: string = join(configuration.remcliHomeDir, 'tmp', 'prompts')): string {
+    mkdirSync(dir, { recursive: true, mode: 0o700 });
+    const file = join(dir, `${randomUUID()}.txt`);
+    writeFileSync(file, prompt, { mode: 0o600 });
+    return file;
+}
+
+/**
+ * Read and delete the prompt file the daemon passed to this session, so it
+ * is posted only once
+ */
+export function takeInitialPromptFromEnvironment(): string | null {
+    const file = process.env.REMCLI_INITIAL_PROMPT_FILE;
+    delete process.env.REMCLI_INITIAL_PROMPT_FILE;
+    if (!file) {
+        return null;
+    }
+    try {
+        return readFileSync(file, 'utf8') || null;
+    } catch (error) {
+        logger.debug(`[SCHEDULER] Failed to read initial prompt ${file}:`, error);
+        return null;
+    } finally {
+        rmSync(file, { force: true });
+    }
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { DaemonTerminals, TerminalEvent, decodeControlModeOutput } from './terminals';
+
+vi.mock('@/ui/logger', () => ({
+    logger: {
+        debug: vi.fn()
+    }
+}));
+
+function hasTmux(): boolean {
+    try {
+        execFileSync('tmux', ['-V'], { stdio: 'ignore' });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 5000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!check()) {
+        if (Date.now() > deadline) {
+            throw new Error('Timed out');
+        }
+        await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+}
+
+describe('decodeControlModeOutput', () => {
+    it('decodes octal escapes and keeps raw bytes', () => {
+        expect(decodeControlModeOutput('hi\\015\\012').toString()).toBe('hi\r\n');
+        expect(decodeControlModeOutput('a\\134b').toString()).toBe('a\\b');
+        expect(decodeControlModeOutput(Buffer.from('héllo').toString('latin1')).toString()).toBe('héllo');
+    });
+});
+
+describe.skipIf(!hasTmux())('DaemonTerminals', { timeout: 20_000 }, () => {
+    it('runs a shell, streams its output and reports the exit', async () => {
+        const events: TerminalEvent[] = [];
+        const terminals = new DaemonTerminals({ onEvent: (event) => events.push(event), getTmuxTarget: () => null });
+        const output = () => events.map((event) => event.type === 'output' ? event.data : '').join('');
+
+        const { terminalId } = await terminals.open({ directory: '/tmp', cols: 80, rows: 24 });
+        try {
+            terminals.input(terminalId, 'echo remcli-$((6*7))\r');
+            await waitFor(() => output().includes('remcli-42'));
+
+            terminals.input(terminalId, 'exit\r');
+            await waitFor(() => events.some((event) => event.type === 'exit'));
+            expect(terminals.input(terminalId, 'ls\r')).toBe(false);
+        } finally {
+            await terminals.closeAll();
+        }
+    });
+
+    it('closes terminals the app stopped pinging', async () => {
+        const events: TerminalEvent[] = [];
+        const terminals = new DaemonTerminals({ onEvent: (event) => events.push(event), getTmuxTarget: () => null, idleTimeoutMs: 400 });
+
+        const { terminalId } = await terminals.open({ directory: '/tmp', cols: 80, rows: 24 });
+        try {
+            await new Promise((resolve) => setTimeout(resolve, 250));
+            expect(terminals.keepAlive(terminalId)).toBe(true);
+            await new Promise((resolve) => setTimeout(resolve, 250));
+            expect(events.some((event) => event.type === 'exit')).toBe(false);
+
+            await waitFor(() => events.some((event) => event.type === 'exit'));
+            expect(terminals.keepAlive(terminalId)).toBe(false);
+        } finally {
+            await terminals.closeAll();
+        }
+    });
+
+    it('refuses to attach to a session that is not in tmux', async () => {
+        const terminals = new DaemonTerminals({ onEvent: () => { }, getTmuxTarget: () => null });
+        await expect(terminals.open({ sessionId: 'session-1', cols: 80, rows: 24 })).rejects.toThrow('not running in tmux');
+    });
+});
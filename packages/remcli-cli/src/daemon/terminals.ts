@@ -0,0 +1,316 @@
+/**
+ * Remote terminals
+ *
+ * Interactive shells for the app. There is no PTY library in the CLI, so each
+ * terminal is a tmux session, which daemon-spawned sessions already require:
+ * - a new shell: a detached tmux session running the user's shell in a directory
+ * - an agent session: a session grouped with the one the agent runs in, showing
+ *   its window, so closing the terminal never touches the agent
+ *
+ * The daemon drives each terminal through a `tmux -C` control-mode client:
+ * pane output arrives as `%output` lines, input goes back as `send-keys -H`
+ * and the app's screen size as `refresh-client -C`. Output is batched and
+ * handed to `onEvent`, which encrypts it and streams it to the app.
+ *
+ * The app pings open terminals with `keepAlive`. A terminal nobody has pinged,
+ * typed into or resized for `idleTimeoutMs` is closed, so an app that crashed
+ * or lost its connection doesn't leave tmux sessions behind.
+ */
+
+import { ChildProcess, execFile, spawn } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { StringDecoder } from 'node:string_decoder';
+import { promisify } from 'node:util';
+import { logger } from '@/ui/logger';
+import { parseTmuxSessionIdentifier } from '@/utils/tmux';
+
+const execFileAsync = promisify(execFile);
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export type TerminalEvent =
+    | { terminalId: string; type: 'output'; data: string }
+    | { terminalId: string; type: 'exit' };
+
+export interface OpenTerminalOptions {
+    /** Attach to the tmux window of this session instead of starting a shell */
+    sessionId?: string;
+    /** Working directory of a new shell (defaults to the home directory) */
+    directory?: string;
+    cols: number;
+    rows: number;
+}
+
+export interface DaemonTerminalsOptions {
+    onEvent: (event: TerminalEvent) => void;
+    /** tmux target (`session:window`) of a daemon-spawned session, if it runs in tmux */
+    getTmuxTarget: (sessionId: string) => string | null;
+    /** Close terminals the app hasn't touched for this long (default 5 minutes) */
+    idleTimeoutMs?: number;
+}
+
+interface Terminal {
+    id: string;
+    tmuxSession: string;
+    paneId: string;
+    client: ChildProcess;
+    decoder: StringDecoder;
+    pending: string;
+    flushTimer: NodeJS.Timeout | null;
+    ready: boolean;
+    lastActiveAt: number;
+}
+
+const OUTPUT_FLUSH_MS = 20;
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60_000;
+const INPUT_CHUNK_BYTES = 256;
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+async function tmux(args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('tmux', args, { timeout: 5000 });
+    return stdout;
+}
+
+/**
+ * Decode the octal escapes tmux uses for `%output` data (`\ooo` for control
+ * characters and backslash), keeping the raw bytes
+ */
+export function decodeControlModeOutput(data: string): Buffer {
+    const bytes: number[] = [];
+    for (let i = 0; i < data.length; i++) {
+        if (data[i] === '\\' && /^[0-7]{3}$/.test(data.slice(i + 1, i + 4))) {
+            bytes.push(parseInt(data.slice(i + 1, i + 4), 8));
+            i += 3;
+        } else {
+            // Control mode writes the pane's bytes one per character
+            bytes.push(data.charCodeAt(i) & 0xff);
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+function clampSize(value: number, max: number): number {
+    return Math.min(Math.max(Math.floor(value) || 0, 10), max);
+}
+
+// ─── Terminals ───────────────────────────────────────────────────
+
+export class DaemonTerminals {
+    private terminals = new Map<string, Terminal>();
+    private idleTimer: NodeJS.Timeout | null = null;
+    private readonly idleTimeoutMs: number;
+
+    constructor(private readonly options: DaemonTerminalsOptions) {
+        this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    }
+
+    async open(options: OpenTerminalOptions): Promise<{ terminalId: string; title: string }> {
+        const id = randomUUID().slice(0, 8);
+        const tmuxSession = `remcli-term-${id}`;
+        const cols = clampSize(options.cols, 500);
+        const rows = clampSize(options.rows, 200);
+        let title: string;
+
+        if (options.sessionId) {
+            const target = this.options.getTmuxTarget(options.sessionId);
+            if (!target) {
+                throw new Error('Session is not running in tmux');
+            }
+            const parsed = parseTmuxSessionIdentifier(target);
+            await tmux(['new-session', '-d', '-s', tmuxSession, '-t', parsed.session]);
+            if (parsed.window) {
+                await tmux(['select-window', '-t', `${tmuxSession}:${parsed.window}`]);
+            }
+            title = target;
+        } else {
+            const directory = options.directory || process.env.HOME || '/';
+            await tmux(['new-session', '-d', '-s', tmuxSession, '-x', String(cols), '-y', String(rows), '-c', directory]);
+            title = directory;
+        }
+
+        const paneId = (await tmux(['display-message', '-p', '-t', tmuxSession, '#{pane_id}'])).trim();
+        const client = spawn('tmux', ['-C', 'attach-session', '-t', tmuxSession], { stdio: ['pipe', 'pipe', 'ignore'] });
+        const terminal: Terminal = {
+            id,
+            tmuxSession,
+            paneId,
+            client,
+            decoder: new StringDecoder('utf8'),
+            pending: '',
+            flushTimer: null,
+            ready: false,
+            lastActiveAt: Date.now()
+        };
+        this.terminals.set(id, terminal);
+        this.startIdleTimer();
+        this.attachClient(terminal);
+        this.command(terminal, `refresh-client -C ${cols}x${rows}`);
+        logger.debug(`[TERMINALS] Opened ${id} (${title}, pane ${paneId}, ${cols}x${rows})`);
+
+        // Redraw the current screen first; output from before the snapshot is already in it
+        try {
+            const [screen, cursor] = await Promise.all([
+                tmux(['capture-pane', '-p', '-e', '-t', paneId]),
+                tmux(['display-message', '-p', '-t', paneId, '#{cursor_x},#{cursor_y}'])
+            ]);
+            const [x, y] = cursor.trim().split(',').map(Number);
+            const lines = screen.replace(/\n$/, '').split('\n');
+            terminal.pending = `\x1b[H\x1b[2J${lines.join('\r\n')}\x1b[${(y || 0) + 1};${(x || 0) + 1}H`;
+            this.scheduleFlush(terminal);
+        } catch (error) {
+            logger.debug(`[TERMINALS] Failed to capture the screen of ${id}:`, error);
+        }
+        terminal.ready = true;
+
+        return { terminalId: id, title };
+    }
+
+    input(terminalId: string, data: string): boolean {
+        const terminal = this.terminals.get(terminalId);
+        if (!terminal) {
+            return false;
+        }
+        terminal.lastActiveAt = Date.now();
+        const bytes = Buffer.from(data, 'utf8');
+        for (let offset = 0; offset < bytes.length; offset += INPUT_CHUNK_BYTES) {
+            const hex = Array.from(bytes.subarray(offset, offset + INPUT_CHUNK_BYTES), (b) => b.toString(16).padStart(2, '0'));
+            this.command(terminal, `send-keys -t ${terminal.paneId} -H ${hex.join(' ')}`);
+        }
+        return true;
+    }
+
+    resize(terminalId: string, cols: number, rows: number): boolean {
+        const terminal = this.terminals.get(terminalId);
+        if (!terminal) {
+            return false;
+        }
+        terminal.lastActiveAt = Date.now();
+        this.command(terminal, `refresh-client -C ${clampSize(cols, 500)}x${clampSize(rows, 200)}`);
+        return true;
+    }
+
+    /**
+     * The app still shows the terminal
+     */
+    keepAlive(terminalId: string): boolean {
+        const terminal = this.terminals.get(terminalId);
+        if (!terminal) {
+            return false;
+        }
+        terminal.lastActiveAt = Date.now();
+        return true;
+    }
+
+    async close(terminalId: string): Promise<boolean> {
+        const terminal = this.terminals.get(terminalId);
+        if (!terminal) {
+            return false;
+        }
+        // Kills the shell of a new terminal; a grouped session only drops its view of the agent's window
+        try {
+            await tmux(['kill-session', '-t', terminal.tmuxSession]);
+        } catch (error) {
+            logger.debug(`[TERMINALS] Failed to kill tmux session ${terminal.tmuxSession}:`, error);
+        }
+        this.dispose(terminal);
+        return true;
+    }
+
+    async closeAll(): Promise<void> {
+        await Promise.all(Array.from(this.terminals.keys(), (id) => this.close(id)));
+    }
+
+    private startIdleTimer(): void {
+        if (this.idleTimer) {
+            return;
+        }
+        this.idleTimer = setInterval(() => {
+            const now = Date.now();
+            for (const terminal of this.terminals.values()) {
+                if (now - terminal.lastActiveAt >= this.idleTimeoutMs) {
+                    logger.debug(`[TERMINALS] Closing ${terminal.id}, idle for ${Math.round((now - terminal.lastActiveAt) / 1000)}s`);
+                    void this.close(terminal.id);
+                }
+            }
+        }, Math.min(this.idleTimeoutMs, 60_000));
+        this.idleTimer.unref();
+    }
+
+    private attachClient(terminal: Terminal): void {
+        let buffer = '';
+        terminal.client.stdout!.setEncoding('latin1');
+        terminal.client.stdout!.on('data', (chunk: string) => {
+            buffer += chunk;
+            let newline: number;
+            while ((newline = buffer.indexOf('\n')) !== -1) {
+                this.handleLine(terminal, buffer.slice(0, newline));
+                buffer = buffer.slice(newline + 1);
+            }
+        });
+        terminal.client.on('exit', () => {
+            logger.debug(`[TERMINALS] Control client of ${terminal.id} exited`);
+            this.dispose(terminal);
+        });
+        terminal.client.on('error', (error) => {
+            logger.debug(`[TERMINALS] Control client of ${terminal.id} failed:`, error);
+            this.dispose(terminal);
+        });
+    }
+
+    private handleLine(terminal: Terminal, line: string): void {
+        if (line.startsWith('%output ')) {
+            const space = line.indexOf(' ', 8);
+            if (!terminal.ready || line.slice(8, space) !== terminal.paneId) {
+                return;
+            }
+            terminal.pending += terminal.decoder.write(decodeControlModeOutput(line.slice(space + 1)));
+            this.scheduleFlush(terminal);
+        } else if (line.startsWith('%exit')) {
+            this.dispose(terminal);
+        }
+    }
+
+    private scheduleFlush(terminal: Terminal): void {
+        if (terminal.flushTimer) {
+            return;
+        }
+        terminal.flushTimer = setTimeout(() => this.flush(terminal), OUTPUT_FLUSH_MS);
+    }
+
+    private flush(terminal: Terminal): void {
+        terminal.flushTimer = null;
+        if (terminal.pending) {
+            const data = terminal.pending;
+            terminal.pending = '';
+            this.options.onEvent({ terminalId: terminal.id, type: 'output', data });
+        }
+    }
+
+    private command(terminal: Terminal, command: string): void {
+        if (terminal.client.stdin?.writable) {
+            terminal.client.stdin.write(command + '\n');
+        }
+    }
+
+    private dispose(terminal: Terminal): void {
+        if (this.terminals.get(terminal.id) !== terminal) {
+            return;
+        }
+        this.terminals.delete(terminal.id);
+        if (this.terminals.size === 0 && this.idleTimer) {
+            clearInterval(this.idleTimer);
+            this.idleTimer = null;
+        }
+        if (terminal.flushTimer) {
+            clearTimeout(terminal.flushTimer);
+        }
+        this.flush(terminal);
+        terminal.client.stdin?.end();
+        if (terminal.client.exitCode === null) {
+            terminal.client.kill();
+        }
+        logger.debug(`[TERMINALS] Closed ${terminal.id}`);
+        this.options.onEvent({ terminalId: terminal.id, type: 'exit' });
+    }
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { UsageLedger, UsageReport } from './usageLedger';
+
+vi.mock('@/ui/logger', () => ({
+    logger: {
+        debug: vi.fn()
+    }
+}));
+
+function report(fields: Partial<UsageReport> & { costUsd: number }): UsageReport {
+    return {
+        sessionId: fields.sessionId ?? 'session-1',
+        agent: fields.agent ?? 'claude',
+        project: fields.project ?? '/src/app',
+        model: fields.model ?? 'claude-sonnet-4-5',
+        tokens: { total: 150, input: 100, output: 50, cache_creation: 0, cache_read: 0 },
+        cost: { total: fields.costUsd, input: 0, output: 0 }
+    };
+}
+
+describe('UsageLedger', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'remcli-usage-test-'));
+        filePath = join(dir, 'usage.json');
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('groups recorded usage and persists it', () => {
+        const ledger = new UsageLedger({ filePath });
+        ledger.record(report({ costUsd: 1 }), new Date(2026, 9, 5, 10));
+        ledger.record(report({ costUsd: 2 }), new Date(2026, 9, 5, 11));
+        ledger.record(report({ costUsd: 4, project: '/src/api', sessionId: 'session-2', model: 'claude-opus-4-1' }), new Date(2026, 9, 6, 9));
+        ledger.record(report({ costUsd: 8, agent: 'codex', project: '/src/api', sessionId: 'session-3' }), new Date(2026, 9, 6, 12));
+        ledger.flush();
+
+        const reloaded = new UsageLedger({ filePath });
+        const byProject = reloaded.query({ groupBy: ['project'] });
+        expect(byProject.rows.map((row) => [row.project, row.costUsd, row.reports])).toEqual([
+            ['/src/api', 12, 2],
+            ['/src/app', 3, 2]
+        ]);
+        expect(byProject.total).toMatchObject({ costUsd: 15, reports: 4, tokens: { total: 600, input: 400, output: 200 } });
+
+        const byDay = reloaded.query({ groupBy: ['day', 'agent'], since: '2026-10-06' });
+        expect(byDay.rows.map((row) => [row.day, row.agent, row.costUsd])).toEqual([
+            ['2026-10-06', 'codex', 8],
+            ['2026-10-06', 'claude', 4]
+        ]);
+
+        expect(reloaded.query({ model: 'claude-opus-4-1' }).total.costUsd).toBe(4);
+        expect(reloaded.query({ groupBy: ['session'], project: '/src/app' }).rows).toEqual([
+            expect.objectContaining({ sessionId: 'session-1', costUsd: 3 })
+        ]);
+    });
+
+    it('warns once per period and pauses while a pause budget is exceeded', () => {
+        const ledger = new UsageLedger({ filePath });
+        const daily = ledger.addBudget({ period: 'day', limitUsd: 5 });
+        const project = ledger.addBudget({ period: 'month', project: '/src/api', limitUsd: 3, action: 'pause' });
+        const day = new Date(2026, 9, 5, 10);
+
+        expect(ledger.record(report({ costUsd: 4 }), day)).toEqual({ crossed: [], pause: null });
+
+        const crossed = ledger.record(report({ costUsd: 2 }), day);
+        expect(crossed.crossed.map((budget) => budget.id)).toEqual([daily.id]);
+        expect(crossed.crossed[0]).toMatchObject({ spentUsd: 6, periodKey: '2026-10-05', exceeded: true });
+        expect(crossed.pause).toBeNull();
+        expect(ledger.record(report({ costUsd: 1 }), day).crossed).toEqual([]);
+
+        // The project cap only applies to its own project
+        const paused = ledger.record(report({ costUsd: 3, project: '/src/api' }), day);
+        expect(paused.crossed.map((budget) => budget.id)).toEqual([project.id]);
+        expect(paused.pause).toMatchObject({ id: project.id, spentUsd: 3 });
+        expect(ledger.record(report({ costUsd: 0.1, project: '/src/api' }), day).pause?.id).toBe(project.id);
+        expect(ledger.record(report({ costUsd: 0.1 }), day).pause).toBeNull();
+
+        // A new day resets the daily budget but not the monthly one
+        const nextDay = new Date(2026, 9, 6, 10);
+        expect(ledger.listBudgets(nextDay).map((budget) => [budget.id, budget.exceeded])).toEqual([
+            [daily.id, false],
+            [project.id, true]
+        ]);
+
+        expect(ledger.removeBudget(project.id)).toBe(true);
+        expect(ledger.record(report({ costUsd: 1, project: '/src/api' }), nextDay).pause).toBeNull();
+        expect(new UsageLedger({ filePath }).listBudgets().map((budget) => budget.id)).toEqual([daily.id]);
+    });
+});
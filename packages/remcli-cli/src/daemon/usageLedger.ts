@@ -0,0 +1,390 @@
+/**
+ * Usage ledger
+ *
+ * Claude sessions send a `usage-report` after every assistant message. The
+ * daemon adds each one to a bucket per day, session, project, agent and model,
+ * kept in ~/.remcli/usage.json, so `GET /v1/usage`, `remcli usage` and the app
+ * can report spend grouped any way they like. Codex, Gemini and other ACP
+ * agents report nothing, so they are missing here and budgets don't cover them.
+ *
+ * Budgets cap the spend of a day or month, optionally for one project. The
+ * first report over a cap raises a warning for that period; a budget with the
+ * `pause` action also stops the reporting session's turn on every report until
+ * the period ends or the budget is changed.
+ *
+ * Days are the daemon's local date. Reports are recorded often, so writes are
+ * batched and flushed when the daemon stops.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import * as z from 'zod';
+import { configuration } from '@/configuration';
+import { logger } from '@/ui/logger';
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export const USAGE_GROUP_BY = ['day', 'project', 'agent', 'model', 'session'] as const;
+
+export type UsageGroupBy = typeof USAGE_GROUP_BY[number];
+
+const UsageTokensSchema = z.object({
+    total: z.number().default(0),
+    input: z.number().default(0),
+    output: z.number().default(0),
+    cacheCreation: z.number().default(0),
+    cacheRead: z.number().default(0)
+});
+
+export type UsageTokens = z.infer<typeof UsageTokensSchema>;
+
+const UsageBucketSchema = z.object({
+    day: z.string(),
+    sessionId: z.string(),
+    project: z.string(),
+    agent: z.string(),
+    model: z.string(),
+    tokens: UsageTokensSchema,
+    costUsd: z.number(),
+    reports: z.number()
+});
+
+type UsageBucket = z.infer<typeof UsageBucketSchema>;
+
+export const UsageBudgetSchema = z.object({
+    id: z.string(),
+    period: z.enum(['day', 'month']),
+    /** Project directory the cap applies to; all projects when omitted */
+    project: z.string().optional(),
+    limitUsd: z.number().positive(),
+    action: z.enum(['warn', 'pause']).default('warn'),
+    createdAt: z.number()
+});
+
+export type UsageBudget = z.infer<typeof UsageBudgetSchema>;
+
+export const NewUsageBudgetSchema = UsageBudgetSchema.pick({
+    period: true,
+    project: true,
+    limitUsd: true,
+    action: true
+});
+
+export type NewUsageBudget = z.input<typeof NewUsageBudgetSchema>;
+
+/**
+ * A `usage-report` as sent by a session; `agent`, `project` and `model` are
+ * missing from older clients
+ */
+export interface UsageReport {
+    sessionId: string;
+    agent?: string;
+    project?: string;
+    model?: string;
+    tokens: { total: number; [key: string]: number };
+    cost: { total: number; [key: string]: number };
+}
+
+export interface UsageQuery {
+    /** First day to include, YYYY-MM-DD */
+    since?: string;
+    /** Last day to include, YYYY-MM-DD */
+    until?: string;
+    groupBy?: UsageGroupBy[];
+    project?: string;
+    agent?: string;
+    model?: string;
+    sessionId?: string;
+}
+
+export interface UsageRow {
+    day?: string;
+    project?: string;
+    agent?: string;
+    model?: string;
+    sessionId?: string;
+    tokens: UsageTokens;
+    costUsd: number;
+    reports: number;
+}
+
+export interface UsageQueryResult {
+    rows: UsageRow[];
+    total: Omit<UsageRow, UsageGroupBy | 'sessionId'>;
+}
+
+export interface UsageBudgetStatus extends UsageBudget {
+    /** Current period, YYYY-MM-DD or YYYY-MM */
+    periodKey: string;
+    spentUsd: number;
+    exceeded: boolean;
+}
+
+export interface UsageRecordResult {
+    /** Budgets this report pushed over their cap for the first time in the period */
+    crossed: UsageBudgetStatus[];
+    /** A `pause` budget covering the report that is over its cap */
+    pause: UsageBudgetStatus | null;
+}
+
+export interface UsageLedgerOptions {
+    filePath?: string;
+    /** Delay before recorded usage is written to disk */
+    saveDelayMs?: number;
+}
+
+export const UNKNOWN_USAGE_KEY = 'unknown';
+
+const RETENTION_DAYS = 400;
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+export function usageDay(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function periodKey(period: UsageBudget['period'], date: Date): string {
+    const day = usageDay(date);
+    return period === 'day' ? day : day.slice(0, 7);
+}
+
+function emptyTokens(): UsageTokens {
+    return { total: 0, input: 0, output: 0, cacheCreation: 0, cacheRead: 0 };
+}
+
+function addTokens(target: UsageTokens, source: UsageTokens): void {
+    target.total += source.total;
+    target.input += source.input;
+    target.output += source.output;
+    target.cacheCreation += source.cacheCreation;
+    target.cacheRead += source.cacheRead;
+}
+
+function bucketKey(bucket: UsageBucket): string {
+    return [bucket.day, bucket.sessionId, bucket.project, bucket.agent, bucket.model].join('\u0000');
+}
+
+function groupValue(bucket: UsageBucket, key: UsageGroupBy): string {
+    return key === 'session' ? bucket.sessionId : bucket[key];
+}
+
+// ─── Ledger ──────────────────────────────────────────────────────
+
+export class UsageLedger {
+    private readonly filePath: string;
+    private readonly saveDelayMs: number;
+    private buckets = new Map<string, UsageBucket>();
+    private budgets: UsageBudget[] = [];
+    /** Budget id → period in which its warning was raised */
+    private alerts: Record<string, string> = {};
+    private saveTimer: NodeJS.Timeout | null = null;
+
+    constructor(options: UsageLedgerOptions = {}) {
+        this.filePath = options.filePath ?? join(configuration.remcliHomeDir, 'usage.json');
+        this.saveDelayMs = options.saveDelayMs ?? 5_000;
+        this.load();
+    }
+
+    /**
+     * Add a session's usage report and check it against the budgets
+     */
+    record(report: UsageReport, now: Date = new Date()): UsageRecordResult {
+        const bucket: UsageBucket = {
+            day: usageDay(now),
+            sessionId: report.sessionId,
+            project: report.project || UNKNOWN_USAGE_KEY,
+            agent: report.agent || UNKNOWN_USAGE_KEY,
+            model: report.model || UNKNOWN_USAGE_KEY,
+            tokens: {
+                total: report.tokens.total || 0,
+                input: report.tokens.input || 0,
+                output: report.tokens.output || 0,
+                cacheCreation: report.tokens.cache_creation || 0,
+                cacheRead: report.tokens.cache_read || 0
+            },
+            costUsd: report.cost.total || 0,
+            reports: 1
+        };
+        const key = bucketKey(bucket);
+        const existing = this.buckets.get(key);
+        if (existing) {
+            addTokens(existing.tokens, bucket.tokens);
+            existing.costUsd += bucket.costUsd;
+            existing.reports++;
+        } else {
+            this.buckets.set(key, bucket);
+        }
+
+        const result: UsageRecordResult = { crossed: [], pause: null };
+        for (const status of this.budgetStatus(now)) {
+            if (!status.exceeded || (status.project && status.project !== bucket.project)) {
+                continue;
+            }
+            if (status.action === 'pause' && !result.pause) {
+                result.pause = status;
+            }
+            if (this.alerts[status.id] !== status.periodKey) {
+                this.alerts[status.id] = status.periodKey;
+                result.crossed.push(status);
+                logger.debug(`[USAGE] Budget ${status.id} exceeded: $${status.spentUsd.toFixed(2)} of $${status.limitUsd.toFixed(2)} (${status.periodKey})`);
+            }
+        }
+
+        this.scheduleSave();
+        return result;
+    }
+
+    query(query: UsageQuery = {}): UsageQueryResult {
+        const groupBy = query.groupBy ?? [];
+        const rows = new Map<string, UsageRow>();
+        const total = { tokens: emptyTokens(), costUsd: 0, reports: 0 };
+
+        for (const bucket of this.buckets.values()) {
+            if ((query.since && bucket.day < query.since) ||
+                (query.until && bucket.day > query.until) ||
+                (query.project && bucket.project !== query.project) ||
+                (query.agent && bucket.agent !== query.agent) ||
+                (query.model && bucket.model !== query.model) ||
+                (query.sessionId && bucket.sessionId !== query.sessionId)) {
+                continue;
+            }
+
+            addTokens(total.tokens, bucket.tokens);
+            total.costUsd += bucket.costUsd;
+            total.reports += bucket.reports;
+            if (groupBy.length === 0) {
+                continue;
+            }
+
+            const key = groupBy.map((g) => groupValue(bucket, g)).join('\u0000');
+            let row = rows.get(key);
+            if (!row) {
+                row = { tokens: emptyTokens(), costUsd: 0, reports: 0 };
+                for (const g of groupBy) {
+                    row[g === 'session' ? 'sessionId' : g] = groupValue(bucket, g);
+                }
+                rows.set(key, row);
+            }
+            addTokens(row.tokens, bucket.tokens);
+            row.costUsd += bucket.costUsd;
+            row.reports += bucket.reports;
+        }
+
+        // Newest day first, then the most expensive
+        const sorted = [...rows.values()].sort((a, b) =>
+            (b.day ?? '').localeCompare(a.day ?? '') || b.costUsd - a.costUsd);
+        return { rows: sorted, total };
+    }
+
+    // ─── Budgets ─────────────────────────────────────────────────
+
+    listBudgets(now: Date = new Date()): UsageBudgetStatus[] {
+        return this.budgetStatus(now);
+    }
+
+    addBudget(input: NewUsageBudget): UsageBudget {
+        const fields = NewUsageBudgetSchema.parse(input);
+        const budget: UsageBudget = { ...fields, id: randomUUID().slice(0, 8), createdAt: Date.now() };
+        this.budgets.push(budget);
+        this.save();
+        logger.debug(`[USAGE] Added budget ${budget.id} ($${budget.limitUsd} per ${budget.period}${budget.project ? ` for ${budget.project}` : ''}, ${budget.action})`);
+        return budget;
+    }
+
+    removeBudget(id: string): boolean {
+        const count = this.budgets.length;
+        this.budgets = this.budgets.filter((budget) => budget.id !== id);
+        if (this.budgets.length === count) {
+            return false;
+        }
+        delete this.alerts[id];
+        this.save();
+        logger.debug(`[USAGE] Removed budget ${id}`);
+        return true;
+    }
+
+    /**
+     * Write pending usage now; call when the daemon stops
+     */
+    flush(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+            this.save();
+        }
+    }
+
+    private budgetStatus(now: Date): UsageBudgetStatus[] {
+        return this.budgets.map((budget) => {
+            const key = periodKey(budget.period, now);
+            let spentUsd = 0;
+            for (const bucket of this.buckets.values()) {
+                if (bucket.day.startsWith(key) && (!budget.project || bucket.project === budget.project)) {
+                    spentUsd += bucket.costUsd;
+                }
+            }
+            return { ...budget, periodKey: key, spentUsd, exceeded: spentUsd >= budget.limitUsd };
+        });
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimer) {
+            return;
+        }
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null;
+            this.save();
+        }, this.saveDelayMs);
+        this.saveTimer.unref?.();
+    }
+
+    private load(): void {
+        if (!existsSync(this.filePath)) {
+            return;
+        }
+        try {
+            const raw = JSON.parse(readFileSync(this.filePath, 'utf8'));
+            const cutoff = new Date();
+            cutoff.setDate(cutoff.getDate() - RETENTION_DAYS);
+            const oldestDay = usageDay(cutoff);
+
+            for (const entry of Array.isArray(raw?.buckets) ? raw.buckets : []) {
+                const parsed = UsageBucketSchema.safeParse(entry);
+                if (parsed.success && parsed.data.day >= oldestDay) {
+                    this.buckets.set(bucketKey(parsed.data), parsed.data);
+                }
+            }
+            for (const entry of Array.isArray(raw?.budgets) ? raw.budgets : []) {
+                const parsed = UsageBudgetSchema.safeParse(entry);
+                if (parsed.success) {
+                    this.budgets.push(parsed.data);
+                } else {
+                    logger.debug(`[USAGE] Skipping invalid budget in ${this.filePath}: ${JSON.stringify(entry)}`);
+                }
+            }
+            if (raw?.alerts && typeof raw.alerts === 'object') {
+                this.alerts = raw.alerts;
+            }
+        } catch (error) {
+            logger.debug(`[USAGE] Failed to read ${this.filePath}:`, error);
+        }
+    }
+
+    private save(): void {
+        try {
+            mkdirSync(dirname(this.filePath), { recursive: true });
+            const tmpFile = this.filePath + '.tmp';
+            writeFileSync(tmpFile, JSON.stringify({
+                buckets: [...this.buckets.values()],
+                budgets: this.budgets,
+                alerts: this.alerts
+            }));
+            renameSync(tmpFile, this.filePath);
+        } catch (error) {
+            logger.debug(`[USAGE] Failed to write ${this.filePath}:`, error);
+        }
+    }
+}
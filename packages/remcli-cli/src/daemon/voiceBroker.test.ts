@@ -0,0 +1,105 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createServer, IncomingHttpHeaders, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createVoiceProvider, parseVoiceSettings } from './voiceBroker';
+
+vi.mock('@/ui/logger', () => ({
+    logger: {
+        debug: vi.fn(),
+        warn: vi.fn()
+    }
+}));
+
+interface ReceivedRequest {
+    method: string;
+    url: string;
+    headers: IncomingHttpHeaders;
+    body: string;
+}
+
+/** Local HTTP stand-in that records every request and answers with `reply` */
+function startStandIn(reply: unknown): Promise<{ server: Server; url: string; requests: ReceivedRequest[] }> {
+    const requests: ReceivedRequest[] = [];
+    const server = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => { body += chunk; });
+        req.on('end', () => {
+            requests.push({ method: req.method!, url: req.url!, headers: req.headers, body });
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify(reply));
+        });
+    });
+    return new Promise((resolve) => {
+        server.listen(0, '127.0.0.1', () => {
+            resolve({ server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests });
+        });
+    });
+}
+
+describe('parseVoiceSettings', () => {
+    it('accepts each provider and rejects invalid settings', () => {
+        expect(parseVoiceSettings(undefined)).toBeNull();
+        expect(parseVoiceSettings({ provider: 'stub' })).toEqual({ provider: 'stub' });
+        expect(parseVoiceSettings({ provider: 'openai', apiKey: 'sk-test', baseUrl: 'http://localhost:8080/v1' })?.provider).toBe('openai');
+        expect(parseVoiceSettings({ provider: 'elevenlabs' })).toBeNull();
+        expect(parseVoiceSettings({ provider: 'unknown', apiKey: 'x' })).toBeNull();
+    });
+});
+
+describe('voice providers', () => {
+    let server: Server | null = null;
+
+    afterEach(async () => {
+        if (server) {
+            await new Promise((resolve) => server!.close(resolve));
+            server = null;
+        }
+    });
+
+    it('stub mints distinct offline tokens', async () => {
+        const provider = createVoiceProvider({ provider: 'stub', ttlSeconds: 30 });
+        const before = Date.now();
+        const first = await provider.mintToken({ sessionId: 's1', agentId: 'agent-1' });
+        const second = await provider.mintToken({ sessionId: 's1' });
+
+        expect(first.token).toMatch(/^stub-[0-9a-f]{24}$/);
+        expect(second.token).not.toBe(first.token);
+        expect(first.agentId).toBe('agent-1');
+        expect(first.expiresAt).toBeGreaterThanOrEqual(before + 30_000);
+    });
+
+    it('openai trades the API key for a client secret', async () => {
+        const standIn = await startStandIn({ client_secret: { value: 'ek_123', expires_at: 1_700_000_060 } });
+        server = standIn.server;
+
+        const provider = createVoiceProvider({ provider: 'openai', apiKey: 'sk-test', baseUrl: `${standIn.url}/v1/`, model: 'local-realtime', voice: 'alloy' });
+        const token = await provider.mintToken({ sessionId: 's1' });
+
+        expect(token).toEqual({ token: 'ek_123', expiresAt: 1_700_000_060_000, url: `${standIn.url}/v1/realtime`, model: 'local-realtime' });
+        expect(standIn.requests).toHaveLength(1);
+        expect(standIn.requests[0].method).toBe('POST');
+        expect(standIn.requests[0].url).toBe('/v1/realtime/sessions');
+        expect(standIn.requests[0].headers.authorization).toBe('Bearer sk-test');
+        expect(JSON.parse(standIn.requests[0].body)).toEqual({ model: 'local-realtime', voice: 'alloy' });
+    });
+
+    it('elevenlabs prefers the configured agent over the requested one', async () => {
+        const standIn = await startStandIn({ token: 'conv-token' });
+        server = standIn.server;
+
+        const provider = createVoiceProvider({ provider: 'elevenlabs', apiKey: 'xi-test', agentId: 'configured', baseUrl: standIn.url });
+        const token = await provider.mintToken({ sessionId: 's1', agentId: 'requested' });
+
+        expect(token).toEqual({ token: 'conv-token', expiresAt: null, agentId: 'configured' });
+        expect(standIn.requests[0].url).toBe('/v1/convai/conversation/token?agent_id=configured');
+        expect(standIn.requests[0].headers['xi-api-key']).toBe('xi-test');
+    });
+
+    it('fails when the provider returns no token', async () => {
+        const standIn = await startStandIn({});
+        server = standIn.server;
+
+        const provider = createVoiceProvider({ provider: 'openai', apiKey: 'sk-test', baseUrl: standIn.url });
+        await expect(provider.mintToken({ sessionId: 's1' })).rejects.toThrow('no client secret');
+    });
+});
@@ -0,0 +1,187 @@
+/**
+ * Voice token broker
+ *
+ * The app's voice assistant connects to a realtime voice service directly, but
+ * the provider's API key must never reach the phone. The key lives under `voice`
+ * in ~/.remcli/settings.json and the daemon trades it for a short-lived token
+ * that the app uses for one conversation:
+ * - elevenlabs: conversation token for an ElevenLabs agent
+ * - openai: ephemeral client secret from an OpenAI-compatible realtime API
+ *   (api.openai.com or a self-hosted endpoint through `baseUrl`)
+ * - stub: offline tokens for tests and development, no network
+ *
+ * Settings are read on each request, so edits apply without restarting the daemon.
+ */
+
+import { randomBytes } from 'node:crypto';
+import axios from 'axios';
+import * as z from 'zod';
+import { logger } from '@/ui/logger';
+import { readSettings } from '@/persistence';
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export const VoiceSettingsSchema = z.discriminatedUnion('provider', [
+    z.object({
+        provider: z.literal('elevenlabs'),
+        apiKey: z.string().min(1),
+        agentId: z.string().optional(),         // Otherwise the agent the app asks for
+        baseUrl: z.string().url().optional()
+    }),
+    z.object({
+        provider: z.literal('openai'),
+        apiKey: z.string().min(1),
+        baseUrl: z.string().url().optional(),   // Up to and including /v1
+        model: z.string().optional(),
+        voice: z.string().optional()
+    }),
+    z.object({
+        provider: z.literal('stub'),
+        ttlSeconds: z.number().int().positive().optional()
+    })
+]);
+
+export type VoiceSettings = z.infer<typeof VoiceSettingsSchema>;
+
+export type VoiceProviderName = VoiceSettings['provider'];
+
+export interface VoiceTokenRequest {
+    sessionId: string;
+    agentId?: string;
+}
+
+export interface VoiceToken {
+    token: string;
+    expiresAt: number | null;   // Unix ms, when the provider says
+    agentId?: string;           // ElevenLabs agent the token is for
+    url?: string;               // Realtime endpoint the token is for (openai)
+    model?: string;
+}
+
+/**
+ * A realtime voice service that can trade its API key for a short-lived token
+ */
+export interface VoiceProvider {
+    readonly name: VoiceProviderName;
+    mintToken(request: VoiceTokenRequest): Promise<VoiceToken>;
+}
+
+/** Per-request timeout for every provider */
+const PROVIDER_TIMEOUT_MS = 10_000;
+
+const ELEVENLABS_BASE_URL = 'https://api.elevenlabs.io';
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const OPENAI_DEFAULT_MODEL = 'gpt-4o-realtime-preview';
+const STUB_TTL_SECONDS = 60;
+
+// ─── Settings ────────────────────────────────────────────────────
+
+/**
+ * Parse the raw `voice` setting; null when missing or invalid
+ */
+export function parseVoiceSettings(raw: unknown): VoiceSettings | null {
+    if (raw === undefined || raw === null) {
+        return null;
+    }
+    const parsed = VoiceSettingsSchema.safeParse(raw);
+    if (!parsed.success) {
+        logger.warn(`⚠️ Invalid voice settings - voice is disabled. Error: ${parsed.error.message}`);
+        return null;
+    }
+    return parsed.data;
+}
+
+/**
+ * Provider configured in settings.json, or null when voice is not set up
+ */
+export async function readVoiceProvider(): Promise<VoiceProvider | null> {
+    const settings = parseVoiceSettings((await readSettings()).voice);
+    return settings ? createVoiceProvider(settings) : null;
+}
+
+export function createVoiceProvider(settings: VoiceSettings): VoiceProvider {
+    switch (settings.provider) {
+        case 'elevenlabs':
+            return createElevenLabsProvider(settings);
+        case 'openai':
+            return createOpenAIProvider(settings);
+        case 'stub':
+            return createStubProvider(settings);
+    }
+}
+
+// ─── ElevenLabs ──────────────────────────────────────────────────
+
+function createElevenLabsProvider(settings: Extract<VoiceSettings, { provider: 'elevenlabs' }>): VoiceProvider {
+    return {
+        name: 'elevenlabs',
+        async mintToken(request) {
+            const agentId = settings.agentId ?? request.agentId;
+            if (!agentId) {
+                throw new Error('No ElevenLabs agent configured');
+            }
+            const url = `${trimSlash(settings.baseUrl ?? ELEVENLABS_BASE_URL)}/v1/convai/conversation/token`;
+            const response = await axios.get<{ token?: string }>(url, {
+                timeout: PROVIDER_TIMEOUT_MS,
+                params: { agent_id: agentId },
+                headers: { 'xi-api-key': settings.apiKey }
+            });
+            if (!response.data?.token) {
+                throw new Error('ElevenLabs returned no token');
+            }
+            return { token: response.data.token, expiresAt: null, agentId };
+        }
+    };
+}
+
+// ─── OpenAI-compatible realtime ──────────────────────────────────
+
+function createOpenAIProvider(settings: Extract<VoiceSettings, { provider: 'openai' }>): VoiceProvider {
+    const baseUrl = trimSlash(settings.baseUrl ?? OPENAI_BASE_URL);
+    const model = settings.model ?? OPENAI_DEFAULT_MODEL;
+    return {
+        name: 'openai',
+        async mintToken() {
+            const response = await axios.post<{ client_secret?: { value?: string; expires_at?: number } }>(`${baseUrl}/realtime/sessions`, {
+                model,
+                ...(settings.voice ? { voice: settings.voice } : {})
+            }, {
+                timeout: PROVIDER_TIMEOUT_MS,
+                headers: {
+                    'Authorization': `Bearer ${settings.apiKey}`,
+                    'Content-Type': 'application/json'
+                }
+            });
+            const secret = response.data?.client_secret;
+            if (!secret?.value) {
+                throw new Error('Realtime endpoint returned no client secret');
+            }
+            return {
+                token: secret.value,
+                // expires_at is in seconds
+                expiresAt: typeof secret.expires_at === 'number' ? secret.expires_at * 1000 : null,
+                url: `${baseUrl}/realtime`,
+                model
+            };
+        }
+    };
+}
+
+// ─── Stub ────────────────────────────────────────────────────────
+
+function createStubProvider(settings: Extract<VoiceSettings, { provider: 'stub' }>): VoiceProvider {
+    return {
+        name: 'stub',
+        async mintToken(request) {
+            return {
+                token: `stub-${randomBytes(12).toString('hex')}`,
+                expiresAt: Date.now() + (settings.ttlSeconds ?? STUB_TTL_SECONDS) * 1000,
+                agentId: request.agentId
+            };
+        }
+    };
+}
+
+function trimSlash(url: string): string {
+    return url.replace(/\/+$/, '');
+}
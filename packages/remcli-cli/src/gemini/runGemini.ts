@@ -16,6 +16,7 @@ import { ApiClient } from '@/api/api';
 import { logger } from '@/ui/logger';
 import { Credentials, readSettings } from '@/persistence';
 import { createSessionMetadata } from '@/utils/createSessionMetadata';
+import { takeGeminiForkHistory, takeSessionForkFromEnvironment } from '@/modules/sessionFork';
 import { configuration } from '@/configuration';
 import packageJson from '../../package.json';
 import { MessageQueue2 } from '@/utils/MessageQueue2';
@@ -50,6 +51,7 @@ import {
   formatOptionsXml,
 } from '@/gemini/utils/optionsParser';
 import { ConversationHistory } from '@/gemini/utils/conversationHistory';
+import { appendAttachmentPaths, readInlineImages, type ImageInput } from '@/utils/attachments';
 
 
 /**
@@ -120,10 +122,13 @@ export async function runGemini(opts: {
   // Create session
   //
 
+  // Forks replay the truncated chat the daemon prepared as context
+  const fork = takeSessionForkFromEnvironment();
   const { state, metadata } = createSessionMetadata({
     flavor: 'gemini',
     machineId,
-    startedBy: opts.startedBy
+    startedBy: opts.startedBy,
+    forkedFrom: fork?.parentSessionId
   });
   const response = await api.getOrCreateSession({ tag: sessionTag, metadata, state });
 
@@ -199,6 +204,23 @@ export async function runGemini(opts: {
   // Conversation history for context preservation across model changes
   const conversationHistory = new ConversationHistory({ maxMessages: 20, maxCharacters: 50000 });
 
+  // A fork's history goes to Gemini with its first prompt
+  let injectForkHistory = false;
+  if (fork) {
+    try {
+      for (const entry of await takeGeminiForkHistory(fork.file)) {
+        if (entry.role === 'user') {
+          conversationHistory.addUserMessage(entry.text);
+        } else {
+          conversationHistory.addAssistantMessage(entry.text);
+        }
+      }
+      injectForkHistory = conversationHistory.hasHistory();
+    } catch (error) {
+      logger.warn(`⚠️ Failed to read forked Gemini chat ${fork.file}:`, error);
+    }
+  }
+
   // Track current overrides to apply per message
   let currentPermissionMode: PermissionMode | undefined = undefined;
   let currentModel: string | undefined = undefined;
@@ -273,7 +295,9 @@ export async function runGemini(opts: {
       model: messageModel,
       originalUserMessage, // Store original message separately
     };
-    messageQueue.push(fullPrompt, mode);
+    // Images go to Gemini as prompt content blocks, other attachments are referenced by path
+    const attachments = message.content.attachments;
+    messageQueue.push(appendAttachmentPaths(fullPrompt, attachments, true), mode, readInlineImages(attachments));
     
     // Record user message in conversation history for context preservation
     conversationHistory.addUserMessage(originalUserMessage);
@@ -488,7 +512,7 @@ export async function runGemini(opts: {
   };
 
   // Create permission handler for tool approval (variable declared earlier for onSessionSwap)
-  permissionHandler = new GeminiPermissionHandler(session);
+  permissionHandler = new GeminiPermissionHandler(session, metadata.path);
   
   // Create reasoning processor for handling thinking/reasoning chunks
   const reasoningProcessor = new GeminiReasoningProcessor((message) => {
@@ -866,6 +890,14 @@ export async function runGemini(opts: {
     });
   }
 
+  // Recorded so the app can fork this session
+  function recordGeminiSessionId(geminiSessionId: string) {
+    session.updateMetadata((currentMetadata) => ({
+      ...currentMetadata,
+      geminiSessionId
+    }));
+  }
+
   // Note: Backend will be created dynamically in the main loop based on model from first message
   // This allows us to support model changes by recreating the backend
 
@@ -873,10 +905,10 @@ export async function runGemini(opts: {
 
   try {
     let currentModeHash: string | null = null;
-    let pending: { message: string; mode: GeminiMode; isolate: boolean; hash: string } | null = null;
+    let pending: { message: string; mode: GeminiMode; isolate: boolean; hash: string; images: ImageInput[] } | null = null;
 
     while (!shouldExit) {
-      let message: { message: string; mode: GeminiMode; isolate: boolean; hash: string } | null = pending;
+      let message: { message: string; mode: GeminiMode; isolate: boolean; hash: string; images: ImageInput[] } | null = pending;
       pending = null;
 
       if (!message) {
@@ -899,8 +931,9 @@ export async function runGemini(opts: {
         break;
       }
 
-      // Track if we need to inject conversation history (after model change)
-      let injectHistoryContext = false;
+      // Track if we need to inject conversation history (after model change or in a fork)
+      let injectHistoryContext = injectForkHistory;
+      injectForkHistory = false;
       
       // Handle mode change (like Codex) - restart session if permission mode or model changed
       if (wasSessionCreated && currentModeHash && message.hash !== currentModeHash) {
@@ -953,6 +986,7 @@ export async function runGemini(opts: {
         logger.debug('[gemini] Starting new ACP session with model:', actualModel);
         const { sessionId } = await geminiBackend.startSession();
         acpSessionId = sessionId;
+        recordGeminiSessionId(sessionId);
         logger.debug(`[gemini] New ACP session started: ${acpSessionId}`);
         
         // Update displayed model in UI (don't save to config - this is backend initialization)
@@ -1013,6 +1047,7 @@ export async function runGemini(opts: {
             updatePermissionMode(message.mode.permissionMode);
             const { sessionId } = await geminiBackend.startSession();
             acpSessionId = sessionId;
+            recordGeminiSessionId(sessionId);
             logger.debug(`[gemini] ACP session started: ${acpSessionId}`);
             wasSessionCreated = true;
             currentModeHash = message.hash;
@@ -1066,7 +1101,7 @@ export async function runGemini(opts: {
         
         for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
           try {
-            await geminiBackend.sendPrompt(acpSessionId, promptToSend);
+            await geminiBackend.sendPrompt(acpSessionId, promptToSend, message.images);
             logger.debug('[gemini] Prompt sent successfully');
             
             // Wait for Gemini to finish responding (all chunks received + final idle)
@@ -23,8 +23,8 @@ export type { PermissionResult, PendingRequest };
 export class GeminiPermissionHandler extends BasePermissionHandler {
     private currentPermissionMode: PermissionMode = 'default';
 
-    constructor(session: ApiSessionClient) {
-        super(session);
+    constructor(session: ApiSessionClient, workingDirectory: string) {
+        super(session, workingDirectory);
     }
 
     protected getLogPrefix(): string {
@@ -102,9 +102,15 @@ export class GeminiPermissionHandler extends BasePermissionHandler {
         toolName: string,
         input: unknown
     ): Promise<PermissionResult> {
+        // Project rules first; "ask" overrides the permission mode
+        const ruleResult = this.applyPermissionRules(toolCallId, toolName, input);
+        if (ruleResult && ruleResult !== 'ask') {
+            return ruleResult;
+        }
+
         // Check if we should auto-approve based on permission mode
         // Pass toolCallId to check by ID (e.g., change_title-* even if toolName is "other")
-        if (this.shouldAutoApprove(toolName, toolCallId, input)) {
+        if (ruleResult !== 'ask' && this.shouldAutoApprove(toolName, toolCallId, input)) {
             logger.debug(`${this.getLogPrefix()} Auto-approving tool ${toolName} (${toolCallId}) in ${this.currentPermissionMode} mode`);
 
             // Update agent state with auto-approved request
@@ -11,7 +11,9 @@ import chalk from 'chalk'
 import { runClaude, StartOptions } from '@/claude/runClaude'
 import { logger } from './ui/logger'
 import { readCredentials, readSettings } from './persistence'
+import { configuration } from './configuration'
 import { setupP2PForSession } from './daemon/p2p/p2pSession'
+import { ApiClient } from './api/api'
 import packageJson from '../package.json'
 import { z } from 'zod'
 import { startDaemon } from './daemon/run'
@@ -24,6 +26,11 @@ import { runDoctorCommand } from './ui/doctor'
 import { listDaemonSessions, stopDaemonSession } from './daemon/controlClient'
 import { handleAuthCommand } from './commands/auth'
 import { handleConnectCommand } from './commands/connect'
+import { handleDevicesCommand } from './commands/devices'
+import { handleAuditCommand } from './commands/audit'
+import { handleRelayCommand } from './commands/relay'
+import { handleScheduleCommand } from './commands/schedule'
+import { handleUsageCommand } from './commands/usage'
 import { spawnRemcliCLI } from './utils/spawnRemcliCLI'
 import { claudeCliPath } from './claude/claudeLocal'
 import { execFileSync } from 'node:child_process'
@@ -124,6 +131,12 @@ async function ensureDaemonRunning(): Promise<void> {
       const {
         credentials
       } = await setupP2PForSession();
+      // --acp (or a profile with the ACP Codex backend) drives Codex through codex-acp
+      if (args.includes('--acp') || process.env.REMCLI_CODEX_BACKEND === 'acp') {
+        const { runCodexAcp } = await import('@/codex/runCodexAcp');
+        await runCodexAcp({credentials, startedBy});
+        return;
+      }
       await runCodex({credentials, startedBy});
       // Do not force exit here; allow instrumentation to show lingering handles
     } catch (error) {
@@ -161,6 +174,49 @@ async function ensureDaemonRunning(): Promise<void> {
       process.exit(1)
     }
     return;
+  } else if (subcommand === 'acp') {
+    // Handle acp command: run an ACP agent declared in settings.json
+    try {
+      const agentName = args[1];
+      if (!agentName || agentName.startsWith('-')) {
+        const { readAcpAgents } = await import('@/acp/config');
+        const agents = await readAcpAgents();
+        console.log(`${chalk.bold('remcli acp <name>')} - Start an ACP agent declared under acpAgents in ${configuration.settingsFile}\n`);
+        if (Object.keys(agents).length === 0) {
+          console.log('No ACP agents configured. Example:');
+          console.log(chalk.gray('  "acpAgents": { "opencode": { "command": "opencode", "args": ["acp"] } }'));
+        } else {
+          for (const [name, agent] of Object.entries(agents)) {
+            console.log(`  ${chalk.cyan(name)}  ${chalk.gray([agent.command, ...(agent.args ?? [])].join(' '))}`);
+          }
+        }
+        return;
+      }
+
+      const { runAcp } = await import('@/acp/runAcp');
+
+      // Parse startedBy argument
+      let startedBy: 'daemon' | 'terminal' | undefined = undefined;
+      for (let i = 2; i < args.length; i++) {
+        if (args[i] === '--started-by') {
+          startedBy = args[++i] as 'daemon' | 'terminal';
+        }
+      }
+
+      await ensureDaemonRunning();
+      const {
+        credentials
+      } = await setupP2PForSession();
+
+      await runAcp({credentials, agentName, startedBy});
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : 'Unknown error')
+      if (process.env.DEBUG) {
+        console.error(error)
+      }
+      process.exit(1)
+    }
+    return;
   } else if (subcommand === 'gemini') {
     // Handle gemini subcommands
     const geminiSubcommand = args[1];
@@ -387,6 +443,42 @@ async function ensureDaemonRunning(): Promise<void> {
       process.exit(1)
     }
     return;
+  } else if (subcommand === 'relay') {
+    // Handle relay subcommands
+    try {
+      await handleRelayCommand(args.slice(1));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : 'Unknown error')
+      if (process.env.DEBUG) {
+        console.error(error)
+      }
+      process.exit(1)
+    }
+    return;
+  } else if (subcommand === 'schedule') {
+    // Handle scheduled session subcommands
+    try {
+      await handleScheduleCommand(args.slice(1));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : 'Unknown error')
+      if (process.env.DEBUG) {
+        console.error(error)
+      }
+      process.exit(1)
+    }
+    return;
+  } else if (subcommand === 'usage') {
+    // Handle usage report and budget subcommands
+    try {
+      await handleUsageCommand(args.slice(1));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : 'Unknown error')
+      if (process.env.DEBUG) {
+        console.error(error)
+      }
+      process.exit(1)
+    }
+    return;
   } else if (subcommand === 'daemon') {
     // Show daemon management help
     const daemonSubcommand = args[1]
@@ -422,11 +514,15 @@ async function ensureDaemonRunning(): Promise<void> {
       return
 
     } else if (daemonSubcommand === 'start') {
-      // Spawn detached daemon process, passing through --tunnel flag
+      // Spawn detached daemon process, passing through the tunnel flags
       const daemonArgs = ['daemon', 'start-sync'];
       if (args.includes('--tunnel')) {
         daemonArgs.push('--tunnel');
       }
+      const tunnelProviderIndex = args.indexOf('--tunnel-provider')
+      if (tunnelProviderIndex !== -1 && args[tunnelProviderIndex + 1]) {
+        daemonArgs.push('--tunnel-provider', args[tunnelProviderIndex + 1]);
+      }
       const child = spawnRemcliCLI(daemonArgs, {
         detached: true,
         stdio: 'ignore',
@@ -462,9 +558,11 @@ async function ensureDaemonRunning(): Promise<void> {
       const { readDaemonState } = await import('./persistence');
       const { buildP2PConnectionInfo, buildP2PQRUrl, displayP2PQRCode, displayP2PConnectionStatus } = await import('./daemon/p2p/p2pQRCode');
       const { decodeSharedSecret } = await import('./daemon/p2p/p2pAuth');
+      const { createDaemonPairingCode } = await import('./daemon/controlClient');
 
       const state = await readDaemonState();
-      if (!state || !state.p2pPort || !state.p2pSharedSecret) {
+      const pairingCode = state?.p2pPort && state.p2pSharedSecret ? await createDaemonPairingCode() : null;
+      if (!state || !state.p2pPort || !state.p2pSharedSecret || !pairingCode) {
         console.log('Daemon is not running or P2P is not configured.');
         console.log('Start the daemon first: remcli daemon start');
         process.exit(1);
@@ -472,17 +570,23 @@ async function ensureDaemonRunning(): Promise<void> {
 
       const secret = decodeSharedSecret(state.p2pSharedSecret);
       if (state.tunnelUrl) {
-        const info = buildP2PConnectionInfo(state.tunnelUrl.replace(/^https?:\/\//, ''), 0, secret);
+        const info = buildP2PConnectionInfo(state.tunnelUrl.replace(/^https?:\/\//, ''), 0, secret, pairingCode);
         const qrUrl = buildP2PQRUrl(info, state.tunnelUrl);
         displayP2PQRCode(qrUrl);
         displayP2PConnectionStatus(state.p2pHost || '0.0.0.0', state.p2pPort, state.tunnelUrl);
       } else {
-        const info = buildP2PConnectionInfo(state.p2pHost || '0.0.0.0', state.p2pPort, secret);
+        const info = buildP2PConnectionInfo(state.p2pHost || '0.0.0.0', state.p2pPort, secret, pairingCode);
         const qrUrl = buildP2PQRUrl(info);
         displayP2PQRCode(qrUrl);
         displayP2PConnectionStatus(state.p2pHost || '0.0.0.0', state.p2pPort);
       }
       process.exit(0)
+    } else if (daemonSubcommand === 'devices') {
+      await handleDevicesCommand(args.slice(2))
+      process.exit(0)
+    } else if (daemonSubcommand === 'audit') {
+      await handleAuditCommand(args.slice(2))
+      process.exit(0)
     } else if (daemonSubcommand === 'status') {
       // Show daemon-specific doctor output
       await runDoctorCommand('daemon')
@@ -516,10 +620,14 @@ ${chalk.bold('remcli daemon')} - Daemon management
 
 ${chalk.bold('Usage:')}
   remcli daemon start              Start the daemon (detached)
-  remcli daemon start --tunnel     Start with ngrok tunnel for remote access
+  remcli daemon start --tunnel     Start with a tunnel for remote access
+      --tunnel-provider <name>     ngrok or relay (default: relay if REMCLI_RELAY_URL is set)
   remcli daemon stop               Stop the daemon (sessions stay alive)
   remcli daemon status             Show daemon status
   remcli daemon qr                 Show P2P connection QR code
+  remcli daemon devices list       List paired devices
+  remcli daemon devices revoke <id>  Revoke a paired device
+  remcli daemon audit              Show the audit log (RPCs, spawns, permissions, auth failures)
   remcli daemon list               List active sessions
 
   If you want to kill all remcli related processes run 
@@ -627,12 +735,17 @@ ${chalk.bold('Usage:')}
   remcli [options]         Start Claude with mobile control
   remcli auth              Manage authentication
   remcli codex             Start Codex mode
+  remcli codex --acp       Start Codex through the codex-acp adapter
   remcli cursor            Start Cursor mode
+  remcli acp <name>        Start an ACP agent declared in settings.json
   remcli gemini            Start Gemini mode (ACP)
   remcli connect           Connect AI vendor API keys
-  remcli notify            Send push notification
+  remcli notify            Send a notification to paired apps
   remcli daemon            Manage background service that allows
                             to spawn new sessions away from your computer
+  remcli schedule          Run agent sessions on a schedule
+  remcli usage             Show token usage and cost, manage budgets
+  remcli relay             Run a self-hosted relay for remote access
   remcli doctor            System diagnostics & troubleshooting
 
 ${chalk.bold('Examples:')}
@@ -734,6 +847,10 @@ ${chalk.bold('Examples:')}
   remcli notify -p "Deployment complete!"
   remcli notify -p "System update complete" -t "Server Status"
   remcli notify -t "Alert" -p "Database connection restored"
+
+${chalk.bold('Description:')}
+  The daemon stores the notification and sends it to every connected app,
+  which shows it as a local notification and in its inbox. Requires a running daemon.
 `)
     return
   }
@@ -744,6 +861,8 @@ ${chalk.bold('Examples:')}
     process.exit(1)
   }
 
-  console.log(chalk.yellow('⚠️  Push notifications are not available in P2P mode.'))
-  console.log(chalk.gray('  Push notifications require a cloud server which has been removed.'))
+  const { credentials } = await setupP2PForSession()
+  const api = await ApiClient.create(credentials)
+  await api.sendNotification({ body: message, title: title || undefined })
+  console.log(chalk.green('✓ Notification sent'))
 }
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BashJobs, BashJobEvent } from './bashJobs';
+
+vi.mock('@/ui/logger', () => ({
+    logger: {
+        debug: vi.fn()
+    }
+}));
+
+function collect() {
+    const events: BashJobEvent[] = [];
+    const exited = (jobId: string) => new Promise<Extract<BashJobEvent, { type: 'exit' }>>((resolve) => {
+        const check = setInterval(() => {
+            const exit = events.find((event) => event.jobId === jobId && event.type === 'exit');
+            if (exit && exit.type === 'exit') {
+                clearInterval(check);
+                resolve(exit);
+            }
+        }, 10);
+    });
+    const output = (stream: 'stdout' | 'stderr') => events
+        .map((event) => event.type === 'output' && event.stream === stream ? event.data : '')
+        .join('');
+    return { events, exited, output };
+}
+
+describe('BashJobs', () => {
+    it('streams stdout and stderr and reports the exit code', async () => {
+        const { events, exited, output } = collect();
+        const jobs = new BashJobs((event) => events.push(event));
+
+        const jobId = jobs.start({ command: 'echo one; sleep 0.2; echo two; echo oops >&2; exit 3', cwd: '/tmp' });
+        const exit = await exited(jobId);
+
+        expect(output('stdout')).toBe('one\ntwo\n');
+        expect(output('stderr')).toBe('oops\n');
+        expect(exit).toMatchObject({ exitCode: 3, signal: null });
+        expect(exit.reason).toBeUndefined();
+        // Output arrived while the command was still running
+        expect(events.filter((event) => event.type === 'output' && event.stream === 'stdout').length).toBe(2);
+        expect(events[events.length - 1].type).toBe('exit');
+    });
+
+    it('cancels the whole process group', async () => {
+        const { events, exited } = collect();
+        const jobs = new BashJobs((event) => events.push(event));
+
+        const jobId = jobs.start({ command: 'sleep 30 & sleep 30; wait' });
+        expect(jobs.cancel(jobId)).toBe(true);
+        const exit = await exited(jobId);
+
+        expect(exit.reason).toBe('cancelled');
+        expect(exit.signal).toBe('SIGTERM');
+        expect(jobs.cancel(jobId)).toBe(false);
+    });
+
+    it('cancels every running job when its owner goes away', async () => {
+        const { events, exited } = collect();
+        const jobs = new BashJobs((event) => events.push(event));
+
+        const first = jobs.start({ command: 'sleep 30' });
+        const second = jobs.start({ command: 'sleep 30' });
+        jobs.cancelAll();
+
+        expect((await exited(first)).reason).toBe('cancelled');
+        expect((await exited(second)).reason).toBe('cancelled');
+    });
+
+    it('stops jobs that run past their timeout', async () => {
+        const { events, exited } = collect();
+        const jobs = new BashJobs((event) => events.push(event));
+
+        const exit = await exited(jobs.start({ command: 'sleep 30', timeout: 100 }));
+        expect(exit.reason).toBe('timeout');
+    });
+});
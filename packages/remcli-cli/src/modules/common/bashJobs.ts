@@ -0,0 +1,179 @@
+/**
+ * Streaming shell commands
+ *
+ * The `bash` RPC waits for a command to finish and returns its output at
+ * once, so long commands (test suites, builds) time out and show nothing
+ * while they run. A bash job starts the command and returns right away; its
+ * output is handed to `emit` in batches as it arrives, followed by an exit
+ * event. Jobs run in their own process group so cancelling one also stops
+ * the processes the command started.
+ */
+
+import { ChildProcess, spawn } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { StringDecoder } from 'node:string_decoder';
+import { logger } from '@/ui/logger';
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export type BashJobEvent =
+    | { jobId: string; type: 'output'; stream: 'stdout' | 'stderr'; data: string }
+    | { jobId: string; type: 'exit'; exitCode: number | null; signal: string | null; reason?: 'cancelled' | 'timeout' | 'error'; error?: string };
+
+export interface StartBashJobOptions {
+    command: string;
+    cwd?: string;
+    /** Milliseconds before the job is stopped, defaults to 10 minutes */
+    timeout?: number;
+}
+
+interface BashJob {
+    id: string;
+    child: ChildProcess;
+    pending: { stdout: string; stderr: string };
+    flushTimer: NodeJS.Timeout | null;
+    timeoutTimer: NodeJS.Timeout;
+    killTimer: NodeJS.Timeout | null;
+    streamed: number;
+    reason?: 'cancelled' | 'timeout' | 'error';
+    error?: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+const MAX_TIMEOUT_MS = 60 * 60 * 1000;
+const MAX_RUNNING_JOBS = 8;
+const OUTPUT_FLUSH_MS = 50;
+const MAX_STREAMED_CHARS = 10 * 1024 * 1024; // Output past this is dropped with a note
+const KILL_GRACE_MS = 3000;
+
+// ─── Jobs ────────────────────────────────────────────────────────
+
+export class BashJobs {
+    private jobs = new Map<string, BashJob>();
+
+    constructor(private readonly emit: (event: BashJobEvent) => void) { }
+
+    start(options: StartBashJobOptions): string {
+        if (this.jobs.size >= MAX_RUNNING_JOBS) {
+            throw new Error(`Too many running commands (limit ${MAX_RUNNING_JOBS})`);
+        }
+
+        const id = randomUUID();
+        const timeout = Math.min(options.timeout || DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS);
+        const child = spawn(options.command, {
+            cwd: options.cwd,
+            shell: true,
+            detached: process.platform !== 'win32',
+            stdio: ['ignore', 'pipe', 'pipe']
+        });
+        const job: BashJob = {
+            id,
+            child,
+            pending: { stdout: '', stderr: '' },
+            flushTimer: null,
+            timeoutTimer: setTimeout(() => this.stop(job, 'timeout'), timeout),
+            killTimer: null,
+            streamed: 0
+        };
+        this.jobs.set(id, job);
+        logger.debug(`[BASH JOBS] Started ${id} (pid ${child.pid}): ${options.command}`);
+
+        for (const stream of ['stdout', 'stderr'] as const) {
+            const decoder = new StringDecoder('utf8');
+            child[stream]!.on('data', (chunk: Buffer) => this.append(job, stream, decoder.write(chunk)));
+        }
+        child.on('error', (error) => {
+            job.reason = 'error';
+            job.error = error.message;
+        });
+        // 'close' waits for the output pipes, so no output is emitted after the exit event
+        child.on('close', (code, signal) => this.finish(job, code, signal));
+
+        return id;
+    }
+
+    cancel(jobId: string): boolean {
+        const job = this.jobs.get(jobId);
+        if (!job) {
+            return false;
+        }
+        this.stop(job, 'cancelled');
+        return true;
+    }
+
+    cancelAll(): void {
+        for (const job of this.jobs.values()) {
+            this.stop(job, 'cancelled');
+        }
+    }
+
+    private stop(job: BashJob, reason: 'cancelled' | 'timeout'): void {
+        if (job.reason) {
+            return;
+        }
+        job.reason = reason;
+        logger.debug(`[BASH JOBS] Stopping ${job.id} (${reason})`);
+        this.signal(job, 'SIGTERM');
+        job.killTimer = setTimeout(() => this.signal(job, 'SIGKILL'), KILL_GRACE_MS);
+    }
+
+    private signal(job: BashJob, signal: NodeJS.Signals): void {
+        try {
+            if (job.child.pid && process.platform !== 'win32') {
+                process.kill(-job.child.pid, signal);
+            } else {
+                job.child.kill(signal);
+            }
+        } catch (error) {
+            logger.debug(`[BASH JOBS] Failed to send ${signal} to ${job.id}:`, error);
+        }
+    }
+
+    private append(job: BashJob, stream: 'stdout' | 'stderr', data: string): void {
+        if (!data || job.streamed >= MAX_STREAMED_CHARS) {
+            return;
+        }
+        job.streamed += data.length;
+        job.pending[stream] += data;
+        if (job.streamed >= MAX_STREAMED_CHARS) {
+            job.pending.stderr += '\n[output truncated]\n';
+        }
+        if (!job.flushTimer) {
+            job.flushTimer = setTimeout(() => this.flush(job), OUTPUT_FLUSH_MS);
+        }
+    }
+
+    private flush(job: BashJob): void {
+        job.flushTimer = null;
+        for (const stream of ['stdout', 'stderr'] as const) {
+            if (job.pending[stream]) {
+                const data = job.pending[stream];
+                job.pending[stream] = '';
+                this.emit({ jobId: job.id, type: 'output', stream, data });
+            }
+        }
+    }
+
+    private finish(job: BashJob, exitCode: number | null, signal: NodeJS.Signals | null): void {
+        if (!this.jobs.delete(job.id)) {
+            return;
+        }
+        clearTimeout(job.timeoutTimer);
+        if (job.killTimer) {
+            clearTimeout(job.killTimer);
+        }
+        if (job.flushTimer) {
+            clearTimeout(job.flushTimer);
+        }
+        this.flush(job);
+        logger.debug(`[BASH JOBS] ${job.id} exited (code ${exitCode}, signal ${signal}${job.reason ? `, ${job.reason}` : ''})`);
+        this.emit({
+            jobId: job.id,
+            type: 'exit',
+            exitCode,
+            signal,
+            ...(job.reason ? { reason: job.reason } : {}),
+            ...(job.error ? { error: job.error } : {})
+        });
+    }
+}
@@ -8,6 +8,7 @@ import { run as runRipgrep } from '@/modules/ripgrep/index';
 import { run as runDifftastic } from '@/modules/difftastic/index';
 import { RpcHandlerManager } from '../../api/rpc/RpcHandlerManager';
 import { validatePath } from './pathSecurity';
+import { BashJobs, BashJobEvent } from './bashJobs';
 
 const execAsync = promisify(exec);
 
@@ -25,6 +26,27 @@ interface BashResponse {
     error?: string;
 }
 
+interface BashStartRequest {
+    command: string;
+    cwd?: string;
+    timeout?: number; // timeout in milliseconds, defaults to 10 minutes
+}
+
+interface BashStartResponse {
+    success: boolean;
+    jobId?: string;
+    error?: string;
+}
+
+interface BashCancelRequest {
+    jobId: string;
+}
+
+interface BashCancelResponse {
+    success: boolean;
+    error?: string;
+}
+
 interface ReadFileRequest {
     path: string;
 }
@@ -120,7 +142,14 @@ export interface SpawnSessionOptions {
     directory: string;
     sessionId?: string;
     approvedNewDirectoryCreation?: boolean;
-    agent?: 'claude' | 'codex' | 'gemini' | 'cursor';
+    agent?: 'claude' | 'codex' | 'gemini' | 'cursor' | 'acp';
+    acpAgent?: string;                      // Name under acpAgents in settings.json, with agent 'acp'
+    fork?: {
+        sessionId: string;                  // Remcli session being forked
+        agentSessionId: string;             // Its Claude/Codex/Gemini session id
+        messageText: string;                // User message the fork is cut before
+        occurrence: number;                 // Which copy of it, counted from the newest
+    };
     token?: string;
     environmentVariables?: {
         // Anthropic Claude API configuration
@@ -134,6 +163,9 @@ export interface SpawnSessionOptions {
         TMUX_TMPDIR?: string;               // Temporary directory for tmux server socket files
         // Note: TMUX_TMPDIR is used by tmux to store socket files when default /tmp is not suitable
         // Common use case: When /tmp has limited space or different permissions
+
+        // File with the first user message, posted by the session once connected (scheduled sessions)
+        REMCLI_INITIAL_PROMPT_FILE?: string;
     };
 }
 
@@ -144,8 +176,15 @@ export type SpawnSessionResult =
 
 /**
  * Register all RPC handlers with the session
+ *
+ * `onBashJobEvent` receives the output of streaming commands (`bash-start`);
+ * without it only the one-shot `bash` handler is available.
+ *
+ * Returns a function that cancels the streaming commands still running.
+ * Their process groups are detached, so they would otherwise outlive the caller.
  */
-export function registerCommonHandlers(rpcHandlerManager: RpcHandlerManager, workingDirectory: string) {
+export function registerCommonHandlers(rpcHandlerManager: RpcHandlerManager, workingDirectory: string, onBashJobEvent?: (event: BashJobEvent) => void): () => void {
+    const bashJobs = onBashJobEvent ? new BashJobs(onBashJobEvent) : null;
 
     // Shell command handler - executes commands in the default shell
     rpcHandlerManager.registerHandler<BashRequest, BashResponse>('bash', async (data) => {
@@ -231,6 +270,39 @@ export function registerCommonHandlers(rpcHandlerManager: RpcHandlerManager, wor
         }
     });
 
+    // Streaming shell commands - output arrives through onBashJobEvent while the command runs
+    if (bashJobs) {
+
+        rpcHandlerManager.registerHandler<BashStartRequest, BashStartResponse>('bash-start', async (data) => {
+            logger.debug('Streaming shell command request:', data.command);
+
+            if (data.cwd && data.cwd !== '/') {
+                const validation = validatePath(data.cwd, workingDirectory);
+                if (!validation.valid) {
+                    return { success: false, error: validation.error };
+                }
+            }
+
+            try {
+                const jobId = bashJobs.start({
+                    command: data.command,
+                    cwd: data.cwd === '/' ? undefined : (data.cwd || workingDirectory),
+                    timeout: data.timeout
+                });
+                return { success: true, jobId };
+            } catch (error) {
+                return { success: false, error: error instanceof Error ? error.message : 'Failed to start command' };
+            }
+        });
+
+        rpcHandlerManager.registerHandler<BashCancelRequest, BashCancelResponse>('bash-cancel', async (data) => {
+            if (!bashJobs.cancel(data.jobId)) {
+                return { success: false, error: 'Command not running' };
+            }
+            return { success: true };
+        });
+    }
+
     // Read file handler - returns base64 encoded content
     rpcHandlerManager.registerHandler<ReadFileRequest, ReadFileResponse>('readFile', async (data) => {
         logger.debug('Read file request:', data.path);
@@ -519,4 +591,6 @@ export function registerCommonHandlers(rpcHandlerManager: RpcHandlerManager, wor
             };
         }
     });
+
+    return () => bashJobs?.cancelAll();
 }
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { basename, dirname, join } from 'node:path';
+import { forkAgentSession, takeGeminiForkHistory } from './index';
+
+function jsonl(lines: object[]): string {
+    return lines.map(line => JSON.stringify(line)).join('\n') + '\n';
+}
+
+function readJsonl(file: string): any[] {
+    return readFileSync(file, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+}
+
+const PARENT_ID = '11111111-2222-3333-4444-555555555555';
+
+describe('forkAgentSession', () => {
+    let root: string;
+    let dirs: { claudeConfigDir: string; codexHomeDir: string; geminiDir: string; forkDir: string };
+
+    beforeEach(() => {
+        root = join(tmpdir(), `session-fork-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+        dirs = {
+            claudeConfigDir: join(root, 'claude'),
+            codexHomeDir: join(root, 'codex'),
+            geminiDir: join(root, 'gemini'),
+            forkDir: join(root, 'forks'),
+        };
+    });
+
+    afterEach(() => {
+        rmSync(root, { recursive: true, force: true });
+    });
+
+    it('copies a Claude transcript up to the rewound turn under a new session id', async () => {
+        const projectDir = join(dirs.claudeConfigDir, 'projects', '-work-app');
+        mkdirSync(projectDir, { recursive: true });
+        writeFileSync(join(projectDir, `${PARENT_ID}.jsonl`), jsonl([
+            { type: 'user', sessionId: PARENT_ID, uuid: 'u1', message: { role: 'user', content: 'Add a login page' } },
+            { type: 'user', sessionId: PARENT_ID, uuid: 'u2', message: { role: 'user', content: [{ type: 'tool_result', content: 'ok' }] } },
+            { type: 'assistant', sessionId: PARENT_ID, uuid: 'a1', message: { role: 'assistant', content: [{ type: 'text', text: 'Done.' }] } },
+            { type: 'user', sessionId: PARENT_ID, uuid: 'u3', message: { role: 'user', content: '<command-name>/cost</command-name>' } },
+            { type: 'user', sessionId: PARENT_ID, uuid: 'u4', message: { role: 'user', content: 'Refactor the router' } },
+            { type: 'assistant', sessionId: PARENT_ID, uuid: 'a2', message: { role: 'assistant', content: [{ type: 'text', text: 'Refactoring.' }] } },
+        ]));
+
+        const fork = await forkAgentSession({ agent: 'claude', agentSessionId: PARENT_ID, directory: '/work/app', messageText: 'Refactor the router', occurrence: 1, ...dirs });
+
+        expect(fork.turns).toBe(1);
+        expect(fork.file).toBe(join(projectDir, `${fork.agentSessionId}.jsonl`));
+        const lines = readJsonl(fork.file);
+        expect(lines.map(line => line.uuid)).toEqual(['u1', 'u2', 'a1', 'u3']);
+        expect(lines.every(line => line.sessionId === fork.agentSessionId)).toBe(true);
+    });
+
+    it('rewrites the Codex session id and skips injected context', async () => {
+        const parentId = PARENT_ID;
+        const codexDir = join(dirs.codexHomeDir, 'sessions', '2025', '01', '02');
+        mkdirSync(codexDir, { recursive: true });
+        writeFileSync(join(codexDir, `rollout-2025-01-02T10-00-00-${parentId}.jsonl`), jsonl([
+            { type: 'session_meta', payload: { id: parentId, cwd: '/work/api' } },
+            { type: 'response_item', payload: { type: 'message', role: 'user', content: [{ type: 'input_text', text: '<environment_context>cwd</environment_context>' }] } },
+            { type: 'response_item', payload: { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'rename the endpoint' }] } },
+            { type: 'response_item', payload: { type: 'message', role: 'assistant', content: [{ type: 'output_text', text: 'Renamed.' }] } },
+            { type: 'response_item', payload: { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'now add tests' }] } },
+        ]));
+
+        const fork = await forkAgentSession({ agent: 'codex', agentSessionId: parentId, directory: '/work/api', messageText: 'now add tests', occurrence: 1, ...dirs });
+
+        expect(fork.turns).toBe(1);
+        expect(basename(fork.file)).toMatch(new RegExp(`^rollout-.*-${fork.agentSessionId}\\.jsonl$`));
+        expect(dirname(dirname(dirname(dirname(fork.file))))).toBe(join(dirs.codexHomeDir, 'sessions'));
+        const lines = readJsonl(fork.file);
+        expect(lines).toHaveLength(4);
+        expect(lines[0].payload).toEqual({ id: fork.agentSessionId, cwd: '/work/api' });
+    });
+
+    it('copies a Gemini chat outside the Gemini directory and reads it back once', async () => {
+        const projectHash = createHash('sha256').update('/work/site').digest('hex');
+        const chatsDir = join(dirs.geminiDir, 'tmp', projectHash, 'chats');
+        mkdirSync(chatsDir, { recursive: true });
+        writeFileSync(join(chatsDir, 'session-2025-01-03T00-00-gemini-1.json'), JSON.stringify({
+            sessionId: PARENT_ID,
+            projectHash,
+            messages: [
+                { type: 'user', content: 'Make the header sticky' },
+                { type: 'gemini', content: 'The header is sticky now' },
+                { type: 'info', content: 'Model switched' },
+                { type: 'user', content: 'Undo that' },
+                { type: 'gemini', content: 'Undone' },
+            ],
+        }));
+
+        const fork = await forkAgentSession({ agent: 'gemini', agentSessionId: PARENT_ID, directory: '/work/site', messageText: 'Undo that', occurrence: 1, ...dirs });
+
+        expect(dirname(fork.file)).toBe(dirs.forkDir);
+        expect(readdirSync(chatsDir)).toHaveLength(1);
+        expect(JSON.parse(readFileSync(fork.file, 'utf-8')).sessionId).toBe(fork.agentSessionId);
+        expect(await takeGeminiForkHistory(fork.file)).toEqual([
+            { role: 'user', text: 'Make the header sticky' },
+            { role: 'assistant', text: 'The header is sticky now' },
+        ]);
+        expect(existsSync(fork.file)).toBe(false);
+    });
+
+    it('finds the fork point in prompts merged while the agent was busy', async () => {
+        const projectDir = join(dirs.claudeConfigDir, 'projects', '-work-app');
+        mkdirSync(projectDir, { recursive: true });
+        const prompt = (uuid: string, content: string) => ({ type: 'user', sessionId: PARENT_ID, uuid, message: { role: 'user', content } });
+        writeFileSync(join(projectDir, `${PARENT_ID}.jsonl`), jsonl([
+            prompt('p1', 'Start the migration'),
+            prompt('p2', 'yes'),
+            // Three app messages sent while the agent was busy
+            prompt('p3', 'Fix the tests\nAlso update the docs\nyes'),
+            prompt('p4', 'Check it yesterday\n\nAttached files:\n- notes.txt (text/plain): /tmp/notes.txt'),
+            prompt('p5', 'yes'),
+        ]));
+        const fork = (messageText: string, occurrence: number) =>
+            forkAgentSession({ agent: 'claude', agentSessionId: PARENT_ID, directory: '/work/app', messageText, occurrence, ...dirs });
+        const uuids = async (messageText: string, occurrence: number) =>
+            readJsonl((await fork(messageText, occurrence)).file).map(line => line.uuid);
+
+        // A message in the middle of a merged prompt cuts before the whole prompt
+        expect(await uuids('Also update the docs', 1)).toEqual(['p1', 'p2']);
+        expect(await uuids('Check it yesterday', 1)).toEqual(['p1', 'p2', 'p3']);
+        // Repeated text is told apart by its occurrence, and only whole lines match
+        expect(await uuids('yes', 1)).toEqual(['p1', 'p2', 'p3', 'p4']);
+        expect(await uuids('yes', 2)).toEqual(['p1', 'p2']);
+        expect(await uuids('yes', 3)).toEqual(['p1']);
+        await expect(fork('yes', 4)).rejects.toThrow('not in the Claude transcript');
+    });
+
+    it('refuses to rewind past the first turn', async () => {
+        const projectDir = join(dirs.claudeConfigDir, 'projects', '-work-app');
+        mkdirSync(projectDir, { recursive: true });
+        writeFileSync(join(projectDir, `${PARENT_ID}.jsonl`), jsonl([
+            { type: 'user', sessionId: PARENT_ID, message: { role: 'user', content: 'Hello' } },
+        ]));
+
+        await expect(forkAgentSession({ agent: 'claude', agentSessionId: PARENT_ID, directory: '/work/app', messageText: 'Hello', occurrence: 1, ...dirs }))
+            .rejects.toThrow('before the first turn');
+        await expect(forkAgentSession({ agent: 'claude', agentSessionId: PARENT_ID, directory: '/work/app', messageText: 'Goodbye', occurrence: 1, ...dirs }))
+            .rejects.toThrow('not in the Claude transcript');
+        await expect(forkAgentSession({ agent: 'claude', agentSessionId: '99999999-2222-3333-4444-555555555555', directory: '/work/app', messageText: 'Hello', occurrence: 1, ...dirs }))
+            .rejects.toThrow('No Claude transcript');
+    });
+
+    it('rejects agent session ids that are not UUIDs', async () => {
+        const projectDir = join(dirs.claudeConfigDir, 'projects', '-work-app');
+        mkdirSync(projectDir, { recursive: true });
+        writeFileSync(join(root, 'secret.jsonl'), jsonl([
+            { type: 'user', sessionId: 'secret', message: { role: 'user', content: 'Hello' } },
+            { type: 'user', sessionId: 'secret', message: { role: 'user', content: 'Again' } },
+        ]));
+
+        for (const agent of ['claude', 'codex', 'gemini'] as const) {
+            await expect(forkAgentSession({ agent, agentSessionId: '../../../secret', directory: '/work/app', messageText: 'Again', occurrence: 1, ...dirs }))
+                .rejects.toThrow('Invalid agent session id');
+        }
+    });
+});
@@ -0,0 +1,375 @@
+/**
+ * Fork an agent session at an earlier turn
+ *
+ * The agents' own transcripts are what they resume from, so a fork is a copy
+ * of the parent's transcript cut before one of its user turns, saved under a
+ * new session id next to the original:
+ * - Claude: <CLAUDE_CONFIG_DIR>/projects/<project>/<sessionId>.jsonl, resumed with --resume
+ * - Codex: <CODEX_HOME>/sessions/YYYY/MM/DD/rollout-<ts>-<sessionId>.jsonl, resumed
+ *   with experimental_resume (MCP) or session/load (ACP)
+ * - Gemini: read from ~/.gemini/tmp/<sha256(projectRoot)>/chats/session-*.json. Gemini
+ *   can't resume a chat, so the copy goes to ~/.remcli/tmp/forks instead and is
+ *   replayed as context on the first prompt
+ *
+ * The fork point is the prompt holding the chosen message's text. The app sends
+ * the text and how many times it was sent from that message on, because it only
+ * has the most recent messages loaded and messages sent while the agent was busy
+ * reach the transcript merged into one prompt. Forks always keep whole turns.
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { basename, join } from 'node:path';
+import { getProjectPath } from '@/claude/utils/path';
+import { configuration } from '@/configuration';
+import { logger } from '@/ui/logger';
+
+export type SessionForkAgent = 'claude' | 'codex' | 'gemini';
+
+export interface SessionForkOptions {
+    agent: SessionForkAgent;
+    agentSessionId: string;      // Claude/Codex/Gemini session to fork
+    directory: string;           // Working directory of the session
+    messageText: string;         // User message the fork is cut before
+    occurrence: number;          // 1 for its latest occurrence, 2 for the one before...
+    claudeConfigDir?: string;
+    codexHomeDir?: string;
+    geminiDir?: string;
+    forkDir?: string;            // Where Gemini forks are written
+}
+
+export interface SessionFork {
+    agentSessionId: string;      // Session id of the copy
+    file: string;                // Transcript of the copy
+    turns: number;               // User turns kept
+}
+
+/** Parent and resume point handed to a forked session by the daemon */
+export interface SessionForkEnvironment {
+    parentSessionId: string;
+    agentSessionId: string;
+    file: string;
+}
+
+const MAX_LOG_FILE_BYTES = 50 * 1024 * 1024;
+
+// The agents all use random UUIDs; anything else could walk out of their directories
+const SESSION_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Codex injects these as user messages before the first prompt
+const CODEX_CONTEXT_PREFIX = /^\s*<(environment_context|user_instructions)>/;
+
+// Claude records slash commands, their output and interruptions as user lines
+const CLAUDE_NON_PROMPT_PREFIX = /^\s*(<command-|<local-command-|\[Request interrupted)/;
+
+export async function forkAgentSession(options: SessionForkOptions): Promise<SessionFork> {
+    if (!SESSION_ID.test(options.agentSessionId)) {
+        throw new Error(`Invalid agent session id: ${options.agentSessionId}`);
+    }
+    if (!options.messageText.trim() || !Number.isInteger(options.occurrence) || options.occurrence < 1) {
+        throw new Error('Invalid fork point');
+    }
+    switch (options.agent) {
+        case 'claude':
+            return forkClaudeSession(options);
+        case 'codex':
+            return forkCodexSession(options);
+        case 'gemini':
+            return forkGeminiSession(options);
+    }
+}
+
+/**
+ * Read and clear the fork the daemon passed to this session, so processes
+ * started by the agent do not inherit it
+ */
+export function takeSessionForkFromEnvironment(): SessionForkEnvironment | null {
+    const parentSessionId = process.env.REMCLI_FORKED_FROM;
+    const agentSessionId = process.env.REMCLI_FORK_AGENT_SESSION_ID;
+    const file = process.env.REMCLI_FORK_FILE;
+    delete process.env.REMCLI_FORKED_FROM;
+    delete process.env.REMCLI_FORK_AGENT_SESSION_ID;
+    delete process.env.REMCLI_FORK_FILE;
+    if (!parentSessionId || !agentSessionId || !file) {
+        return null;
+    }
+    return { parentSessionId, agentSessionId, file };
+}
+
+/**
+ * Environment that hands a fork to the session process
+ */
+export function sessionForkEnvironment(parentSessionId: string, fork: SessionFork): Record<string, string> {
+    return {
+        REMCLI_FORKED_FROM: parentSessionId,
+        REMCLI_FORK_AGENT_SESSION_ID: fork.agentSessionId,
+        REMCLI_FORK_FILE: fork.file
+    };
+}
+
+// ─── Claude ──────────────────────────────────────────────────────
+
+async function forkClaudeSession(options: SessionForkOptions): Promise<SessionFork> {
+    const projectDir = getProjectPath(options.directory, options.claudeConfigDir);
+    const source = join(projectDir, `${options.agentSessionId}.jsonl`);
+    const lines = parseJsonLines(await readLog(source, 'Claude'));
+
+    const { kept, turns } = cutBeforeMessage(lines, claudePromptText, options, 'Claude');
+    const agentSessionId = randomUUID();
+    const file = join(projectDir, `${agentSessionId}.jsonl`);
+    await writeFile(file, toJsonLines(kept.map(line =>
+        typeof line.sessionId === 'string' ? { ...line, sessionId: agentSessionId } : line
+    )));
+
+    logger.debug(`[SESSION FORK] Claude ${options.agentSessionId} -> ${agentSessionId} (${turns} turns)`);
+    return { agentSessionId, file, turns };
+}
+
+function claudePromptText(line: any): string | null {
+    if (line.type !== 'user' || line.isMeta || line.isSidechain || line.isCompactSummary) {
+        return null;
+    }
+    const content = line.message?.content;
+    if (Array.isArray(content) && content.some((part: any) => part?.type === 'tool_result')) {
+        return null;
+    }
+    const text = extractText(content);
+    return text && !CLAUDE_NON_PROMPT_PREFIX.test(text) ? text : null;
+}
+
+// ─── Codex ───────────────────────────────────────────────────────
+
+async function forkCodexSession(options: SessionForkOptions): Promise<SessionFork> {
+    const codexHomeDir = options.codexHomeDir ?? process.env.CODEX_HOME ?? join(homedir(), '.codex');
+    const sessionsDir = join(codexHomeDir, 'sessions');
+    const source = await findFile(sessionsDir, 4, file => file.endsWith(`-${options.agentSessionId}.jsonl`));
+    if (!source) {
+        throw new Error(`No Codex transcript found for session ${options.agentSessionId}`);
+    }
+    const lines = parseJsonLines(await readLog(source, 'Codex'));
+
+    const { kept, turns } = cutBeforeMessage(lines, codexPromptText, options, 'Codex');
+    const agentSessionId = randomUUID();
+    const now = new Date();
+    const dayDir = join(sessionsDir, String(now.getUTCFullYear()), pad(now.getUTCMonth() + 1), pad(now.getUTCDate()));
+    const stamp = now.toISOString().slice(0, 19).replace(/:/g, '-');
+    const file = join(dayDir, `rollout-${stamp}-${agentSessionId}.jsonl`);
+    await mkdir(dayDir, { recursive: true });
+    await writeFile(file, toJsonLines(kept.map(line =>
+        line.type === 'session_meta' && line.payload ? { ...line, payload: { ...line.payload, id: agentSessionId } } : line
+    )));
+
+    logger.debug(`[SESSION FORK] Codex ${options.agentSessionId} -> ${agentSessionId} (${turns} turns)`);
+    return { agentSessionId, file, turns };
+}
+
+function codexPromptText(line: any): string | null {
+    // Newer rollouts wrap items as { timestamp, type, payload }
+    const item = line.payload ?? line;
+    if (item.type !== 'message' || item.role !== 'user') {
+        return null;
+    }
+    const text = extractText(item.content);
+    return text && !CODEX_CONTEXT_PREFIX.test(text) ? text : null;
+}
+
+// ─── Gemini ──────────────────────────────────────────────────────
+
+async function forkGeminiSession(options: SessionForkOptions): Promise<SessionFork> {
+    const geminiDir = options.geminiDir ?? join(homedir(), '.gemini');
+    const projectHash = createHash('sha256').update(options.directory).digest('hex');
+    const chatsDir = join(geminiDir, 'tmp', projectHash, 'chats');
+
+    let source: { file: string; chat: any } | null = null;
+    let names: string[] = [];
+    try {
+        names = await readdir(chatsDir);
+    } catch {
+        // No chats for this project
+    }
+    for (const name of names.filter(n => n.startsWith('session-') && n.endsWith('.json'))) {
+        try {
+            const chat = JSON.parse(await readFile(join(chatsDir, name), 'utf-8'));
+            if (chat?.sessionId === options.agentSessionId) {
+                source = { file: join(chatsDir, name), chat };
+                break;
+            }
+        } catch {
+            // Partially written chat
+        }
+    }
+    if (!source) {
+        throw new Error(`No Gemini chat found for session ${options.agentSessionId}`);
+    }
+
+    const messages: any[] = Array.isArray(source.chat.messages) ? source.chat.messages : [];
+    const { kept, turns } = cutBeforeMessage(messages, message => message?.type === 'user' ? extractText(message.content) : null, options, 'Gemini');
+    const agentSessionId = randomUUID();
+    const now = new Date();
+    const forkDir = options.forkDir ?? join(configuration.remcliHomeDir, 'tmp', 'forks');
+    const file = join(forkDir, `${agentSessionId}.json`);
+    await mkdir(forkDir, { recursive: true, mode: 0o700 });
+    await writeFile(file, JSON.stringify({
+        ...source.chat,
+        sessionId: agentSessionId,
+        startTime: now.toISOString(),
+        lastUpdated: now.toISOString(),
+        messages: kept
+    }, null, 2), { mode: 0o600 });
+
+    logger.debug(`[SESSION FORK] Gemini ${options.agentSessionId} -> ${agentSessionId} (${turns} turns)`);
+    return { agentSessionId, file, turns };
+}
+
+/**
+ * User and assistant text of a forked Gemini chat, oldest first. The chat is
+ * deleted once read; the new session keeps it in its own history.
+ */
+export async function takeGeminiForkHistory(file: string): Promise<{ role: 'user' | 'assistant'; text: string }[]> {
+    let chat: any;
+    try {
+        chat = JSON.parse(await readFile(file, 'utf-8'));
+    } finally {
+        await rm(file, { force: true });
+    }
+    const history: { role: 'user' | 'assistant'; text: string }[] = [];
+    for (const message of Array.isArray(chat?.messages) ? chat.messages : []) {
+        if (message.type !== 'user' && message.type !== 'gemini') {
+            continue;
+        }
+        const text = extractText(message.content);
+        if (text) {
+            history.push({ role: message.type === 'user' ? 'user' : 'assistant', text });
+        }
+    }
+    return history;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+/**
+ * Everything before the prompt holding the `occurrence`-th latest copy of the
+ * fork's message. Prompts are compared by line blocks, so a message still
+ * matches when it was merged with others or wrapped in a system prompt.
+ */
+function cutBeforeMessage<T>(
+    items: T[],
+    promptText: (item: T) => string | null,
+    options: SessionForkOptions,
+    agent: string
+): { kept: T[]; turns: number } {
+    const prompts: number[] = [];
+    items.forEach((item, index) => {
+        if (promptText(item) !== null) {
+            prompts.push(index);
+        }
+    });
+    let seen = 0;
+    for (let turns = prompts.length - 1; turns >= 0; turns--) {
+        seen += countTextBlocks(promptText(items[prompts[turns]])!, options.messageText);
+        if (seen >= options.occurrence) {
+            if (turns === 0) {
+                throw new Error('The fork point is before the first turn; start a new session instead');
+            }
+            return { kept: items.slice(0, prompts[turns]), turns };
+        }
+    }
+    throw new Error(`The message to fork before is not in the ${agent} transcript`);
+}
+
+/**
+ * How often `text` appears in `prompt` as whole lines
+ */
+function countTextBlocks(prompt: string, text: string): number {
+    const needle = text.trim();
+    const haystack = prompt.trim();
+    let count = 0;
+    let from = 0;
+    while (true) {
+        const index = haystack.indexOf(needle, from);
+        if (index === -1) {
+            return count;
+        }
+        const end = index + needle.length;
+        if ((index === 0 || haystack[index - 1] === '\n') && (end === haystack.length || haystack[end] === '\n')) {
+            count++;
+            from = end;
+        } else {
+            from = index + 1;
+        }
+    }
+}
+
+async function readLog(file: string, agent: string): Promise<string> {
+    let content: string;
+    try {
+        content = await readFile(file, 'utf-8');
+    } catch {
+        throw new Error(`No ${agent} transcript found at ${file}`);
+    }
+    if (Buffer.byteLength(content) > MAX_LOG_FILE_BYTES) {
+        throw new Error(`${agent} transcript ${basename(file)} is too large to fork`);
+    }
+    return content;
+}
+
+async function findFile(dir: string, depth: number, accept: (file: string) => boolean): Promise<string | null> {
+    let entries;
+    try {
+        entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+        return null;
+    }
+    for (const entry of entries) {
+        const full = join(dir, entry.name);
+        if (entry.isDirectory() && depth > 1) {
+            const found = await findFile(full, depth - 1, accept);
+            if (found) {
+                return found;
+            }
+        } else if (entry.isFile() && accept(full)) {
+            return full;
+        }
+    }
+    return null;
+}
+
+/**
+ * Text parts of a message content, skipping tool calls and tool results
+ */
+function extractText(content: unknown): string {
+    if (typeof content === 'string') {
+        return content;
+    }
+    if (!Array.isArray(content)) {
+        return '';
+    }
+    return content
+        .filter((part: any) => part && typeof part.text === 'string' && ['text', 'input_text', 'output_text'].includes(part.type))
+        .map((part: any) => part.text)
+        .join('\n');
+}
+
+function parseJsonLines(content: string): any[] {
+    const lines: any[] = [];
+    for (const line of content.split('\n')) {
+        if (!line.trim()) {
+            continue;
+        }
+        try {
+            lines.push(JSON.parse(line));
+        } catch {
+            // Partially written line
+        }
+    }
+    return lines;
+}
+
+function toJsonLines(lines: unknown[]): string {
+    return lines.map(line => JSON.stringify(line)).join('\n') + '\n';
+}
+
+function pad(value: number): string {
+    return String(value).padStart(2, '0');
+}
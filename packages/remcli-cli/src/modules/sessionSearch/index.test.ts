@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'node:crypto';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { searchSessionLogs } from './index';
+
+function jsonl(lines: object[]): string {
+    return lines.map(line => JSON.stringify(line)).join('\n') + '\n';
+}
+
+describe('searchSessionLogs', () => {
+    let root: string;
+    let dirs: { claudeConfigDir: string; codexHomeDir: string; geminiDir: string };
+
+    beforeEach(() => {
+        root = join(tmpdir(), `session-search-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+        dirs = {
+            claudeConfigDir: join(root, 'claude'),
+            codexHomeDir: join(root, 'codex'),
+            geminiDir: join(root, 'gemini'),
+        };
+    });
+
+    afterEach(() => {
+        rmSync(root, { recursive: true, force: true });
+    });
+
+    it('finds text in Claude transcripts and skips tool results', async () => {
+        const projectDir = join(dirs.claudeConfigDir, 'projects', '-work-app');
+        mkdirSync(projectDir, { recursive: true });
+        writeFileSync(join(projectDir, 'claude-session.jsonl'), jsonl([
+            { type: 'user', cwd: '/work/app', timestamp: '2025-01-01T00:00:00Z', message: { role: 'user', content: 'Please fix the Migration script' } },
+            { type: 'user', cwd: '/work/app', message: { role: 'user', content: [{ type: 'tool_result', content: 'migration output' }] } },
+            { type: 'assistant', cwd: '/work/app', message: { role: 'assistant', content: [{ type: 'text', text: 'The migration is fixed.' }] } },
+        ]));
+
+        const hits = await searchSessionLogs({ query: 'migration', ...dirs });
+
+        expect(hits.map(h => [h.agent, h.agentSessionId, h.path, h.role])).toEqual([
+            ['claude', 'claude-session', '/work/app', 'user'],
+            ['claude', 'claude-session', '/work/app', 'assistant'],
+        ]);
+        expect(hits[0].snippet).toBe('Please fix the Migration script');
+        expect(hits[0].timestamp).toBe(Date.parse('2025-01-01T00:00:00Z'));
+    });
+
+    it('reads Codex rollouts and Gemini chats', async () => {
+        const codexDir = join(dirs.codexHomeDir, 'sessions', '2025', '01', '02');
+        mkdirSync(codexDir, { recursive: true });
+        writeFileSync(join(codexDir, 'rollout-2025-01-02T10-00-00-11111111-2222-3333-4444-555555555555.jsonl'), jsonl([
+            { type: 'session_meta', payload: { id: '11111111-2222-3333-4444-555555555555', cwd: '/work/api' } },
+            { type: 'response_item', payload: { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'rename the endpoint' }] } },
+        ]));
+
+        const projectHash = createHash('sha256').update('/work/site').digest('hex');
+        const geminiChats = join(dirs.geminiDir, 'tmp', projectHash, 'chats');
+        mkdirSync(geminiChats, { recursive: true });
+        writeFileSync(join(geminiChats, 'session-1.json'), JSON.stringify({
+            sessionId: 'gemini-1',
+            projectHash,
+            messages: [{ type: 'gemini', content: 'The endpoint now returns JSON', timestamp: '2025-01-03T00:00:00Z' }],
+        }));
+
+        const hits = await searchSessionLogs({ query: 'endpoint', paths: ['/work/site'], ...dirs });
+
+        expect(hits).toHaveLength(2);
+        expect(hits).toContainEqual(expect.objectContaining({ agent: 'codex', agentSessionId: '11111111-2222-3333-4444-555555555555', path: '/work/api', role: 'user' }));
+        expect(hits).toContainEqual(expect.objectContaining({ agent: 'gemini', agentSessionId: 'gemini-1', path: '/work/site', role: 'assistant' }));
+    });
+
+    it('trims snippets around the match and honours the limit', async () => {
+        const projectDir = join(dirs.claudeConfigDir, 'projects', '-work-app');
+        mkdirSync(projectDir, { recursive: true });
+        const long = 'a'.repeat(200) + ' needle ' + 'b'.repeat(200);
+        writeFileSync(join(projectDir, 's1.jsonl'), jsonl([
+            { type: 'user', message: { role: 'user', content: long } },
+            { type: 'user', message: { role: 'user', content: 'needle again' } },
+        ]));
+
+        const hits = await searchSessionLogs({ query: 'needle', limit: 1, ...dirs });
+
+        expect(hits).toHaveLength(1);
+        expect(hits[0].snippet.startsWith('…')).toBe(true);
+        expect(hits[0].snippet.endsWith('…')).toBe(true);
+        expect(hits[0].snippet).toContain('needle');
+        expect(hits[0].path).toBeNull();
+    });
+});
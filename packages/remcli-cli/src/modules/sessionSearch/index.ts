@@ -0,0 +1,285 @@
+/**
+ * Full-text search over agent session logs on disk
+ *
+ * Message contents in the P2P store are encrypted by the app, so the daemon
+ * cannot search them. The agents' own transcripts are plaintext on disk:
+ * - Claude: <CLAUDE_CONFIG_DIR>/projects/<project>/<sessionId>.jsonl
+ * - Codex: <CODEX_HOME>/sessions/YYYY/MM/DD/rollout-<ts>-<sessionId>.jsonl
+ * - Gemini: ~/.gemini/tmp/<sha256(projectRoot)>/chats/session-*.json
+ *
+ * Matching is a case-insensitive substring search on user and assistant text.
+ * Logs are scanned newest first and the search stops once enough hits are found.
+ */
+
+import { createHash } from 'node:crypto';
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { basename, join } from 'node:path';
+import { logger } from '@/ui/logger';
+
+export type SessionSearchAgent = 'claude' | 'codex' | 'gemini';
+
+export interface SessionSearchHit {
+    agent: SessionSearchAgent;
+    agentSessionId: string;      // Claude session id (matches Metadata.claudeSessionId), Codex/Gemini session id
+    path: string | null;         // Working directory of the session, when the log records it
+    role: 'user' | 'assistant';
+    timestamp: number;
+    snippet: string;
+}
+
+export interface SessionSearchOptions {
+    query: string;
+    limit?: number;
+    /** Known project directories; needed to resolve Gemini logs, which only store a hash of the path */
+    paths?: string[];
+    claudeConfigDir?: string;
+    codexHomeDir?: string;
+    geminiDir?: string;
+}
+
+interface LogFile {
+    agent: SessionSearchAgent;
+    file: string;
+    mtime: number;
+}
+
+interface LogEntry {
+    role: 'user' | 'assistant';
+    text: string;
+    timestamp: number;
+}
+
+const MAX_HITS_PER_SESSION = 3;
+const MAX_LOG_FILE_BYTES = 50 * 1024 * 1024;
+const SNIPPET_CONTEXT = 60;
+
+export async function searchSessionLogs(options: SessionSearchOptions): Promise<SessionSearchHit[]> {
+    const query = options.query.trim().toLowerCase();
+    if (!query) {
+        return [];
+    }
+    const limit = options.limit ?? 50;
+
+    const claudeConfigDir = options.claudeConfigDir ?? process.env.CLAUDE_CONFIG_DIR ?? join(homedir(), '.claude');
+    const codexHomeDir = options.codexHomeDir ?? process.env.CODEX_HOME ?? join(homedir(), '.codex');
+    const geminiDir = options.geminiDir ?? join(homedir(), '.gemini');
+
+    const geminiProjects = new Map<string, string>();
+    for (const path of options.paths ?? []) {
+        geminiProjects.set(createHash('sha256').update(path).digest('hex'), path);
+    }
+
+    const files = [
+        ...await collectFiles(join(claudeConfigDir, 'projects'), 'claude', 2, f => f.endsWith('.jsonl')),
+        ...await collectFiles(join(codexHomeDir, 'sessions'), 'codex', 4, f => f.endsWith('.jsonl')),
+        ...await collectFiles(join(geminiDir, 'tmp'), 'gemini', 3, f => f.endsWith('.json') && f.includes(join('chats', 'session-'))),
+    ].sort((a, b) => b.mtime - a.mtime);
+
+    const hits: SessionSearchHit[] = [];
+    for (const log of files) {
+        if (hits.length >= limit) {
+            break;
+        }
+        let content: string;
+        try {
+            content = await readFile(log.file, 'utf-8');
+        } catch (error) {
+            logger.debug(`[SESSION SEARCH] Failed to read ${log.file}:`, error);
+            continue;
+        }
+        // Cheap pre-check before parsing the whole log
+        if (!content.toLowerCase().includes(query)) {
+            continue;
+        }
+
+        const parsed = log.agent === 'claude' ? parseClaudeLog(log.file, content)
+            : log.agent === 'codex' ? parseCodexLog(log.file, content)
+            : parseGeminiLog(log.file, content, geminiProjects);
+        if (!parsed) {
+            continue;
+        }
+
+        let sessionHits = 0;
+        for (const entry of parsed.entries) {
+            const index = entry.text.toLowerCase().indexOf(query);
+            if (index === -1) {
+                continue;
+            }
+            hits.push({
+                agent: log.agent,
+                agentSessionId: parsed.sessionId,
+                path: parsed.path,
+                role: entry.role,
+                timestamp: entry.timestamp || log.mtime,
+                snippet: buildSnippet(entry.text, index, query.length),
+            });
+            sessionHits++;
+            if (sessionHits >= MAX_HITS_PER_SESSION || hits.length >= limit) {
+                break;
+            }
+        }
+    }
+    return hits;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+async function collectFiles(
+    dir: string,
+    agent: SessionSearchAgent,
+    depth: number,
+    accept: (file: string) => boolean,
+    acc: LogFile[] = []
+): Promise<LogFile[]> {
+    let entries;
+    try {
+        entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+        return acc;
+    }
+    for (const entry of entries) {
+        const full = join(dir, entry.name);
+        if (entry.isDirectory() && depth > 1) {
+            await collectFiles(full, agent, depth - 1, accept, acc);
+        } else if (entry.isFile() && accept(full)) {
+            try {
+                const info = await stat(full);
+                if (info.size <= MAX_LOG_FILE_BYTES) {
+                    acc.push({ agent, file: full, mtime: info.mtimeMs });
+                }
+            } catch {
+                // File vanished while scanning
+            }
+        }
+    }
+    return acc;
+}
+
+function buildSnippet(text: string, index: number, length: number): string {
+    const start = Math.max(0, index - SNIPPET_CONTEXT);
+    const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+    const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+    return (start > 0 ? '…' : '') + snippet + (end < text.length ? '…' : '');
+}
+
+function parseTimestamp(value: unknown): number {
+    if (typeof value === 'number') {
+        return value;
+    }
+    if (typeof value === 'string') {
+        const parsed = Date.parse(value);
+        return Number.isNaN(parsed) ? 0 : parsed;
+    }
+    return 0;
+}
+
+/**
+ * Text parts of a message content, skipping tool calls and tool results
+ */
+function extractText(content: unknown): string {
+    if (typeof content === 'string') {
+        return content;
+    }
+    if (!Array.isArray(content)) {
+        return '';
+    }
+    return content
+        .filter((part: any) => part && typeof part.text === 'string' && ['text', 'input_text', 'output_text'].includes(part.type))
+        .map((part: any) => part.text)
+        .join('\n');
+}
+
+function parseJsonLines(content: string): any[] {
+    const lines: any[] = [];
+    for (const line of content.split('\n')) {
+        if (!line.trim()) {
+            continue;
+        }
+        try {
+            lines.push(JSON.parse(line));
+        } catch {
+            // Partially written line
+        }
+    }
+    return lines;
+}
+
+interface ParsedLog {
+    sessionId: string;
+    path: string | null;
+    entries: LogEntry[];
+}
+
+function parseClaudeLog(file: string, content: string): ParsedLog {
+    let path: string | null = null;
+    const entries: LogEntry[] = [];
+    for (const line of parseJsonLines(content)) {
+        if (typeof line.cwd === 'string') {
+            path = line.cwd;
+        }
+        if ((line.type !== 'user' && line.type !== 'assistant') || line.isMeta) {
+            continue;
+        }
+        const text = extractText(line.message?.content);
+        if (text) {
+            entries.push({ role: line.type, text, timestamp: parseTimestamp(line.timestamp) });
+        }
+    }
+    return { sessionId: basename(file, '.jsonl'), path, entries };
+}
+
+function parseCodexLog(file: string, content: string): ParsedLog {
+    // rollout-<timestamp>-<uuid>.jsonl
+    const idMatch = basename(file).match(/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.jsonl$/i);
+    let sessionId = idMatch ? idMatch[1] : basename(file, '.jsonl');
+    let path: string | null = null;
+    const entries: LogEntry[] = [];
+    for (const line of parseJsonLines(content)) {
+        // Newer rollouts wrap items as { timestamp, type, payload }
+        const item = line.payload ?? line;
+        if (line.type === 'session_meta') {
+            sessionId = item.id ?? sessionId;
+            path = item.cwd ?? path;
+            continue;
+        }
+        if (item.type !== 'message' || (item.role !== 'user' && item.role !== 'assistant')) {
+            continue;
+        }
+        const text = extractText(item.content);
+        if (text) {
+            entries.push({ role: item.role, text, timestamp: parseTimestamp(line.timestamp) });
+        }
+    }
+    return { sessionId, path, entries };
+}
+
+function parseGeminiLog(file: string, content: string, projects: Map<string, string>): ParsedLog | null {
+    let chat: any;
+    try {
+        chat = JSON.parse(content);
+    } catch {
+        return null;
+    }
+    const entries: LogEntry[] = [];
+    for (const message of Array.isArray(chat?.messages) ? chat.messages : []) {
+        if (message.type !== 'user' && message.type !== 'gemini') {
+            continue;
+        }
+        const text = extractText(message.content);
+        if (text) {
+            entries.push({
+                role: message.type === 'user' ? 'user' : 'assistant',
+                text,
+                timestamp: parseTimestamp(message.timestamp),
+            });
+        }
+    }
+    // <geminiDir>/tmp/<projectHash>/chats/<file>
+    const projectHash = chat?.projectHash ?? basename(join(file, '..', '..'));
+    return {
+        sessionId: chat?.sessionId ?? basename(file, '.json'),
+        path: projects.get(projectHash) ?? null,
+        entries,
+    };
+}
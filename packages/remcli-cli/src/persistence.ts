@@ -92,6 +92,15 @@ export const AIBackendProfileSchema = z.object({
     // Default model mode for this profile
     defaultModelMode: z.string().optional(),
 
+    // What to do when a permission request is not answered in time
+    permissionTimeout: z.object({
+        seconds: z.number().int().min(10),
+        action: z.enum(['deny', 'approve-read-only', 'pause']),
+    }).optional(),
+
+    // How Codex sessions talk to Codex: `codex mcp-server` (default) or the codex-acp adapter
+    codexBackend: z.enum(['mcp', 'acp']).optional(),
+
     // Compatibility metadata
     compatibility: ProfileCompatibilitySchema.default({ claude: true, codex: true, cursor: true, gemini: true }),
 
@@ -157,6 +166,17 @@ export function getProfileEnvironmentVariables(profile: AIBackendProfile): Recor
     }
   }
 
+  // Add permission timeout (read by the session's permission handlers)
+  if (profile.permissionTimeout) {
+    envVars.REMCLI_PERMISSION_TIMEOUT = profile.permissionTimeout.seconds.toString();
+    envVars.REMCLI_PERMISSION_TIMEOUT_ACTION = profile.permissionTimeout.action;
+  }
+
+  // Add Codex backend (read by `remcli codex`)
+  if (profile.codexBackend) {
+    envVars.REMCLI_CODEX_BACKEND = profile.codexBackend;
+  }
+
   return envVars;
 }
 
@@ -210,6 +230,12 @@ interface Settings {
   profiles: AIBackendProfile[]
   // CLI-local environment variable cache (not synced)
   localEnvironmentVariables: Record<string, Record<string, string>> // profileId -> env vars
+  // Outbound notification sinks (webhook, ntfy, smtp), validated by daemon/notificationSinks
+  notificationSinks?: unknown[]
+  // ACP-speaking agents run with `remcli acp <name>`, validated by acp/config
+  acpAgents?: Record<string, unknown>
+  // Realtime voice provider and its API key, validated by daemon/voiceBroker
+  voice?: unknown
 }
 
 const defaultSettings: Settings = {
@@ -260,6 +286,7 @@ export interface DaemonLocallyPersistedState {
   p2pPort?: number;
   p2pHost?: string;
   p2pSharedSecret?: string;
+  p2pLocalToken?: string;
   tunnelUrl?: string;
 }
 
@@ -485,6 +512,43 @@ export async function clearMachineId(): Promise<void> {
   }));
 }
 
+/**
+ * P2P server identity persisted across daemon restarts.
+ * A stable shared secret and port let already-paired apps reconnect without rescanning the QR code.
+ */
+export interface P2PIdentity {
+  sharedSecret: string; // base64
+  port?: number;
+  localToken?: string;  // bearer token for processes spawned by the daemon
+}
+
+export async function readP2PIdentity(): Promise<P2PIdentity | null> {
+  if (!existsSync(configuration.p2pIdentityFile)) {
+    return null;
+  }
+  try {
+    const raw = JSON.parse(await readFile(configuration.p2pIdentityFile, 'utf-8'));
+    if (typeof raw.sharedSecret !== 'string') {
+      return null;
+    }
+    return {
+      sharedSecret: raw.sharedSecret,
+      port: typeof raw.port === 'number' ? raw.port : undefined,
+      localToken: typeof raw.localToken === 'string' ? raw.localToken : undefined
+    };
+  } catch (error) {
+    logger.debug(`[PERSISTENCE] Failed to read P2P identity: ${configuration.p2pIdentityFile}`, error);
+    return null;
+  }
+}
+
+export async function writeP2PIdentity(identity: P2PIdentity): Promise<void> {
+  if (!existsSync(configuration.p2pDir)) {
+    await mkdir(configuration.p2pDir, { recursive: true });
+  }
+  await writeFile(configuration.p2pIdentityFile, JSON.stringify(identity, null, 2), { mode: 0o600 });
+}
+
 /**
  * Read daemon state from local file
  */
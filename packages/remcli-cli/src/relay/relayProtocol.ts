@@ -0,0 +1,49 @@
+/**
+ * Wire protocol shared by the relay server and the daemon's relay tunnel
+ *
+ * The daemon opens every channel to the relay as an HTTP upgrade to the
+ * `remcli-relay` protocol, authenticated with the relay secret:
+ * - `/_relay/control`: one long-lived channel carrying newline-delimited JSON
+ *   control messages from the relay to the daemon
+ * - `/_relay/data/<id>`: a raw byte pipe for one app connection, dialed after
+ *   the relay asks for it with an `open` message
+ */
+
+export const RELAY_UPGRADE_PROTOCOL = 'remcli-relay';
+export const RELAY_PATH_PREFIX = '/_relay/';
+export const RELAY_CONTROL_PATH = '/_relay/control';
+export const RELAY_DATA_PATH = '/_relay/data/';
+
+export type RelayControlMessage =
+    | { type: 'ready'; url: string | null }   // Channel accepted; url is the relay's public URL if configured
+    | { type: 'open'; id: string }            // An app connected; dial RELAY_DATA_PATH + id
+    | { type: 'ping' };                       // Keeps idle proxies from closing the channel
+
+export function encodeControlMessage(message: RelayControlMessage): string {
+    return JSON.stringify(message) + '\n';
+}
+
+/**
+ * Returns a chunk handler that splits the control stream into lines and
+ * calls onMessage for every well-formed message
+ */
+export function createControlMessageParser(onMessage: (message: RelayControlMessage) => void): (chunk: Buffer) => void {
+    let buffered = '';
+    return (chunk: Buffer) => {
+        buffered += chunk.toString('utf-8');
+        let newline = buffered.indexOf('\n');
+        while (newline !== -1) {
+            const line = buffered.slice(0, newline).trim();
+            buffered = buffered.slice(newline + 1);
+            newline = buffered.indexOf('\n');
+            if (!line) {
+                continue;
+            }
+            try {
+                onMessage(JSON.parse(line) as RelayControlMessage);
+            } catch {
+                // Ignore malformed lines — the channel itself is still usable
+            }
+        }
+    };
+}
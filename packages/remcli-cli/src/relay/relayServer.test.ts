@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, Server } from 'node:http';
+import { connect } from 'node:net';
+import { startRelayServer, RelayServer } from './relayServer';
+import { RelayTunnelClient } from '@/daemon/p2p/relayTunnel';
+
+describe('relay', () => {
+    let local: Server;
+    let localPort: number;
+    let relay: RelayServer;
+    let relayUrl: string;
+    let client: RelayTunnelClient | null;
+
+    beforeEach(async () => {
+        local = createServer((req, res) => {
+            res.writeHead(200, { 'Content-Type': 'text/plain' });
+            res.end(`${req.method} ${req.url}`);
+        });
+        local.on('upgrade', (_req, socket, head) => {
+            socket.write('HTTP/1.1 101 Switching Protocols\r\nUpgrade: echo\r\nConnection: Upgrade\r\n\r\n');
+            socket.write(head);
+            socket.pipe(socket);
+        });
+        await new Promise<void>((resolve) => local.listen(0, '127.0.0.1', resolve));
+        localPort = (local.address() as { port: number }).port;
+
+        relay = await startRelayServer({ port: 0, host: '127.0.0.1', secret: 'relay-secret' });
+        relayUrl = `http://127.0.0.1:${relay.port}`;
+        client = null;
+    });
+
+    afterEach(async () => {
+        client?.stop();
+        await relay.stop();
+        local.closeAllConnections();
+        await new Promise<void>((resolve) => local.close(() => resolve()));
+    });
+
+    it('forwards requests to the daemon it dialed out from', async () => {
+        client = new RelayTunnelClient({ relayUrl, secret: 'relay-secret', localPort });
+        expect(await client.connect()).toBe(relayUrl);
+        expect(relay.isDaemonConnected()).toBe(true);
+
+        const response = await fetch(`${relayUrl}/v1/sessions?limit=1`);
+        expect(response.status).toBe(200);
+        expect(await response.text()).toBe('GET /v1/sessions?limit=1');
+    });
+
+    it('pipes upgraded connections both ways', async () => {
+        client = new RelayTunnelClient({ relayUrl, secret: 'relay-secret', localPort });
+        await client.connect();
+
+        const socket = connect(relay.port, '127.0.0.1');
+        const received = await new Promise<string>((resolve) => {
+            let data = '';
+            socket.on('data', (chunk) => {
+                data += chunk.toString();
+                if (data.includes('ping')) {
+                    resolve(data);
+                }
+            });
+            socket.write('GET /v1/updates HTTP/1.1\r\nHost: relay\r\nConnection: Upgrade\r\nUpgrade: echo\r\n\r\n');
+            socket.write('ping');
+        });
+        socket.destroy();
+
+        expect(received).toContain('101 Switching Protocols');
+        expect(received.endsWith('ping')).toBe(true);
+    });
+
+    it('rejects daemons with the wrong secret and answers 502 without a daemon', async () => {
+        client = new RelayTunnelClient({ relayUrl, secret: 'wrong', localPort });
+        await expect(client.connect()).rejects.toThrow('HTTP 401');
+        expect(relay.isDaemonConnected()).toBe(false);
+
+        const response = await fetch(`${relayUrl}/v1/sessions`);
+        expect(response.status).toBe(502);
+    });
+
+    it('caps the connections waiting for the daemon', async () => {
+        const busy = await startRelayServer({ port: 0, host: '127.0.0.1', secret: 'relay-secret', maxPendingChannels: 1 });
+        const busyUrl = `http://127.0.0.1:${busy.port}`;
+
+        // A daemon that holds the control channel but never dials a data channel
+        const daemon = connect(busy.port, '127.0.0.1');
+        await new Promise<void>((resolve) => {
+            daemon.once('data', () => resolve());
+            daemon.write('GET /_relay/control HTTP/1.1\r\nHost: relay\r\nConnection: Upgrade\r\nUpgrade: remcli-relay\r\nAuthorization: Bearer relay-secret\r\n\r\n');
+        });
+
+        const waiting = fetch(`${busyUrl}/v1/sessions`).catch(() => null);
+        try {
+            await new Promise((resolve) => setTimeout(resolve, 50));
+            const rejected = await fetch(`${busyUrl}/v1/sessions`);
+            expect(rejected.status).toBe(502);
+            expect(await rejected.json()).toEqual({ error: 'Too many connections waiting for the daemon' });
+        } finally {
+            daemon.destroy();
+            await busy.stop();
+            await waiting;
+        }
+    });
+});
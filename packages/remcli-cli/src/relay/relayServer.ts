@@ -0,0 +1,281 @@
+/**
+ * Self-hosted relay for P2P remote access
+ *
+ * An alternative to ngrok for daemons that are not reachable from the
+ * internet. The daemon dials out to the relay and keeps a control channel
+ * open; every connection the app makes to the relay is handed to the daemon
+ * over a fresh data channel and piped through byte for byte, without parsing
+ * Socket.IO frames. Message content is end-to-end encrypted with the QR shared
+ * secret, but HTTP headers, the app's bearer token and the relay secret are
+ * not: without TLS in front of the relay they cross it in plaintext.
+ *
+ * A relay serves one daemon at a time. A daemon that reconnects with the
+ * correct secret replaces the previous control channel.
+ */
+
+import { createServer, request as httpRequest, IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { Socket } from 'node:net';
+import { Duplex } from 'node:stream';
+import { tokensEqual } from '@/daemon/p2p/p2pAuth';
+import { logger } from '@/ui/logger';
+import {
+    RELAY_CONTROL_PATH,
+    RELAY_DATA_PATH,
+    RELAY_PATH_PREFIX,
+    RELAY_UPGRADE_PROTOCOL,
+    encodeControlMessage,
+} from './relayProtocol';
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export interface RelayServerConfig {
+    port: number;               // 0 for random
+    host: string;
+    secret: string;             // Shared with the daemon via REMCLI_RELAY_SECRET
+    publicUrl?: string;         // URL the app should use, if different from the one the daemon dials
+    openTimeoutMs?: number;     // How long to wait for the daemon to dial a data channel
+    maxPendingChannels?: number; // App connections waiting for a data channel at once
+}
+
+export interface RelayServer {
+    port: number;
+    isDaemonConnected: () => boolean;
+    stop: () => Promise<void>;
+}
+
+interface PendingChannel {
+    resolve: (channel: Duplex) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+const PING_INTERVAL_MS = 30_000;
+
+// ─── Server ──────────────────────────────────────────────────────
+
+export async function startRelayServer(config: RelayServerConfig): Promise<RelayServer> {
+    const openTimeoutMs = config.openTimeoutMs ?? 10_000;
+    const maxPendingChannels = config.maxPendingChannels ?? 64;
+    const pending = new Map<string, PendingChannel>();
+    const channels = new Set<Duplex>();
+    let control: Duplex | null = null;
+
+    function isAuthorized(req: IncomingMessage): boolean {
+        const header = req.headers.authorization;
+        return !!header && header.startsWith('Bearer ') && tokensEqual(header.slice(7), config.secret);
+    }
+
+    function acceptUpgrade(socket: Duplex, head: Buffer): void {
+        socket.write(
+            'HTTP/1.1 101 Switching Protocols\r\n' +
+            `Upgrade: ${RELAY_UPGRADE_PROTOCOL}\r\n` +
+            'Connection: Upgrade\r\n\r\n'
+        );
+        if (head.length > 0) {
+            socket.unshift(head);
+        }
+    }
+
+    function rejectUpgrade(socket: Duplex, status: string): void {
+        socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+    }
+
+    function openChannel(): Promise<Duplex> {
+        if (!control) {
+            return Promise.reject(new Error('Daemon is not connected'));
+        }
+        if (pending.size >= maxPendingChannels) {
+            return Promise.reject(new Error('Too many connections waiting for the daemon'));
+        }
+        const id = randomUUID();
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                pending.delete(id);
+                reject(new Error('Daemon did not open a data channel in time'));
+            }, openTimeoutMs);
+            pending.set(id, { resolve, reject, timer });
+            control!.write(encodeControlMessage({ type: 'open', id }));
+        });
+    }
+
+    function trackChannel(channel: Duplex): void {
+        channels.add(channel);
+        channel.on('close', () => channels.delete(channel));
+    }
+
+    // ─── Daemon channels ─────────────────────────────────────────
+
+    function handleControlChannel(socket: Duplex, head: Buffer): void {
+        if (control) {
+            logger.debug('[RELAY] Daemon reconnected, replacing previous control channel');
+            control.destroy();
+        }
+        acceptUpgrade(socket, head);
+        control = socket;
+        socket.write(encodeControlMessage({ type: 'ready', url: config.publicUrl ?? null }));
+        logger.debug('[RELAY] Daemon connected');
+
+        const ping = setInterval(() => socket.write(encodeControlMessage({ type: 'ping' })), PING_INTERVAL_MS);
+        socket.on('data', () => { /* The daemon does not send control messages */ });
+        socket.on('error', (error) => logger.debug(`[RELAY] Control channel error: ${error.message}`));
+        socket.on('close', () => {
+            clearInterval(ping);
+            if (control !== socket) {
+                return;
+            }
+            control = null;
+            logger.debug('[RELAY] Daemon disconnected');
+            for (const [id, entry] of pending) {
+                clearTimeout(entry.timer);
+                entry.reject(new Error('Daemon disconnected'));
+                pending.delete(id);
+            }
+        });
+    }
+
+    function handleDataChannel(id: string, socket: Duplex, head: Buffer): void {
+        const entry = pending.get(id);
+        if (!entry) {
+            rejectUpgrade(socket, '404 Not Found');
+            return;
+        }
+        pending.delete(id);
+        clearTimeout(entry.timer);
+        acceptUpgrade(socket, head);
+        trackChannel(socket);
+        entry.resolve(socket);
+    }
+
+    // ─── App traffic ─────────────────────────────────────────────
+
+    async function forwardRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        if (req.url?.startsWith(RELAY_PATH_PREFIX)) {
+            res.writeHead(404).end();
+            return;
+        }
+
+        let channel: Duplex;
+        try {
+            channel = await openChannel();
+        } catch (error) {
+            res.writeHead(502, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: error instanceof Error ? error.message : 'Relay error' }));
+            return;
+        }
+
+        // Each request gets its own channel, so do not let the daemon keep it alive
+        const proxyReq = httpRequest({
+            method: req.method,
+            path: req.url,
+            headers: { ...req.headers, connection: 'close' },
+            createConnection: () => channel as Socket,
+        });
+        proxyReq.on('response', (proxyRes) => {
+            res.writeHead(proxyRes.statusCode ?? 502, proxyRes.headers);
+            proxyRes.pipe(res);
+        });
+        proxyReq.on('error', (error) => {
+            logger.debug(`[RELAY] Forwarded request failed: ${error.message}`);
+            if (res.headersSent) {
+                res.destroy();
+            } else {
+                res.writeHead(502).end();
+            }
+        });
+        res.on('close', () => channel.destroy());
+        req.pipe(proxyReq);
+    }
+
+    async function forwardUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+        let channel: Duplex;
+        try {
+            channel = await openChannel();
+        } catch {
+            rejectUpgrade(socket, '502 Bad Gateway');
+            return;
+        }
+
+        // Replay the request head as received — the daemon answers the upgrade itself
+        let requestHead = `${req.method} ${req.url} HTTP/${req.httpVersion}\r\n`;
+        for (let i = 0; i < req.rawHeaders.length; i += 2) {
+            requestHead += `${req.rawHeaders[i]}: ${req.rawHeaders[i + 1]}\r\n`;
+        }
+        channel.write(requestHead + '\r\n');
+        if (head.length > 0) {
+            channel.write(head);
+        }
+
+        socket.pipe(channel).pipe(socket);
+        socket.on('error', () => channel.destroy());
+        channel.on('error', () => socket.destroy());
+        socket.on('close', () => channel.destroy());
+        channel.on('close', () => socket.destroy());
+    }
+
+    const server = createServer((req, res) => {
+        forwardRequest(req, res).catch((error) => {
+            logger.debug('[RELAY] Unexpected error forwarding request:', error);
+            res.destroy();
+        });
+    });
+
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+        socket.on('error', () => { /* Handled by whoever owns the socket next */ });
+        const url = req.url ?? '/';
+
+        if (!url.startsWith(RELAY_PATH_PREFIX)) {
+            forwardUpgrade(req, socket, head).catch(() => socket.destroy());
+            return;
+        }
+
+        if (req.headers.upgrade !== RELAY_UPGRADE_PROTOCOL) {
+            rejectUpgrade(socket, '400 Bad Request');
+            return;
+        }
+        if (!isAuthorized(req)) {
+            logger.debug(`[RELAY] Rejected unauthorized daemon channel ${url}`);
+            rejectUpgrade(socket, '401 Unauthorized');
+            return;
+        }
+
+        if (url === RELAY_CONTROL_PATH) {
+            handleControlChannel(socket, head);
+        } else if (url.startsWith(RELAY_DATA_PATH)) {
+            handleDataChannel(url.slice(RELAY_DATA_PATH.length), socket, head);
+        } else {
+            rejectUpgrade(socket, '404 Not Found');
+        }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(config.port, config.host, () => {
+            server.off('error', reject);
+            resolve();
+        });
+    });
+
+    const address = server.address();
+    const port = typeof address === 'object' && address ? address.port : config.port;
+    logger.debug(`[RELAY] Listening on ${config.host}:${port}`);
+
+    return {
+        port,
+        isDaemonConnected: () => control !== null,
+        stop: async () => {
+            control?.destroy();
+            for (const channel of channels) {
+                channel.destroy();
+            }
+            for (const entry of pending.values()) {
+                clearTimeout(entry.timer);
+                entry.reject(new Error('Relay stopped'));
+            }
+            pending.clear();
+            server.closeAllConnections();
+            await new Promise<void>((resolve) => server.close(() => resolve()));
+            logger.debug('[RELAY] Stopped');
+        },
+    };
+}
@@ -10,6 +10,14 @@
 import { logger } from "@/ui/logger";
 import { ApiSessionClient } from "@/api/apiSession";
 import { AgentState } from "@/api/types";
+import { recordAuditEvent } from "@/daemon/auditLog";
+import { PermissionRules, ruleForToolCall } from "@/utils/permissionRules";
+import { PermissionTimeoutTimers, permissionTimeoutReason, readPermissionTimeout, resolvePermissionTimeout } from "@/utils/permissionTimeout";
+
+/**
+ * The parts of a session client a permission handler uses.
+ */
+export type PermissionSession = Pick<ApiSessionClient, 'sessionId' | 'rpcHandlerManager' | 'updateAgentState'>;
 
 /**
  * Permission response from the mobile app.
@@ -18,6 +26,7 @@ export interface PermissionResponse {
     id: string;
     approved: boolean;
     decision?: 'approved' | 'approved_for_session' | 'denied' | 'abort';
+    rememberForProject?: boolean;
 }
 
 /**
@@ -45,16 +54,19 @@ export interface PermissionResult {
  */
 export abstract class BasePermissionHandler {
     protected pendingRequests = new Map<string, PendingRequest>();
-    protected session: ApiSessionClient;
+    protected session: PermissionSession;
+    protected readonly workingDirectory: string;
     private isResetting = false;
+    private timeouts = new PermissionTimeoutTimers(readPermissionTimeout(), (id) => this.handleTimeout(id));
 
     /**
      * Returns the log prefix for this handler.
      */
     protected abstract getLogPrefix(): string;
 
-    constructor(session: ApiSessionClient) {
+    constructor(session: PermissionSession, workingDirectory: string) {
         this.session = session;
+        this.workingDirectory = workingDirectory;
         this.setupRpcHandler();
     }
 
@@ -62,7 +74,7 @@ export abstract class BasePermissionHandler {
      * Update the session reference (used after offline reconnection swaps sessions).
      * This is critical for avoiding stale session references after onSessionSwap.
      */
-    updateSession(newSession: ApiSessionClient): void {
+    updateSession(newSession: PermissionSession): void {
         logger.debug(`${this.getLogPrefix()} Session reference updated`);
         this.session = newSession;
         // Re-setup RPC handler with new session
@@ -82,48 +94,134 @@ export abstract class BasePermissionHandler {
                     return;
                 }
 
-                // Remove from pending
-                this.pendingRequests.delete(response.id);
+                if (response.rememberForProject) {
+                    this.getPermissionRules().addRule(
+                        ruleForToolCall(pending.toolName, pending.input, response.approved ? 'allow' : 'deny')
+                    );
+                }
 
                 // Resolve the permission request
                 const result: PermissionResult = response.approved
                     ? { decision: response.decision === 'approved_for_session' ? 'approved_for_session' : 'approved' }
                     : { decision: response.decision === 'denied' ? 'denied' : 'abort' };
 
-                pending.resolve(result);
-
-                // Move request to completed in agent state
-                this.session.updateAgentState((currentState) => {
-                    const request = currentState.requests?.[response.id];
-                    if (!request) return currentState;
-
-                    const { [response.id]: _, ...remainingRequests } = currentState.requests || {};
-
-                    let res = {
-                        ...currentState,
-                        requests: remainingRequests,
-                        completedRequests: {
-                            ...currentState.completedRequests,
-                            [response.id]: {
-                                ...request,
-                                completedAt: Date.now(),
-                                status: response.approved ? 'approved' : 'denied',
-                                decision: result.decision
-                            }
-                        }
-                    } satisfies AgentState;
-                    return res;
-                });
-
-                logger.debug(`${this.getLogPrefix()} Permission ${response.approved ? 'approved' : 'denied'} for ${pending.toolName}`);
+                this.completeRequest(response.id, pending, result);
             }
         );
     }
 
     /**
-     * Add a pending request to the agent state.
+     * Resolve a pending request and move it to completed in agent state.
+     */
+    private completeRequest(id: string, pending: PendingRequest, result: PermissionResult, reason?: string): void {
+        this.pendingRequests.delete(id);
+        this.timeouts.clear(id);
+        pending.resolve(result);
+
+        const approved = result.decision === 'approved' || result.decision === 'approved_for_session';
+        recordAuditEvent({
+            type: 'permission',
+            sessionId: this.session.sessionId,
+            tool: pending.toolName,
+            decision: result.decision,
+            ...(reason ? { mode: reason } : {})
+        });
+
+        this.session.updateAgentState((currentState) => {
+            const request = currentState.requests?.[id];
+            if (!request) return currentState;
+
+            const { [id]: _, ...remainingRequests } = currentState.requests || {};
+
+            let res = {
+                ...currentState,
+                requests: remainingRequests,
+                completedRequests: {
+                    ...currentState.completedRequests,
+                    [id]: {
+                        ...request,
+                        completedAt: Date.now(),
+                        status: approved ? 'approved' : 'denied',
+                        decision: result.decision,
+                        ...(reason ? { reason } : {})
+                    }
+                }
+            } satisfies AgentState;
+            return res;
+        });
+
+        logger.debug(`${this.getLogPrefix()} Permission ${approved ? 'approved' : 'denied'} for ${pending.toolName}${reason ? ` (${reason})` : ''}`);
+    }
+
+    /**
+     * Decide a request nobody answered, according to the configured timeout action.
+     * Pausing aborts the turn, which stops the agent until the next user message.
+     */
+    private handleTimeout(id: string): void {
+        const pending = this.pendingRequests.get(id);
+        if (!pending || !this.timeouts.config) {
+            return;
+        }
+        const outcome = resolvePermissionTimeout(this.timeouts.config.action, pending.toolName, pending.input);
+        const result: PermissionResult = {
+            decision: outcome === 'approved' ? 'approved' : outcome === 'paused' ? 'abort' : 'denied'
+        };
+        this.completeRequest(id, pending, result, permissionTimeoutReason(outcome));
+    }
+
+    /**
+     * Rules of the project the session runs in, the same ones the app edits.
+     */
+    protected getPermissionRules(): PermissionRules {
+        return PermissionRules.forProject(this.workingDirectory);
+    }
+
+    /**
+     * Apply the project's allow/deny rules to a tool call.
+     * Returns the result for a matching allow or deny rule, `'ask'` when a rule
+     * requires prompting, or null when no rule applies.
+     */
+    protected applyPermissionRules(toolCallId: string, toolName: string, input: unknown): PermissionResult | 'ask' | null {
+        const match = this.getPermissionRules().evaluate(toolName, input);
+        if (!match) {
+            return null;
+        }
+        if (match.action === 'ask') {
+            return 'ask';
+        }
+
+        const approved = match.action === 'allow';
+        logger.debug(`${this.getLogPrefix()} Project rule ${match.action}s ${toolName} (${toolCallId})`);
+        recordAuditEvent({
+            type: 'permission',
+            sessionId: this.session.sessionId,
+            tool: toolName,
+            decision: approved ? 'approved' : 'denied',
+            mode: 'project-rule'
+        });
+        this.session.updateAgentState((currentState) => ({
+            ...currentState,
+            completedRequests: {
+                ...currentState.completedRequests,
+                [toolCallId]: {
+                    tool: toolName,
+                    arguments: input,
+                    createdAt: Date.now(),
+                    completedAt: Date.now(),
+                    status: approved ? 'approved' : 'denied',
+                    reason: 'Project permission rule',
+                    decision: approved ? 'approved' : 'denied'
+                }
+            }
+        }));
+        return { decision: approved ? 'approved' : 'denied' };
+    }
+
+    /**
+     * Add a pending request to the agent state and start its timeout, if any.
      */
     protected addPendingRequestToState(toolCallId: string, toolName: string, input: unknown): void {
+        const timeoutAt = this.timeouts.start(toolCallId);
         this.session.updateAgentState((currentState) => ({
             ...currentState,
             requests: {
@@ -131,7 +229,8 @@ export abstract class BasePermissionHandler {
                 [toolCallId]: {
                     tool: toolName,
                     arguments: input,
-                    createdAt: Date.now()
+                    createdAt: Date.now(),
+                    ...(timeoutAt ? { timeoutAt, timeoutAction: this.timeouts.config!.action } : {})
                 }
             }
         }));
@@ -153,6 +252,7 @@ export abstract class BasePermissionHandler {
             // Snapshot pending requests to avoid Map mutation during iteration
             const pendingSnapshot = Array.from(this.pendingRequests.entries());
             this.pendingRequests.clear(); // Clear immediately to prevent new entries being processed
+            this.timeouts.clearAll();
 
             // Reject all pending requests from snapshot
             for (const [id, pending] of pendingSnapshot) {
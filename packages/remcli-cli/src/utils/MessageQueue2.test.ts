@@ -23,6 +23,18 @@ describe('MessageQueue2', () => {
         expect(queue.size()).toBe(0);
     });
 
+    it('should collect images from every message in a batch', async () => {
+        const queue = new MessageQueue2<string>(mode => mode);
+
+        queue.push('first', 'local', [{ mimeType: 'image/png', data: 'aaa' }]);
+        queue.push('second', 'local');
+        queue.push('third', 'local', [{ mimeType: 'image/jpeg', data: 'bbb' }]);
+
+        const result = await queue.waitForMessagesAndGetAsString();
+        expect(result?.message).toBe('first\nsecond\nthird');
+        expect(result?.images.map(i => i.data)).toEqual(['aaa', 'bbb']);
+    });
+
     it('should return only messages with same mode and keep others', async () => {
         const queue = new MessageQueue2<string>(mode => mode);
         
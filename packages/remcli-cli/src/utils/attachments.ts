@@ -0,0 +1,56 @@
+import { readFileSync } from 'node:fs';
+import { logger } from '@/ui/logger';
+import type { UserMessageAttachment } from '@/api/types';
+
+/**
+ * Image passed to an agent inline, as base64 data
+ */
+export interface ImageInput {
+    mimeType: string;
+    data: string;
+}
+
+// Image formats Claude and Gemini accept as inline content blocks
+const INLINE_IMAGE_MIME_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+
+export function isInlineImage(attachment: UserMessageAttachment): boolean {
+    return INLINE_IMAGE_MIME_TYPES.has(attachment.mimeType) && !!attachment.path;
+}
+
+/**
+ * Read downloaded image attachments so they can be sent as image content blocks.
+ * Attachments that fail to read are skipped.
+ */
+export function readInlineImages(attachments: UserMessageAttachment[] | undefined): ImageInput[] {
+    const images: ImageInput[] = [];
+    for (const attachment of attachments ?? []) {
+        if (!isInlineImage(attachment)) {
+            continue;
+        }
+        try {
+            images.push({
+                mimeType: attachment.mimeType,
+                data: readFileSync(attachment.path!).toString('base64')
+            });
+        } catch (error) {
+            logger.debug(`[attachments] Failed to read ${attachment.path}:`, error);
+        }
+    }
+    return images;
+}
+
+/**
+ * Append the local paths of attached files to the prompt text, so agents can
+ * open them with their own file tools.
+ *
+ * @param inlineImages - Whether images are already sent as content blocks and
+ *                       should not be listed
+ */
+export function appendAttachmentPaths(text: string, attachments: UserMessageAttachment[] | undefined, inlineImages: boolean): string {
+    const listed = (attachments ?? []).filter(a => a.path && !(inlineImages && isInlineImage(a)));
+    if (listed.length === 0) {
+        return text;
+    }
+    const lines = listed.map(a => `- ${a.name} (${a.mimeType}): ${a.path}`);
+    return `${text}\n\nAttached files:\n${lines.join('\n')}`;
+}
@@ -17,8 +17,9 @@ import packageJson from '../../package.json';
 
 /**
  * Backend flavor identifier for session metadata.
+ * ACP agents declared in settings.json use their configured name.
  */
-export type BackendFlavor = 'claude' | 'codex' | 'cursor' | 'gemini';
+export type BackendFlavor = 'claude' | 'codex' | 'cursor' | 'gemini' | (string & {});
 
 /**
  * Options for creating session metadata.
@@ -30,6 +31,8 @@ export interface CreateSessionMetadataOptions {
     machineId: string;
     /** How the session was started */
     startedBy?: 'daemon' | 'terminal';
+    /** Session this one was forked from */
+    forkedFrom?: string;
 }
 
 /**
@@ -82,7 +85,8 @@ export function createSessionMetadata(opts: CreateSessionMetadataOptions): Sessi
         startedBy: opts.startedBy || 'terminal',
         lifecycleState: 'running',
         lifecycleStateSince: Date.now(),
-        flavor: opts.flavor
+        flavor: opts.flavor,
+        ...(opts.forkedFrom ? { forkedFrom: opts.forkedFrom } : {})
     };
 
     return { state, metadata };
@@ -0,0 +1,359 @@
+/**
+ * Per-project permission rules
+ *
+ * Rules live in `~/.remcli/permissions/<hash of the project path>.json`, outside
+ * the project so a cloned repository or the agent itself can't grant
+ * permissions. Every permission handler (Claude, Codex, Gemini and local-mode
+ * hooks) checks them before a tool call is sent to the phone:
+ *
+ *   { "rules": [
+ *     { "action": "allow", "tool": "Bash", "command": "npm test*" },
+ *     { "action": "deny", "path": "secrets/**" },
+ *     { "action": "ask", "mcpServer": "github" }
+ *   ] }
+ *
+ * A rule matches when all of its conditions match:
+ * - tool: glob on the tool name (`Bash`, `Edit`, `mcp__*`)
+ * - command: glob on the shell command of Bash-like tools
+ * - path: glob on the files an edit tool touches, relative to the project.
+ *   Allow rules need every file to match, deny and ask rules any file.
+ * - mcpServer: glob on the MCP server of `mcp__<server>__<tool>` tools
+ *
+ * deny wins over ask, ask over allow. `ask` always prompts, even when the
+ * session allowlist or permission mode would have approved the call.
+ *
+ * Allow rules with wildcards never match commands that chain or redirect
+ * (`npm test*` does not allow `npm test && curl … | sh`). Tool calls that
+ * touch the rules directory ask, and so does every shell command that mentions
+ * `.remcli` or `permissions` at all. That check is best effort: a command can
+ * build the path at run time, so it does not make the rules file safe from an
+ * agent that is allowed to run arbitrary commands.
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from 'node:path';
+import * as z from 'zod';
+import { configuration } from '@/configuration';
+import { logger } from '@/ui/logger';
+import { RpcHandlerManager } from '@/api/rpc/RpcHandlerManager';
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export const PermissionRuleSchema = z.object({
+    action: z.enum(['allow', 'deny', 'ask']),
+    tool: z.string().min(1).optional(),
+    command: z.string().min(1).optional(),
+    path: z.string().min(1).optional(),
+    mcpServer: z.string().min(1).optional()
+}).refine((rule) => rule.tool || rule.command || rule.path || rule.mcpServer, {
+    message: 'A rule needs at least one of tool, command, path or mcpServer'
+});
+
+export type PermissionRule = z.infer<typeof PermissionRuleSchema>;
+
+export type PermissionRuleAction = PermissionRule['action'];
+
+export interface PermissionRuleMatch {
+    action: PermissionRuleAction;
+    rule: PermissionRule;
+}
+
+/** Chaining, piping, substitution and redirection in a shell command */
+const SHELL_OPERATORS = /[><|;&`$\n]/;
+
+/** Tools whose input carries a shell command */
+const COMMAND_TOOLS = new Set(['Bash', 'CodexBash', 'shell', 'run_shell_command', 'execute']);
+
+// ─── Rules ───────────────────────────────────────────────────────
+
+export class PermissionRules {
+    private static instances = new Map<string, PermissionRules>();
+
+    readonly projectDir: string;
+    readonly rulesDir: string;
+    readonly filePath: string;
+    private rules: PermissionRule[] = [];
+    private loadedMtimeMs: number | null = null;
+
+    /**
+     * Shared instance per project, so RPC edits and permission handlers see the same rules
+     */
+    static forProject(projectDir: string): PermissionRules {
+        const key = resolve(projectDir);
+        let instance = PermissionRules.instances.get(key);
+        if (!instance) {
+            instance = new PermissionRules(key);
+            PermissionRules.instances.set(key, instance);
+        }
+        return instance;
+    }
+
+    constructor(projectDir: string, rulesDir: string = join(configuration.remcliHomeDir, 'permissions')) {
+        this.projectDir = resolve(projectDir);
+        this.rulesDir = resolve(rulesDir);
+        const key = createHash('sha256').update(this.projectDir).digest('hex').slice(0, 16);
+        this.filePath = join(this.rulesDir, `${key}.json`);
+    }
+
+    getRules(): PermissionRule[] {
+        this.reloadIfChanged();
+        return [...this.rules];
+    }
+
+    setRules(rules: PermissionRule[]): void {
+        this.rules = rules.map((rule) => PermissionRuleSchema.parse(rule));
+        mkdirSync(dirname(this.filePath), { recursive: true });
+        writeFileSync(this.filePath, JSON.stringify({ projectDir: this.projectDir, rules: this.rules }, null, 2) + '\n');
+        this.loadedMtimeMs = statSync(this.filePath).mtimeMs;
+        logger.debug(`[PermissionRules] Saved ${this.rules.length} rule(s) to ${this.filePath}`);
+    }
+
+    /**
+     * Add a rule unless an identical one exists
+     */
+    addRule(rule: PermissionRule): void {
+        const rules = this.getRules();
+        if (!rules.some((existing) => JSON.stringify(existing) === JSON.stringify(rule))) {
+            this.setRules([...rules, rule]);
+        }
+    }
+
+    /**
+     * Strongest matching rule for a tool call, or null when no rule applies
+     */
+    evaluate(toolName: string, input: unknown): PermissionRuleMatch | null {
+        let best: PermissionRuleMatch | null = this.touchesRulesFile(toolName, input)
+            ? { action: 'ask', rule: { action: 'ask', path: this.filePath } }
+            : null;
+        for (const rule of this.getRules()) {
+            if (!this.matches(rule, toolName, input)) {
+                continue;
+            }
+            if (!best || ACTION_STRENGTH[rule.action] > ACTION_STRENGTH[best.action]) {
+                best = { action: rule.action, rule };
+            }
+        }
+        return best;
+    }
+
+    private matches(rule: PermissionRule, toolName: string, input: unknown): boolean {
+        if (rule.tool && !globToRegExp(rule.tool).test(toolName)) {
+            return false;
+        }
+        if (rule.mcpServer) {
+            const server = toolName.match(/^mcp__(.+?)__/)?.[1];
+            if (!server || !globToRegExp(rule.mcpServer).test(server)) {
+                return false;
+            }
+        }
+        if (rule.command) {
+            const command = getToolCommand(toolName, input);
+            if (command === null || !globToRegExp(rule.command).test(command)) {
+                return false;
+            }
+            // A wildcard must not stretch over `&&`, `|` and the like
+            if (rule.action === 'allow' && hasShellOperators(command) && hasWildcards(rule.command)) {
+                return false;
+            }
+        }
+        if (rule.path) {
+            const paths = getToolPaths(input).map((path) => {
+                const relativePath = relative(this.projectDir, isAbsolute(path) ? path : resolve(this.projectDir, path));
+                return relativePath.split('\\').join('/');
+            });
+            if (paths.length === 0) {
+                return false;
+            }
+            const pattern = globToRegExp(rule.path, true);
+            const test = (path: string) => pattern.test(path);
+            return rule.action === 'allow' ? paths.every(test) : paths.some(test);
+        }
+        return true;
+    }
+
+    /**
+     * Whether a tool call writes to a rules file, or is a shell command that
+     * mentions the remcli home or rules directory by name (`~`, `$HOME`, `cd`
+     * and relative paths all end in those names)
+     */
+    private touchesRulesFile(toolName: string, input: unknown): boolean {
+        const inRulesDir = (path: string) => {
+            const absolute = resolve(this.projectDir, path);
+            return absolute === this.rulesDir || absolute.startsWith(this.rulesDir + sep);
+        };
+        if (getToolPaths(input).some(inRulesDir)) {
+            return true;
+        }
+        const command = getToolCommand(toolName, input);
+        return command !== null && [basename(dirname(this.rulesDir)), basename(this.rulesDir)].some((name) => command.includes(name));
+    }
+
+    private reloadIfChanged(): void {
+        let mtimeMs: number | null = null;
+        try {
+            mtimeMs = existsSync(this.filePath) ? statSync(this.filePath).mtimeMs : null;
+        } catch {
+            mtimeMs = null;
+        }
+        if (mtimeMs === this.loadedMtimeMs) {
+            return;
+        }
+        this.loadedMtimeMs = mtimeMs;
+        this.rules = mtimeMs === null ? [] : this.readRulesFile();
+    }
+
+    private readRulesFile(): PermissionRule[] {
+        try {
+            const raw = JSON.parse(readFileSync(this.filePath, 'utf8'));
+            const rules: PermissionRule[] = [];
+            for (const entry of Array.isArray(raw?.rules) ? raw.rules : []) {
+                const parsed = PermissionRuleSchema.safeParse(entry);
+                if (parsed.success) {
+                    rules.push(parsed.data);
+                } else {
+                    logger.debug(`[PermissionRules] Skipping invalid rule in ${this.filePath}: ${JSON.stringify(entry)}`);
+                }
+            }
+            return rules;
+        } catch (error) {
+            logger.debug(`[PermissionRules] Failed to read ${this.filePath}:`, error);
+            return [];
+        }
+    }
+}
+
+const ACTION_STRENGTH: Record<PermissionRuleAction, number> = { allow: 0, ask: 1, deny: 2 };
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+/**
+ * The rule "remember for this project" saves for a tool call:
+ * the exact command for shell tools, the tool name otherwise
+ */
+export function ruleForToolCall(toolName: string, input: unknown, action: PermissionRuleAction): PermissionRule {
+    const command = getToolCommand(toolName, input);
+    if (command !== null) {
+        return { action, tool: toolName, command: escapeGlob(command) };
+    }
+    return { action, tool: toolName };
+}
+
+/**
+ * Short form for logs and agent messages, e.g. `deny path=secrets/**`
+ */
+export function describeRule(rule: PermissionRule): string {
+    const conditions = (['tool', 'mcpServer', 'command', 'path'] as const)
+        .filter((key) => rule[key])
+        .map((key) => `${key}=${rule[key]}`);
+    return [rule.action, ...conditions].join(' ');
+}
+
+/**
+ * Shell command of a Bash-like tool call. Codex sends argv, usually `bash -lc "<command>"`.
+ */
+export function getToolCommand(toolName: string, input: unknown): string | null {
+    if (!COMMAND_TOOLS.has(toolName) || !input || typeof input !== 'object') {
+        return null;
+    }
+    const command = (input as { command?: unknown }).command;
+    if (typeof command === 'string') {
+        return command;
+    }
+    if (Array.isArray(command) && command.every((part) => typeof part === 'string')) {
+        if (command.length === 3 && /^(ba|z)?sh$/.test(command[0].split('/').pop()!) && /^-l?c$/.test(command[1])) {
+            return command[2];
+        }
+        return command.join(' ');
+    }
+    return null;
+}
+
+/**
+ * Files a tool call touches (Edit/Write/NotebookEdit inputs, Codex patch changes)
+ */
+export function getToolPaths(input: unknown): string[] {
+    if (!input || typeof input !== 'object') {
+        return [];
+    }
+    const obj = input as Record<string, unknown>;
+    const paths: string[] = [];
+    for (const key of ['file_path', 'notebook_path', 'path']) {
+        if (typeof obj[key] === 'string') {
+            paths.push(obj[key] as string);
+        }
+    }
+    if (obj.changes && typeof obj.changes === 'object' && !Array.isArray(obj.changes)) {
+        paths.push(...Object.keys(obj.changes));
+    }
+    return paths;
+}
+
+/**
+ * `*` matches anything (within one path segment in path mode), `**` anything
+ * including `/`, `?` one character. Everything else is literal.
+ */
+export function globToRegExp(glob: string, pathMode = false): RegExp {
+    let pattern = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '\\' && i + 1 < glob.length) {
+            pattern += escapeRegExp(glob[++i]);
+        } else if (char === '*' && glob[i + 1] === '*') {
+            i++;
+            if (pathMode && glob[i + 1] === '/') {
+                // "dir/**/file" also matches "dir/file"
+                i++;
+                pattern += '(?:.*/)?';
+            } else {
+                pattern += '.*';
+            }
+        } else if (char === '*') {
+            pattern += pathMode ? '[^/]*' : '.*';
+        } else if (char === '?') {
+            pattern += pathMode ? '[^/]' : '.';
+        } else {
+            pattern += escapeRegExp(char);
+        }
+    }
+    return new RegExp(`^${pattern}$`, 's');
+}
+
+/**
+ * Whether a shell command chains, pipes, substitutes or redirects
+ */
+export function hasShellOperators(command: string): boolean {
+    return SHELL_OPERATORS.test(command);
+}
+
+function hasWildcards(glob: string): boolean {
+    return /(^|[^\\])[*?]/.test(glob.replace(/\\\\/g, ''));
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function escapeGlob(value: string): string {
+    return value.replace(/[\\*?]/g, '\\$&');
+}
+
+// ─── RPC ─────────────────────────────────────────────────────────
+
+/**
+ * `permission-rules` RPC for the app's rules screen:
+ * `{}` returns the rules, `{ rules }` replaces them
+ */
+export function registerPermissionRulesHandler(rpcHandlerManager: RpcHandlerManager, projectDir: string): void {
+    rpcHandlerManager.registerHandler<{ rules?: unknown[] }, { success: boolean; rules?: PermissionRule[]; path?: string; error?: string }>('permission-rules', async (data) => {
+        const rules = PermissionRules.forProject(projectDir);
+        try {
+            if (data?.rules) {
+                rules.setRules(z.array(PermissionRuleSchema).parse(data.rules));
+            }
+            return { success: true, rules: rules.getRules(), path: rules.filePath };
+        } catch (error) {
+            return { success: false, error: error instanceof Error ? error.message : 'Failed to update permission rules' };
+        }
+    });
+}
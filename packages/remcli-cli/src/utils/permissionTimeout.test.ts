@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { isReadOnlyToolCall, readPermissionTimeout } from './permissionTimeout';
+import { CodexPermissionHandler } from '@/codex/utils/permissionHandler';
+import { RpcHandlerManager } from '@/api/rpc/RpcHandlerManager';
+import type { AgentState } from '@/api/types';
+import type { PermissionSession } from '@/utils/BasePermissionHandler';
+
+vi.mock('@/ui/logger', () => ({
+    logger: {
+        debug: vi.fn()
+    }
+}));
+
+vi.mock('@/daemon/auditLog', () => ({
+    recordAuditEvent: vi.fn()
+}));
+
+function createSession(): PermissionSession & { readonly agentState: AgentState } {
+    let agentState: AgentState = {};
+    return {
+        sessionId: 'session-1',
+        rpcHandlerManager: new RpcHandlerManager({
+            scopePrefix: 'session-1',
+            encryptionKey: new Uint8Array(32),
+            encryptionVariant: 'legacy'
+        }),
+        updateAgentState: (updater: (state: AgentState) => AgentState) => {
+            agentState = updater(agentState);
+        },
+        get agentState() {
+            return agentState;
+        }
+    };
+}
+
+describe('permission timeouts', () => {
+    const env = { ...process.env };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        process.env = { ...env };
+    });
+
+    it('reads the timeout from the environment', () => {
+        expect(readPermissionTimeout({})).toBeNull();
+        expect(readPermissionTimeout({ REMCLI_PERMISSION_TIMEOUT: 'soon' })).toBeNull();
+        expect(readPermissionTimeout({ REMCLI_PERMISSION_TIMEOUT: '300' })).toEqual({ seconds: 300, action: 'deny' });
+        expect(readPermissionTimeout({ REMCLI_PERMISSION_TIMEOUT: '60', REMCLI_PERMISSION_TIMEOUT_ACTION: 'pause' })).toEqual({ seconds: 60, action: 'pause' });
+    });
+
+    it('recognises read-only tool calls', () => {
+        expect(isReadOnlyToolCall('Read', { file_path: 'a.ts' })).toBe(true);
+        expect(isReadOnlyToolCall('Bash', { command: 'git status' })).toBe(true);
+        expect(isReadOnlyToolCall('CodexBash', { command: ['bash', '-lc', 'ls -la src'] })).toBe(true);
+        expect(isReadOnlyToolCall('Bash', { command: 'cat a > b' })).toBe(false);
+        expect(isReadOnlyToolCall('Bash', { command: 'rg --pre=sh x' })).toBe(false);
+        expect(isReadOnlyToolCall('Bash', { command: 'tree -o out' })).toBe(false);
+        expect(isReadOnlyToolCall('Bash', { command: 'git push' })).toBe(false);
+        expect(isReadOnlyToolCall('Bash', { command: 'git diff --output=patch.diff' })).toBe(false);
+        expect(isReadOnlyToolCall('Bash', { command: 'git log -p --output patch.txt' })).toBe(false);
+        expect(isReadOnlyToolCall('Edit', { file_path: 'a.ts' })).toBe(false);
+    });
+
+    it('auto-decides unanswered requests with a timeout reason', async () => {
+        process.env.REMCLI_PERMISSION_TIMEOUT = '30';
+        process.env.REMCLI_PERMISSION_TIMEOUT_ACTION = 'approve-read-only';
+        const session = createSession();
+        const handler = new CodexPermissionHandler(session, '/work/project');
+
+        const read = handler.handleToolCall('call-1', 'CodexBash', { command: ['bash', '-lc', 'git diff'] });
+        const write = handler.handleToolCall('call-2', 'CodexBash', { command: ['bash', '-lc', 'rm -rf build'] });
+        expect(session.agentState.requests?.['call-1']).toMatchObject({ timeoutAction: 'approve-read-only', timeoutAt: Date.now() + 30_000 });
+
+        await vi.advanceTimersByTimeAsync(30_000);
+
+        await expect(read).resolves.toEqual({ decision: 'approved' });
+        await expect(write).resolves.toEqual({ decision: 'denied' });
+        expect(session.agentState.requests).toEqual({});
+        expect(session.agentState.completedRequests?.['call-1']).toMatchObject({ status: 'approved', reason: 'timeout:approved' });
+        expect(session.agentState.completedRequests?.['call-2']).toMatchObject({ status: 'denied', reason: 'timeout:denied' });
+    });
+
+    it('aborts the turn when pausing', async () => {
+        process.env.REMCLI_PERMISSION_TIMEOUT = '30';
+        process.env.REMCLI_PERMISSION_TIMEOUT_ACTION = 'pause';
+        const session = createSession();
+        const handler = new CodexPermissionHandler(session, '/work/project');
+
+        const result = handler.handleToolCall('call-1', 'CodexPatch', { changes: { 'a.ts': {} } });
+        await vi.advanceTimersByTimeAsync(29_000);
+        expect(session.agentState.requests?.['call-1']).toBeDefined();
+        await vi.advanceTimersByTimeAsync(1_000);
+
+        await expect(result).resolves.toEqual({ decision: 'abort' });
+        expect(session.agentState.completedRequests?.['call-1']).toMatchObject({ status: 'denied', decision: 'abort', reason: 'timeout:paused' });
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * Permission request timeouts
+ *
+ * A pending permission request normally waits until the phone answers. With a
+ * timeout configured (per profile, passed to the session as environment
+ * variables) the handler decides on its own once the time is up:
+ * - deny: reject the tool call and let the agent carry on without it
+ * - approve-read-only: approve tools that only read, deny everything else
+ * - pause: reject the tool call and stop the current turn until the user is back
+ *
+ * Auto-decisions are recorded in `AgentState.completedRequests` with a
+ * `timeout:<outcome>` reason so the app can tell them apart from user answers.
+ */
+
+import { logger } from '@/ui/logger';
+import { getToolCommand } from '@/utils/permissionRules';
+
+export const PERMISSION_TIMEOUT_ACTIONS = ['deny', 'approve-read-only', 'pause'] as const;
+
+export type PermissionTimeoutAction = typeof PERMISSION_TIMEOUT_ACTIONS[number];
+
+export interface PermissionTimeout {
+    seconds: number;
+    action: PermissionTimeoutAction;
+}
+
+/** What the handler did when a request timed out */
+export type PermissionTimeoutOutcome = 'approved' | 'denied' | 'paused';
+
+/** Reason stored in completedRequests for an auto-decision */
+export function permissionTimeoutReason(outcome: PermissionTimeoutOutcome): string {
+    return `timeout:${outcome}`;
+}
+
+/**
+ * Timeout for this session process, from REMCLI_PERMISSION_TIMEOUT (seconds)
+ * and REMCLI_PERMISSION_TIMEOUT_ACTION (defaults to deny)
+ */
+export function readPermissionTimeout(env: NodeJS.ProcessEnv = process.env): PermissionTimeout | null {
+    const seconds = Number(env.REMCLI_PERMISSION_TIMEOUT);
+    if (!env.REMCLI_PERMISSION_TIMEOUT || !Number.isFinite(seconds) || seconds <= 0) {
+        return null;
+    }
+    const action = env.REMCLI_PERMISSION_TIMEOUT_ACTION as PermissionTimeoutAction | undefined;
+    return {
+        seconds,
+        action: action && PERMISSION_TIMEOUT_ACTIONS.includes(action) ? action : 'deny'
+    };
+}
+
+/** Tools that never modify anything, across Claude, Gemini and ACP agents */
+const READ_ONLY_TOOLS = new Set([
+    'Read', 'Glob', 'Grep', 'LS', 'NotebookRead', 'WebFetch', 'WebSearch', 'TodoRead',
+    'read_file', 'read_many_files', 'list_directory', 'glob', 'search_file_content', 'google_web_search', 'web_fetch'
+]);
+
+/**
+ * Shell commands that only read whatever flags they get, when run without
+ * redirection or chaining. Commands with a writing or exec flag stay out
+ * (`rg --pre`, `tree -o`, `file -C`, `date -s`).
+ */
+const READ_ONLY_COMMANDS = new Set(['ls', 'cat', 'head', 'tail', 'wc', 'pwd', 'grep', 'stat', 'which', 'echo']);
+const READ_ONLY_GIT_SUBCOMMANDS = new Set(['status', 'log', 'diff', 'show', 'blame']);
+
+export function isReadOnlyToolCall(toolName: string, input: unknown): boolean {
+    if (READ_ONLY_TOOLS.has(toolName)) {
+        return true;
+    }
+    const command = getToolCommand(toolName, input);
+    if (command === null || /[><|;&`$\n]/.test(command)) {
+        return false;
+    }
+    const [program, subcommand, ...args] = command.trim().split(/\s+/);
+    if (program === 'git') {
+        // `git diff/log/show --output=<file>` writes the file
+        return READ_ONLY_GIT_SUBCOMMANDS.has(subcommand) && !args.some((arg) => arg.startsWith('--output'));
+    }
+    return READ_ONLY_COMMANDS.has(program);
+}
+
+export function resolvePermissionTimeout(action: PermissionTimeoutAction, toolName: string, input: unknown): PermissionTimeoutOutcome {
+    switch (action) {
+        case 'approve-read-only':
+            return isReadOnlyToolCall(toolName, input) ? 'approved' : 'denied';
+        case 'pause':
+            return 'paused';
+        case 'deny':
+            return 'denied';
+    }
+}
+
+/**
+ * One timer per pending request
+ */
+export class PermissionTimeoutTimers {
+    private timers = new Map<string, NodeJS.Timeout>();
+
+    constructor(
+        readonly config: PermissionTimeout | null,
+        private readonly onTimeout: (requestId: string) => void
+    ) { }
+
+    /**
+     * Start the countdown for a request; returns when it expires, or null without a timeout
+     */
+    start(requestId: string): number | null {
+        if (!this.config) {
+            return null;
+        }
+        this.clear(requestId);
+        const ms = this.config.seconds * 1000;
+        this.timers.set(requestId, setTimeout(() => {
+            this.timers.delete(requestId);
+            logger.debug(`[PermissionTimeout] Request ${requestId} timed out after ${this.config!.seconds}s (${this.config!.action})`);
+            this.onTimeout(requestId);
+        }, ms));
+        return Date.now() + ms;
+    }
+
+    clear(requestId: string): void {
+        const timer = this.timers.get(requestId);
+        if (timer) {
+            clearTimeout(timer);
+            this.timers.delete(requestId);
+        }
+    }
+
+    clearAll(): void {
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+    }
+}